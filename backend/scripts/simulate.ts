@@ -0,0 +1,478 @@
+import axios, { type AxiosInstance } from 'axios';
+import { io as connectSocket, type Socket } from 'socket.io-client';
+import { BotStrategyRegistry, type BotStrategy } from '../src/services/botStrategies';
+import { configForRound } from '../src/services/treatments';
+import type { UIConfig } from '../src/engines/GameEngine';
+import type { Player, Round, Session } from '../src/types';
+
+/**
+ * Classroom simulator and load test.
+ *
+ * Plays a whole session against a running backend the way a lecture would:
+ * creates the session as an instructor, joins every student through the
+ * HTTP join flow, connects each one over its own socket and plays the rounds
+ * with the game's bot strategy. Actions go through `submit-action` like the
+ * student UI's, with an ack so each one can be timed end to end.
+ *
+ * It reports join and connect times, action latency, broadcasts students
+ * never received (round starts and ends the monitor saw) and how long each
+ * round actually ran.
+ *
+ *   npm run simulate -- --url http://localhost:3000 --game public_goods --students 150
+ *
+ * Run `npm run simulate -- --help` for every option.
+ */
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --url <url>            Backend to test (default http://localhost:3000)
+  --game <type>          Game type to play (default public_goods)
+  --students <n>         Simulated students (default 150)
+  --rounds <n>           Rounds to play (default 3)
+  --seconds <n>          Seconds per round (default 60)
+  --market-size <n>      Market size (default: the number of students)
+  --config <json>        Game config overrides, e.g. '{"endowment":20}'
+  --email <email>        Instructor account, created if it doesn't exist
+                         (default loadtest@example.com)
+  --password <password>  Its password (default $SIMULATE_PASSWORD or loadtest-password)
+  --batch <n>            Students joining at once (default 25)
+  --ack-timeout <ms>     How long to wait for an action's ack (default 10000)
+`;
+
+// Students join a few at a time, like a room full of phones
+const JOIN_BATCH_DEFAULT = 25;
+
+// Longest to wait for every student's socket before giving up (milliseconds)
+const CONNECT_TIMEOUT_MS = 60_000;
+
+// How long after a round broadcast a student must have it to not count as dropped
+const BROADCAST_GRACE_MS = 5_000;
+
+// Think time before a move, as the bots use (milliseconds)
+const MOVE_DELAY_MS = [1000, 5000] as const;
+const REPLY_DELAY_MS = [1000, 3000] as const;
+const DA_INTERVAL_MS = [3000, 12000] as const;
+
+interface Options {
+  url: string;
+  game: string;
+  students: number;
+  rounds: number;
+  seconds: number;
+  marketSize: number;
+  config: Record<string, any>;
+  email: string;
+  password: string;
+  batch: number;
+  ackTimeoutMs: number;
+}
+
+interface ActionAck {
+  success: boolean;
+  error?: string;
+}
+
+// How the game's strategy plays, checked in the order BotService checks it
+type PlayStyle = 'double_auction' | 'sequential' | 'specialized' | 'simultaneous';
+
+interface Student {
+  index: number;
+  player: Player;
+  token: string;
+  socket: Socket;
+  // Round timers and the round being played, cleared when it ends
+  timers: NodeJS.Timeout[];
+  round: Round | null;
+  roundStartedAt: number;
+}
+
+interface RoundStats {
+  roundNumber: number;
+  startedAt: number | null;
+  endedAt: number | null;
+  latenciesMs: number[];
+  rejected: Map<string, number>;
+  ackTimeouts: number;
+  // Students who got each broadcast, by player id
+  heardStart: Set<string>;
+  heardEnd: Set<string>;
+}
+
+function parseOptions(argv: string[]): Options {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (!arg.startsWith('--') || i + 1 >= argv.length) {
+      throw new Error(`Unexpected argument "${arg}"\n\n${USAGE}`);
+    }
+    flags.set(arg.slice(2), argv[++i]);
+  }
+
+  const number = (name: string, fallback: number, min: number) => {
+    const raw = flags.get(name);
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) throw new Error(`--${name} must be a whole number of at least ${min}`);
+    return value;
+  };
+
+  let config: Record<string, any> = {};
+  if (flags.has('config')) {
+    try {
+      config = JSON.parse(flags.get('config')!);
+    } catch {
+      throw new Error('--config must be a JSON object');
+    }
+  }
+
+  const students = number('students', 150, 2);
+  return {
+    url: (flags.get('url') || 'http://localhost:3000').replace(/\/$/, ''),
+    game: flags.get('game') || 'public_goods',
+    students,
+    rounds: number('rounds', 3, 1),
+    seconds: number('seconds', 60, 10),
+    marketSize: number('market-size', students, 2),
+    config,
+    email: flags.get('email') || 'loadtest@example.com',
+    password: flags.get('password') || process.env.SIMULATE_PASSWORD || 'loadtest-password',
+    batch: number('batch', JOIN_BATCH_DEFAULT, 1),
+    ackTimeoutMs: number('ack-timeout', 10_000, 100),
+  };
+}
+
+const between = ([min, max]: readonly [number, number]) => min + Math.random() * (max - min);
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function describeLatency(values: number[]): string {
+  if (values.length === 0) return 'no actions';
+  const fmt = (ms: number) => `${Math.round(ms)}ms`;
+  return `n=${values.length} p50=${fmt(percentile(values, 50))} p95=${fmt(percentile(values, 95))} ` +
+    `p99=${fmt(percentile(values, 99))} max=${fmt(Math.max(...values))}`;
+}
+
+function playStyleOf(strategy: BotStrategy): PlayStyle {
+  if (strategy.getDAAction) return 'double_auction';
+  if (strategy.getFirstMoveAction) return 'sequential';
+  if (strategy.getSpecializedActions) return 'specialized';
+  return 'simultaneous';
+}
+
+/** Log in as the load-test instructor, creating the account the first time */
+async function instructorToken(api: AxiosInstance, email: string, password: string): Promise<string> {
+  const login = await api.post('/auth/login', { email, password }, { validateStatus: () => true });
+  if (login.status === 200) return login.data.data.token;
+  if (login.status !== 401) throw new Error(`Login failed: ${login.data?.error || login.status}`);
+
+  const register = await api.post('/auth/register', { email, password, name: 'Load test' }, { validateStatus: () => true });
+  if (register.status !== 201) throw new Error(`Could not log in or register ${email}: ${register.data?.error || register.status}`);
+  return register.data.data.token;
+}
+
+/** Resolve with the socket's next `event`, or null if it doesn't come in time */
+function nextEvent<T>(socket: Socket, event: string, timeoutMs: number): Promise<T | null> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      socket.off(event, listener);
+      resolve(null);
+    }, timeoutMs);
+    const listener = (data: T) => {
+      clearTimeout(timer);
+      resolve(data);
+    };
+    socket.once(event, listener);
+  });
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const api = axios.create({ baseURL: `${options.url}/api` });
+
+  const strategy = BotStrategyRegistry.get(options.game);
+  if (!strategy) throw new Error(`No bot strategy for "${options.game}"`);
+  const style = playStyleOf(strategy);
+
+  const gameTypes: { gameType: string; config: UIConfig }[] = (await api.get('/game-types')).data.data;
+  const uiConfig = gameTypes.find(t => t.gameType === options.game)?.config;
+  if (!uiConfig) throw new Error(`The server has no game type "${options.game}"`);
+  const firstMoverRole = uiConfig.roles[0]?.role;
+
+  const instructor = await instructorToken(api, options.email, options.password);
+  const asInstructor = { headers: { Authorization: `Bearer ${instructor}` } };
+
+  // Session with the game's default config, as the create form would send it
+  const defaults = Object.fromEntries(uiConfig.configFields
+    .filter(field => !field.daOnly || uiConfig.usesOrderBook)
+    .map(field => [field.name, field.default]));
+  const created = await api.post('/sessions', {
+    game_type: options.game,
+    game_config: {
+      ...defaults,
+      ...options.config,
+      market_size: options.marketSize,
+      num_rounds: options.rounds,
+      time_per_round: options.seconds,
+    },
+    market_size: options.marketSize,
+    num_rounds: options.rounds,
+    time_per_round: options.seconds,
+    valuation_min: 20,
+    valuation_max: 60,
+    valuation_increments: 10,
+    cost_min: 15,
+    cost_max: 55,
+    cost_increments: 10,
+    auto_advance: true,
+    tags: { purpose: 'load-test' },
+  }, asInstructor);
+  const session: Session = created.data.data;
+  const sessionCode = session.code;
+  console.log(`Session ${sessionCode}: ${uiConfig.name}, ${options.students} students, ` +
+    `${options.rounds} rounds of ${options.seconds}s (${style})`);
+
+  const rounds = new Map<number, RoundStats>();
+  const statsFor = (roundNumber: number) => {
+    let stats = rounds.get(roundNumber);
+    if (!stats) {
+      stats = {
+        roundNumber, startedAt: null, endedAt: null, latenciesMs: [], rejected: new Map(),
+        ackTimeouts: 0, heardStart: new Set(), heardEnd: new Set(),
+      };
+      rounds.set(roundNumber, stats);
+    }
+    return stats;
+  };
+  const roundNumbers = new Map<string, number>();
+  let disconnects = 0;
+
+  // The monitor only listens to the market room; it is the reference for
+  // when rounds really started and ended
+  const monitor = connectSocket(options.url, { transports: ['websocket'], auth: { token: instructor } });
+  const sessionEnded = new Promise<void>(resolve => monitor.once('session-ended', () => resolve()));
+  monitor.on('connect', () => monitor.emit('join-market', { sessionCode, playerId: 'load-test-monitor' }));
+  monitor.on('round-started', ({ round, roundNumber }: { round: Round; roundNumber: number }) => {
+    roundNumbers.set(round.id, roundNumber);
+    statsFor(roundNumber).startedAt ??= Date.now();
+  });
+  monitor.on('round-ended', ({ roundId }: { roundId: string }) => {
+    const roundNumber = roundNumbers.get(roundId);
+    if (roundNumber !== undefined) statsFor(roundNumber).endedAt ??= Date.now();
+  });
+
+  // Join everyone through the HTTP flow
+  const joinTimes: number[] = [];
+  const joined: { player: Player; token: string }[] = [];
+  for (let start = 0; start < options.students; start += options.batch) {
+    const batch = Array.from({ length: Math.min(options.batch, options.students - start) }, (_, i) => start + i);
+    await Promise.all(batch.map(async index => {
+      const began = Date.now();
+      const res = await api.post('/players/join', { code: sessionCode, name: `Student ${index + 1}` });
+      joinTimes.push(Date.now() - began);
+      joined[index] = { player: res.data.data.player, token: res.data.data.token };
+    }));
+  }
+  console.log(`Joined ${joined.length} students: ${describeLatency(joinTimes)}`);
+
+  // One socket each, joining the rooms the student page joins
+  const connectTimes: number[] = [];
+  const students: Student[] = await Promise.all(joined.map(({ player, token }, index) => new Promise<Student>((resolve, reject) => {
+    const began = Date.now();
+    const socket = connectSocket(options.url, { transports: ['websocket'], reconnection: true });
+    const student: Student = { index, player, token, socket, timers: [], round: null, roundStartedAt: 0 };
+    const timer = setTimeout(() => reject(new Error(`Student ${index + 1} could not connect`)), CONNECT_TIMEOUT_MS);
+    socket.on('connect', () => {
+      socket.emit('join-session', { sessionCode, playerId: player.id });
+      socket.emit('join-market', { sessionCode, playerId: player.id, token });
+      connectTimes[index] ??= Date.now() - began;
+      clearTimeout(timer);
+      resolve(student);
+    });
+    socket.on('disconnect', reason => {
+      if (reason !== 'io client disconnect') disconnects++;
+    });
+  })));
+  console.log(`Connected ${students.length} sockets: ${describeLatency(connectTimes.filter(Boolean))}`);
+  // Let the join-market handlers finish before the round starts
+  await sleep(1000);
+
+  // Everything a student needs to play, refreshed when the session starts
+  const players = new Map<string, Player>();
+  const submit = async (student: Student, action: Record<string, any>) => {
+    const round = student.round;
+    if (!round) return;
+    const stats = statsFor(round.round_number);
+    const began = Date.now();
+    const ack = await new Promise<ActionAck | null>(resolve => {
+      student.socket.timeout(options.ackTimeoutMs).emit('submit-action', {
+        roundId: round.id, playerId: student.player.id, sessionCode, action,
+      }, (err: Error | null, response: ActionAck) => resolve(err ? null : response));
+    });
+    if (!ack) {
+      stats.ackTimeouts++;
+      return;
+    }
+    stats.latenciesMs.push(Date.now() - began);
+    if (!ack.success) {
+      const reason = ack.error || 'unknown error';
+      stats.rejected.set(reason, (stats.rejected.get(reason) ?? 0) + 1);
+    }
+  };
+
+  const later = (student: Student, delayMs: number, run: () => Promise<void> | void) => {
+    student.timers.push(setTimeout(() => {
+      Promise.resolve(run()).catch(err => console.error(`Student ${student.index + 1}:`, err.message));
+    }, delayMs));
+  };
+
+  const gameState = async (student: Student, round: Round) => {
+    student.socket.emit('get-game-state', { sessionCode, roundId: round.id, playerId: student.player.id });
+    return (await nextEvent<Record<string, any>>(student.socket, 'game-state', options.ackTimeoutMs)) ?? {};
+  };
+
+  const play = (student: Student, round: Round) => {
+    const player = players.get(student.player.id) ?? student.player;
+    const roundNumber = round.round_number;
+    const config = { ...configForRound(session, roundNumber), time_per_round: session.time_per_round };
+
+    if (style === 'double_auction') {
+      const tick = async () => {
+        if (student.round?.id !== round.id) return;
+        const elapsed = (Date.now() - student.roundStartedAt) / 1000;
+        const state = { ...(await gameState(student, round)), roundNumber };
+        const action = strategy.getDAAction!(player, config, state, elapsed, []);
+        if (action) await submit(student, action);
+        later(student, between(DA_INTERVAL_MS), tick);
+      };
+      later(student, between([1000, 3000]), tick);
+    } else if (style === 'sequential') {
+      if (player.role !== firstMoverRole) return;
+      later(student, between(MOVE_DELAY_MS), async () => {
+        const action = strategy.getFirstMoveAction!(player, config, roundNumber, []);
+        if (action) await submit(student, action);
+      });
+    } else if (style === 'specialized') {
+      later(student, 0, async () => {
+        const state = await gameState(student, round);
+        for (const { action, delayMs } of strategy.getSpecializedActions!(player, config, state, roundNumber, [])) {
+          later(student, delayMs, () => submit(student, action));
+        }
+      });
+    } else {
+      later(student, between(MOVE_DELAY_MS), async () => {
+        const action = strategy.getSimultaneousAction?.(player, config, roundNumber, []);
+        if (action) await submit(student, action);
+      });
+    }
+  };
+
+  const startPlaying = (student: Student, round: Round) => {
+    if (student.round?.id === round.id) return;
+    student.round = round;
+    student.roundStartedAt = Date.now();
+    statsFor(round.round_number).heardStart.add(student.player.id);
+    play(student, round);
+  };
+
+  const stopPlaying = (student: Student, roundId: string) => {
+    const roundNumber = roundNumbers.get(roundId) ?? student.round?.round_number;
+    if (roundNumber !== undefined) statsFor(roundNumber).heardEnd.add(student.player.id);
+    if (student.round?.id !== roundId) return;
+    for (const timer of student.timers) clearTimeout(timer);
+    student.timers = [];
+    student.round = null;
+  };
+
+  for (const student of students) {
+    student.socket.on('round-started', ({ round }: { round: Round }) => startPlaying(student, round));
+    student.socket.on('round-ended', ({ roundId }: { roundId: string }) => stopPlaying(student, roundId));
+    student.socket.on('partner-first-move', ({ action }: { action: Record<string, any> }) => {
+      const round = student.round;
+      const player = players.get(student.player.id) ?? student.player;
+      if (!round || !strategy.getSecondMoveAction) return;
+      const config = configForRound(session, round.round_number);
+      later(student, between(REPLY_DELAY_MS), async () => {
+        const reply = strategy.getSecondMoveAction!(player, config, action, round.round_number, []);
+        if (reply) await submit(student, reply);
+      });
+    });
+  }
+
+  // Round 1 starts over HTTP, which broadcasts nothing; students pick it up
+  // as the student page does, from the session's rounds
+  const startedAt = Date.now();
+  await api.post(`/sessions/${session.id}/start`, {}, asInstructor);
+  const firstRound = ((await api.get(`/sessions/${session.id}/rounds`)).data.data as Round[])
+    .find(r => r.round_number === 1)!;
+  roundNumbers.set(firstRound.id, 1);
+  statsFor(1).startedAt = startedAt;
+  const roster: Player[] = (await api.get(`/sessions/${session.id}/players`, asInstructor)).data.data;
+  for (const p of roster) players.set(p.id, p);
+  for (const student of students) startPlaying(student, firstRound);
+  console.log('Session started');
+
+  const deadlineMs = options.rounds * (options.seconds + 30) * 1000 + 60_000;
+  const finished = await Promise.race([sessionEnded.then(() => true), sleep(deadlineMs).then(() => false)]);
+  // Stragglers may still be on their way
+  await sleep(BROADCAST_GRACE_MS);
+
+  for (const student of students) {
+    for (const timer of student.timers) clearTimeout(timer);
+    student.socket.disconnect();
+  }
+  monitor.disconnect();
+
+  report(options, [...rounds.values()].sort((a, b) => a.roundNumber - b.roundNumber), students.length, disconnects);
+  if (!finished) {
+    console.error(`The session did not end within ${Math.round(deadlineMs / 1000)}s`);
+    process.exitCode = 1;
+  }
+}
+
+function report(options: Options, rounds: RoundStats[], studentCount: number, disconnects: number): void {
+  console.log('\nRound  Length   Gap    Missed start  Missed end  Ack timeouts  Rejected  Latency');
+  let previousEnd: number | null = null;
+  for (const stats of rounds) {
+    const length = stats.startedAt && stats.endedAt ? `${((stats.endedAt - stats.startedAt) / 1000).toFixed(1)}s` : '-';
+    const gap = previousEnd && stats.startedAt ? `${((stats.startedAt - previousEnd) / 1000).toFixed(1)}s` : '-';
+    const rejected = [...stats.rejected.values()].reduce((sum, n) => sum + n, 0);
+    console.log([
+      String(stats.roundNumber).padEnd(6),
+      length.padEnd(8),
+      gap.padEnd(6),
+      String(studentCount - stats.heardStart.size).padEnd(13),
+      String(stats.endedAt ? studentCount - stats.heardEnd.size : '-').padEnd(11),
+      String(stats.ackTimeouts).padEnd(13),
+      String(rejected).padEnd(9),
+      describeLatency(stats.latenciesMs),
+    ].join(' '));
+    previousEnd = stats.endedAt;
+  }
+
+  const all = rounds.flatMap(stats => stats.latenciesMs);
+  console.log(`\nAll actions: ${describeLatency(all)}`);
+  const reasons = new Map<string, number>();
+  for (const stats of rounds) {
+    for (const [reason, count] of stats.rejected) reasons.set(reason, (reasons.get(reason) ?? 0) + count);
+  }
+  for (const [reason, count] of reasons) console.log(`  rejected ${count}x: ${reason}`);
+  console.log(`Unexpected disconnects: ${disconnects}`);
+  console.log(`Rounds played: ${rounds.filter(stats => stats.endedAt).length} of ${options.rounds}`);
+}
+
+main().then(
+  () => process.exit(),
+  err => {
+    console.error(axios.isAxiosError(err) ? `${err.config?.url}: ${err.response?.data?.error || err.message}` : err.message);
+    process.exit(1);
+  },
+);
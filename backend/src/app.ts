@@ -5,6 +5,8 @@ import sessionRoutes from './routes/sessions';
 import playerRoutes from './routes/players';
 import gameRoutes from './routes/game';
 import exportRoutes from './routes/export';
+import authRoutes from './routes/auth';
+import analyticsRoutes from './routes/analytics';
 
 // Initialize all game engines (must be imported before routes/sockets)
 import './engines';
@@ -77,10 +79,12 @@ app.get('/api/game-types', (_req, res) => {
 });
 
 // API Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/sessions', sessionRoutes);
 app.use('/api/players', playerRoutes);
 app.use('/api/game', gameRoutes);
 app.use('/api/sessions', exportRoutes);
+app.use('/api/analytics', analyticsRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -0,0 +1,19 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const DEV_FALLBACK_SECRET = 'econ-games-dev-secret';
+
+/**
+ * Secret used to sign player and instructor tokens.
+ * Falls back to a fixed development secret locally; refuses to run without
+ * JWT_SECRET in production, where a guessable secret would let anyone mint tokens.
+ */
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  return DEV_FALLBACK_SECRET;
+}
@@ -1,4 +1,6 @@
 import { createClient } from 'redis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -26,11 +28,15 @@ export const redisClient = createClient({
 
 let redisConnected = false;
 
+// Settles once the first connection attempt is over: true if Redis is usable
+export let redisReady: Promise<boolean> = Promise.resolve(false);
+
 // Only attempt connection if REDIS_URL is configured
 if (REDIS_URL) {
-  redisClient.connect().catch((err) => {
+  redisReady = redisClient.connect().then(() => true, (err) => {
     console.error('Redis connection error:', err.message);
     console.warn('Continuing without Redis. Some features may not work.');
+    return false;
   });
 
   redisClient.on('connect', () => {
@@ -90,4 +96,56 @@ export const deleteCache = async (key: string) => {
   }
 };
 
+// Locks held by this process, used when there is no Redis to share them
+const localLocks = new Set<string>();
+
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end
+  return 0`;
+
+/**
+ * Take a lock every backend instance respects, for work that must happen
+ * once however many instances see the trigger. It expires after `ttlMs` in
+ * case the holder dies. Without Redis it only guards this process.
+ * Returns a function that releases it, or null if it is already held.
+ */
+export const acquireLock = async (key: string, ttlMs: number): Promise<(() => Promise<void>) | null> => {
+  if (!redisConnected) {
+    if (localLocks.has(key)) return null;
+    localLocks.add(key);
+    return async () => { localLocks.delete(key); };
+  }
+
+  const token = randomUUID();
+  const taken = await redisClient.set(`lock:${key}`, token, {
+    condition: 'NX',
+    expiration: { type: 'PX', value: ttlMs },
+  });
+  if (taken !== 'OK') return null;
+  return async () => {
+    try {
+      // Only release our own lock, not one taken after ours expired
+      await redisClient.eval(RELEASE_LOCK_SCRIPT, { keys: [`lock:${key}`], arguments: [token] });
+    } catch (error) {
+      console.error('Redis releaseLock error:', error);
+    }
+  };
+};
+
+/**
+ * A socket.io adapter that shares rooms and broadcasts between backend
+ * instances, or null when Redis isn't available (one instance on its own).
+ */
+export const createSocketAdapter = async (): Promise<ReturnType<typeof createAdapter> | null> => {
+  if (!(await redisReady)) return null;
+  const pubClient = redisClient.duplicate();
+  const subClient = redisClient.duplicate();
+  pubClient.on('error', (err) => console.error('Redis adapter error:', err.message));
+  subClient.on('error', (err) => console.error('Redis adapter error:', err.message));
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+  return createAdapter(pubClient, subClient);
+};
+
+export const isRedisConnected = () => redisConnected;
+
 export default redisClient;
@@ -0,0 +1,80 @@
+import type { Request, Response } from 'express';
+import { SessionModel } from '../models/Session';
+import { PlayerModel } from '../models/Player';
+import { RoundModel } from '../models/Round';
+import { TradeModel } from '../models/Trade';
+import { GameResultModel } from '../models/GameResult';
+import { GameActionModel } from '../models/GameAction';
+import { compareSessions, ComparisonSessionInput } from '../services/sessionComparison';
+import type { Session } from '../types';
+
+/** Most sessions one comparison will load */
+const MAX_COMPARED_SESSIONS = 20;
+
+/** Query prefix for tag filters, e.g. ?tag.course=ECON101 */
+const TAG_FILTER_PREFIX = 'tag.';
+
+async function loadComparisonInput(session: Session): Promise<ComparisonSessionInput> {
+  const [players, rounds, actions, results, trades] = await Promise.all([
+    PlayerModel.findBySession(session.id),
+    RoundModel.findBySession(session.id),
+    GameActionModel.findBySession(session.id),
+    GameResultModel.findBySession(session.id),
+    TradeModel.findBySession(session.id),
+  ]);
+  return { session, players, rounds, actions, results, trades };
+}
+
+/**
+ * Compare the signed-in instructor's sessions side by side and pooled by tag.
+ * Sessions are picked by id (?sessionIds=a,b) or by tag (?tag.course=ECON101);
+ * ?groupBy=semester pools them by that tag's value.
+ */
+async function compare(req: Request, res: Response) {
+  try {
+    const ownerId = req.instructor!.instructorId;
+    const sessionIds = typeof req.query.sessionIds === 'string'
+      ? req.query.sessionIds.split(',').map((id) => id.trim()).filter(Boolean)
+      : [];
+    const tagFilter: Record<string, string> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key.startsWith(TAG_FILTER_PREFIX) && typeof value === 'string' && value) {
+        tagFilter[key.slice(TAG_FILTER_PREFIX.length)] = value;
+      }
+    }
+    const groupBy = typeof req.query.groupBy === 'string' && req.query.groupBy ? req.query.groupBy : null;
+
+    let sessions: Session[];
+    if (sessionIds.length > 0) {
+      const found = await Promise.all(sessionIds.map((id) => SessionModel.findById(id)));
+      if (found.some((s) => !s)) {
+        return res.status(404).json({ success: false, error: 'Session not found' });
+      }
+      if (found.some((s) => s!.owner_id !== ownerId)) {
+        return res.status(403).json({ success: false, error: 'You can only compare your own sessions' });
+      }
+      sessions = found as Session[];
+      // Tag filters narrow an explicit selection too
+      sessions = sessions.filter((s) => Object.entries(tagFilter).every(([k, v]) => s.tags?.[k] === v));
+    } else if (Object.keys(tagFilter).length > 0) {
+      sessions = await SessionModel.findByOwnerAndTags(ownerId, tagFilter);
+    } else {
+      return res.status(400).json({ success: false, error: 'Select sessions with sessionIds or tag.<name> filters' });
+    }
+
+    if (sessions.length > MAX_COMPARED_SESSIONS) {
+      return res.status(400).json({
+        success: false,
+        error: `At most ${MAX_COMPARED_SESSIONS} sessions can be compared at once`,
+      });
+    }
+
+    const inputs = await Promise.all(sessions.map(loadComparisonInput));
+    res.json({ success: true, data: compareSessions(inputs, groupBy) });
+  } catch (error) {
+    console.error('Error comparing sessions:', error);
+    res.status(500).json({ success: false, error: 'Failed to compare sessions' });
+  }
+}
+
+export const AnalyticsController = { compare };
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { InstructorModel } from '../models/Instructor';
+import { InstructorCredentials, Instructor, ApiResponse } from '../types';
+import { signInstructorToken } from '../middleware/instructorAuth';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Never send the password hash back to the client
+function publicInstructor(instructor: Instructor) {
+  const { password_hash: _ph, ...safe } = instructor;
+  return safe;
+}
+
+function issueToken(instructor: Instructor): string {
+  return signInstructorToken({ instructorId: instructor.id, email: instructor.email });
+}
+
+export class AuthController {
+  // Create an instructor account and sign them in
+  static async register(req: Request, res: Response) {
+    try {
+      const { email, password, name }: InstructorCredentials = req.body || {};
+
+      const errors: string[] = [];
+      if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+        errors.push('A valid email is required');
+      }
+      if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: errors.length === 1 ? errors[0] : 'Validation failed',
+          errors,
+        } as ApiResponse);
+        return;
+      }
+
+      if (await InstructorModel.findByEmail(email)) {
+        res.status(409).json({
+          success: false,
+          error: 'An account with that email already exists'
+        } as ApiResponse);
+        return;
+      }
+
+      const cleanName = typeof name === 'string' ? name.replace(/<[^>]*>/g, '').trim().slice(0, 100) : undefined;
+      const instructor = await InstructorModel.create(email, password, cleanName || undefined);
+
+      res.status(201).json({
+        success: true,
+        data: { instructor: publicInstructor(instructor), token: issueToken(instructor) },
+        message: 'Account created'
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error registering instructor:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create account'
+      } as ApiResponse);
+    }
+  }
+
+  // Log in with email + password
+  static async login(req: Request, res: Response) {
+    try {
+      const { email, password }: InstructorCredentials = req.body || {};
+      if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Email and password are required'
+        } as ApiResponse);
+        return;
+      }
+
+      const instructor = await InstructorModel.authenticate(email, password);
+      if (!instructor) {
+        res.status(401).json({
+          success: false,
+          error: 'Incorrect email or password'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { instructor: publicInstructor(instructor), token: issueToken(instructor) }
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error logging in instructor:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to log in'
+      } as ApiResponse);
+    }
+  }
+
+  // Get the signed-in instructor (requireInstructor has already run)
+  static async me(req: Request, res: Response) {
+    try {
+      const instructor = await InstructorModel.findById(req.instructor!.instructorId);
+      if (!instructor) {
+        res.status(401).json({
+          success: false,
+          error: 'Instructor account no longer exists'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: publicInstructor(instructor)
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error getting instructor:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get instructor'
+      } as ApiResponse);
+    }
+  }
+}
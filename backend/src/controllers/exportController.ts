@@ -5,18 +5,53 @@ import { RoundModel } from '../models/Round';
 import { TradeModel } from '../models/Trade';
 import { GameResultModel } from '../models/GameResult';
 import { GameActionModel } from '../models/GameAction';
+import { RoundPairingModel } from '../models/RoundPairing';
+import { RoundValueModel } from '../models/RoundValue';
+import { BidModel } from '../models/Bid';
+import { AskModel } from '../models/Ask';
+import { computeBenchmarks } from '../services/benchmarks';
+import { loadSessionResults } from '../services/sessionResults';
+import {
+  SessionExportInput,
+  archiveFiles,
+  csvEscape,
+  eventRows,
+  panelRows,
+  sessionBundle,
+  toCsv,
+} from '../services/sessionExport';
+import { createZip } from '../services/zip';
+import type { Session } from '../types';
 
 const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
 
-/** Escape a string for use inside a double-quoted CSV field.
- *  Also neutralizes formula injection by prefixing dangerous leading characters. */
-function csvEscape(value: string): string {
-  let escaped = value.replace(/"/g, '""');
-  // Prevent CSV/formula injection in spreadsheet applications
-  if (/^[=+\-@\t\r]/.test(escaped)) {
-    escaped = "'" + escaped;
-  }
-  return escaped;
+/**
+ * Load every row recorded for a session, for the long-form export formats
+ */
+async function loadExportInput(session: Session): Promise<SessionExportInput> {
+  const [players, rounds, actions, results, trades, bids, asks, values, pairings] = await Promise.all([
+    PlayerModel.findBySession(session.id),
+    RoundModel.findBySession(session.id),
+    GameActionModel.findBySession(session.id),
+    GameResultModel.findBySession(session.id),
+    TradeModel.findBySession(session.id),
+    BidModel.findBySession(session.id),
+    AskModel.findBySession(session.id),
+    RoundValueModel.findBySession(session.id),
+    RoundPairingModel.findBySession(session.id),
+  ]);
+  const benchmarks = computeBenchmarks({
+    gameType: session.game_type,
+    config: session.game_config || {},
+    players,
+    roundValues: values,
+  });
+  return { session, players, rounds, actions, results, trades, bids, asks, values, pairings, benchmarks };
+}
+
+/** Base name for downloaded export files */
+function exportFilename(session: Session, suffix: string): string {
+  return `${session.code}_${session.game_type}_${suffix}_${new Date().toISOString().slice(0, 10)}`;
 }
 
 /**
@@ -29,100 +64,7 @@ async function getResults(req: Request, res: Response) {
       return res.status(404).json({ success: false, error: 'Session not found' });
     }
 
-    const [players, rounds] = await Promise.all([
-      PlayerModel.findBySession(session.id),
-      RoundModel.findBySession(session.id),
-    ]);
-
-    const isDA = DA_GAME_TYPES.includes(session.game_type);
-
-    // Build per-round data
-    const roundResults = await Promise.all(
-      rounds.map(async (round) => {
-        if (isDA) {
-          const trades = await TradeModel.findByRound(round.id);
-          return {
-            roundNumber: round.round_number,
-            roundId: round.id,
-            status: round.status,
-            startedAt: round.started_at,
-            endedAt: round.ended_at,
-            trades: trades.map((t) => ({
-              price: Number(t.price),
-              buyerId: t.buyer_id,
-              sellerId: t.seller_id,
-              buyerProfit: Number(t.buyer_profit),
-              sellerProfit: Number(t.seller_profit),
-              time: t.created_at,
-            })),
-          };
-        } else {
-          const [results, actions] = await Promise.all([
-            GameResultModel.findByRound(round.id),
-            GameActionModel.findByRound(round.id),
-          ]);
-          return {
-            roundNumber: round.round_number,
-            roundId: round.id,
-            status: round.status,
-            startedAt: round.started_at,
-            endedAt: round.ended_at,
-            actions: actions.map((a) => ({
-              playerId: a.player_id,
-              actionType: a.action_type,
-              actionData: a.action_data,
-              time: a.created_at,
-            })),
-            results: results.map((r) => ({
-              playerId: r.player_id,
-              profit: Number(r.profit),
-              resultData: r.result_data,
-            })),
-          };
-        }
-      })
-    );
-
-    // Player summary
-    const playerSummary = players.map((p) => ({
-      id: p.id,
-      name: p.name,
-      role: p.role,
-      valuation: p.valuation != null ? Number(p.valuation) : null,
-      productionCost: p.production_cost != null ? Number(p.production_cost) : null,
-      totalProfit: Number(p.total_profit),
-      isBot: p.is_bot,
-    }));
-
-    // Calculate aggregate stats (Number() wrap needed — pg returns DECIMAL as string)
-    const profits = players.map((p) => Number(p.total_profit));
-    const avgProfit = profits.length > 0 ? profits.reduce((a, b) => a + b, 0) / profits.length : 0;
-    const maxProfit = profits.length > 0 ? Math.max(...profits) : 0;
-    const minProfit = profits.length > 0 ? Math.min(...profits) : 0;
-
-    res.json({
-      success: true,
-      data: {
-        session: {
-          id: session.id,
-          code: session.code,
-          gameType: session.game_type,
-          gameConfig: session.game_config,
-          numRounds: session.num_rounds,
-          status: session.status,
-          marketSize: session.market_size,
-        },
-        players: playerSummary,
-        rounds: roundResults,
-        stats: {
-          totalPlayers: players.length,
-          completedRounds: rounds.filter((r) => r.status === 'completed').length,
-          avgProfit: parseFloat(avgProfit.toFixed(2)),
-          maxProfit: parseFloat(maxProfit.toFixed(2)),
-          minProfit: parseFloat(minProfit.toFixed(2)),
-        },
-      },
-    });
+    res.json({ success: true, data: await loadSessionResults(session) });
   } catch (error) {
     console.error('Error fetching results:', error);
     res.status(500).json({ success: false, error: 'Failed to fetch results' });
@@ -149,7 +91,11 @@ async function exportCSV(req: Request, res: Response) {
 
     let csv = '';
 
-    if (type === 'players') {
+    if (type === 'panel' || type === 'events') {
+      // Long-form tables, available for every game type
+      const input = await loadExportInput(session);
+      csv = toCsv(type === 'panel' ? panelRows(input) : eventRows(input));
+    } else if (type === 'players') {
       // Player summary CSV
       csv = 'PlayerName,Role,Valuation,ProductionCost,TotalProfit,IsBot\n';
       for (const p of players) {
@@ -237,11 +183,47 @@ async function exportCSV(req: Request, res: Response) {
           csv += `${round.round_number},"${info?.name || 'Unknown'}","${info?.role || ''}","${a.action_type}","${JSON.stringify(a.action_data).replace(/"/g, '""')}",${a.created_at}\n`;
         }
       }
+    } else if (type === 'pairings' && !isDA) {
+      // Per-round pairing CSV for sequential games
+      csv = 'Round,Matching,FirstMoverName,FirstMoverId,SecondMoverName,SecondMoverId\n';
+      const playerNames = new Map(players.map((p) => [p.id, csvEscape(p.name || 'Anonymous')]));
+      const pairings = await RoundPairingModel.findBySession(session.id);
+
+      for (const pr of pairings) {
+        csv += `${pr.round_number},"${pr.matching}","${playerNames.get(pr.first_mover_id) || 'Unknown'}",${pr.first_mover_id},"${playerNames.get(pr.second_mover_id) || 'Unknown'}",${pr.second_mover_id}\n`;
+      }
+    } else if (type === 'values' && isDA) {
+      // Per-round induced values for DA games, one row per trader unit
+      csv = 'Round,PlayerName,PlayerId,Role,Unit,Value\n';
+      const playerNames = new Map(players.map((p) => [p.id, csvEscape(p.name || 'Anonymous')]));
+      const values = await RoundValueModel.findBySession(session.id);
+
+      for (const v of values) {
+        v.unit_values.forEach((value, i) => {
+          csv += `${v.round_number},"${playerNames.get(v.player_id) || 'Unknown'}",${v.player_id},"${v.role}",${i + 1},${Number(value)}\n`;
+        });
+      }
+    } else if (type === 'orders' && isDA) {
+      // Full DA order flow (posted, filled, cancelled, replaced, expired) for replay
+      csv = 'Round,Side,PlayerName,PlayerId,Unit,Price,Status,PostedAt,ClosedAt\n';
+      const playerNames = new Map(players.map((p) => [p.id, csvEscape(p.name || 'Anonymous')]));
+      const [bids, asks] = await Promise.all([
+        BidModel.findBySession(session.id),
+        AskModel.findBySession(session.id),
+      ]);
+      const orders = [
+        ...bids.map((o) => ({ ...o, side: 'bid' })),
+        ...asks.map((o) => ({ ...o, side: 'ask' })),
+      ].sort((a, b) => a.round_number - b.round_number || new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+      for (const o of orders) {
+        csv += `${o.round_number},"${o.side}","${playerNames.get(o.player_id) || 'Unknown'}",${o.player_id},${o.unit_number ?? 1},${Number(o.price)},"${o.status || (o.is_active ? 'open' : 'expired')}",${o.created_at},${o.closed_at ?? ''}\n`;
+      }
     } else {
-      return res.status(400).json({ success: false, error: 'Invalid export type. Use: players, rounds, trades (DA only), or actions (non-DA only)' });
+      return res.status(400).json({ success: false, error: 'Invalid export type. Use: players, rounds, panel, events, trades, values or orders (DA only), actions or pairings (non-DA only)' });
     }
 
-    const filename = `${session.code}_${session.game_type}_${type}_${new Date().toISOString().slice(0, 10)}.csv`;
+    const filename = `${exportFilename(session, type)}.csv`;
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     res.send(csv);
@@ -251,4 +233,45 @@ async function exportCSV(req: Request, res: Response) {
   }
 }
 
-export const ExportController = { getResults, exportCSV };
+/**
+ * Export the full session as one JSON document
+ */
+async function exportBundle(req: Request, res: Response) {
+  try {
+    const session = await SessionModel.findById(req.params.id as string);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    const bundle = sessionBundle(await loadExportInput(session));
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(session, 'bundle')}.json"`);
+    res.send(JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    console.error('Error exporting session bundle:', error);
+    res.status(500).json({ success: false, error: 'Failed to export session bundle' });
+  }
+}
+
+/**
+ * Export a zip of the panel, event log and player tables with a codebook,
+ * the JSON bundle and Stata/R loaders
+ */
+async function exportZip(req: Request, res: Response) {
+  try {
+    const session = await SessionModel.findById(req.params.id as string);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    const zip = createZip(archiveFiles(await loadExportInput(session)));
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(session, 'data')}.zip"`);
+    res.send(zip);
+  } catch (error) {
+    console.error('Error exporting session archive:', error);
+    res.status(500).json({ success: false, error: 'Failed to export session archive' });
+  }
+}
+
+export const ExportController = { getResults, exportCSV, exportBundle, exportZip };
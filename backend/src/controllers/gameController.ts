@@ -2,154 +2,9 @@ import { Request, Response } from 'express';
 import { BidModel } from '../models/Bid';
 import { AskModel } from '../models/Ask';
 import { TradeModel } from '../models/Trade';
-import { PlayerModel } from '../models/Player';
-import { SubmitBidRequest, SubmitAskRequest, ApiResponse } from '../types';
-import { RoundModel } from '../models/Round';
-import { validateBid, validateAsk } from '../services/gameLogic';
+import { ApiResponse } from '../types';
 
 export class GameController {
-  // Submit bid
-  static async submitBid(req: Request, res: Response) {
-    try {
-      const { round_id, player_id, price }: SubmitBidRequest = req.body;
-
-      // Validate inputs
-      if (!round_id || !player_id || price === undefined || price === null) {
-        res.status(400).json({
-          success: false,
-          error: 'Missing required fields'
-        } as ApiResponse);
-        return;
-      }
-
-      // Validate price is a finite number (must run BEFORE validateBid to catch NaN)
-      if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
-        res.status(400).json({
-          success: false,
-          error: 'Price must be a valid non-negative number'
-        } as ApiResponse);
-        return;
-      }
-
-      // Get player
-      const player = await PlayerModel.findById(player_id);
-      if (!player) {
-        res.status(404).json({
-          success: false,
-          error: 'Player not found'
-        } as ApiResponse);
-        return;
-      }
-
-      // Validate bid against player's valuation
-      const validation = validateBid(price, player);
-      if (!validation.valid) {
-        res.status(400).json({
-          success: false,
-          error: validation.error
-        } as ApiResponse);
-        return;
-      }
-
-      // Check round is active
-      const round = await RoundModel.findById(round_id);
-      if (!round || round.status !== 'active') {
-        res.status(409).json({
-          success: false,
-          error: 'Round is not active'
-        } as ApiResponse);
-        return;
-      }
-
-      // Submit bid
-      const bid = await BidModel.create(round_id, player_id, price);
-
-      res.status(201).json({
-        success: true,
-        data: bid,
-        message: 'Bid submitted successfully'
-      } as ApiResponse);
-
-    } catch (error) {
-      console.error('Error submitting bid:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to submit bid'
-      } as ApiResponse);
-    }
-  }
-
-  // Submit ask
-  static async submitAsk(req: Request, res: Response) {
-    try {
-      const { round_id, player_id, price }: SubmitAskRequest = req.body;
-
-      // Validate inputs
-      if (!round_id || !player_id || price === undefined || price === null) {
-        res.status(400).json({
-          success: false,
-          error: 'Missing required fields'
-        } as ApiResponse);
-        return;
-      }
-
-      // Validate price is a finite number (must run BEFORE validateAsk to catch NaN)
-      if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
-        res.status(400).json({
-          success: false,
-          error: 'Price must be a valid non-negative number'
-        } as ApiResponse);
-        return;
-      }
-
-      // Get player
-      const player = await PlayerModel.findById(player_id);
-      if (!player) {
-        res.status(404).json({
-          success: false,
-          error: 'Player not found'
-        } as ApiResponse);
-        return;
-      }
-
-      // Validate ask against player's production cost
-      const validation = validateAsk(price, player);
-      if (!validation.valid) {
-        res.status(400).json({
-          success: false,
-          error: validation.error
-        } as ApiResponse);
-        return;
-      }
-
-      // Check round is active
-      const askRound = await RoundModel.findById(round_id);
-      if (!askRound || askRound.status !== 'active') {
-        res.status(409).json({
-          success: false,
-          error: 'Round is not active'
-        } as ApiResponse);
-        return;
-      }
-
-      // Submit ask
-      const ask = await AskModel.create(round_id, player_id, price);
-
-      res.status(201).json({
-        success: true,
-        data: ask,
-        message: 'Ask submitted successfully'
-      } as ApiResponse);
-
-    } catch (error) {
-      console.error('Error submitting ask:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to submit ask'
-      } as ApiResponse);
-    }
-  }
-
   // Get order book
   static async getOrderBook(req: Request, res: Response) {
     try {
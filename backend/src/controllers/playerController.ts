@@ -1,48 +1,20 @@
 import { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
 import { SessionModel } from '../models/Session';
 import { PlayerModel } from '../models/Player';
+import { JoinRequestModel } from '../models/JoinRequest';
 import { JoinSessionRequest, ApiResponse } from '../types';
-import { generateValuations, generateProductionCosts } from '../services/gameLogic';
-
-// Game types that use the DA buyer/seller role system
-const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
-
-// Default role for non-DA game types
-const GAME_ROLES: Record<string, string> = {
-  bertrand: 'firm',
-  cournot: 'firm',
-  public_goods: 'player',
-  negative_externality: 'firm',
-  ultimatum: 'proposer',
-  gift_exchange: 'employer',
-  principal_agent: 'principal',
-  comparative_advantage: 'country',
-  monopoly: 'monopolist',
-  market_for_lemons: 'seller',
-  discovery_process: 'producer',
-  ellsberg: 'chooser',
-  newsvendor: 'manager',
-  dutch_auction: 'bidder',
-  english_auction: 'bidder',
-  discriminative_auction: 'bidder',
-  posted_offer: 'seller',
-  lindahl: 'voter',
-  pg_auction: 'voter',
-  sealed_bid_offer: 'buyer',
-  sponsored_search: 'advertiser',
-};
-
-// Games where players alternate between two roles
-const PAIRED_ROLES: Record<string, [string, string]> = {
-  ultimatum: ['proposer', 'responder'],
-  bargaining: ['proposer', 'responder'],
-  gift_exchange: ['employer', 'worker'],
-  principal_agent: ['principal', 'agent'],
-  trust_game: ['sender', 'receiver'],
-  market_for_lemons: ['seller', 'buyer'],
-  posted_offer: ['seller', 'buyer'],
-  sealed_bid_offer: ['buyer', 'seller'],
-};
+import { BotService } from '../services/BotService';
+import { createPlayerForSession } from '../services/seating';
+import { signPlayerToken } from '../middleware/playerAuth';
+
+// Most late-join requests a session holds at once, so a shared code can't flood the monitor
+const MAX_PENDING_JOIN_REQUESTS = 20;
+
+// The late joiner's proof that a join request is theirs; only its hash is stored
+function hashPollSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
 
 // Sanitize player name: strip HTML tags, limit length
 function sanitizeName(raw: string | undefined): string {
@@ -75,10 +47,10 @@ export class PlayerController {
         return;
       }
 
-      if (session.status !== 'waiting') {
+      if (session.status === 'completed' || session.status === 'cancelled') {
         res.status(409).json({
           success: false,
-          error: 'Session already started'
+          error: 'Session has ended'
         } as ApiResponse);
         return;
       }
@@ -94,68 +66,42 @@ export class PlayerController {
         }
       }
 
-      const gameType = session.game_type || 'double_auction';
-      let player: import('../types').Player | null = null;
-
-      if (DA_GAME_TYPES.includes(gameType)) {
-        // DA games: assign buyer/seller roles with valuations/costs
-        // Role assignment + capacity check happen atomically inside the transaction
-        player = await PlayerModel.createWithRoleAssignment(
-          session.id,
-          session.market_size,
-          name,
-          false,
-          (existingPlayers) => {
-            const currentBuyers = existingPlayers.filter(p => p.role === 'buyer').length;
-            const currentSellers = existingPlayers.filter(p => p.role === 'seller').length;
-            const role: 'buyer' | 'seller' = currentBuyers <= currentSellers ? 'buyer' : 'seller';
-
-            let value: number;
-            if (role === 'buyer') {
-              const valuations = generateValuations(
-                session.valuation_min,
-                session.valuation_max,
-                session.valuation_increments,
-                1
-              );
-              value = valuations[0];
-            } else {
-              const costs = generateProductionCosts(
-                session.cost_min,
-                session.cost_max,
-                session.cost_increments,
-                1
-              );
-              value = costs[0];
-            }
+      // Once the session is running the instructor decides where latecomers sit
+      if (session.status === 'active') {
+        const pending = await JoinRequestModel.findPendingBySession(session.id);
+        if (pending.length >= MAX_PENDING_JOIN_REQUESTS) {
+          res.status(429).json({
+            success: false,
+            error: 'Too many students are waiting to join — ask your instructor'
+          } as ApiResponse);
+          return;
+        }
 
-            const valueColumn = role === 'buyer' ? 'valuation' as const : 'production_cost' as const;
-            return { role, valueColumn, value };
-          }
-        );
-      } else if (PAIRED_ROLES[gameType]) {
-        // Paired games: alternate between two roles (atomic role assignment)
-        const [role1, role2] = PAIRED_ROLES[gameType];
-        player = await PlayerModel.createWithRoleAssignment(
-          session.id,
-          session.market_size,
-          name,
-          false,
-          (existingPlayers) => {
-            const role1Count = existingPlayers.filter(p => p.role === role1).length;
-            const role2Count = existingPlayers.filter(p => p.role === role2).length;
-            const role = role1Count <= role2Count ? role1 : role2;
-            return { role };
-          }
-        );
-      } else {
-        // Uniform-role games (Bertrand, Cournot, Public Goods, etc.)
-        const role = GAME_ROLES[gameType] || 'player';
-        player = await PlayerModel.createWithCapacityCheck(
-          session.id, session.market_size, role, name
-        );
+        const pollSecret = randomBytes(24).toString('base64url');
+        const request = await JoinRequestModel.create(session.id, name, hashPollSecret(pollSecret));
+        BotService.getInstance().getIO()?.to(`admin-${session.code}`).emit('late-join-requested', {
+          request,
+          timestamp: new Date().toISOString(),
+        });
+
+        res.status(202).json({
+          success: true,
+          data: {
+            request: { id: request.id, status: request.status },
+            pollSecret,
+            session: {
+              id: session.id,
+              code: session.code,
+              status: session.status
+            }
+          },
+          message: 'Waiting for the instructor to let you in'
+        } as ApiResponse);
+        return;
       }
 
+      const player = await createPlayerForSession(session, name);
+
       // Atomic capacity check returned null — session is full
       if (!player) {
         res.status(409).json({
@@ -173,10 +119,18 @@ export class PlayerController {
         production_cost: player.production_cost != null ? Number(player.production_cost) : null,
       };
 
+      // The socket layer only lets this token's holder act as this player
+      const token = signPlayerToken({
+        playerId: player.id,
+        sessionId: session.id,
+        sessionCode: session.code,
+      });
+
       res.status(201).json({
         success: true,
         data: {
           player: sanitizedPlayer,
+          token,
           session: {
             id: session.id,
             code: session.code,
@@ -195,6 +149,88 @@ export class PlayerController {
     }
   }
 
+  // Check on a late-join request; once approved, hand over the seat's token (once).
+  // Only the student holding the request's poll secret can see it.
+  static async getJoinRequest(req: Request, res: Response) {
+    try {
+      const id = req.params.id as string;
+      const pollSecret = req.headers['x-join-secret'];
+      if (typeof pollSecret !== 'string' || !pollSecret) {
+        res.status(401).json({
+          success: false,
+          error: 'Join request secret required'
+        } as ApiResponse);
+        return;
+      }
+
+      const request = await JoinRequestModel.findByIdAndSecret(id, hashPollSecret(pollSecret));
+      if (!request) {
+        res.status(404).json({
+          success: false,
+          error: 'Join request not found'
+        } as ApiResponse);
+        return;
+      }
+
+      // An approved request may not have its seat yet; the student polls again
+      const status = { id: request.id, status: request.status };
+      const player = request.status === 'approved' && request.player_id
+        ? await PlayerModel.findById(request.player_id)
+        : null;
+      const session = player ? await SessionModel.findById(player.session_id) : null;
+      if (!player || !session) {
+        res.json({
+          success: true,
+          data: { request: status }
+        } as ApiResponse);
+        return;
+      }
+
+      if (!(await JoinRequestModel.issueToken(request.id))) {
+        res.status(409).json({
+          success: false,
+          error: 'This seat has already been handed over'
+        } as ApiResponse);
+        return;
+      }
+
+      // Convert DECIMAL columns from strings to numbers (pg driver returns DECIMAL as string)
+      const sanitizedPlayer = {
+        ...player,
+        total_profit: Number(player.total_profit ?? 0),
+        valuation: player.valuation != null ? Number(player.valuation) : null,
+        production_cost: player.production_cost != null ? Number(player.production_cost) : null,
+      };
+
+      const token = signPlayerToken({
+        playerId: player.id,
+        sessionId: session.id,
+        sessionCode: session.code,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          request: status,
+          player: sanitizedPlayer,
+          token,
+          session: {
+            id: session.id,
+            code: session.code,
+            status: session.status
+          }
+        }
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error getting join request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get join request'
+      } as ApiResponse);
+    }
+  }
+
   // Get player info
   static async getPlayer(req: Request, res: Response) {
     try {
@@ -2,80 +2,160 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { SessionModel } from '../models/Session';
 import { PlayerModel } from '../models/Player';
+import { JoinRequestModel } from '../models/JoinRequest';
 import { RoundModel } from '../models/Round';
-import { CreateSessionRequest, ApiResponse } from '../types';
+import { CreateSessionRequest, ApiResponse, Session } from '../types';
 import { GameRegistry } from '../engines';
 import { BotService } from '../services/BotService';
+import { checkAdminAccess } from '../middleware/adminAuth';
+import { ClusterLeader } from '../services/ClusterLeader';
+import { PresenceService, validateAbsentPolicy } from '../services/PresenceService';
+import { normalizeTags } from '../services/sessionTags';
+import { cannotSimulate, exceedsPreviewLimits, simulateSession } from '../services/simulation';
+import { configForRound, normalizeTreatments } from '../services/treatments';
+
+/**
+ * A session's roster as the caller may see it. Without admin access that is
+ * no ids (which name a player's private routes) and no one's values.
+ */
+async function rosterFor(req: Request, session: Session): Promise<Record<string, any>[]> {
+  const players = await PlayerModel.findBySession(session.id);
+
+  if (await checkAdminAccess(req, session)) {
+    return players.map((p) => ({
+      name: p.name,
+      role: p.role,
+      is_bot: p.is_bot,
+      is_active: p.is_active,
+      total_profit: Number(p.total_profit ?? 0),
+    }));
+  }
 
-export class SessionController {
-  // Create new session
-  static async create(req: Request, res: Response) {
-    try {
-      const sessionData: CreateSessionRequest = req.body;
+  // Normalize DECIMAL fields from string to number
+  return players.map((p: any) => ({
+    ...p,
+    total_profit: p.total_profit != null ? Number(p.total_profit) : p.total_profit,
+    valuation: p.valuation != null ? Number(p.valuation) : p.valuation,
+    production_cost: p.production_cost != null ? Number(p.production_cost) : p.production_cost,
+  }));
+}
 
-      // Normalize common game_type aliases
-      const GAME_TYPE_ALIASES: Record<string, string> = {
-        'da_price_controls': 'double_auction_price_controls',
-        'da_tax': 'double_auction_tax',
-        'da': 'double_auction',
-      };
-      if (sessionData.game_type && GAME_TYPE_ALIASES[sessionData.game_type]) {
-        sessionData.game_type = GAME_TYPE_ALIASES[sessionData.game_type] as any;
-      }
+/**
+ * Normalize a create-session body in place and check it, including the
+ * engine's own config rules. Returns the 400 response if it is invalid.
+ */
+function checkSessionRequest(sessionData: CreateSessionRequest): ApiResponse | null {
+  // Normalize common game_type aliases
+  const GAME_TYPE_ALIASES: Record<string, string> = {
+    'da_price_controls': 'double_auction_price_controls',
+    'da_tax': 'double_auction_tax',
+    'da': 'double_auction',
+  };
+  if (sessionData.game_type && GAME_TYPE_ALIASES[sessionData.game_type]) {
+    sessionData.game_type = GAME_TYPE_ALIASES[sessionData.game_type] as any;
+  }
 
-      // Sync top-level fields from game_config if the engine defines them there
-      const gc = sessionData.game_config || {};
-      if (gc.market_size) sessionData.market_size = Number(gc.market_size);
-      if (gc.num_rounds) sessionData.num_rounds = Number(gc.num_rounds);
-      if (gc.time_per_round) sessionData.time_per_round = Number(gc.time_per_round);
+  // Sync top-level fields from game_config if the engine defines them there
+  const gc = sessionData.game_config || {};
+  if (gc.market_size) sessionData.market_size = Number(gc.market_size);
+  if (gc.num_rounds) sessionData.num_rounds = Number(gc.num_rounds);
+  if (gc.time_per_round) sessionData.time_per_round = Number(gc.time_per_round);
 
-      // Validate required fields
-      const errors: string[] = [];
+  // Validate required fields
+  const errors: string[] = [];
 
-      if (!sessionData.game_type) {
-        errors.push('game_type is required');
-      } else if (!GameRegistry.has(sessionData.game_type)) {
-        const available = GameRegistry.list().join(', ');
-        errors.push(`Invalid game_type "${sessionData.game_type}". Available types: ${available}`);
-      }
+  if (!sessionData.game_type) {
+    errors.push('game_type is required');
+  } else if (!GameRegistry.has(sessionData.game_type)) {
+    const available = GameRegistry.list().join(', ');
+    errors.push(`Invalid game_type "${sessionData.game_type}". Available types: ${available}`);
+  }
 
-      if (!sessionData.market_size || sessionData.market_size < 2) {
-        errors.push('market_size must be at least 2');
-      }
+  if (!sessionData.market_size || sessionData.market_size < 2) {
+    errors.push('market_size must be at least 2');
+  }
 
-      if (!sessionData.num_rounds || sessionData.num_rounds < 1) {
-        errors.push('num_rounds must be at least 1');
-      }
+  if (!sessionData.num_rounds || sessionData.num_rounds < 1) {
+    errors.push('num_rounds must be at least 1');
+  }
 
-      if (!sessionData.time_per_round || sessionData.time_per_round < 10) {
-        errors.push('time_per_round must be at least 10 seconds');
-      }
+  if (!sessionData.time_per_round || sessionData.time_per_round < 10) {
+    errors.push('time_per_round must be at least 10 seconds');
+  }
 
-      if (errors.length > 0) {
-        res.status(400).json({
+  const tagCheck = normalizeTags(sessionData.tags);
+  if (tagCheck.valid) {
+    sessionData.tags = tagCheck.tags;
+  } else {
+    errors.push(tagCheck.error);
+  }
+
+  const treatmentCheck = normalizeTreatments(sessionData.treatments, sessionData.num_rounds);
+  if (treatmentCheck.valid) {
+    sessionData.treatments = treatmentCheck.treatments;
+  } else {
+    errors.push(treatmentCheck.error);
+  }
+
+  const absentError = validateAbsentPolicy(sessionData.absent_policy, sessionData.absent_grace_seconds);
+  if (absentError) {
+    errors.push(absentError);
+  }
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      error: errors.length === 1 ? errors[0] : 'Validation failed',
+      errors,
+    } as ApiResponse;
+  }
+
+  // Run engine-specific config validation
+  if (sessionData.game_type) {
+    try {
+      const engine = GameRegistry.get(sessionData.game_type);
+      const validation = engine.validateConfig(sessionData.game_config || {});
+      if (!validation.valid) {
+        return {
           success: false,
-          error: errors.length === 1 ? errors[0] : 'Validation failed',
-          errors,
-        } as ApiResponse);
-        return;
+          error: validation.error || 'Invalid game configuration',
+        };
       }
 
-      // Run engine-specific config validation
-      if (sessionData.game_type) {
-        try {
-          const engine = GameRegistry.get(sessionData.game_type);
-          const validation = engine.validateConfig(sessionData.game_config || {});
-          if (!validation.valid) {
-            res.status(400).json({
-              success: false,
-              error: validation.error || 'Invalid game configuration',
-            } as ApiResponse);
-            return;
-          }
-        } catch (_) {
-          // Engine not found already handled above
+      // Each treatment block must also be a valid config on its own
+      for (const block of sessionData.treatments || []) {
+        const blockValidation = engine.validateConfig(configForRound(sessionData, block.startRound));
+        if (!blockValidation.valid) {
+          return {
+            success: false,
+            error: `Treatment "${block.label}": ${blockValidation.error || 'invalid game configuration'}`,
+          };
         }
       }
+    } catch (_) {
+      // Engine not found already handled above
+    }
+  }
+
+  return null;
+}
+
+export class SessionController {
+  // Create new session
+  static async create(req: Request, res: Response) {
+    try {
+      const sessionData: CreateSessionRequest = req.body;
+
+      // Sessions belong to the signed-in instructor; owner access replaces the
+      // per-session admin password, so don't store one
+      sessionData.owner_id = req.instructor!.instructorId;
+      delete sessionData.admin_password;
+
+      const invalid = checkSessionRequest(sessionData);
+      if (invalid) {
+        res.status(400).json(invalid);
+        return;
+      }
 
       // Create session
       const session = await SessionModel.create(sessionData);
@@ -128,6 +208,41 @@ export class SessionController {
     }
   }
 
+  // Play a session configuration through with bots only and return its results
+  static async simulate(req: Request, res: Response) {
+    try {
+      const sessionData: CreateSessionRequest = { ...req.body };
+      delete sessionData.admin_password;
+
+      const invalid = checkSessionRequest(sessionData);
+      if (invalid) {
+        res.status(400).json(invalid);
+        return;
+      }
+
+      const unsupported = cannotSimulate(sessionData.game_type!) ?? exceedsPreviewLimits(sessionData);
+      if (unsupported) {
+        res.status(400).json({
+          success: false,
+          error: unsupported,
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await simulateSession(sessionData, req.instructor!.instructorId),
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error simulating session:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to simulate session'
+      } as ApiResponse);
+    }
+  }
+
   // Get session by ID
   static async getById(req: Request, res: Response) {
     try {
@@ -142,17 +257,8 @@ export class SessionController {
         return;
       }
 
-      // Get players
-      const players = await PlayerModel.findBySession(session.id);
-
       // Strip secrets from response
       const { passcode, admin_password, ...sessionData } = session;
-      const normalizedPlayers = players.map((p: any) => ({
-        ...p,
-        total_profit: p.total_profit != null ? Number(p.total_profit) : p.total_profit,
-        valuation: p.valuation != null ? Number(p.valuation) : p.valuation,
-        production_cost: p.production_cost != null ? Number(p.production_cost) : p.production_cost,
-      }));
 
       res.json({
         success: true,
@@ -160,7 +266,7 @@ export class SessionController {
           ...sessionData,
           has_passcode: !!passcode,
           has_admin_password: !!admin_password,
-          players: normalizedPlayers
+          players: await rosterFor(req, session)
         }
       } as ApiResponse);
 
@@ -207,13 +313,13 @@ export class SessionController {
     }
   }
 
-  // List all sessions
+  // List the signed-in instructor's sessions
   static async list(req: Request, res: Response) {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
 
-      const sessions = await SessionModel.findAll(limit, offset);
+      const sessions = await SessionModel.findByOwner(req.instructor!.instructorId, limit, offset);
 
       // Strip secrets from each session
       const sanitizedSessions = sessions.map((s: any) => {
@@ -282,31 +388,18 @@ export class SessionController {
           }
 
           const activePlayers = await PlayerModel.findActiveBySession(id);
-          await engine.setupPlayers(id, activePlayers.length, session.game_config || {});
+          await engine.setupPlayers(id, activePlayers.length, configForRound(session, 1));
 
           // The socket start-round handler normally sets up timers and bot actions,
           // but it can't for round 1 because the round is already 'active' by the
           // time it runs (RoundModel.start returns null → early return).
-          // So we must do it here.
-          const botService = BotService.getInstance();
-          const io = botService.getIO();
+          // So the leader instance does it when told the round has started.
+          const io = BotService.getInstance().getIO();
           if (io) {
-            // Schedule server-side auto-end timer for round 1
-            const scheduleTimer = (io as any).__scheduleRoundEndTimer;
-            if (scheduleTimer) {
-              scheduleTimer(firstRound.id, session.code, session, gameType);
-            }
-
-            // Let the engine initialize round state (e.g. discovery process timers)
-            if (engine.onRoundStart) {
-              await engine.onRoundStart(firstRound.id, session.code, io);
-            }
-
-            // Trigger bot actions for round 1
-            if (session.bot_enabled) {
-              botService.onRoundStart(firstRound.id, session.code, session, io)
-                .catch(err => console.error('BotService round 1 start error:', err));
-            }
+            await ClusterLeader.getInstance().run(io, 'first-round-started', {
+              roundId: firstRound.id,
+              sessionCode: session.code,
+            });
           }
         } catch (engineError) {
           console.error('Engine setup during session start:', engineError);
@@ -327,6 +420,43 @@ export class SessionController {
     }
   }
 
+  // Replace a session's tags (course, section, semester, treatment, ...)
+  static async updateTags(req: Request, res: Response) {
+    try {
+      const id = req.params.id as string;
+
+      const tagCheck = normalizeTags(req.body?.tags);
+      if (!tagCheck.valid) {
+        res.status(400).json({
+          success: false,
+          error: tagCheck.error
+        } as ApiResponse);
+        return;
+      }
+
+      const session = await SessionModel.updateTags(id, tagCheck.tags);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { tags: session.tags ?? {} }
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error updating session tags:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update session tags'
+      } as ApiResponse);
+    }
+  }
+
   // Get players for session
   static async getPlayers(req: Request, res: Response) {
     try {
@@ -341,19 +471,9 @@ export class SessionController {
         return;
       }
 
-      const players = await PlayerModel.findBySession(session.id);
-
-      // Normalize DECIMAL fields from string to number
-      const normalizedPlayers = players.map((p: any) => ({
-        ...p,
-        total_profit: p.total_profit != null ? Number(p.total_profit) : p.total_profit,
-        valuation: p.valuation != null ? Number(p.valuation) : p.valuation,
-        production_cost: p.production_cost != null ? Number(p.production_cost) : p.production_cost,
-      }));
-
       res.json({
         success: true,
-        data: normalizedPlayers
+        data: await rosterFor(req, session)
       } as ApiResponse);
 
     } catch (error) {
@@ -365,6 +485,55 @@ export class SessionController {
     }
   }
 
+  // Get late-join requests waiting for the instructor (admin only)
+  static async getJoinRequests(req: Request, res: Response) {
+    try {
+      const id = req.params.id as string;
+
+      const requests = await JoinRequestModel.findPendingBySession(id);
+
+      res.json({
+        success: true,
+        data: requests
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error getting join requests:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get join requests'
+      } as ApiResponse);
+    }
+  }
+
+  // Get which players are connected right now (admin only)
+  static async getPresence(req: Request, res: Response) {
+    try {
+      const id = req.params.id as string;
+
+      const session = await SessionModel.findById(id);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await PresenceService.getInstance().forSession(session.code)
+      } as ApiResponse);
+
+    } catch (error) {
+      console.error('Error getting presence:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get presence'
+      } as ApiResponse);
+    }
+  }
+
   // Get rounds for session
   static async getRounds(req: Request, res: Response) {
     try {
@@ -429,6 +598,20 @@ export class SessionController {
         return;
       }
 
+      // Owned sessions are verified by the owner's login, not a password
+      if (session.owner_id) {
+        if (!req.instructor) {
+          res.status(401).json({ success: false, error: 'Instructor login required' } as ApiResponse);
+          return;
+        }
+        if (req.instructor.instructorId !== session.owner_id) {
+          res.status(403).json({ success: false, error: 'Only the session owner can do this' } as ApiResponse);
+          return;
+        }
+        res.json({ success: true, data: { verified: true } } as ApiResponse);
+        return;
+      }
+
       // If no admin password is set, access is open
       if (!session.admin_password) {
         res.json({ success: true, data: { verified: true } } as ApiResponse);
@@ -480,17 +663,14 @@ export class SessionController {
     }
   }
 
-  // Delete all sessions
+  // Delete all of the signed-in instructor's sessions
   static async deleteAll(req: Request, res: Response) {
     try {
-      const sessions = await SessionModel.findAll(1000, 0);
-      for (const session of sessions) {
-        await SessionModel.delete(session.id);
-      }
+      const deleted = await SessionModel.deleteByOwner(req.instructor!.instructorId);
 
       res.json({
         success: true,
-        message: `Deleted ${sessions.length} sessions`
+        message: `Deleted ${deleted} sessions`
       } as ApiResponse);
 
     } catch (error) {
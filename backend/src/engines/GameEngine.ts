@@ -101,7 +101,7 @@ export interface RoleDefinition {
 export interface ConfigField {
   name: string;
   label: string;
-  type: 'number' | 'select' | 'checkbox';
+  type: 'number' | 'select' | 'checkbox' | 'textarea';
   default: any;
   min?: number;
   max?: number;
@@ -155,6 +155,15 @@ export interface GameEngine {
    */
   setupPlayers(sessionId: string, playerCount: number, config: Record<string, any>): Promise<void>;
 
+  /**
+   * Set up one player who took an empty seat after the session started
+   * (optional). setupPlayers has already run for everyone else, so engines
+   * that hand out roles, groups or endowments there give the newcomer theirs
+   * here without reshuffling anybody. Engines that redraw values every round
+   * or assign everything at join time don't need this.
+   */
+  onPlayerAdded?(sessionId: string, playerId: string, config: Record<string, any>): Promise<void>;
+
   /**
    * Handle a player action (bid, ask, decision, etc.).
    * Returns what to broadcast and/or reply.
@@ -188,4 +197,54 @@ export interface GameEngine {
     sessionCode: string,
     io: Server
   ): Promise<void>;
+
+  /**
+   * Called on server boot for each round that was still active when the
+   * process stopped (optional lifecycle hook). Engines that keep in-memory
+   * round state should reload their persisted snapshot and reschedule any
+   * phase timers from the stored deadlines. Returns false if nothing could
+   * be restored.
+   */
+  restoreRound?(
+    roundId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<boolean>;
+
+  /**
+   * Called when a player has stayed disconnected past the session's grace
+   * period and been marked inactive during a round (optional lifecycle
+   * hook). Engines that wait for every active player check whether the
+   * round can finish without them, and record the game's default move for
+   * them when the session's absent_policy is 'default_action'.
+   */
+  onPlayerAbsent?(
+    roundId: string,
+    playerId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<void>;
+
+  /**
+   * Called when the instructor adds time to a running round (optional
+   * lifecycle hook). Timers scheduled on the RoundClock as deadlines move
+   * back on their own; engines that measure phases some other way (e.g. in
+   * ticks) extend the current phase here.
+   */
+  onRoundTimeAdded?(roundId: string, seconds: number): void;
+
+  /**
+   * Current sub-phase of a round and the time left in it (optional). The
+   * socket handler sends this to clients alongside the round deadline so
+   * phase countdowns come from the server rather than each browser.
+   */
+  getPhaseClock?(roundId: string): PhaseClock | null;
+}
+
+/**
+ * A round's current sub-phase and how long it has left
+ */
+export interface PhaseClock {
+  phase: string;
+  remainingMs: number;
 }
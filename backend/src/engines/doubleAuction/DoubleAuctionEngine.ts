@@ -6,21 +6,76 @@ import type {
   ValidationResult,
   ActionResult,
   RoundResult,
+  PhaseClock,
 } from '../GameEngine';
 import { BidModel } from '../../models/Bid';
 import { AskModel } from '../../models/Ask';
 import { TradeModel } from '../../models/Trade';
 import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
+import { SessionModel } from '../../models/Session';
+import { RoundValueModel } from '../../models/RoundValue';
 import {
   validateBid,
   validateAsk,
   matchTrades,
+  clearCallMarket,
+  PRICING_RULES,
+  getUnitValues,
+  drawUnitSchedule,
+  parseValueTable,
+  roundValueRules,
+  shiftSchedule,
+  type OrderWithPlayer,
+  type PricingRule,
+  type TradeMatch,
 } from '../../services/gameLogic';
+import { surplusAccounting } from '../../services/surplus';
+import { RoundClock, type RoundTimer } from '../../services/RoundClock';
+import type { Bid, Ask, Player, SurplusAccounting } from '../../types';
+
+/** Where a trader is in their unit schedule for the current round */
+export interface UnitState {
+  values: number[];
+  traded: number;
+  /** 1-based unit number the next order is for, or null once every unit has traded */
+  currentUnit: number | null;
+  currentValue: number | null;
+}
+
+/** The trading institution a DA session runs under */
+export interface MarketRules {
+  pricingRule: PricingRule;
+  marketMode: 'continuous' | 'call';
+  /** Seconds between clearings in call mode */
+  callInterval: number;
+  /** New bids must beat the best bid, new asks the best ask */
+  improvementRule: boolean;
+}
 
 /**
  * Double Auction Engine — wraps the existing DA game logic.
  * This is the original game type, used for Week 4.
+ *
+ * Each trader holds a schedule of `units_per_trader` units (declining
+ * valuations for buyers, rising costs for sellers) and works through it in
+ * order, one unit per trade. A trader has at most one standing order per
+ * side: posting a new one replaces the old. The schedule resets every round.
+ *
+ * Values can change between rounds: redrawn every `redraw_every` rounds,
+ * shifted by `demand_shift` / `supply_shift` from `shock_round` on, or taken
+ * from a fixed induced-value table (`value_table`). The schedule in force
+ * each round is recorded in round_values.
+ *
+ * The institution is configurable too: in continuous mode crossing orders
+ * trade immediately at the `pricingRule` price (midpoint by default); in
+ * call mode orders accumulate and the whole book clears at one uniform
+ * price every `callInterval` seconds and once more at round end.
+ *
+ * Traders can withdraw (`cancel`) or reprice (`replace`) their standing
+ * order; with `improvementRule` on, every new order must improve the best
+ * price on its side. Closed orders keep their row with a status, so the
+ * session's full order flow can be replayed.
  */
 export class DoubleAuctionEngine implements GameEngine {
   readonly gameType: GameType = 'double_auction';
@@ -28,6 +83,9 @@ export class DoubleAuctionEngine implements GameEngine {
   /** Serialize trade matching per round to prevent duplicate trades */
   protected tradeMatchLocks = new Map<string, Promise<void>>();
 
+  /** Next clearing of each round running as a call market, on the round's clock */
+  private nextCalls = new Map<string, RoundTimer>();
+
   getUIConfig(): UIConfig {
     return {
       name: 'Double Auction',
@@ -66,6 +124,96 @@ export class DoubleAuctionEngine implements GameEngine {
           min: 30,
           max: 600,
         },
+        {
+          name: 'marketMode',
+          label: 'Market Institution',
+          type: 'select',
+          default: 'continuous',
+          options: [
+            { value: 'continuous', label: 'Continuous double auction' },
+            { value: 'call', label: 'Call market (periodic uniform-price clearing)' },
+          ],
+        },
+        {
+          name: 'pricingRule',
+          label: 'Trade Price (continuous)',
+          type: 'select',
+          default: 'midpoint',
+          options: [
+            { value: 'standing', label: 'Standing order\'s price' },
+            { value: 'midpoint', label: 'Midpoint of bid and ask' },
+            { value: 'bid', label: 'Bid price' },
+            { value: 'ask', label: 'Ask price' },
+          ],
+        },
+        {
+          name: 'callInterval',
+          label: 'Call Interval (seconds)',
+          type: 'number',
+          default: 30,
+          min: 5,
+          max: 600,
+          description: 'How often a call market clears',
+        },
+        {
+          name: 'improvementRule',
+          label: 'Order Improvement Rule',
+          type: 'checkbox',
+          default: false,
+          description: 'New bids must beat the best bid and new asks must undercut the best ask',
+        },
+        {
+          name: 'units_per_trader',
+          label: 'Units per Trader',
+          type: 'number',
+          default: 1,
+          min: 1,
+          max: 10,
+          description: 'Units each buyer/seller can trade per round (stepped valuations/costs)',
+        },
+        {
+          name: 'redraw_every',
+          label: 'Redraw Values Every N Rounds',
+          type: 'number',
+          default: 0,
+          min: 0,
+          max: 50,
+          description: '0 = keep each trader\'s values for the whole session',
+        },
+        {
+          name: 'shock_round',
+          label: 'Shock Round',
+          type: 'number',
+          default: 0,
+          min: 0,
+          max: 50,
+          description: 'Round from which the demand/supply shifts apply (0 = no shock)',
+        },
+        {
+          name: 'demand_shift',
+          label: 'Demand Shift ($)',
+          type: 'number',
+          default: 0,
+          min: -100,
+          max: 100,
+          description: 'Added to every buyer valuation from the shock round',
+        },
+        {
+          name: 'supply_shift',
+          label: 'Supply Shift ($)',
+          type: 'number',
+          default: 0,
+          min: -100,
+          max: 100,
+          description: 'Added to every seller cost from the shock round',
+        },
+        {
+          name: 'value_table',
+          label: 'Induced-Value Table',
+          type: 'textarea',
+          default: '',
+          description: 'Optional. One trader per line: "buyer, 90, 70, 50" or "seller, 20, 40, 60". Replaces random draws.',
+        },
         {
           name: 'valuation_min',
           label: 'Buyer Valuation Min',
@@ -116,6 +264,35 @@ export class DoubleAuctionEngine implements GameEngine {
     if (config.market_size !== undefined && config.market_size < 2) {
       return { valid: false, error: 'Market size must be at least 2' };
     }
+    if (
+      config.units_per_trader !== undefined &&
+      (!Number.isInteger(config.units_per_trader) || config.units_per_trader < 1 || config.units_per_trader > 10)
+    ) {
+      return { valid: false, error: 'Units per trader must be a whole number between 1 and 10' };
+    }
+    for (const key of ['redraw_every', 'shock_round']) {
+      if (config[key] !== undefined && (!Number.isInteger(config[key]) || config[key] < 0)) {
+        return { valid: false, error: `${key === 'redraw_every' ? 'Redraw interval' : 'Shock round'} must be a whole number of rounds` };
+      }
+    }
+    for (const key of ['demand_shift', 'supply_shift']) {
+      if (config[key] !== undefined && !Number.isFinite(config[key])) {
+        return { valid: false, error: 'Demand and supply shifts must be numbers' };
+      }
+    }
+    if (config.pricingRule !== undefined && !PRICING_RULES.includes(config.pricingRule)) {
+      return { valid: false, error: `Pricing rule must be one of: ${PRICING_RULES.join(', ')}` };
+    }
+    if (config.marketMode !== undefined && !['continuous', 'call'].includes(config.marketMode)) {
+      return { valid: false, error: 'Market mode must be "continuous" or "call"' };
+    }
+    if (config.callInterval !== undefined && (!Number.isFinite(config.callInterval) || config.callInterval < 5)) {
+      return { valid: false, error: 'Call interval must be at least 5 seconds' };
+    }
+    if (config.value_table) {
+      const { error } = parseValueTable(config.value_table);
+      if (error) return { valid: false, error: `Invalid value table: ${error}` };
+    }
     return { valid: true };
   }
 
@@ -129,6 +306,66 @@ export class DoubleAuctionEngine implements GameEngine {
     // This is handled by the session controller's join logic
   }
 
+  /**
+   * Settle every trader's values for the round (redraw and/or shock as
+   * configured) and record them in round_values.
+   */
+  async onRoundStart(roundId: string, sessionCode: string, io: Server): Promise<void> {
+    const round = await RoundModel.findById(roundId);
+    if (!round) return;
+    const session = await SessionModel.findForRound(round);
+    if (!session) return;
+
+    const rules = roundValueRules(session.game_config || {}, round.round_number);
+    const players = await PlayerModel.findActiveBySession(session.id);
+    const roleCounts = { buyer: 0, seller: 0 };
+    const entries: Array<{ playerId: string; role: string; unitValues: number[] }> = [];
+
+    for (const player of players) {
+      if (player.role !== 'buyer' && player.role !== 'seller') continue;
+      const role = player.role;
+      const roleIndex = roleCounts[role]++;
+
+      // The unshocked schedule this trader holds; shocks are layered on top each round
+      let base: number[] = player.game_data?.baseUnitValues ?? getUnitValues(player);
+      if (rules.redraw) base = drawUnitSchedule(role, session, roleIndex);
+      if (base.length === 0) continue;
+
+      const unitValues = shiftSchedule(base, role === 'buyer' ? rules.demandShift : rules.supplyShift);
+      await PlayerModel.setUnitValues(
+        player.id,
+        role === 'buyer' ? 'valuation' : 'production_cost',
+        unitValues,
+        base
+      );
+      entries.push({ playerId: player.id, role, unitValues });
+    }
+
+    await RoundValueModel.createMany(roundId, entries);
+
+    const market = this.marketRules(session.game_config || {});
+    if (market.marketMode === 'call') {
+      this.scheduleCall(roundId, sessionCode, io, market.callInterval);
+    }
+  }
+
+  /**
+   * Continuous rounds keep everything in the database; call-market rounds
+   * only need their clearing timer back.
+   */
+  async restoreRound(roundId: string, sessionCode: string, io: Server): Promise<boolean> {
+    const round = await RoundModel.findById(roundId);
+    if (!round) return false;
+    const session = await SessionModel.findForRound(round);
+    if (!session) return false;
+
+    const rules = this.marketRules(session.game_config || {});
+    if (rules.marketMode === 'call') {
+      this.scheduleCall(roundId, sessionCode, io, rules.callInterval);
+    }
+    return true;
+  }
+
   async handleAction(
     roundId: string,
     playerId: string,
@@ -137,14 +374,8 @@ export class DoubleAuctionEngine implements GameEngine {
     io: Server
   ): Promise<ActionResult> {
     const { type } = action;
-    const price = Number(action.price);
 
-    // Validate price is a finite positive number (socket path has no type checking)
-    if (!Number.isFinite(price) || price <= 0) {
-      return { success: false, error: 'Price must be a positive number' };
-    }
-
-    // Guard: only accept bids/asks while the round is active
+    // Guard: only accept order-book actions while the round is active
     const round = await RoundModel.findById(roundId);
     if (!round || round.status !== 'active') {
       return { success: false, error: 'Round is not active' };
@@ -156,57 +387,125 @@ export class DoubleAuctionEngine implements GameEngine {
       return { success: false, error: 'Player not found' };
     }
 
-    if (type === 'bid') {
-      // Validate bid
-      const validation = validateBid(price, player);
-      if (!validation.valid) {
-        return { success: false, error: validation.error };
-      }
+    if (type === 'cancel') {
+      return this.cancelOrders(roundId, player, action.orderId, sessionCode, io);
+    }
 
-      // Create bid
-      const bid = await BidModel.create(roundId, playerId, price);
+    // A replace reprices the trader's standing order on their own side
+    const side = type === 'replace' ? (player.role === 'seller' ? 'ask' : 'bid') : type;
+    if (side !== 'bid' && side !== 'ask') {
+      return { success: false, error: `Unknown action type: ${type}` };
+    }
 
-      // Broadcast to market
-      io.to(`market-${sessionCode}`).emit('bid-submitted', {
-        bid,
-        player: {
-          id: player.id,
-          name: player.name,
-          is_bot: player.is_bot,
-        },
-      });
+    // Validate price is a finite positive number (socket path has no type checking)
+    const price = Number(action.price);
+    if (!Number.isFinite(price) || price <= 0) {
+      return { success: false, error: 'Price must be a positive number' };
+    }
 
-      // Check for trade matches
-      await this.checkAndExecuteTrades(roundId, sessionCode, io);
+    const session = await SessionModel.findForRound(round);
+    const rules = this.marketRules(session?.game_config || {});
 
-      return { success: true };
-    } else if (type === 'ask') {
-      // Validate ask
-      const validation = validateAsk(price, player);
-      if (!validation.valid) {
-        return { success: false, error: validation.error };
-      }
+    // Check and post under the round's match lock, so no trade can fill the
+    // trader's unit or move the best price in between
+    const posted = await this.withTradeLock(roundId, () =>
+      this.postOrder(roundId, player, side, price, type === 'replace', rules.improvementRule));
+    if ('error' in posted) {
+      return { success: false, error: posted.error };
+    }
 
-      // Create ask
-      const ask = await AskModel.create(roundId, playerId, price);
+    // Broadcast to market
+    io.to(`market-${sessionCode}`).emit(`${side}-submitted`, {
+      [side]: posted.order,
+      player: {
+        id: player.id,
+        name: player.name,
+        is_bot: player.is_bot,
+      },
+    });
 
-      // Broadcast to market
-      io.to(`market-${sessionCode}`).emit('ask-submitted', {
-        ask,
-        player: {
-          id: player.id,
-          name: player.name,
-          is_bot: player.is_bot,
-        },
-      });
+    // Check for trade matches
+    await this.checkAndExecuteTrades(roundId, sessionCode, io);
+
+    return { success: true };
+  }
+
+  /**
+   * Check a bid or ask against the unit the trader is on and the market's
+   * rules, then post it in place of their standing order on that side.
+   * Callers hold the round's match lock.
+   */
+  private async postOrder(
+    roundId: string,
+    player: Player,
+    side: 'bid' | 'ask',
+    price: number,
+    replacing: boolean,
+    improvementRule: boolean
+  ): Promise<{ order: Bid | Ask } | { error: string }> {
+    const model = side === 'bid' ? BidModel : AskModel;
+    const book: (Bid | Ask)[] = await model.findActiveByRound(roundId);
+    if (replacing && !book.some((order) => order.player_id === player.id)) {
+      return { error: 'No standing order to replace' };
+    }
 
-      // Check for trade matches
-      await this.checkAndExecuteTrades(roundId, sessionCode, io);
+    // Validate against the unit being bought or sold
+    const units = await this.getUnitState(roundId, player);
+    const validation = side === 'bid'
+      ? validateBid(price, player, units.currentValue ?? undefined)
+      : validateAsk(price, player, units.currentValue ?? undefined);
+    if (!validation.valid) {
+      return { error: validation.error! };
+    }
+    if (units.currentUnit === null) {
+      return { error: 'You have no units left to trade this round' };
+    }
 
-      return { success: true };
+    // The book is best-first; a trader's own standing order is the one being
+    // repriced, not one to beat
+    const best = improvementRule ? book.find((order) => order.player_id !== player.id) : undefined;
+    if (best && (side === 'bid' ? price <= Number(best.price) : price >= Number(best.price))) {
+      const label = side === 'bid' ? 'Bid' : 'Ask';
+      return { error: `${label} must beat the current best ${side} ($${Number(best.price).toFixed(2)})` };
     }
 
-    return { success: false, error: `Unknown action type: ${type}` };
+    // Replace any standing order, then post the new one
+    await model.deactivateForPlayer(roundId, player.id);
+    return { order: await model.create(roundId, player.id, price, units.currentUnit) };
+  }
+
+  /**
+   * Withdraw a trader's standing order(s) — a specific one when `orderId` is
+   * given. Runs under the round's match lock so a cancel can't race a trade.
+   */
+  private async cancelOrders(
+    roundId: string,
+    player: Player,
+    orderId: unknown,
+    sessionCode: string,
+    io: Server
+  ): Promise<ActionResult> {
+    const side = player.role === 'seller' ? 'ask' : 'bid';
+    const model = side === 'bid' ? BidModel : AskModel;
+
+    const cancelled = await this.withTradeLock(roundId, async () => {
+      const book: (Bid | Ask)[] = await model.findActiveByRound(roundId);
+      const mine = book.filter((order) => order.player_id === player.id && (!orderId || order.id === orderId));
+      const closed: string[] = [];
+      for (const order of mine) {
+        if (await model.cancel(order.id)) closed.push(order.id);
+      }
+      return closed;
+    });
+
+    if (cancelled.length === 0) {
+      return { success: false, error: orderId ? 'That order is no longer open' : 'You have no open order to cancel' };
+    }
+
+    for (const id of cancelled) {
+      io.to(`market-${sessionCode}`).emit('order-cancelled', { side, orderId: id, playerId: player.id });
+    }
+    return { success: true };
   }
 
   async processRoundEnd(
@@ -214,6 +513,12 @@ export class DoubleAuctionEngine implements GameEngine {
     sessionCode: string,
     io: Server
   ): Promise<RoundResult> {
+    // A call market clears one last time at the close
+    if (this.nextCalls.has(roundId)) {
+      this.cancelCall(roundId);
+      await this.checkAndExecuteTrades(roundId, sessionCode, io, true);
+    }
+
     // Clean up trade match lock for this round to prevent memory leak
     this.tradeMatchLocks.delete(roundId);
 
@@ -224,16 +529,34 @@ export class DoubleAuctionEngine implements GameEngine {
     // Get trades for summary
     const trades = await TradeModel.findByRound(roundId);
 
+    // Surplus accounting over every unit in force this round, traded or not
+    const values = await RoundValueModel.findByRound(roundId);
+    let surplus: SurplusAccounting | undefined;
+    if (values.length > 0) {
+      const traded = new Set(trades.flatMap((t) => [
+        `${t.buyer_id}:${t.buyer_unit ?? 1}`,
+        `${t.seller_id}:${t.seller_unit ?? 1}`,
+      ]));
+      const steps = (role: string) => values
+        .filter((v) => v.role === role)
+        .flatMap((v) => v.unit_values.map((value, i) => ({
+          value: Number(value),
+          traded: traded.has(`${v.player_id}:${i + 1}`) ? 1 : 0,
+        })));
+      surplus = surplusAccounting(steps('buyer'), steps('seller'));
+      await RoundModel.setSurplus(roundId, surplus);
+    }
+
     const playerResults = trades.flatMap((trade) => [
       {
         playerId: trade.buyer_id,
         profit: Number(trade.buyer_profit),
-        resultData: { role: 'buyer', tradePrice: Number(trade.price) },
+        resultData: { role: 'buyer', tradePrice: Number(trade.price), unit: trade.buyer_unit ?? 1 },
       },
       {
         playerId: trade.seller_id,
         profit: Number(trade.seller_profit),
-        resultData: { role: 'seller', tradePrice: Number(trade.price) },
+        resultData: { role: 'seller', tradePrice: Number(trade.price), unit: trade.seller_unit ?? 1 },
       },
     ]);
 
@@ -254,10 +577,19 @@ export class DoubleAuctionEngine implements GameEngine {
             ? normalizedTrades.reduce((sum, t) => sum + t.price, 0) / normalizedTrades.length
             : 0,
         trades: normalizedTrades,
+        ...(surplus && { surplus }),
       },
     };
   }
 
+  /**
+   * Time to the next clearing, in call-market rounds.
+   */
+  getPhaseClock(roundId: string): PhaseClock | null {
+    const timer = this.nextCalls.get(roundId);
+    return timer ? { phase: 'call', remainingMs: timer.remainingMs() } : null;
+  }
+
   async getGameState(
     roundId: string,
     playerId?: string
@@ -274,71 +606,189 @@ export class DoubleAuctionEngine implements GameEngine {
       seller_profit: Number(t.seller_profit),
     }));
 
-    return {
+    const state: Record<string, any> = {
       bids: bids.map(b => ({ ...b, price: Number(b.price) })),
       asks: asks.map(a => ({ ...a, price: Number(a.price) })),
       trades,
     };
+
+    if (this.nextCalls.has(roundId)) {
+      state.callMarket = { nextCallAt: this.nextCallAt(roundId) };
+    }
+
+    if (playerId) {
+      const player = await PlayerModel.findById(playerId);
+      if (player) {
+        state.myUnits = this.unitStateFor(player, rawTrades);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Work out which unit of the player's schedule is up next this round.
+   * Units are consumed in order, so the count of this round's trades is the index.
+   */
+  protected async getUnitState(roundId: string, player: Player): Promise<UnitState> {
+    const trades = await TradeModel.findByRound(roundId);
+    return this.unitStateFor(player, trades);
+  }
+
+  private unitStateFor(player: Player, trades: { buyer_id: string; seller_id: string }[]): UnitState {
+    const values = getUnitValues(player);
+    const traded = trades.filter(t =>
+      player.role === 'buyer' ? t.buyer_id === player.id : t.seller_id === player.id
+    ).length;
+    const remaining = traded < values.length;
+    return {
+      values,
+      traded,
+      currentUnit: remaining ? traded + 1 : null,
+      currentValue: remaining ? values[traded] : null,
+    };
+  }
+
+  /**
+   * Load the active order book with each order's trader and the value of the
+   * schedule unit it was posted for. Orders whose player has gone are dropped.
+   */
+  protected async loadOrderBook(roundId: string): Promise<{
+    bids: OrderWithPlayer<Bid>[];
+    asks: OrderWithPlayer<Ask>[];
+  }> {
+    const bids = await BidModel.findActiveByRound(roundId);
+    const asks = await AskModel.findActiveByRound(roundId);
+
+    const withPlayer = async <T extends Bid | Ask>(order: T): Promise<OrderWithPlayer<T> | null> => {
+      const player = await PlayerModel.findById(order.player_id);
+      if (!player) return null;
+      const unitValue = getUnitValues(player)[(order.unit_number ?? 1) - 1];
+      return { ...order, player, unitValue };
+    };
+
+    const bidsWithPlayers = await Promise.all(bids.map(withPlayer));
+    const asksWithPlayers = await Promise.all(asks.map(withPlayer));
+
+    return {
+      bids: bidsWithPlayers.filter((b): b is OrderWithPlayer<Bid> => b !== null),
+      asks: asksWithPlayers.filter((a): a is OrderWithPlayer<Ask> => a !== null),
+    };
+  }
+
+  /** Read the trading institution from a session's game_config */
+  protected marketRules(config: Record<string, any>): MarketRules {
+    return {
+      pricingRule: PRICING_RULES.includes(config.pricingRule) ? config.pricingRule : 'midpoint',
+      marketMode: config.marketMode === 'call' ? 'call' : 'continuous',
+      callInterval: Math.max(5, Number(config.callInterval) || 30),
+      improvementRule: config.improvementRule === true,
+    };
+  }
+
+  /**
+   * Clear the book `intervalSeconds` from now, then keep clearing at that
+   * interval. Clearings are round deadlines, so they hold while the round is
+   * paused and move back when time is added, like the round's end.
+   */
+  private scheduleCall(roundId: string, sessionCode: string, io: Server, intervalSeconds: number): void {
+    this.cancelCall(roundId);
+    const timer = RoundClock.getInstance().setTimeout(roundId, () => {
+      // The next clearing is booked first, so the call-cleared broadcast can announce it
+      this.scheduleCall(roundId, sessionCode, io, intervalSeconds);
+      return this.checkAndExecuteTrades(roundId, sessionCode, io, true);
+    }, intervalSeconds * 1000, 'deadline');
+    this.nextCalls.set(roundId, timer);
+  }
+
+  private cancelCall(roundId: string): void {
+    RoundClock.getInstance().clearTimeout(this.nextCalls.get(roundId));
+    this.nextCalls.delete(roundId);
+  }
+
+  /** When the round next clears (epoch ms), or null while it is paused or not a call market */
+  private nextCallAt(roundId: string): number | null {
+    const timer = this.nextCalls.get(roundId);
+    if (!timer || RoundClock.getInstance().isPaused(roundId)) return null;
+    return Date.now() + timer.remainingMs();
+  }
+
+  /**
+   * Profits each side books for a matched trade, plus any extra fields for
+   * the trade-executed broadcast. Variants (e.g. taxes) override this.
+   */
+  protected settleTrade(
+    match: TradeMatch,
+    _config: Record<string, any>
+  ): { buyerProfit: number; sellerProfit: number; broadcast?: Record<string, any> } {
+    return { buyerProfit: match.buyerProfit, sellerProfit: match.sellerProfit };
   }
 
   /**
    * Check for matching bids/asks and execute trades.
    * This is the core DA matching logic, extracted from the old socketHandler.
+   * `call` clears the whole book at a uniform price (call-market rounds);
+   * otherwise crossing orders trade pairwise, which call markets skip.
    */
   protected async checkAndExecuteTrades(
     roundId: string,
     sessionCode: string,
-    io: Server
+    io: Server,
+    call = false
   ): Promise<void> {
-    // Serialize: wait for any in-flight match to finish before starting a new one
+    await this.withTradeLock(roundId, () => this.executeTradeMatching(roundId, sessionCode, io, call));
+  }
+
+  /** Serialize order-book mutations per round: wait for any in-flight one first */
+  protected async withTradeLock<T>(roundId: string, task: () => Promise<T>): Promise<T> {
     const prevLock = this.tradeMatchLocks.get(roundId) || Promise.resolve();
-    const currentLock = prevLock.then(() => this.executeTradeMatching(roundId, sessionCode, io));
-    this.tradeMatchLocks.set(roundId, currentLock.catch(() => {}));
-    await currentLock;
+    const currentLock = prevLock.then(task);
+    this.tradeMatchLocks.set(roundId, currentLock.then(() => {}, () => {}));
+    return currentLock;
   }
 
   private async executeTradeMatching(
     roundId: string,
     sessionCode: string,
-    io: Server
+    io: Server,
+    call: boolean
   ): Promise<void> {
     try {
-      // Get active bids and asks
-      const bids = await BidModel.findActiveByRound(roundId);
-      const asks = await AskModel.findActiveByRound(roundId);
-
-      // Get players for each bid/ask
-      const bidsWithPlayers = await Promise.all(
-        bids.map(async (bid) => ({
-          ...bid,
-          player: await PlayerModel.findById(bid.player_id),
-        }))
-      );
-
-      const asksWithPlayers = await Promise.all(
-        asks.map(async (ask) => ({
-          ...ask,
-          player: await PlayerModel.findById(ask.player_id),
-        }))
-      );
-
-      // Filter out any with missing players
-      const validBids = bidsWithPlayers.filter((b) => b.player !== null) as any[];
-      const validAsks = asksWithPlayers.filter((a) => a.player !== null) as any[];
-
-      const matches = matchTrades(validBids, validAsks);
+      const round = await RoundModel.findById(roundId);
+      if (!round) return;
+      const session = await SessionModel.findForRound(round);
+      if (!session) return;
+
+      const config = session.game_config || {};
+      const rules = this.marketRules(config);
+      // Orders in a call market wait for the next clearing
+      if (rules.marketMode === 'call' && !call) return;
+
+      // Get active bids and asks with their traders and unit values
+      const { bids, asks } = await this.loadOrderBook(roundId);
+
+      let matches: TradeMatch[];
+      let clearingPrice: number | null = null;
+      if (call) {
+        ({ price: clearingPrice, matches } = clearCallMarket(bids, asks));
+      } else {
+        matches = matchTrades(bids, asks, rules.pricingRule);
+      }
 
       // Execute trades
       for (const match of matches) {
+        const { buyerProfit, sellerProfit, broadcast } = this.settleTrade(match, config);
         const trade = await TradeModel.create(
           roundId,
           match.bid.player_id,
           match.ask.player_id,
           match.price,
-          match.buyerProfit,
-          match.sellerProfit,
+          buyerProfit,
+          sellerProfit,
           match.bid.id,
-          match.ask.id
+          match.ask.id,
+          match.bid.unit_number ?? 1,
+          match.ask.unit_number ?? 1
         );
 
         // Mark bid and ask as inactive
@@ -346,14 +796,23 @@ export class DoubleAuctionEngine implements GameEngine {
         await AskModel.markInactive(match.ask.id);
 
         // Update player profits
-        await PlayerModel.updateProfit(match.bid.player_id, match.buyerProfit);
-        await PlayerModel.updateProfit(match.ask.player_id, match.sellerProfit);
+        await PlayerModel.updateProfit(match.bid.player_id, buyerProfit);
+        await PlayerModel.updateProfit(match.ask.player_id, sellerProfit);
 
         // Broadcast trade — sanitize player objects to prevent leaking private valuations/costs
         io.to(`market-${sessionCode}`).emit('trade-executed', {
           trade,
           buyer: { id: match.bid.player.id, name: match.bid.player.name, is_bot: match.bid.player.is_bot },
           seller: { id: match.ask.player.id, name: match.ask.player.name, is_bot: match.ask.player.is_bot },
+          ...broadcast,
+        });
+      }
+
+      if (call) {
+        io.to(`market-${sessionCode}`).emit('call-cleared', {
+          price: clearingPrice,
+          volume: matches.length,
+          nextCallAt: this.nextCallAt(roundId),
         });
       }
     } catch (error) {
@@ -71,7 +71,7 @@ export class PriceControlsEngine extends DoubleAuctionEngine {
   }
 
   /**
-   * Override handleAction to enforce price controls on bids and asks.
+   * Override handleAction to enforce price controls on bids, asks and replacements.
    */
   async handleAction(
     roundId: string,
@@ -82,10 +82,15 @@ export class PriceControlsEngine extends DoubleAuctionEngine {
   ): Promise<ActionResult> {
     const { type, price } = action;
 
+    // Cancels carry no price to control
+    if (type === 'cancel') {
+      return super.handleAction(roundId, playerId, action, sessionCode, io);
+    }
+
     // Get session config for price controls
     const round = await RoundModel.findById(roundId);
     if (!round) return { success: false, error: 'Round not found' };
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { success: false, error: 'Session not found' };
 
     const gameConfig = session.game_config || {};
@@ -127,7 +132,7 @@ export class PriceControlsEngine extends DoubleAuctionEngine {
 
     const round = await RoundModel.findById(roundId);
     if (round) {
-      const session = await SessionModel.findById(round.session_id);
+      const session = await SessionModel.findForRound(round);
       if (session) {
         const gameConfig = session.game_config || {};
         baseState.priceControl = {
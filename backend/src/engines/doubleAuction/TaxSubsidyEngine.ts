@@ -1,13 +1,6 @@
-import type { Server } from 'socket.io';
-import type { GameType, UIConfig, ValidationResult, ActionResult, RoundResult } from '../GameEngine';
+import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
 import { DoubleAuctionEngine } from './DoubleAuctionEngine';
-import { BidModel } from '../../models/Bid';
-import { AskModel } from '../../models/Ask';
-import { TradeModel } from '../../models/Trade';
-import { PlayerModel } from '../../models/Player';
-import { SessionModel } from '../../models/Session';
-import { RoundModel } from '../../models/Round';
-import { matchTrades } from '../../services/gameLogic';
+import type { TradeMatch } from '../../services/gameLogic';
 
 /**
  * DA + Tax/Subsidy Engine (Week 8)
@@ -15,6 +8,7 @@ import { matchTrades } from '../../services/gameLogic';
  * Extends the standard double auction with a per-unit tax or subsidy.
  * - Tax on buyer: buyer pays trade_price + tax, profit = valuation - (price + tax)
  * - Tax on seller: seller receives trade_price - tax, profit = (price - tax) - cost
+ *   (valuation/cost being those of the schedule unit traded)
  * - Subsidy works the same but reduces effective price (negative tax)
  *
  * game_config: {
@@ -73,104 +67,28 @@ export class TaxSubsidyEngine extends DoubleAuctionEngine {
   }
 
   /**
-   * Override trade execution to apply tax/subsidy to profits.
+   * Apply the tax/subsidy to the matched trade's profits.
    * The trade price in the order book is the same as standard DA,
    * but buyer/seller profits are adjusted by the tax.
-   *
-   * Uses the same tradeMatchLocks serialization as the base class
-   * to prevent duplicate trades from concurrent bid/ask submissions.
    */
-  protected async checkAndExecuteTrades(
-    roundId: string,
-    sessionCode: string,
-    io: Server
-  ): Promise<void> {
-    const prevLock = this.tradeMatchLocks.get(roundId) || Promise.resolve();
-    const currentLock = prevLock.then(() => this.executeTaxTradeMatching(roundId, sessionCode, io));
-    this.tradeMatchLocks.set(roundId, currentLock.catch(() => {}));
-    await currentLock;
-  }
-
-  private async executeTaxTradeMatching(
-    roundId: string,
-    sessionCode: string,
-    io: Server
-  ): Promise<void> {
-    try {
-      // Get the session to read tax config
-      const round = await RoundModel.findById(roundId);
-      if (!round) return;
-      const session = await SessionModel.findById(round.session_id);
-      if (!session) return;
-
-      const gameConfig = session.game_config || {};
-      const taxType: string = gameConfig.taxType || 'buyer';
-      // Use ?? so a taxAmount of 0 is not replaced by the default
-      const taxAmount: number = gameConfig.taxAmount ?? 0;
-
-      // Get active bids and asks
-      const bids = await BidModel.findActiveByRound(roundId);
-      const asks = await AskModel.findActiveByRound(roundId);
-
-      // Get players
-      const bidsWithPlayers = await Promise.all(
-        bids.map(async (bid) => ({
-          ...bid,
-          player: await PlayerModel.findById(bid.player_id),
-        }))
-      );
-      const asksWithPlayers = await Promise.all(
-        asks.map(async (ask) => ({
-          ...ask,
-          player: await PlayerModel.findById(ask.player_id),
-        }))
-      );
-
-      const validBids = bidsWithPlayers.filter((b) => b.player !== null) as any[];
-      const validAsks = asksWithPlayers.filter((a) => a.player !== null) as any[];
-
-      const matches = matchTrades(validBids, validAsks);
-
-      for (const match of matches) {
-        // Adjust profits based on tax
-        let buyerProfit = match.buyerProfit;
-        let sellerProfit = match.sellerProfit;
-
-        if (taxType === 'buyer') {
-          // Buyer pays the tax: their effective cost is price + tax
-          // Wrap in Number() because pg returns DECIMAL columns as strings
-          buyerProfit = Number(match.bid.player.valuation ?? 0) - match.price - taxAmount;
-        } else {
-          // Seller pays the tax: their effective revenue is price - tax
-          sellerProfit = match.price - taxAmount - Number(match.ask.player.production_cost ?? 0);
-        }
-
-        const trade = await TradeModel.create(
-          roundId,
-          match.bid.player_id,
-          match.ask.player_id,
-          match.price,
-          buyerProfit,
-          sellerProfit,
-          match.bid.id,
-          match.ask.id
-        );
-
-        await BidModel.markInactive(match.bid.id);
-        await AskModel.markInactive(match.ask.id);
-
-        await PlayerModel.updateProfit(match.bid.player_id, buyerProfit);
-        await PlayerModel.updateProfit(match.ask.player_id, sellerProfit);
-
-        io.to(`market-${sessionCode}`).emit('trade-executed', {
-          trade,
-          buyer: { id: match.bid.player.id, name: match.bid.player.name, is_bot: match.bid.player.is_bot },
-          seller: { id: match.ask.player.id, name: match.ask.player.name, is_bot: match.ask.player.is_bot },
-          taxInfo: { taxType, taxAmount },
-        });
-      }
-    } catch (error) {
-      console.error('Error checking trades (tax):', error);
+  protected settleTrade(
+    match: TradeMatch,
+    config: Record<string, any>
+  ): { buyerProfit: number; sellerProfit: number; broadcast?: Record<string, any> } {
+    const taxType: string = config.taxType || 'buyer';
+    // Use ?? so a taxAmount of 0 is not replaced by the default
+    const taxAmount: number = config.taxAmount ?? 0;
+
+    let buyerProfit = match.buyerProfit;
+    let sellerProfit = match.sellerProfit;
+    if (taxType === 'buyer') {
+      // Buyer pays the tax: their effective cost is price + tax
+      buyerProfit -= taxAmount;
+    } else {
+      // Seller pays the tax: their effective revenue is price - tax
+      sellerProfit -= taxAmount;
     }
+
+    return { buyerProfit, sellerProfit, broadcast: { taxInfo: { taxType, taxAmount } } };
   }
 }
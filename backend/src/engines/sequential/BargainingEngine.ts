@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SequentialBaseEngine } from './SequentialBaseEngine';
+import { SequentialBaseEngine, MATCHING_CONFIG_FIELD } from './SequentialBaseEngine';
 
 /**
  * Bargaining Game Engine (Week 5)
@@ -87,11 +87,15 @@ export class BargainingEngine extends SequentialBaseEngine {
           step: 0.05,
           description: 'Pie shrinks by this factor each round',
         },
+        MATCHING_CONFIG_FIELD,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const matchingError = this.validateMatching(config);
+    if (matchingError) return matchingError;
+
     if (config.pieSize !== undefined && config.pieSize <= 0) {
       return { valid: false, error: 'Pie size must be positive' };
     }
@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SequentialBaseEngine } from './SequentialBaseEngine';
+import { SequentialBaseEngine, MATCHING_CONFIG_FIELD } from './SequentialBaseEngine';
 
 /**
  * Gift Exchange Game Engine (Week 19)
@@ -107,11 +107,15 @@ export class GiftExchangeEngine extends SequentialBaseEngine {
           step: 1,
           description: 'Cost to worker at maximum effort (quadratic scale)',
         },
+        MATCHING_CONFIG_FIELD,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const matchingError = this.validateMatching(config);
+    if (matchingError) return matchingError;
+
     if (config.maxWage !== undefined && config.maxWage <= 0) {
       return { valid: false, error: 'Maximum wage must be positive' };
     }
@@ -156,6 +160,15 @@ export class GiftExchangeEngine extends SequentialBaseEngine {
     return ratio * ratio * maxEffortCost;
   }
 
+  /** An absent employer offers no wage; an absent worker puts in minimum effort */
+  protected defaultFirstMove(): Record<string, any> {
+    return { wage: 0 };
+  }
+
+  protected defaultSecondMove(): Record<string, any> {
+    return { effort: 1 };
+  }
+
   protected calculatePairResult(
     firstMoveAction: Record<string, any>,
     secondMoveAction: Record<string, any>,
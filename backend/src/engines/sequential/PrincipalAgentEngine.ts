@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SequentialBaseEngine } from './SequentialBaseEngine';
+import { SequentialBaseEngine, MATCHING_CONFIG_FIELD } from './SequentialBaseEngine';
 
 /**
  * Principal-Agent Game Engine (Week 14)
@@ -134,11 +134,15 @@ export class PrincipalAgentEngine extends SequentialBaseEngine {
           max: 200,
           step: 1,
         },
+        MATCHING_CONFIG_FIELD,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const matchingError = this.validateMatching(config);
+    if (matchingError) return matchingError;
+
     if (config.highOutput !== undefined && config.highOutput <= 0) {
       return { valid: false, error: 'High output must be positive' };
     }
@@ -192,6 +196,15 @@ export class PrincipalAgentEngine extends SequentialBaseEngine {
     return null;
   }
 
+  /** An absent principal offers nothing; an absent agent shirks */
+  protected defaultFirstMove(): Record<string, any> {
+    return { fixedWage: 0, bonus: 0 };
+  }
+
+  protected defaultSecondMove(): Record<string, any> {
+    return { highEffort: false };
+  }
+
   protected calculatePairResult(
     firstMoveAction: Record<string, any>,
     secondMoveAction: Record<string, any>,
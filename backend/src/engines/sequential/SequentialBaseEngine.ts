@@ -3,6 +3,7 @@ import type {
   GameEngine,
   GameType,
   UIConfig,
+  ConfigField,
   ValidationResult,
   ActionResult,
   RoundResult,
@@ -11,7 +12,36 @@ import { GameActionModel } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
 import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
+import { RoundPairingModel } from '../../models/RoundPairing';
 import { SessionModel } from '../../models/Session';
+import type { Player } from '../../types';
+
+/**
+ * Matching protocols for re-pairing players between rounds.
+ * - partners:          same pair every round
+ * - strangers:         random re-pairing every round (repeats possible)
+ * - perfect_strangers: round-robin rotation, never the same partner twice
+ *                      (until every possible partner has been met)
+ * - role_switching:    same pair every round, roles swap each round
+ */
+export type MatchingProtocol = 'partners' | 'strangers' | 'perfect_strangers' | 'role_switching';
+
+const MATCHING_PROTOCOLS: MatchingProtocol[] = ['partners', 'strangers', 'perfect_strangers', 'role_switching'];
+
+/** Config field shared by every sequential game's UI config */
+export const MATCHING_CONFIG_FIELD: ConfigField = {
+  name: 'matching',
+  label: 'Matching Protocol',
+  type: 'select',
+  default: 'partners',
+  options: [
+    { value: 'partners', label: 'Partners (fixed pairs)' },
+    { value: 'strangers', label: 'Strangers (random re-pairing each round)' },
+    { value: 'perfect_strangers', label: 'Perfect Strangers (no repeat partners)' },
+    { value: 'role_switching', label: 'Role Switching (fixed pairs, swap roles)' },
+  ],
+  description: 'How players are paired from one round to the next',
+};
 
 /**
  * Base engine for two-stage sequential games.
@@ -23,15 +53,29 @@ import { SessionModel } from '../../models/Session';
  * 4. After both stages complete, payoffs are calculated.
  *
  * Pairing stability:
- * Pairings are computed once per session from ALL players (including inactive)
- * sorted by player ID within each role group. This ensures pairings remain
- * stable even when players disconnect between rounds — indices never shift.
+ * Pairings are computed once per round (according to `config.matching`) and
+ * recorded in round_pairings, so every lookup within a round — and exports
+ * afterwards — see the same pairs. Partner-style matching uses ALL players
+ * (including inactive) in join order within each role group, so indices
+ * never shift when a player disconnects, and a late joiner lines up at the
+ * end of their group instead of splitting up existing pairs.
+ *
+ * Absent players:
+ * A round resolves once every pair that can still finish has finished, so
+ * nobody waits on a partner who has dropped out. In sessions whose
+ * absent_policy is 'default_action', an absent player's moves are made for
+ * them with defaultFirstMove() / defaultSecondMove() and their partner
+ * plays on as normal.
  *
  * Subclasses must implement:
  * - gameType, getUIConfig(), validateConfig()
  * - roles() — returns [firstMoverRole, secondMoverRole]
  * - validateFirstMove() / validateSecondMove()
  * - calculatePairResult() — compute payoffs for one pair
+ *
+ * Subclasses may override:
+ * - defaultFirstMove() / defaultSecondMove() — moves made for an absent
+ *   player (none by default, so absent players are skipped)
  */
 export abstract class SequentialBaseEngine implements GameEngine {
   abstract readonly gameType: GameType;
@@ -42,10 +86,10 @@ export abstract class SequentialBaseEngine implements GameEngine {
   private resolvingRounds = new Set<string>();
 
   /**
-   * Stable pairing map: sessionId -> Map<playerId, partnerId>
-   * Built once from ALL players (including inactive) sorted by ID.
+   * Per-round pairing map: roundId -> Map<playerId, partnerId>
+   * Stored as a promise so concurrent first actions share one build.
    */
-  private sessionPairings = new Map<string, Map<string, string>>();
+  private roundPairings = new Map<string, Promise<Map<string, string>>>();
 
   /** Return [firstMoverRole, secondMoverRole] */
   protected abstract roles(): [string, string];
@@ -106,52 +150,251 @@ export abstract class SequentialBaseEngine implements GameEngine {
     return resultData;
   }
 
+  /** The first move made for an absent player, or null if the game has none */
+  protected defaultFirstMove(_config: Record<string, any>): Record<string, any> | null {
+    return null;
+  }
+
+  /** The reply made for an absent player to their partner's first move */
+  protected defaultSecondMove(
+    _firstMoveAction: Record<string, any>,
+    _config: Record<string, any>
+  ): Record<string, any> | null {
+    return null;
+  }
+
+  /** Whether absent players in this session get default moves */
+  private playsDefaults(session: any): boolean {
+    return session.absent_policy === 'default_action' &&
+      this.defaultFirstMove(session.game_config || {}) !== null;
+  }
+
+  /**
+   * Read the matching protocol from config, falling back to partners.
+   */
+  protected getMatching(config: Record<string, any>): MatchingProtocol {
+    return MATCHING_PROTOCOLS.includes(config.matching) ? config.matching : 'partners';
+  }
+
+  /**
+   * Validate the shared `matching` option. Subclasses call this from
+   * validateConfig() and return the error if one is found.
+   */
+  protected validateMatching(config: Record<string, any>): ValidationResult | null {
+    if (config.matching !== undefined && !MATCHING_PROTOCOLS.includes(config.matching)) {
+      return { valid: false, error: `Matching must be one of: ${MATCHING_PROTOCOLS.join(', ')}` };
+    }
+    return null;
+  }
+
   /**
-   * Build (or retrieve cached) stable pairings for a session.
-   * Uses ALL players (including inactive) sorted by ID within each role group
-   * so that pairings never shift when a player disconnects.
+   * Get (or build and record) the pairings for a round.
+   * Previously recorded pairings win, so a restart or a second caller
+   * never re-draws a random matching mid-round.
    */
-  private async getOrBuildPairings(sessionId: string): Promise<Map<string, string>> {
-    const existing = this.sessionPairings.get(sessionId);
-    if (existing) return existing;
+  private getOrBuildPairings(session: any, roundId: string): Promise<Map<string, string>> {
+    let pending = this.roundPairings.get(roundId);
+    if (!pending) {
+      pending = this.buildPairings(session, roundId);
+      this.roundPairings.set(roundId, pending);
+      pending.catch(() => this.roundPairings.delete(roundId));
+    }
+    return pending;
+  }
+
+  private async buildPairings(session: any, roundId: string): Promise<Map<string, string>> {
+    let recorded = await RoundPairingModel.findByRound(roundId);
+
+    if (recorded.length === 0) {
+      const round = await RoundModel.findById(roundId);
+      const config = session.game_config || {};
+      const pairs = await this.computePairs(session.id, round?.round_number ?? 1, config);
+      await RoundPairingModel.createMany(roundId, pairs, this.getMatching(config));
+      recorded = await RoundPairingModel.findByRound(roundId);
+    }
+
+    const pairMap = new Map<string, string>();
+    for (const pair of recorded) {
+      pairMap.set(pair.first_mover_id, pair.second_mover_id);
+      pairMap.set(pair.second_mover_id, pair.first_mover_id);
+    }
+    return pairMap;
+  }
 
+  /**
+   * Compute the pairs for a round under the session's matching protocol.
+   */
+  private async computePairs(
+    sessionId: string,
+    roundNumber: number,
+    config: Record<string, any>
+  ): Promise<Array<{ firstMoverId: string; secondMoverId: string }>> {
     const [firstMoverRole, secondMoverRole] = this.roles();
+    const matching = this.getMatching(config);
 
-    // Use findBySession (ALL players, not just active) for stability
-    const allPlayers = await PlayerModel.findBySession(sessionId);
-    const firstMovers = allPlayers
+    // Random strangers only pair players who are actually here; the
+    // deterministic protocols use ALL players so indices stay stable.
+    const players = matching === 'strangers'
+      ? await PlayerModel.findActiveBySession(sessionId)
+      : await PlayerModel.findBySession(sessionId);
+
+    let firstMovers = players
       .filter(p => p.role === firstMoverRole)
-      .sort((a, b) => a.id.localeCompare(b.id));
-    const secondMovers = allPlayers
+      .sort(byJoinOrder);
+    let secondMovers = players
       .filter(p => p.role === secondMoverRole)
-      .sort((a, b) => a.id.localeCompare(b.id));
+      .sort(byJoinOrder);
+
+    if (matching === 'strangers') {
+      firstMovers = shuffle(firstMovers);
+      secondMovers = shuffle(secondMovers);
+    }
 
-    const pairMap = new Map<string, string>();
     const numPairs = Math.min(firstMovers.length, secondMovers.length);
+    const pairs: Array<{ firstMoverId: string; secondMoverId: string }> = [];
+
     for (let i = 0; i < numPairs; i++) {
-      pairMap.set(firstMovers[i].id, secondMovers[i].id);
-      pairMap.set(secondMovers[i].id, firstMovers[i].id);
+      if (matching === 'perfect_strangers') {
+        // Round-robin: rotate the larger group by one seat each round
+        const offset = roundNumber - 1;
+        if (firstMovers.length <= secondMovers.length) {
+          pairs.push({
+            firstMoverId: firstMovers[i].id,
+            secondMoverId: secondMovers[(i + offset) % secondMovers.length].id,
+          });
+        } else {
+          pairs.push({
+            firstMoverId: firstMovers[(i + offset) % firstMovers.length].id,
+            secondMoverId: secondMovers[i].id,
+          });
+        }
+      } else {
+        pairs.push({ firstMoverId: firstMovers[i].id, secondMoverId: secondMovers[i].id });
+      }
     }
 
-    this.sessionPairings.set(sessionId, pairMap);
-    return pairMap;
+    return pairs;
   }
 
   /**
-   * Find the stable partner for a given player.
+   * Find this round's partner for a given player.
    * Returns the partner's ID or undefined if unpaired (odd player out).
    */
-  private async findPartner(sessionId: string, playerId: string): Promise<string | undefined> {
-    const pairMap = await this.getOrBuildPairings(sessionId);
+  private async findPartner(session: any, roundId: string, playerId: string): Promise<string | undefined> {
+    const pairMap = await this.getOrBuildPairings(session, roundId);
     return pairMap.get(playerId);
   }
 
+  /**
+   * Swap first-mover and second-mover roles for every player in the session.
+   */
+  private async switchRoles(sessionId: string): Promise<void> {
+    const [firstMoverRole, secondMoverRole] = this.roles();
+    const players = await PlayerModel.findBySession(sessionId);
+    for (const p of players) {
+      if (p.role === firstMoverRole) {
+        await PlayerModel.updateRole(p.id, secondMoverRole);
+      } else if (p.role === secondMoverRole) {
+        await PlayerModel.updateRole(p.id, firstMoverRole);
+      }
+    }
+  }
+
   async setupPlayers(
     _sessionId: string,
     _playerCount: number,
     _config: Record<string, any>
   ): Promise<void> {
-    // Sequential games assign roles during the join flow (handled in playerController)
+    // Sequential games assign roles during the join flow (handled in services/seating)
+  }
+
+  /**
+   * Apply role switching (if configured) and record this round's pairings
+   * up front, so pairs exist even for players who never act.
+   */
+  async onRoundStart(
+    roundId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<void> {
+    const round = await RoundModel.findById(roundId);
+    if (!round) return;
+    const session = await SessionModel.findForRound(round);
+    if (!session) return;
+
+    const config = session.game_config || {};
+    if (this.getMatching(config) === 'role_switching' && round.round_number > 1) {
+      await this.switchRoles(session.id);
+    }
+
+    const pairMap = await this.getOrBuildPairings(session, roundId);
+
+    // Absent first movers open the round for their partners straight away
+    if (this.playsDefaults(session)) {
+      const [firstMoverRole] = this.roles();
+      const players = await PlayerModel.findBySession(session.id);
+      for (const fm of players) {
+        if (fm.role !== firstMoverRole || fm.is_active || fm.is_bot) continue;
+        const partner = players.find(p => p.id === pairMap.get(fm.id));
+        if (partner?.is_active) {
+          await this.handleAction(roundId, fm.id, this.defaultFirstMove(config)!, sessionCode, io);
+        }
+      }
+    }
+  }
+
+  /**
+   * An absent player makes their default move (if the session uses them),
+   * then the round resolves if the pairs still playing are all done.
+   */
+  async onPlayerAbsent(
+    roundId: string,
+    playerId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<void> {
+    const round = await RoundModel.findById(roundId);
+    if (!round || round.status !== 'active') return;
+    const session = await SessionModel.findForRound(round);
+    if (!session) return;
+
+    const player = await PlayerModel.findById(playerId);
+    if (player && this.playsDefaults(session)) {
+      const config = session.game_config || {};
+      const [firstMoverRole] = this.roles();
+      const isFirstMover = player.role === firstMoverRole;
+      const actionType = isFirstMover ? 'first_move' : 'second_move';
+
+      if (!(await GameActionModel.hasPlayerActed(roundId, playerId, actionType))) {
+        if (isFirstMover) {
+          await this.handleAction(roundId, playerId, this.defaultFirstMove(config)!, sessionCode, io);
+        } else {
+          await this.playDefaultReply(roundId, playerId, session, sessionCode, io);
+        }
+      }
+    }
+
+    await this.checkAllComplete(roundId, sessionCode, io, session);
+  }
+
+  /**
+   * Reply for an absent second mover once their partner's first move is in.
+   */
+  private async playDefaultReply(
+    roundId: string,
+    playerId: string,
+    session: any,
+    sessionCode: string,
+    io: Server
+  ): Promise<void> {
+    const partnerId = await this.findPartner(session, roundId, playerId);
+    if (!partnerId) return;
+    const partnerActions = await GameActionModel.findByRoundAndPlayer(roundId, partnerId);
+    const firstMove = partnerActions.find(a => a.action_type === 'first_move');
+    if (!firstMove) return;
+
+    const reply = this.defaultSecondMove(firstMove.action_data, session.game_config || {});
+    if (reply) await this.handleAction(roundId, playerId, reply, sessionCode, io);
   }
 
   async handleAction(
@@ -166,7 +409,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
 
     const round = await RoundModel.findById(roundId);
     if (!round) return { success: false, error: 'Round not found' };
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { success: false, error: 'Session not found' };
     const config = session.game_config || {};
 
@@ -187,8 +430,8 @@ export abstract class SequentialBaseEngine implements GameEngine {
 
       await GameActionModel.create(roundId, playerId, 'first_move', action);
 
-      // Find this player's stable partner
-      const partnerId = await this.findPartner(session.id, playerId);
+      // Find this player's partner for this round
+      const partnerId = await this.findPartner(session, roundId, playerId);
 
       // Get counts for broadcast
       const allPlayers = await PlayerModel.findActiveBySession(session.id);
@@ -218,6 +461,8 @@ export abstract class SequentialBaseEngine implements GameEngine {
           const { BotService } = await import('../../services/BotService');
           BotService.getInstance().onFirstMoveSubmitted(roundId, partnerId, action, session, io)
             .catch(err => console.error('BotService second-move error:', err));
+        } else if (partner && !partner.is_active && this.playsDefaults(session)) {
+          await this.playDefaultReply(roundId, partnerId, session, sessionCode, io);
         }
       }
 
@@ -227,7 +472,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
       return { success: true };
     } else {
       // Second mover responds — they need to see their partner's first move
-      const partnerId = await this.findPartner(session.id, playerId);
+      const partnerId = await this.findPartner(session, roundId, playerId);
 
       if (!partnerId) {
         return { success: false, error: 'No partner assigned yet' };
@@ -267,6 +512,11 @@ export abstract class SequentialBaseEngine implements GameEngine {
     }
   }
 
+  /**
+   * Resolve the round once every pair still in play has finished. A pair is
+   * in play while at least one partner is active and neither partner is
+   * absent with a move still to make — unless defaults will make it for them.
+   */
   private async checkAllComplete(
     roundId: string,
     sessionCode: string,
@@ -274,24 +524,32 @@ export abstract class SequentialBaseEngine implements GameEngine {
     session: any
   ): Promise<void> {
     const [firstMoverRole] = this.roles();
-    const activePlayers = await PlayerModel.findActiveBySession(session.id);
-    const pairMap = await this.getOrBuildPairings(session.id);
-
-    // Count active pairs: both partners must still be active
-    const activeFirstMovers = activePlayers.filter(p => p.role === firstMoverRole);
-    let activePairCount = 0;
-    for (const fm of activeFirstMovers) {
-      const partnerId = pairMap.get(fm.id);
-      if (partnerId && activePlayers.some(p => p.id === partnerId)) {
-        activePairCount++;
-      }
+    const players = await PlayerModel.findBySession(session.id);
+    const activeIds = new Set(players.filter(p => p.is_active).map(p => p.id));
+    const pairMap = await this.getOrBuildPairings(session, roundId);
+    const playsDefaults = this.playsDefaults(session);
+
+    const firstMoved = new Set(
+      (await GameActionModel.findByRoundAndType(roundId, 'first_move')).map(a => a.player_id)
+    );
+    const secondMoved = new Set(
+      (await GameActionModel.findByRoundAndType(roundId, 'second_move')).map(a => a.player_id)
+    );
+
+    let pairsInPlay = 0;
+    for (const fm of players.filter(p => p.role === firstMoverRole)) {
+      const smId = pairMap.get(fm.id);
+      if (!smId || (!activeIds.has(fm.id) && !activeIds.has(smId))) continue;
+      const fmCanMove = activeIds.has(fm.id) || firstMoved.has(fm.id) || playsDefaults;
+      const smCanMove = activeIds.has(smId) || secondMoved.has(smId) || playsDefaults;
+      if (!fmCanMove || !smCanMove) continue;
+
+      pairsInPlay++;
+      if (!firstMoved.has(fm.id) || !secondMoved.has(smId)) return;
     }
 
-    const firstMoveActions = await GameActionModel.findByRoundAndType(roundId, 'first_move');
-    const secondMoveActions = await GameActionModel.findByRoundAndType(roundId, 'second_move');
-
-    if (activePairCount > 0 && firstMoveActions.length >= activePairCount && secondMoveActions.length >= activePairCount) {
-      // All active pairs complete — calculate results
+    if (pairsInPlay > 0) {
+      // All pairs in play complete — calculate results
       await this.resolveRound(roundId, sessionCode, io, session);
     }
   }
@@ -313,7 +571,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
 
       const config = session.game_config || {};
       const [firstMoverRole, secondMoverRole] = this.roles();
-      const pairMap = await this.getOrBuildPairings(session.id);
+      const pairMap = await this.getOrBuildPairings(session, roundId);
 
       // Use ALL players (including inactive) so we can resolve for disconnected partners
       const allPlayersEver = await PlayerModel.findBySession(session.id);
@@ -435,10 +693,10 @@ export abstract class SequentialBaseEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return { playerResults: [], summary: {} };
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { playerResults: [], summary: {} };
 
-    // NOTE: Pairing cache is invalidated AFTER resolveRound completes (below)
+    // NOTE: Pairing cache is dropped AFTER resolveRound completes (below)
     // to ensure the current round's pairings remain stable during result processing.
 
     // Use ALL players (not just active) so resolveRound can handle disconnects
@@ -461,7 +719,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
     const playerIdsWithResults = new Set(resultsAfterResolve.map(r => r.player_id));
 
     const [firstMoverRole, secondMoverRole] = this.roles();
-    const pairMap = await this.getOrBuildPairings(session.id);
+    const pairMap = await this.getOrBuildPairings(session, roundId);
 
     const unpairedResults: Array<{
       playerId: string;
@@ -482,7 +740,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
       const playerActions = await GameActionModel.findByRoundAndPlayer(roundId, player.id);
       const submitted = playerActions.length > 0;
 
-      // Use stable pairing to determine reason
+      // Use this round's pairing to determine reason
       const partnerId = pairMap.get(player.id);
       let reason: string;
 
@@ -528,9 +786,10 @@ export abstract class SequentialBaseEngine implements GameEngine {
 
     const results = await GameResultModel.findByRound(roundId);
 
-    // Invalidate pairing cache AFTER all round processing is complete,
-    // so it gets rebuilt next round with any late joiners.
-    this.sessionPairings.delete(session.id);
+    // Drop this round's pairing cache AFTER all round processing is complete.
+    // The next round builds its own pairings (picking up any late joiners),
+    // and the recorded pairs stay in round_pairings for exports.
+    this.roundPairings.delete(roundId);
 
     return {
       playerResults: results.map(r => ({
@@ -560,7 +819,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return { stage: 'waiting' };
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { stage: 'waiting' };
 
     const allPlayers = await PlayerModel.findActiveBySession(session.id);
@@ -584,8 +843,8 @@ export abstract class SequentialBaseEngine implements GameEngine {
       const myActions = await GameActionModel.findByRoundAndPlayer(roundId, playerId);
       myAction = myActions.length > 0 ? myActions[0].action_data : null;
 
-      // Find partner via stable pairing map
-      const partnerId = await this.findPartner(session.id, playerId);
+      // Find partner via this round's pairing map
+      const partnerId = await this.findPartner(session, roundId, playerId);
       if (partnerId) {
         const partnerIsActive = allPlayers.some(p => p.id === partnerId);
         partnerDisconnected = !partnerIsActive;
@@ -606,7 +865,7 @@ export abstract class SequentialBaseEngine implements GameEngine {
     let pairsData: any[] | null = null;
     if (results.length > 0) {
       const [fmRole] = this.roles();
-      const pairMap = await this.getOrBuildPairings(session.id);
+      const pairMap = await this.getOrBuildPairings(session, roundId);
       const allPlayersEver = await PlayerModel.findBySession(session.id);
       const firstMoverResults = results.filter(r => {
         const p = allPlayersEver.find(pl => pl.id === r.player_id);
@@ -658,3 +917,18 @@ export abstract class SequentialBaseEngine implements GameEngine {
     };
   }
 }
+
+/** Fisher–Yates shuffle (returns a new array) */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Earliest joiner first; ties (same timestamp) broken by ID */
+function byJoinOrder(a: Player, b: Player): number {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id);
+}
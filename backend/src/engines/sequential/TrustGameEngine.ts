@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SequentialBaseEngine } from './SequentialBaseEngine';
+import { SequentialBaseEngine, MATCHING_CONFIG_FIELD } from './SequentialBaseEngine';
 
 /**
  * Trust Game Engine (Week 20)
@@ -85,11 +85,15 @@ export class TrustGameEngine extends SequentialBaseEngine {
           step: 0.5,
           description: 'Amount sent is multiplied by this factor',
         },
+        MATCHING_CONFIG_FIELD,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const matchingError = this.validateMatching(config);
+    if (matchingError) return matchingError;
+
     if (config.endowment !== undefined && config.endowment <= 0) {
       return { valid: false, error: 'Endowment must be positive' };
     }
@@ -130,6 +134,15 @@ export class TrustGameEngine extends SequentialBaseEngine {
     return null;
   }
 
+  /** An absent sender sends nothing; an absent receiver returns nothing */
+  protected defaultFirstMove(): Record<string, any> {
+    return { amountSent: 0 };
+  }
+
+  protected defaultSecondMove(): Record<string, any> {
+    return { amountReturned: 0 };
+  }
+
   protected calculatePairResult(
     firstMoveAction: Record<string, any>,
     secondMoveAction: Record<string, any>,
@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SequentialBaseEngine } from './SequentialBaseEngine';
+import { SequentialBaseEngine, MATCHING_CONFIG_FIELD } from './SequentialBaseEngine';
 
 /**
  * Ultimatum Game Engine (Week 7)
@@ -81,11 +81,15 @@ export class UltimatumEngine extends SequentialBaseEngine {
           step: 0.5,
           description: 'Minimum amount the proposer can offer',
         },
+        MATCHING_CONFIG_FIELD,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const matchingError = this.validateMatching(config);
+    if (matchingError) return matchingError;
+
     if (config.endowment !== undefined && config.endowment <= 0) {
       return { valid: false, error: 'Endowment must be positive' };
     }
@@ -125,6 +129,15 @@ export class UltimatumEngine extends SequentialBaseEngine {
     return null;
   }
 
+  /** An absent proposer offers the minimum; an absent responder accepts */
+  protected defaultFirstMove(config: Record<string, any>): Record<string, any> {
+    return { offer: config.minOffer ?? 0 };
+  }
+
+  protected defaultSecondMove(): Record<string, any> {
+    return { accept: true };
+  }
+
   protected calculatePairResult(
     firstMoveAction: Record<string, any>,
     secondMoveAction: Record<string, any>,
@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SimultaneousBaseEngine } from './SimultaneousBaseEngine';
+import { SimultaneousBaseEngine, GROUPING_CONFIG_FIELDS } from './SimultaneousBaseEngine';
 
 /**
  * Beauty Contest Engine (Week 2)
@@ -89,11 +89,15 @@ export class BeautyContestEngine extends SimultaneousBaseEngine {
           step: 1,
           description: 'Prize awarded to the winner (split if tied)',
         },
+        ...GROUPING_CONFIG_FIELDS,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const groupingError = this.validateGrouping(config);
+    if (groupingError) return groupingError;
+
     if (config.maxNumber !== undefined && config.maxNumber <= 0) {
       return { valid: false, error: 'Maximum number must be positive' };
     }
@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SimultaneousBaseEngine } from './SimultaneousBaseEngine';
+import { SimultaneousBaseEngine, GROUPING_CONFIG_FIELDS } from './SimultaneousBaseEngine';
 
 /**
  * Bertrand Competition Engine (Week 17)
@@ -86,11 +86,15 @@ export class BertrandEngine extends SimultaneousBaseEngine {
           step: 1,
           description: 'Maximum price a firm can set',
         },
+        ...GROUPING_CONFIG_FIELDS,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const groupingError = this.validateGrouping(config);
+    if (groupingError) return groupingError;
+
     if (config.marginalCost !== undefined && config.marginalCost < 0) {
       return { valid: false, error: 'Marginal cost cannot be negative' };
     }
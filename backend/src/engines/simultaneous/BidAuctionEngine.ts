@@ -5,6 +5,8 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { stepsFromResults, surplusAccounting } from '../../services/surplus';
+import type { SurplusAccounting } from '../../types';
 
 /**
  * Bid Auction — Buyers Only
@@ -68,27 +70,36 @@ export class BidAuctionEngine extends SimultaneousBaseEngine {
     await this.assignValuations(sessionId, config);
   }
 
+  // A late joiner is one more bidder; values are redrawn for everyone each round anyway
+  async onPlayerAdded(_sessionId: string, playerId: string, config: Record<string, any>): Promise<void> {
+    await this.assignValuation(playerId, config);
+  }
+
   async onRoundStart(roundId: string, _sessionCode: string, _io: Server): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     await this.reassignValuations(session.id, session.game_config || {});
   }
 
   private async assignValuations(sessionId: string, config: Record<string, any>): Promise<void> {
-    const valueMin = config.valueMin ?? 10;
-    const valueMax = config.valueMax ?? 100;
     const players = await PlayerModel.findBySession(sessionId);
     for (const player of players) {
-      const valuation = Math.round(valueMin + Math.random() * (valueMax - valueMin));
-      await pool.query(
-        'UPDATE players SET role = $1, valuation = $2, production_cost = NULL WHERE id = $3',
-        ['buyer', valuation, player.id]
-      );
+      await this.assignValuation(player.id, config);
     }
   }
 
+  private async assignValuation(playerId: string, config: Record<string, any>): Promise<void> {
+    const valueMin = config.valueMin ?? 10;
+    const valueMax = config.valueMax ?? 100;
+    const valuation = Math.round(valueMin + Math.random() * (valueMax - valueMin));
+    await pool.query(
+      'UPDATE players SET role = $1, valuation = $2, production_cost = NULL WHERE id = $3',
+      ['buyer', valuation, playerId]
+    );
+  }
+
   private async reassignValuations(sessionId: string, config: Record<string, any>): Promise<void> {
     const valueMin = config.valueMin ?? 10;
     const valueMax = config.valueMax ?? 100;
@@ -192,4 +203,14 @@ export class BidAuctionEngine extends SimultaneousBaseEngine {
       };
     });
   }
+
+  /** The units on sale are costless to the system, so surplus is the winners' values */
+  protected surplusAccounting(
+    results: Array<{ playerId: string; resultData: Record<string, any> }>,
+    config: Record<string, any>
+  ): SurplusAccounting {
+    const buyers = stepsFromResults(results, 'buyer', 'valuation', 'isWinner');
+    const sold = buyers.reduce((sum, b) => sum + b.traded, 0);
+    return surplusAccounting(buyers, [{ value: 0, quantity: config.numUnits ?? 3, traded: sold }]);
+  }
 }
@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SimultaneousBaseEngine } from './SimultaneousBaseEngine';
+import { SimultaneousBaseEngine, GROUPING_CONFIG_FIELDS } from './SimultaneousBaseEngine';
 
 /**
  * Common Pool Resource Engine (Week 12)
@@ -105,11 +105,15 @@ export class CommonPoolResourceEngine extends SimultaneousBaseEngine {
           step: 0.05,
           description: 'Multiplier applied to remaining pool to compute shared bonus',
         },
+        ...GROUPING_CONFIG_FIELDS,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const groupingError = this.validateGrouping(config);
+    if (groupingError) return groupingError;
+
     if (config.poolSize !== undefined && config.poolSize <= 0) {
       return { valid: false, error: 'Pool size must be positive' };
     }
@@ -147,6 +151,11 @@ export class CommonPoolResourceEngine extends SimultaneousBaseEngine {
     return null;
   }
 
+  /** An absent player takes nothing from the pool */
+  protected defaultAction(): Record<string, any> {
+    return { extraction: 0 };
+  }
+
   protected calculateResults(
     actions: Array<{ playerId: string; playerName: string; action: Record<string, any> }>,
     config: Record<string, any>,
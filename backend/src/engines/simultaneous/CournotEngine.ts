@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SimultaneousBaseEngine } from './SimultaneousBaseEngine';
+import { SimultaneousBaseEngine, GROUPING_CONFIG_FIELDS } from './SimultaneousBaseEngine';
 
 /**
  * Cournot Competition Engine (Week 18)
@@ -95,11 +95,15 @@ export class CournotEngine extends SimultaneousBaseEngine {
           step: 1,
           description: 'Maximum units a firm can produce',
         },
+        ...GROUPING_CONFIG_FIELDS,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const groupingError = this.validateGrouping(config);
+    if (groupingError) return groupingError;
+
     if (config.demandIntercept !== undefined && config.demandIntercept <= 0) {
       return { valid: false, error: 'Demand intercept must be positive' };
     }
@@ -134,6 +138,11 @@ export class CournotEngine extends SimultaneousBaseEngine {
     return null;
   }
 
+  /** An absent firm produces nothing */
+  protected defaultAction(): Record<string, any> {
+    return { quantity: 0 };
+  }
+
   protected calculateResults(
     actions: Array<{ playerId: string; playerName: string; action: Record<string, any> }>,
     config: Record<string, any>,
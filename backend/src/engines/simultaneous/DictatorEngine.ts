@@ -101,6 +101,11 @@ export class DictatorEngine extends SimultaneousBaseEngine {
     return null;
   }
 
+  /** An absent dictator keeps everything */
+  protected defaultAction(): Record<string, any> {
+    return { give: 0 };
+  }
+
   protected calculateResults(
     actions: Array<{ playerId: string; playerName: string; action: Record<string, any> }>,
     config: Record<string, any>,
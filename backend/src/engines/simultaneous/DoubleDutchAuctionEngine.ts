@@ -13,6 +13,8 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { RoundStateStore } from '../../services/RoundStateStore';
+import { stepsFromResults, surplusAccounting } from '../../services/surplus';
 
 // ============================================================================
 // Types
@@ -200,6 +202,21 @@ export class DoubleDutchAuctionEngine implements GameEngine {
     await this.assignRolesAndValues(sessionId, config);
   }
 
+  /**
+   * A late joiner takes whichever side is short (buyers on a tie, as in the
+   * initial split) with a fresh value; everyone else keeps theirs.
+   */
+  async onPlayerAdded(
+    sessionId: string,
+    playerId: string,
+    config: Record<string, any>
+  ): Promise<void> {
+    const others = (await PlayerModel.findBySession(sessionId)).filter(p => p.id !== playerId);
+    const buyers = others.filter(p => p.role === 'buyer').length;
+    const sellers = others.filter(p => p.role === 'seller').length;
+    await this.assignSide(playerId, buyers <= sellers ? 'buyer' : 'seller', config);
+  }
+
   /**
    * Initialize round state, reassign fresh valuations/costs, broadcast game state.
    */
@@ -210,7 +227,7 @@ export class DoubleDutchAuctionEngine implements GameEngine {
   ): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     const config = session.game_config || {};
 
@@ -234,6 +251,7 @@ export class DoubleDutchAuctionEngine implements GameEngine {
     }
 
     this.roundStates.set(roundId, state);
+    await RoundStateStore.save(roundId, this.gameType, state);
 
     // Broadcast initial game state
     io.to(`market-${sessionCode}`).emit('game-state', {
@@ -245,6 +263,22 @@ export class DoubleDutchAuctionEngine implements GameEngine {
     console.log(`[DoubleDutch] Round ${roundId} started — ${state.buyers.size} buyers, ${state.sellers.size} sellers`);
   }
 
+  /**
+   * Reload persisted submissions after a server restart.
+   */
+  async restoreRound(
+    roundId: string,
+    _sessionCode: string,
+    _io: Server
+  ): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+    console.log(`[DoubleDutch] Round ${roundId} restored — ${state.submissions.size} submissions`);
+    return true;
+  }
+
   /**
    * Handle a player submitting their stop price.
    */
@@ -302,6 +336,7 @@ export class DoubleDutchAuctionEngine implements GameEngine {
       stopPrice,
       role,
     });
+    await RoundStateStore.save(roundId, this.gameType, state);
 
     // Broadcast submission count (not the actual stop price — keep it private)
     const totalSubmitted = state.submissions.size;
@@ -369,7 +404,7 @@ export class DoubleDutchAuctionEngine implements GameEngine {
       const round = await RoundModel.findById(roundId);
       if (!round) return { playerResults: [], summary: {} };
 
-      const session = await SessionModel.findById(round.session_id);
+      const session = await SessionModel.findForRound(round);
       if (!session) return { playerResults: [], summary: {} };
 
       const allPlayers = await PlayerModel.findActiveBySession(session.id);
@@ -573,6 +608,13 @@ export class DoubleDutchAuctionEngine implements GameEngine {
 
       // Clean up round state
       this.roundStates.delete(roundId);
+      await RoundStateStore.remove(roundId);
+
+      const surplus = surplusAccounting(
+        stepsFromResults(playerResults, 'buyer', 'valuation', 'isMatched'),
+        stepsFromResults(playerResults, 'seller', 'cost', 'isMatched')
+      );
+      await RoundModel.setSurplus(roundId, surplus);
 
       const summary = {
         numTrades: matches.length,
@@ -587,6 +629,7 @@ export class DoubleDutchAuctionEngine implements GameEngine {
         numBuyers: allPlayers.filter(p => p.role === 'buyer').length,
         numSellers: allPlayers.filter(p => p.role === 'seller').length,
         totalSubmissions: state ? state.submissions.size : 0,
+        surplus,
         matches: matches.map(m => ({
           buyerId: m.buyerId,
           sellerId: m.sellerId,
@@ -672,33 +715,38 @@ export class DoubleDutchAuctionEngine implements GameEngine {
     sessionId: string,
     config: Record<string, any>
   ): Promise<void> {
-    const valueMin = config.valueMin ?? 20;
-    const valueMax = config.valueMax ?? 100;
-    const costMin = config.costMin ?? 10;
-    const costMax = config.costMax ?? 90;
-
     const players = await PlayerModel.findBySession(sessionId);
     // Shuffle to randomize role assignment
     const shuffled = [...players].sort(() => Math.random() - 0.5);
     const halfPoint = Math.ceil(shuffled.length / 2);
 
     for (let i = 0; i < shuffled.length; i++) {
-      const player = shuffled[i];
-      if (i < halfPoint) {
-        // Buyer: gets valuation
-        const valuation = Math.round(valueMin + Math.random() * (valueMax - valueMin));
-        await pool.query(
-          'UPDATE players SET role = $1, valuation = $2, production_cost = NULL WHERE id = $3',
-          ['buyer', valuation, player.id]
-        );
-      } else {
-        // Seller: gets cost
-        const cost = Math.round(costMin + Math.random() * (costMax - costMin));
-        await pool.query(
-          'UPDATE players SET role = $1, production_cost = $2, valuation = NULL WHERE id = $3',
-          ['seller', cost, player.id]
-        );
-      }
+      await this.assignSide(shuffled[i].id, i < halfPoint ? 'buyer' : 'seller', config);
+    }
+  }
+
+  /** Make a player a buyer (with a valuation) or a seller (with a cost) */
+  private async assignSide(
+    playerId: string,
+    role: 'buyer' | 'seller',
+    config: Record<string, any>
+  ): Promise<void> {
+    if (role === 'buyer') {
+      const valueMin = config.valueMin ?? 20;
+      const valueMax = config.valueMax ?? 100;
+      const valuation = Math.round(valueMin + Math.random() * (valueMax - valueMin));
+      await pool.query(
+        'UPDATE players SET role = $1, valuation = $2, production_cost = NULL WHERE id = $3',
+        ['buyer', valuation, playerId]
+      );
+    } else {
+      const costMin = config.costMin ?? 10;
+      const costMax = config.costMax ?? 90;
+      const cost = Math.round(costMin + Math.random() * (costMax - costMin));
+      await pool.query(
+        'UPDATE players SET role = $1, production_cost = $2, valuation = NULL WHERE id = $3',
+        ['seller', cost, playerId]
+      );
     }
   }
 
@@ -7,6 +7,8 @@ import { SessionModel } from '../../models/Session';
 import { GameActionModel } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
 import { pool } from '../../config/database';
+import { procurementAccounting } from '../../services/surplus';
+import type { SurplusAccounting } from '../../types';
 
 interface CapacityBlock {
   mw: number;
@@ -89,6 +91,24 @@ export class ElectricityMarketEngine extends SimultaneousBaseEngine {
     await this.assignCapacityBlocks(sessionId, config);
   }
 
+  /**
+   * A late joiner brings a fringe generator the size of the others'
+   * average, so nobody's capacity shrinks and the dominant firm stays put.
+   */
+  async onPlayerAdded(sessionId: string, playerId: string, config: Record<string, any>): Promise<void> {
+    const fringe = (await PlayerModel.findBySession(sessionId))
+      .filter(p => p.id !== playerId && p.game_data?.blocks && !p.game_data.isDominant)
+      .map(p => (p.game_data as GeneratorData).totalCapacity);
+    const playerCapacity = fringe.length > 0
+      ? fringe.reduce((sum, mw) => sum + mw, 0) / fringe.length
+      : (config.baseDemand ?? 400) * 1.3;
+
+    await pool.query(
+      'UPDATE players SET role = $1, game_data = $2 WHERE id = $3',
+      ['generator', JSON.stringify(this.generatorData(playerCapacity, false)), playerId]
+    );
+  }
+
   async onRoundStart(roundId: string, _sessionCode: string, _io: Server): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
@@ -122,27 +142,7 @@ export class ElectricityMarketEngine extends SimultaneousBaseEngine {
         playerCapacity = totalCapacity / numPlayers;
       }
 
-      // Create 3 capacity blocks with ascending marginal costs
-      const blocks: CapacityBlock[] = [
-        {
-          mw: Math.round(playerCapacity * 0.4),
-          marginalCost: Math.round(10 + Math.random() * 15), // [10, 25]
-        },
-        {
-          mw: Math.round(playerCapacity * 0.35),
-          marginalCost: Math.round(30 + Math.random() * 25), // [30, 55]
-        },
-        {
-          mw: Math.round(playerCapacity * 0.25),
-          marginalCost: Math.round(60 + Math.random() * 40), // [60, 100]
-        },
-      ];
-
-      const gameData: GeneratorData = {
-        blocks,
-        isDominant,
-        totalCapacity: blocks.reduce((sum, b) => sum + b.mw, 0),
-      };
+      const gameData = this.generatorData(playerCapacity, isDominant);
 
       await pool.query(
         'UPDATE players SET role = $1, game_data = $2 WHERE id = $3',
@@ -151,6 +151,30 @@ export class ElectricityMarketEngine extends SimultaneousBaseEngine {
     }
   }
 
+  /** 3 capacity blocks with ascending marginal costs */
+  private generatorData(playerCapacity: number, isDominant: boolean): GeneratorData {
+    const blocks: CapacityBlock[] = [
+      {
+        mw: Math.round(playerCapacity * 0.4),
+        marginalCost: Math.round(10 + Math.random() * 15), // [10, 25]
+      },
+      {
+        mw: Math.round(playerCapacity * 0.35),
+        marginalCost: Math.round(30 + Math.random() * 25), // [30, 55]
+      },
+      {
+        mw: Math.round(playerCapacity * 0.25),
+        marginalCost: Math.round(60 + Math.random() * 40), // [60, 100]
+      },
+    ];
+
+    return {
+      blocks,
+      isDominant,
+      totalCapacity: blocks.reduce((sum, b) => sum + b.mw, 0),
+    };
+  }
+
   protected validateAction(action: Record<string, any>, player: any, _config: Record<string, any>): string | null {
     const { offers } = action;
     if (!Array.isArray(offers)) return 'Offers must be an array';
@@ -381,6 +405,21 @@ export class ElectricityMarketEngine extends SimultaneousBaseEngine {
     return results;
   }
 
+  /** Offered capacity blocks are the supply steps; the round's load is a fixed demand */
+  protected surplusAccounting(
+    results: Array<{ playerId: string; resultData: Record<string, any> }>,
+    _config: Record<string, any>
+  ): SurplusAccounting {
+    const blocks = results.flatMap((r) =>
+      (r.resultData.blocks || []).map((b: Record<string, any>) => ({
+        value: Number(b.marginalCost),
+        quantity: Number(b.mw),
+        traded: Number(b.dispatchedMW ?? 0),
+      }))
+    );
+    return procurementAccounting(Number(results[0].resultData.demand ?? 0), blocks);
+  }
+
   async getGameState(
     roundId: string,
     playerId?: string
@@ -390,7 +429,7 @@ export class ElectricityMarketEngine extends SimultaneousBaseEngine {
     // Add demand info for the current round
     const round = await RoundModel.findById(roundId);
     if (round) {
-      const session = await SessionModel.findById(round.session_id);
+      const session = await SessionModel.findForRound(round);
       if (session) {
         const config = session.game_config || {};
         const baseDemand = config.baseDemand ?? 400;
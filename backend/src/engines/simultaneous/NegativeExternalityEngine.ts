@@ -158,6 +158,11 @@ export class NegativeExternalityEngine extends SimultaneousBaseEngine {
     return null;
   }
 
+  /** An absent firm produces nothing */
+  protected defaultAction(): Record<string, any> {
+    return { production: 0 };
+  }
+
   protected calculateResults(
     actions: Array<{ playerId: string; playerName: string; action: Record<string, any> }>,
     config: Record<string, any>,
@@ -5,6 +5,8 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { procurementAccounting, stepsFromResults } from '../../services/surplus';
+import type { SurplusAccounting } from '../../types';
 
 /**
  * Offer Auction — Sellers Only
@@ -68,27 +70,36 @@ export class OfferAuctionEngine extends SimultaneousBaseEngine {
     await this.assignCosts(sessionId, config);
   }
 
+  // A late joiner is one more seller; values are redrawn for everyone each round anyway
+  async onPlayerAdded(_sessionId: string, playerId: string, config: Record<string, any>): Promise<void> {
+    await this.assignCost(playerId, config);
+  }
+
   async onRoundStart(roundId: string, _sessionCode: string, _io: Server): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     await this.reassignCosts(session.id, session.game_config || {});
   }
 
   private async assignCosts(sessionId: string, config: Record<string, any>): Promise<void> {
-    const costMin = config.costMin ?? 10;
-    const costMax = config.costMax ?? 100;
     const players = await PlayerModel.findBySession(sessionId);
     for (const player of players) {
-      const cost = Math.round(costMin + Math.random() * (costMax - costMin));
-      await pool.query(
-        'UPDATE players SET role = $1, production_cost = $2, valuation = NULL WHERE id = $3',
-        ['seller', cost, player.id]
-      );
+      await this.assignCost(player.id, config);
     }
   }
 
+  private async assignCost(playerId: string, config: Record<string, any>): Promise<void> {
+    const costMin = config.costMin ?? 10;
+    const costMax = config.costMax ?? 100;
+    const cost = Math.round(costMin + Math.random() * (costMax - costMin));
+    await pool.query(
+      'UPDATE players SET role = $1, production_cost = $2, valuation = NULL WHERE id = $3',
+      ['seller', cost, playerId]
+    );
+  }
+
   private async reassignCosts(sessionId: string, config: Record<string, any>): Promise<void> {
     const costMin = config.costMin ?? 10;
     const costMax = config.costMax ?? 100;
@@ -192,4 +203,11 @@ export class OfferAuctionEngine extends SimultaneousBaseEngine {
       };
     });
   }
+
+  protected surplusAccounting(
+    results: Array<{ playerId: string; resultData: Record<string, any> }>,
+    config: Record<string, any>
+  ): SurplusAccounting {
+    return procurementAccounting(config.numUnits ?? 3, stepsFromResults(results, 'seller', 'cost', 'isWinner'));
+  }
 }
@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SimultaneousBaseEngine } from './SimultaneousBaseEngine';
+import { SimultaneousBaseEngine, GROUPING_CONFIG_FIELDS } from './SimultaneousBaseEngine';
 
 /**
  * Public Goods Game Engine (Week 11)
@@ -34,12 +34,12 @@ export class PublicGoodsEngine extends SimultaneousBaseEngine {
       configFields: [
         {
           name: 'market_size',
-          label: 'Group Size',
+          label: 'Number of Players',
           type: 'number',
           default: 5,
           min: 2,
           max: 20,
-          description: 'Number of players in the group',
+          description: 'Number of players in the session',
         },
         {
           name: 'num_rounds',
@@ -77,11 +77,15 @@ export class PublicGoodsEngine extends SimultaneousBaseEngine {
           step: 0.05,
           description: 'Marginal per-capita return on public good contributions',
         },
+        ...GROUPING_CONFIG_FIELDS,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const groupingError = this.validateGrouping(config);
+    if (groupingError) return groupingError;
+
     if (config.endowment !== undefined && config.endowment <= 0) {
       return { valid: false, error: 'Endowment must be positive' };
     }
@@ -113,6 +117,11 @@ export class PublicGoodsEngine extends SimultaneousBaseEngine {
     return null;
   }
 
+  /** An absent player keeps their whole endowment */
+  protected defaultAction(): Record<string, any> {
+    return { contribution: 0 };
+  }
+
   protected calculateResults(
     actions: Array<{ playerId: string; playerName: string; action: Record<string, any> }>,
     config: Record<string, any>,
@@ -5,6 +5,8 @@ import { PlayerModel } from '../../models/Player';
 import { SessionModel } from '../../models/Session';
 import { RoundModel } from '../../models/Round';
 import { pool } from '../../config/database';
+import { stepsFromResults, surplusAccounting } from '../../services/surplus';
+import type { SurplusAccounting } from '../../types';
 
 /**
  * Sealed Bid-Offer Auction Engine (Week 31 — Mankiw Ch. 15)
@@ -160,7 +162,7 @@ export class SealedBidOfferEngine extends SimultaneousBaseEngine {
   ): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     await this.reassignValues(session.id, session.game_config || {});
   }
@@ -370,4 +372,14 @@ export class SealedBidOfferEngine extends SimultaneousBaseEngine {
 
     return results;
   }
+
+  protected surplusAccounting(
+    results: Array<{ playerId: string; resultData: Record<string, any> }>,
+    _config: Record<string, any>
+  ): SurplusAccounting {
+    return surplusAccounting(
+      stepsFromResults(results, 'buyer', 'valuation', 'isTrader'),
+      stepsFromResults(results, 'seller', 'cost', 'isTrader')
+    );
+  }
 }
@@ -3,15 +3,52 @@ import type {
   GameEngine,
   GameType,
   UIConfig,
+  ConfigField,
   ValidationResult,
   ActionResult,
   RoundResult,
 } from '../GameEngine';
-import { GameActionModel } from '../../models/GameAction';
+import { GameActionModel, type GameAction } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
 import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
+import type { Player, Round, Session, SurplusAccounting } from '../../types';
+
+/**
+ * How players are split into groups between rounds.
+ * - partners:  the same groups every round
+ * - strangers: players reshuffled into new groups every round
+ */
+export type GroupMatching = 'partners' | 'strangers';
+
+const GROUP_MATCHINGS: GroupMatching[] = ['partners', 'strangers'];
+
+/** Config fields for simultaneous games that can be played in small groups */
+export const GROUPING_CONFIG_FIELDS: ConfigField[] = [
+  {
+    name: 'groupSize',
+    label: 'Players per Group',
+    type: 'number',
+    default: 0,
+    min: 0,
+    max: 50,
+    description: 'Split the class into groups of this size (0 = everyone plays as one group)',
+  },
+  {
+    name: 'groupMatching',
+    label: 'Group Matching',
+    type: 'select',
+    default: 'partners',
+    options: [
+      { value: 'partners', label: 'Partners (fixed groups)' },
+      { value: 'strangers', label: 'Strangers (new groups each round)' },
+    ],
+    description: 'Whether groups stay together or are reshuffled every round',
+  },
+];
+
+type PlayerResult = { playerId: string; profit: number; resultData: Record<string, any> };
 
 /**
  * Base engine for all simultaneous-move games.
@@ -19,12 +56,30 @@ import { SessionModel } from '../../models/Session';
  * Pattern:
  * 1. All players submit a single decision per round (price, quantity, contribution, etc.)
  * 2. Once all active players have submitted (or the timer expires), results are calculated.
- * 3. Payoffs are computed based on all players' decisions together.
+ * 3. Payoffs are computed based on all players' decisions together — or, when
+ *    `config.groupSize` is set, separately within each group of that size.
+ *
+ * Grouping:
+ * Groups are formed when the round resolves. Partners groups use ALL players
+ * (including inactive) in join order, so they never change when someone
+ * disconnects and a late joiner is added without breaking up a full group.
+ * Players left over after the full groups are spread one per group; once
+ * enough of them gather they become a group of their own. Strangers groups
+ * are drawn afresh from the players taking part that round. Every result
+ * records its groupId so exports and analytics can compare groups.
+ *
+ * Absent players:
+ * Only active players are waited for. In sessions whose absent_policy is
+ * 'default_action', players marked inactive are recorded as playing
+ * defaultAction() and are paid like everyone else.
  *
  * Subclasses must implement:
  * - gameType, getUIConfig(), validateConfig()
  * - validateAction() — check if an individual action is valid
  * - calculateResults() — compute payoffs given all actions for the round
+ *
+ * Subclasses may override:
+ * - defaultAction() — the move recorded for an absent player (none by default)
  */
 export abstract class SimultaneousBaseEngine implements GameEngine {
   abstract readonly gameType: GameType;
@@ -54,6 +109,77 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     allPlayers: any[]
   ): Array<{ playerId: string; profit: number; resultData: Record<string, any> }>;
 
+  /**
+   * The move recorded for a player who is absent under the 'default_action'
+   * policy, or null if the game has no sensible default (they are skipped).
+   */
+  protected defaultAction(_config: Record<string, any>): Record<string, any> | null {
+    return null;
+  }
+
+  protected getGroupSize(config: Record<string, any>): number {
+    const size = Number(config.groupSize);
+    return Number.isInteger(size) && size >= 2 ? size : 0;
+  }
+
+  protected getGroupMatching(config: Record<string, any>): GroupMatching {
+    return GROUP_MATCHINGS.includes(config.groupMatching) ? config.groupMatching : 'partners';
+  }
+
+  /**
+   * Validate the shared grouping options. Subclasses that offer
+   * GROUPING_CONFIG_FIELDS call this from validateConfig() and return the
+   * error if one is found.
+   */
+  protected validateGrouping(config: Record<string, any>): ValidationResult | null {
+    if (config.groupSize !== undefined && config.groupSize !== 0 &&
+        (!Number.isInteger(config.groupSize) || config.groupSize < 2)) {
+      return { valid: false, error: 'Players per group must be 0 (one group) or a whole number of at least 2' };
+    }
+    if (config.groupMatching !== undefined && !GROUP_MATCHINGS.includes(config.groupMatching)) {
+      return { valid: false, error: `Group matching must be one of: ${GROUP_MATCHINGS.join(', ')}` };
+    }
+    return null;
+  }
+
+  /**
+   * Assign players to groups (numbered from 1) for a round. Returns null
+   * when the game is played as one group.
+   */
+  private async formGroups(
+    sessionId: string,
+    config: Record<string, any>,
+    participants: Player[]
+  ): Promise<Map<string, number> | null> {
+    const groupSize = this.getGroupSize(config);
+    if (!groupSize) return null;
+
+    const players = this.getGroupMatching(config) === 'strangers'
+      ? shuffle(participants)
+      : (await PlayerModel.findBySession(sessionId)).sort(byJoinOrder);
+
+    const fullGroups = Math.max(1, Math.floor(players.length / groupSize));
+    const groups = new Map<string, number>();
+    players.forEach((p, i) => {
+      const group = i < fullGroups * groupSize
+        ? Math.floor(i / groupSize)
+        : (i - fullGroups * groupSize) % fullGroups;
+      groups.set(p.id, group + 1);
+    });
+    return groups;
+  }
+
+  /**
+   * Surplus accounting for market games, from the round's final results.
+   * Markets override this; other games keep the default of none.
+   */
+  protected surplusAccounting(
+    _results: Array<{ playerId: string; resultData: Record<string, any> }>,
+    _config: Record<string, any>
+  ): SurplusAccounting | null {
+    return null;
+  }
+
   async setupPlayers(
     _sessionId: string,
     _playerCount: number,
@@ -85,10 +211,14 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     // Get session config
     const round = await RoundModel.findById(roundId);
     if (!round) return { success: false, error: 'Round not found' };
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { success: false, error: 'Session not found' };
     const config = session.game_config || {};
 
+    if (joinedMidRound(player, round)) {
+      return { success: false, error: 'You joined during this round; you will play from the next one' };
+    }
+
     // Validate the action
     const error = this.validateAction(action, player, config);
     if (error) {
@@ -99,8 +229,8 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     await GameActionModel.create(roundId, playerId, 'decision', action);
 
     // Broadcast submission count
-    const totalSubmitted = await GameActionModel.countByRound(roundId, 'decision');
-    const activePlayers = await PlayerModel.findActiveBySession(session.id);
+    const activePlayers = await this.findRoundPlayers(round, session.id);
+    const totalSubmitted = await this.countActiveSubmissions(roundId, activePlayers);
     const totalPlayers = activePlayers.length;
 
     io.to(`market-${sessionCode}`).emit('action-submitted', {
@@ -118,6 +248,45 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     return { success: true };
   }
 
+  /**
+   * A player dropped out mid-round: if everyone still here has already
+   * submitted, there is nobody left to wait for.
+   */
+  async onPlayerAbsent(
+    roundId: string,
+    _playerId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<void> {
+    const round = await RoundModel.findById(roundId);
+    if (!round || round.status !== 'active') return;
+    const session = await SessionModel.findForRound(round);
+    if (!session) return;
+
+    const activePlayers = await this.findRoundPlayers(round, session.id);
+    if (activePlayers.length === 0) return;
+    if (await this.countActiveSubmissions(roundId, activePlayers) >= activePlayers.length) {
+      await this.resolveRound(roundId, sessionCode, io, session, activePlayers);
+    }
+  }
+
+  /**
+   * Active players taking part in this round. A late joiner seated in an
+   * empty seat after it began sits it out, since their values are drawn
+   * when the next round starts.
+   */
+  private async findRoundPlayers(round: Round, sessionId: string): Promise<Player[]> {
+    const players = await PlayerModel.findActiveBySession(sessionId);
+    return players.filter((p) => !joinedMidRound(p, round));
+  }
+
+  /** Decisions submitted this round by players who are still active */
+  private async countActiveSubmissions(roundId: string, activePlayers: Player[]): Promise<number> {
+    const activeIds = new Set(activePlayers.map((p) => p.id));
+    const actions = await GameActionModel.findByRoundAndType(roundId, 'decision');
+    return actions.filter((a) => activeIds.has(a.player_id)).length;
+  }
+
   /**
    * Resolve the round — calculate results and broadcast them.
    * Called when all players have submitted or when the round timer expires.
@@ -142,23 +311,52 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
 
     // Get only 'decision' actions for this round (ignore any other action types)
     const actions = await GameActionModel.findByRoundAndType(roundId, 'decision');
+
+    // Absent players play the default move, if the session asks for it
+    const absentees = await this.recordDefaultActions(roundId, session, config, actions);
+    for (const { action } of absentees) actions.push(action);
+    const participants: Player[] = [...activePlayers, ...absentees.map((a) => a.player)];
+    const defaulted = new Set(absentees.map((a) => a.player.id));
+
     const actionData = actions.map((a) => ({
       playerId: a.player_id,
-      playerName: activePlayers.find((p) => p.id === a.player_id)?.name || 'Unknown',
+      playerName: participants.find((p) => p.id === a.player_id)?.name || 'Unknown',
       action: a.action_data,
     }));
 
-    // Calculate results
-    const results = this.calculateResults(actionData, config, activePlayers);
+    // Calculate results, within each group if the class is split up
+    const groups = await this.formGroups(session.id, config, participants);
+    let results: PlayerResult[];
+    if (!groups) {
+      results = this.calculateResults(actionData, config, participants);
+    } else {
+      results = [];
+      const groupIds = [...new Set(groups.values())].sort((a, b) => a - b);
+      for (const groupId of groupIds) {
+        const groupActions = actionData.filter((a) => groups.get(a.playerId) === groupId);
+        const groupPlayers = participants.filter((p) => groups.get(p.id) === groupId);
+        for (const result of this.calculateResults(groupActions, config, groupPlayers)) {
+          results.push({ ...result, resultData: { ...result.resultData, groupId } });
+        }
+      }
+    }
+    for (const result of results) {
+      if (defaulted.has(result.playerId)) result.resultData = { ...result.resultData, defaulted: true };
+    }
 
     // Create result rows for non-submitting players (0 profit, no submission)
     const submittedPlayerIds = new Set(results.map(r => r.playerId));
     for (const player of activePlayers) {
       if (!submittedPlayerIds.has(player.id)) {
+        const groupId = groups?.get(player.id);
         results.push({
           playerId: player.id,
           profit: 0,
-          resultData: { submitted: false, reason: 'No submission received' },
+          resultData: {
+            submitted: false,
+            reason: 'No submission received',
+            ...(groupId !== undefined && { groupId }),
+          },
         });
       }
     }
@@ -177,7 +375,7 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
         playerId: r.playerId,
         profit: r.profit,
         ...r.resultData,
-        playerName: activePlayers.find((p) => p.id === r.playerId)?.name || 'Unknown',
+        playerName: participants.find((p) => p.id === r.playerId)?.name || 'Unknown',
       })),
       actions: actionData,
     });
@@ -186,6 +384,31 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     }
   }
 
+  /**
+   * Store the default move for every absent player who hasn't submitted,
+   * when the session's absent_policy is 'default_action'.
+   */
+  private async recordDefaultActions(
+    roundId: string,
+    session: Session,
+    config: Record<string, any>,
+    actions: GameAction[]
+  ): Promise<Array<{ player: Player; action: GameAction }>> {
+    if (session.absent_policy !== 'default_action') return [];
+    const fallback = this.defaultAction(config);
+    if (!fallback) return [];
+
+    const submitted = new Set(actions.map((a) => a.player_id));
+    const absent = (await PlayerModel.findBySession(session.id))
+      .filter((p) => !p.is_active && !p.is_bot && !submitted.has(p.id));
+
+    const recorded: Array<{ player: Player; action: GameAction }> = [];
+    for (const player of absent) {
+      recorded.push({ player, action: await GameActionModel.create(roundId, player.id, 'decision', fallback) });
+    }
+    return recorded;
+  }
+
   async processRoundEnd(
     roundId: string,
     sessionCode: string,
@@ -195,10 +418,10 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return { playerResults: [], summary: {} };
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { playerResults: [], summary: {} };
 
-    const activePlayers = await PlayerModel.findActiveBySession(session.id);
+    const activePlayers = await this.findRoundPlayers(round, session.id);
 
     // Check if results already exist (resolved when all submitted)
     const existingResults = await GameResultModel.findByRound(roundId);
@@ -211,6 +434,14 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     const results = await GameResultModel.findByRound(roundId);
     const actions = await GameActionModel.findByRound(roundId);
 
+    const surplus = results.length > 0
+      ? this.surplusAccounting(
+          results.map((r) => ({ playerId: r.player_id, resultData: r.result_data })),
+          session.game_config || {}
+        )
+      : null;
+    if (surplus) await RoundModel.setSurplus(roundId, surplus);
+
     return {
       playerResults: results.map((r) => ({
         playerId: r.player_id,
@@ -226,6 +457,7 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
           profit: Number(r.profit),
           ...r.result_data,
         })),
+        ...(surplus && { surplus }),
       },
     };
   }
@@ -237,10 +469,10 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return { submitted: false, totalSubmitted: 0, totalPlayers: 0 };
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { submitted: false, totalSubmitted: 0, totalPlayers: 0 };
 
-    const activePlayers = await PlayerModel.findActiveBySession(session.id);
+    const activePlayers = await this.findRoundPlayers(round, session.id);
     const totalSubmitted = await GameActionModel.countByRound(roundId, 'decision');
 
     const hasSubmitted = playerId
@@ -276,3 +508,23 @@ export abstract class SimultaneousBaseEngine implements GameEngine {
     };
   }
 }
+
+/** Whether a player was seated after the round began */
+function joinedMidRound(player: Player, round: Round): boolean {
+  return !!round.started_at && new Date(player.created_at).getTime() > new Date(round.started_at).getTime();
+}
+
+/** Earliest joiner first; ties (same timestamp) broken by ID */
+function byJoinOrder(a: Player, b: Player): number {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id);
+}
+
+/** Fisher–Yates shuffle (returns a new array) */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
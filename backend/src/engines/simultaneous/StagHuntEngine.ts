@@ -1,5 +1,5 @@
 import type { GameType, UIConfig, ValidationResult } from '../GameEngine';
-import { SimultaneousBaseEngine } from './SimultaneousBaseEngine';
+import { SimultaneousBaseEngine, GROUPING_CONFIG_FIELDS } from './SimultaneousBaseEngine';
 
 /**
  * Stag Hunt Game Engine (Week 15)
@@ -37,7 +37,7 @@ export class StagHuntEngine extends SimultaneousBaseEngine {
       configFields: [
         {
           name: 'market_size',
-          label: 'Group Size',
+          label: 'Number of Players',
           type: 'number',
           default: 6,
           min: 2,
@@ -80,11 +80,15 @@ export class StagHuntEngine extends SimultaneousBaseEngine {
           step: 1,
           description: 'Payoff for choosing hare (regardless of others)',
         },
+        ...GROUPING_CONFIG_FIELDS,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const groupingError = this.validateGrouping(config);
+    if (groupingError) return groupingError;
+
     if (config.stagPayoff !== undefined && config.stagPayoff <= 0) {
       return { valid: false, error: 'Stag payoff must be positive' };
     }
@@ -116,6 +120,11 @@ export class StagHuntEngine extends SimultaneousBaseEngine {
     return null;
   }
 
+  /** An absent hunter takes the safe hare */
+  protected defaultAction(): Record<string, any> {
+    return { choice: 'hare' };
+  }
+
   protected calculateResults(
     actions: Array<{ playerId: string; playerName: string; action: Record<string, any> }>,
     config: Record<string, any>,
@@ -14,6 +14,7 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { RoundStateStore } from '../../services/RoundStateStore';
 
 // ============================================================================
 // Types
@@ -252,6 +253,33 @@ export class AssetBubbleEngine implements GameEngine {
     }
   }
 
+  /**
+   * A late joiner gets a starting endowment. Under SSW (1988) they are Type A
+   * when one more trader would raise the 5/9 Type A count, so the mix stays
+   * as close to the design as it was at setup.
+   */
+  async onPlayerAdded(
+    sessionId: string,
+    playerId: string,
+    config: Record<string, any>
+  ): Promise<void> {
+    let portfolio: Portfolio;
+    if ((config.endowment_type ?? 'equal') === 'ssw_1988') {
+      const others = (await PlayerModel.findBySession(sessionId)).filter(p => p.id !== playerId).length;
+      const isTypeA = Math.ceil((others + 1) * 5 / 9) > Math.ceil(others * 5 / 9);
+      portfolio = isTypeA ? { cash: 550, shares: 2 } : { cash: 180, shares: 4 };
+    } else {
+      portfolio = {
+        cash: config.starting_cash ?? DEFAULT_STARTING_CASH,
+        shares: config.shares_per_player ?? DEFAULT_SHARES_PER_PLAYER,
+      };
+    }
+    await pool.query(
+      `UPDATE players SET role = 'trader', game_data = $1 WHERE id = $2`,
+      [JSON.stringify(portfolio), playerId]
+    );
+  }
+
   // ========================================================================
   // onRoundStart
   // ========================================================================
@@ -264,7 +292,7 @@ export class AssetBubbleEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
 
     const config = session.game_config || {};
@@ -322,6 +350,7 @@ export class AssetBubbleEngine implements GameEngine {
     };
 
     this.roundStates.set(roundId, state);
+    await this.persistState(roundId, state);
 
     // Build dividend history from previous rounds
     const dividendHistory = await this.getDividendHistory(session.id, config);
@@ -385,18 +414,61 @@ export class AssetBubbleEngine implements GameEngine {
 
     const { type } = action;
 
+    let result: ActionResult;
     switch (type) {
       case 'bid':
-        return this.handleBid(state, roundId, playerId, player, portfolio, action, sessionCode, io);
+        result = await this.handleBid(state, roundId, playerId, player, portfolio, action, sessionCode, io);
+        break;
       case 'ask':
-        return this.handleAsk(state, roundId, playerId, player, portfolio, action, sessionCode, io);
+        result = await this.handleAsk(state, roundId, playerId, player, portfolio, action, sessionCode, io);
+        break;
       case 'cancel_bid':
-        return this.handleCancelBid(state, roundId, playerId, action, sessionCode, io);
+        result = await this.handleCancelBid(state, roundId, playerId, action, sessionCode, io);
+        break;
       case 'cancel_ask':
-        return this.handleCancelAsk(state, roundId, playerId, action, sessionCode, io);
+        result = await this.handleCancelAsk(state, roundId, playerId, action, sessionCode, io);
+        break;
       default:
         return { success: false, error: `Unknown action type: ${type}` };
     }
+
+    // Order book and portfolios changed — snapshot them
+    if (result.success) {
+      await this.persistState(roundId, state);
+    }
+    return result;
+  }
+
+  // ========================================================================
+  // Persistence
+  // ========================================================================
+
+  /**
+   * Reload a persisted order book and portfolios after a server restart.
+   * The market has no internal phase timers; the round-end timer is
+   * rescheduled by the socket layer.
+   */
+  async restoreRound(
+    roundId: string,
+    _sessionCode: string,
+    _io: Server
+  ): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+    console.log(
+      `[AssetBubble] Round ${state.roundNumber}/${state.totalRounds} restored — ` +
+      `${state.bids.length} bids, ${state.asks.length} asks, ${state.trades.length} trades`
+    );
+    return true;
+  }
+
+  /**
+   * Snapshot round state so it survives a backend restart.
+   */
+  private async persistState(roundId: string, state: RoundState): Promise<void> {
+    await RoundStateStore.save(roundId, this.gameType, state);
   }
 
   // --------------------------------------------------------------------------
@@ -853,7 +925,7 @@ export class AssetBubbleEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return { playerResults: [], summary: {} };
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { playerResults: [], summary: {} };
 
     const config = session.game_config || {};
@@ -999,6 +1071,7 @@ export class AssetBubbleEngine implements GameEngine {
     // Clean up in-memory state
     this.roundStates.delete(roundId);
     this.tradeMatchLocks.delete(roundId);
+    await RoundStateStore.remove(roundId);
 
     console.log(
       `[AssetBubble] Round ${round.round_number}/${totalRounds} ended — dividend=${dividend}c, ` +
@@ -1041,7 +1114,7 @@ export class AssetBubbleEngine implements GameEngine {
     }
 
     // Lookup session config for FV calculation
-    const session = await SessionModel.findById(state.sessionId);
+    const session = await SessionModel.findForRound({ session_id: state.sessionId, round_number: state.roundNumber });
     const config = session?.game_config || {};
     const dividendValues = config.dividend_values ?? DEFAULT_DIVIDEND_VALUES;
     const expectedDividend = dividendValues.reduce((s: number, v: number) => s + v, 0) / dividendValues.length;
@@ -141,7 +141,7 @@ export class AuctionEngine extends SimultaneousBaseEngine {
   ): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     await this.assignValuations(session.id, session.game_config || {});
   }
@@ -6,6 +6,7 @@ import type {
   ValidationResult,
   ActionResult,
   RoundResult,
+  PhaseClock,
 } from '../GameEngine';
 import { GameActionModel } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
@@ -13,6 +14,8 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { RoundStateStore } from '../../services/RoundStateStore';
+import { RoundClock, type RoundTimer } from '../../services/RoundClock';
 
 // ============================================================================
 // Types
@@ -25,7 +28,8 @@ interface RoundState {
   incumbentId: string;
   activeSellers: Set<string>;            // incumbent + entering entrants
   entrantIds: Set<string>;               // all entrant player ids
-  phaseTimerId?: NodeJS.Timeout;
+  phaseTimerId?: RoundTimer;
+  phaseEndsAt?: number;                  // epoch ms when the current phase auto-ends
   config: Record<string, any>;           // cached config for resolution
   sessionId: string;
 }
@@ -189,6 +193,20 @@ export class ContestableMarketEngine implements GameEngine {
     console.log(`[ContestableMarket] setupPlayers: assigned 1 incumbent + ${shuffled.length - 1} entrants`);
   }
 
+  /**
+   * There is only ever one incumbent, so a late joiner is a potential entrant.
+   */
+  async onPlayerAdded(
+    _sessionId: string,
+    playerId: string,
+    _config: Record<string, any>
+  ): Promise<void> {
+    await pool.query(
+      'UPDATE players SET role = $1 WHERE id = $2',
+      ['entrant', playerId]
+    );
+  }
+
   /**
    * Initialize round state, start entry phase.
    */
@@ -199,7 +217,7 @@ export class ContestableMarketEngine implements GameEngine {
   ): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     const config = session.game_config || {};
 
@@ -234,9 +252,12 @@ export class ContestableMarketEngine implements GameEngine {
     const roundTime = config.time_per_round ?? 90;
     const entryTime = Math.floor(roundTime * 0.25);
 
-    state.phaseTimerId = setTimeout(() => {
+    state.phaseEndsAt = Date.now() + entryTime * 1000;
+    state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
       this.transitionToPosting(roundId, sessionCode, io);
-    }, entryTime * 1000);
+    }, entryTime * 1000, 'deadline');
+
+    await this.persistState(roundId, state);
 
     // Broadcast initial state (include cost/demand config for the UI)
     const fixedCost = config.fixed_cost ?? 500;
@@ -258,6 +279,42 @@ export class ContestableMarketEngine implements GameEngine {
     console.log(`[ContestableMarket] Round ${roundId} started - entry phase (${entryTime}s), ${entrantIds.size} potential entrants`);
   }
 
+  /**
+   * Reload a persisted round after a server restart and re-arm whichever
+   * phase timer was pending, using the time left before the stored deadline.
+   */
+  async restoreRound(
+    roundId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+
+    const remainingMs = Math.max(0, (state.phaseEndsAt ?? Date.now()) - Date.now());
+    if (state.phase === 'entry') {
+      state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
+        this.transitionToPosting(roundId, sessionCode, io);
+      }, remainingMs, 'deadline');
+    } else if (state.phase === 'posting') {
+      state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
+        this.resolveMarket(roundId, sessionCode, io);
+      }, remainingMs, 'deadline');
+    }
+
+    console.log(`[ContestableMarket] Round ${roundId} restored in ${state.phase} phase`);
+    return true;
+  }
+
+  /**
+   * Snapshot round state so it survives a backend restart.
+   */
+  private async persistState(roundId: string, state: RoundState): Promise<void> {
+    await RoundStateStore.save(roundId, this.gameType, state);
+  }
+
   /**
    * Handle player actions across all phases.
    */
@@ -332,6 +389,7 @@ export class ContestableMarketEngine implements GameEngine {
     if (entering) {
       state.activeSellers.add(playerId);
     }
+    await this.persistState(roundId, state);
 
     // Broadcast submission count (not decisions yet)
     io.to(`market-${sessionCode}`).emit('action-submitted', {
@@ -389,6 +447,7 @@ export class ContestableMarketEngine implements GameEngine {
     if (price < 0) return { success: false, error: 'Price cannot be negative' };
 
     state.postedPrices.set(playerId, Math.round(price * 100) / 100);
+    await this.persistState(roundId, state);
 
     // Broadcast submission count
     io.to(`market-${sessionCode}`).emit('action-submitted', {
@@ -429,7 +488,7 @@ export class ContestableMarketEngine implements GameEngine {
 
     // Clear the entry timer
     if (state.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
       state.phaseTimerId = undefined;
     }
 
@@ -455,9 +514,12 @@ export class ContestableMarketEngine implements GameEngine {
     const roundTime = state.config.time_per_round ?? 90;
     const postingTime = Math.floor(roundTime * 0.35);
 
-    state.phaseTimerId = setTimeout(() => {
+    state.phaseEndsAt = Date.now() + postingTime * 1000;
+    state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
       this.resolveMarket(roundId, sessionCode, io);
-    }, postingTime * 1000);
+    }, postingTime * 1000, 'deadline');
+
+    await this.persistState(roundId, state);
 
     // Build active sellers array with player info for the UI
     const allPlayers = await PlayerModel.findActiveBySession(state.sessionId);
@@ -494,7 +556,7 @@ export class ContestableMarketEngine implements GameEngine {
 
     // Clear any pending timer
     if (state.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
       state.phaseTimerId = undefined;
     }
 
@@ -673,6 +735,9 @@ export class ContestableMarketEngine implements GameEngine {
         [result.profit, result.playerId]
       );
     }
+
+    state.phaseEndsAt = undefined;
+    await this.persistState(roundId, state);
   }
 
   /**
@@ -704,7 +769,7 @@ export class ContestableMarketEngine implements GameEngine {
 
     // Clear any leftover timer
     if (state?.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
     }
 
     // Read results from DB
@@ -728,10 +793,20 @@ export class ContestableMarketEngine implements GameEngine {
 
     // Clean up round state
     this.roundStates.delete(roundId);
+    await RoundStateStore.remove(roundId);
 
     return { playerResults, summary };
   }
 
+  /**
+   * Time left in the entry or posting phase.
+   */
+  getPhaseClock(roundId: string): PhaseClock | null {
+    const state = this.roundStates.get(roundId);
+    if (!state?.phaseTimerId || state.phase === 'results') return null;
+    return { phase: state.phase, remainingMs: state.phaseTimerId.remainingMs() };
+  }
+
   /**
    * Get current game state for reconnecting players.
    */
@@ -6,12 +6,15 @@ import type {
   ValidationResult,
   ActionResult,
   RoundResult,
+  PhaseClock,
 } from '../GameEngine';
 import { GameActionModel } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
 import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
+import { RoundStateStore } from '../../services/RoundStateStore';
+import { RoundClock } from '../../services/RoundClock';
 
 // ============================================================================
 // Types & Interfaces
@@ -129,6 +132,7 @@ interface RoundState {
 
 const TICK_INTERVAL_MS = 100; // 10 ticks/sec
 const TICKS_PER_SECOND = 10;
+const PERSIST_EVERY_TICKS = TICKS_PER_SECOND; // snapshot world state once per second
 
 const DEFAULT_CONFIG: HunterGathererConfig = {
   worldWidth: 10080,
@@ -284,10 +288,12 @@ export class DiscoveryProcessEngine implements GameEngine {
   // onRoundStart — spawn prey, place players, start tick loop
   // ------------------------------------------------------------------
   async onRoundStart(roundId: string, sessionCode: string, io: Server): Promise<void> {
-    const session = await SessionModel.findByCode(sessionCode);
+    const round = await RoundModel.findById(roundId);
+    if (!round) return;
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
 
-    const gameConfig = (session as any).game_config || {};
+    const gameConfig = session.game_config || {};
     const cfg = mergeConfig(gameConfig);
 
     const players = await PlayerModel.findActiveBySession(session.id);
@@ -399,6 +405,8 @@ export class DiscoveryProcessEngine implements GameEngine {
       duration: cfg.huntingDuration,
     });
 
+    await RoundStateStore.save(roundId, this.gameType, state);
+
     // Start tick loop
     const interval = setInterval(() => {
       this.processTick(roundId);
@@ -406,6 +414,46 @@ export class DiscoveryProcessEngine implements GameEngine {
     this.tickIntervals.set(roundId, interval);
   }
 
+  // ------------------------------------------------------------------
+  // restoreRound — reload a persisted world after a server restart
+  // ------------------------------------------------------------------
+  async restoreRound(roundId: string, sessionCode: string, io: Server): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+    this.roundSessions.set(roundId, sessionCode);
+    this.roundIO.set(roundId, io);
+
+    // Phases are measured in ticks, so the round simply picks up from the
+    // last snapshot — downtime does not eat into the phase.
+    const interval = setInterval(() => {
+      this.processTick(roundId);
+    }, TICK_INTERVAL_MS);
+    this.tickIntervals.set(roundId, interval);
+
+    console.log(`[DiscoveryProcess] Round ${roundId} restored in ${state.phase} phase at tick ${state.tick}`);
+    return true;
+  }
+
+  // ------------------------------------------------------------------
+  // onRoundTimeAdded — phases run on ticks, so push the current one back
+  // ------------------------------------------------------------------
+  onRoundTimeAdded(roundId: string, seconds: number): void {
+    const state = this.roundStates.get(roundId);
+    if (!state) return;
+    state.phaseStartTick += seconds * TICKS_PER_SECOND;
+  }
+
+  // ------------------------------------------------------------------
+  // getPhaseClock — time left in the current phase, counted in ticks
+  // ------------------------------------------------------------------
+  getPhaseClock(roundId: string): PhaseClock | null {
+    const state = this.roundStates.get(roundId);
+    if (!state) return null;
+    return { phase: state.phase, remainingMs: Math.round(this.phaseSecondsLeft(state) * 1000) };
+  }
+
   // ------------------------------------------------------------------
   // processTick — the server game loop (10/sec)
   // ------------------------------------------------------------------
@@ -415,11 +463,17 @@ export class DiscoveryProcessEngine implements GameEngine {
     const io = this.roundIO.get(roundId);
     const sessionCode = this.roundSessions.get(roundId);
     if (!io || !sessionCode) return;
+    // The world stands still while the instructor has the round paused
+    if (RoundClock.getInstance().isPaused(roundId)) return;
 
     state.tick++;
     const cfg = state.config;
     const phaseTicks = state.tick - state.phaseStartTick;
 
+    if (state.tick % PERSIST_EVERY_TICKS === 0) {
+      RoundStateStore.save(roundId, this.gameType, state);
+    }
+
     // --- Phase transitions ---
     if (state.phase === 'hunting' && phaseTicks >= cfg.huntingDuration * TICKS_PER_SECOND) {
       this.transitionToTrading(roundId, state, io, sessionCode);
@@ -618,6 +672,7 @@ export class DiscoveryProcessEngine implements GameEngine {
     this.roundStates.delete(roundId);
     this.roundSessions.delete(roundId);
     this.roundIO.delete(roundId);
+    await RoundStateStore.remove(roundId);
 
     // Auto-advance to next round
     if ((io as any).__scheduleAutoAdvance) {
@@ -628,18 +683,22 @@ export class DiscoveryProcessEngine implements GameEngine {
   // ------------------------------------------------------------------
   // broadcastTick — send filtered game state to each player
   // ------------------------------------------------------------------
-  private broadcastTick(state: RoundState, io: Server, sessionCode: string): void {
+  private phaseSecondsLeft(state: RoundState): number {
     const cfg = state.config;
     const phaseTicks = state.tick - state.phaseStartTick;
-    let phaseTimeLeft = 0;
-
     if (state.phase === 'hunting') {
-      phaseTimeLeft = Math.max(0, cfg.huntingDuration - phaseTicks / TICKS_PER_SECOND);
+      return Math.max(0, cfg.huntingDuration - phaseTicks / TICKS_PER_SECOND);
     } else if (state.phase === 'trading') {
-      phaseTimeLeft = Math.max(0, cfg.tradingDuration - phaseTicks / TICKS_PER_SECOND);
+      return Math.max(0, cfg.tradingDuration - phaseTicks / TICKS_PER_SECOND);
     } else if (state.phase === 'interim') {
-      phaseTimeLeft = Math.max(0, cfg.interimDuration - phaseTicks / TICKS_PER_SECOND);
+      return Math.max(0, cfg.interimDuration - phaseTicks / TICKS_PER_SECOND);
     }
+    return 0;
+  }
+
+  private broadcastTick(state: RoundState, io: Server, sessionCode: string): void {
+    const cfg = state.config;
+    const phaseTimeLeft = this.phaseSecondsLeft(state);
 
     // Build arrays for all entities (filtering done per-player below)
     const allPlayers = Array.from(state.players.values()).map(ps => ({
@@ -1169,6 +1228,7 @@ export class DiscoveryProcessEngine implements GameEngine {
       this.roundStates.delete(roundId);
       this.roundSessions.delete(roundId);
       this.roundIO.delete(roundId);
+      await RoundStateStore.remove(roundId);
 
       return {
         playerResults,
@@ -1223,15 +1283,11 @@ export class DiscoveryProcessEngine implements GameEngine {
         .filter(p => dist(p.pos, ps.pos) <= vr)
         .map(p => ({ id: p.id, x: Math.round(p.pos.x), y: Math.round(p.pos.y), ownerId: p.ownerId, food: p.food }));
 
-      const phaseTicks = state.tick - state.phaseStartTick;
-      let timeLeft = 0;
-      if (state.phase === 'hunting') timeLeft = cfg.huntingDuration - phaseTicks / TICKS_PER_SECOND;
-      else if (state.phase === 'trading') timeLeft = cfg.tradingDuration - phaseTicks / TICKS_PER_SECOND;
-      else if (state.phase === 'interim') timeLeft = cfg.interimDuration - phaseTicks / TICKS_PER_SECOND;
+      const timeLeft = this.phaseSecondsLeft(state);
 
       return {
         phase: state.phase,
-        timeLeft: Math.max(0, Math.round(timeLeft * 10) / 10),
+        timeLeft: Math.round(timeLeft * 10) / 10,
         you: {
           id: ps.id, x: Math.round(ps.pos.x), y: Math.round(ps.pos.y),
           food: ps.food, health: ps.health,
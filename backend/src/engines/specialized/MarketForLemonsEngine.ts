@@ -6,7 +6,7 @@ import type {
   ActionResult,
   RoundResult,
 } from '../GameEngine';
-import { SequentialBaseEngine } from '../sequential/SequentialBaseEngine';
+import { SequentialBaseEngine, MATCHING_CONFIG_FIELD } from '../sequential/SequentialBaseEngine';
 
 /** In-memory cache of server-assigned quality per seller per round. */
 const sellerQualities = new Map<string, number>(); // key: `${roundId}:${playerId}`
@@ -104,11 +104,15 @@ export class MarketForLemonsEngine extends SequentialBaseEngine {
           step: 0.1,
           description: 'Buyer value = quality × this fraction',
         },
+        MATCHING_CONFIG_FIELD,
       ],
     };
   }
 
   validateConfig(config: Record<string, any>): ValidationResult {
+    const matchingError = this.validateMatching(config);
+    if (matchingError) return matchingError;
+
     if (config.sellerCostFraction !== undefined && config.sellerCostFraction <= 0) {
       return { valid: false, error: 'Seller cost fraction must be positive' };
     }
@@ -6,6 +6,7 @@ import type {
   ValidationResult,
   ActionResult,
   RoundResult,
+  PhaseClock,
 } from '../GameEngine';
 import { GameActionModel } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
@@ -13,6 +14,9 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { RoundStateStore } from '../../services/RoundStateStore';
+import { RoundClock, type RoundTimer } from '../../services/RoundClock';
+import { stepsFromResults, surplusAccounting } from '../../services/surplus';
 
 // ============================================================================
 // Types
@@ -38,7 +42,8 @@ interface RoundState {
   buyerChoices: Map<string, BuyerChoice>; // buyerId → choice
   sellers: Set<string>;
   buyers: Set<string>;
-  phaseTimerId?: NodeJS.Timeout;
+  phaseTimerId?: RoundTimer;
+  phaseEndsAt?: number; // epoch ms when the posting phase auto-ends
 }
 
 // ============================================================================
@@ -198,7 +203,7 @@ export class PostedOfferEngine implements GameEngine {
   ): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     const config = session.game_config || {};
 
@@ -229,9 +234,12 @@ export class PostedOfferEngine implements GameEngine {
     const roundTime = config.time_per_round ?? 90;
     const postingTime = Math.floor(roundTime / 2);
 
-    state.phaseTimerId = setTimeout(() => {
+    state.phaseEndsAt = Date.now() + postingTime * 1000;
+    state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
       this.transitionToShopping(roundId, sessionCode, io);
-    }, postingTime * 1000);
+    }, postingTime * 1000, 'deadline');
+
+    await this.persistState(roundId, state);
 
     // Broadcast initial game state
     io.to(`market-${sessionCode}`).emit('game-state', {
@@ -244,6 +252,31 @@ export class PostedOfferEngine implements GameEngine {
     console.log(`[PostedOffer] Round ${roundId} started — posting phase (${postingTime}s)`);
   }
 
+  /**
+   * Reload a persisted round after a server restart and re-arm the
+   * posting → shopping timer with whatever time was left.
+   */
+  async restoreRound(
+    roundId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+
+    if (state.phase === 'posting') {
+      const remainingMs = Math.max(0, (state.phaseEndsAt ?? Date.now()) - Date.now());
+      state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
+        this.transitionToShopping(roundId, sessionCode, io);
+      }, remainingMs, 'deadline');
+    }
+
+    console.log(`[PostedOffer] Round ${roundId} restored in ${state.phase} phase`);
+    return true;
+  }
+
   /**
    * Handle player actions (posting prices or choosing sellers).
    */
@@ -309,6 +342,7 @@ export class PostedOfferEngine implements GameEngine {
       price,
       cost: player.production_cost ?? 0,
     });
+    await this.persistState(roundId, state);
 
     // Notify all players that a seller posted
     io.to(`market-${sessionCode}`).emit('action-submitted', {
@@ -336,7 +370,7 @@ export class PostedOfferEngine implements GameEngine {
     playerId: string,
     player: any,
     action: Record<string, any>,
-    _roundId: string,
+    roundId: string,
     sessionCode: string,
     io: Server
   ): Promise<ActionResult> {
@@ -362,6 +396,7 @@ export class PostedOfferEngine implements GameEngine {
       sellerId,
       valuation: player.valuation ?? 0,
     });
+    await this.persistState(roundId, state);
 
     // Notify all players
     io.to(`market-${sessionCode}`).emit('action-submitted', {
@@ -392,11 +427,13 @@ export class PostedOfferEngine implements GameEngine {
 
     // Clear the posting timer
     if (state.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
       state.phaseTimerId = undefined;
     }
 
     state.phase = 'shopping';
+    state.phaseEndsAt = undefined;
+    await this.persistState(roundId, state);
 
     // Build posted prices list for broadcast (hide costs)
     const postedPrices = Array.from(state.postedPrices.values()).map(pp => ({
@@ -417,6 +454,13 @@ export class PostedOfferEngine implements GameEngine {
     await this.scheduleBuyerBotActions(state, roundId, sessionCode, io);
   }
 
+  /**
+   * Snapshot round state so it survives a backend restart.
+   */
+  private async persistState(roundId: string, state: RoundState): Promise<void> {
+    await RoundStateStore.save(roundId, this.gameType, state);
+  }
+
   /**
    * Auto-submit choices for buyer bots during shopping phase.
    * Each buyer bot picks the cheapest affordable seller (price ≤ valuation).
@@ -448,7 +492,7 @@ export class PostedOfferEngine implements GameEngine {
       const chosen = affordable[Math.floor(Math.random() * Math.min(affordable.length, 2))];
       const delay = 1000 + Math.random() * 3000;
 
-      setTimeout(async () => {
+      RoundClock.getInstance().setTimeout(roundId, async () => {
         try {
           if (state.phase !== 'shopping') return;
           // Store action in DB
@@ -482,14 +526,14 @@ export class PostedOfferEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return { playerResults: [], summary: {} };
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return { playerResults: [], summary: {} };
 
     const allPlayers = await PlayerModel.findBySession(session.id);
 
     // Clear any pending timer
     if (state?.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
     }
 
     // Match buyers to sellers
@@ -606,8 +650,15 @@ export class PostedOfferEngine implements GameEngine {
       );
     }
 
+    const surplus = surplusAccounting(
+      stepsFromResults(playerResults, 'buyer', 'valuation', 'isMatched'),
+      stepsFromResults(playerResults, 'seller', 'cost', 'isMatched')
+    );
+    await RoundModel.setSurplus(roundId, surplus);
+
     // Clean up round state
     this.roundStates.delete(roundId);
+    await RoundStateStore.remove(roundId);
 
     const summary = {
       numTrades,
@@ -616,11 +667,21 @@ export class PostedOfferEngine implements GameEngine {
       maxSurplus: Math.round(maxSurplus * 100) / 100,
       numSellers: allPlayers.filter(p => p.role === 'seller').length,
       numBuyers: allPlayers.filter(p => p.role === 'buyer').length,
+      surplus,
     };
 
     return { playerResults, summary };
   }
 
+  /**
+   * Time left in the posting or shopping phase.
+   */
+  getPhaseClock(roundId: string): PhaseClock | null {
+    const state = this.roundStates.get(roundId);
+    if (!state?.phaseTimerId || state.phase === 'complete') return null;
+    return { phase: state.phase, remainingMs: state.phaseTimerId.remainingMs() };
+  }
+
   /**
    * Get current game state for reconnecting players.
    */
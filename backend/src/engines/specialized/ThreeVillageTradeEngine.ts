@@ -6,6 +6,7 @@ import type {
   ValidationResult,
   ActionResult,
   RoundResult,
+  PhaseClock,
 } from '../GameEngine';
 import { GameActionModel } from '../../models/GameAction';
 import { GameResultModel } from '../../models/GameResult';
@@ -13,6 +14,8 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { RoundStateStore } from '../../services/RoundStateStore';
+import { RoundClock, type RoundTimer } from '../../services/RoundClock';
 
 // ============================================================================
 // Types
@@ -56,7 +59,9 @@ interface RoundState {
   /** playerId -> player display name */
   playerNames: Map<string, string>;
   /** Timer for auto-transitioning between phases */
-  phaseTimerId?: NodeJS.Timeout;
+  phaseTimerId?: RoundTimer;
+  /** Epoch ms when the current phase auto-ends (used to re-arm the timer after a restart) */
+  phaseEndsAt?: number;
   /** Cached session config */
   config: Record<string, any>;
   /** Session ID for DB lookups */
@@ -371,6 +376,36 @@ export class ThreeVillageTradeEngine implements GameEngine {
     );
   }
 
+  /**
+   * A late joiner moves into the smallest village and takes the next type
+   * there (A, B, A, ...), as if they had been dealt in at setup.
+   */
+  async onPlayerAdded(
+    sessionId: string,
+    playerId: string,
+    _config: Record<string, any>
+  ): Promise<void> {
+    const villageCounts = [0, 0, 0];
+    for (const p of await PlayerModel.findBySession(sessionId)) {
+      const village = p.game_data?.village;
+      if (p.id !== playerId && village >= 1 && village <= 3) villageCounts[village - 1]++;
+    }
+
+    const village = villageCounts.indexOf(Math.min(...villageCounts)) + 1;
+    const playerType: 'A' | 'B' = villageCounts[village - 1] % 2 === 0 ? 'A' : 'B';
+    const gameData = {
+      village,
+      playerType,
+      villageGoods: VILLAGES[village].goods,
+      importGood: VILLAGES[village].importGood,
+    };
+
+    await pool.query(
+      `UPDATE players SET role = 'villager', game_data = $1 WHERE id = $2`,
+      [JSON.stringify(gameData), playerId]
+    );
+  }
+
   // --------------------------------------------------------------------------
   // Round Lifecycle
   // --------------------------------------------------------------------------
@@ -387,7 +422,7 @@ export class ThreeVillageTradeEngine implements GameEngine {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
 
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
 
     const config = session.game_config || {};
@@ -432,9 +467,12 @@ export class ThreeVillageTradeEngine implements GameEngine {
     const roundTime = config.time_per_round ?? 120;
     const productionTime = Math.floor(roundTime * 0.25);
 
-    state.phaseTimerId = setTimeout(() => {
+    state.phaseEndsAt = Date.now() + productionTime * 1000;
+    state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
       this.transitionToTrade(roundId, sessionCode, io);
-    }, productionTime * 1000);
+    }, productionTime * 1000, 'deadline');
+
+    await this.persistState(roundId, state);
 
     // Build player info for broadcast
     const playerInfo = players.map(p => {
@@ -497,22 +535,68 @@ export class ThreeVillageTradeEngine implements GameEngine {
     // Store action in DB for audit trail
     await GameActionModel.create(roundId, playerId, actionType || 'unknown', action);
 
+    let result: ActionResult;
     switch (actionType) {
       case 'set_production':
-        return this.handleSetProduction(state, playerId, player, action, roundId, sessionCode, io);
+        result = this.handleSetProduction(state, playerId, player, action, roundId, sessionCode, io);
+        break;
 
       case 'post_offer':
-        return this.handlePostOffer(state, playerId, player, action, roundId, sessionCode, io);
+        result = this.handlePostOffer(state, playerId, player, action, roundId, sessionCode, io);
+        break;
 
       case 'accept_offer':
-        return this.handleAcceptOffer(state, playerId, player, action, roundId, sessionCode, io);
+        result = this.handleAcceptOffer(state, playerId, player, action, roundId, sessionCode, io);
+        break;
 
       case 'cancel_offer':
-        return this.handleCancelOffer(state, playerId, player, action, roundId, sessionCode, io);
+        result = this.handleCancelOffer(state, playerId, player, action, roundId, sessionCode, io);
+        break;
 
       default:
         return { success: false, error: `Unknown action type: ${actionType}` };
     }
+
+    if (result.success) {
+      await this.persistState(roundId, state);
+    }
+    return result;
+  }
+
+  /**
+   * Reload a persisted round after a server restart and re-arm the pending
+   * phase timer with the time left before its stored deadline.
+   */
+  async restoreRound(
+    roundId: string,
+    sessionCode: string,
+    io: Server
+  ): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+
+    const remainingMs = Math.max(0, (state.phaseEndsAt ?? Date.now()) - Date.now());
+    if (state.phase === 'production') {
+      state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
+        this.transitionToTrade(roundId, sessionCode, io);
+      }, remainingMs, 'deadline');
+    } else if (state.phase === 'trade') {
+      state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
+        this.transitionToResults(roundId, sessionCode, io);
+      }, remainingMs, 'deadline');
+    }
+
+    console.log(`[ThreeVillageTrade] Round ${roundId} restored in ${state.phase} phase`);
+    return true;
+  }
+
+  /**
+   * Snapshot round state so it survives a backend restart.
+   */
+  private async persistState(roundId: string, state: RoundState): Promise<void> {
+    await RoundStateStore.save(roundId, this.gameType, state);
   }
 
   // --------------------------------------------------------------------------
@@ -889,7 +973,7 @@ export class ThreeVillageTradeEngine implements GameEngine {
 
     // Clear the production timer
     if (state.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
       state.phaseTimerId = undefined;
     }
 
@@ -920,9 +1004,12 @@ export class ThreeVillageTradeEngine implements GameEngine {
     const roundTime = state.config.time_per_round ?? 120;
     const tradeTime = Math.floor(roundTime * 0.65);
 
-    state.phaseTimerId = setTimeout(() => {
+    state.phaseEndsAt = Date.now() + tradeTime * 1000;
+    state.phaseTimerId = RoundClock.getInstance().setTimeout(roundId, () => {
       this.transitionToResults(roundId, sessionCode, io);
-    }, tradeTime * 1000);
+    }, tradeTime * 1000, 'deadline');
+
+    await this.persistState(roundId, state);
 
     // Build production results for broadcast (each player sees all village members' production)
     const productionResults: Array<{
@@ -974,7 +1061,7 @@ export class ThreeVillageTradeEngine implements GameEngine {
 
     // Clear the trade timer
     if (state.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
       state.phaseTimerId = undefined;
     }
 
@@ -1106,6 +1193,9 @@ export class ThreeVillageTradeEngine implements GameEngine {
       totalInterVillageTrades: summary.totalInterVillageTrades,
     });
 
+    state.phaseEndsAt = undefined;
+    await this.persistState(roundId, state);
+
     console.log(
       `[ThreeVillageTrade] Round ${roundId} resolved: ` +
       `${summary.totalTradesCompleted} trades (${summary.totalInterVillageTrades} inter-village), ` +
@@ -1144,7 +1234,7 @@ export class ThreeVillageTradeEngine implements GameEngine {
 
     // Clear any leftover timers
     if (state?.phaseTimerId) {
-      clearTimeout(state.phaseTimerId);
+      RoundClock.getInstance().clearTimeout(state.phaseTimerId);
     }
 
     // Read results from DB
@@ -1172,10 +1262,21 @@ export class ThreeVillageTradeEngine implements GameEngine {
 
     // Clean up round state
     this.roundStates.delete(roundId);
+    await RoundStateStore.remove(roundId);
 
     return { playerResults, summary };
   }
 
+  // --------------------------------------------------------------------------
+  // Phase Clock (time left in production or trade)
+  // --------------------------------------------------------------------------
+
+  getPhaseClock(roundId: string): PhaseClock | null {
+    const state = this.roundStates.get(roundId);
+    if (!state?.phaseTimerId || state.phase === 'results') return null;
+    return { phase: state.phase, remainingMs: state.phaseTimerId.remainingMs() };
+  }
+
   // --------------------------------------------------------------------------
   // Game State (for reconnecting players)
   // --------------------------------------------------------------------------
@@ -13,6 +13,7 @@ import { PlayerModel } from '../../models/Player';
 import { RoundModel } from '../../models/Round';
 import { SessionModel } from '../../models/Session';
 import { pool } from '../../config/database';
+import { RoundStateStore } from '../../services/RoundStateStore';
 
 // ============================================================================
 // Types
@@ -323,6 +324,42 @@ export class WoolExportPunishmentEngine implements GameEngine {
     );
   }
 
+  /**
+   * A late joiner waits as an observer like any overflow player. Once four
+   * observers have gathered they form a new group together, in the order
+   * they joined; existing groups are never split up.
+   */
+  async onPlayerAdded(
+    sessionId: string,
+    playerId: string,
+    _config: Record<string, any>
+  ): Promise<void> {
+    await pool.query(
+      `UPDATE players SET role = $1, game_data = $2 WHERE id = $3`,
+      [
+        'port_merchant',
+        JSON.stringify({ groupId: -1, role: 'observer', isObserver: true }),
+        playerId,
+      ]
+    );
+
+    const players = await PlayerModel.findBySession(sessionId);
+    const groupSize = 4;
+    const observers = players.filter(p => p.game_data?.isObserver);
+    if (observers.length < groupSize) return;
+
+    const groupId = Math.max(-1, ...players.map(p => Number(p.game_data?.groupId ?? -1))) + 1;
+    for (let i = 0; i < groupSize; i++) {
+      const role: Role = ROLES[i];
+      await pool.query(
+        `UPDATE players SET role = $1, game_data = $2 WHERE id = $3`,
+        [role, JSON.stringify({ groupId, role }), observers[i].id]
+      );
+    }
+
+    console.log(`[WoolExportPunishment] Late joiners formed group ${groupId}`);
+  }
+
   // ========================================================================
   // Round Start
   // ========================================================================
@@ -334,7 +371,7 @@ export class WoolExportPunishmentEngine implements GameEngine {
   ): Promise<void> {
     const round = await RoundModel.findById(roundId);
     if (!round) return;
-    const session = await SessionModel.findById(round.session_id);
+    const session = await SessionModel.findForRound(round);
     if (!session) return;
     const config = session.game_config || {};
 
@@ -415,6 +452,7 @@ export class WoolExportPunishmentEngine implements GameEngine {
     };
 
     this.roundStates.set(roundId, state);
+    await this.persistState(roundId, state);
 
     // Broadcast initial state to all players
     io.to(`market-${sessionCode}`).emit('game-state', {
@@ -460,21 +498,55 @@ export class WoolExportPunishmentEngine implements GameEngine {
     // Store action in DB
     await GameActionModel.create(roundId, playerId, actionType || 'unknown', action);
 
+    let result: ActionResult;
+
     // ---------- Stage 1: Smuggler decision ----------
     if (actionType === 'trade_locally' || actionType === 'smuggle') {
-      return this.handleSmugglerDecision(
+      result = await this.handleSmugglerDecision(
         state, group, playerId, actionType as SmugglerDecision, roundId, sessionCode, io
       );
     }
-
     // ---------- Stage 2: Harbor Watch decision ----------
-    if (actionType === 'blind_eye' || actionType === 'report') {
-      return this.handleHarborWatchDecision(
+    else if (actionType === 'blind_eye' || actionType === 'report') {
+      result = await this.handleHarborWatchDecision(
         state, group, playerId, actionType as HarborWatchDecision, roundId, sessionCode, io
       );
+    } else {
+      return { success: false, error: `Unknown action type: ${actionType}` };
+    }
+
+    if (result.success) {
+      await this.persistState(roundId, state);
     }
+    return result;
+  }
+
+  // ========================================================================
+  // Persistence
+  // ========================================================================
 
-    return { success: false, error: `Unknown action type: ${actionType}` };
+  /**
+   * Reload a persisted round after a server restart. This game has no phase
+   * timers — groups simply wait for the next decision.
+   */
+  async restoreRound(
+    roundId: string,
+    _sessionCode: string,
+    _io: Server
+  ): Promise<boolean> {
+    const state = await RoundStateStore.load<RoundState>(roundId);
+    if (!state) return false;
+
+    this.roundStates.set(roundId, state);
+    console.log(`[WoolExportPunishment] Round ${roundId} restored with ${state.groups.size} group(s)`);
+    return true;
+  }
+
+  /**
+   * Snapshot round state so it survives a backend restart.
+   */
+  private async persistState(roundId: string, state: RoundState): Promise<void> {
+    await RoundStateStore.save(roundId, this.gameType, state);
   }
 
   // ========================================================================
@@ -717,6 +789,7 @@ export class WoolExportPunishmentEngine implements GameEngine {
 
     // Clean up round state
     this.roundStates.delete(roundId);
+    await RoundStateStore.remove(roundId);
 
     return { playerResults, summary };
   }
@@ -1,13 +1,16 @@
 import type { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
 import { SessionModel } from '../models/Session';
+import { bearerToken, verifyInstructorToken } from './instructorAuth';
+import type { Session } from '../types';
 
 /**
  * Middleware that verifies the caller has admin access to a session.
  *
- * Looks up the session from :id (or :code) route param, then checks the
- * `x-admin-password` header against the stored (bcrypt-hashed) password.
- * If the session has no admin password set, the request is allowed through.
+ * Looks up the session from :id (or :code) route param. Sessions owned by an
+ * instructor account require that instructor's bearer token. Unowned (legacy)
+ * sessions check the `x-admin-password` header against the stored
+ * (bcrypt-hashed) password, and are open if no admin password is set.
  *
  * Usage:
  *   router.post('/:id/start', requireAdmin, SessionController.start);
@@ -30,42 +33,60 @@ export async function requireAdmin(req: Request, res: Response, next: NextFuncti
       return;
     }
 
-    // If no admin password is set on this session, allow open access
-    if (!session.admin_password) {
-      next();
+    const denied = await checkAdminAccess(req, session);
+    if (denied) {
+      res.status(denied.status).json({ success: false, error: denied.error });
       return;
     }
 
-    // Only accept password from header or body — never from query string
-    // (query strings are logged in server access logs and browser history)
-    const providedPassword =
-      (req.headers['x-admin-password'] as string) ||
-      req.body?.admin_password;
+    next();
+  } catch (error) {
+    console.error('Admin auth middleware error:', error);
+    res.status(500).json({ success: false, error: 'Authentication check failed' });
+  }
+}
 
-    if (!providedPassword) {
-      res.status(401).json({ success: false, error: 'Admin password required' });
-      return;
+/**
+ * Whether the request has admin access to `session`, by the rules above.
+ * Returns null if it does, otherwise the status and error to refuse it with.
+ * Sets req.instructor when the owner's token let it in.
+ */
+export async function checkAdminAccess(
+  req: Request,
+  session: Session
+): Promise<{ status: number; error: string } | null> {
+  // Owned sessions: only the owning instructor gets in, admin_password is ignored
+  if (session.owner_id) {
+    const claims = verifyInstructorToken(bearerToken(req));
+    if (!claims) return { status: 401, error: 'Instructor login required' };
+    if (claims.instructorId !== session.owner_id) {
+      return { status: 403, error: 'Only the session owner can do this' };
     }
+    req.instructor = claims;
+    return null;
+  }
 
-    // Compare: support both bcrypt hashed and legacy plaintext passwords
-    let isValid = false;
-    if (session.admin_password.startsWith('$2a$') || session.admin_password.startsWith('$2b$')) {
-      isValid = await bcrypt.compare(providedPassword, session.admin_password);
-    } else {
-      // Legacy plaintext comparison (for sessions created before hashing was added)
-      isValid = providedPassword === session.admin_password;
-    }
+  // If no admin password is set on this session, allow open access
+  if (!session.admin_password) return null;
 
-    if (!isValid) {
-      res.status(401).json({ success: false, error: 'Incorrect admin password' });
-      return;
-    }
+  // Only accept password from header or body — never from query string
+  // (query strings are logged in server access logs and browser history)
+  const providedPassword =
+    (req.headers['x-admin-password'] as string) ||
+    req.body?.admin_password;
 
-    next();
-  } catch (error) {
-    console.error('Admin auth middleware error:', error);
-    res.status(500).json({ success: false, error: 'Authentication check failed' });
+  if (!providedPassword) return { status: 401, error: 'Admin password required' };
+
+  // Compare: support both bcrypt hashed and legacy plaintext passwords
+  let isValid = false;
+  if (session.admin_password.startsWith('$2a$') || session.admin_password.startsWith('$2b$')) {
+    isValid = await bcrypt.compare(providedPassword, session.admin_password);
+  } else {
+    // Legacy plaintext comparison (for sessions created before hashing was added)
+    isValid = providedPassword === session.admin_password;
   }
+
+  return isValid ? null : { status: 401, error: 'Incorrect admin password' };
 }
 
 /**
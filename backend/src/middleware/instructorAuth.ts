@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { getJwtSecret } from '../config/jwt';
+
+/**
+ * Instructor login tokens.
+ *
+ * Issued by AuthController on register/login and sent back as
+ * `Authorization: Bearer <token>` (REST) or `auth.token` in the socket
+ * handshake. Sessions created while signed in are owned by that instructor,
+ * and only the owner passes requireAdmin / verifyAdminAuth for them.
+ */
+
+export interface InstructorTokenPayload {
+  instructorId: string;
+  email: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      instructor?: InstructorTokenPayload;
+    }
+  }
+}
+
+const INSTRUCTOR_TOKEN_TTL = '7d';
+
+export function signInstructorToken(payload: InstructorTokenPayload): string {
+  return jwt.sign(
+    { instructorId: payload.instructorId, email: payload.email },
+    getJwtSecret(),
+    { expiresIn: INSTRUCTOR_TOKEN_TTL }
+  );
+}
+
+/**
+ * Decode and verify an instructor token.
+ * Returns null for missing, malformed, expired or wrongly-signed tokens
+ * (player tokens are rejected too — they carry no instructorId).
+ */
+export function verifyInstructorToken(token: unknown): InstructorTokenPayload | null {
+  if (!token || typeof token !== 'string') return null;
+  try {
+    const decoded = jwt.verify(token, getJwtSecret());
+    if (typeof decoded !== 'object' || decoded === null) return null;
+    const { instructorId, email } = decoded as Record<string, unknown>;
+    if (typeof instructorId !== 'string' || typeof email !== 'string') return null;
+    return { instructorId, email };
+  } catch {
+    return null;
+  }
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return undefined;
+  return header.slice('Bearer '.length).trim();
+}
+
+/**
+ * Middleware that attaches `req.instructor` when a valid instructor token is
+ * present, and lets the request through either way.
+ */
+export function attachInstructor(req: Request, _res: Response, next: NextFunction) {
+  const claims = verifyInstructorToken(bearerToken(req));
+  if (claims) req.instructor = claims;
+  next();
+}
+
+/**
+ * Middleware that rejects the request unless it carries a valid instructor token.
+ *
+ * Usage:
+ *   router.get('/', requireInstructor, SessionController.list);
+ */
+export function requireInstructor(req: Request, res: Response, next: NextFunction) {
+  const claims = verifyInstructorToken(bearerToken(req));
+  if (!claims) {
+    res.status(401).json({ success: false, error: 'Instructor login required' });
+    return;
+  }
+  req.instructor = claims;
+  next();
+}
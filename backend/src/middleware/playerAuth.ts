@@ -0,0 +1,102 @@
+import type { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { getJwtSecret } from '../config/jwt';
+import { PlayerModel } from '../models/Player';
+import { SessionModel } from '../models/Session';
+import { checkAdminAccess } from './adminAuth';
+
+/**
+ * Signed per-player tokens.
+ *
+ * PlayerController.joinSession issues one of these alongside the player record;
+ * the client hands it back on `join-market`, which binds the player to the socket.
+ * Every player-scoped socket event is then checked against that binding instead of
+ * trusting the playerId in the payload. Over REST the token goes in the
+ * `x-player-token` header (Authorization carries the instructor's login).
+ */
+
+export interface PlayerTokenPayload {
+  playerId: string;
+  sessionId: string;
+  sessionCode: string;
+}
+
+// Long enough to outlast any class session, short enough that old tokens die off
+const PLAYER_TOKEN_TTL = '24h';
+
+export function signPlayerToken(payload: PlayerTokenPayload): string {
+  return jwt.sign(
+    { playerId: payload.playerId, sessionId: payload.sessionId, sessionCode: payload.sessionCode },
+    getJwtSecret(),
+    { expiresIn: PLAYER_TOKEN_TTL }
+  );
+}
+
+/**
+ * Decode and verify a player token.
+ * Returns null for missing, malformed, expired or wrongly-signed tokens.
+ */
+export function verifyPlayerToken(token: unknown): PlayerTokenPayload | null {
+  if (!token || typeof token !== 'string') return null;
+  try {
+    const decoded = jwt.verify(token, getJwtSecret());
+    if (typeof decoded !== 'object' || decoded === null) return null;
+    const { playerId, sessionId, sessionCode } = decoded as Record<string, unknown>;
+    if (typeof playerId !== 'string' || typeof sessionId !== 'string' || typeof sessionCode !== 'string') {
+      return null;
+    }
+    return { playerId, sessionId, sessionCode };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a token was issued before `since` (a seat changing hands). Tokens
+ * carry their issue time to the second, so one signed in the same second
+ * still counts as current.
+ */
+export function issuedBefore(token: string, since: Date): boolean {
+  const decoded = jwt.decode(token);
+  const iat = typeof decoded === 'object' && decoded !== null ? decoded.iat : undefined;
+  if (typeof iat !== 'number') return true;
+  return iat < Math.floor(since.getTime() / 1000);
+}
+
+/**
+ * Middleware for routes about one player (:id is the player's id). Lets
+ * through the player themself, by their token, or whoever has admin access
+ * to their session; a player's record holds their private values.
+ */
+export async function requirePlayerOrAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const player = await PlayerModel.findById(req.params.id as string);
+    if (!player) {
+      res.status(404).json({ success: false, error: 'Player not found' });
+      return;
+    }
+
+    const token = req.headers['x-player-token'];
+    const claims = verifyPlayerToken(token);
+    if (claims && claims.playerId === player.id && claims.sessionId === player.session_id &&
+        !(player.claimed_at && issuedBefore(token as string, new Date(player.claimed_at)))) {
+      next();
+      return;
+    }
+
+    const session = await SessionModel.findById(player.session_id);
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+    const denied = await checkAdminAccess(req, session);
+    if (denied) {
+      res.status(denied.status).json({ success: false, error: denied.error });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Player auth middleware error:', error);
+    res.status(500).json({ success: false, error: 'Authentication check failed' });
+  }
+}
@@ -1,12 +1,12 @@
 import { pool } from '../config/database';
-import { Ask } from '../types';
+import { Ask, OrderHistoryEntry } from '../types';
 
 export class AskModel {
-  // Submit ask
-  static async create(roundId: string, playerId: string, price: number): Promise<Ask> {
+  // Submit ask (unitNumber: which unit of the seller's schedule it is for, 1-based)
+  static async create(roundId: string, playerId: string, price: number, unitNumber = 1): Promise<Ask> {
     const result = await pool.query<Ask>(
-      'INSERT INTO asks (round_id, player_id, price) VALUES ($1, $2, $3) RETURNING *',
-      [roundId, playerId, price]
+      'INSERT INTO asks (round_id, player_id, price, unit_number) VALUES ($1, $2, $3, $4) RETURNING *',
+      [roundId, playerId, price, unitNumber]
     );
     return result.rows[0];
   }
@@ -38,19 +38,50 @@ export class AskModel {
     return result.rows;
   }
 
+  // Full order flow for a session, oldest first (cancelled/replaced asks included)
+  static async findBySession(sessionId: string): Promise<OrderHistoryEntry<Ask>[]> {
+    const result = await pool.query<OrderHistoryEntry<Ask>>(
+      `SELECT a.*, r.round_number
+       FROM asks a
+       JOIN rounds r ON a.round_id = r.id
+       WHERE r.session_id = $1
+       ORDER BY r.round_number, a.created_at`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+
   // Mark ask as inactive (traded)
   static async markInactive(id: string): Promise<Ask> {
     const result = await pool.query<Ask>(
-      'UPDATE asks SET is_active = false WHERE id = $1 RETURNING *',
+      "UPDATE asks SET is_active = false, status = 'filled', closed_at = NOW() WHERE id = $1 RETURNING *",
       [id]
     );
     return result.rows[0];
   }
 
+  // Deactivate a player's standing asks for round (when they post a new one)
+  static async deactivateForPlayer(roundId: string, playerId: string): Promise<Ask[]> {
+    const result = await pool.query<Ask>(
+      "UPDATE asks SET is_active = false, status = 'replaced', closed_at = NOW() WHERE round_id = $1 AND player_id = $2 AND is_active = true RETURNING *",
+      [roundId, playerId]
+    );
+    return result.rows;
+  }
+
+  // Withdraw a standing ask. Returns null if it already traded or closed.
+  static async cancel(id: string): Promise<Ask | null> {
+    const result = await pool.query<Ask>(
+      "UPDATE asks SET is_active = false, status = 'cancelled', closed_at = NOW() WHERE id = $1 AND is_active = true RETURNING *",
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
   // Deactivate all asks for round (when round ends)
   static async deactivateAllForRound(roundId: string): Promise<void> {
     await pool.query(
-      'UPDATE asks SET is_active = false WHERE round_id = $1',
+      "UPDATE asks SET is_active = false, status = 'expired', closed_at = NOW() WHERE round_id = $1 AND is_active = true",
       [roundId]
     );
   }
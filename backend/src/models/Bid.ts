@@ -1,12 +1,12 @@
 import { pool } from '../config/database';
-import { Bid } from '../types';
+import { Bid, OrderHistoryEntry } from '../types';
 
 export class BidModel {
-  // Submit bid
-  static async create(roundId: string, playerId: string, price: number): Promise<Bid> {
+  // Submit bid (unitNumber: which unit of the buyer's schedule it is for, 1-based)
+  static async create(roundId: string, playerId: string, price: number, unitNumber = 1): Promise<Bid> {
     const result = await pool.query<Bid>(
-      'INSERT INTO bids (round_id, player_id, price) VALUES ($1, $2, $3) RETURNING *',
-      [roundId, playerId, price]
+      'INSERT INTO bids (round_id, player_id, price, unit_number) VALUES ($1, $2, $3, $4) RETURNING *',
+      [roundId, playerId, price, unitNumber]
     );
     return result.rows[0];
   }
@@ -38,19 +38,50 @@ export class BidModel {
     return result.rows;
   }
 
+  // Full order flow for a session, oldest first (cancelled/replaced bids included)
+  static async findBySession(sessionId: string): Promise<OrderHistoryEntry<Bid>[]> {
+    const result = await pool.query<OrderHistoryEntry<Bid>>(
+      `SELECT b.*, r.round_number
+       FROM bids b
+       JOIN rounds r ON b.round_id = r.id
+       WHERE r.session_id = $1
+       ORDER BY r.round_number, b.created_at`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+
   // Mark bid as inactive (traded)
   static async markInactive(id: string): Promise<Bid> {
     const result = await pool.query<Bid>(
-      'UPDATE bids SET is_active = false WHERE id = $1 RETURNING *',
+      "UPDATE bids SET is_active = false, status = 'filled', closed_at = NOW() WHERE id = $1 RETURNING *",
       [id]
     );
     return result.rows[0];
   }
 
+  // Deactivate a player's standing bids for round (when they post a new one)
+  static async deactivateForPlayer(roundId: string, playerId: string): Promise<Bid[]> {
+    const result = await pool.query<Bid>(
+      "UPDATE bids SET is_active = false, status = 'replaced', closed_at = NOW() WHERE round_id = $1 AND player_id = $2 AND is_active = true RETURNING *",
+      [roundId, playerId]
+    );
+    return result.rows;
+  }
+
+  // Withdraw a standing bid. Returns null if it already traded or closed.
+  static async cancel(id: string): Promise<Bid | null> {
+    const result = await pool.query<Bid>(
+      "UPDATE bids SET is_active = false, status = 'cancelled', closed_at = NOW() WHERE id = $1 AND is_active = true RETURNING *",
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
   // Deactivate all bids for round (when round ends)
   static async deactivateAllForRound(roundId: string): Promise<void> {
     await pool.query(
-      'UPDATE bids SET is_active = false WHERE round_id = $1',
+      "UPDATE bids SET is_active = false, status = 'expired', closed_at = NOW() WHERE round_id = $1 AND is_active = true",
       [roundId]
     );
   }
@@ -35,6 +35,18 @@ export class GameActionModel {
     return result.rows;
   }
 
+  // Get actions for a session (via rounds), in submission order
+  static async findBySession(sessionId: string): Promise<GameAction[]> {
+    const result = await pool.query<GameAction>(
+      `SELECT ga.* FROM game_actions ga
+       JOIN rounds r ON ga.round_id = r.id
+       WHERE r.session_id = $1
+       ORDER BY r.round_number, ga.created_at`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+
   // Get actions for a player in a round
   static async findByRoundAndPlayer(
     roundId: string,
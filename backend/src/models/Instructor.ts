@@ -0,0 +1,45 @@
+import bcrypt from 'bcryptjs';
+import { pool } from '../config/database';
+import { Instructor } from '../types';
+
+const BCRYPT_ROUNDS = 10;
+
+export class InstructorModel {
+  // Create an instructor account (email is stored lower-cased)
+  static async create(email: string, password: string, name?: string): Promise<Instructor> {
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    const result = await pool.query<Instructor>(
+      `INSERT INTO instructors (email, name, password_hash)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [email.trim().toLowerCase(), name || null, passwordHash]
+    );
+    return result.rows[0];
+  }
+
+  // Get instructor by ID
+  static async findById(id: string): Promise<Instructor | null> {
+    const result = await pool.query<Instructor>(
+      'SELECT * FROM instructors WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Get instructor by email (case-insensitive)
+  static async findByEmail(email: string): Promise<Instructor | null> {
+    const result = await pool.query<Instructor>(
+      'SELECT * FROM instructors WHERE email = $1',
+      [email.trim().toLowerCase()]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Check a login attempt; returns the instructor only if the password matches
+  static async authenticate(email: string, password: string): Promise<Instructor | null> {
+    const instructor = await this.findByEmail(email);
+    if (!instructor) return null;
+    const isValid = await bcrypt.compare(password, instructor.password_hash);
+    return isValid ? instructor : null;
+  }
+}
@@ -0,0 +1,111 @@
+import { pool } from '../config/database';
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface JoinRequest {
+  id: string;
+  session_id: string;
+  name: string | null;
+  status: JoinRequestStatus;
+  /** The seat the instructor put the student in, once approved */
+  player_id: string | null;
+  created_at: Date;
+  decided_at: Date | null;
+  /** When the student collected the seat's token; it is only handed out once */
+  token_issued_at: Date | null;
+}
+
+// Everything but the poll secret's hash, which never leaves the database
+const COLUMNS = 'id, session_id, name, status, player_id, created_at, decided_at, token_issued_at';
+
+export class JoinRequestModel {
+  // Record a request to join a session that has already started
+  static async create(sessionId: string, name: string, pollSecretHash: string): Promise<JoinRequest> {
+    const result = await pool.query<JoinRequest>(
+      `INSERT INTO join_requests (session_id, name, poll_secret_hash)
+       VALUES ($1, $2, $3)
+       RETURNING ${COLUMNS}`,
+      [sessionId, name, pollSecretHash]
+    );
+    return result.rows[0];
+  }
+
+  // Get request by ID
+  static async findById(id: string): Promise<JoinRequest | null> {
+    const result = await pool.query<JoinRequest>(
+      `SELECT ${COLUMNS} FROM join_requests WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Get a request for the student polling it, who must hold its secret
+  static async findByIdAndSecret(id: string, pollSecretHash: string): Promise<JoinRequest | null> {
+    const result = await pool.query<JoinRequest>(
+      `SELECT ${COLUMNS} FROM join_requests WHERE id = $1 AND poll_secret_hash = $2`,
+      [id, pollSecretHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Get the requests still waiting for the instructor, oldest first
+  static async findPendingBySession(sessionId: string): Promise<JoinRequest[]> {
+    const result = await pool.query<JoinRequest>(
+      `SELECT ${COLUMNS} FROM join_requests
+       WHERE session_id = $1 AND status = 'pending'
+       ORDER BY created_at`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+
+  // Approve or reject a pending request. Returns null if it was already decided.
+  static async decide(
+    id: string,
+    status: Exclude<JoinRequestStatus, 'pending'>,
+    playerId: string | null = null
+  ): Promise<JoinRequest | null> {
+    const result = await pool.query<JoinRequest>(
+      `UPDATE join_requests
+       SET status = $2, player_id = $3, decided_at = NOW()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING ${COLUMNS}`,
+      [id, status, playerId]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Record the new seat an approved request was given
+  static async setPlayer(id: string, playerId: string): Promise<JoinRequest | null> {
+    const result = await pool.query<JoinRequest>(
+      `UPDATE join_requests
+       SET player_id = $2
+       WHERE id = $1 AND status = 'approved'
+       RETURNING ${COLUMNS}`,
+      [id, playerId]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Put an approved request back in the queue when its seat fell through
+  static async reopen(id: string): Promise<void> {
+    await pool.query(
+      `UPDATE join_requests
+       SET status = 'pending', player_id = NULL, decided_at = NULL
+       WHERE id = $1 AND status = 'approved'`,
+      [id]
+    );
+  }
+
+  // Mark a seated request's token as handed out. Returns null if it already was.
+  static async issueToken(id: string): Promise<JoinRequest | null> {
+    const result = await pool.query<JoinRequest>(
+      `UPDATE join_requests
+       SET token_issued_at = NOW()
+       WHERE id = $1 AND status = 'approved' AND player_id IS NOT NULL AND token_issued_at IS NULL
+       RETURNING ${COLUMNS}`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+}
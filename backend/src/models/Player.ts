@@ -114,6 +114,7 @@ export class PlayerModel {
       role: string;
       valueColumn?: 'valuation' | 'production_cost';
       value?: number;
+      gameData?: Record<string, any>;
     }
   ): Promise<Player | null> {
     const client = await pool.connect();
@@ -135,24 +136,25 @@ export class PlayerModel {
       }
 
       // Let the caller decide the role based on the locked player list
-      const { role, valueColumn, value } = roleAssigner(existingPlayers);
+      const { role, valueColumn, value, gameData } = roleAssigner(existingPlayers);
 
-      let result;
+      const columns = ['session_id', 'name', 'role', 'is_bot'];
+      const values: any[] = [sessionId, name, role, isBot];
       if (valueColumn && value !== undefined) {
-        result = await client.query<Player>(
-          `INSERT INTO players (session_id, name, role, ${valueColumn}, is_bot)
-           VALUES ($1, $2, $3, $4, $5)
-           RETURNING *`,
-          [sessionId, name, role, value, isBot]
-        );
-      } else {
-        result = await client.query<Player>(
-          `INSERT INTO players (session_id, name, role, is_bot)
-           VALUES ($1, $2, $3, $4)
-           RETURNING *`,
-          [sessionId, name, role, isBot]
-        );
+        columns.push(valueColumn);
+        values.push(value);
+      }
+      if (gameData) {
+        columns.push('game_data');
+        values.push(JSON.stringify(gameData));
       }
+      const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
+      const result = await client.query<Player>(
+        `INSERT INTO players (${columns.join(', ')})
+         VALUES (${placeholders})
+         RETURNING *`,
+        values
+      );
 
       await client.query('COMMIT');
       return result.rows[0];
@@ -209,6 +211,34 @@ export class PlayerModel {
     return result.rows[0];
   }
 
+  // Set a DA trader's values for the round: the headline valuation/cost, the unit
+  // schedule in force, and the unshocked base schedule it was derived from
+  static async setUnitValues(
+    id: string,
+    valueColumn: 'valuation' | 'production_cost',
+    unitValues: number[],
+    baseUnitValues: number[]
+  ): Promise<Player> {
+    const result = await pool.query<Player>(
+      `UPDATE players
+       SET ${valueColumn} = $2,
+           game_data = COALESCE(game_data, '{}'::jsonb) || $3::jsonb
+       WHERE id = $1
+       RETURNING *`,
+      [id, unitValues[0], JSON.stringify({ unitValues, baseUnitValues })]
+    );
+    return result.rows[0];
+  }
+
+  // Update player role (used by role-switching matching)
+  static async updateRole(id: string, role: string): Promise<Player> {
+    const result = await pool.query<Player>(
+      'UPDATE players SET role = $1 WHERE id = $2 RETURNING *',
+      [role, id]
+    );
+    return result.rows[0];
+  }
+
   // Mark player as inactive
   static async markInactive(id: string): Promise<Player> {
     const result = await pool.query<Player>(
@@ -236,6 +266,28 @@ export class PlayerModel {
     return result.rows[0];
   }
 
+  // A student is back: active again, and no longer played by a bot
+  static async markReturned(id: string): Promise<Player> {
+    const result = await pool.query<Player>(
+      'UPDATE players SET is_active = true, is_bot = false WHERE id = $1 RETURNING *',
+      [id]
+    );
+    return result.rows[0];
+  }
+
+  // Hand an existing seat (a bot's, or a disconnected student's) to a late
+  // joiner; role, values and profit stay with the seat
+  static async claimSeat(id: string, name: string): Promise<Player> {
+    const result = await pool.query<Player>(
+      `UPDATE players
+       SET name = $2, is_bot = false, is_active = true, claimed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, name]
+    );
+    return result.rows[0];
+  }
+
   // Delete player
   static async delete(id: string): Promise<void> {
     await pool.query('DELETE FROM players WHERE id = $1', [id]);
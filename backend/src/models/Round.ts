@@ -1,5 +1,5 @@
 import { pool } from '../config/database';
-import { Round } from '../types';
+import { Round, SurplusAccounting } from '../types';
 
 export class RoundModel {
   // Create new round
@@ -11,6 +11,15 @@ export class RoundModel {
     return result.rows[0];
   }
 
+  // Remove rounds past the new end of a shortened session that never started
+  static async deleteWaitingAfter(sessionId: string, roundNumber: number): Promise<number> {
+    const result = await pool.query(
+      "DELETE FROM rounds WHERE session_id = $1 AND round_number > $2 AND status = 'waiting'",
+      [sessionId, roundNumber]
+    );
+    return result.rowCount ?? 0;
+  }
+
   // Get round by ID
   static async findById(id: string): Promise<Round | null> {
     const result = await pool.query<Round>(
@@ -47,6 +56,16 @@ export class RoundModel {
     return result.rows[0] || null;
   }
 
+  // Get every active round belonging to an active session (previews aside)
+  static async findAllActive(): Promise<Round[]> {
+    const result = await pool.query<Round>(
+      `SELECT r.* FROM rounds r
+       JOIN sessions s ON s.id = r.session_id
+       WHERE r.status = 'active' AND s.status = 'active' AND NOT s.is_simulation`
+    );
+    return result.rows;
+  }
+
   // Start round
   static async start(id: string): Promise<Round> {
     const result = await pool.query<Round>(
@@ -56,6 +75,14 @@ export class RoundModel {
     return result.rows[0];
   }
 
+  // Record when a round is due to end and whether it is paused
+  static async setDeadline(id: string, endsAt: Date, pausedAt: Date | null): Promise<void> {
+    await pool.query(
+      'UPDATE rounds SET ends_at = $2, paused_at = $3 WHERE id = $1',
+      [id, endsAt, pausedAt]
+    );
+  }
+
   // End round
   static async end(id: string): Promise<Round> {
     const result = await pool.query<Round>(
@@ -65,6 +92,11 @@ export class RoundModel {
     return result.rows[0];
   }
 
+  // Record the round's surplus accounting (market games, at round end)
+  static async setSurplus(id: string, surplus: SurplusAccounting): Promise<void> {
+    await pool.query('UPDATE rounds SET surplus = $1 WHERE id = $2', [JSON.stringify(surplus), id]);
+  }
+
   // Update status
   static async updateStatus(id: string, status: Round['status']): Promise<Round> {
     const result = await pool.query<Round>(
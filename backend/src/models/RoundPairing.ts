@@ -0,0 +1,59 @@
+import { pool } from '../config/database';
+
+export interface RoundPairing {
+  id: string;
+  round_id: string;
+  first_mover_id: string;
+  second_mover_id: string;
+  matching: string;
+  created_at: Date;
+}
+
+export class RoundPairingModel {
+  // Record every pair for a round in a single insert
+  static async createMany(
+    roundId: string,
+    pairs: Array<{ firstMoverId: string; secondMoverId: string }>,
+    matching: string
+  ): Promise<RoundPairing[]> {
+    if (pairs.length === 0) return [];
+
+    const values: string[] = [];
+    const params: any[] = [roundId, matching];
+    pairs.forEach((pair, i) => {
+      values.push(`($1, $${i * 2 + 3}, $${i * 2 + 4}, $2)`);
+      params.push(pair.firstMoverId, pair.secondMoverId);
+    });
+
+    const result = await pool.query<RoundPairing>(
+      `INSERT INTO round_pairings (round_id, first_mover_id, second_mover_id, matching)
+       VALUES ${values.join(', ')}
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      params
+    );
+    return result.rows;
+  }
+
+  // Get pairings for a round
+  static async findByRound(roundId: string): Promise<RoundPairing[]> {
+    const result = await pool.query<RoundPairing>(
+      'SELECT * FROM round_pairings WHERE round_id = $1 ORDER BY created_at',
+      [roundId]
+    );
+    return result.rows;
+  }
+
+  // Get all pairings for a session (with round numbers, for exports)
+  static async findBySession(sessionId: string): Promise<Array<RoundPairing & { round_number: number }>> {
+    const result = await pool.query<RoundPairing & { round_number: number }>(
+      `SELECT rp.*, r.round_number
+       FROM round_pairings rp
+       JOIN rounds r ON rp.round_id = r.id
+       WHERE r.session_id = $1
+       ORDER BY r.round_number, rp.created_at`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,59 @@
+import { pool } from '../config/database';
+
+export interface RoundValue {
+  id: string;
+  round_id: string;
+  player_id: string;
+  role: string;
+  unit_values: number[];
+  created_at: Date;
+}
+
+export class RoundValueModel {
+  // Record the valuations/costs in force for every trader in a round
+  static async createMany(
+    roundId: string,
+    entries: Array<{ playerId: string; role: string; unitValues: number[] }>
+  ): Promise<RoundValue[]> {
+    if (entries.length === 0) return [];
+
+    const values: string[] = [];
+    const params: any[] = [roundId];
+    entries.forEach((entry, i) => {
+      values.push(`($1, $${i * 3 + 2}, $${i * 3 + 3}, $${i * 3 + 4})`);
+      params.push(entry.playerId, entry.role, JSON.stringify(entry.unitValues));
+    });
+
+    const result = await pool.query<RoundValue>(
+      `INSERT INTO round_values (round_id, player_id, role, unit_values)
+       VALUES ${values.join(', ')}
+       ON CONFLICT (round_id, player_id) DO UPDATE
+         SET role = EXCLUDED.role, unit_values = EXCLUDED.unit_values
+       RETURNING *`,
+      params
+    );
+    return result.rows;
+  }
+
+  // Get the values in force for a round
+  static async findByRound(roundId: string): Promise<RoundValue[]> {
+    const result = await pool.query<RoundValue>(
+      'SELECT * FROM round_values WHERE round_id = $1 ORDER BY created_at',
+      [roundId]
+    );
+    return result.rows;
+  }
+
+  // Get every round's values for a session (with round numbers, for exports/analytics)
+  static async findBySession(sessionId: string): Promise<Array<RoundValue & { round_number: number }>> {
+    const result = await pool.query<RoundValue & { round_number: number }>(
+      `SELECT rv.*, r.round_number
+       FROM round_values rv
+       JOIN rounds r ON rv.round_id = r.id
+       WHERE r.session_id = $1
+       ORDER BY r.round_number, rv.created_at`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+}
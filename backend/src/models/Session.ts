@@ -1,12 +1,13 @@
 import bcrypt from 'bcryptjs';
 import { pool } from '../config/database';
-import { Session, CreateSessionRequest } from '../types';
+import { Session, CreateSessionRequest, Round, TreatmentBlock, AbsentPolicy } from '../types';
+import { configForRound } from '../services/treatments';
 
 const BCRYPT_ROUNDS = 10;
 
 export class SessionModel {
-  // Create new session
-  static async create(data: CreateSessionRequest): Promise<Session> {
+  // Create new session (or a bot-only preview of one)
+  static async create(data: CreateSessionRequest, isSimulation = false): Promise<Session> {
     const code = await this.generateUniqueCode();
 
     // Hash admin password if provided
@@ -18,8 +19,9 @@ export class SessionModel {
       `INSERT INTO sessions (
         code, game_type, game_config, market_size, num_rounds, time_per_round,
         valuation_min, valuation_max, valuation_increments,
-        cost_min, cost_max, cost_increments, bot_enabled, passcode, admin_password
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        cost_min, cost_max, cost_increments, bot_enabled, passcode, admin_password, owner_id, tags, treatments, auto_advance,
+        absent_policy, absent_grace_seconds, is_simulation
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
       RETURNING *`,
       [
         code,
@@ -37,6 +39,13 @@ export class SessionModel {
         data.bot_enabled || false,
         data.passcode || null,
         hashedAdminPassword,
+        data.owner_id || null,
+        JSON.stringify(data.tags || {}),
+        JSON.stringify(data.treatments || []),
+        data.auto_advance ?? true,
+        data.absent_policy || 'skip',
+        data.absent_grace_seconds ?? 30,
+        isSimulation,
       ]
     );
 
@@ -52,6 +61,13 @@ export class SessionModel {
     return result.rows[0] || null;
   }
 
+  // Get a round's session with game_config resolved for that round's treatment block
+  static async findForRound(round: Pick<Round, 'session_id' | 'round_number'>): Promise<Session | null> {
+    const session = await this.findById(round.session_id);
+    if (!session) return null;
+    return { ...session, game_config: configForRound(session, round.round_number) };
+  }
+
   // Get session by code
   static async findByCode(code: string): Promise<Session | null> {
     const result = await pool.query<Session>(
@@ -70,6 +86,24 @@ export class SessionModel {
     return result.rows;
   }
 
+  // Get sessions owned by an instructor
+  static async findByOwner(ownerId: string, limit = 50, offset = 0): Promise<Session[]> {
+    const result = await pool.query<Session>(
+      'SELECT * FROM sessions WHERE owner_id = $1 AND NOT is_simulation ORDER BY created_at DESC LIMIT $2 OFFSET $3',
+      [ownerId, limit, offset]
+    );
+    return result.rows;
+  }
+
+  // Get an instructor's sessions carrying every given tag (e.g. { course: 'ECON101' })
+  static async findByOwnerAndTags(ownerId: string, tags: Record<string, string>): Promise<Session[]> {
+    const result = await pool.query<Session>(
+      'SELECT * FROM sessions WHERE owner_id = $1 AND tags @> $2 AND NOT is_simulation ORDER BY created_at',
+      [ownerId, JSON.stringify(tags)]
+    );
+    return result.rows;
+  }
+
   // Get active sessions
   static async findActive(): Promise<Session[]> {
     const result = await pool.query<Session>(
@@ -114,11 +148,69 @@ export class SessionModel {
     return result.rows[0];
   }
 
+  // Replace a session's tags
+  static async updateTags(id: string, tags: Record<string, string>): Promise<Session> {
+    const result = await pool.query<Session>(
+      'UPDATE sessions SET tags = $1 WHERE id = $2 RETURNING *',
+      [JSON.stringify(tags), id]
+    );
+    return result.rows[0];
+  }
+
+  // Update the treatment schedule and round count after a live change,
+  // keeping a num_rounds copy in game_config in step
+  static async updateSchedule(id: string, treatments: TreatmentBlock[], numRounds: number): Promise<Session> {
+    const result = await pool.query<Session>(
+      `UPDATE sessions
+       SET treatments = $1,
+           num_rounds = $2,
+           game_config = CASE WHEN game_config ? 'num_rounds'
+             THEN jsonb_set(game_config, '{num_rounds}', to_jsonb($2::int))
+             ELSE game_config END
+       WHERE id = $3 RETURNING *`,
+      [JSON.stringify(treatments), numRounds, id]
+    );
+    return result.rows[0];
+  }
+
+  // Switch between automatic and manual round advance
+  static async updateAutoAdvance(id: string, autoAdvance: boolean): Promise<Session> {
+    const result = await pool.query<Session>(
+      'UPDATE sessions SET auto_advance = $1 WHERE id = $2 RETURNING *',
+      [autoAdvance, id]
+    );
+    return result.rows[0];
+  }
+
+  // Change how players who drop out are handled
+  static async updateAbsentPolicy(id: string, policy: AbsentPolicy, graceSeconds: number): Promise<Session> {
+    const result = await pool.query<Session>(
+      'UPDATE sessions SET absent_policy = $1, absent_grace_seconds = $2 WHERE id = $3 RETURNING *',
+      [policy, graceSeconds, id]
+    );
+    return result.rows[0];
+  }
+
   // Delete session
   static async delete(id: string): Promise<void> {
     await pool.query('DELETE FROM sessions WHERE id = $1', [id]);
   }
 
+  // Delete every session owned by an instructor; returns how many were removed
+  static async deleteByOwner(ownerId: string): Promise<number> {
+    const result = await pool.query('DELETE FROM sessions WHERE owner_id = $1', [ownerId]);
+    return result.rowCount ?? 0;
+  }
+
+  // Delete previews left behind by a crash. Any preview older than an hour
+  // is one; they take seconds.
+  static async deleteStaleSimulations(): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM sessions WHERE is_simulation AND created_at < NOW() - INTERVAL '1 hour'`
+    );
+    return result.rowCount ?? 0;
+  }
+
   // Generate unique 6-character code
   private static async generateUniqueCode(): Promise<string> {
     // Use application-level code generation (works without the DB function)
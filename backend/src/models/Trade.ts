@@ -11,14 +11,16 @@ export class TradeModel {
     buyerProfit: number,
     sellerProfit: number,
     bidId?: string,
-    askId?: string
+    askId?: string,
+    buyerUnit = 1,
+    sellerUnit = 1
   ): Promise<Trade> {
     const result = await pool.query<Trade>(
       `INSERT INTO trades
-       (round_id, buyer_id, seller_id, price, buyer_profit, seller_profit, bid_id, ask_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       (round_id, buyer_id, seller_id, price, buyer_profit, seller_profit, bid_id, ask_id, buyer_unit, seller_unit)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        RETURNING *`,
-      [roundId, buyerId, sellerId, price, buyerProfit, sellerProfit, bidId, askId]
+      [roundId, buyerId, sellerId, price, buyerProfit, sellerProfit, bidId, askId, buyerUnit, sellerUnit]
     );
     return result.rows[0];
   }
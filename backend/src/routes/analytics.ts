@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { AnalyticsController } from '../controllers/analyticsController';
+import { requireInstructor } from '../middleware/instructorAuth';
+
+const router = Router();
+
+// Compare the signed-in instructor's sessions, pooled by tag
+// Query params: sessionIds = 'id1,id2' and/or tag.<name> = value, groupBy = tag name
+router.get('/compare', requireInstructor, AnalyticsController.compare);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/authController';
+import { requireInstructor } from '../middleware/instructorAuth';
+
+const router = Router();
+
+// Create instructor account
+router.post('/register', AuthController.register);
+
+// Log in
+router.post('/login', AuthController.login);
+
+// Get the signed-in instructor
+router.get('/me', requireInstructor, AuthController.me);
+
+export default router;
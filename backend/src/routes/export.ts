@@ -8,7 +8,13 @@ const router = Router();
 router.get('/:id/results', requireAdmin, ExportController.getResults);
 
 // Export session data as CSV — admin only
-// Query param: type = 'players' | 'rounds' | 'trades' | 'actions'
+// Query param: type = 'players' | 'rounds' | 'panel' | 'events' | 'trades' | 'values' | 'orders' | 'actions' | 'pairings'
 router.get('/:id/export', requireAdmin, ExportController.exportCSV);
 
+// Full session as one JSON document — admin only
+router.get('/:id/export/bundle', requireAdmin, ExportController.exportBundle);
+
+// Zip of long-form CSVs, codebook, JSON bundle and Stata/R loaders — admin only
+router.get('/:id/export/zip', requireAdmin, ExportController.exportZip);
+
 export default router;
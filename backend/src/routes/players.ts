@@ -1,15 +1,19 @@
 import { Router } from 'express';
 import { PlayerController } from '../controllers/playerController';
+import { requirePlayerOrAdmin } from '../middleware/playerAuth';
 
 const router = Router();
 
 // Join session
 router.post('/join', PlayerController.joinSession);
 
-// Get player info
-router.get('/:id', PlayerController.getPlayer);
+// Check on a late-join request (must be before /:id to avoid conflict)
+router.get('/join-requests/:id', PlayerController.getJoinRequest);
 
-// Get player status
-router.get('/:id/status', PlayerController.getStatus);
+// Get player info (the player or the session's admin)
+router.get('/:id', requirePlayerOrAdmin, PlayerController.getPlayer);
+
+// Get player status (the player or the session's admin)
+router.get('/:id/status', requirePlayerOrAdmin, PlayerController.getStatus);
 
 export default router;
@@ -1,27 +1,37 @@
 import { Router } from 'express';
 import { SessionController } from '../controllers/sessionController';
 import { requireAdmin, requireDeleteAllConfirmation } from '../middleware/adminAuth';
+import { attachInstructor, requireInstructor } from '../middleware/instructorAuth';
 
 const router = Router();
 
-// Create new session
-router.post('/', SessionController.create);
+// Create new session (owned by the signed-in instructor)
+router.post('/', requireInstructor, SessionController.create);
 
-// Get all sessions
-router.get('/', SessionController.list);
+// Preview a configuration: play it through with bots only and return the results
+router.post('/simulate', requireInstructor, SessionController.simulate);
+
+// Get the signed-in instructor's sessions
+router.get('/', requireInstructor, SessionController.list);
 
 // Get session by code (must be before /:id to avoid conflict)
 router.get('/code/:code', SessionController.getByCode);
 
 // Verify admin password for session
-router.post('/code/:code/verify-admin', SessionController.verifyAdminPassword);
+router.post('/code/:code/verify-admin', attachInstructor, SessionController.verifyAdminPassword);
 
 // Get session by ID
 router.get('/:id', SessionController.getById);
 
-// Get players for session
+// Get players for session (ids and values for the session's admin only)
 router.get('/:id/players', SessionController.getPlayers);
 
+// Get pending late-join requests (admin only)
+router.get('/:id/join-requests', requireAdmin, SessionController.getJoinRequests);
+
+// Get which players are connected (admin only)
+router.get('/:id/presence', requireAdmin, SessionController.getPresence);
+
 // Get rounds for session
 router.get('/:id/rounds', SessionController.getRounds);
 
@@ -31,10 +41,13 @@ router.post('/:id/start', requireAdmin, SessionController.start);
 // End session (admin only)
 router.post('/:id/end', requireAdmin, SessionController.end);
 
+// Replace session tags (admin only)
+router.patch('/:id/tags', requireAdmin, SessionController.updateTags);
+
 // Delete session (admin only)
 router.delete('/:id', requireAdmin, SessionController.delete);
 
-// Delete all sessions (requires confirmation header)
-router.delete('/', requireDeleteAllConfirmation, SessionController.deleteAll);
+// Delete all of the signed-in instructor's sessions (requires confirmation header)
+router.delete('/', requireInstructor, requireDeleteAllConfirmation, SessionController.deleteAll);
 
 export default router;
@@ -1,8 +1,10 @@
 import http from 'http';
 import app from './app';
 import { pool } from './config/database';
-import { redisClient } from './config/redis';
-import { setupSocketHandlers } from './socket/socketHandler';
+import { SessionModel } from './models/Session';
+import { createSocketAdapter, redisClient } from './config/redis';
+import { setupSocketHandlers, resumeActiveRounds } from './socket/socketHandler';
+import { ClusterLeader } from './services/ClusterLeader';
 
 const PORT = process.env.PORT || 3000;
 
@@ -50,6 +52,111 @@ async function applyConstraintUpdates() {
     // Ensure admin_password column exists on sessions table
     await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS admin_password VARCHAR(50) DEFAULT NULL`);
 
+    // Ensure engine round-state snapshot table exists (for restart recovery)
+    await pool.query(`CREATE TABLE IF NOT EXISTS engine_round_states (
+      round_id UUID PRIMARY KEY REFERENCES rounds(id) ON DELETE CASCADE,
+      game_type VARCHAR(50) NOT NULL,
+      state JSONB NOT NULL DEFAULT '{}',
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    // Ensure round_pairings table exists (per-round sequential matching record)
+    await pool.query(`CREATE TABLE IF NOT EXISTS round_pairings (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      round_id UUID NOT NULL REFERENCES rounds(id) ON DELETE CASCADE,
+      first_mover_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+      second_mover_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+      matching VARCHAR(30) NOT NULL DEFAULT 'partners',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (round_id, first_mover_id),
+      UNIQUE (round_id, second_mover_id)
+    )`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_round_pairings_round ON round_pairings(round_id)`);
+
+    // Ensure instructor accounts exist and sessions can be owned by one
+    await pool.query(`CREATE TABLE IF NOT EXISTS instructors (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      email VARCHAR(255) UNIQUE NOT NULL,
+      name VARCHAR(100),
+      password_hash VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`);
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES instructors(id) ON DELETE SET NULL`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_sessions_owner ON sessions(owner_id)`);
+
+    // Ensure DA orders and trades record which schedule unit they are for
+    await pool.query(`ALTER TABLE bids ADD COLUMN IF NOT EXISTS unit_number INTEGER NOT NULL DEFAULT 1`);
+    await pool.query(`ALTER TABLE asks ADD COLUMN IF NOT EXISTS unit_number INTEGER NOT NULL DEFAULT 1`);
+    await pool.query(`ALTER TABLE trades ADD COLUMN IF NOT EXISTS buyer_unit INTEGER NOT NULL DEFAULT 1`);
+    await pool.query(`ALTER TABLE trades ADD COLUMN IF NOT EXISTS seller_unit INTEGER NOT NULL DEFAULT 1`);
+
+    // Ensure round_values exists (DA valuations/costs in force each round)
+    await pool.query(`CREATE TABLE IF NOT EXISTS round_values (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      round_id UUID NOT NULL REFERENCES rounds(id) ON DELETE CASCADE,
+      player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+      role VARCHAR(50) NOT NULL,
+      unit_values JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (round_id, player_id)
+    )`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_round_values_round ON round_values(round_id)`);
+
+    // Ensure DA orders keep a status history (filled/cancelled/replaced/expired)
+    for (const table of ['bids', 'asks']) {
+      const tradeColumn = table === 'bids' ? 'bid_id' : 'ask_id';
+      await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'open'`);
+      await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP`);
+      await pool.query(`UPDATE ${table} SET status = CASE
+          WHEN EXISTS (SELECT 1 FROM trades t WHERE t.${tradeColumn} = ${table}.id) THEN 'filled' ELSE 'expired' END
+        WHERE is_active = false AND status = 'open'`);
+    }
+
+    // Ensure rounds can store their surplus accounting
+    await pool.query(`ALTER TABLE rounds ADD COLUMN IF NOT EXISTS surplus JSONB`);
+
+    // Ensure sessions can be tagged for cross-session comparison
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '{}'`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_sessions_tags ON sessions USING GIN (tags)`);
+
+    // Ensure sessions can schedule treatment blocks
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS treatments JSONB NOT NULL DEFAULT '[]'`);
+
+    // Ensure sessions can opt out of automatic round advance
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS auto_advance BOOLEAN NOT NULL DEFAULT TRUE`);
+
+    // Ensure rounds record their deadline and pause time for restarts
+    await pool.query(`ALTER TABLE rounds ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ`);
+    await pool.query(`ALTER TABLE rounds ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ`);
+
+    // Ensure late joiners can ask for a seat, and seats record when they changed hands
+    await pool.query(`CREATE TABLE IF NOT EXISTS join_requests (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      name VARCHAR(100),
+      status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+      player_id UUID REFERENCES players(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      decided_at TIMESTAMP
+    )`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_join_requests_session ON join_requests(session_id)`);
+    await pool.query(`ALTER TABLE players ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ`);
+
+    // Ensure late-join requests carry the poll secret that collects their seat's token
+    await pool.query(`ALTER TABLE join_requests ADD COLUMN IF NOT EXISTS poll_secret_hash VARCHAR(64)`);
+    await pool.query(`ALTER TABLE join_requests ADD COLUMN IF NOT EXISTS token_issued_at TIMESTAMPTZ`);
+
+    // Ensure sessions say how to handle players who drop out
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS absent_policy VARCHAR(20) NOT NULL DEFAULT 'skip'`);
+    await pool.query(`ALTER TABLE sessions DROP CONSTRAINT IF EXISTS absent_policy_check`);
+    await pool.query(`ALTER TABLE sessions ADD CONSTRAINT absent_policy_check
+      CHECK (absent_policy IN ('skip', 'default_action', 'bot'))`);
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS absent_grace_seconds INTEGER NOT NULL DEFAULT 30`);
+
+    // Ensure bot-only previews are marked, so restarts leave them alone
+    await pool.query(`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS is_simulation BOOLEAN NOT NULL DEFAULT FALSE`);
+
     console.log('Database constraints updated successfully');
   } catch (err) {
     console.error('Error updating database constraints:', err);
@@ -60,20 +167,62 @@ async function applyConstraintUpdates() {
 const server = http.createServer(app);
 
 // Setup Socket.io
-const io = setupSocketHandlers(server);
+const { io, scheduleRoundEnd } = setupSocketHandlers(server);
+
+async function start() {
+  // With Redis, rooms and broadcasts are shared with any other instances
+  try {
+    const adapter = await createSocketAdapter();
+    if (adapter) {
+      io.adapter(adapter);
+      console.log('Socket.io Redis adapter enabled');
+    }
+  } catch (err) {
+    console.error('Error enabling Socket.io Redis adapter:', err);
+  }
+
+  server.listen(PORT, async () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+    console.log(`WebSocket server ready`);
+    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    await applyConstraintUpdates();
+
+    try {
+      const stale = await SessionModel.deleteStaleSimulations();
+      if (stale > 0) console.log(`Deleted ${stale} preview session(s) cut short by a restart`);
+    } catch (err) {
+      console.error('Error deleting stale preview sessions:', err);
+    }
+
+    // Whichever instance leads picks up any rounds that were live when the
+    // previous leader stopped
+    try {
+      await ClusterLeader.getInstance().start(io, async () => {
+        try {
+          await resumeActiveRounds(io, scheduleRoundEnd);
+        } catch (err) {
+          console.error('Error resuming active rounds:', err);
+        }
+      });
+    } catch (err) {
+      console.error('Error joining scheduler election:', err);
+    }
+  });
+}
 
-// Start server
-server.listen(PORT, async () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-  console.log(`WebSocket server ready`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-  await applyConstraintUpdates();
-});
+start();
 
 // Graceful shutdown
 const shutdown = async () => {
   console.log('\nShutting down gracefully...');
 
+  // Let another instance take over the rounds straight away
+  try {
+    await ClusterLeader.getInstance().stop();
+  } catch (err) {
+    console.error('Error giving up scheduler lease:', err);
+  }
+
   // Close socket connections
   io.close(() => {
     console.log('WebSocket connections closed');
@@ -2,9 +2,14 @@ import type { Server } from 'socket.io';
 import type { Player, Session } from '../types';
 import { PlayerModel } from '../models/Player';
 import { SessionModel } from '../models/Session';
+import { RoundModel } from '../models/Round';
+import { GameResultModel } from '../models/GameResult';
 import { GameRegistry } from '../engines/GameRegistry';
-import { generateValuations, generateProductionCosts } from './gameLogic';
+import { drawUnitSchedule } from './gameLogic';
+import { configForRound } from './treatments';
+import { RoundClock, type RoundTimer } from './RoundClock';
 import { BotStrategyRegistry } from './botStrategies';
+import type { BotRoundHistory, BotRoundResult } from './botStrategies';
 
 // Import to ensure all strategies are registered
 import './botStrategies/index';
@@ -82,11 +87,14 @@ export class BotService {
   private static instance: BotService;
 
   /** Active bot timers per round (for cleanup) */
-  private roundTimers = new Map<string, NodeJS.Timeout[]>();
+  private roundTimers = new Map<string, RoundTimer[]>();
 
   /** Track round start times for DA elapsed-time calculation */
   private roundStartTimes = new Map<string, number>();
 
+  /** Bots whose seats were taken over by a late joiner; their pending actions are dropped */
+  private retiredBots = new Set<string>();
+
   /** Socket.IO server reference (set once from socketHandler) */
   private io: import('socket.io').Server | null = null;
 
@@ -139,22 +147,9 @@ export class BotService {
             const sellers = existingPlayers.filter(p => p.role === 'seller').length;
             const role: 'buyer' | 'seller' = buyers <= sellers ? 'buyer' : 'seller';
 
-            let value: number;
-            if (role === 'buyer') {
-              const vals = generateValuations(
-                session.valuation_min, session.valuation_max,
-                session.valuation_increments, 1
-              );
-              value = vals[0];
-            } else {
-              const costs = generateProductionCosts(
-                session.cost_min, session.cost_max,
-                session.cost_increments, 1
-              );
-              value = costs[0];
-            }
+            const unitValues = drawUnitSchedule(role, session, role === 'buyer' ? buyers : sellers);
             const valueColumn = role === 'buyer' ? 'valuation' as const : 'production_cost' as const;
-            return { role, valueColumn, value };
+            return { role, valueColumn, value: unitValues[0], gameData: { unitValues } };
           }
         );
       } else if (PAIRED_ROLES[gameType] || BOT_BALANCED_ROLES[gameType]) {
@@ -212,17 +207,40 @@ export class BotService {
     botLog(`[BotService] Found ${bots.length} bots out of ${allPlayers.length} players`);
     if (bots.length === 0) return;
 
+    this.roundStartTimes.set(roundId, RoundClock.getInstance().now(roundId));
+    await this.scheduleBots(bots, roundId, sessionCode, session, io);
+  }
+
+  /**
+   * Schedule this round's actions for the given bots.
+   */
+  private async scheduleBots(
+    bots: Player[],
+    roundId: string,
+    sessionCode: string,
+    session: Session,
+    io: Server
+  ): Promise<void> {
+    const gameType = session.game_type || 'double_auction';
+    const strategy = BotStrategyRegistry.get(gameType);
+    if (!strategy) return;
+
+    const timers = this.roundTimers.get(roundId) ?? [];
+    this.roundTimers.set(roundId, timers);
+
+    const round = await RoundModel.findById(roundId);
+    const roundNumber = round?.round_number ?? 1;
     const config = {
-      ...session.game_config || {},
+      ...configForRound(session, roundNumber),
       time_per_round: session.time_per_round,
     };
-    const timers: NodeJS.Timeout[] = [];
-    this.roundStartTimes.set(roundId, Date.now());
+    const publicHistory = await this.loadRoundHistory(session.id, roundNumber);
 
-    if (DA_TYPES.has(gameType)) {
-      // DA games: schedule periodic bid/ask submissions
+    if (DA_TYPES.has(gameType) || strategy.getDAAction) {
+      // DA-style markets (incl. asset bubble): schedule periodic bid/ask submissions
       for (const bot of bots) {
-        this.scheduleDABotActions(bot, roundId, sessionCode, gameType, config, io, timers);
+        const history = this.historyFor(bot.id, publicHistory);
+        this.scheduleDABotActions(bot, roundId, sessionCode, gameType, config, io, timers, roundNumber, history);
       }
     } else if (SEQUENTIAL_TYPES.has(gameType)) {
       // Sequential games: only first-movers act now; second-movers respond reactively
@@ -230,11 +248,12 @@ export class BotService {
       const firstMoverBots = bots.filter(b => b.role === firstMoverRole);
       for (const bot of firstMoverBots) {
         const delay = 1000 + Math.random() * 4000;
-        const timer = setTimeout(async () => {
+        const timer = RoundClock.getInstance().setTimeout(roundId, async () => {
+          if (this.retiredBots.has(bot.id)) return;
           try {
             const engine = GameRegistry.get(gameType);
-            // Get the round number from the round
-            const action = strategy.getFirstMoveAction?.(bot, config, 1);
+            const history = this.historyFor(bot.id, publicHistory);
+            const action = strategy.getFirstMoveAction?.(bot, config, roundNumber, history);
             if (action) {
               await engine.handleAction(roundId, bot.id, action, sessionCode, io);
             }
@@ -246,11 +265,15 @@ export class BotService {
       }
     } else if (strategy.getSpecializedActions) {
       // Specialized games with custom action sequences
+      const engine = GameRegistry.get(gameType);
       for (const bot of bots) {
-        const actions = strategy.getSpecializedActions(bot, config, {}, 1);
+        const gameState = await engine.getGameState(roundId, bot.id);
+        const history = this.historyFor(bot.id, publicHistory);
+        const actions = strategy.getSpecializedActions(bot, config, gameState, roundNumber, history);
         botLog(`[BotService] ${bot.name}: ${actions.length} specialized actions scheduled for ${gameType}`);
         for (const { action, delayMs } of actions) {
-          const timer = setTimeout(async () => {
+          const timer = RoundClock.getInstance().setTimeout(roundId, async () => {
+            if (this.retiredBots.has(bot.id)) return;
             try {
               const engine = GameRegistry.get(gameType);
               const result = await engine.handleAction(roundId, bot.id, action, sessionCode, io);
@@ -266,10 +289,12 @@ export class BotService {
       // Simultaneous games: submit with random delay
       for (const bot of bots) {
         const delay = 1000 + Math.random() * 4000;
-        const timer = setTimeout(async () => {
+        const timer = RoundClock.getInstance().setTimeout(roundId, async () => {
+          if (this.retiredBots.has(bot.id)) return;
           try {
             const engine = GameRegistry.get(gameType);
-            const action = strategy.getSimultaneousAction?.(bot, config, 1);
+            const history = this.historyFor(bot.id, publicHistory);
+            const action = strategy.getSimultaneousAction?.(bot, config, roundNumber, history);
             if (action) {
               await engine.handleAction(roundId, bot.id, action, sessionCode, io);
             }
@@ -280,8 +305,40 @@ export class BotService {
         timers.push(timer);
       }
     }
+  }
 
-    this.roundTimers.set(roundId, timers);
+  /**
+   * Whether bots can play in a session: bots filling empty seats, or bots
+   * standing in for students who are away under the 'bot' absent policy.
+   */
+  usesBots(session: Session): boolean {
+    return session.bot_enabled || session.absent_policy === 'bot';
+  }
+
+  /**
+   * Play a student's seat with the game's bot strategy while they are away.
+   * The seat has already been converted to a bot; if a round is running,
+   * the bot makes the moves the student still owes in it.
+   */
+  async takeOver(roundId: string | null, bot: Player, session: Session, io: Server): Promise<void> {
+    this.retiredBots.delete(bot.id);
+    if (!roundId) return;
+
+    const gameType = session.game_type || 'double_auction';
+    if (SEQUENTIAL_TYPES.has(gameType) && bot.role !== PAIRED_ROLES[gameType][0]) {
+      // Second movers only act on a first move, which may already be in
+      const state = await GameRegistry.get(gameType).getGameState(roundId, bot.id);
+      if (state.partnerAction && !state.myAction) {
+        await this.onFirstMoveSubmitted(roundId, bot.id, state.partnerAction, session, io);
+      }
+      return;
+    }
+
+    if (!this.roundStartTimes.has(roundId)) {
+      const round = await RoundModel.findById(roundId);
+      this.roundStartTimes.set(roundId, round?.started_at ? new Date(round.started_at).getTime() : Date.now());
+    }
+    await this.scheduleBots([bot], roundId, session.code, session, io);
   }
 
   /**
@@ -298,23 +355,28 @@ export class BotService {
     const strategy = BotStrategyRegistry.get(gameType);
     if (!strategy?.getSecondMoveAction) return;
 
-    const bot = await PlayerModel.findById(botPlayerId);
-    if (!bot || !bot.is_bot) return;
-
-    const config = session.game_config || {};
-    const sessionCode = session.code;
-
-    // Small delay for realism (1–3 seconds)
+    // Small delay for realism (1–3 seconds). The timer is set before any
+    // lookup so that, in a fast-forwarded round, it exists by the time the
+    // first move has been handled.
     const delay = 1000 + Math.random() * 2000;
-    const timer = setTimeout(async () => {
+    const timer = RoundClock.getInstance().setTimeout(roundId, async () => {
+      if (this.retiredBots.has(botPlayerId)) return;
       try {
+        const bot = await PlayerModel.findById(botPlayerId);
+        if (!bot || !bot.is_bot) return;
+
+        const round = await RoundModel.findById(roundId);
+        const roundNumber = round?.round_number ?? 1;
+        const config = configForRound(session, roundNumber);
+        const history = this.historyFor(bot.id, await this.loadRoundHistory(session.id, roundNumber));
+
         const engine = GameRegistry.get(gameType);
-        const action = strategy.getSecondMoveAction!(bot, config, partnerAction, 1);
+        const action = strategy.getSecondMoveAction!(bot, config, partnerAction, roundNumber, history);
         if (action) {
-          await engine.handleAction(roundId, bot.id, action, sessionCode, io);
+          await engine.handleAction(roundId, bot.id, action, session.code, io);
         }
       } catch (err) {
-        console.error(`BotService: Error submitting second move for bot ${bot.name}:`, err);
+        console.error(`BotService: Error submitting second move for bot ${botPlayerId}:`, err);
       }
     }, delay);
 
@@ -324,13 +386,21 @@ export class BotService {
     this.roundTimers.set(roundId, existing);
   }
 
+  /**
+   * Stop a bot from acting once a student has taken over its seat. Timers
+   * already scheduled for it this round check this before they act.
+   */
+  retireBot(playerId: string): void {
+    this.retiredBots.add(playerId);
+  }
+
   /**
    * Clean up timers when a round ends.
    */
   onRoundEnd(roundId: string): void {
     const timers = this.roundTimers.get(roundId);
     if (timers) {
-      for (const t of timers) clearTimeout(t);
+      for (const t of timers) RoundClock.getInstance().clearTimeout(t);
       this.roundTimers.delete(roundId);
     }
     this.roundStartTimes.delete(roundId);
@@ -342,7 +412,7 @@ export class BotService {
   onSessionEnd(sessionId: string): void {
     // Clean up any remaining round timers (iterate all)
     for (const [roundId, timers] of this.roundTimers) {
-      for (const t of timers) clearTimeout(t);
+      for (const t of timers) RoundClock.getInstance().clearTimeout(t);
     }
     this.roundTimers.clear();
     this.roundStartTimes.clear();
@@ -350,6 +420,35 @@ export class BotService {
 
   // ─── Private Helpers ───────────────────────────────────────────────────
 
+  /**
+   * Load the public results of every completed round before `roundNumber`.
+   * Loaded once per round start and shared by all bots in the session.
+   */
+  private async loadRoundHistory(sessionId: string, roundNumber: number): Promise<BotRoundHistory[]> {
+    const rounds = await RoundModel.findBySession(sessionId);
+    const earlier = rounds.filter(r => r.round_number < roundNumber && r.status === 'completed');
+
+    return Promise.all(earlier.map(async (r) => {
+      const rows = await GameResultModel.findByRound(r.id);
+      const results: BotRoundResult[] = rows.map(row => ({
+        playerId: row.player_id,
+        profit: Number(row.profit),
+        resultData: row.result_data || {},
+      }));
+      return { roundNumber: r.round_number, own: null, results };
+    }));
+  }
+
+  /**
+   * Attach a bot's own result row to each round of the shared history.
+   */
+  private historyFor(botId: string, publicHistory: BotRoundHistory[]): BotRoundHistory[] {
+    return publicHistory.map(h => ({
+      ...h,
+      own: h.results.find(r => r.playerId === botId) || null,
+    }));
+  }
+
   /**
    * Schedule periodic DA bot actions (bid/ask) for a single bot.
    */
@@ -360,22 +459,30 @@ export class BotService {
     gameType: string,
     config: Record<string, any>,
     io: Server,
-    timers: NodeJS.Timeout[]
+    timers: RoundTimer[],
+    roundNumber: number,
+    history: BotRoundHistory[]
   ): void {
     const strategy = BotStrategyRegistry.get(gameType);
     if (!strategy?.getDAAction) return;
 
     const scheduleNext = () => {
       const interval = DA_MIN_INTERVAL_MS + Math.random() * (DA_MAX_INTERVAL_MS - DA_MIN_INTERVAL_MS);
-      const timer = setTimeout(async () => {
+      const timer = RoundClock.getInstance().setTimeout(roundId, async () => {
         // Check if round is still active
         const startTime = this.roundStartTimes.get(roundId);
         if (!startTime) return; // Round ended
+        if (this.retiredBots.has(bot.id)) return; // A student took the seat
 
-        const elapsed = (Date.now() - startTime) / 1000;
+        const elapsed = (RoundClock.getInstance().now(roundId) - startTime) / 1000;
         try {
           const engine = GameRegistry.get(gameType);
-          const action = strategy.getDAAction!(bot, config, {}, elapsed);
+          // Give the bot the live order book so it can respond to the market
+          const gameState = {
+            ...(await engine.getGameState(roundId, bot.id)),
+            roundNumber,
+          };
+          const action = strategy.getDAAction!(bot, config, gameState, elapsed, history);
           if (action) {
             const result = await engine.handleAction(roundId, bot.id, action, sessionCode, io);
             botLog(`BotService DA: ${bot.name} (${bot.role}) submitted ${action.type} @ ${action.price} → ${result?.success ? 'OK' : result?.error || 'unknown'}`);
@@ -392,7 +499,7 @@ export class BotService {
     // Start with a random initial delay
     const initialDelay = 1000 + Math.random() * 2000;
     botLog(`BotService DA: Scheduling ${bot.name} (${bot.role}) with initial delay ${Math.round(initialDelay)}ms`);
-    const initTimer = setTimeout(() => scheduleNext(), initialDelay);
+    const initTimer = RoundClock.getInstance().setTimeout(roundId, () => scheduleNext(), initialDelay);
     timers.push(initTimer);
   }
 }
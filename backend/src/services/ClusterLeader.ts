@@ -0,0 +1,194 @@
+import type { Server } from 'socket.io';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { redisClient, redisReady } from '../config/redis';
+
+/**
+ * Leader election for running several backend instances behind one load
+ * balancer.
+ *
+ * Rounds are driven by in-process state: round-end and auto-advance timers
+ * on the RoundClock, engine phase timers and snapshots, and bot timers. Only
+ * one instance may own that, so the instances elect a leader through a
+ * lease in Redis. Every instance holds sockets (the Redis adapter shares
+ * rooms between them), but work that touches round state runs on the leader:
+ * other instances hand it over with `run`, which keeps resending a task
+ * that arrives between leaders until one is elected.
+ *
+ * The leader renews its lease every few seconds. If it dies, another
+ * instance takes the lease once it expires and picks the running rounds up
+ * from their stored deadlines, as after a restart.
+ *
+ * Without Redis there is one instance and it is always the leader.
+ */
+
+const LEASE_KEY = 'scheduler:leader';
+
+// How long a lease lasts without renewal, and how often the instances check it
+const LEASE_MS = 15_000;
+const RENEW_MS = 5_000;
+
+// Socket.io server-side event that carries tasks to the leader
+const TASK_EVENT = 'leader-task';
+
+// How long a task nobody takes keeps being resent: long enough for a dead
+// leader's lease to run out and another instance to campaign for it
+const HANDOVER_MS = LEASE_MS + 2 * RENEW_MS;
+
+const RENEW_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) end
+  return 0`;
+
+const RESIGN_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end
+  return 0`;
+
+type LeaderTask = (payload: any, io: Server) => Promise<void> | void;
+
+export class ClusterLeader {
+  private static instance: ClusterLeader;
+
+  readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  /**
+   * Whether other instances may be leading. Assumed from REDIS_URL until
+   * start() finds out, so an instance still booting doesn't act as leader.
+   */
+  private clustered = Boolean(process.env.REDIS_URL);
+  private leading = false;
+  private renewTimer: NodeJS.Timeout | null = null;
+  private tasks = new Map<string, LeaderTask>();
+  private onElected: (() => Promise<void> | void) | null = null;
+  private deposedListeners: (() => void)[] = [];
+
+  private constructor() {}
+
+  static getInstance(): ClusterLeader {
+    if (!ClusterLeader.instance) {
+      ClusterLeader.instance = new ClusterLeader();
+    }
+    return ClusterLeader.instance;
+  }
+
+  /** Whether this instance drives rounds; always true without Redis */
+  isLeader(): boolean {
+    return !this.clustered || this.leading;
+  }
+
+  /** Called when this instance loses the lease and must stop driving rounds */
+  onDeposed(listener: () => void): void {
+    this.deposedListeners.push(listener);
+  }
+
+  /** Name a task other instances can hand to the leader */
+  handle(name: string, task: LeaderTask): void {
+    this.tasks.set(name, task);
+  }
+
+  /**
+   * Run a task on the leader: here if this instance leads, otherwise on
+   * whichever instance does. The payload must survive JSON.
+   */
+  async run(io: Server, name: string, payload: unknown): Promise<void> {
+    await this.handOver(io, name, payload, Date.now() + HANDOVER_MS);
+  }
+
+  /**
+   * Run a task here if this instance leads, or send it to the leader. While
+   * the lease changes hands nobody takes it, so it is sent again every
+   * RENEW_MS until an instance (this one included) has been elected.
+   */
+  private async handOver(io: Server, name: string, payload: unknown, giveUpAt: number): Promise<void> {
+    if (this.isLeader()) {
+      await this.tasks.get(name)?.(payload, io);
+      return;
+    }
+
+    // Each other instance answers whether it took the task; one that times
+    // out still leaves the answers that came in
+    const replies = await new Promise<unknown[]>((resolve) => {
+      io.serverSideEmit(TASK_EVENT, { name, payload }, (_err: Error | null, responses: unknown[]) => resolve(responses ?? []));
+    });
+    if (replies.includes(true)) return;
+
+    if (Date.now() >= giveUpAt) {
+      console.error(`[Leader] No instance took ${name}; dropping it`);
+      return;
+    }
+    console.warn(`[Leader] No leader to take ${name}; retrying in ${RENEW_MS}ms`);
+    setTimeout(() => {
+      this.handOver(io, name, payload, giveUpAt)
+        .catch(err => console.error(`[Leader] Error handing ${name} over:`, err));
+    }, RENEW_MS);
+  }
+
+  /**
+   * Join the election. Without Redis this instance leads straight away;
+   * with it, it leads once it holds the lease. `onElected` runs each time
+   * this instance becomes the leader, to pick up the running rounds.
+   */
+  async start(io: Server, onElected: () => Promise<void> | void): Promise<void> {
+    this.onElected = onElected;
+
+    if (!(await redisReady)) {
+      this.clustered = false;
+      this.leading = true;
+      await onElected();
+      return;
+    }
+
+    this.clustered = true;
+    io.on(TASK_EVENT, ({ name, payload }: { name: string; payload: unknown }, ack?: (taken: boolean) => void) => {
+      ack?.(this.leading);
+      if (!this.leading) return;
+      Promise.resolve(this.tasks.get(name)?.(payload, io))
+        .catch(err => console.error(`[Leader] Error running ${name}:`, err));
+    });
+
+    const campaign = () => this.campaign().catch(err => console.error('[Leader] Election error:', err));
+    await campaign();
+    this.renewTimer = setInterval(campaign, RENEW_MS);
+  }
+
+  /** Give the lease up so another instance can take over without waiting */
+  async stop(): Promise<void> {
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    this.renewTimer = null;
+    if (!this.clustered || !this.leading) return;
+    this.leading = false;
+    await redisClient.eval(RESIGN_SCRIPT, { keys: [LEASE_KEY], arguments: [this.instanceId] });
+  }
+
+  /** Renew the lease if we hold it, or try to take it if nobody does */
+  private async campaign(): Promise<void> {
+    if (this.leading) {
+      let renewed = false;
+      try {
+        const result = await redisClient.eval(RENEW_SCRIPT, {
+          keys: [LEASE_KEY],
+          arguments: [this.instanceId, String(LEASE_MS)],
+        });
+        renewed = result === 1;
+      } catch (err) {
+        // Unsure whether we still hold it: stand down rather than risk two leaders
+        console.error('[Leader] Could not renew lease:', err);
+      }
+      if (!renewed) {
+        this.leading = false;
+        console.warn(`[Leader] ${this.instanceId} lost the scheduler lease`);
+        for (const listener of this.deposedListeners) listener();
+      }
+      return;
+    }
+
+    const taken = await redisClient.set(LEASE_KEY, this.instanceId, {
+      condition: 'NX',
+      expiration: { type: 'PX', value: LEASE_MS },
+    });
+    if (taken !== 'OK') return;
+
+    this.leading = true;
+    console.log(`[Leader] ${this.instanceId} is now the scheduler leader`);
+    await this.onElected?.();
+  }
+}
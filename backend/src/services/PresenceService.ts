@@ -0,0 +1,242 @@
+import type { Server } from 'socket.io';
+import { PlayerModel } from '../models/Player';
+import { RoundModel } from '../models/Round';
+import { SessionModel } from '../models/Session';
+import { GameRegistry } from '../engines';
+import { BotService } from './BotService';
+import { BotStrategyRegistry } from './botStrategies';
+import { ClusterLeader } from './ClusterLeader';
+import { isRedisConnected, redisClient } from '../config/redis';
+import type { AbsentPolicy, Player } from '../types';
+
+/**
+ * Presence: which players are connected, and what happens to those who
+ * drop out.
+ *
+ * A player is present while at least one socket is bound to their seat (a
+ * student may have the market open in two tabs). When the last one goes
+ * they have the session's grace period to come back, so a page reload or a
+ * wifi blip doesn't count. After that, in a running session, the session's
+ * absent_policy decides:
+ *
+ * - skip: the player is marked inactive and rounds stop waiting for them;
+ * - default_action: the same, and the engine records the game's default
+ *   move for them (games without one skip them instead);
+ * - bot: the game's bot strategy plays the seat, which stays active (games
+ *   without a strategy skip them instead).
+ *
+ * Reconnecting undoes either one: the seat is active and theirs again.
+ *
+ * With several backend instances, each tracks the sockets it holds and the
+ * records are shared through Redis; the absent policy and the hand-back run
+ * on the leader, which owns the rounds and bots.
+ */
+
+export const ABSENT_POLICIES: AbsentPolicy[] = ['skip', 'default_action', 'bot'];
+
+const MIN_GRACE_SECONDS = 5;
+const MAX_GRACE_SECONDS = 600;
+
+// How long shared presence records outlive their last change (seconds)
+const RECORD_TTL_SECONDS = 24 * 60 * 60;
+
+const recordsKey = (sessionCode: string) => `presence:${sessionCode}`;
+
+/**
+ * Check a session's absent-player settings (either may be left out).
+ * Returns an error message, or null if they are valid.
+ */
+export function validateAbsentPolicy(policy: unknown, graceSeconds: unknown): string | null {
+  if (policy !== undefined && !ABSENT_POLICIES.includes(policy as AbsentPolicy)) {
+    return `absent_policy must be one of: ${ABSENT_POLICIES.join(', ')}`;
+  }
+  if (graceSeconds !== undefined &&
+      (typeof graceSeconds !== 'number' || !Number.isInteger(graceSeconds) ||
+       graceSeconds < MIN_GRACE_SECONDS || graceSeconds > MAX_GRACE_SECONDS)) {
+    return `absent_grace_seconds must be a whole number from ${MIN_GRACE_SECONDS} to ${MAX_GRACE_SECONDS}`;
+  }
+  return null;
+}
+
+export interface PlayerPresence {
+  playerId: string;
+  connected: boolean;
+  /** When the player last connected or disconnected */
+  since: string;
+}
+
+export class PresenceService {
+  private static instance: PresenceService;
+
+  /** Live socket ids bound to each player */
+  private sockets = new Map<string, Set<string>>();
+
+  /** Latest presence of every player seen, by session code */
+  private sessions = new Map<string, Map<string, PlayerPresence>>();
+
+  /** Absences waiting for the grace period to run out */
+  private graceTimers = new Map<string, NodeJS.Timeout>();
+
+  private constructor() {
+    const leader = ClusterLeader.getInstance();
+    leader.handle('player-absent', (playerId: string, io) => this.applyAbsentPolicy(playerId, io));
+    leader.handle('player-returned', ({ playerId, sessionCode }: { playerId: string; sessionCode: string }, io) =>
+      this.handBack(playerId, sessionCode, io));
+  }
+
+  static getInstance(): PresenceService {
+    if (!PresenceService.instance) {
+      PresenceService.instance = new PresenceService();
+    }
+    return PresenceService.instance;
+  }
+
+  /** Presence of every player who has connected to a session's market */
+  async forSession(sessionCode: string): Promise<PlayerPresence[]> {
+    if (!isRedisConnected()) return [...(this.sessions.get(sessionCode)?.values() ?? [])];
+    const records = await redisClient.hGetAll(recordsKey(sessionCode));
+    return Object.values(records).map((record) => JSON.parse(record) as PlayerPresence);
+  }
+
+  /**
+   * A socket has bound to a player's seat. Cancels a pending absence and,
+   * if the absent policy was already applied, hands the seat back.
+   */
+  async connect(playerId: string, sessionCode: string, socketId: string, io: Server): Promise<void> {
+    const sockets = this.sockets.get(playerId) ?? new Set<string>();
+    sockets.add(socketId);
+    this.sockets.set(playerId, sockets);
+    this.cancelAbsence(playerId);
+    this.broadcast(io, sessionCode, await this.record(sessionCode, playerId, true), null);
+
+    const player = await PlayerModel.findById(playerId);
+    if (player && (!player.is_active || player.is_bot)) {
+      await ClusterLeader.getInstance().run(io, 'player-returned', { playerId, sessionCode });
+    }
+  }
+
+  /**
+   * A socket bound to a player has gone. If it was their last, the grace
+   * period starts.
+   */
+  async disconnect(playerId: string, sessionCode: string, socketId: string, io: Server): Promise<void> {
+    const sockets = this.sockets.get(playerId);
+    if (!sockets?.delete(socketId) || sockets.size > 0) return;
+    this.sockets.delete(playerId);
+    if (await this.isConnected(playerId, io)) return;
+    this.broadcast(io, sessionCode, await this.record(sessionCode, playerId, false), null);
+
+    const session = await SessionModel.findByCode(sessionCode);
+    if (!session) return;
+    this.scheduleAbsence(playerId, session.absent_grace_seconds ?? 30, io);
+  }
+
+  private scheduleAbsence(playerId: string, graceSeconds: number, io: Server): void {
+    // They may have come back while the session was being looked up
+    if (this.sockets.has(playerId)) return;
+    this.cancelAbsence(playerId);
+    this.graceTimers.set(playerId, setTimeout(() => {
+      this.graceTimers.delete(playerId);
+      ClusterLeader.getInstance().run(io, 'player-absent', playerId)
+        .catch(err => console.error(`[Presence] Error handling absent player ${playerId}:`, err));
+    }, graceSeconds * 1000));
+  }
+
+  private cancelAbsence(playerId: string): void {
+    clearTimeout(this.graceTimers.get(playerId));
+    this.graceTimers.delete(playerId);
+  }
+
+  /** Whether the player has a socket on this or any other instance */
+  private async isConnected(playerId: string, io: Server): Promise<boolean> {
+    if (this.sockets.has(playerId)) return true;
+    return (await io.in(`player-${playerId}`).fetchSockets()).length > 0;
+  }
+
+  /**
+   * A player who was skipped or handed to a bot is back: the seat is theirs
+   * again. Runs on the leader, which holds the bots.
+   */
+  private async handBack(playerId: string, sessionCode: string, io: Server): Promise<void> {
+    const player = await PlayerModel.findById(playerId);
+    if (!player || (player.is_active && !player.is_bot)) return;
+    // Only students hold player tokens, so a bot seat here is one we took over
+    if (player.is_bot) BotService.getInstance().retireBot(playerId);
+    const returned = await PlayerModel.markReturned(playerId);
+    this.broadcast(io, sessionCode, await this.record(sessionCode, playerId, true, false), returned);
+  }
+
+  /**
+   * The grace period is over and the player hasn't come back. Runs on the
+   * leader, which owns the rounds and bots.
+   */
+  private async applyAbsentPolicy(playerId: string, io: Server): Promise<void> {
+    if (await this.isConnected(playerId, io)) return;
+    const player = await PlayerModel.findById(playerId);
+    if (!player || !player.is_active || player.is_bot) return;
+    const session = await SessionModel.findById(player.session_id);
+    if (!session) return;
+
+    // Nothing waits on anyone in the lobby; check again once it may have started
+    if (session.status === 'waiting') {
+      this.scheduleAbsence(playerId, session.absent_grace_seconds ?? 30, io);
+      return;
+    }
+    if (session.status !== 'active') return;
+
+    const gameType = session.game_type || 'double_auction';
+    const round = await RoundModel.getCurrentRound(session.id);
+    const presence = await this.record(session.code, playerId, false, false);
+
+    if (session.absent_policy === 'bot' && BotStrategyRegistry.get(gameType)) {
+      const bot = await PlayerModel.convertToBot(playerId);
+      this.broadcast(io, session.code, presence, bot);
+      await BotService.getInstance().takeOver(round?.id ?? null, bot, session, io);
+      console.log(`[Presence] Bot took over ${player.name || playerId} in ${session.code}`);
+      return;
+    }
+
+    const away = await PlayerModel.markInactive(playerId);
+    this.broadcast(io, session.code, presence, away);
+    console.log(`[Presence] Marked ${player.name || playerId} inactive in ${session.code}`);
+
+    const engine = GameRegistry.get(gameType);
+    if (round && engine.onPlayerAbsent) {
+      await engine.onPlayerAbsent(round.id, playerId, session.code, io);
+    }
+  }
+
+  /** Store a player's presence; `touch` false keeps the time it last changed */
+  private async record(sessionCode: string, playerId: string, connected: boolean, touch = true): Promise<PlayerPresence> {
+    let players = this.sessions.get(sessionCode);
+    if (!players) {
+      players = new Map();
+      this.sessions.set(sessionCode, players);
+    }
+    const shared = isRedisConnected();
+    let previous = players.get(playerId);
+    if (!touch && shared) {
+      const stored = await redisClient.hGet(recordsKey(sessionCode), playerId);
+      previous = stored ? JSON.parse(stored) as PlayerPresence : previous;
+    }
+    const presence: PlayerPresence = {
+      playerId,
+      connected,
+      since: !touch && previous ? previous.since : new Date().toISOString(),
+    };
+    players.set(playerId, presence);
+    if (shared) {
+      await redisClient.hSet(recordsKey(sessionCode), playerId, JSON.stringify(presence));
+      await redisClient.expire(recordsKey(sessionCode), RECORD_TTL_SECONDS);
+    }
+    return presence;
+  }
+
+  /** Tell the monitor, along with the seat's state if it changed */
+  private broadcast(io: Server, sessionCode: string, presence: PlayerPresence, player: Player | null): void {
+    io.to(`session-${sessionCode}`).emit('presence-changed', {
+      ...presence,
+      ...(player && { isActive: player.is_active, isBot: player.is_bot }),
+    });
+  }
+}
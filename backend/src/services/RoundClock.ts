@@ -0,0 +1,216 @@
+/**
+ * Pausable timers for everything that runs on a round's clock.
+ *
+ * The socket handler's round-end timer, engine phase timers and bot action
+ * timers are scheduled here under the round's id instead of with a bare
+ * setTimeout, so an instructor can pause a round and every one of them
+ * stops together, then picks up with the same time left on resume.
+ *
+ * Timers come in two kinds. A `deadline` marks when something ends (the
+ * round, a posting phase) and moves back when the instructor adds time; a
+ * `delay` is a pause between actions (bot think time) and does not.
+ * Listeners hear about every change to a scope's deadlines, which is how
+ * clients learn when a round or phase now ends.
+ *
+ * A scope can also run on simulated time, for previewing a session without
+ * waiting through it: its timers never fire by themselves and
+ * `fastForward` runs them in order instead.
+ */
+
+export type RoundTimerKind = 'deadline' | 'delay';
+
+export interface RoundTimer {
+  readonly scope: string;
+  readonly kind: RoundTimerKind;
+  /** Milliseconds until the timer fires; frozen while its scope is paused */
+  remainingMs(): number;
+}
+
+// fastForward() waits for a timer that returns a promise
+type TimerFn = () => unknown;
+
+interface Entry extends RoundTimer {
+  fn: TimerFn;
+  dueAt: number;
+  /** Time left when the scope was paused */
+  heldMs: number;
+  handle: NodeJS.Timeout | null;
+}
+
+interface Scope {
+  paused: boolean;
+  timers: Set<Entry>;
+  /** The scope's own clock when it runs on simulated time */
+  simulatedNow: number | null;
+}
+
+export class RoundClock {
+  private static instance: RoundClock;
+
+  private scopes = new Map<string, Scope>();
+
+  private deadlineListeners: Array<(scope: string) => void> = [];
+
+  private constructor() {}
+
+  static getInstance(): RoundClock {
+    if (!RoundClock.instance) {
+      RoundClock.instance = new RoundClock();
+    }
+    return RoundClock.instance;
+  }
+
+  /** Be told whenever a deadline is set, cancelled, paused, resumed or moved */
+  onDeadlineChange(listener: (scope: string) => void): void {
+    this.deadlineListeners.push(listener);
+  }
+
+  /**
+   * Run `fn` after `ms` of unpaused time in `scope` (normally a round id).
+   * Timers created while the scope is paused wait for it to resume.
+   */
+  setTimeout(scope: string, fn: TimerFn, ms: number, kind: RoundTimerKind = 'delay'): RoundTimer {
+    const state = this.getScope(scope);
+    const entry: Entry = {
+      scope,
+      kind,
+      fn,
+      dueAt: this.now(scope) + ms,
+      heldMs: ms,
+      handle: null,
+      remainingMs: () => (state.paused ? entry.heldMs : Math.max(0, entry.dueAt - this.now(scope))),
+    };
+    state.timers.add(entry);
+    if (!state.paused) this.arm(entry);
+    if (kind === 'deadline') this.notify(scope);
+    return entry;
+  }
+
+  /** Cancel a timer; a no-op for timers that already fired */
+  clearTimeout(timer: RoundTimer | null | undefined): void {
+    if (!timer) return;
+    const entry = timer as Entry;
+    if (entry.handle) clearTimeout(entry.handle);
+    entry.handle = null;
+    const removed = this.scopes.get(entry.scope)?.timers.delete(entry);
+    if (removed && entry.kind === 'deadline') this.notify(entry.scope);
+  }
+
+  /** The scope's current time: its simulated time, or the real time */
+  now(scope: string): number {
+    return this.scopes.get(scope)?.simulatedNow ?? Date.now();
+  }
+
+  /**
+   * Run the scope on simulated time from now on. Call it before setting the
+   * scope's timers; they then wait for fastForward().
+   */
+  simulate(scope: string): void {
+    const state = this.getScope(scope);
+    state.simulatedNow ??= Date.now();
+  }
+
+  /**
+   * Move a simulated scope's time on by `ms`, running every timer that falls
+   * due on the way in order and waiting for each to finish. Timers those set
+   * run too if they fall due in time. Stops early if the scope is paused or
+   * cleared.
+   */
+  async fastForward(scope: string, ms: number): Promise<void> {
+    const state = this.scopes.get(scope);
+    if (!state || state.simulatedNow === null) return;
+    const until = state.simulatedNow + ms;
+
+    while (this.scopes.get(scope) === state && !state.paused) {
+      let next: Entry | null = null;
+      for (const entry of state.timers) {
+        if (entry.dueAt <= until && (!next || entry.dueAt < next.dueAt)) next = entry;
+      }
+      if (!next) {
+        state.simulatedNow = until;
+        return;
+      }
+      state.timers.delete(next);
+      state.simulatedNow = Math.max(state.simulatedNow, next.dueAt);
+      await next.fn();
+    }
+  }
+
+  isPaused(scope: string): boolean {
+    return this.scopes.get(scope)?.paused ?? false;
+  }
+
+  /** Freeze every timer in the scope. Returns false if it was already paused. */
+  pause(scope: string): boolean {
+    const state = this.getScope(scope);
+    if (state.paused) return false;
+    state.paused = true;
+    const now = this.now(scope);
+    for (const entry of state.timers) {
+      if (entry.handle) clearTimeout(entry.handle);
+      entry.handle = null;
+      entry.heldMs = Math.max(0, entry.dueAt - now);
+    }
+    this.notify(scope);
+    return true;
+  }
+
+  /** Restart the scope's timers with the time they had left. Returns false if it was not paused. */
+  resume(scope: string): boolean {
+    const state = this.scopes.get(scope);
+    if (!state?.paused) return false;
+    state.paused = false;
+    const now = this.now(scope);
+    for (const entry of state.timers) {
+      entry.dueAt = now + entry.heldMs;
+      this.arm(entry);
+    }
+    this.notify(scope);
+    return true;
+  }
+
+  /** Push back every pending deadline in the scope by `ms` */
+  addTime(scope: string, ms: number): void {
+    const state = this.scopes.get(scope);
+    if (!state) return;
+    for (const entry of state.timers) {
+      if (entry.kind !== 'deadline') continue;
+      entry.dueAt += ms;
+      entry.heldMs += ms;
+      if (!state.paused) this.arm(entry);
+    }
+    this.notify(scope);
+  }
+
+  /** Cancel every timer in the scope and forget its pause state */
+  clear(scope: string): void {
+    const state = this.scopes.get(scope);
+    if (!state) return;
+    for (const entry of state.timers) {
+      if (entry.handle) clearTimeout(entry.handle);
+    }
+    this.scopes.delete(scope);
+  }
+
+  private notify(scope: string): void {
+    for (const listener of this.deadlineListeners) listener(scope);
+  }
+
+  private getScope(scope: string): Scope {
+    let state = this.scopes.get(scope);
+    if (!state) this.scopes.set(scope, (state = { paused: false, timers: new Set(), simulatedNow: null }));
+    return state;
+  }
+
+  private arm(entry: Entry): void {
+    if (entry.handle) clearTimeout(entry.handle);
+    if (this.scopes.get(entry.scope)?.simulatedNow != null) return;
+    entry.handle = setTimeout(() => {
+      entry.handle = null;
+      const state = this.scopes.get(entry.scope);
+      state?.timers.delete(entry);
+      if (state && state.timers.size === 0 && !state.paused) this.scopes.delete(entry.scope);
+      entry.fn();
+    }, Math.max(0, entry.dueAt - Date.now()));
+  }
+}
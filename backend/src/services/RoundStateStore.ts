@@ -0,0 +1,107 @@
+import { pool } from '../config/database';
+import { setCache, getCache, deleteCache } from '../config/redis';
+
+/**
+ * Durable snapshots of in-memory engine round state.
+ *
+ * Specialized engines keep their live round state (phases, posted prices,
+ * order books, inventories...) in Maps on the engine instance. This store
+ * writes a JSON snapshot of that state to Postgres (and to Redis when it is
+ * connected) so a backend restart can rehydrate the round instead of
+ * silently dropping it.
+ *
+ * Maps and Sets are tagged on the way out and rebuilt on the way in.
+ * Timer handles (any key ending in "TimerId") are never persisted — engines
+ * store an absolute `phaseEndsAt` deadline instead and reschedule from it.
+ */
+
+const CACHE_PREFIX = 'round-state:';
+const CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+export interface StoredRoundState<T = any> {
+  roundId: string;
+  gameType: string;
+  state: T;
+  updatedAt: Date;
+}
+
+function replacer(key: string, value: any): any {
+  if (key.endsWith('TimerId')) return undefined;
+  if (value instanceof Map) return { __map: Array.from(value.entries()) };
+  if (value instanceof Set) return { __set: Array.from(value.values()) };
+  return value;
+}
+
+function reviver(_key: string, value: any): any {
+  if (value && typeof value === 'object') {
+    if (Array.isArray(value.__map)) return new Map(value.__map);
+    if (Array.isArray(value.__set)) return new Set(value.__set);
+  }
+  return value;
+}
+
+export function serializeRoundState(state: unknown): string {
+  return JSON.stringify(state, replacer);
+}
+
+export function deserializeRoundState<T>(json: string): T {
+  return JSON.parse(json, reviver) as T;
+}
+
+export class RoundStateStore {
+  /**
+   * Persist a snapshot of an engine's round state. Failures are logged but
+   * never thrown — persistence must not break a live round.
+   */
+  static async save(roundId: string, gameType: string, state: unknown): Promise<void> {
+    try {
+      const json = serializeRoundState(state);
+      await setCache(CACHE_PREFIX + roundId, json, CACHE_TTL_SECONDS);
+      await pool.query(
+        `INSERT INTO engine_round_states (round_id, game_type, state, updated_at)
+         VALUES ($1, $2, $3::jsonb, NOW())
+         ON CONFLICT (round_id) DO UPDATE
+         SET state = EXCLUDED.state, game_type = EXCLUDED.game_type, updated_at = NOW()`,
+        [roundId, gameType, json]
+      );
+    } catch (error) {
+      console.error(`[RoundStateStore] Failed to save state for round ${roundId}:`, error);
+    }
+  }
+
+  /**
+   * Load the latest snapshot for a round. Redis is checked first; Postgres
+   * is the source of truth when Redis is unavailable or has evicted the key.
+   */
+  static async load<T>(roundId: string): Promise<T | null> {
+    try {
+      const cached = await getCache(CACHE_PREFIX + roundId);
+      if (cached) {
+        // getCache parses JSON without our reviver, so re-run it
+        return deserializeRoundState<T>(JSON.stringify(cached));
+      }
+
+      const result = await pool.query(
+        'SELECT state::text AS state FROM engine_round_states WHERE round_id = $1',
+        [roundId]
+      );
+      if (result.rows.length === 0) return null;
+      return deserializeRoundState<T>(result.rows[0].state);
+    } catch (error) {
+      console.error(`[RoundStateStore] Failed to load state for round ${roundId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop a round's snapshot once the round has been resolved.
+   */
+  static async remove(roundId: string): Promise<void> {
+    try {
+      await deleteCache(CACHE_PREFIX + roundId);
+      await pool.query('DELETE FROM engine_round_states WHERE round_id = $1', [roundId]);
+    } catch (error) {
+      console.error(`[RoundStateStore] Failed to remove state for round ${roundId}:`, error);
+    }
+  }
+}
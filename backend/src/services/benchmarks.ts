@@ -0,0 +1,256 @@
+import { Player } from '../types';
+import { getUnitValues } from './gameLogic';
+
+/**
+ * Theoretical benchmarks for a session: the equilibrium prediction each
+ * game's outcomes are compared against in results, charts and exports.
+ * Everything here is pure — the caller loads the session's players and
+ * per-round values and passes them in.
+ */
+
+export interface CompetitiveEquilibrium {
+  /** Midpoint of the market-clearing price range */
+  price: number;
+  priceLow: number;
+  priceHigh: number;
+  quantity: number;
+  maxSurplus: number;
+}
+
+export interface RoundBenchmark extends CompetitiveEquilibrium {
+  roundNumber: number;
+}
+
+export interface SessionBenchmark {
+  /** Name of the solution concept the predictions come from */
+  model: string;
+  predictions: Record<string, number>;
+  /** Per-round predictions, for games whose fundamentals change between rounds */
+  rounds?: RoundBenchmark[];
+}
+
+export interface BenchmarkInput {
+  gameType: string;
+  config: Record<string, any>;
+  players: Player[];
+  /** Values in force each round (round_values), DA games only */
+  roundValues?: Array<{ round_number: number; role: string; unit_values: number[] }>;
+}
+
+/** One cent: the smallest positive amount the money-splitting games accept */
+const SMALLEST_OFFER = 0.01;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Competitive equilibrium of a unit demand/supply schedule.
+ * Demand is the buyer values sorted high to low, supply the seller costs
+ * sorted low to high; the equilibrium quantity is the number of units
+ * where value still covers cost. Any price between the marginal traded
+ * and first excluded units clears the market. Returns null when no
+ * unit can trade profitably.
+ */
+export function competitiveEquilibrium(values: number[], costs: number[]): CompetitiveEquilibrium | null {
+  const demand = [...values].sort((a, b) => b - a);
+  const supply = [...costs].sort((a, b) => a - b);
+
+  let quantity = 0;
+  let maxSurplus = 0;
+  while (quantity < demand.length && quantity < supply.length && demand[quantity] >= supply[quantity]) {
+    maxSurplus += demand[quantity] - supply[quantity];
+    quantity++;
+  }
+  if (quantity === 0) return null;
+
+  const priceLow = Math.max(supply[quantity - 1], demand[quantity] ?? -Infinity);
+  const priceHigh = Math.min(demand[quantity - 1], supply[quantity] ?? Infinity);
+  return {
+    price: round2((priceLow + priceHigh) / 2),
+    priceLow: round2(priceLow),
+    priceHigh: round2(priceHigh),
+    quantity,
+    maxSurplus: round2(maxSurplus),
+  };
+}
+
+/**
+ * Double auction family: CE of the values in force each round, and of the
+ * traders' current schedules for the session as a whole.
+ */
+function doubleAuctionBenchmark(input: BenchmarkInput): SessionBenchmark | null {
+  const byRound = new Map<number, { values: number[]; costs: number[] }>();
+  for (const rv of input.roundValues ?? []) {
+    const entry = byRound.get(rv.round_number) ?? { values: [], costs: [] };
+    (rv.role === 'buyer' ? entry.values : entry.costs).push(...rv.unit_values.map(Number));
+    byRound.set(rv.round_number, entry);
+  }
+
+  const rounds: RoundBenchmark[] = [];
+  for (const [roundNumber, { values, costs }] of [...byRound.entries()].sort((a, b) => a[0] - b[0])) {
+    const ce = competitiveEquilibrium(values, costs);
+    if (ce) rounds.push({ roundNumber, ...ce });
+  }
+
+  const values = input.players.filter((p) => p.role === 'buyer').flatMap(getUnitValues);
+  const costs = input.players.filter((p) => p.role === 'seller').flatMap(getUnitValues);
+  const ce = competitiveEquilibrium(values, costs) ?? rounds[rounds.length - 1];
+  if (!ce) return null;
+
+  return {
+    model: 'Competitive equilibrium',
+    predictions: {
+      price: ce.price,
+      priceLow: ce.priceLow,
+      priceHigh: ce.priceHigh,
+      quantity: ce.quantity,
+      maxSurplus: ce.maxSurplus,
+    },
+    rounds,
+  };
+}
+
+/** Cournot with linear demand P = a − bQ and constant marginal cost c */
+function cournotBenchmark(config: Record<string, any>, numFirms: number): SessionBenchmark {
+  const a = config.demandIntercept ?? 100;
+  const b = config.demandSlope ?? 1;
+  const c = config.marginalCost ?? 10;
+  const n = Math.max(1, numFirms);
+
+  const nashQuantity = (a - c) / (b * (n + 1));
+  const nashPrice = a - b * n * nashQuantity;
+  const collusiveTotal = (a - c) / (2 * b);
+  const collusivePrice = a - b * collusiveTotal;
+  const competitiveTotal = (a - c) / b;
+
+  return {
+    model: 'Cournot-Nash',
+    predictions: {
+      numFirms: n,
+      nashQuantity: round2(nashQuantity),
+      nashTotalQuantity: round2(n * nashQuantity),
+      nashPrice: round2(nashPrice),
+      nashProfit: round2((nashPrice - c) * nashQuantity),
+      collusiveQuantity: round2(collusiveTotal / n),
+      collusiveTotalQuantity: round2(collusiveTotal),
+      collusivePrice: round2(collusivePrice),
+      collusiveProfit: round2(((collusivePrice - c) * collusiveTotal) / n),
+      competitiveTotalQuantity: round2(competitiveTotal),
+      competitivePrice: round2(c),
+    },
+  };
+}
+
+/**
+ * Bertrand with fixed market demand: two or more firms undercut down to
+ * marginal cost; a cartel (or a lone firm) charges the price cap.
+ */
+function bertrandBenchmark(config: Record<string, any>, numFirms: number): SessionBenchmark {
+  const marginalCost = config.marginalCost ?? 10;
+  const marketDemand = config.marketDemand ?? 100;
+  const maxPrice = config.maxPrice ?? 100;
+  const n = Math.max(1, numFirms);
+  const nashPrice = n > 1 ? marginalCost : maxPrice;
+
+  return {
+    model: 'Bertrand-Nash',
+    predictions: {
+      numFirms: n,
+      nashPrice: round2(nashPrice),
+      nashProfit: round2(((nashPrice - marginalCost) * marketDemand) / n),
+      collusivePrice: round2(maxPrice),
+      collusiveProfit: round2(((maxPrice - marginalCost) * marketDemand) / n),
+    },
+  };
+}
+
+/**
+ * Linear public goods game: with MPCR < 1 keeping everything is dominant,
+ * while the group does best contributing everything when MPCR × n > 1.
+ */
+function publicGoodsBenchmark(config: Record<string, any>, groupSize: number): SessionBenchmark {
+  const endowment = config.endowment ?? 20;
+  const mpcr = config.mpcr ?? 0.4;
+  const n = Math.max(1, groupSize);
+
+  const nashContribution = mpcr < 1 ? 0 : endowment;
+  const optimalContribution = mpcr * n > 1 ? endowment : 0;
+  const payoff = (contribution: number) => endowment - contribution + mpcr * n * contribution;
+
+  return {
+    model: 'Nash equilibrium vs social optimum',
+    predictions: {
+      groupSize: n,
+      nashContribution,
+      nashPayoff: round2(payoff(nashContribution)),
+      optimalContribution,
+      optimalPayoff: round2(payoff(optimalContribution)),
+    },
+  };
+}
+
+/**
+ * Ultimatum-style split: a payoff-maximising responder accepts any positive
+ * offer, so the proposer offers the smallest one allowed.
+ */
+function ultimatumBenchmark(pie: number, minOffer: number): SessionBenchmark {
+  const offer = Math.min(pie, Math.max(minOffer, SMALLEST_OFFER));
+  return {
+    model: 'Subgame-perfect equilibrium',
+    predictions: {
+      pie,
+      proposerOffer: round2(offer),
+      proposerKeeps: round2(pie - offer),
+      minimumAcceptedOffer: round2(offer),
+    },
+  };
+}
+
+/**
+ * Sealed-bid auction with n bidders and values uniform on [vmin, vmax].
+ * First price: bid vmin + (n−1)/n × (v − vmin). Second price: bid value.
+ * Revenue equivalence gives both the same expected revenue.
+ */
+function auctionBenchmark(config: Record<string, any>, numBidders: number): SessionBenchmark {
+  const auctionType = config.auctionType ?? 'first_price';
+  const valueMin = config.valueMin ?? 10;
+  const valueMax = config.valueMax ?? 100;
+  const n = Math.max(1, numBidders);
+  const bidShare = auctionType === 'first_price' ? (n - 1) / n : 1;
+
+  return {
+    model: auctionType === 'first_price' ? 'Risk-neutral Nash equilibrium' : 'Dominant strategy (bid value)',
+    predictions: {
+      numBidders: n,
+      bidShare: Math.round(bidShare * 10000) / 10000,
+      bidIntercept: round2(valueMin * (1 - bidShare)),
+      expectedPrice: round2(valueMin + ((n - 1) / (n + 1)) * (valueMax - valueMin)),
+    },
+  };
+}
+
+/**
+ * Theoretical benchmark for a session, or null for game types without one.
+ */
+export function computeBenchmarks(input: BenchmarkInput): SessionBenchmark | null {
+  const { gameType, config, players } = input;
+  switch (gameType) {
+    case 'double_auction':
+    case 'double_auction_tax':
+    case 'double_auction_price_controls':
+      return doubleAuctionBenchmark(input);
+    case 'cournot':
+      return cournotBenchmark(config, players.length);
+    case 'bertrand':
+      return bertrandBenchmark(config, players.length);
+    case 'public_goods':
+      return publicGoodsBenchmark(config, players.length);
+    case 'ultimatum':
+      return ultimatumBenchmark(config.endowment ?? 10, config.minOffer ?? 0);
+    case 'bargaining':
+      return ultimatumBenchmark(config.pieSize ?? 10, 0);
+    case 'auction':
+      return auctionBenchmark(config, players.length);
+    default:
+      return null;
+  }
+}
@@ -1,5 +1,23 @@
 import type { Player } from '../../types';
 
+/** One player's game_results row for a round, as seen by a bot */
+export interface BotRoundResult {
+  playerId: string;
+  profit: number;
+  resultData: Record<string, any>;
+}
+
+/**
+ * A completed earlier round, passed to strategies so bots can react to history.
+ * `own` is the bot's own result row; `results` is every player's result
+ * (the public outcome of the round).
+ */
+export interface BotRoundHistory {
+  roundNumber: number;
+  own: BotRoundResult | null;
+  results: BotRoundResult[];
+}
+
 /**
  * Interface for game-specific bot strategies.
  * Each method returns an action object in the exact format the engine expects.
@@ -11,14 +29,15 @@ export interface BotStrategy {
     player: Player,
     config: Record<string, any>,
     roundNumber: number,
-    previousResults?: any[]
+    previousResults?: BotRoundHistory[]
   ): Record<string, any>;
 
   /** Sequential games: first-mover action */
   getFirstMoveAction?(
     player: Player,
     config: Record<string, any>,
-    roundNumber: number
+    roundNumber: number,
+    previousResults?: BotRoundHistory[]
   ): Record<string, any>;
 
   /** Sequential games: second-mover response to partner's first move */
@@ -26,15 +45,22 @@ export interface BotStrategy {
     player: Player,
     config: Record<string, any>,
     partnerAction: Record<string, any>,
-    roundNumber: number
+    roundNumber: number,
+    previousResults?: BotRoundHistory[]
   ): Record<string, any>;
 
-  /** DA games: return a bid or ask action, or null to skip this tick */
+  /**
+   * DA games: return a bid or ask action, or null to skip this tick.
+   * gameState is the engine's live view of the round (bids, asks, trades,
+   * and for the DA family the bot's own unit schedule as myUnits)
+   * plus the current roundNumber.
+   */
   getDAAction?(
     player: Player,
     config: Record<string, any>,
     gameState: Record<string, any>,
-    elapsedSeconds: number
+    elapsedSeconds: number,
+    previousResults?: BotRoundHistory[]
   ): Record<string, any> | null;
 
   /** Specialized games with custom action flows */
@@ -42,7 +68,8 @@ export interface BotStrategy {
     player: Player,
     config: Record<string, any>,
     gameState: Record<string, any>,
-    roundNumber: number
+    roundNumber: number,
+    previousResults?: BotRoundHistory[]
   ): Array<{ action: Record<string, any>; delayMs: number }>;
 }
 
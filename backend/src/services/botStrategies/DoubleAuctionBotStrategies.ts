@@ -10,9 +10,21 @@ const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(mi
 /** Helper: round to 2 decimal places */
 const r2 = (v: number) => Math.round(v * 100) / 100;
 
+/** Helper: best (highest bid / lowest ask) price in an order list, or null */
+const bestPrice = (orders: any[] | undefined, side: 'bid' | 'ask'): number | null => {
+  if (!orders?.length) return null;
+  const prices = orders.map(o => Number(o.price)).filter(p => !isNaN(p));
+  if (prices.length === 0) return null;
+  return side === 'bid' ? Math.max(...prices) : Math.min(...prices);
+};
+
 /**
  * DA bot strategy: buyers bid a fraction of their valuation,
  * sellers ask a markup over their cost. Both converge over time.
+ * If the live book already offers a price inside the bot's target,
+ * the bot takes it instead of posting a worse quote.
+ * Multi-unit traders price the unit they are currently on and go
+ * quiet once their schedule is used up.
  */
 const daStrategy: BotStrategy = {
   getDAAction(player, config, gameState, elapsedSeconds) {
@@ -20,24 +32,34 @@ const daStrategy: BotStrategy = {
     const roundDuration = config.time_per_round || 180;
     // Progress through round: 0 → 1
     const progress = Math.min(elapsedSeconds / roundDuration, 1);
+    const myUnits = gameState.myUnits;
+    if (myUnits && myUnits.currentValue == null) return null;
 
     if (role === 'buyer') {
-      const valuation = Number(player.valuation) || 50;
+      const valuation = Number(myUnits?.currentValue ?? player.valuation) || 50;
       // Start bidding at 50% of valuation, ramp up to 90%
       const minFrac = 0.5;
       const maxFrac = 0.9;
       const fraction = minFrac + (maxFrac - minFrac) * progress;
       const noise = rand(-2, 2);
       const price = r2(clamp(valuation * fraction + noise, 0.01, valuation - 0.01));
+      const bestAsk = bestPrice(gameState.asks, 'ask');
+      if (bestAsk !== null && bestAsk <= price) {
+        return { type: 'bid', price: bestAsk };
+      }
       return { type: 'bid', price };
     } else {
-      const cost = Number(player.production_cost) || 30;
+      const cost = Number(myUnits?.currentValue ?? player.production_cost) || 30;
       // Start asking at 150% of cost, ramp down to 110%
       const maxFrac = 1.5;
       const minFrac = 1.1;
       const fraction = maxFrac - (maxFrac - minFrac) * progress;
       const noise = rand(-2, 2);
       const price = r2(clamp(cost * fraction + noise, cost + 0.01, 999));
+      const bestBid = bestPrice(gameState.bids, 'bid');
+      if (bestBid !== null && bestBid >= price) {
+        return { type: 'ask', price: bestBid };
+      }
       return { type: 'ask', price };
     }
   },
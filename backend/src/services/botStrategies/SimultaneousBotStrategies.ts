@@ -19,8 +19,13 @@ export const prisonerDilemmaStrategy: BotStrategy = {
     }
     // Look at last round's results to see what opponents did
     const lastRound = previousResults[previousResults.length - 1];
-    if (lastRound?.opponentDefected) {
-      return { choice: 'defect' };
+    const own = lastRound?.own?.resultData;
+    if (own) {
+      const opponentDefections = (own.numDefectors ?? 0) - (own.choice === 'defect' ? 1 : 0);
+      const opponentDefected = opponentDefections > (own.numOpponents ?? 0) / 2;
+      if (opponentDefected) {
+        return { choice: 'defect' };
+      }
     }
     // Default: cooperate with 70% probability
     return { choice: Math.random() < 0.7 ? 'cooperate' : 'defect' };
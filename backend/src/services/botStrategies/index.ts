@@ -109,4 +109,4 @@ BotStrategyRegistry.register('bid_auction', bidAuctionStrategy);
 BotStrategyRegistry.register('electricity_market', electricityMarketStrategy);
 
 export { BotStrategyRegistry } from './BotStrategyRegistry';
-export type { BotStrategy } from './BotStrategyRegistry';
+export type { BotStrategy, BotRoundHistory, BotRoundResult } from './BotStrategyRegistry';
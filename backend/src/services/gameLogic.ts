@@ -1,4 +1,4 @@
-import { Bid, Ask, Player } from '../types';
+import { Bid, Ask, Player, Session } from '../types';
 
 /**
  * Generate valuations for buyers
@@ -57,6 +57,137 @@ export function generateProductionCosts(
   return generateValuations(min, max, increment, count);
 }
 
+/**
+ * Draw a trader's multi-unit schedule for the double auction family.
+ * Buyers get declining valuations and sellers rising costs, giving the
+ * stepped demand/supply curves of a Smith-style design. With one unit
+ * this is the same single draw the DA has always used.
+ */
+export function generateUnitSchedule(
+  role: 'buyer' | 'seller',
+  session: Pick<Session, 'valuation_min' | 'valuation_max' | 'valuation_increments' | 'cost_min' | 'cost_max' | 'cost_increments'>,
+  units: number
+): number[] {
+  const count = Math.max(1, Math.floor(units) || 1);
+  if (role === 'buyer') {
+    return generateValuations(
+      session.valuation_min, session.valuation_max, session.valuation_increments, count
+    ).sort((a, b) => b - a);
+  }
+  return generateProductionCosts(
+    session.cost_min, session.cost_max, session.cost_increments, count
+  ).sort((a, b) => a - b);
+}
+
+/**
+ * Fixed induced values uploaded by the instructor: one unit schedule per
+ * trader, handed out to buyers/sellers in join order.
+ */
+export interface InducedValueTable {
+  buyers: number[][];
+  sellers: number[][];
+}
+
+/**
+ * Parse an induced-value table. One trader per line, role first, then that
+ * trader's unit values, separated by commas, semicolons or whitespace:
+ *
+ *   buyer, 90, 70, 50
+ *   seller, 20, 40, 60
+ *
+ * Blank lines and lines starting with # are ignored. Schedules are sorted so
+ * buyers' units decline and sellers' rise, matching drawn schedules.
+ */
+export function parseValueTable(text: string): { table?: InducedValueTable; error?: string } {
+  const table: InducedValueTable = { buyers: [], sellers: [] };
+  const lines = String(text).split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [rawRole, ...cells] = line.split(/[\s,;:]+/).filter(Boolean);
+    const role = rawRole.toLowerCase();
+    if (role !== 'buyer' && role !== 'seller') {
+      return { error: `Line ${i + 1}: role must be "buyer" or "seller"` };
+    }
+    const values = cells.map(Number);
+    if (values.length === 0 || values.some(v => !Number.isFinite(v) || v < 0)) {
+      return { error: `Line ${i + 1}: expected one or more non-negative values` };
+    }
+
+    if (role === 'buyer') {
+      table.buyers.push(values.sort((a, b) => b - a));
+    } else {
+      table.sellers.push(values.sort((a, b) => a - b));
+    }
+  }
+
+  if (table.buyers.length === 0 || table.sellers.length === 0) {
+    return { error: 'Value table needs at least one buyer and one seller' };
+  }
+  return { table };
+}
+
+/**
+ * The schedule a DA trader starts with: their row of the induced-value table
+ * when the session has one (rows are reused if more traders join than there
+ * are rows), otherwise a fresh draw. roleIndex is the trader's position among
+ * players of the same role.
+ */
+export function drawUnitSchedule(
+  role: 'buyer' | 'seller',
+  session: Session,
+  roleIndex: number
+): number[] {
+  const config = session.game_config || {};
+  if (config.value_table) {
+    const { table } = parseValueTable(config.value_table);
+    const rows = table ? (role === 'buyer' ? table.buyers : table.sellers) : [];
+    if (rows.length > 0) return [...rows[roleIndex % rows.length]];
+  }
+  return generateUnitSchedule(role, session, config.units_per_trader ?? 1);
+}
+
+/**
+ * Which value changes apply to a DA round:
+ * - redraw: every `redraw_every` rounds (rounds 1+N, 1+2N, ...) schedules are drawn afresh
+ * - shift: from `shock_round` onward buyers' values move by `demand_shift`
+ *   and sellers' costs by `supply_shift`
+ */
+export function roundValueRules(
+  config: Record<string, any>,
+  roundNumber: number
+): { redraw: boolean; demandShift: number; supplyShift: number } {
+  const redrawEvery = Number(config.redraw_every) || 0;
+  const shockRound = Number(config.shock_round) || 0;
+  const shocked = shockRound > 0 && roundNumber >= shockRound;
+  return {
+    redraw: redrawEvery > 0 && roundNumber > 1 && (roundNumber - 1) % redrawEvery === 0,
+    demandShift: shocked ? Number(config.demand_shift) || 0 : 0,
+    supplyShift: shocked ? Number(config.supply_shift) || 0 : 0,
+  };
+}
+
+/** Move a whole schedule by `shift`, never below zero */
+export function shiftSchedule(values: number[], shift: number): number[] {
+  if (!shift) return [...values];
+  return values.map(v => Math.max(0, Math.round((v + shift) * 100) / 100));
+}
+
+/**
+ * A DA trader's unit schedule: game_data.unitValues when present, otherwise
+ * the single valuation/production_cost (players created before multi-unit support).
+ */
+export function getUnitValues(player: Player): number[] {
+  const schedule = player.game_data?.unitValues;
+  if (Array.isArray(schedule) && schedule.length > 0) {
+    return schedule.map(Number);
+  }
+  const single = player.role === 'buyer' ? player.valuation : player.production_cost;
+  return single != null ? [Number(single)] : [];
+}
+
 /**
  * Assign roles to players
  * Distributes players evenly between buyers and sellers
@@ -87,9 +218,10 @@ export function assignRoles(playerCount: number): { role: 'buyer' | 'seller' }[]
 
 /**
  * Validate bid
- * Bid price must be <= buyer's valuation
+ * Bid price must be <= buyer's valuation (for multi-unit traders, the
+ * valuation of the unit being bid on)
  */
-export function validateBid(bidPrice: number, player: Player): {
+export function validateBid(bidPrice: number, player: Player, unitValue?: number): {
   valid: boolean;
   error?: string;
 } {
@@ -105,10 +237,11 @@ export function validateBid(bidPrice: number, player: Player): {
     return { valid: false, error: 'Bid must be positive' };
   }
 
-  if (bidPrice > Number(player.valuation)) {
+  const valuation = unitValue ?? Number(player.valuation);
+  if (bidPrice > valuation) {
     return {
       valid: false,
-      error: `Bid (${bidPrice}) cannot exceed your valuation (${Number(player.valuation)})`
+      error: `Bid (${bidPrice}) cannot exceed your valuation (${valuation})`
     };
   }
 
@@ -117,9 +250,10 @@ export function validateBid(bidPrice: number, player: Player): {
 
 /**
  * Validate ask
- * Ask price must be >= seller's production cost
+ * Ask price must be >= seller's production cost (for multi-unit traders,
+ * the cost of the unit being offered)
  */
-export function validateAsk(askPrice: number, player: Player): {
+export function validateAsk(askPrice: number, player: Player, unitValue?: number): {
   valid: boolean;
   error?: string;
 } {
@@ -135,10 +269,11 @@ export function validateAsk(askPrice: number, player: Player): {
     return { valid: false, error: 'Ask must be positive' };
   }
 
-  if (askPrice < Number(player.production_cost)) {
+  const cost = unitValue ?? Number(player.production_cost);
+  if (askPrice < cost) {
     return {
       valid: false,
-      error: `Ask (${askPrice}) cannot be below your cost (${Number(player.production_cost)})`
+      error: `Ask (${askPrice}) cannot be below your cost (${cost})`
     };
   }
 
@@ -146,82 +281,126 @@ export function validateAsk(askPrice: number, player: Player): {
 }
 
 /**
- * Match bids and asks using double auction rules
- * Returns array of potential trades
- * Trade price is the midpoint between bid and ask
+ * An order joined with its trader. unitValue is the valuation/cost of the
+ * schedule unit the order is for; without it the player's single value is used.
  */
-export function matchTrades(
-  bids: (Bid & { player: Player })[],
-  asks: (Ask & { player: Player })[]
-): Array<{
-  bid: Bid & { player: Player };
-  ask: Ask & { player: Player };
+export type OrderWithPlayer<T> = T & { player: Player; unitValue?: number };
+
+/** A matched bid/ask pair and the price and profits it executes at */
+export interface TradeMatch {
+  bid: OrderWithPlayer<Bid>;
+  ask: OrderWithPlayer<Ask>;
   price: number;
   buyerProfit: number;
   sellerProfit: number;
-}> {
-  const trades: Array<{
-    bid: Bid & { player: Player };
-    ask: Ask & { player: Player };
-    price: number;
-    buyerProfit: number;
-    sellerProfit: number;
-  }> = [];
-
-  // Sort bids descending (highest first)
-  // Note: bid.price and ask.price are DECIMAL columns returned as strings by pg driver
-  const sortedBids = [...bids].sort((a, b) => {
-    const priceDiff = Number(b.price) - Number(a.price);
-    if (priceDiff !== 0) return priceDiff;
-    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-  });
-
-  // Sort asks ascending (lowest first)
-  const sortedAsks = [...asks].sort((a, b) => {
-    const priceDiff = Number(a.price) - Number(b.price);
-    if (priceDiff !== 0) return priceDiff;
-    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-  });
-
-  let bidIdx = 0;
-  let askIdx = 0;
-
-  // Match bids with asks
-  while (bidIdx < sortedBids.length && askIdx < sortedAsks.length) {
-    const bid = sortedBids[bidIdx];
-    const ask = sortedAsks[askIdx];
-
-    const bidPrice = Number(bid.price);
-    const askPrice = Number(ask.price);
-
-    // Can only trade if bid >= ask
-    if (bidPrice >= askPrice) {
-      // Trade price is midpoint
-      const tradePrice = (bidPrice + askPrice) / 2;
-
-      // Calculate profits
-      const buyerProfit = Number(bid.player.valuation ?? 0) - tradePrice;
-      const sellerProfit = tradePrice - Number(ask.player.production_cost ?? 0);
-
-      trades.push({
-        bid,
-        ask,
-        price: tradePrice,
-        buyerProfit,
-        sellerProfit
-      });
-
-      bidIdx++;
-      askIdx++;
-    } else {
-      // No more matches possible
-      break;
-    }
+}
+
+/**
+ * How a crossing bid/ask pair is priced in the continuous double auction:
+ * - standing: the price of whichever order was in the book first
+ * - midpoint: halfway between the bid and the ask
+ * - bid / ask: always the bid's or the ask's price
+ */
+export type PricingRule = 'standing' | 'midpoint' | 'bid' | 'ask';
+
+export const PRICING_RULES: PricingRule[] = ['standing', 'midpoint', 'bid', 'ask'];
+
+function tradePrice(bid: Bid, ask: Ask, rule: PricingRule): number {
+  const bidPrice = Number(bid.price);
+  const askPrice = Number(ask.price);
+  switch (rule) {
+    case 'bid':
+      return bidPrice;
+    case 'ask':
+      return askPrice;
+    case 'standing':
+      // Ties go to the bid: it was posted in the same instant, so neither side "accepted"
+      return new Date(ask.created_at).getTime() < new Date(bid.created_at).getTime() ? askPrice : bidPrice;
+    default:
+      return (bidPrice + askPrice) / 2;
+  }
+}
+
+function toMatch(bid: OrderWithPlayer<Bid>, ask: OrderWithPlayer<Ask>, price: number): TradeMatch {
+  return {
+    bid,
+    ask,
+    price,
+    buyerProfit: (bid.unitValue ?? Number(bid.player.valuation ?? 0)) - price,
+    sellerProfit: price - (ask.unitValue ?? Number(ask.player.production_cost ?? 0)),
+  };
+}
+
+// Note: bid.price and ask.price are DECIMAL columns returned as strings by pg driver
+function sortBook(bids: OrderWithPlayer<Bid>[], asks: OrderWithPlayer<Ask>[]) {
+  const byTime = (a: { created_at: Date }, b: { created_at: Date }) =>
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return {
+    // Bids descending (highest first), asks ascending (lowest first); earlier orders win ties
+    bids: [...bids].sort((a, b) => Number(b.price) - Number(a.price) || byTime(a, b)),
+    asks: [...asks].sort((a, b) => Number(a.price) - Number(b.price) || byTime(a, b)),
+  };
+}
+
+/**
+ * Match bids and asks using double auction rules
+ * Returns array of potential trades, each priced by the pricing rule
+ * (midpoint between bid and ask unless told otherwise)
+ */
+export function matchTrades(
+  bids: OrderWithPlayer<Bid>[],
+  asks: OrderWithPlayer<Ask>[],
+  pricingRule: PricingRule = 'midpoint'
+): TradeMatch[] {
+  const sorted = sortBook(bids, asks);
+  const trades: TradeMatch[] = [];
+
+  // Walk both sides while the best remaining bid still crosses the best remaining ask
+  for (let i = 0; i < sorted.bids.length && i < sorted.asks.length; i++) {
+    const bid = sorted.bids[i];
+    const ask = sorted.asks[i];
+    if (Number(bid.price) < Number(ask.price)) break;
+    trades.push(toMatch(bid, ask, tradePrice(bid, ask, pricingRule)));
   }
 
   return trades;
 }
 
+/**
+ * Clear a call market: every crossing bid/ask pair trades at one uniform
+ * price. With k crossing pairs the market-clearing range runs from
+ * max(k-th ask, (k+1)-th bid) to min(k-th bid, (k+1)-th ask); the price is
+ * the middle of that range, so no trader is forced to trade at a loss
+ * against their own order and no excluded order would have crossed it.
+ */
+export function clearCallMarket(
+  bids: OrderWithPlayer<Bid>[],
+  asks: OrderWithPlayer<Ask>[]
+): { price: number | null; matches: TradeMatch[] } {
+  const sorted = sortBook(bids, asks);
+
+  let k = 0;
+  while (
+    k < sorted.bids.length && k < sorted.asks.length &&
+    Number(sorted.bids[k].price) >= Number(sorted.asks[k].price)
+  ) {
+    k++;
+  }
+  if (k === 0) return { price: null, matches: [] };
+
+  const nextBid = sorted.bids[k] ? Number(sorted.bids[k].price) : -Infinity;
+  const nextAsk = sorted.asks[k] ? Number(sorted.asks[k].price) : Infinity;
+  const low = Math.max(Number(sorted.asks[k - 1].price), nextBid);
+  const high = Math.min(Number(sorted.bids[k - 1].price), nextAsk);
+  const price = Math.min(high, Math.max(low, Math.round(((low + high) / 2) * 100) / 100));
+
+  const matches: TradeMatch[] = [];
+  for (let i = 0; i < k; i++) {
+    matches.push(toMatch(sorted.bids[i], sorted.asks[i], price));
+  }
+  return { price, matches };
+}
+
 /**
  * Calculate market statistics
  */
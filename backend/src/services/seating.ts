@@ -0,0 +1,172 @@
+import { PlayerModel } from '../models/Player';
+import { JoinRequestModel, type JoinRequest } from '../models/JoinRequest';
+import { GameRegistry } from '../engines';
+import { BotService } from './BotService';
+import { drawUnitSchedule } from './gameLogic';
+import { configForRound } from './treatments';
+import type { Player, Session } from '../types';
+
+/**
+ * Seating: who sits where in a session.
+ *
+ * Before a session starts, students take the next free seat and get a role
+ * straight away (createPlayerForSession). Once it is running they have to
+ * ask, and the instructor seats each late joiner one of three ways:
+ *
+ * - an empty seat, if the session never filled up — a new player the engine
+ *   sets up alongside the existing ones via onPlayerAdded;
+ * - a disconnected student's seat, so someone whose laptop died can carry on
+ *   from a new device with the same role, values and profit;
+ * - a bot's seat, which hands the bot's role, values and profit to the
+ *   student and stops the bot from acting.
+ */
+
+// Game types that use the DA buyer/seller role system
+const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
+
+// Default role for non-DA game types
+const GAME_ROLES: Record<string, string> = {
+  bertrand: 'firm',
+  cournot: 'firm',
+  public_goods: 'player',
+  negative_externality: 'firm',
+  ultimatum: 'proposer',
+  gift_exchange: 'employer',
+  principal_agent: 'principal',
+  comparative_advantage: 'country',
+  monopoly: 'monopolist',
+  market_for_lemons: 'seller',
+  discovery_process: 'producer',
+  ellsberg: 'chooser',
+  newsvendor: 'manager',
+  dutch_auction: 'bidder',
+  english_auction: 'bidder',
+  discriminative_auction: 'bidder',
+  posted_offer: 'seller',
+  lindahl: 'voter',
+  pg_auction: 'voter',
+  sealed_bid_offer: 'buyer',
+  sponsored_search: 'advertiser',
+};
+
+// Games where players alternate between two roles
+const PAIRED_ROLES: Record<string, [string, string]> = {
+  ultimatum: ['proposer', 'responder'],
+  bargaining: ['proposer', 'responder'],
+  gift_exchange: ['employer', 'worker'],
+  principal_agent: ['principal', 'agent'],
+  trust_game: ['sender', 'receiver'],
+  market_for_lemons: ['seller', 'buyer'],
+  posted_offer: ['seller', 'buyer'],
+  sealed_bid_offer: ['buyer', 'seller'],
+};
+
+/**
+ * Create a player in the next free seat with the role a student joining
+ * now would get. Returns null if the session is full.
+ */
+export async function createPlayerForSession(session: Session, name: string): Promise<Player | null> {
+  const gameType = session.game_type || 'double_auction';
+
+  if (DA_GAME_TYPES.includes(gameType)) {
+    // DA games: assign buyer/seller roles with valuations/costs
+    // Role assignment + capacity check happen atomically inside the transaction
+    return PlayerModel.createWithRoleAssignment(
+      session.id,
+      session.market_size,
+      name,
+      false,
+      (existingPlayers) => {
+        const currentBuyers = existingPlayers.filter(p => p.role === 'buyer').length;
+        const currentSellers = existingPlayers.filter(p => p.role === 'seller').length;
+        const role: 'buyer' | 'seller' = currentBuyers <= currentSellers ? 'buyer' : 'seller';
+
+        // Multi-unit schedule (drawn, or the next row of the induced-value table);
+        // the first (most profitable) unit doubles as the headline valuation/cost
+        const roleIndex = role === 'buyer' ? currentBuyers : currentSellers;
+        const unitValues = drawUnitSchedule(role, session, roleIndex);
+
+        const valueColumn = role === 'buyer' ? 'valuation' as const : 'production_cost' as const;
+        return { role, valueColumn, value: unitValues[0], gameData: { unitValues } };
+      }
+    );
+  }
+
+  if (PAIRED_ROLES[gameType]) {
+    // Paired games: alternate between two roles (atomic role assignment)
+    const [role1, role2] = PAIRED_ROLES[gameType];
+    return PlayerModel.createWithRoleAssignment(
+      session.id,
+      session.market_size,
+      name,
+      false,
+      (existingPlayers) => {
+        const role1Count = existingPlayers.filter(p => p.role === role1).length;
+        const role2Count = existingPlayers.filter(p => p.role === role2).length;
+        const role = role1Count <= role2Count ? role1 : role2;
+        return { role };
+      }
+    );
+  }
+
+  // Uniform-role games (Bertrand, Cournot, Public Goods, etc.)
+  const role = GAME_ROLES[gameType] || 'player';
+  return PlayerModel.createWithCapacityCheck(session.id, session.market_size, role, name);
+}
+
+export type SeatResult =
+  | { ok: true; player: Player; request: JoinRequest; replaced: Player | null }
+  | { ok: false; error: string };
+
+/**
+ * Seat an approved late joiner. `playerId` names the seat to take over (a
+ * bot or a disconnected student); null means a new seat. The caller checks
+ * that a student's seat really is disconnected, since only the socket layer
+ * knows. A new seat joins the engine's setup from the session's current
+ * round; a round already under way carries on without it (simultaneous
+ * games turn its decisions away until the next round deals it values).
+ */
+export async function seatLateJoiner(
+  session: Session,
+  request: JoinRequest,
+  playerId: string | null
+): Promise<SeatResult> {
+  if (request.session_id !== session.id || request.status !== 'pending') {
+    return { ok: false, error: 'This request has already been decided' };
+  }
+  const name = request.name || 'Anonymous';
+
+  let replaced: Player | null = null;
+  if (playerId) {
+    replaced = await PlayerModel.findById(playerId);
+    if (!replaced || replaced.session_id !== session.id) {
+      return { ok: false, error: 'That seat is not in this session' };
+    }
+  }
+
+  // Claim the request before touching a seat, so a second approval (or a
+  // rejection) racing this one leaves the seat alone
+  let decided = await JoinRequestModel.decide(request.id, 'approved', playerId);
+  if (!decided) return { ok: false, error: 'This request has already been decided' };
+
+  let player: Player | null;
+  if (replaced) {
+    if (replaced.is_bot) BotService.getInstance().retireBot(replaced.id);
+    player = await PlayerModel.claimSeat(replaced.id, name);
+  } else {
+    player = await createPlayerForSession(session, name);
+    if (!player) {
+      await JoinRequestModel.reopen(request.id);
+      return { ok: false, error: 'Session is full' };
+    }
+
+    const engine = GameRegistry.get(session.game_type || 'double_auction');
+    if (engine.onPlayerAdded) {
+      await engine.onPlayerAdded(session.id, player.id, configForRound(session, Math.max(1, session.current_round)));
+      player = (await PlayerModel.findById(player.id)) ?? player;
+    }
+    decided = (await JoinRequestModel.setPlayer(request.id, player.id)) ?? decided;
+  }
+
+  return { ok: true, player, request: decided, replaced };
+}
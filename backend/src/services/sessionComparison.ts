@@ -0,0 +1,229 @@
+import type { Session, Player, Round, Trade } from '../types';
+import type { GameAction } from '../models/GameAction';
+import type { GameResult } from '../models/GameResult';
+
+/**
+ * Cross-session comparison: the same summary measures computed for each
+ * selected session, then pooled over groups of sessions that share a tag
+ * value (e.g. semester = Fall vs Spring). Pure — the analytics controller
+ * loads the rows.
+ *
+ * Every submitted action contributes generic metrics, so any game can be
+ * compared without per-game code:
+ *   numeric fields   → mean, keyed `<action type>.<field>` (first_move.offer)
+ *   boolean fields   → share true, same key
+ *   string fields    → share of each value, keyed `<action type>.<field>:<value>`
+ *                      (decision.choice:cooperate)
+ * plus `profit` per player-round, `trade.price` for DA trades and
+ * `efficiency` for rounds with surplus accounting.
+ */
+
+export interface ComparisonSessionInput {
+  session: Session;
+  players: Player[];
+  rounds: Round[];
+  actions: GameAction[];
+  results: GameResult[];
+  trades: Trade[];
+}
+
+export interface MetricSummary {
+  mean: number;
+  /** Number of observations behind the mean */
+  n: number;
+}
+
+export interface ComparisonRound {
+  roundNumber: number;
+  metrics: Record<string, MetricSummary>;
+}
+
+export interface ComparisonSummary {
+  players: number;
+  completedRounds: number;
+  /** Pooled over all completed rounds */
+  metrics: Record<string, MetricSummary>;
+  rounds: ComparisonRound[];
+}
+
+export interface SessionComparison extends ComparisonSummary {
+  id: string;
+  code: string;
+  gameType: string;
+  status: Session['status'];
+  tags: Record<string, string>;
+  createdAt: Date;
+}
+
+export interface GroupComparison extends ComparisonSummary {
+  /** Tag value shared by the group ('untagged' when missing, 'all' when not grouping) */
+  key: string;
+  sessionIds: string[];
+}
+
+export interface ComparisonResult {
+  groupBy: string | null;
+  gameTypes: string[];
+  sessions: SessionComparison[];
+  groups: GroupComparison[];
+}
+
+const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
+
+/** Action payload fields that only repeat the action type */
+const IGNORED_ACTION_FIELDS = new Set(['type']);
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+/** Running sums per round and metric, mergeable across sessions */
+type Accumulator = Map<number, Map<string, { sum: number; n: number }>>;
+
+function observe(acc: Accumulator, roundNumber: number, metric: string, value: number): void {
+  let metrics = acc.get(roundNumber);
+  if (!metrics) acc.set(roundNumber, (metrics = new Map()));
+  const entry = metrics.get(metric) ?? { sum: 0, n: 0 };
+  entry.sum += value;
+  entry.n += 1;
+  metrics.set(metric, entry);
+}
+
+function merge(into: Accumulator, from: Accumulator): void {
+  for (const [roundNumber, metrics] of from) {
+    for (const [metric, { sum, n }] of metrics) {
+      let target = into.get(roundNumber);
+      if (!target) into.set(roundNumber, (target = new Map()));
+      const entry = target.get(metric) ?? { sum: 0, n: 0 };
+      entry.sum += sum;
+      entry.n += n;
+      target.set(metric, entry);
+    }
+  }
+}
+
+/**
+ * Means for one set of sums. A string-value metric counts its own actions,
+ * so its share is taken over every action recorded for that field.
+ */
+function toSummary(metrics: Map<string, { sum: number; n: number }>): Record<string, MetricSummary> {
+  const fieldTotals = new Map<string, number>();
+  for (const [metric, { n }] of metrics) {
+    const split = metric.indexOf(':');
+    if (split >= 0) fieldTotals.set(metric.slice(0, split), (fieldTotals.get(metric.slice(0, split)) ?? 0) + n);
+  }
+  return Object.fromEntries(
+    [...metrics].map(([metric, { sum, n }]) => {
+      const split = metric.indexOf(':');
+      const total = split >= 0 ? fieldTotals.get(metric.slice(0, split))! : n;
+      return [metric, { mean: round4(sum / total), n: total }];
+    })
+  );
+}
+
+function summarize(acc: Accumulator, players: number): ComparisonSummary {
+  const pooled = new Map<string, { sum: number; n: number }>();
+  const rounds: ComparisonRound[] = [];
+  for (const roundNumber of [...acc.keys()].sort((a, b) => a - b)) {
+    const metrics = acc.get(roundNumber)!;
+    rounds.push({ roundNumber, metrics: toSummary(metrics) });
+    for (const [metric, { sum, n }] of metrics) {
+      const entry = pooled.get(metric) ?? { sum: 0, n: 0 };
+      entry.sum += sum;
+      entry.n += n;
+      pooled.set(metric, entry);
+    }
+  }
+  return { players, completedRounds: rounds.length, metrics: toSummary(pooled), rounds };
+}
+
+/** Observations for one session's completed rounds */
+function accumulate(input: ComparisonSessionInput): Accumulator {
+  const acc: Accumulator = new Map();
+  const completed = new Map(
+    input.rounds.filter((r) => r.status === 'completed').map((r) => [r.id, r])
+  );
+
+  for (const round of completed.values()) {
+    // Make sure rounds with no activity still show up
+    if (!acc.has(round.round_number)) acc.set(round.round_number, new Map());
+    if (round.surplus) observe(acc, round.round_number, 'efficiency', round.surplus.efficiency);
+  }
+
+  for (const action of input.actions) {
+    const round = completed.get(action.round_id);
+    if (!round) continue;
+    for (const [field, value] of Object.entries(action.action_data ?? {})) {
+      if (IGNORED_ACTION_FIELDS.has(field)) continue;
+      const metric = `${action.action_type}.${field}`;
+      if (typeof value === 'number' && Number.isFinite(value)) observe(acc, round.round_number, metric, value);
+      else if (typeof value === 'boolean') observe(acc, round.round_number, metric, value ? 1 : 0);
+      else if (typeof value === 'string' && value !== '' && Number.isNaN(Number(value))) {
+        observe(acc, round.round_number, `${metric}:${value}`, 1);
+      }
+    }
+  }
+
+  if (DA_GAME_TYPES.includes(input.session.game_type)) {
+    const profits = new Map<string, number>();
+    for (const trade of input.trades) {
+      const round = completed.get(trade.round_id);
+      if (!round) continue;
+      observe(acc, round.round_number, 'trade.price', Number(trade.price));
+      for (const [playerId, profit] of [[trade.buyer_id, trade.buyer_profit], [trade.seller_id, trade.seller_profit]] as const) {
+        const key = `${round.round_number}:${playerId}`;
+        profits.set(key, (profits.get(key) ?? 0) + Number(profit));
+      }
+    }
+    // Traders who did not trade earned nothing that round
+    for (const round of completed.values()) {
+      for (const player of input.players) {
+        observe(acc, round.round_number, 'profit', profits.get(`${round.round_number}:${player.id}`) ?? 0);
+      }
+    }
+  } else {
+    for (const result of input.results) {
+      const round = completed.get(result.round_id);
+      if (round) observe(acc, round.round_number, 'profit', Number(result.profit));
+    }
+  }
+
+  return acc;
+}
+
+/**
+ * Compare sessions side by side and, when `groupBy` names a tag, pooled
+ * by that tag's value. Without `groupBy` everything forms one pooled group.
+ */
+export function compareSessions(inputs: ComparisonSessionInput[], groupBy: string | null = null): ComparisonResult {
+  const sessions: SessionComparison[] = [];
+  const groups = new Map<string, { acc: Accumulator; sessionIds: string[]; players: number }>();
+
+  for (const input of inputs) {
+    const acc = accumulate(input);
+    const tags = input.session.tags ?? {};
+    sessions.push({
+      id: input.session.id,
+      code: input.session.code,
+      gameType: input.session.game_type,
+      status: input.session.status,
+      tags,
+      createdAt: input.session.created_at,
+      ...summarize(acc, input.players.length),
+    });
+
+    const key = groupBy ? tags[groupBy] || 'untagged' : 'all';
+    const group = groups.get(key) ?? { acc: new Map(), sessionIds: [] as string[], players: 0 };
+    merge(group.acc, acc);
+    group.sessionIds.push(input.session.id);
+    group.players += input.players.length;
+    groups.set(key, group);
+  }
+
+  return {
+    groupBy,
+    gameTypes: [...new Set(inputs.map((i) => i.session.game_type))],
+    sessions,
+    groups: [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, { acc, sessionIds, players }]) => ({ key, sessionIds, ...summarize(acc, players) })),
+  };
+}
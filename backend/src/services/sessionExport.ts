@@ -0,0 +1,446 @@
+import type { Session, Player, Round, Trade, Bid, Ask, OrderHistoryEntry } from '../types';
+import type { GameAction } from '../models/GameAction';
+import type { GameResult } from '../models/GameResult';
+import type { RoundValue } from '../models/RoundValue';
+import type { RoundPairing } from '../models/RoundPairing';
+import type { SessionBenchmark } from './benchmarks';
+import { treatmentLabel } from './treatments';
+
+/**
+ * Research export formats. Everything here is pure: the export controller
+ * loads a session's rows once and these functions reshape them into
+ *   - a tidy long panel, one row per player-round, with every action and
+ *     result field flattened into its own column;
+ *   - an event log (order-book activity for DA games, actions otherwise);
+ *   - a codebook describing every column, plus Stata and R loaders;
+ *   - a full JSON bundle of the session.
+ * Column names are snake_case, at most 32 characters and start with a
+ * letter, so Stata and R import them unchanged.
+ */
+
+export interface SessionExportInput {
+  session: Session;
+  players: Player[];
+  rounds: Round[];
+  actions: GameAction[];
+  results: GameResult[];
+  trades: Trade[];
+  bids: OrderHistoryEntry<Bid>[];
+  asks: OrderHistoryEntry<Ask>[];
+  values: Array<RoundValue & { round_number: number }>;
+  pairings: Array<RoundPairing & { round_number: number }>;
+  benchmarks?: SessionBenchmark | null;
+}
+
+export type Cell = string | number | null;
+export type Row = Record<string, Cell>;
+
+export interface CodebookEntry {
+  file: string;
+  variable: string;
+  type: 'numeric' | 'string';
+  description: string;
+}
+
+/** Arrays longer than this stay in one JSON column instead of one column per element */
+const MAX_ARRAY_COLUMNS = 12;
+
+/** Result fields that repeat the panel's own identifier columns */
+const REDUNDANT_RESULT_KEYS = new Set(['playerId', 'playerName', 'role']);
+
+const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
+
+const PANEL_COLUMNS: Record<string, string> = {
+  session_code: 'Session join code',
+  game_type: 'Game type identifier',
+  round: 'Round number',
+  treatment: 'Treatment block the round belonged to (Baseline before the first scheduled change)',
+  player_id: 'Player identifier (stable across rounds)',
+  player_name: 'Display name the player joined with',
+  role: 'Role assigned to the player',
+  is_bot: '1 if the player was a bot, 0 if human',
+  profit: 'Profit earned this round',
+  cumulative_profit: 'Profit earned up to and including this round',
+  n_actions: 'Number of actions the player submitted this round',
+  trades: 'Units the player bought or sold this round',
+  avg_trade_price: 'Mean price of the player\'s trades this round',
+  bids_posted: 'Bids the player posted this round',
+  asks_posted: 'Asks the player posted this round',
+  orders_cancelled: 'Orders the player cancelled or replaced this round',
+  opponent_id: 'Player the participant was paired with this round',
+  mover: 'first or second mover in this round\'s pairing',
+};
+
+const EVENT_COLUMNS: Record<string, string> = {
+  round: 'Round number',
+  time: 'Server timestamp of the event (ISO 8601)',
+  event: 'Event type: <side>_posted, <side>_cancelled, <side>_replaced, <side>_expired, trade, or the action type',
+  player_id: 'Player who triggered the event (the buyer, for trades)',
+  counterparty_id: 'Other side of a trade (the seller)',
+  side: 'bid or ask, for order-book events',
+  unit: 'Unit number in the trader\'s schedule (1-based)',
+  price: 'Order or trade price; the action\'s price field where it has one',
+  details: 'Full action payload as JSON',
+};
+
+const PLAYER_COLUMNS: Record<string, string> = {
+  player_id: 'Player identifier',
+  player_name: 'Display name the player joined with',
+  role: 'Role assigned to the player',
+  is_bot: '1 if the player was a bot, 0 if human',
+  valuation: 'Assigned valuation (buyers, single-unit games)',
+  production_cost: 'Assigned production cost (sellers, single-unit games)',
+  total_profit: 'Total profit over the session',
+};
+
+/**
+ * Stata- and R-safe variable name from one or more key parts:
+ * camelCase becomes snake_case, anything else non-alphanumeric an underscore.
+ */
+export function variableName(...parts: string[]): string {
+  const name = parts
+    .join('_')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+  return (/^[a-z]/.test(name) ? name : `v_${name}`).slice(0, 32);
+}
+
+/**
+ * Flatten a JSON payload into scalar columns under `prefix`. Nested keys are
+ * joined with underscores, short arrays of scalars get one column per
+ * element (1-based), and booleans become 0/1.
+ */
+export function flatten(value: unknown, prefix: string, out: Row = {}): Row {
+  if (value === null || value === undefined) {
+    out[prefix] = null;
+  } else if (Array.isArray(value)) {
+    if (value.length > MAX_ARRAY_COLUMNS || value.some((v) => v !== null && typeof v === 'object')) {
+      out[prefix] = JSON.stringify(value);
+    } else {
+      value.forEach((v, i) => flatten(v, variableName(prefix, String(i + 1)), out));
+    }
+  } else if (typeof value === 'object') {
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      flatten(v, variableName(prefix, key), out);
+    }
+  } else if (typeof value === 'boolean') {
+    out[prefix] = value ? 1 : 0;
+  } else {
+    out[prefix] = value as string | number;
+  }
+  return out;
+}
+
+const iso = (date: Date | string | null | undefined) => (date ? new Date(date).toISOString() : null);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Tidy panel: one row per player-round for every completed round the player
+ * took part in (acted, received a result, held values or traded).
+ */
+export function panelRows(input: SessionExportInput): Row[] {
+  const { session, players } = input;
+  const isDA = DA_GAME_TYPES.includes(session.game_type);
+  const completed = input.rounds
+    .filter((r) => r.status === 'completed')
+    .sort((a, b) => a.round_number - b.round_number);
+
+  // Key everything by round id + player id
+  const key = (roundId: string, playerId: string) => `${roundId}:${playerId}`;
+  const group = <T>(items: T[], keysOf: (item: T) => string[]) => {
+    const map = new Map<string, T[]>();
+    for (const item of items) {
+      for (const k of keysOf(item)) {
+        const list = map.get(k);
+        if (list) list.push(item);
+        else map.set(k, [item]);
+      }
+    }
+    return map;
+  };
+  const actions = group(input.actions, (a) => [key(a.round_id, a.player_id)]);
+  const results = group(input.results, (r) => [key(r.round_id, r.player_id)]);
+  const trades = group(input.trades, (t) => [key(t.round_id, t.buyer_id), key(t.round_id, t.seller_id)]);
+  const values = group(input.values, (v) => [key(v.round_id, v.player_id)]);
+  const orders = group([...input.bids, ...input.asks], (o) => [key(o.round_id, o.player_id)]);
+  const pairings = group(input.pairings, (p) => [key(p.round_id, p.first_mover_id), key(p.round_id, p.second_mover_id)]);
+  const bidIds = new Set(input.bids.map((b) => b.id));
+
+  const cumulative = new Map<string, number>();
+  const rows: Row[] = [];
+  for (const round of completed) {
+    for (const player of players) {
+      const k = key(round.id, player.id);
+      const playerActions = actions.get(k) ?? [];
+      const playerResults = results.get(k) ?? [];
+      const playerTrades = trades.get(k) ?? [];
+      const playerValues = values.get(k) ?? [];
+      const playerOrders = orders.get(k) ?? [];
+      const pairing = pairings.get(k)?.[0];
+      if (!playerActions.length && !playerResults.length && !playerTrades.length && !playerValues.length && !playerOrders.length) {
+        continue;
+      }
+
+      const tradeProfit = playerTrades.reduce(
+        (sum, t) => sum + (t.buyer_id === player.id ? Number(t.buyer_profit) : 0) + (t.seller_id === player.id ? Number(t.seller_profit) : 0),
+        0
+      );
+      const profit = isDA ? tradeProfit : playerResults.reduce((sum, r) => sum + Number(r.profit), 0);
+      cumulative.set(player.id, (cumulative.get(player.id) ?? 0) + profit);
+
+      const row: Row = {
+        session_code: session.code,
+        game_type: session.game_type,
+        round: round.round_number,
+        treatment: treatmentLabel(session.treatments, round.round_number),
+        player_id: player.id,
+        player_name: player.name ?? null,
+        role: player.role,
+        is_bot: player.is_bot ? 1 : 0,
+        profit: round2(profit),
+        cumulative_profit: round2(cumulative.get(player.id)!),
+        n_actions: playerActions.length,
+      };
+
+      if (pairing) {
+        const first = pairing.first_mover_id === player.id;
+        row.opponent_id = first ? pairing.second_mover_id : pairing.first_mover_id;
+        row.mover = first ? 'first' : 'second';
+      }
+
+      if (isDA) {
+        row.trades = playerTrades.length;
+        row.avg_trade_price = playerTrades.length
+          ? round2(playerTrades.reduce((sum, t) => sum + Number(t.price), 0) / playerTrades.length)
+          : null;
+        row.bids_posted = playerOrders.filter((o) => bidIds.has(o.id)).length;
+        row.asks_posted = playerOrders.filter((o) => !bidIds.has(o.id)).length;
+        row.orders_cancelled = playerOrders.filter((o) => o.status === 'cancelled' || o.status === 'replaced').length;
+        playerValues[0]?.unit_values.forEach((v, i) => {
+          row[variableName('unit_value', String(i + 1))] = Number(v);
+        });
+      }
+
+      // Later actions of the same type overwrite earlier ones; n_actions keeps the count
+      for (const action of playerActions) {
+        flatten(action.action_data, variableName('act', action.action_type), row);
+      }
+      for (const result of playerResults) {
+        const fields = Object.fromEntries(
+          Object.entries(result.result_data ?? {}).filter(([k]) => !REDUNDANT_RESULT_KEYS.has(k))
+        );
+        flatten(fields, 'res', row);
+      }
+
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+/** One row per player with their session-level assignment and earnings */
+export function playerRows(input: SessionExportInput): Row[] {
+  return input.players.map((p) => ({
+    player_id: p.id,
+    player_name: p.name ?? null,
+    role: p.role,
+    is_bot: p.is_bot ? 1 : 0,
+    valuation: p.valuation != null ? Number(p.valuation) : null,
+    production_cost: p.production_cost != null ? Number(p.production_cost) : null,
+    total_profit: Number(p.total_profit),
+  }));
+}
+
+/**
+ * Event log in time order. DA games get the full order book: every order
+ * posted, how each one that did not fill was closed, and every trade.
+ * Other games get one event per submitted action.
+ */
+export function eventRows(input: SessionExportInput): Row[] {
+  const roundNumbers = new Map(input.rounds.map((r) => [r.id, r.round_number]));
+  const events: Array<Row & { sortTime: number }> = [];
+  const push = (time: Date | string, row: Row) =>
+    events.push({ ...row, time: iso(time), sortTime: new Date(time).getTime() });
+
+  if (DA_GAME_TYPES.includes(input.session.game_type)) {
+    const orders = [
+      ...input.bids.map((o) => ({ ...o, side: 'bid' })),
+      ...input.asks.map((o) => ({ ...o, side: 'ask' })),
+    ];
+    for (const o of orders) {
+      const base = { round: o.round_number, player_id: o.player_id, counterparty_id: null, side: o.side, unit: o.unit_number ?? 1, price: Number(o.price), details: null };
+      push(o.created_at, { ...base, event: `${o.side}_posted` });
+      if (o.closed_at && o.status && o.status !== 'filled' && o.status !== 'open') {
+        push(o.closed_at, { ...base, event: `${o.side}_${o.status}` });
+      }
+    }
+    for (const t of input.trades) {
+      push(t.created_at, {
+        round: roundNumbers.get(t.round_id) ?? null,
+        event: 'trade',
+        player_id: t.buyer_id,
+        counterparty_id: t.seller_id,
+        side: null,
+        unit: null,
+        price: Number(t.price),
+        details: JSON.stringify({ buyer_unit: t.buyer_unit ?? 1, seller_unit: t.seller_unit ?? 1 }),
+      });
+    }
+  } else {
+    for (const a of input.actions) {
+      const price = a.action_data?.price;
+      push(a.created_at, {
+        round: roundNumbers.get(a.round_id) ?? null,
+        event: a.action_type,
+        player_id: a.player_id,
+        counterparty_id: null,
+        side: null,
+        unit: null,
+        price: typeof price === 'number' ? price : null,
+        details: JSON.stringify(a.action_data ?? {}),
+      });
+    }
+  }
+
+  return events
+    .sort((a, b) => a.sortTime - b.sortTime)
+    .map(({ sortTime: _sortTime, ...row }) => ({
+      round: row.round,
+      time: row.time,
+      event: row.event,
+      player_id: row.player_id,
+      counterparty_id: row.counterparty_id,
+      side: row.side,
+      unit: row.unit,
+      price: row.price,
+      details: row.details,
+    }));
+}
+
+/** Escape a string for use inside a double-quoted CSV field.
+ *  Also neutralizes formula injection by prefixing dangerous leading characters. */
+export function csvEscape(value: string): string {
+  let escaped = value.replace(/"/g, '""');
+  // Prevent CSV/formula injection in spreadsheet applications
+  if (/^[=+\-@\t\r]/.test(escaped)) {
+    escaped = "'" + escaped;
+  }
+  return escaped;
+}
+
+/** Columns in first-seen order across all rows */
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) for (const column of Object.keys(row)) columns.add(column);
+  return [...columns];
+}
+
+/**
+ * CSV with the union of all rows' columns. Missing values are left empty,
+ * which Stata, R and pandas all read as missing.
+ */
+export function toCsv(rows: Row[], columns = columnsOf(rows)): string {
+  const cell = (value: Cell | undefined) =>
+    value === null || value === undefined ? '' : typeof value === 'number' ? String(value) : `"${csvEscape(value)}"`;
+  return [columns.join(','), ...rows.map((row) => columns.map((c) => cell(row[c])).join(','))].join('\n') + '\n';
+}
+
+function describe(column: string, known: Record<string, string>): string {
+  if (known[column]) return known[column];
+  const unit = column.match(/^unit_value_(\d+)$/);
+  if (unit) return `Value (buyers) or cost (sellers) of unit ${unit[1]} this round`;
+  if (column.startsWith('act_')) return `Action field ${column.slice(4)} (action type, then field path)`;
+  if (column.startsWith('res_')) return `Round result field ${column.slice(4)}`;
+  return column;
+}
+
+/** Codebook entries for every column of each exported table */
+export function codebook(tables: Array<{ file: string; rows: Row[]; known: Record<string, string> }>): CodebookEntry[] {
+  return tables.flatMap(({ file, rows, known }) =>
+    (rows.length ? columnsOf(rows) : Object.keys(known)).map((variable) => ({
+      file,
+      variable,
+      type: rows.every((r) => r[variable] == null || typeof r[variable] === 'number') ? ('numeric' as const) : ('string' as const),
+      description: describe(variable, known),
+    }))
+  );
+}
+
+/** Stata do-file that imports the panel, labels every variable and declares it a panel */
+export function stataLoader(entries: CodebookEntry[], file = 'panel.csv'): string {
+  const label = (text: string) => text.replace(/"/g, "'").slice(0, 80);
+  return [
+    `import delimited using "${file}", varnames(1) case(preserve) clear`,
+    ...entries.filter((e) => e.file === file).map((e) => `label variable ${e.variable} "${label(e.description)}"`),
+    'encode player_id, generate(pid)',
+    'xtset pid round',
+    '',
+  ].join('\n');
+}
+
+/** R script that reads the panel and attaches the codebook descriptions as variable labels */
+export function rLoader(file = 'panel.csv'): string {
+  return [
+    `panel <- read.csv("${file}", stringsAsFactors = FALSE)`,
+    'codebook <- read.csv("codebook.csv", stringsAsFactors = FALSE)',
+    `labels <- codebook[codebook$file == "${file}", ]`,
+    'for (i in seq_len(nrow(labels))) {',
+    '  v <- labels$variable[i]',
+    '  if (v %in% names(panel)) attr(panel[[v]], "label") <- labels$description[i]',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Everything recorded for a session in one JSON document: config, players,
+ * rounds, every action, result, order and trade, plus the benchmarks.
+ * Rows keep their database field names; secrets are left out.
+ */
+export function sessionBundle(input: SessionExportInput) {
+  const { passcode: _passcode, admin_password: _adminPassword, ...session } = input.session;
+  return {
+    exportedAt: new Date().toISOString(),
+    session,
+    players: input.players,
+    rounds: input.rounds,
+    actions: input.actions,
+    results: input.results,
+    trades: input.trades,
+    orders: [
+      ...input.bids.map((o) => ({ ...o, side: 'bid' })),
+      ...input.asks.map((o) => ({ ...o, side: 'ask' })),
+    ],
+    values: input.values,
+    pairings: input.pairings,
+    benchmarks: input.benchmarks ?? null,
+  };
+}
+
+/** Files in the zip download: panel, events and players CSVs, codebook, JSON bundle and loaders */
+export function archiveFiles(input: SessionExportInput): Array<{ name: string; data: string }> {
+  const panel = panelRows(input);
+  const events = eventRows(input);
+  const players = playerRows(input);
+  const entries = codebook([
+    { file: 'panel.csv', rows: panel, known: PANEL_COLUMNS },
+    { file: 'events.csv', rows: events, known: EVENT_COLUMNS },
+    { file: 'players.csv', rows: players, known: PLAYER_COLUMNS },
+  ]);
+  const codebookRows: Row[] = entries.map((e) => ({ ...e }));
+
+  return [
+    { name: 'panel.csv', data: toCsv(panel) },
+    { name: 'events.csv', data: toCsv(events, Object.keys(EVENT_COLUMNS)) },
+    { name: 'players.csv', data: toCsv(players, Object.keys(PLAYER_COLUMNS)) },
+    { name: 'codebook.csv', data: toCsv(codebookRows, ['file', 'variable', 'type', 'description']) },
+    { name: 'session.json', data: JSON.stringify(sessionBundle(input), null, 2) },
+    { name: 'load_panel.do', data: stataLoader(entries) },
+    { name: 'load_panel.R', data: rLoader() },
+  ];
+}
@@ -0,0 +1,148 @@
+import { PlayerModel } from '../models/Player';
+import { RoundModel } from '../models/Round';
+import { TradeModel } from '../models/Trade';
+import { GameResultModel } from '../models/GameResult';
+import { GameActionModel } from '../models/GameAction';
+import { RoundPairingModel } from '../models/RoundPairing';
+import { RoundValueModel } from '../models/RoundValue';
+import { computeBenchmarks } from './benchmarks';
+import { treatmentLabel } from './treatments';
+import type { Session } from '../types';
+
+/**
+ * A session's results as the results endpoint returns them: every round's
+ * trades (DA games) or actions, results and pairings, each player's totals,
+ * the equilibrium benchmarks and summary stats. Session previews return the
+ * same shape, so one chart can draw either.
+ */
+
+const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
+
+export type SessionResults = Awaited<ReturnType<typeof loadSessionResults>>;
+
+/** Load a session's rows and shape them for the results endpoint */
+export async function loadSessionResults(session: Session) {
+  const [players, rounds] = await Promise.all([
+    PlayerModel.findBySession(session.id),
+    RoundModel.findBySession(session.id),
+  ]);
+
+  const isDA = DA_GAME_TYPES.includes(session.game_type);
+
+  // Build per-round data
+  const roundResults = await Promise.all(
+    rounds.map(async (round) => {
+      if (isDA) {
+        const [trades, values] = await Promise.all([
+          TradeModel.findByRound(round.id),
+          RoundValueModel.findByRound(round.id),
+        ]);
+        return {
+          roundNumber: round.round_number,
+          roundId: round.id,
+          treatment: treatmentLabel(session.treatments, round.round_number),
+          status: round.status,
+          startedAt: round.started_at,
+          endedAt: round.ended_at,
+          surplus: round.surplus ?? null,
+          trades: trades.map((t) => ({
+            price: Number(t.price),
+            buyerId: t.buyer_id,
+            sellerId: t.seller_id,
+            buyerProfit: Number(t.buyer_profit),
+            sellerProfit: Number(t.seller_profit),
+            buyerUnit: t.buyer_unit ?? 1,
+            sellerUnit: t.seller_unit ?? 1,
+            time: t.created_at,
+          })),
+          // Valuations/costs in force this round (after redraws and shocks)
+          values: values.map((v) => ({
+            playerId: v.player_id,
+            role: v.role,
+            unitValues: v.unit_values.map(Number),
+          })),
+        };
+      } else {
+        const [results, actions, pairings] = await Promise.all([
+          GameResultModel.findByRound(round.id),
+          GameActionModel.findByRound(round.id),
+          RoundPairingModel.findByRound(round.id),
+        ]);
+        return {
+          roundNumber: round.round_number,
+          roundId: round.id,
+          treatment: treatmentLabel(session.treatments, round.round_number),
+          status: round.status,
+          startedAt: round.started_at,
+          endedAt: round.ended_at,
+          surplus: round.surplus ?? null,
+          actions: actions.map((a) => ({
+            playerId: a.player_id,
+            actionType: a.action_type,
+            actionData: a.action_data,
+            time: a.created_at,
+          })),
+          results: results.map((r) => ({
+            playerId: r.player_id,
+            profit: Number(r.profit),
+            resultData: r.result_data,
+          })),
+          // Who played whom this round (sequential games only)
+          pairings: pairings.map((pr) => ({
+            firstMoverId: pr.first_mover_id,
+            secondMoverId: pr.second_mover_id,
+            matching: pr.matching,
+          })),
+        };
+      }
+    })
+  );
+
+  // Player summary
+  const playerSummary = players.map((p) => ({
+    id: p.id,
+    name: p.name,
+    role: p.role,
+    valuation: p.valuation != null ? Number(p.valuation) : null,
+    productionCost: p.production_cost != null ? Number(p.production_cost) : null,
+    totalProfit: Number(p.total_profit),
+    isBot: p.is_bot,
+  }));
+
+  // Equilibrium predictions to compare outcomes against
+  const benchmarks = computeBenchmarks({
+    gameType: session.game_type,
+    config: session.game_config || {},
+    players,
+    roundValues: isDA ? await RoundValueModel.findBySession(session.id) : undefined,
+  });
+
+  // Calculate aggregate stats (Number() wrap needed — pg returns DECIMAL as string)
+  const profits = players.map((p) => Number(p.total_profit));
+  const avgProfit = profits.length > 0 ? profits.reduce((a, b) => a + b, 0) / profits.length : 0;
+  const maxProfit = profits.length > 0 ? Math.max(...profits) : 0;
+  const minProfit = profits.length > 0 ? Math.min(...profits) : 0;
+
+  return {
+    session: {
+      id: session.id,
+      code: session.code,
+      gameType: session.game_type,
+      gameConfig: session.game_config,
+      treatments: session.treatments ?? [],
+      numRounds: session.num_rounds,
+      status: session.status,
+      marketSize: session.market_size,
+    },
+    players: playerSummary,
+    rounds: roundResults,
+    benchmarks,
+    stats: {
+      totalPlayers: players.length,
+      completedRounds: rounds.filter((r) => r.status === 'completed').length,
+      avgProfit: parseFloat(avgProfit.toFixed(2)),
+      maxProfit: parseFloat(maxProfit.toFixed(2)),
+      minProfit: parseFloat(minProfit.toFixed(2)),
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Session tags: short labels an instructor attaches to a session so runs of
+ * the same game can be found and compared across sections and semesters.
+ * The suggested keys are offered in the UI; any other lowercase key works.
+ */
+
+export const SUGGESTED_TAG_KEYS = ['course', 'section', 'semester', 'treatment'];
+
+const MAX_TAGS = 10;
+const MAX_VALUE_LENGTH = 64;
+const TAG_KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+
+export type TagValidation =
+  | { valid: true; tags: Record<string, string> }
+  | { valid: false; error: string };
+
+/**
+ * Validate and tidy a tag object: keys are lowercased, values trimmed, and
+ * empty values dropped so clearing a field removes the tag.
+ */
+export function normalizeTags(input: unknown): TagValidation {
+  if (input === undefined || input === null) return { valid: true, tags: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, error: 'tags must be an object of key/value strings' };
+  }
+
+  const tags: Record<string, string> = {};
+  for (const [rawKey, rawValue] of Object.entries(input as Record<string, unknown>)) {
+    const key = rawKey.trim().toLowerCase();
+    if (!TAG_KEY_PATTERN.test(key)) {
+      return { valid: false, error: `Invalid tag name "${rawKey}": use letters, digits and underscores` };
+    }
+    if (rawValue === null || rawValue === undefined) continue;
+    if (typeof rawValue !== 'string' && typeof rawValue !== 'number') {
+      return { valid: false, error: `Tag "${key}" must be text` };
+    }
+    const value = String(rawValue).trim();
+    if (value.length > MAX_VALUE_LENGTH) {
+      return { valid: false, error: `Tag "${key}" must be at most ${MAX_VALUE_LENGTH} characters` };
+    }
+    if (value) tags[key] = value;
+  }
+
+  if (Object.keys(tags).length > MAX_TAGS) {
+    return { valid: false, error: `A session can have at most ${MAX_TAGS} tags` };
+  }
+  return { valid: true, tags };
+}
@@ -0,0 +1,138 @@
+import type { Server } from 'socket.io';
+import { randomUUID } from 'crypto';
+import { SessionModel } from '../models/Session';
+import { RoundModel } from '../models/Round';
+import { PlayerModel } from '../models/Player';
+import { GameRegistry } from '../engines';
+import type { GameEngine } from '../engines/GameEngine';
+import { BotService } from './BotService';
+import { BotStrategyRegistry } from './botStrategies';
+import { RoundClock } from './RoundClock';
+import { configForRound } from './treatments';
+import { loadSessionResults, type SessionResults } from './sessionResults';
+import type { CreateSessionRequest, Round, Session } from '../types';
+
+/**
+ * Bot-only simulations, to preview what a configuration is likely to
+ * produce before class.
+ *
+ * A simulation is a real session, so the engine, the bots and the results
+ * loader all run unchanged, but every seat is a bot, nobody can join it and
+ * it is deleted once its results are read. It belongs to the instructor who
+ * asked for it and is marked as a simulation, so if the server dies midway
+ * it is not resumed as a class (startup deletes it later). Each round runs
+ * on simulated time (see RoundClock.simulate): bot think time, engine phases
+ * and the round length all pass as fast as the actions can be processed,
+ * and nothing is broadcast.
+ */
+
+// Engines driven by their own real-time loop, which simulated time can't speed up
+const REAL_TIME_GAME_TYPES = new Set(['discovery_process']);
+
+// A preview runs on the request path, sharing the event loop with live
+// sessions, so it is kept to the size of a class
+export const MAX_SIMULATED_ROUNDS = 20;
+export const MAX_SIMULATED_PLAYERS = 40;
+
+// Stand-in for the socket server: a simulation has no audience
+const silentRoom = { emit: () => true };
+const silentIo = {
+  to: () => silentRoom,
+  in: () => ({ ...silentRoom, fetchSockets: async () => [] }),
+  emit: () => true,
+  sockets: { adapter: { rooms: new Map() }, sockets: new Map() },
+} as unknown as Server;
+
+/** Why a game type can't be simulated, or null if it can */
+export function cannotSimulate(gameType: string): string | null {
+  if (REAL_TIME_GAME_TYPES.has(gameType)) {
+    return `${gameType} runs in real time and can't be simulated`;
+  }
+  if (!BotStrategyRegistry.get(gameType)) {
+    return `There are no bots for ${gameType}`;
+  }
+  return null;
+}
+
+/** Why a session request is too big to preview, or null if it isn't */
+export function exceedsPreviewLimits(request: CreateSessionRequest): string | null {
+  if (request.num_rounds > MAX_SIMULATED_ROUNDS) {
+    return `Previews run at most ${MAX_SIMULATED_ROUNDS} rounds`;
+  }
+  if (request.market_size > MAX_SIMULATED_PLAYERS) {
+    return `Previews seat at most ${MAX_SIMULATED_PLAYERS} players`;
+  }
+  return null;
+}
+
+/**
+ * Play a validated session request through with bots in every seat and
+ * return its results, in the same shape as the results endpoint.
+ */
+export async function simulateSession(request: CreateSessionRequest, ownerId: string): Promise<SessionResults> {
+  const session = await SessionModel.create({
+    ...request,
+    bot_enabled: true,
+    auto_advance: false,
+    // Nobody knows the passcode, so nobody can join
+    passcode: randomUUID(),
+    owner_id: ownerId,
+  }, true);
+
+  try {
+    const rounds: Round[] = [];
+    for (let i = 1; i <= session.num_rounds; i++) {
+      rounds.push(await RoundModel.create(session.id, i));
+    }
+
+    await SessionModel.start(session.id);
+    await BotService.getInstance().createBotsForSession(session);
+
+    const engine = GameRegistry.get(session.game_type);
+    for (const round of rounds) {
+      await playRound(session, round, engine);
+      // Let live sessions' events in between rounds
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const ended = await SessionModel.end(session.id);
+    return await loadSessionResults(ended);
+  } finally {
+    await SessionModel.delete(session.id);
+  }
+}
+
+/**
+ * Start a round, let the bots play it out on simulated time and end it,
+ * as the socket handler's start-round and round-end timer would.
+ */
+async function playRound(session: Session, round: Round, engine: GameEngine): Promise<void> {
+  const clock = RoundClock.getInstance();
+  const bots = BotService.getInstance();
+
+  await RoundModel.start(round.id);
+  await SessionModel.updateCurrentRound(session.id, round.round_number);
+  clock.simulate(round.id);
+
+  try {
+    if (round.round_number === 1) {
+      const players = await PlayerModel.findActiveBySession(session.id);
+      await engine.setupPlayers(session.id, players.length, configForRound(session, 1));
+    }
+
+    if (engine.onRoundStart) {
+      await engine.onRoundStart(round.id, session.code, silentIo);
+    }
+    await bots.onRoundStart(round.id, session.code, session, silentIo);
+    await clock.fastForward(round.id, session.time_per_round * 1000);
+
+    // Bots stop before the round closes, as when its timer runs out
+    bots.onRoundEnd(round.id);
+    if (await RoundModel.end(round.id)) {
+      await engine.processRoundEnd(round.id, session.code, silentIo);
+    }
+  } finally {
+    bots.onRoundEnd(round.id);
+    clock.clear(round.id);
+  }
+}
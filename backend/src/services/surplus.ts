@@ -0,0 +1,133 @@
+import { SurplusAccounting } from '../types';
+
+/**
+ * Allocative efficiency and surplus accounting for market rounds.
+ *
+ * A market is described as steps on its demand and supply curves — one per
+ * trader unit (or generator block) — each with how much of it actually
+ * traded. The efficient allocation trades the highest values against the
+ * lowest costs while value covers cost; the gap between that maximum and
+ * the realized surplus is split, at the competitive price P*, into
+ *   missed trades:  intra-marginal units that did not trade
+ *                   (v − P* for buyers, P* − c for sellers)
+ *   extra-marginal: units outside the efficient set that traded anyway
+ *                   (P* − v for buyers, c − P* for sellers)
+ * which add up exactly to the lost surplus.
+ */
+
+export interface MarketStep {
+  /** Buyer value or seller cost per unit */
+  value: number;
+  /** Units on this step (defaults to 1) */
+  quantity?: number;
+  /** Units of this step that actually traded */
+  traded: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+interface Allocated extends MarketStep {
+  quantity: number;
+  efficient: number;
+}
+
+/**
+ * Sort a side of the market best-first and mark how much of each step the
+ * efficient allocation uses. Ties put steps that traded first, so a tie at
+ * the margin is not counted as a missed trade plus an extra-marginal one.
+ */
+function rank(steps: MarketStep[], direction: 1 | -1): Allocated[] {
+  return steps
+    .map((s) => ({ ...s, quantity: s.quantity ?? 1, efficient: 0 }))
+    .sort((a, b) => direction * (a.value - b.value) || b.traded - a.traded);
+}
+
+export function surplusAccounting(buyers: MarketStep[], sellers: MarketStep[]): SurplusAccounting {
+  const demand = rank(buyers, -1);
+  const supply = rank(sellers, 1);
+
+  // Walk both curves, matching quantity while value covers cost
+  let i = 0;
+  let j = 0;
+  let efficientQuantity = 0;
+  let marginal: { value: number; cost: number } | null = null;
+  while (i < demand.length && j < supply.length && demand[i].value >= supply[j].value) {
+    const q = Math.min(demand[i].quantity - demand[i].efficient, supply[j].quantity - supply[j].efficient);
+    demand[i].efficient += q;
+    supply[j].efficient += q;
+    efficientQuantity += q;
+    marginal = { value: demand[i].value, cost: supply[j].value };
+    if (demand[i].efficient >= demand[i].quantity) i++;
+    if (supply[j].efficient >= supply[j].quantity) j++;
+  }
+
+  // Midpoint of the clearing range: between the marginal pair and the first units left out
+  let competitivePrice: number | null = null;
+  if (marginal) {
+    const low = Math.max(marginal.cost, demand[i]?.value ?? -Infinity);
+    const high = Math.min(marginal.value, supply[j]?.value ?? Infinity);
+    competitivePrice = (low + high) / 2;
+  }
+  const p = competitivePrice ?? 0;
+
+  let maxSurplus = 0;
+  let realizedSurplus = 0;
+  let missedTradeLoss = 0;
+  let extraMarginalLoss = 0;
+  const account = (steps: Allocated[], sign: 1 | -1) => {
+    for (const s of steps) {
+      maxSurplus += sign * s.value * s.efficient;
+      realizedSurplus += sign * s.value * s.traded;
+      // Gain per unit relative to trading at P*; both terms come out non-negative
+      const gain = sign * (s.value - p);
+      const gap = s.efficient - s.traded;
+      if (gap > 0) missedTradeLoss += gain * gap;
+      else if (gap < 0) extraMarginalLoss += gain * gap;
+    }
+  };
+  account(demand, 1);
+  account(supply, -1);
+
+  const tradedQuantity = demand.reduce((sum, s) => sum + s.traded, 0);
+  const lostSurplus = maxSurplus - realizedSurplus;
+
+  return {
+    realizedSurplus: round2(realizedSurplus),
+    maxSurplus: round2(maxSurplus),
+    efficiency: maxSurplus > 0 ? round2((realizedSurplus / maxSurplus) * 100) : 100,
+    lostSurplus: round2(lostSurplus),
+    missedTradeLoss: round2(missedTradeLoss),
+    extraMarginalLoss: round2(extraMarginalLoss),
+    tradedQuantity: round2(tradedQuantity),
+    efficientQuantity: round2(efficientQuantity),
+    competitivePrice: competitivePrice !== null ? round2(competitivePrice) : null,
+  };
+}
+
+/**
+ * One side of a market from engine result rows: each row with the given
+ * role is a single-unit step valued by `valueKey`, traded when `tradedKey`
+ * is set.
+ */
+export function stepsFromResults(
+  results: Array<{ resultData: Record<string, any> }>,
+  role: string,
+  valueKey: string,
+  tradedKey: string
+): MarketStep[] {
+  return results
+    .filter((r) => r.resultData?.role === role)
+    .map((r) => ({ value: Number(r.resultData[valueKey] ?? 0), traded: r.resultData[tradedKey] ? 1 : 0 }));
+}
+
+/**
+ * Procurement markets (fixed demand bought from competing sellers) have no
+ * buyer values. The demand is valued at the most expensive unit on offer,
+ * so least-cost supply scores 100% and any extra cost is lost surplus,
+ * split between cheaper units left idle and dearer units used instead.
+ */
+export function procurementAccounting(demand: number, sellers: MarketStep[]): SurplusAccounting {
+  const traded = sellers.reduce((sum, s) => sum + s.traded, 0);
+  const topCost = sellers.reduce((max, s) => Math.max(max, s.value), 0);
+  return surplusAccounting([{ value: topCost, quantity: demand, traded }], sellers);
+}
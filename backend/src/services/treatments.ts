@@ -0,0 +1,170 @@
+import type { Session, TreatmentBlock } from '../types';
+import type { ValidationResult } from '../engines/GameEngine';
+
+/**
+ * Treatment blocks: scheduled game_config changes within one session, so a
+ * class sees e.g. rounds 1–5 without a tax and rounds 6–10 with one.
+ *
+ * Each block starts at a round and runs until the next block starts (or the
+ * session ends). Its overrides are applied on top of the session's base
+ * game_config — blocks do not stack on each other. Rounds before the first
+ * block play the base config as the baseline.
+ *
+ * Live changes made from the monitor during class are recorded the same way:
+ * as a block starting at the next round, so results and exports label them
+ * like any planned treatment.
+ */
+
+export const BASELINE_LABEL = 'Baseline';
+
+const MAX_LABEL_LENGTH = 40;
+
+/** Session-wide settings a block cannot change (the round count is adjusted separately) */
+const SESSION_LEVEL_KEYS = new Set(['num_rounds', 'market_size', 'time_per_round']);
+
+/** Upper bound on a session's length when rounds are added live */
+export const MAX_ROUNDS = 100;
+
+export type TreatmentValidation =
+  | { valid: true; treatments: TreatmentBlock[] }
+  | { valid: false; error: string };
+
+/** The block in effect for a round, or null during the baseline */
+export function treatmentForRound(
+  treatments: TreatmentBlock[] | null | undefined,
+  roundNumber: number
+): TreatmentBlock | null {
+  let current: TreatmentBlock | null = null;
+  for (const block of treatments ?? []) {
+    if (block.startRound <= roundNumber && (!current || block.startRound > current.startRound)) {
+      current = block;
+    }
+  }
+  return current;
+}
+
+/** Display label for a round's treatment */
+export function treatmentLabel(
+  treatments: TreatmentBlock[] | null | undefined,
+  roundNumber: number
+): string {
+  return treatmentForRound(treatments, roundNumber)?.label ?? BASELINE_LABEL;
+}
+
+/** The game_config engines should use for a round */
+export function configForRound(
+  session: { game_config?: Session['game_config']; treatments?: TreatmentBlock[] | null },
+  roundNumber: number
+): Record<string, any> {
+  const base = session.game_config || {};
+  const block = treatmentForRound(session.treatments, roundNumber);
+  return block ? { ...base, ...block.overrides } : base;
+}
+
+/**
+ * Validate a schedule submitted with a new session: labels are trimmed,
+ * start rounds must fall within the session and be distinct, and blocks are
+ * returned sorted by start round.
+ */
+export function normalizeTreatments(input: unknown, numRounds: number): TreatmentValidation {
+  if (input === undefined || input === null) return { valid: true, treatments: [] };
+  if (!Array.isArray(input)) {
+    return { valid: false, error: 'treatments must be a list of blocks' };
+  }
+
+  const treatments: TreatmentBlock[] = [];
+  for (const [i, raw] of input.entries()) {
+    if (!raw || typeof raw !== 'object') {
+      return { valid: false, error: `Treatment ${i + 1} must be an object` };
+    }
+    const { label, startRound, overrides } = raw as Record<string, unknown>;
+
+    const name = typeof label === 'string' ? label.trim() : '';
+    if (!name || name.length > MAX_LABEL_LENGTH) {
+      return { valid: false, error: `Treatment ${i + 1} needs a label of at most ${MAX_LABEL_LENGTH} characters` };
+    }
+    const start = Number(startRound);
+    if (!Number.isInteger(start) || start < 1 || start > numRounds) {
+      return { valid: false, error: `Treatment "${name}" must start between round 1 and ${numRounds}` };
+    }
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      return { valid: false, error: `Treatment "${name}" overrides must be an object` };
+    }
+    const fixed = Object.keys(overrides).find((key) => SESSION_LEVEL_KEYS.has(key));
+    if (fixed) {
+      return { valid: false, error: `Treatment "${name}" cannot change ${fixed}` };
+    }
+    if (treatments.some((t) => t.startRound === start)) {
+      return { valid: false, error: `Two treatments start in round ${start}` };
+    }
+    treatments.push({ label: name, startRound: start, overrides: overrides as Record<string, any> });
+  }
+
+  return { valid: true, treatments: treatments.sort((a, b) => a.startRound - b.startRound) };
+}
+
+export interface LiveChange {
+  /** Settings to change from `fromRound` on */
+  config?: Record<string, unknown>;
+  /** Rounds to add (positive) or remove from the end (negative) */
+  roundDelta?: number;
+  label?: string;
+}
+
+export type LiveChangeResult =
+  | { valid: true; treatments: TreatmentBlock[]; numRounds: number; block: TreatmentBlock | null }
+  | { valid: false; error: string };
+
+/**
+ * Apply an instructor's mid-session change. Config changes become a block
+ * starting at `fromRound` that keeps whatever the block then in force
+ * already overrode; planned blocks further on still start as scheduled.
+ * Rounds can only be removed while they have not been played, and blocks
+ * left beyond the new last round are dropped. `validateConfig` is the
+ * engine's check, run on each upcoming block's resolved config.
+ */
+export function applyLiveChange(
+  session: Pick<Session, 'game_config' | 'treatments' | 'num_rounds'>,
+  change: LiveChange,
+  fromRound: number,
+  validateConfig: (config: Record<string, any>) => ValidationResult
+): LiveChangeResult {
+  const delta = change.roundDelta ?? 0;
+  if (!Number.isInteger(delta)) return { valid: false, error: 'Rounds to add or remove must be a whole number' };
+  const numRounds = session.num_rounds + delta;
+  if (numRounds < Math.max(1, fromRound - 1)) {
+    return { valid: false, error: `Rounds 1–${fromRound - 1} have already started and cannot be removed` };
+  }
+  if (numRounds > MAX_ROUNDS) return { valid: false, error: `A session can have at most ${MAX_ROUNDS} rounds` };
+
+  const config = change.config ?? {};
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    return { valid: false, error: 'config must be an object of settings' };
+  }
+  const fixed = Object.keys(config).find((key) => SESSION_LEVEL_KEYS.has(key));
+  if (fixed) return { valid: false, error: `${fixed} cannot be changed mid-session` };
+
+  let treatments = (session.treatments ?? []).filter((t) => t.startRound <= numRounds);
+  let block: TreatmentBlock | null = null;
+  if (Object.keys(config).length > 0) {
+    if (fromRound > numRounds) return { valid: false, error: 'There are no upcoming rounds to change' };
+    const label = (change.label ?? '').trim() || `Change from round ${fromRound}`;
+    if (label.length > MAX_LABEL_LENGTH) {
+      return { valid: false, error: `Label must be at most ${MAX_LABEL_LENGTH} characters` };
+    }
+    const current = treatmentForRound(treatments, fromRound);
+    block = { label, startRound: fromRound, overrides: { ...current?.overrides, ...config } };
+    treatments = [...treatments.filter((t) => t.startRound !== fromRound), block].sort(
+      (a, b) => a.startRound - b.startRound
+    );
+  }
+
+  for (const upcoming of treatments.filter((t) => t.startRound >= fromRound)) {
+    const validation = validateConfig(configForRound({ game_config: session.game_config, treatments }, upcoming.startRound));
+    if (!validation.valid) {
+      return { valid: false, error: `${upcoming.label}: ${validation.error || 'invalid game configuration'}` };
+    }
+  }
+
+  return { valid: true, treatments, numRounds, block };
+}
@@ -1,17 +1,84 @@
 import { Server as HTTPServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import bcrypt from 'bcryptjs';
+import { randomUUID } from 'crypto';
 import { RoundModel } from '../models/Round';
 import { TradeModel } from '../models/Trade';
 import { SessionModel } from '../models/Session';
 import { PlayerModel } from '../models/Player';
 import { GameRegistry } from '../engines/GameRegistry';
 import { BotService } from '../services/BotService';
+import { ClusterLeader } from '../services/ClusterLeader';
+import { acquireLock, deleteCache, getCache, setCache } from '../config/redis';
+import { RoundClock, type RoundTimer } from '../services/RoundClock';
+import { applyLiveChange, configForRound } from '../services/treatments';
+import { JoinRequestModel } from '../models/JoinRequest';
+import { seatLateJoiner } from '../services/seating';
+import { PresenceService, validateAbsentPolicy } from '../services/PresenceService';
+import { issuedBefore, verifyPlayerToken } from '../middleware/playerAuth';
+import { verifyInstructorToken } from '../middleware/instructorAuth';
+import type { AbsentPolicy, Round, RoundClockEvent, Session } from '../types';
 
 // Delay between round end and auto-starting the next round (milliseconds)
 const AUTO_ADVANCE_DELAY_MS = 5000;
 
-export function setupSocketHandlers(httpServer: HTTPServer) {
+// Most time the instructor can add to a round at once (seconds)
+const MAX_ADDED_SECONDS = 600;
+
+// Clock scope holding a session's auto-advance countdown, paused with the session
+const advanceScope = (sessionCode: string) => `advance-${sessionCode}`;
+
+// Longest a round end may take before another instance may try it (milliseconds)
+const ROUND_END_LOCK_MS = 60_000;
+
+// How long instances share a session's game type (seconds)
+const GAME_TYPE_CACHE_SECONDS = 24 * 60 * 60;
+
+const gameTypeKey = (sessionCode: string) => `session:${sessionCode}:game_type`;
+
+// Client events that touch round state, timers or bots. With several
+// instances they run on the leader, whichever instance holds the socket.
+const LEADER_EVENTS = new Set([
+  'submit-action', 'submit-bid', 'submit-ask', 'get-game-state', 'sync-round-clock',
+  'start-round', 'end-round', 'pause-round', 'resume-round', 'add-time',
+  'set-auto-advance', 'update-session-config', 'approve-late-join',
+]);
+
+// A client event handed to the leader, with what the socket had authenticated as.
+// A client ack stays with the socket's instance and is called through `ackId`.
+interface SocketCommand {
+  socketId: string;
+  data: Socket['data'];
+  event: string;
+  args: unknown[];
+  ackId?: string;
+}
+
+// Socket.io server-side event carrying the leader's reply to a forwarded ack
+const ACK_EVENT = 'socket-ack';
+
+// How long a forwarded ack waits for the leader before it is dropped (milliseconds)
+const FORWARDED_ACK_MS = 30_000;
+
+// Reply to a submit-action ack
+interface ActionAck {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Arm the server-side timer that ends a round, optionally with only
+ * `remainingMs` left (e.g. after a restart)
+ */
+export type RoundEndScheduler = (
+  roundId: string,
+  sessionCode: string,
+  session: Session,
+  gameType: string,
+  remainingMs?: number
+) => void;
+
+export function setupSocketHandlers(httpServer: HTTPServer): { io: Server; scheduleRoundEnd: RoundEndScheduler } {
   const allowedOrigins = [
     'http://localhost:5173',
     process.env.FRONTEND_URL,
@@ -27,24 +94,44 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
     },
   });
 
-  // Cache session game types to avoid repeated DB lookups
+  // Cache session game types to avoid repeated DB lookups (shared through
+  // Redis when it is there)
   const sessionGameTypeCache: Map<string, string> = new Map();
 
-  // Cache verified admin sessions to avoid DB lookups on every timer tick (~1/sec)
-  const adminAuthCache: Map<string, { adminPassword: string | undefined }> = new Map();
+  const leader = ClusterLeader.getInstance();
 
-  // Guard against concurrent end-round processing (timer + manual click race)
-  const endingRounds = new Set<string>();
+  // Round timers run on the shared clock so pausing a round stops them all
+  const clock = RoundClock.getInstance();
 
   // Server-side round timers: auto-end rounds when time expires
-  const roundEndTimers: Map<string, NodeJS.Timeout> = new Map();
+  const roundEndTimers: Map<string, RoundTimer> = new Map();
 
   // Auto-advance timers: auto-start next round after a delay
-  const autoAdvanceTimers: Map<string, NodeJS.Timeout> = new Map();
+  const autoAdvanceTimers: Map<string, RoundTimer> = new Map();
+
+  // Rounds whose clock is broadcast to clients, with their session and game
+  const clockedRounds: Map<string, { sessionCode: string; gameType: string }> = new Map();
+
+  // Rounds with a round-clock broadcast already queued for this turn
+  const pendingClockBroadcasts = new Set<string>();
+
+  // A phase ending usually clears one deadline and sets the next, so batch
+  // the changes and broadcast once the engine has settled
+  clock.onDeadlineChange((scope) => {
+    if (!clockedRounds.has(scope) || pendingClockBroadcasts.has(scope)) return;
+    pendingClockBroadcasts.add(scope);
+    setTimeout(() => {
+      pendingClockBroadcasts.delete(scope);
+      broadcastRoundClock(scope);
+    }, 0);
+  });
 
   async function getSessionGameType(sessionCode: string): Promise<string> {
-    const cached = sessionGameTypeCache.get(sessionCode);
-    if (cached) return cached;
+    const cached = sessionGameTypeCache.get(sessionCode) ?? await getCache(gameTypeKey(sessionCode));
+    if (cached) {
+      sessionGameTypeCache.set(sessionCode, cached);
+      return cached;
+    }
 
     const session = await SessionModel.findByCode(sessionCode);
     if (!session) {
@@ -53,13 +140,15 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
     }
     const gameType = session.game_type || 'double_auction';
     sessionGameTypeCache.set(sessionCode, gameType);
+    await setCache(gameTypeKey(sessionCode), gameType, GAME_TYPE_CACHE_SECONDS);
     return gameType;
   }
 
   /**
    * Verify that the caller is authorized to perform admin actions on a session.
-   * If the session has an admin_password set, the provided password must match.
-   * If no admin_password is configured, the action is allowed (open access).
+   * Sessions owned by an instructor require the socket to have connected with
+   * that instructor's token. For unowned sessions, if an admin_password is set
+   * the provided password must match; otherwise the action is allowed (open access).
    * Returns the session on success, or null if authorization fails.
    */
   async function verifyAdminAuth(
@@ -73,6 +162,15 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
       return null;
     }
 
+    if (session.owner_id) {
+      if (socket.data.instructorId !== session.owner_id) {
+        console.warn(`Unauthorized admin action on session ${sessionCode} from socket ${socket.id}`);
+        socket.emit('error', { message: 'Unauthorized: only the session owner can do this' });
+        return null;
+      }
+      return session;
+    }
+
     // If the session has an admin password, validate it
     if (session.admin_password) {
       if (!adminPassword) {
@@ -99,6 +197,27 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
     return session;
   }
 
+  /**
+   * Check that a player-scoped event comes from the socket that player
+   * authenticated on. `join-market` binds the player from their signed token;
+   * any payload naming a different player (or session) is rejected.
+   */
+  function authorizePlayer(socket: Socket, playerId: string, sessionCode: string): boolean {
+    if (socket.data.playerId === playerId && socket.data.sessionCode === sessionCode) {
+      return true;
+    }
+    console.warn(`Rejected event for player ${playerId} in ${sessionCode} from socket ${socket.id}`);
+    socket.emit('error', { message: 'Not authorized to act as this player' });
+    return false;
+  }
+
+  /** Player actions wait while the instructor has the round paused */
+  function rejectIfPaused(socket: Socket, roundId: string): boolean {
+    if (!clock.isPaused(roundId)) return false;
+    socket.emit('error', { message: 'The round is paused' });
+    return true;
+  }
+
   // =========================================================================
   // Server-side round auto-end timer
   // =========================================================================
@@ -107,31 +226,36 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
    * Schedule a server-side timer to auto-end a round after its time expires.
    * For discovery_process, the engine handles its own internal phase timers
    * (production → move → end), so we skip the server timer for DP.
+   * Pass `remainingMs` to schedule a partially-elapsed round (e.g. after a restart).
    */
   function scheduleRoundEndTimer(
     roundId: string,
     sessionCode: string,
     session: any,
-    gameType: string
+    gameType: string,
+    remainingMs?: number
   ): void {
     // Cancel any existing timer for this round
-    const existing = roundEndTimers.get(roundId);
-    if (existing) clearTimeout(existing);
+    clock.clearTimeout(roundEndTimers.get(roundId));
+    clockedRounds.set(roundId, { sessionCode, gameType });
 
     // Discovery process manages its own internal timers (production + move phases)
     // so we don't need a separate server-side end timer for it
-    if (gameType === 'discovery_process') return;
+    if (gameType === 'discovery_process') {
+      broadcastRoundClock(roundId);
+      return;
+    }
 
-    const durationMs = (session.time_per_round || 90) * 1000;
+    const durationMs = remainingMs ?? (session.time_per_round || 90) * 1000;
 
     console.log(`[AutoTimer] Scheduling round end in ${durationMs}ms for ${sessionCode} round ${roundId}`);
 
-    const timer = setTimeout(async () => {
+    const timer = clock.setTimeout(roundId, async () => {
       roundEndTimers.delete(roundId);
 
       // Guard against concurrent processing
-      if (endingRounds.has(roundId)) return;
-      endingRounds.add(roundId);
+      const release = await acquireLock(`round-end:${roundId}`, ROUND_END_LOCK_MS);
+      if (!release) return;
 
       try {
         const round = await RoundModel.findById(roundId);
@@ -150,6 +274,8 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
         if (!endedRound) return;
 
         const roundResult = await engine.processRoundEnd(roundId, sessionCode, io);
+        clock.clear(roundId);
+        clockedRounds.delete(roundId);
 
         const rawTrades = await TradeModel.findByRound(roundId);
         const trades = rawTrades.map(t => ({
@@ -175,125 +301,316 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
       } catch (err) {
         console.error(`[AutoTimer] Error auto-ending round:`, err);
       } finally {
-        endingRounds.delete(roundId);
+        await release();
       }
-    }, durationMs);
+    }, durationMs, 'deadline');
 
     roundEndTimers.set(roundId, timer);
   }
 
+  /** A session's pause and running round clock, for a socket that just joined */
+  function sendRoundClock(socket: Socket, sessionCode: string): void {
+    if (clock.isPaused(advanceScope(sessionCode))) {
+      socket.emit('round-paused', { roundId: null, secondsRemaining: null });
+    }
+    for (const [roundId, entry] of clockedRounds) {
+      if (entry.sessionCode === sessionCode) socket.emit('round-clock', roundClockState(roundId, entry.gameType));
+    }
+  }
+
+  /** Whole seconds left on a round's server timer, or null if it has none */
+  function secondsRemaining(roundId: string): number | null {
+    const timer = roundEndTimers.get(roundId);
+    return timer ? Math.ceil(timer.remainingMs() / 1000) : null;
+  }
+
+  /**
+   * The round's deadline and the engine's current phase as the server sees
+   * them. Clients count down from these rather than keeping their own time.
+   */
+  function roundClockState(roundId: string, gameType: string): RoundClockEvent {
+    const serverNow = Date.now();
+    const paused = clock.isPaused(roundId);
+    const remainingMs = roundEndTimers.get(roundId)?.remainingMs() ?? null;
+    const phase = GameRegistry.get(gameType).getPhaseClock?.(roundId) ?? null;
+    return {
+      roundId,
+      serverNow,
+      paused,
+      endsAt: remainingMs !== null && !paused ? serverNow + remainingMs : null,
+      remainingMs,
+      phase: phase && {
+        name: phase.phase,
+        endsAt: paused ? null : serverNow + phase.remainingMs,
+        remainingMs: phase.remainingMs,
+      },
+    };
+  }
+
+  /**
+   * Send a round's clock to the monitor and players, and store its deadline
+   * so a restarted server can pick the round up where it was.
+   */
+  function broadcastRoundClock(roundId: string): void {
+    const entry = clockedRounds.get(roundId);
+    if (!entry) return;
+    const state = roundClockState(roundId, entry.gameType);
+    io.to(`session-${entry.sessionCode}`).emit('round-clock', state);
+    io.to(`market-${entry.sessionCode}`).emit('round-clock', state);
+
+    if (state.remainingMs !== null) {
+      const pausedAt = state.paused ? new Date(state.serverNow) : null;
+      RoundModel.setDeadline(roundId, new Date(state.serverNow + state.remainingMs), pausedAt)
+        .catch(err => console.error(`[RoundClock] Error saving deadline for round ${roundId}:`, err));
+    }
+  }
+
   // =========================================================================
   // Auto-advance: start next round after a delay
   // =========================================================================
 
+  /**
+   * End a session whose rounds have all been played.
+   */
+  async function finishSession(sessionId: string, sessionCode: string): Promise<void> {
+    console.log(`[AutoAdvance] No more rounds for ${sessionCode}, ending session`);
+    await SessionModel.end(sessionId);
+    BotService.getInstance().onSessionEnd(sessionId);
+    clock.clear(advanceScope(sessionCode));
+    // Clean up caches for this session
+    sessionGameTypeCache.delete(sessionCode);
+    await deleteCache(gameTypeKey(sessionCode));
+    io.to(`session-${sessionCode}`).emit('session-ended', {});
+    io.to(`market-${sessionCode}`).emit('session-ended', {});
+  }
+
   /**
    * Schedule auto-start of the next round for a session.
    * Called after any round ends (from timer, admin click, or engine internal).
    * Exported so the DiscoveryProcessEngine can also trigger it.
+   * Sessions set to manual advance wait for the instructor to start the next
+   * round, but still end on their own once the last round is over.
    */
   function scheduleAutoAdvance(sessionCode: string): void {
     // Cancel any existing auto-advance for this session
-    const existing = autoAdvanceTimers.get(sessionCode);
-    if (existing) clearTimeout(existing);
-
-    console.log(`[AutoAdvance] Scheduling next round in ${AUTO_ADVANCE_DELAY_MS}ms for ${sessionCode}`);
-
-    // Notify clients about the upcoming auto-advance
-    io.to(`session-${sessionCode}`).emit('auto-advance-scheduled', {
-      delayMs: AUTO_ADVANCE_DELAY_MS,
-    });
-    io.to(`market-${sessionCode}`).emit('auto-advance-scheduled', {
-      delayMs: AUTO_ADVANCE_DELAY_MS,
-    });
+    clock.clearTimeout(autoAdvanceTimers.get(sessionCode));
+    autoAdvanceTimers.delete(sessionCode);
 
-    const timer = setTimeout(async () => {
-      autoAdvanceTimers.delete(sessionCode);
+    // The session's round is over, so its clock is no longer broadcast
+    for (const [roundId, entry] of clockedRounds) {
+      if (entry.sessionCode === sessionCode) clockedRounds.delete(roundId);
+    }
 
-      try {
-        const session = await SessionModel.findByCode(sessionCode);
-        if (!session || session.status !== 'active') {
-          console.log(`[AutoAdvance] Session ${sessionCode} not active, skipping`);
-          return;
-        }
+    SessionModel.findByCode(sessionCode).then(async (session) => {
+      if (!session || session.status !== 'active') return;
 
-        // Find next waiting round
+      if (session.auto_advance === false) {
         const rounds = await RoundModel.findBySession(session.id);
-        const nextRound = rounds.find(r => r.status === 'waiting');
-
-        if (!nextRound) {
-          // No more rounds — end the session
-          console.log(`[AutoAdvance] No more rounds for ${sessionCode}, ending session`);
-          await SessionModel.end(session.id);
-          BotService.getInstance().onSessionEnd(session.id);
-          // Clean up caches for this session
-          sessionGameTypeCache.delete(sessionCode);
-          adminAuthCache.delete(sessionCode);
-          io.to(`session-${sessionCode}`).emit('session-ended', {});
-          io.to(`market-${sessionCode}`).emit('session-ended', {});
-          return;
+        if (!rounds.some(r => r.status === 'waiting')) {
+          await finishSession(session.id, sessionCode);
         }
+        return;
+      }
 
-        console.log(`[AutoAdvance] Auto-starting round ${nextRound.round_number} for ${sessionCode}`);
+      console.log(`[AutoAdvance] Scheduling next round in ${AUTO_ADVANCE_DELAY_MS}ms for ${sessionCode}`);
 
-        const updatedRound = await RoundModel.start(nextRound.id);
-        if (!updatedRound) {
-          console.error(`[AutoAdvance] Failed to start round ${nextRound.id}`);
-          return;
-        }
-        await SessionModel.updateCurrentRound(session.id, nextRound.round_number);
+      // Notify clients about the upcoming auto-advance
+      io.to(`session-${sessionCode}`).emit('auto-advance-scheduled', {
+        delayMs: AUTO_ADVANCE_DELAY_MS,
+      });
+      io.to(`market-${sessionCode}`).emit('auto-advance-scheduled', {
+        delayMs: AUTO_ADVANCE_DELAY_MS,
+      });
 
-        const gameType = await getSessionGameType(sessionCode);
-        const engine = GameRegistry.get(gameType);
+      const timer = clock.setTimeout(advanceScope(sessionCode), () => {
+        autoAdvanceTimers.delete(sessionCode);
+        advanceToNextRound(sessionCode);
+      }, AUTO_ADVANCE_DELAY_MS);
 
-        if (engine.onRoundStart) {
-          await engine.onRoundStart(nextRound.id, sessionCode, io);
-        }
+      autoAdvanceTimers.set(sessionCode, timer);
+    }).catch(err => console.error(`[AutoAdvance] Error scheduling next round:`, err));
+  }
 
-        io.to(`session-${sessionCode}`).emit('round-started', {
-          round: updatedRound,
-          roundNumber: nextRound.round_number,
-        });
-        io.to(`market-${sessionCode}`).emit('round-started', {
-          round: updatedRound,
-          roundNumber: nextRound.round_number,
-        });
+  /**
+   * Start the session's next waiting round, or end the session if none are left.
+   */
+  async function advanceToNextRound(sessionCode: string): Promise<void> {
+    try {
+      const session = await SessionModel.findByCode(sessionCode);
+      if (!session || session.status !== 'active') {
+        console.log(`[AutoAdvance] Session ${sessionCode} not active, skipping`);
+        return;
+      }
 
-        // Schedule server-side auto-end timer for this new round
-        scheduleRoundEndTimer(nextRound.id, sessionCode, session, gameType);
+      // Find next waiting round
+      const rounds = await RoundModel.findBySession(session.id);
+      const nextRound = rounds.find(r => r.status === 'waiting');
 
-        // Trigger bot actions for the new round
-        if (session.bot_enabled) {
-          BotService.getInstance().onRoundStart(nextRound.id, sessionCode, session, io)
-            .catch(err => console.error('BotService auto-advance round start error:', err));
-        }
+      if (!nextRound) {
+        // No more rounds — end the session
+        await finishSession(session.id, sessionCode);
+        return;
+      }
 
-        // Broadcast initial timer to players
-        io.to(`market-${sessionCode}`).emit('timer-update', {
-          seconds_remaining: session.time_per_round,
-        });
+      console.log(`[AutoAdvance] Auto-starting round ${nextRound.round_number} for ${sessionCode}`);
 
-        console.log(`[AutoAdvance] Round ${nextRound.round_number} started for ${sessionCode}`);
-      } catch (err) {
-        console.error(`[AutoAdvance] Error auto-starting next round:`, err);
+      const updatedRound = await RoundModel.start(nextRound.id);
+      if (!updatedRound) {
+        console.error(`[AutoAdvance] Failed to start round ${nextRound.id}`);
+        return;
+      }
+      await SessionModel.updateCurrentRound(session.id, nextRound.round_number);
+
+      const gameType = await getSessionGameType(sessionCode);
+      const engine = GameRegistry.get(gameType);
+
+      if (engine.onRoundStart) {
+        await engine.onRoundStart(nextRound.id, sessionCode, io);
       }
-    }, AUTO_ADVANCE_DELAY_MS);
 
-    autoAdvanceTimers.set(sessionCode, timer);
+      io.to(`session-${sessionCode}`).emit('round-started', {
+        round: updatedRound,
+        roundNumber: nextRound.round_number,
+      });
+      io.to(`market-${sessionCode}`).emit('round-started', {
+        round: updatedRound,
+        roundNumber: nextRound.round_number,
+      });
+
+      // Schedule server-side auto-end timer for this new round
+      scheduleRoundEndTimer(nextRound.id, sessionCode, session, gameType);
+
+      // Trigger bot actions for the new round
+      if (BotService.getInstance().usesBots(session)) {
+        BotService.getInstance().onRoundStart(nextRound.id, sessionCode, session, io)
+          .catch(err => console.error('BotService auto-advance round start error:', err));
+      }
+
+      console.log(`[AutoAdvance] Round ${nextRound.round_number} started for ${sessionCode}`);
+    } catch (err) {
+      console.error(`[AutoAdvance] Error auto-starting next round:`, err);
+    }
+  }
+
+  /**
+   * Round 1 is started by the session start request, on whichever instance
+   * served it; its timer, engine round state and bots are set up here, on
+   * the leader.
+   */
+  leader.handle('first-round-started', async ({ roundId, sessionCode }: { roundId: string; sessionCode: string }) => {
+    const session = await SessionModel.findByCode(sessionCode);
+    if (!session) return;
+    const gameType = session.game_type || 'double_auction';
+    const engine = GameRegistry.get(gameType);
+
+    scheduleRoundEndTimer(roundId, sessionCode, session, gameType);
+
+    // Let the engine initialize round state (e.g. discovery process timers)
+    if (engine.onRoundStart) {
+      await engine.onRoundStart(roundId, sessionCode, io);
+    }
+
+    if (BotService.getInstance().usesBots(session)) {
+      BotService.getInstance().onRoundStart(roundId, sessionCode, session, io)
+        .catch(err => console.error('BotService round 1 start error:', err));
+    }
+  });
+
+  // The leader runs client events for sockets held by other instances
+  // through a stand-in that replies via the shared adapter
+  leader.handle('socket-command', async (command: SocketCommand) => {
+    const handlers = new Map<string, (...args: any[]) => unknown>();
+    const remote = {
+      id: command.socketId,
+      data: command.data,
+      emit: (event: string, ...args: unknown[]) => io.to(command.socketId).emit(event, ...args),
+      on: (event: string, handler: (...args: any[]) => unknown) => handlers.set(event, handler),
+    } as unknown as Socket;
+    registerHandlers(remote);
+    const args = [...command.args];
+    const { ackId } = command;
+    if (ackId) args.push((...reply: unknown[]) => replyToAck(ackId, reply));
+    await handlers.get(command.event)?.(...args);
+  });
+
+  // Acks of forwarded events, waiting here for the leader's reply
+  const pendingAcks = new Map<string, (...reply: unknown[]) => void>();
+
+  function forwardToLeader(socket: Socket, event: string, args: unknown[]): void {
+    const command: SocketCommand = { socketId: socket.id, data: socket.data, event, args };
+    const ack = args[args.length - 1];
+    if (typeof ack === 'function') {
+      const ackId = randomUUID();
+      pendingAcks.set(ackId, ack as (...reply: unknown[]) => void);
+      setTimeout(() => pendingAcks.delete(ackId), FORWARDED_ACK_MS).unref();
+      command.args = args.slice(0, -1);
+      command.ackId = ackId;
+    }
+    leader.run(io, 'socket-command', command)
+      .catch(err => console.error(`Error handing ${event} to the leader:`, err));
   }
 
+  // The leader calls a forwarded ack on the instance that holds it
+  function replyToAck(ackId: string, reply: unknown[]): void {
+    const ack = pendingAcks.get(ackId);
+    if (ack) {
+      pendingAcks.delete(ackId);
+      ack(...reply);
+      return;
+    }
+    io.serverSideEmit(ACK_EVENT, { ackId, reply });
+  }
+
+  io.on(ACK_EVENT, ({ ackId, reply }: { ackId: string; reply: unknown[] }) => {
+    const ack = pendingAcks.get(ackId);
+    if (!ack) return;
+    pendingAcks.delete(ackId);
+    ack(...reply);
+  });
+
+  // Another instance has the lease now; its restored rounds take over from ours
+  leader.onDeposed(() => {
+    for (const roundId of clockedRounds.keys()) {
+      BotService.getInstance().onRoundEnd(roundId);
+      clock.clear(roundId);
+    }
+    for (const sessionCode of autoAdvanceTimers.keys()) clock.clear(advanceScope(sessionCode));
+    clockedRounds.clear();
+    roundEndTimers.clear();
+    autoAdvanceTimers.clear();
+  });
+
   // Store io on BotService so sessionController can trigger round-1 bot actions
   BotService.getInstance().setIO(io);
 
-  // Expose timer functions so sessionController can set up round-1 timers
-  // (since it starts round 1 directly, the socket start-round handler never runs for it)
-  (io as any).__scheduleRoundEndTimer = scheduleRoundEndTimer;
-
   // Expose scheduleAutoAdvance so engines (like DiscoveryProcess) can trigger it
   (io as any).__scheduleAutoAdvance = scheduleAutoAdvance;
 
   io.on('connection', (socket: Socket) => {
     console.log('Client connected:', socket.id);
 
+    // Instructor dashboards connect with their login token in the handshake
+    const instructor = verifyInstructorToken(socket.handshake.auth?.token);
+    if (instructor) socket.data.instructorId = instructor.instructorId;
+
+    // Game events from sockets on other instances go to the leader
+    socket.use(([event, ...args], next) => {
+      if (!LEADER_EVENTS.has(event) || leader.isLeader()) {
+        next();
+        return;
+      }
+      forwardToLeader(socket, event, args);
+    });
+
+    registerHandlers(socket);
+  });
+
+  /**
+   * Event handlers for one client. Events in LEADER_EVENTS may also be run
+   * on the leader for a socket another instance holds, so they only use the
+   * socket's id, data and emit.
+   */
+  function registerHandlers(socket: Socket): void {
     // Join session room
     socket.on('join-session', async (data: { sessionCode: string; playerId: string }) => {
       try {
@@ -313,19 +630,65 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
       }
     });
 
-    // Join market room
-    socket.on('join-market', async (data: { sessionCode: string; playerId: string }) => {
+    // Join the instructor's room for a session, which carries what only the
+    // monitor may see (e.g. late-join requests). Needs the same auth as admin actions.
+    socket.on('join-admin', async (data: { sessionCode: string; adminPassword?: string }) => {
       try {
-        const { sessionCode, playerId } = data || {};
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string') return;
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+        socket.join(`admin-${session.code}`);
+      } catch (error) {
+        console.error('Error joining admin room:', error);
+      }
+    });
+
+    // Join market room. The market broadcast room is open to anyone (the
+    // instructor monitor joins it too); the private player room and the right
+    // to act as the player require the token issued at join time.
+    socket.on('join-market', async (data: { sessionCode: string; playerId: string; token?: string }) => {
+      try {
+        const { sessionCode, playerId, token } = data || {};
         if (!sessionCode || !playerId) return;
         socket.join(`market-${sessionCode}`);
+
+        // Someone (re)joining mid-round gets its clock, and pause, from the leader
+        if (leader.isLeader()) {
+          sendRoundClock(socket, sessionCode);
+        } else {
+          forwardToLeader(socket, 'sync-round-clock', [{ sessionCode }]);
+        }
+
+        if (!token) return;
+        const claims = verifyPlayerToken(token);
+        if (!claims || claims.playerId !== playerId || claims.sessionCode !== sessionCode) {
+          console.warn(`Invalid player token for ${playerId} in ${sessionCode} from socket ${socket.id}`);
+          socket.emit('error', { message: 'Invalid player token' });
+          return;
+        }
+
+        // A late joiner has taken this seat since the token was issued
+        const player = await PlayerModel.findById(playerId);
+        if (player?.claimed_at && issuedBefore(token, new Date(player.claimed_at))) {
+          socket.emit('seat-taken-over', { playerId });
+          return;
+        }
+
+        socket.data.playerId = claims.playerId;
+        socket.data.sessionCode = claims.sessionCode;
         socket.join(`player-${playerId}`);
+        await PresenceService.getInstance().connect(playerId, sessionCode, socket.id, io);
         console.log(`Player ${playerId} joined market ${sessionCode}`);
       } catch (error) {
         console.error('Error joining market:', error);
       }
     });
 
+    // Send the running round's clock, without waiting for it to change
+    socket.on('sync-round-clock', (data: { sessionCode: string }) => {
+      if (data?.sessionCode && typeof data.sessionCode === 'string') sendRoundClock(socket, data.sessionCode);
+    });
+
     // =========================================================================
     // Generic game action handler — delegates to the appropriate engine
     // =========================================================================
@@ -334,7 +697,11 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
       playerId: string;
       sessionCode: string;
       action: Record<string, any>;
-    }) => {
+    }, ack?: (response: ActionAck) => void) => {
+      // Clients that pass an ack hear back whether the action was taken
+      const respond = (response: ActionAck) => {
+        if (typeof ack === 'function') ack(response);
+      };
       try {
         const { roundId, playerId, sessionCode, action } = data || {};
         if (!roundId || typeof roundId !== 'string' ||
@@ -342,6 +709,15 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
             !sessionCode || typeof sessionCode !== 'string' ||
             !action || typeof action !== 'object') {
           socket.emit('error', { message: 'Invalid action data' });
+          respond({ success: false, error: 'Invalid action data' });
+          return;
+        }
+        if (!authorizePlayer(socket, playerId, sessionCode)) {
+          respond({ success: false, error: 'Not authorized to act as this player' });
+          return;
+        }
+        if (rejectIfPaused(socket, roundId)) {
+          respond({ success: false, error: 'The round is paused' });
           return;
         }
         const gameType = await getSessionGameType(sessionCode);
@@ -358,9 +734,11 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
         }
         // Broadcasts are handled inside the engine via io parameter
 
+        respond(result.success ? { success: true } : { success: false, error: result.error });
       } catch (error) {
         console.error('Error handling action:', error);
         socket.emit('error', { message: 'Failed to process action' });
+        respond({ success: false, error: 'Failed to process action' });
       }
     });
 
@@ -381,6 +759,8 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
           socket.emit('error', { message: 'Invalid bid data' });
           return;
         }
+        if (!authorizePlayer(socket, playerId, sessionCode)) return;
+        if (rejectIfPaused(socket, roundId)) return;
         const gameType = await getSessionGameType(sessionCode);
         const engine = GameRegistry.get(gameType);
 
@@ -415,6 +795,8 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
           socket.emit('error', { message: 'Invalid ask data' });
           return;
         }
+        if (!authorizePlayer(socket, playerId, sessionCode)) return;
+        if (rejectIfPaused(socket, roundId)) return;
         const gameType = await getSessionGameType(sessionCode);
         const engine = GameRegistry.get(gameType);
 
@@ -448,13 +830,13 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
         const session = await verifyAdminAuth(sessionCode, adminPassword, socket);
         if (!session) return;
 
-        // Cache the verified plaintext password (NOT the bcrypt hash) so
-        // timer-update can compare cheaply without bcrypt on every tick.
-        adminAuthCache.set(sessionCode, { adminPassword: adminPassword || undefined });
-
         const round = await RoundModel.findBySessionAndNumber(session.id, roundNumber);
         if (!round) throw new Error('Round not found');
 
+        // Starting by hand replaces any pending auto-advance (and a pause between rounds)
+        clock.clear(advanceScope(sessionCode));
+        autoAdvanceTimers.delete(sessionCode);
+
         const updatedRound = await RoundModel.start(round.id);
         if (!updatedRound) {
           socket.emit('error', { message: 'Failed to start round' });
@@ -470,7 +852,7 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
         // (e.g. auction private valuations) before gameplay begins.
         if (roundNumber === 1) {
           const activePlayers = await PlayerModel.findActiveBySession(session.id);
-          await engine.setupPlayers(session.id, activePlayers.length, session.game_config || {});
+          await engine.setupPlayers(session.id, activePlayers.length, configForRound(session, 1));
         }
 
         if (engine.onRoundStart) {
@@ -491,7 +873,7 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
         scheduleRoundEndTimer(round.id, sessionCode, session, gameType);
 
         // Trigger bot actions for this round
-        if (session.bot_enabled) {
+        if (BotService.getInstance().usesBots(session)) {
           BotService.getInstance().onRoundStart(round.id, sessionCode, session, io)
             .catch(err => console.error('BotService round start error:', err));
         }
@@ -512,23 +894,16 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
         const session = await verifyAdminAuth(sessionCode, adminPassword, socket);
         if (!session) return;
 
-        // Cache the verified plaintext password (NOT the bcrypt hash) so
-        // timer-update can compare cheaply without bcrypt on every tick.
-        adminAuthCache.set(sessionCode, { adminPassword: adminPassword || undefined });
-
         // Cancel server-side timer if admin manually ends the round
-        const existingTimer = roundEndTimers.get(roundId);
-        if (existingTimer) {
-          clearTimeout(existingTimer);
-          roundEndTimers.delete(roundId);
-        }
+        clock.clearTimeout(roundEndTimers.get(roundId));
+        roundEndTimers.delete(roundId);
 
         // Guard against concurrent end-round processing (timer + manual click race)
-        if (endingRounds.has(roundId)) {
+        const release = await acquireLock(`round-end:${roundId}`, ROUND_END_LOCK_MS);
+        if (!release) {
           console.log(`Round ${roundId} already being processed, skipping`);
           return;
         }
-        endingRounds.add(roundId);
 
         try {
           // Guard against double-ending (timer auto-end + manual click)
@@ -551,6 +926,8 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
             return;
           }
           const roundResult = await engine.processRoundEnd(roundId, sessionCode, io);
+          clock.clear(roundId);
+          clockedRounds.delete(roundId);
 
           // Get trades for DA games (backward compat) — normalize DECIMAL strings
           const rawTrades = await TradeModel.findByRound(roundId);
@@ -582,7 +959,7 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
           // They will be re-populated on the next lookup if needed.
           sessionGameTypeCache.delete(sessionCode);
         } finally {
-          endingRounds.delete(roundId);
+          await release();
         }
       } catch (error) {
         console.error('Error ending round:', error);
@@ -590,31 +967,312 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
       }
     });
 
-    // Timer update (admin only)
-    socket.on('timer-update', async (data: { sessionCode: string; secondsRemaining: number; adminPassword?: string }) => {
+    // Pause the running round — its timer, engine phase timers and bots —
+    // or the countdown to the next round (admin only)
+    socket.on('pause-round', async (data: { sessionCode: string; adminPassword?: string }) => {
       try {
-        if (!data?.sessionCode || data.secondsRemaining == null) return;
-
-        // Lightweight admin auth check using cache (avoid DB query every second)
-        const cached = adminAuthCache.get(data.sessionCode);
-        if (cached) {
-          // Verify password matches cached value
-          if (cached.adminPassword && (!data.adminPassword || data.adminPassword !== cached.adminPassword)) {
-            socket.emit('error', { message: 'Unauthorized: invalid admin password' });
-            return;
-          }
-        } else {
-          // First time: do full DB check and cache the plaintext password
-          const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
-          if (!session) return;
-          adminAuthCache.set(data.sessionCode, { adminPassword: data.adminPassword || undefined });
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string') {
+          socket.emit('error', { message: 'Invalid pause request' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+        if (session.status !== 'active') {
+          socket.emit('error', { message: 'Only a running session can be paused' });
+          return;
+        }
+        if (!clock.pause(advanceScope(data.sessionCode))) {
+          socket.emit('error', { message: 'Session is already paused' });
+          return;
+        }
+
+        const round = await RoundModel.getCurrentRound(session.id);
+        if (round) clock.pause(round.id);
+
+        const notice = {
+          roundId: round?.id ?? null,
+          secondsRemaining: round ? secondsRemaining(round.id) : null,
+        };
+        io.to(`session-${data.sessionCode}`).emit('round-paused', notice);
+        io.to(`market-${data.sessionCode}`).emit('round-paused', notice);
+
+        console.log(`Session ${data.sessionCode} paused`);
+      } catch (error) {
+        console.error('Error pausing round:', error);
+        socket.emit('error', { message: 'Failed to pause round' });
+      }
+    });
+
+    // Resume a paused round with the time it had left (admin only)
+    socket.on('resume-round', async (data: { sessionCode: string; adminPassword?: string }) => {
+      try {
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string') {
+          socket.emit('error', { message: 'Invalid resume request' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+        if (!clock.resume(advanceScope(data.sessionCode))) {
+          socket.emit('error', { message: 'Session is not paused' });
+          return;
+        }
+
+        const round = await RoundModel.getCurrentRound(session.id);
+        if (round) clock.resume(round.id);
+
+        const notice = {
+          roundId: round?.id ?? null,
+          secondsRemaining: round ? secondsRemaining(round.id) : null,
+        };
+        io.to(`session-${data.sessionCode}`).emit('round-resumed', notice);
+        io.to(`market-${data.sessionCode}`).emit('round-resumed', notice);
+
+        console.log(`Session ${data.sessionCode} resumed`);
+      } catch (error) {
+        console.error('Error resuming round:', error);
+        socket.emit('error', { message: 'Failed to resume round' });
+      }
+    });
+
+    // Give the running round (and its current phase) more time (admin only)
+    socket.on('add-time', async (data: { sessionCode: string; seconds: number; adminPassword?: string }) => {
+      try {
+        const seconds = Number(data?.seconds);
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string' ||
+            !Number.isInteger(seconds) || seconds < 1 || seconds > MAX_ADDED_SECONDS) {
+          socket.emit('error', { message: `Time added must be between 1 and ${MAX_ADDED_SECONDS} seconds` });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+
+        const round = await RoundModel.getCurrentRound(session.id);
+        if (!round) {
+          socket.emit('error', { message: 'No round is running' });
+          return;
+        }
+
+        clock.addTime(round.id, seconds * 1000);
+        const engine = GameRegistry.get(session.game_type || 'double_auction');
+        engine.onRoundTimeAdded?.(round.id, seconds);
+
+        const notice = { roundId: round.id, seconds, secondsRemaining: secondsRemaining(round.id) };
+        io.to(`session-${data.sessionCode}`).emit('round-time-added', notice);
+        io.to(`market-${data.sessionCode}`).emit('round-time-added', notice);
+
+        console.log(`Added ${seconds}s to round ${round.round_number} of ${data.sessionCode}`);
+      } catch (error) {
+        console.error('Error adding time:', error);
+        socket.emit('error', { message: 'Failed to add time' });
+      }
+    });
+
+    // Switch between automatic and manual round advance (admin only)
+    socket.on('set-auto-advance', async (data: { sessionCode: string; enabled: boolean; adminPassword?: string }) => {
+      try {
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string' || typeof data.enabled !== 'boolean') {
+          socket.emit('error', { message: 'Invalid advance setting' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+
+        await SessionModel.updateAutoAdvance(session.id, data.enabled);
+
+        // Switching to manual cancels a countdown that is already running;
+        // switching back between rounds starts one
+        if (!data.enabled) {
+          clock.clearTimeout(autoAdvanceTimers.get(data.sessionCode));
+          autoAdvanceTimers.delete(data.sessionCode);
+        } else if (session.status === 'active' && !(await RoundModel.getCurrentRound(session.id))) {
+          scheduleAutoAdvance(data.sessionCode);
+        }
+
+        io.to(`session-${data.sessionCode}`).emit('auto-advance-changed', { enabled: data.enabled });
+      } catch (error) {
+        console.error('Error updating advance setting:', error);
+        socket.emit('error', { message: 'Failed to update advance setting' });
+      }
+    });
+
+    // Choose what happens to players who drop out (admin only)
+    socket.on('set-absent-policy', async (data: {
+      sessionCode: string;
+      policy: AbsentPolicy;
+      graceSeconds: number;
+      adminPassword?: string;
+    }) => {
+      try {
+        const invalid = !data?.sessionCode || typeof data.sessionCode !== 'string' ||
+          data.policy === undefined || data.graceSeconds === undefined ||
+          validateAbsentPolicy(data.policy, data.graceSeconds);
+        if (invalid) {
+          socket.emit('error', { message: typeof invalid === 'string' ? invalid : 'Invalid absent player setting' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+
+        await SessionModel.updateAbsentPolicy(session.id, data.policy, data.graceSeconds);
+        io.to(`session-${data.sessionCode}`).emit('absent-policy-changed', {
+          policy: data.policy,
+          graceSeconds: data.graceSeconds,
+        });
+      } catch (error) {
+        console.error('Error updating absent player setting:', error);
+        socket.emit('error', { message: 'Failed to update absent player setting' });
+      }
+    });
+
+    // Change settings for upcoming rounds, or add/remove rounds (admin only)
+    socket.on('update-session-config', async (data: {
+      sessionCode: string;
+      adminPassword?: string;
+      config?: Record<string, unknown>;
+      roundDelta?: number;
+      label?: string;
+      message?: string;
+    }) => {
+      try {
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string') {
+          socket.emit('error', { message: 'Invalid config update' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+        if (session.status === 'completed' || session.status === 'cancelled') {
+          socket.emit('error', { message: 'Session has already ended' });
+          return;
+        }
+
+        // Changes never reach a round that has already started
+        const fromRound = session.current_round + 1;
+        const engine = GameRegistry.get(session.game_type || 'double_auction');
+        const change = applyLiveChange(
+          session,
+          { config: data.config, roundDelta: data.roundDelta, label: data.label },
+          fromRound,
+          (config) => engine.validateConfig(config)
+        );
+        if (!change.valid) {
+          socket.emit('error', { message: change.error });
+          return;
+        }
+
+        for (let n = session.num_rounds + 1; n <= change.numRounds; n++) {
+          await RoundModel.create(session.id, n);
+        }
+        if (change.numRounds < session.num_rounds) {
+          await RoundModel.deleteWaitingAfter(session.id, change.numRounds);
+        }
+        await SessionModel.updateSchedule(session.id, change.treatments, change.numRounds);
+
+        const notice = {
+          fromRound,
+          numRounds: change.numRounds,
+          treatments: change.treatments,
+          label: change.block?.label ?? null,
+          changes: data.config ?? {},
+          message: typeof data.message === 'string' ? data.message.slice(0, 200) : null,
+        };
+        io.to(`session-${data.sessionCode}`).emit('session-config-updated', notice);
+        io.to(`market-${data.sessionCode}`).emit('session-config-updated', notice);
+
+        console.log(`Session ${data.sessionCode} updated from round ${fromRound}: ${change.numRounds} rounds`);
+      } catch (error) {
+        console.error('Error updating session config:', error);
+        socket.emit('error', { message: 'Failed to update session' });
+      }
+    });
+
+    // Seat a student who asked to join after the session started (admin only).
+    // playerId names a bot's or disconnected student's seat to take over;
+    // without one the student gets a new seat if the session has room.
+    socket.on('approve-late-join', async (data: {
+      sessionCode: string;
+      requestId: string;
+      playerId?: string | null;
+      adminPassword?: string;
+    }) => {
+      try {
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string' ||
+            !data.requestId || typeof data.requestId !== 'string' ||
+            (data.playerId != null && typeof data.playerId !== 'string')) {
+          socket.emit('error', { message: 'Invalid join approval' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+        if (session.status !== 'active') {
+          socket.emit('error', { message: 'Session is not running' });
+          return;
+        }
+        const request = await JoinRequestModel.findById(data.requestId);
+        if (!request || request.session_id !== session.id) {
+          socket.emit('error', { message: 'Join request not found' });
+          return;
         }
 
-        io.to(`market-${data.sessionCode}`).emit('timer-update', {
-          seconds_remaining: data.secondsRemaining,
+        // A student's seat can only be handed over once their device has gone
+        const playerId = data.playerId || null;
+        if (playerId && (await io.in(`player-${playerId}`).fetchSockets()).length > 0) {
+          socket.emit('error', { message: 'That player is still connected' });
+          return;
+        }
+
+        const seated = await seatLateJoiner(session, request, playerId);
+        if (!seated.ok) {
+          socket.emit('error', { message: seated.error });
+          return;
+        }
+
+        io.to(`admin-${data.sessionCode}`).emit('late-join-decided', {
+          requestId: request.id,
+          status: 'approved',
+          playerId: seated.player.id,
+        });
+        io.to(`session-${data.sessionCode}`).emit('player-joined', {
+          playerId: seated.player.id,
+          timestamp: new Date().toISOString(),
         });
+
+        const seat = seated.replaced ? `${seated.replaced.is_bot ? 'bot' : 'player'} ${seated.replaced.id}` : 'a new seat';
+        console.log(`Late joiner ${request.name} took ${seat} in ${data.sessionCode}`);
       } catch (error) {
-        console.error('Error in timer-update:', error);
+        console.error('Error approving late join:', error);
+        socket.emit('error', { message: 'Failed to seat player' });
+      }
+    });
+
+    // Turn away a student who asked to join after the session started (admin only)
+    socket.on('reject-late-join', async (data: { sessionCode: string; requestId: string; adminPassword?: string }) => {
+      try {
+        if (!data?.sessionCode || typeof data.sessionCode !== 'string' ||
+            !data.requestId || typeof data.requestId !== 'string') {
+          socket.emit('error', { message: 'Invalid join rejection' });
+          return;
+        }
+        const session = await verifyAdminAuth(data.sessionCode, data.adminPassword, socket);
+        if (!session) return;
+
+        const request = await JoinRequestModel.findById(data.requestId);
+        if (!request || request.session_id !== session.id) {
+          socket.emit('error', { message: 'Join request not found' });
+          return;
+        }
+        if (!(await JoinRequestModel.decide(request.id, 'rejected'))) {
+          socket.emit('error', { message: 'This request has already been decided' });
+          return;
+        }
+
+        io.to(`admin-${data.sessionCode}`).emit('late-join-decided', {
+          requestId: request.id,
+          status: 'rejected',
+          playerId: null,
+        });
+      } catch (error) {
+        console.error('Error rejecting late join:', error);
+        socket.emit('error', { message: 'Failed to reject join request' });
       }
     });
 
@@ -632,6 +1290,7 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
           socket.emit('error', { message: 'Invalid game state request' });
           return;
         }
+        if (!authorizePlayer(socket, playerId, sessionCode)) return;
         const gameType = await getSessionGameType(sessionCode);
         const engine = GameRegistry.get(gameType);
 
@@ -643,11 +1302,86 @@ export function setupSocketHandlers(httpServer: HTTPServer) {
       }
     });
 
+    // Clients estimate their clock's offset from the server's time by
+    // halving the round trip of this ack
+    socket.on('clock-sync', (ack?: (serverNow: number) => void) => {
+      if (typeof ack === 'function') ack(Date.now());
+    });
+
     // Disconnect
     socket.on('disconnect', () => {
       console.log('Client disconnected:', socket.id);
+      if (socket.data.playerId) {
+        PresenceService.getInstance().disconnect(socket.data.playerId, socket.data.sessionCode, socket.id, io)
+          .catch(err => console.error('Error recording player disconnect:', err));
+      }
     });
-  });
+  }
 
-  return io;
+  return { io, scheduleRoundEnd: scheduleRoundEndTimer };
+}
+
+/**
+ * Time a round had left when the server stopped. Rounds from before deadlines
+ * were stored fall back to their start time plus the round length.
+ */
+export function timeLeftAtRestart(round: Round, session: Session, now = Date.now()): number {
+  if (round.ends_at) {
+    const endsAt = new Date(round.ends_at).getTime();
+    const asOf = round.paused_at ? new Date(round.paused_at).getTime() : now;
+    return Math.max(0, endsAt - asOf);
+  }
+  const durationMs = (session.time_per_round || 90) * 1000;
+  const startedAt = round.started_at ? new Date(round.started_at).getTime() : now;
+  return Math.max(0, startedAt + durationMs - now);
+}
+
+/**
+ * Resume every round that was still active when the server last stopped.
+ * Engines with in-memory state reload their snapshot via restoreRound(),
+ * the server-side round-end timer is re-armed with the time that was left
+ * (through `scheduleRoundEnd`, from setupSocketHandlers),
+ * and bots are kicked off again since their timers died with the process.
+ */
+export async function resumeActiveRounds(io: Server, scheduleRoundEnd: RoundEndScheduler): Promise<void> {
+  const rounds = await RoundModel.findAllActive();
+  if (rounds.length === 0) return;
+
+  console.log(`[Resume] Found ${rounds.length} active round(s) to resume`);
+
+  for (const round of rounds) {
+    try {
+      const session = await SessionModel.findById(round.session_id);
+      if (!session) continue;
+
+      const gameType = session.game_type || 'double_auction';
+      const engine = GameRegistry.get(gameType);
+
+      if (engine.restoreRound) {
+        const restored = await engine.restoreRound(round.id, session.code, io);
+        if (!restored) {
+          console.warn(`[Resume] No saved state for ${gameType} round ${round.id} in ${session.code}`);
+        }
+      }
+
+      const remainingMs = timeLeftAtRestart(round, session);
+      scheduleRoundEnd(round.id, session.code, session, gameType, remainingMs);
+
+      // A round paused before the restart stays paused, bots included
+      if (round.paused_at) {
+        const clock = RoundClock.getInstance();
+        clock.pause(advanceScope(session.code));
+        clock.pause(round.id);
+      }
+
+      if (BotService.getInstance().usesBots(session)) {
+        BotService.getInstance().onRoundStart(round.id, session.code, session, io)
+          .catch(err => console.error('BotService resume round error:', err));
+      }
+
+      console.log(`[Resume] Round ${round.round_number} of ${session.code} resumed with ${Math.ceil(remainingMs / 1000)}s left`);
+    } catch (err) {
+      console.error(`[Resume] Error resuming round ${round.id}:`, err);
+    }
+  }
 }
@@ -18,14 +18,54 @@ export interface Session {
   cost_max: number;
   cost_increments: number;
   bot_enabled: boolean;
+  /** Start the next round automatically a few seconds after one ends */
+  auto_advance: boolean;
+  /** What happens to a player who stays disconnected past the grace period */
+  absent_policy: AbsentPolicy;
+  /** Seconds a disconnected player has to come back before absent_policy applies */
+  absent_grace_seconds: number;
   passcode?: string | null;
   admin_password?: string | null;
+  owner_id?: string | null;
+  /** Labels such as course, section, semester and treatment */
+  tags?: Record<string, string>;
+  /** Scheduled game_config changes, sorted by start round */
+  treatments?: TreatmentBlock[];
+  /** A bot-only preview (see services/simulation), never a live class */
+  is_simulation?: boolean;
   current_round: number;
   created_at: Date;
   started_at?: Date;
   ended_at?: Date;
 }
 
+/**
+ * How a session treats a player who has been disconnected for longer than
+ * its grace period:
+ * - skip:           mark them inactive; rounds go on without them
+ * - default_action: mark them inactive and record the game's default move for them
+ * - bot:            the game's bot strategy plays their seat until they return
+ */
+export type AbsentPolicy = 'skip' | 'default_action' | 'bot';
+
+/**
+ * A block of rounds, from startRound until the next block, played with
+ * `overrides` applied on top of the session's game_config
+ */
+export interface TreatmentBlock {
+  label: string;
+  startRound: number;
+  overrides: Record<string, any>;
+}
+
+export interface Instructor {
+  id: string;
+  email: string;
+  name?: string | null;
+  password_hash: string;
+  created_at: Date;
+}
+
 export interface Player {
   id: string;
   session_id: string;
@@ -39,6 +79,8 @@ export interface Player {
   game_data?: Record<string, any>;
   created_at: Date;
   last_active_at: Date;
+  /** When a late joiner last took over this seat; older tokens are refused */
+  claimed_at?: Date | null;
 }
 
 export interface Round {
@@ -48,15 +90,43 @@ export interface Round {
   status: 'waiting' | 'active' | 'completed';
   started_at?: Date;
   ended_at?: Date;
+  /** When the running round is due to end, per the server's clock */
+  ends_at?: Date | null;
+  /** Set while the round is paused; the time left is ends_at - paused_at */
+  paused_at?: Date | null;
+  surplus?: SurplusAccounting | null;
 }
 
+// Efficiency of a market round: realized vs maximum surplus and where the rest went
+export interface SurplusAccounting {
+  realizedSurplus: number;
+  maxSurplus: number;
+  /** Realized as a percentage of maximum surplus */
+  efficiency: number;
+  lostSurplus: number;
+  /** Intra-marginal units that did not trade */
+  missedTradeLoss: number;
+  /** Units outside the efficient set that traded anyway */
+  extraMarginalLoss: number;
+  tradedQuantity: number;
+  efficientQuantity: number;
+  /** Competitive price the losses are measured against (null when nothing should trade) */
+  competitivePrice: number | null;
+}
+
+// Why an order left the book ('open' while it is still standing)
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'replaced' | 'expired';
+
 export interface Bid {
   id: string;
   round_id: string;
   player_id: string;
   price: number;
+  unit_number?: number;
   is_active: boolean;
+  status?: OrderStatus;
   created_at: Date;
+  closed_at?: Date;
 }
 
 export interface Ask {
@@ -64,10 +134,16 @@ export interface Ask {
   round_id: string;
   player_id: string;
   price: number;
+  unit_number?: number;
   is_active: boolean;
+  status?: OrderStatus;
   created_at: Date;
+  closed_at?: Date;
 }
 
+// A bid or ask as it appears in a session's order history
+export type OrderHistoryEntry<T extends Bid | Ask> = T & { round_number: number };
+
 export interface Trade {
   id: string;
   round_id: string;
@@ -78,6 +154,8 @@ export interface Trade {
   price: number;
   buyer_profit: number;
   seller_profit: number;
+  buyer_unit?: number;
+  seller_unit?: number;
   created_at: Date;
 }
 
@@ -98,8 +176,20 @@ export interface CreateSessionRequest {
   cost_max: number;
   cost_increments: number;
   bot_enabled?: boolean;
+  auto_advance?: boolean;
+  absent_policy?: AbsentPolicy;
+  absent_grace_seconds?: number;
   passcode?: string;
   admin_password?: string;
+  owner_id?: string;
+  tags?: Record<string, string>;
+  treatments?: TreatmentBlock[];
+}
+
+export interface InstructorCredentials {
+  email: string;
+  password: string;
+  name?: string;
 }
 
 export interface JoinSessionRequest {
@@ -108,18 +198,6 @@ export interface JoinSessionRequest {
   passcode?: string;
 }
 
-export interface SubmitBidRequest {
-  round_id: string;
-  player_id: string;
-  price: number;
-}
-
-export interface SubmitAskRequest {
-  round_id: string;
-  player_id: string;
-  price: number;
-}
-
 // ============================================================================
 // WEBSOCKET EVENT TYPES
 // ============================================================================
@@ -150,9 +228,19 @@ export interface RoundEndedEvent {
   trades: Trade[];
 }
 
-export interface TimerUpdateEvent {
-  round_id: string;
-  seconds_remaining: number;
+// Deadlines are server epoch ms and null while paused; remainingMs is
+// always filled in so a paused countdown can still show its time
+export interface RoundClockEvent {
+  roundId: string;
+  serverNow: number;
+  paused: boolean;
+  endsAt: number | null;
+  remainingMs: number | null;
+  phase: {
+    name: string;
+    endsAt: number | null;
+    remainingMs: number;
+  } | null;
 }
 
 export interface PlayerJoinedEvent {
@@ -0,0 +1,624 @@
+import { GameHarness } from '../harness';
+import { DoubleAuctionEngine } from '../../src/engines/doubleAuction/DoubleAuctionEngine';
+import { TaxSubsidyEngine } from '../../src/engines/doubleAuction/TaxSubsidyEngine';
+import { PriceControlsEngine } from '../../src/engines/doubleAuction/PriceControlsEngine';
+import { generateUnitSchedule, drawUnitSchedule, parseValueTable, clearCallMarket } from '../../src/services/gameLogic';
+import { RoundClock } from '../../src/services/RoundClock';
+
+describe('double auction', () => {
+  let h: GameHarness<DoubleAuctionEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession();
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ market_size: 4 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ market_size: 1 }).valid).toBe(false);
+  });
+
+  it('leaves valuations and costs to the join flow', async () => {
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    await h.setup();
+    expect(h.player(buyer)).toMatchObject({ role: 'buyer', valuation: 80 });
+  });
+
+  it('rejects orders outside the player\'s value and wrong-side orders', async () => {
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+
+    expect(await h.act(buyer, { type: 'bid', price: 0 })).toEqual({
+      success: false,
+      error: 'Price must be a positive number',
+    });
+    expect((await h.act(buyer, { type: 'bid', price: 90 })).error).toMatch(/cannot exceed your valuation/);
+    expect((await h.act(seller, { type: 'ask', price: 20 })).error).toMatch(/cannot be below your cost/);
+    expect((await h.act(buyer, { type: 'ask', price: 50 })).error).toBe('Only sellers can submit asks');
+    expect((await h.act(seller, { type: 'offer', price: 50 })).error).toBe('Unknown action type: offer');
+
+    h.round.status = 'completed';
+    expect((await h.act(buyer, { type: 'bid', price: 50 })).error).toBe('Round is not active');
+  });
+
+  it('rests non-crossing orders in the book', async () => {
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+
+    await h.actOk(buyer, { type: 'bid', price: 40 });
+    await h.actOk(seller, { type: 'ask', price: 50 });
+
+    expect(h.io.events('bid-submitted', h.room)).toHaveLength(1);
+    expect(h.io.events('ask-submitted', h.room)).toHaveLength(1);
+    expect(h.io.events('trade-executed')).toHaveLength(0);
+
+    const state = await h.state();
+    expect(state.bids.map((b: any) => b.price)).toEqual([40]);
+    expect(state.asks.map((a: any) => a.price)).toEqual([50]);
+    expect(state.trades).toEqual([]);
+  });
+
+  it('trades at the midpoint when orders cross and pays both sides', async () => {
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+
+    await h.actOk(seller, { type: 'ask', price: 40 });
+    await h.actOk(buyer, { type: 'bid', price: 60 });
+
+    // price 50: buyer 80 - 50, seller 50 - 30
+    expect(h.io.last('trade-executed', h.room)).toMatchObject({
+      trade: { price: 50, buyer_profit: 30, seller_profit: 20 },
+      buyer: { id: buyer.id },
+      seller: { id: seller.id },
+    });
+    expect(Number(h.player(buyer).total_profit)).toBe(30);
+    expect(Number(h.player(seller).total_profit)).toBe(20);
+
+    const state = await h.state();
+    expect(state.bids).toEqual([]);
+    expect(state.asks).toEqual([]);
+    expect(state.trades).toHaveLength(1);
+
+    const result = await h.endRound();
+    expect(h.profitOf(result, buyer)).toBe(30);
+    expect(h.profitOf(result, seller)).toBe(20);
+    expect(result.summary).toMatchObject({ totalTrades: 1, averagePrice: 50 });
+  });
+
+  it('matches the best bid with the best ask and deactivates leftovers at round end', async () => {
+    const [b1, b2] = [h.addPlayer('buyer', { valuation: 100 }), h.addPlayer('buyer', { valuation: 100 })];
+    const [s1, s2] = [h.addPlayer('seller', { production_cost: 10 }), h.addPlayer('seller', { production_cost: 10 })];
+    await h.startRound();
+
+    await h.actOk(b1, { type: 'bid', price: 30 });
+    await h.actOk(b2, { type: 'bid', price: 50 });
+    await h.actOk(s1, { type: 'ask', price: 40 });
+
+    expect(h.io.last('trade-executed')).toMatchObject({ trade: { price: 45 }, buyer: { id: b2.id } });
+
+    await h.actOk(s2, { type: 'ask', price: 60 });
+    const result = await h.endRound();
+
+    expect(result.summary.totalTrades).toBe(1);
+    expect(h.profitOf(result, b1)).toBeUndefined();
+    expect(h.store.bids.filter((b) => b.is_active)).toEqual([]);
+    expect(h.store.asks.filter((a) => a.is_active)).toEqual([]);
+  });
+
+  it('stores the round\'s efficiency and splits the lost surplus', async () => {
+    h.addPlayer('buyer', { valuation: 100 });
+    const b2 = h.addPlayer('buyer', { valuation: 60 });
+    h.addPlayer('seller', { production_cost: 10 });
+    const s2 = h.addPlayer('seller', { production_cost: 50 });
+    await h.startRound();
+
+    await h.actOk(b2, { type: 'bid', price: 55 });
+    await h.actOk(s2, { type: 'ask', price: 55 });
+    const result = await h.endRound();
+
+    const expected = { realizedSurplus: 10, maxSurplus: 100, efficiency: 10, lostSurplus: 90, missedTradeLoss: 90 };
+    expect(result.summary.surplus).toMatchObject(expected);
+    expect(h.round.surplus).toMatchObject(expected);
+  });
+});
+
+describe('multi-unit double auction', () => {
+  let h: GameHarness<DoubleAuctionEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ units_per_trader: 3 });
+  });
+
+  afterEach(() => h.teardown());
+
+  const buyerSchedule = { valuation: 90, game_data: { unitValues: [90, 70, 50] } };
+  const sellerSchedule = { production_cost: 20, game_data: { unitValues: [20, 40, 60] } };
+
+  it('draws declining valuations for buyers and rising costs for sellers', () => {
+    const session = { ...h.session, valuation_min: 20, valuation_max: 100, cost_min: 10, cost_max: 90 };
+    const valuations = generateUnitSchedule('buyer', session, 3);
+    const costs = generateUnitSchedule('seller', session, 3);
+    expect(valuations).toHaveLength(3);
+    expect([...valuations].sort((a, b) => b - a)).toEqual(valuations);
+    expect([...costs].sort((a, b) => a - b)).toEqual(costs);
+    expect(generateUnitSchedule('buyer', session, 0)).toHaveLength(1);
+  });
+
+  it('validates units per trader', () => {
+    expect(h.engine.validateConfig({ units_per_trader: 4 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ units_per_trader: 0 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ units_per_trader: 1.5 }).valid).toBe(false);
+  });
+
+  it('works through each trader\'s schedule one unit at a time', async () => {
+    const buyer = h.addPlayer('buyer', buyerSchedule);
+    const seller = h.addPlayer('seller', sellerSchedule);
+    await h.startRound();
+
+    await h.actOk(seller, { type: 'ask', price: 30 });
+    await h.actOk(buyer, { type: 'bid', price: 50 });
+    // unit 1 at 40: buyer 90 - 40, seller 40 - 20
+    expect(h.io.last('trade-executed')).toMatchObject({
+      trade: { price: 40, buyer_profit: 50, seller_profit: 20, buyer_unit: 1, seller_unit: 1 },
+    });
+
+    expect((await h.state(buyer)).myUnits).toEqual({ values: [90, 70, 50], traded: 1, currentUnit: 2, currentValue: 70 });
+    expect((await h.act(buyer, { type: 'bid', price: 75 })).error).toBe('Bid (75) cannot exceed your valuation (70)');
+    expect((await h.act(seller, { type: 'ask', price: 35 })).error).toBe('Ask (35) cannot be below your cost (40)');
+
+    await h.actOk(seller, { type: 'ask', price: 45 });
+    await h.actOk(buyer, { type: 'bid', price: 65 });
+    // unit 2 at 55: buyer 70 - 55, seller 55 - 40
+    expect(h.io.last('trade-executed')).toMatchObject({
+      trade: { price: 55, buyer_profit: 15, seller_profit: 15, buyer_unit: 2, seller_unit: 2 },
+    });
+
+    expect(Number(h.player(buyer).total_profit)).toBe(65);
+    const result = await h.endRound();
+    expect(result.playerResults.filter((r) => r.playerId === seller.id).map((r) => r.resultData?.unit)).toEqual([1, 2]);
+  });
+
+  it('keeps one standing order per trader and side', async () => {
+    const buyer = h.addPlayer('buyer', buyerSchedule);
+    await h.startRound();
+
+    await h.actOk(buyer, { type: 'bid', price: 30 });
+    await h.actOk(buyer, { type: 'bid', price: 35 });
+
+    const state = await h.state();
+    expect(state.bids.map((b: any) => [b.price, b.unit_number])).toEqual([[35, 1]]);
+  });
+
+  it('refuses orders once every unit has traded', async () => {
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', sellerSchedule);
+    await h.startRound();
+
+    await h.actOk(seller, { type: 'ask', price: 30 });
+    await h.actOk(buyer, { type: 'bid', price: 60 });
+
+    expect((await h.state(buyer)).myUnits).toMatchObject({ traded: 1, currentUnit: null, currentValue: null });
+    expect((await h.act(buyer, { type: 'bid', price: 50 })).error).toBe('You have no units left to trade this round');
+  });
+});
+
+describe('double auction values across rounds', () => {
+  let h: GameHarness<DoubleAuctionEngine>;
+
+  afterEach(() => h.teardown());
+
+  const valuesOf = (round: { id: string }) =>
+    h.store.roundValues.filter((rv) => rv.round_id === round.id).map((rv) => rv.unit_values);
+
+  it('parses induced-value tables and rejects malformed ones', () => {
+    expect(parseValueTable('# week 4 design\nbuyer, 50, 90, 70\nseller 20;60;40\n\nbuyer: 80')).toEqual({
+      table: { buyers: [[90, 70, 50], [80]], sellers: [[20, 40, 60]] },
+    });
+    expect(parseValueTable('buyer, 90\ntrader, 10').error).toBe('Line 2: role must be "buyer" or "seller"');
+    expect(parseValueTable('buyer, 90\nseller, -5').error).toBe('Line 2: expected one or more non-negative values');
+    expect(parseValueTable('buyer, 90').error).toMatch(/at least one buyer and one seller/);
+
+    h = new GameHarness(new DoubleAuctionEngine());
+    expect(h.engine.validateConfig({ value_table: 'buyer, x' }).error).toMatch(/^Invalid value table: Line 1/);
+    expect(h.engine.validateConfig({ redraw_every: -1 }).valid).toBe(false);
+  });
+
+  it('hands out table rows in join order', () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    const session = h.createSession({ value_table: 'buyer, 90, 70\nbuyer, 60, 50\nseller, 20' });
+    expect(drawUnitSchedule('buyer', session, 0)).toEqual([90, 70]);
+    expect(drawUnitSchedule('buyer', session, 1)).toEqual([60, 50]);
+    expect(drawUnitSchedule('buyer', session, 2)).toEqual([90, 70]);
+    expect(drawUnitSchedule('seller', session, 0)).toEqual([20]);
+  });
+
+  it('records each round\'s values and shifts them from the shock round on', async () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ shock_round: 2, demand_shift: 10, supply_shift: -5 });
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+
+    const round1 = await h.startRound();
+    expect(valuesOf(round1)).toEqual([[80], [30]]);
+    await h.endRound();
+
+    const round2 = await h.startRound();
+    expect(valuesOf(round2)).toEqual([[90], [25]]);
+    expect(h.player(buyer).valuation).toBe(90);
+    expect(h.player(seller).production_cost).toBe(25);
+    // The bid limit follows the shocked value
+    await h.actOk(buyer, { type: 'bid', price: 85 });
+    await h.endRound();
+
+    // Shocks apply to the base schedule, so they don't compound
+    const round3 = await h.startRound();
+    expect(valuesOf(round3)).toEqual([[90], [25]]);
+  });
+
+  it('redraws schedules every N rounds', async () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ redraw_every: 2, value_table: 'buyer, 90, 70\nseller, 20, 40' });
+    h.addPlayer('buyer', { valuation: 10 });
+    h.addPlayer('seller', { production_cost: 5 });
+
+    const rounds = [];
+    for (let i = 0; i < 3; i++) {
+      rounds.push(await h.startRound());
+      await h.endRound();
+    }
+    // Round 1 keeps the join-time values; round 3 is the first redraw
+    expect(valuesOf(rounds[0])).toEqual([[10], [5]]);
+    expect(valuesOf(rounds[1])).toEqual([[10], [5]]);
+    expect(valuesOf(rounds[2])).toEqual([[90, 70], [20, 40]]);
+  });
+});
+
+describe('double auction trading institutions', () => {
+  let h: GameHarness<DoubleAuctionEngine>;
+
+  afterEach(() => {
+    jest.useRealTimers();
+    h.teardown();
+  });
+
+  const crossOnce = async (config: Record<string, any>, first: 'bid' | 'ask') => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession(config);
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+    if (first === 'ask') {
+      await h.actOk(seller, { type: 'ask', price: 40 });
+      await h.actOk(buyer, { type: 'bid', price: 60 });
+    } else {
+      await h.actOk(buyer, { type: 'bid', price: 60 });
+      await h.actOk(seller, { type: 'ask', price: 40 });
+    }
+    return h.io.last('trade-executed')?.trade.price;
+  };
+
+  it('prices continuous trades by the configured rule', async () => {
+    expect(await crossOnce({ pricingRule: 'standing' }, 'ask')).toBe(40);
+    h.teardown();
+    expect(await crossOnce({ pricingRule: 'standing' }, 'bid')).toBe(60);
+    h.teardown();
+    expect(await crossOnce({ pricingRule: 'bid' }, 'ask')).toBe(60);
+    h.teardown();
+    expect(await crossOnce({ pricingRule: 'ask' }, 'bid')).toBe(40);
+    h.teardown();
+    expect(await crossOnce({}, 'bid')).toBe(50);
+    expect(h.engine.validateConfig({ pricingRule: 'vwap' }).valid).toBe(false);
+  });
+
+  it('clears a call market at one uniform price', () => {
+    const order = (price: number, role: string) =>
+      ({ id: `${role}-${price}`, price, created_at: new Date(), player: { role } }) as any;
+    const bids = [60, 50, 30].map((p) => order(p, 'buyer'));
+    const asks = [20, 40, 55].map((p) => order(p, 'seller'));
+
+    // Two units cross; clearing range is [max(40, 30), min(50, 55)] = [40, 50]
+    const { price, matches } = clearCallMarket(bids, asks);
+    expect(price).toBe(45);
+    expect(matches.map((m) => [m.bid.price, m.ask.price, m.price])).toEqual([[60, 20, 45], [50, 40, 45]]);
+    expect(clearCallMarket([order(10, 'buyer')], [order(20, 'seller')])).toEqual({ price: null, matches: [] });
+  });
+
+  it('holds orders until each call and clears again at round end', async () => {
+    jest.useFakeTimers();
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ marketMode: 'call', callInterval: 30 });
+    const [b1, b2] = [h.addPlayer('buyer', { valuation: 100 }), h.addPlayer('buyer', { valuation: 100 })];
+    const [s1, s2] = [h.addPlayer('seller', { production_cost: 10 }), h.addPlayer('seller', { production_cost: 10 })];
+    await h.startRound();
+
+    await h.actOk(b1, { type: 'bid', price: 60 });
+    await h.actOk(s1, { type: 'ask', price: 40 });
+    expect(h.io.events('trade-executed')).toHaveLength(0);
+    expect((await h.state()).callMarket.nextCallAt).toBeGreaterThan(Date.now());
+
+    await jest.advanceTimersByTimeAsync(30_000);
+    expect(h.io.last('call-cleared', h.room)).toMatchObject({ price: 50, volume: 1 });
+    expect(Number(h.player(b1).total_profit)).toBe(50);
+
+    await h.actOk(b2, { type: 'bid', price: 70 });
+    await h.actOk(s2, { type: 'ask', price: 50 });
+    await h.endRound();
+    expect(h.io.last('call-cleared')).toMatchObject({ price: 60, volume: 1 });
+    expect(h.store.trades).toHaveLength(2);
+    expect((await h.state()).callMarket).toBeUndefined();
+  });
+
+  it('holds call clearings while the round is paused and moves them back with added time', async () => {
+    jest.useFakeTimers();
+    const clock = RoundClock.getInstance();
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ marketMode: 'call', callInterval: 30 });
+    const [buyer, seller] = [h.addPlayer('buyer', { valuation: 100 }), h.addPlayer('seller', { production_cost: 10 })];
+    const round = await h.startRound();
+    await h.actOk(buyer, { type: 'bid', price: 60 });
+    await h.actOk(seller, { type: 'ask', price: 40 });
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    clock.pause(round.id);
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(h.io.events('call-cleared')).toHaveLength(0);
+    expect((await h.state()).callMarket.nextCallAt).toBeNull();
+
+    clock.resume(round.id);
+    clock.addTime(round.id, 15_000);
+    await jest.advanceTimersByTimeAsync(34_000);
+    expect(h.io.events('call-cleared')).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(h.io.last('call-cleared', h.room)).toMatchObject({ price: 50, volume: 1 });
+
+    await h.endRound();
+    clock.clear(round.id);
+  });
+
+  it('shows the next clearing as a phase, which simulated time steps through', async () => {
+    const clock = RoundClock.getInstance();
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ marketMode: 'call', callInterval: 30 });
+    const [buyer, seller] = [h.addPlayer('buyer', { valuation: 100 }), h.addPlayer('seller', { production_cost: 10 })];
+    const round = await h.startRound();
+    clock.simulate(round.id);
+    expect(h.engine.getPhaseClock(round.id)).toEqual({ phase: 'call', remainingMs: 30_000 });
+
+    await h.actOk(buyer, { type: 'bid', price: 60 });
+    await h.actOk(seller, { type: 'ask', price: 40 });
+    await clock.fastForward(round.id, 70_000);
+    expect(h.io.events('call-cleared', h.room).map((c) => c.volume)).toEqual([1, 0]);
+    expect(h.engine.getPhaseClock(round.id)).toEqual({ phase: 'call', remainingMs: 20_000 });
+
+    await h.endRound();
+    expect(h.engine.getPhaseClock(round.id)).toBeNull();
+    clock.clear(round.id);
+  });
+});
+
+describe('double auction order management', () => {
+  let h: GameHarness<DoubleAuctionEngine>;
+
+  afterEach(() => h.teardown());
+
+  it('cancels a standing order and records why each order closed', async () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession();
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const [seller, other] = [h.addPlayer('seller', { production_cost: 30 }), h.addPlayer('seller', { production_cost: 30 })];
+    await h.startRound();
+
+    expect((await h.act(buyer, { type: 'cancel' })).error).toBe('You have no open order to cancel');
+    await h.actOk(buyer, { type: 'bid', price: 40 });
+    const [bid] = h.store.bids;
+    await h.actOk(buyer, { type: 'cancel' });
+    expect(h.io.last('order-cancelled', h.room)).toEqual({ side: 'bid', orderId: bid.id, playerId: buyer.id });
+    expect((await h.state()).bids).toEqual([]);
+    expect((await h.act(buyer, { type: 'cancel', orderId: bid.id })).error).toBe('That order is no longer open');
+
+    await h.actOk(buyer, { type: 'bid', price: 45 });
+    await h.actOk(buyer, { type: 'bid', price: 50 });
+    await h.actOk(seller, { type: 'ask', price: 70 });
+    await h.actOk(seller, { type: 'ask', price: 50 });
+    await h.actOk(other, { type: 'ask', price: 75 });
+    await h.endRound();
+
+    expect(h.store.bids.map((b) => b.status)).toEqual(['cancelled', 'replaced', 'filled']);
+    expect(h.store.asks.map((a) => a.status)).toEqual(['replaced', 'filled', 'expired']);
+    expect(h.store.asks.every((a) => a.closed_at)).toBe(true);
+  });
+
+  it('replaces a standing order at a new price', async () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession();
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+
+    expect((await h.act(seller, { type: 'replace', price: 60 })).error).toBe('No standing order to replace');
+    await h.actOk(seller, { type: 'ask', price: 70 });
+    await h.actOk(seller, { type: 'replace', price: 60 });
+    expect((await h.state()).asks.map((a: any) => a.price)).toEqual([60]);
+    expect((await h.act(seller, { type: 'replace', price: 20 })).error).toMatch(/cannot be below your cost/);
+  });
+
+  it('enforces the improvement rule when enabled', async () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession({ improvementRule: true });
+    const [b1, b2] = [h.addPlayer('buyer', { valuation: 80 }), h.addPlayer('buyer', { valuation: 80 })];
+    const [s1, s2] = [h.addPlayer('seller', { production_cost: 10 }), h.addPlayer('seller', { production_cost: 10 })];
+    await h.startRound();
+
+    await h.actOk(b1, { type: 'bid', price: 40 });
+    expect((await h.act(b2, { type: 'bid', price: 40 })).error).toBe('Bid must beat the current best bid ($40.00)');
+    await h.actOk(b2, { type: 'bid', price: 42 });
+
+    await h.actOk(s1, { type: 'ask', price: 60 });
+    expect((await h.act(s2, { type: 'ask', price: 65 })).error).toBe('Ask must beat the current best ask ($60.00)');
+    await h.actOk(s2, { type: 'ask', price: 55 });
+
+    // Cancelling the best ask reopens the book at the next one
+    await h.actOk(s2, { type: 'cancel' });
+    await h.actOk(s2, { type: 'ask', price: 58 });
+
+    // The holder of the best bid can still reprice it against the rest
+    await h.actOk(b2, { type: 'replace', price: 41 });
+    expect((await h.act(b2, { type: 'replace', price: 40 })).error).toBe('Bid must beat the current best bid ($40.00)');
+  });
+
+  it('posts an order only once any trade in flight has settled', async () => {
+    h = new GameHarness(new DoubleAuctionEngine());
+    h.createSession();
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+    await h.actOk(seller, { type: 'ask', price: 40 });
+
+    // The buyer's one unit trades on the first bid; the second must not be
+    // left standing for it
+    const results = await Promise.all([
+      h.act(buyer, { type: 'bid', price: 60 }),
+      h.act(buyer, { type: 'bid', price: 50 }),
+    ]);
+
+    expect(results.filter((r) => r.success)).not.toHaveLength(0);
+    expect(h.store.trades).toHaveLength(1);
+    expect((await h.state()).bids).toEqual([]);
+  });
+
+  it('lets cancels through price controls', async () => {
+    const controlled = new GameHarness(new PriceControlsEngine());
+    h = controlled;
+    controlled.createSession({ controlType: 'ceiling', controlPrice: 35 });
+    const buyer = controlled.addPlayer('buyer', { valuation: 80 });
+    await controlled.startRound();
+
+    await controlled.actOk(buyer, { type: 'bid', price: 30 });
+    await controlled.actOk(buyer, { type: 'cancel' });
+    expect((await controlled.act(buyer, { type: 'replace', price: 40 })).error).toMatch(/exceeds the price ceiling/);
+  });
+});
+
+describe('double auction with tax', () => {
+  let h: GameHarness<TaxSubsidyEngine>;
+
+  afterEach(() => h.teardown());
+
+  const tradeOnce = async (config: Record<string, any>) => {
+    h = new GameHarness(new TaxSubsidyEngine());
+    h.createSession(config);
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+    await h.startRound();
+    await h.actOk(seller, { type: 'ask', price: 40 });
+    await h.actOk(buyer, { type: 'bid', price: 60 });
+    return { buyer, seller, result: await h.endRound() };
+  };
+
+  it('validates config', () => {
+    h = new GameHarness(new TaxSubsidyEngine());
+    expect(h.engine.validateConfig({ taxType: 'seller', taxAmount: 5 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ taxAmount: '5' }).valid).toBe(false);
+    expect(h.engine.validateConfig({ taxType: 'government' }).valid).toBe(false);
+  });
+
+  it('charges a buyer-side tax to the buyer', async () => {
+    const { buyer, seller, result } = await tradeOnce({ taxType: 'buyer', taxAmount: 10 });
+    // price 50: buyer 80 - 50 - 10, seller unchanged
+    expect(h.profitOf(result, buyer)).toBe(20);
+    expect(h.profitOf(result, seller)).toBe(20);
+    expect(h.io.last('trade-executed')).toMatchObject({ taxInfo: { taxType: 'buyer', taxAmount: 10 } });
+  });
+
+  it('charges a seller-side tax to the seller', async () => {
+    const { buyer, seller, result } = await tradeOnce({ taxType: 'seller', taxAmount: 10 });
+    expect(h.profitOf(result, buyer)).toBe(30);
+    expect(h.profitOf(result, seller)).toBe(10);
+  });
+
+  it('introduces the tax in its treatment block', async () => {
+    h = new GameHarness(new TaxSubsidyEngine());
+    h.createSession({ taxType: 'buyer', taxAmount: 0 }, {
+      treatments: [{ label: 'Tax', startRound: 2, overrides: { taxAmount: 10 } }],
+    });
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 30 });
+
+    const profits: Array<number | undefined> = [];
+    for (let round = 1; round <= 2; round++) {
+      await h.startRound();
+      await h.actOk(seller, { type: 'ask', price: 40 });
+      await h.actOk(buyer, { type: 'bid', price: 60 });
+      profits.push(h.profitOf(await h.endRound(), buyer));
+    }
+
+    expect(profits).toEqual([30, 20]);
+    expect(h.io.last('trade-executed')).toMatchObject({ taxInfo: { taxAmount: 10 } });
+  });
+
+  it('taxes each unit against that unit\'s own value', async () => {
+    h = new GameHarness(new TaxSubsidyEngine());
+    h.createSession({ units_per_trader: 2, taxType: 'buyer', taxAmount: 10 });
+    const buyer = h.addPlayer('buyer', { valuation: 90, game_data: { unitValues: [90, 70] } });
+    const seller = h.addPlayer('seller', { production_cost: 20, game_data: { unitValues: [20, 40] } });
+    await h.startRound();
+
+    await h.actOk(seller, { type: 'ask', price: 30 });
+    await h.actOk(buyer, { type: 'bid', price: 50 });
+    await h.actOk(seller, { type: 'ask', price: 45 });
+    await h.actOk(buyer, { type: 'bid', price: 65 });
+
+    // (90 - 40 - 10) + (70 - 55 - 10)
+    expect(Number(h.player(buyer).total_profit)).toBe(45);
+    expect(h.io.last('trade-executed')).toMatchObject({ trade: { buyer_unit: 2, seller_unit: 2 } });
+  });
+
+  it('treats a negative tax as a subsidy', async () => {
+    const { buyer, result } = await tradeOnce({ taxType: 'buyer', taxAmount: -5 });
+    expect(h.profitOf(result, buyer)).toBe(35);
+    expect(Number(h.player(buyer).total_profit)).toBe(35);
+  });
+});
+
+describe('double auction with price controls', () => {
+  let h: GameHarness<PriceControlsEngine>;
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    h = new GameHarness(new PriceControlsEngine());
+    expect(h.engine.validateConfig({ controlType: 'floor', controlPrice: 40 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ controlPrice: 0 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ controlType: 'band' }).valid).toBe(false);
+  });
+
+  it('rejects orders above a ceiling and trades below it', async () => {
+    h = new GameHarness(new PriceControlsEngine());
+    h.createSession({ controlType: 'ceiling', controlPrice: 35 });
+    const buyer = h.addPlayer('buyer', { valuation: 80 });
+    const seller = h.addPlayer('seller', { production_cost: 20 });
+    await h.startRound();
+
+    expect((await h.act(buyer, { type: 'bid', price: 40 })).error).toMatch(/exceeds the price ceiling of \$35\.00/);
+    await h.actOk(seller, { type: 'ask', price: 30 });
+    await h.actOk(buyer, { type: 'bid', price: 35 });
+
+    expect(h.io.last('trade-executed')).toMatchObject({ trade: { price: 32.5 } });
+    expect((await h.state()).priceControl).toEqual({ controlType: 'ceiling', controlPrice: 35 });
+  });
+
+  it('rejects orders below a floor', async () => {
+    h = new GameHarness(new PriceControlsEngine());
+    h.createSession({ controlType: 'floor', controlPrice: 50 });
+    const seller = h.addPlayer('seller', { production_cost: 20 });
+    await h.startRound();
+
+    expect((await h.act(seller, { type: 'ask', price: 45 })).error).toMatch(/below the price floor of \$50\.00/);
+    await h.actOk(seller, { type: 'ask', price: 55 });
+  });
+});
@@ -0,0 +1,280 @@
+import { GameHarness } from '../harness';
+import type { SequentialBaseEngine } from '../../src/engines/sequential/SequentialBaseEngine';
+import { UltimatumEngine } from '../../src/engines/sequential/UltimatumEngine';
+import { GiftExchangeEngine } from '../../src/engines/sequential/GiftExchangeEngine';
+import { PrincipalAgentEngine } from '../../src/engines/sequential/PrincipalAgentEngine';
+import { TrustGameEngine } from '../../src/engines/sequential/TrustGameEngine';
+import { BargainingEngine } from '../../src/engines/sequential/BargainingEngine';
+import { MarketForLemonsEngine } from '../../src/engines/specialized/MarketForLemonsEngine';
+
+interface PairScenario {
+  name: string;
+  engine: () => SequentialBaseEngine;
+  roles: [string, string];
+  config: Record<string, any>;
+  first: Record<string, any>;
+  second: Record<string, any>;
+  /** [first mover profit, second mover profit] */
+  payoffs: [number, number];
+  invalidConfig: Record<string, any>;
+  invalidFirst: Record<string, any>;
+  invalidSecond: Record<string, any>;
+  /** Pin Math.random for engines with chance moves */
+  random?: number;
+}
+
+const scenarios: PairScenario[] = [
+  {
+    name: 'ultimatum (accepted offer)',
+    engine: () => new UltimatumEngine(),
+    roles: ['proposer', 'responder'],
+    config: { endowment: 10 },
+    first: { offer: 4 },
+    second: { accept: true },
+    payoffs: [6, 4],
+    invalidConfig: { endowment: 0 },
+    invalidFirst: { offer: 11 },
+    invalidSecond: { accept: 'yes' },
+  },
+  {
+    name: 'ultimatum (rejected offer)',
+    engine: () => new UltimatumEngine(),
+    roles: ['proposer', 'responder'],
+    config: { endowment: 10 },
+    first: { offer: 1 },
+    second: { accept: false },
+    payoffs: [0, 0],
+    invalidConfig: { endowment: 10, minOffer: 20 },
+    invalidFirst: {},
+    invalidSecond: {},
+  },
+  {
+    name: 'gift exchange',
+    engine: () => new GiftExchangeEngine(),
+    roles: ['employer', 'worker'],
+    config: { maxEffort: 10, productivityMultiplier: 10, maxEffortCost: 20 },
+    first: { wage: 20 },
+    second: { effort: 5 },
+    // output 50 - wage 20; wage 20 - (5/10)^2 * 20
+    payoffs: [30, 15],
+    invalidConfig: { maxWage: 0 },
+    invalidFirst: { wage: -1 },
+    invalidSecond: { effort: 2.5 },
+  },
+  {
+    name: 'principal-agent (high effort, high output)',
+    engine: () => new PrincipalAgentEngine(),
+    roles: ['principal', 'agent'],
+    config: { highOutput: 100, lowOutput: 30, highEffortProb: 0.8, effortCost: 10 },
+    first: { fixedWage: 20, bonus: 30 },
+    second: { highEffort: true },
+    // output 100 - 20 - 30; 20 + 30 - effort cost 10
+    payoffs: [50, 40],
+    invalidConfig: { highOutput: 30, lowOutput: 50 },
+    invalidFirst: { fixedWage: 20 },
+    invalidSecond: { highEffort: 'high' },
+    random: 0.5,
+  },
+  {
+    name: 'principal-agent (low effort, low output)',
+    engine: () => new PrincipalAgentEngine(),
+    roles: ['principal', 'agent'],
+    config: { highOutput: 100, lowOutput: 30, lowEffortProb: 0.2, effortCost: 10 },
+    first: { fixedWage: 20, bonus: 30 },
+    second: { highEffort: false },
+    // output 30 - 20, no bonus; wage only, no effort cost
+    payoffs: [10, 20],
+    invalidConfig: { highEffortProb: 1.5 },
+    invalidFirst: { fixedWage: 20, bonus: 999 },
+    invalidSecond: {},
+    random: 0.5,
+  },
+  {
+    name: 'trust game',
+    engine: () => new TrustGameEngine(),
+    roles: ['sender', 'receiver'],
+    config: { endowment: 10, multiplier: 3 },
+    first: { amountSent: 5 },
+    second: { amountReturned: 6 },
+    // 10 - 5 + 6; 15 - 6
+    payoffs: [11, 9],
+    invalidConfig: { multiplier: 0.5 },
+    invalidFirst: { amountSent: 11 },
+    invalidSecond: { amountReturned: 16 },
+  },
+  {
+    name: 'bargaining',
+    engine: () => new BargainingEngine(),
+    roles: ['proposer', 'responder'],
+    config: { pieSize: 10 },
+    first: { keep: 7 },
+    second: { accept: true },
+    payoffs: [7, 3],
+    invalidConfig: { discountFactor: 1.5 },
+    invalidFirst: { keep: 12 },
+    invalidSecond: { accept: 1 },
+  },
+  {
+    name: 'market for lemons',
+    engine: () => new MarketForLemonsEngine(),
+    roles: ['seller', 'buyer'],
+    config: { sellerCostFraction: 0.5, buyerValueFraction: 1.5 },
+    first: { price: 12 },
+    second: { accept: true },
+    // Math.random() = 0 assigns quality 10: 12 - 5; 15 - 12
+    payoffs: [7, 3],
+    invalidConfig: { sellerCostFraction: 0 },
+    invalidFirst: { price: -1 },
+    invalidSecond: { accept: 'buy' },
+    random: 0,
+  },
+];
+
+describe.each(scenarios)('$name', (scenario) => {
+  let h: GameHarness<SequentialBaseEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(scenario.engine());
+    h.createSession(scenario.config);
+    if (scenario.random !== undefined) jest.spyOn(Math, 'random').mockReturnValue(scenario.random);
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig(scenario.config)).toEqual({ valid: true });
+    expect(h.engine.validateConfig(scenario.invalidConfig).valid).toBe(false);
+    expect(h.engine.validateConfig({ matching: 'speed_dating' }).valid).toBe(false);
+  });
+
+  it('leaves role assignment to the join flow', async () => {
+    const [first, second] = h.addPlayers(scenario.roles);
+    await h.setup();
+    expect(h.player(first).role).toBe(scenario.roles[0]);
+    expect(h.player(second).role).toBe(scenario.roles[1]);
+  });
+
+  it('rejects invalid and out-of-order moves', async () => {
+    const [first, second] = h.addPlayers(scenario.roles);
+    await h.startRound();
+
+    const early = await h.act(second, scenario.second);
+    expect(early).toEqual({ success: false, error: 'Your partner has not submitted yet. Please wait.' });
+
+    expect((await h.act(first, scenario.invalidFirst)).success).toBe(false);
+    await h.actOk(first, scenario.first);
+    expect((await h.act(first, scenario.first)).error).toMatch(/already submitted/);
+
+    expect((await h.act(second, scenario.invalidSecond)).success).toBe(false);
+  });
+
+  it('resolves the pair and pays both players', async () => {
+    const [first, second] = h.addPlayers(scenario.roles);
+    await h.startRound();
+
+    await h.actOk(first, scenario.first);
+    expect(h.io.last('first-move-submitted')).toMatchObject({ playerId: first.id, totalFirstMoves: 1 });
+    expect(h.io.last('partner-first-move', `player-${second.id}`)).toMatchObject({ playerId: first.id });
+
+    await h.actOk(second, scenario.second);
+    expect(h.io.last('round-results', h.room)).toBeDefined();
+
+    const result = await h.endRound();
+    expect(h.profitOf(result, first)).toBe(scenario.payoffs[0]);
+    expect(h.profitOf(result, second)).toBe(scenario.payoffs[1]);
+    expect(Number(h.player(first).total_profit)).toBe(scenario.payoffs[0]);
+    expect(Number(h.player(second).total_profit)).toBe(scenario.payoffs[1]);
+
+    const state = await h.state(second);
+    expect(state.myRole).toBe(scenario.roles[1]);
+    expect(state.pairs).toHaveLength(1);
+    expect(state.pairs[0]).toMatchObject({
+      firstMoverId: first.id,
+      secondMoverId: second.id,
+      firstMoverProfit: scenario.payoffs[0],
+      secondMoverProfit: scenario.payoffs[1],
+    });
+  });
+});
+
+describe('sequential matching protocols', () => {
+  let h: GameHarness<SequentialBaseEngine>;
+
+  afterEach(() => h.teardown());
+
+  const partnersOf = (roundId: string) =>
+    h.store.roundPairings
+      .filter((rp) => rp.round_id === roundId)
+      .map((rp) => `${rp.first_mover_id}:${rp.second_mover_id}`)
+      .sort();
+
+  it('keeps the same pairs every round under partners matching', async () => {
+    h = new GameHarness(new UltimatumEngine());
+    h.createSession({ matching: 'partners' });
+    h.addPlayers(['proposer', 'proposer', 'responder', 'responder']);
+
+    const round1 = await h.startRound();
+    const round2 = await h.startRound();
+    expect(partnersOf(round1.id)).toHaveLength(2);
+    expect(partnersOf(round2.id)).toEqual(partnersOf(round1.id));
+  });
+
+  it('keeps existing pairs when players join mid-session', async () => {
+    h = new GameHarness(new UltimatumEngine());
+    h.createSession({ matching: 'partners' });
+    h.addPlayers(['proposer', 'proposer', 'responder', 'responder']);
+
+    const round1 = await h.startRound();
+    const [lateProposer, lateResponder] = h.addPlayers(['proposer', 'responder']);
+    const round2 = await h.startRound();
+    expect(partnersOf(round2.id)).toEqual(
+      [...partnersOf(round1.id), `${lateProposer.id}:${lateResponder.id}`].sort()
+    );
+  });
+
+  it('never repeats a pair under perfect strangers matching', async () => {
+    h = new GameHarness(new TrustGameEngine());
+    h.createSession({ matching: 'perfect_strangers' });
+    h.addPlayers(['sender', 'sender', 'sender', 'receiver', 'receiver', 'receiver']);
+
+    const seen = new Set<string>();
+    for (let i = 0; i < 3; i++) {
+      const round = await h.startRound();
+      for (const pair of partnersOf(round.id)) {
+        expect(seen.has(pair)).toBe(false);
+        seen.add(pair);
+      }
+    }
+    expect(seen.size).toBe(9);
+  });
+
+  it('swaps roles from round 2 under role switching', async () => {
+    h = new GameHarness(new UltimatumEngine());
+    h.createSession({ matching: 'role_switching' });
+    const [a, b] = h.addPlayers(['proposer', 'responder']);
+
+    await h.startRound();
+    expect(h.player(a).role).toBe('proposer');
+
+    await h.startRound();
+    expect(h.player(a).role).toBe('responder');
+    expect(h.player(b).role).toBe('proposer');
+    expect(h.store.roundPairings.filter((rp) => rp.round_id === h.round.id)).toEqual([
+      expect.objectContaining({ first_mover_id: b.id, second_mover_id: a.id, matching: 'role_switching' }),
+    ]);
+  });
+
+  it('pays an unpaired player nothing when the round times out', async () => {
+    h = new GameHarness(new UltimatumEngine());
+    h.createSession({ endowment: 10 });
+    const [proposer, responder, extra] = h.addPlayers(['proposer', 'responder', 'proposer']);
+    await h.startRound();
+
+    await h.actOk(proposer, { offer: 5 });
+    const result = await h.endRound();
+
+    expect(h.profitOf(result, proposer)).toBe(0);
+    expect(h.profitOf(result, responder)).toBe(0);
+    expect(h.profitOf(result, extra)).toBe(0);
+  });
+});
@@ -0,0 +1,765 @@
+import { GameHarness } from '../harness';
+import type { GameEngine } from '../../src/engines/GameEngine';
+import { BertrandEngine } from '../../src/engines/simultaneous/BertrandEngine';
+import { CournotEngine } from '../../src/engines/simultaneous/CournotEngine';
+import { PublicGoodsEngine } from '../../src/engines/simultaneous/PublicGoodsEngine';
+import { NegativeExternalityEngine } from '../../src/engines/simultaneous/NegativeExternalityEngine';
+import { PrisonerDilemmaEngine } from '../../src/engines/simultaneous/PrisonerDilemmaEngine';
+import { BeautyContestEngine } from '../../src/engines/simultaneous/BeautyContestEngine';
+import { CommonPoolResourceEngine } from '../../src/engines/simultaneous/CommonPoolResourceEngine';
+import { StagHuntEngine } from '../../src/engines/simultaneous/StagHuntEngine';
+import { DictatorEngine } from '../../src/engines/simultaneous/DictatorEngine';
+import { MatchingPenniesEngine } from '../../src/engines/simultaneous/MatchingPenniesEngine';
+import { EllsbergEngine } from '../../src/engines/simultaneous/EllsbergEngine';
+import { NewsvendorEngine } from '../../src/engines/simultaneous/NewsvendorEngine';
+import { LindahlEngine } from '../../src/engines/simultaneous/LindahlEngine';
+import { PGAuctionEngine } from '../../src/engines/simultaneous/PGAuctionEngine';
+import { SealedBidOfferEngine } from '../../src/engines/simultaneous/SealedBidOfferEngine';
+import { SponsoredSearchEngine } from '../../src/engines/simultaneous/SponsoredSearchEngine';
+import { OfferAuctionEngine } from '../../src/engines/simultaneous/OfferAuctionEngine';
+import { BidAuctionEngine } from '../../src/engines/simultaneous/BidAuctionEngine';
+import { ElectricityMarketEngine } from '../../src/engines/simultaneous/ElectricityMarketEngine';
+import { DoubleDutchAuctionEngine } from '../../src/engines/simultaneous/DoubleDutchAuctionEngine';
+import { ComparativeAdvantageEngine } from '../../src/engines/specialized/ComparativeAdvantageEngine';
+import { MonopolyEngine } from '../../src/engines/specialized/MonopolyEngine';
+import { AuctionEngine } from '../../src/engines/specialized/AuctionEngine';
+import { DutchAuctionEngine } from '../../src/engines/specialized/DutchAuctionEngine';
+import { EnglishAuctionEngine } from '../../src/engines/specialized/EnglishAuctionEngine';
+import { DiscriminativeAuctionEngine } from '../../src/engines/specialized/DiscriminativeAuctionEngine';
+
+interface DecisionScenario {
+  name: string;
+  engine: () => GameEngine;
+  config: Record<string, any>;
+  invalidConfig: Record<string, any>;
+  invalidAction: Record<string, any>;
+  /** One decision per player, submitted in order */
+  actions: Record<string, any>[];
+  payoffs: number[];
+  /** Pin Math.random for engines with chance moves */
+  random?: number;
+}
+
+const scenarios: DecisionScenario[] = [
+  {
+    name: 'bertrand',
+    engine: () => new BertrandEngine(),
+    config: { marginalCost: 10, marketDemand: 100 },
+    invalidConfig: { marketDemand: 0 },
+    invalidAction: { price: 101 },
+    actions: [{ price: 20 }, { price: 30 }],
+    // lowest price takes all 100 units at a 10 margin
+    payoffs: [1000, 0],
+  },
+  {
+    name: 'bertrand (tied prices split demand)',
+    engine: () => new BertrandEngine(),
+    config: { marginalCost: 10, marketDemand: 100 },
+    invalidConfig: { marginalCost: -1 },
+    invalidAction: { price: -5 },
+    actions: [{ price: 20 }, { price: 20 }],
+    payoffs: [500, 500],
+  },
+  {
+    name: 'cournot',
+    engine: () => new CournotEngine(),
+    config: { demandIntercept: 100, demandSlope: 1, marginalCost: 10 },
+    invalidConfig: { demandSlope: 0 },
+    invalidAction: { quantity: 'lots' },
+    actions: [{ quantity: 30 }, { quantity: 30 }],
+    // P = 100 - 60 = 40, (40 - 10) * 30
+    payoffs: [900, 900],
+  },
+  {
+    name: 'public goods',
+    engine: () => new PublicGoodsEngine(),
+    config: { endowment: 20, mpcr: 0.4 },
+    invalidConfig: { mpcr: 0 },
+    invalidAction: { contribution: 21 },
+    actions: [{ contribution: 10 }, { contribution: 20 }, { contribution: 0 }],
+    // 0.4 * 30 = 12 from the pot plus whatever was kept
+    payoffs: [22, 12, 32],
+  },
+  {
+    name: 'negative externality',
+    engine: () => new NegativeExternalityEngine(),
+    config: { revenuePerUnit: 20, costPerUnit: 5, damageRate: 0.1 },
+    invalidConfig: { damageRate: -0.1 },
+    invalidAction: { production: 51 },
+    actions: [{ production: 10 }, { production: 10 }],
+    // 15 * 10 private profit, 0.1 * 20^2 = 40 damage split two ways
+    payoffs: [130, 130],
+  },
+  {
+    name: 'negative externality (Pigouvian tax)',
+    engine: () => new NegativeExternalityEngine(),
+    config: { revenuePerUnit: 20, costPerUnit: 5, damageRate: 0, taxEnabled: true, taxRate: 4 },
+    invalidConfig: { revenuePerUnit: 0 },
+    invalidAction: {},
+    actions: [{ production: 10 }, { production: 0 }],
+    // tax 40 collected from the producer, redistributed 20 / 20
+    payoffs: [130, 20],
+  },
+  {
+    name: 'prisoner dilemma',
+    engine: () => new PrisonerDilemmaEngine(),
+    config: { reward: 3, temptation: 5, sucker: 0, punishment: 1 },
+    invalidConfig: { reward: 3, temptation: 2 },
+    invalidAction: { choice: 'betray' },
+    actions: [{ choice: 'cooperate' }, { choice: 'defect' }],
+    payoffs: [0, 5],
+  },
+  {
+    name: 'beauty contest',
+    engine: () => new BeautyContestEngine(),
+    config: { fraction: 0.5, prize: 10 },
+    invalidConfig: { fraction: 1.5 },
+    invalidAction: { number: 101 },
+    actions: [{ number: 20 }, { number: 40 }, { number: 60 }],
+    // average 40, target 20
+    payoffs: [10, 0, 0],
+  },
+  {
+    name: 'common pool resource',
+    engine: () => new CommonPoolResourceEngine(),
+    config: { poolSize: 100, extractionValue: 1, regenerationRate: 0.5 },
+    invalidConfig: { poolSize: 0 },
+    invalidAction: { extraction: 26 },
+    actions: [{ extraction: 20 }, { extraction: 25 }],
+    // 55 left in the pool regenerates to a 27.5 bonus split two ways
+    payoffs: [33.75, 38.75],
+  },
+  {
+    name: 'stag hunt (coordination on stag)',
+    engine: () => new StagHuntEngine(),
+    config: { stagPayoff: 5, harePayoff: 3 },
+    invalidConfig: { stagPayoff: 3, harePayoff: 5 },
+    invalidAction: { choice: 'rabbit' },
+    actions: [{ choice: 'stag' }, { choice: 'stag' }],
+    payoffs: [5, 5],
+  },
+  {
+    name: 'stag hunt (miscoordination)',
+    engine: () => new StagHuntEngine(),
+    config: { stagPayoff: 5, harePayoff: 3 },
+    invalidConfig: { harePayoff: 0 },
+    invalidAction: {},
+    actions: [{ choice: 'stag' }, { choice: 'hare' }],
+    payoffs: [0, 3],
+  },
+  {
+    name: 'dictator',
+    engine: () => new DictatorEngine(),
+    config: { endowment: 10 },
+    invalidConfig: { endowment: 0 },
+    invalidAction: { give: 11 },
+    actions: [{ give: 3 }, { give: 0 }],
+    payoffs: [7, 10],
+  },
+  {
+    name: 'ellsberg',
+    engine: () => new EllsbergEngine(),
+    config: { prize: 10 },
+    invalidConfig: { prize: 0 },
+    invalidAction: { urn: 'known', color: 'green' },
+    actions: [{ urn: 'known', color: 'red' }, { urn: 'ambiguous', color: 'red' }],
+    // Math.random() = 0.1: known urn draws red; ambiguous urn has 10 red, draws black
+    payoffs: [10, 0],
+    random: 0.1,
+  },
+  {
+    name: 'newsvendor',
+    engine: () => new NewsvendorEngine(),
+    config: { unitCost: 5, sellingPrice: 10, salvageValue: 1, demandMin: 0, demandMax: 100 },
+    invalidConfig: { unitCost: 10, sellingPrice: 8 },
+    invalidAction: { orderQuantity: 10.5 },
+    actions: [{ orderQuantity: 60 }, { orderQuantity: 40 }],
+    // Math.random() = 0.5 draws demand 50
+    // 50 * 10 + 10 * 1 - 60 * 5; 40 * 10 - 40 * 5
+    payoffs: [210, 200],
+    random: 0.5,
+  },
+  {
+    name: 'comparative advantage',
+    engine: () => new ComparativeAdvantageEngine(),
+    config: { laborUnits: 100 },
+    invalidConfig: { laborUnits: 0 },
+    invalidAction: { laborGood1: 101 },
+    actions: [{ laborGood1: 50 }, { laborGood1: 50 }],
+    // sqrt(100 * 50) whichever good the country is better at
+    payoffs: [70.71, 70.71],
+  },
+  {
+    name: 'monopoly',
+    engine: () => new MonopolyEngine(),
+    config: { demandIntercept: 100, demandSlope: 1, marginalCost: 20 },
+    invalidConfig: { marginalCost: 100 },
+    invalidAction: { price: 10 },
+    actions: [{ price: 60 }, { price: 50 }],
+    // Q = 100 - P: (60 - 20) * 40; (50 - 20) * 50
+    payoffs: [1600, 1500],
+  },
+  // The private-value auctions below draw valuations with Math.random() = 0.5,
+  // so every bidder values the item at 10 + 0.5 * 90 = 55
+  {
+    name: 'first-price sealed bid auction',
+    engine: () => new AuctionEngine(),
+    config: { valueMin: 10, valueMax: 100, auctionType: 'first_price' },
+    invalidConfig: { auctionType: 'all_pay' },
+    invalidAction: { bid: -1 },
+    actions: [{ bid: 40 }, { bid: 30 }],
+    payoffs: [15, 0],
+    random: 0.5,
+  },
+  {
+    name: 'second-price sealed bid auction',
+    engine: () => new AuctionEngine(),
+    config: { valueMin: 10, valueMax: 100, auctionType: 'second_price' },
+    invalidConfig: { valueMin: 100, valueMax: 10 },
+    invalidAction: { bid: 'high' },
+    actions: [{ bid: 40 }, { bid: 30 }],
+    payoffs: [25, 0],
+    random: 0.5,
+  },
+  {
+    name: 'dutch auction',
+    engine: () => new DutchAuctionEngine(),
+    config: { valueMin: 10, valueMax: 100 },
+    invalidConfig: { valueMin: -1 },
+    invalidAction: {},
+    actions: [{ stopPrice: 40 }, { stopPrice: 30 }],
+    payoffs: [15, 0],
+    random: 0.5,
+  },
+  {
+    name: 'english auction',
+    engine: () => new EnglishAuctionEngine(),
+    config: { valueMin: 10, valueMax: 100 },
+    invalidConfig: { valueMax: 0 },
+    invalidAction: { maxBid: -1 },
+    actions: [{ maxBid: 50 }, { maxBid: 30 }],
+    payoffs: [25, 0],
+    random: 0.5,
+  },
+  {
+    name: 'discriminative auction',
+    engine: () => new DiscriminativeAuctionEngine(),
+    config: { valueMin: 10, valueMax: 100, numUnits: 2 },
+    invalidConfig: { numUnits: 0 },
+    invalidAction: { bid: null },
+    actions: [{ bid: 40 }, { bid: 30 }, { bid: 20 }],
+    // top two win and pay their own bids
+    payoffs: [15, 25, 0],
+    random: 0.5,
+  },
+];
+
+describe.each(scenarios)('$name', (scenario) => {
+  let h: GameHarness;
+  let players: ReturnType<GameHarness['addPlayers']>;
+
+  beforeEach(async () => {
+    h = new GameHarness(scenario.engine());
+    h.createSession(scenario.config);
+    if (scenario.random !== undefined) jest.spyOn(Math, 'random').mockReturnValue(scenario.random);
+    players = h.addPlayers(scenario.actions.map(() => 'player'));
+    await h.setup();
+    await h.startRound();
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig(scenario.config)).toEqual({ valid: true });
+    expect(h.engine.validateConfig(scenario.invalidConfig).valid).toBe(false);
+  });
+
+  it('rejects invalid and duplicate decisions', async () => {
+    expect((await h.act(players[0], scenario.invalidAction)).success).toBe(false);
+    await h.actOk(players[0], scenario.actions[0]);
+    expect((await h.act(players[0], scenario.actions[0])).error).toMatch(/already submitted/);
+    expect(h.io.last('action-submitted')).toMatchObject({ submitted: 1, total: players.length });
+  });
+
+  it('resolves once everyone has submitted', async () => {
+    for (let i = 0; i < players.length; i++) {
+      await h.actOk(players[i], scenario.actions[i]);
+    }
+    expect(h.io.events('round-results', h.room)).toHaveLength(1);
+
+    const result = await h.endRound();
+    players.forEach((p, i) => {
+      expect(h.profitOf(result, p)).toBe(scenario.payoffs[i]);
+      expect(Number(h.player(p).total_profit)).toBe(scenario.payoffs[i]);
+    });
+
+    const state = await h.state(players[0]);
+    expect(state.submitted).toBe(true);
+    expect(state.myAction).toEqual(scenario.actions[0]);
+    expect(state.results).toHaveLength(players.length);
+  });
+
+  it('pays non-submitters nothing when the timer expires', async () => {
+    await h.actOk(players[0], scenario.actions[0]);
+    const result = await h.endRound();
+
+    for (const p of players.slice(1)) {
+      expect(h.profitOf(result, p)).toBe(0);
+      expect(result.playerResults.find((r) => r.playerId === p.id)?.resultData.submitted).toBe(false);
+    }
+  });
+});
+
+describe('grouping', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new PublicGoodsEngine());
+  });
+
+  afterEach(() => h.teardown());
+
+  const groupOf = (result: Awaited<ReturnType<GameHarness['endRound']>>, player: { id: string }) =>
+    result.playerResults.find((r) => r.playerId === player.id)?.resultData.groupId;
+
+  it('validates group size and matching', () => {
+    expect(h.engine.validateConfig({ groupSize: 0 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ groupSize: 4, groupMatching: 'strangers' })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ groupSize: 1 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ groupSize: 2.5 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ groupMatching: 'random' }).valid).toBe(false);
+  });
+
+  it('plays each group separately and records its id', async () => {
+    h.createSession({ endowment: 20, mpcr: 0.4, groupSize: 2 });
+    const players = h.addPlayers(['player', 'player', 'player', 'player', 'player']);
+    await h.startRound();
+
+    await h.actOk(players[0], { contribution: 10 });
+    await h.actOk(players[1], { contribution: 20 });
+    await h.actOk(players[2], { contribution: 0 });
+    await h.actOk(players[3], { contribution: 20 });
+    const result = await h.endRound();
+
+    // Groups of two in join order; the odd player out joins the first group
+    expect(players.map((p) => groupOf(result, p))).toEqual([1, 1, 2, 2, 1]);
+    // Group 1's pot is 0.4 * 30 = 12, group 2's is 0.4 * 20 = 8
+    expect(players.map((p) => h.profitOf(result, p))).toEqual([22, 12, 28, 8, 0]);
+    expect(result.playerResults.find((r) => r.playerId === players[2].id)?.resultData.groupSize).toBe(2);
+  });
+
+  it('keeps partners together and reshuffles strangers', async () => {
+    h.createSession({ endowment: 20, mpcr: 0.4, groupSize: 2 });
+    const players = h.addPlayers(['player', 'player', 'player', 'player']);
+
+    for (let round = 0; round < 2; round++) {
+      await h.startRound();
+      const result = await h.endRound();
+      expect(players.map((p) => groupOf(result, p))).toEqual([1, 1, 2, 2]);
+    }
+
+    // A shuffle that always swaps with the front: [a, b, c, d] -> [b, c, d, a]
+    h.session.game_config.groupMatching = 'strangers';
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    await h.startRound();
+    const result = await h.endRound();
+    expect(players.map((p) => groupOf(result, p))).toEqual([2, 1, 1, 2]);
+  });
+
+  it('leaves results ungrouped by default', async () => {
+    h.createSession({ endowment: 20, mpcr: 0.4 });
+    const players = h.addPlayers(['player', 'player', 'player']);
+    await h.startRound();
+    await h.actOk(players[0], { contribution: 10 });
+    const result = await h.endRound();
+
+    expect(result.playerResults.every((r) => !('groupId' in r.resultData))).toBe(true);
+  });
+});
+
+describe('matching pennies', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new MatchingPenniesEngine());
+    h.createSession({ winPayoff: 1 });
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ winPayoff: 1 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ winPayoff: 0 }).valid).toBe(false);
+  });
+
+  it('pays the matcher when the coins match', async () => {
+    const players = h.addPlayers(['player', 'player']);
+    await h.startRound();
+    expect((await h.act(players[0], { choice: 'edge' })).success).toBe(false);
+
+    await h.actOk(players[0], { choice: 'heads' });
+    await h.actOk(players[1], { choice: 'heads' });
+    const result = await h.endRound();
+
+    // Matcher / mismatcher roles alternate over players sorted by id
+    const [matcher, mismatcher] = [...players].sort((a, b) => (a.id < b.id ? -1 : 1));
+    expect(h.profitOf(result, matcher)).toBe(1);
+    expect(h.profitOf(result, mismatcher)).toBe(-1);
+    expect((await h.state(matcher)).results).toHaveLength(2);
+  });
+});
+
+describe('lindahl', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new LindahlEngine());
+    h.createSession({ valueMin: 2, valueMax: 20, marginalCostPG: 10, maxQuantity: 50 });
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig(h.session.game_config)).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ valueMin: 20, valueMax: 10 }).valid).toBe(false);
+  });
+
+  it('draws a private value for every voter on setup and each round', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const players = h.addPlayers(['voter', 'voter']);
+    await h.setup();
+    expect(players.map((p) => h.player(p).valuation)).toEqual([11, 11]);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    await h.startRound();
+    expect(players.map((p) => h.player(p).valuation)).toEqual([20, 20]);
+  });
+
+  it('provides WTP / MC units and charges each voter their own WTP per unit', async () => {
+    const [a, b] = h.addPlayers(['voter', 'voter']);
+    await h.startRound();
+    h.player(a).valuation = 8;
+    h.player(b).valuation = 4;
+
+    expect((await h.act(a, { willingnessToPay: -1 })).success).toBe(false);
+    await h.actOk(a, { willingnessToPay: 6 });
+    await h.actOk(b, { willingnessToPay: 4 });
+    const result = await h.endRound();
+
+    // Q = (6 + 4) / 10 = 1; (8 - 6) * 1, (4 - 4) * 1
+    expect(h.profitOf(result, a)).toBe(2);
+    expect(h.profitOf(result, b)).toBe(0);
+    expect(result.playerResults[0].resultData.provisionLevel).toBe(1);
+  });
+});
+
+describe('public good auction', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new PGAuctionEngine());
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ provisionCost: 100 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ refundRule: 'partial' }).valid).toBe(false);
+  });
+
+  it('charges bids and pays values when the threshold is met', async () => {
+    h.createSession({ provisionCost: 50 });
+    const [a, b] = h.addPlayers(['voter', 'voter']);
+    await h.startRound();
+    h.player(a).valuation = 40;
+    h.player(b).valuation = 30;
+
+    await h.actOk(a, { bid: 30 });
+    await h.actOk(b, { bid: 20 });
+    const result = await h.endRound();
+
+    expect(h.profitOf(result, a)).toBe(10);
+    expect(h.profitOf(result, b)).toBe(10);
+  });
+
+  it('refunds bids under money-back and keeps them under no-refund', async () => {
+    for (const [refundRule, expected] of [['money_back', 0], ['no_refund', -10]] as const) {
+      h.teardown();
+      h = new GameHarness(new PGAuctionEngine());
+      h.createSession({ provisionCost: 100, refundRule });
+      const [a, b] = h.addPlayers(['voter', 'voter']);
+      await h.setup();
+      await h.startRound();
+
+      await h.actOk(a, { bid: 10 });
+      await h.actOk(b, { bid: 10 });
+      const result = await h.endRound();
+      expect(h.profitOf(result, a)).toBe(expected);
+    }
+  });
+});
+
+describe('sealed bid-offer', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new SealedBidOfferEngine());
+    h.createSession({});
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({})).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ costMin: 50, costMax: 40 }).valid).toBe(false);
+  });
+
+  it('splits the session into buyers and sellers on setup', async () => {
+    const players = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    const roles = players.map((p) => h.player(p).role).sort();
+    expect(roles).toEqual(['buyer', 'buyer', 'seller', 'seller']);
+    for (const p of players) {
+      const row = h.player(p);
+      expect(row.role === 'buyer' ? row.valuation : row.production_cost).toEqual(expect.any(Number));
+    }
+  });
+
+  it('clears at the midpoint of the marginal bid and ask', async () => {
+    const [b1, b2] = h.addPlayers(['buyer', 'buyer']);
+    const [s1, s2] = h.addPlayers(['seller', 'seller']);
+    await h.startRound();
+    Object.assign(h.player(b1), { valuation: 80 });
+    Object.assign(h.player(b2), { valuation: 60 });
+    Object.assign(h.player(s1), { production_cost: 20 });
+    Object.assign(h.player(s2), { production_cost: 50 });
+
+    expect((await h.act(b1, { ask: 10 })).error).toBe('Bid amount is required');
+    await h.actOk(b1, { bid: 70 });
+    await h.actOk(b2, { bid: 40 });
+    await h.actOk(s1, { ask: 30 });
+    await h.actOk(s2, { ask: 55 });
+    const result = await h.endRound();
+
+    // One unit clears at (70 + 30) / 2 = 50
+    expect(h.profitOf(result, b1)).toBe(30);
+    expect(h.profitOf(result, s1)).toBe(30);
+    expect(h.profitOf(result, b2)).toBe(0);
+    expect(h.profitOf(result, s2)).toBe(0);
+    // 60 of a possible 70 surplus
+    expect(result.playerResults[0].resultData.efficiency).toBe(85.71);
+  });
+});
+
+describe('sponsored search', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new SponsoredSearchEngine());
+    h.createSession({ numPositions: 2, clickRates: [100, 50] });
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig(h.session.game_config)).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ numPositions: 0 }).valid).toBe(false);
+  });
+
+  it('runs a generalized second-price auction over the slots', async () => {
+    const [a, b, c] = h.addPlayers(['advertiser', 'advertiser', 'advertiser']);
+    await h.setup();
+    await h.startRound();
+    h.player(a).valuation = 10;
+    h.player(b).valuation = 8;
+    h.player(c).valuation = 5;
+
+    await h.actOk(a, { bid: 9 });
+    await h.actOk(b, { bid: 6 });
+    await h.actOk(c, { bid: 4 });
+    const result = await h.endRound();
+
+    // Slot 1 pays the 2nd bid per click, slot 2 pays the 3rd
+    expect(h.profitOf(result, a)).toBe(100 * (10 - 6));
+    expect(h.profitOf(result, b)).toBe(50 * (8 - 4));
+    expect(h.profitOf(result, c)).toBe(0);
+  });
+});
+
+describe('offer auction (procurement)', () => {
+  let h: GameHarness;
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    h = new GameHarness(new OfferAuctionEngine());
+    expect(h.engine.validateConfig({ numUnits: 2 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ numUnits: 0 }).valid).toBe(false);
+  });
+
+  it.each([
+    ['uniform', [15, 5, 0]],
+    ['discriminative', [5, 5, 0]],
+  ])('buys the lowest offers under %s pricing', async (pricingRule, payoffs) => {
+    h = new GameHarness(new OfferAuctionEngine());
+    h.createSession({ numUnits: 2, pricingRule });
+    const players = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    expect(players.every((p) => h.player(p).role === 'seller')).toBe(true);
+    await h.startRound();
+    [20, 30, 40].forEach((cost, i) => { h.player(players[i]).production_cost = cost; });
+
+    await h.actOk(players[0], { ask: 25 });
+    await h.actOk(players[1], { ask: 35 });
+    await h.actOk(players[2], { ask: 45 });
+    const result = await h.endRound();
+
+    players.forEach((p, i) => expect(h.profitOf(result, p)).toBe(payoffs[i]));
+  });
+});
+
+describe('bid auction', () => {
+  let h: GameHarness;
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    h = new GameHarness(new BidAuctionEngine());
+    expect(h.engine.validateConfig({ numUnits: 2 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ valueMin: 100, valueMax: 10 }).valid).toBe(false);
+  });
+
+  it.each([
+    ['uniform', [30, 10, 0]],
+    ['discriminative', [20, 10, 0]],
+  ])('sells to the highest bids under %s pricing', async (pricingRule, payoffs) => {
+    h = new GameHarness(new BidAuctionEngine());
+    h.createSession({ numUnits: 2, pricingRule });
+    const players = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    expect(players.every((p) => h.player(p).role === 'buyer')).toBe(true);
+    await h.startRound();
+    [90, 70, 50].forEach((value, i) => { h.player(players[i]).valuation = value; });
+
+    await h.actOk(players[0], { bid: 70 });
+    await h.actOk(players[1], { bid: 60 });
+    await h.actOk(players[2], { bid: 40 });
+    const result = await h.endRound();
+
+    players.forEach((p, i) => expect(h.profitOf(result, p)).toBe(payoffs[i]));
+  });
+});
+
+describe('electricity market', () => {
+  let h: GameHarness;
+
+  const blocksA = [{ mw: 40, marginalCost: 10 }, { mw: 30, marginalCost: 30 }, { mw: 20, marginalCost: 60 }];
+  const blocksB = [{ mw: 40, marginalCost: 15 }, { mw: 30, marginalCost: 40 }, { mw: 20, marginalCost: 70 }];
+  const atCost = (blocks: typeof blocksA) => ({
+    offers: blocks.map((b, block) => ({ block, price: b.marginalCost })),
+  });
+
+  beforeEach(() => {
+    h = new GameHarness(new ElectricityMarketEngine());
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ baseDemand: 400 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ baseDemand: 0 }).valid).toBe(false);
+  });
+
+  it('gives every generator three capacity blocks on setup', async () => {
+    h.createSession({ baseDemand: 400 });
+    const players = h.addPlayers(['player', 'player']);
+    await h.setup();
+    for (const p of players) {
+      expect(h.player(p).role).toBe('generator');
+      expect(h.player(p).game_data?.blocks).toHaveLength(3);
+    }
+  });
+
+  it('dispatches the merit order and pays the uniform clearing price', async () => {
+    h.createSession({ baseDemand: 100, demandPattern: 'fixed', pricingRule: 'uniform' });
+    const a = h.addPlayer('generator', { game_data: { blocks: blocksA, isDominant: false, totalCapacity: 90 } });
+    const b = h.addPlayer('generator', { game_data: { blocks: blocksB, isDominant: false, totalCapacity: 90 } });
+    await h.startRound();
+
+    const belowCost = atCost(blocksA);
+    belowCost.offers[0].price = 5;
+    expect((await h.act(a, belowCost)).error).toMatch(/cannot be below marginal cost/);
+
+    await h.actOk(a, atCost(blocksA));
+    await h.actOk(b, atCost(blocksB));
+    const result = await h.endRound();
+
+    // 40 @10 (A), 40 @15 (B), 20 of A's 30 @30 sets the price at 30
+    expect(h.profitOf(result, a)).toBe(40 * 20);
+    expect(h.profitOf(result, b)).toBe(40 * 15);
+    expect(result.playerResults[0].resultData).toMatchObject({ demand: 100, clearingPrice: 30, efficiency: 100 });
+    expect((await h.state(a)).currentDemand).toBe(100);
+  });
+});
+
+describe('double dutch auction', () => {
+  let h: GameHarness;
+
+  beforeEach(() => {
+    h = new GameHarness(new DoubleDutchAuctionEngine());
+    h.createSession({});
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({})).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ valueMin: 100, valueMax: 50 }).valid).toBe(false);
+  });
+
+  it('splits the session into buyers and sellers on setup', async () => {
+    const players = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    expect(players.map((p) => h.player(p).role).sort()).toEqual(['buyer', 'buyer', 'seller', 'seller']);
+  });
+
+  it('executes every qualifying trade at one uniform clearing price', async () => {
+    const [b1, b2] = h.addPlayers(['buyer', 'buyer']);
+    const [s1, s2] = h.addPlayers(['seller', 'seller']);
+    await h.startRound();
+    expect(h.io.last('game-state')).toMatchObject({ phase: 'submitting', totalPlayers: 4 });
+    Object.assign(h.player(b1), { valuation: 80 });
+    Object.assign(h.player(b2), { valuation: 60 });
+    Object.assign(h.player(s1), { production_cost: 20 });
+    Object.assign(h.player(s2), { production_cost: 40 });
+
+    expect((await h.act(b1, { stopPrice: -1 })).success).toBe(false);
+    await h.actOk(b1, { stopPrice: 70 });
+    expect((await h.act(b1, { stopPrice: 70 })).success).toBe(false);
+    await h.actOk(b2, { stopPrice: 50 });
+    await h.actOk(s1, { stopPrice: 30 });
+    await h.actOk(s2, { stopPrice: 45 });
+    expect(await h.state(b1)).toMatchObject({ totalSubmitted: 4, submitted: true, myStopPrice: 70 });
+
+    const result = await h.endRound();
+
+    // Q* = 2, price = (50 + 45) / 2
+    expect(h.profitOf(result, b1)).toBe(32.5);
+    expect(h.profitOf(result, b2)).toBe(12.5);
+    expect(h.profitOf(result, s1)).toBe(27.5);
+    expect(h.profitOf(result, s2)).toBe(7.5);
+    expect(Number(h.player(b1).total_profit)).toBe(32.5);
+    expect(h.store.roundStates.has(h.round.id)).toBe(false);
+  });
+
+  it('restores submissions from the persisted snapshot', async () => {
+    const [b1] = h.addPlayers(['buyer']);
+    h.addPlayers(['seller']);
+    await h.startRound();
+    await h.actOk(b1, { stopPrice: 70 });
+
+    const restarted = new DoubleDutchAuctionEngine();
+    expect(await restarted.restoreRound!(h.round.id, h.session.code, h.io.server)).toBe(true);
+    expect(await restarted.getGameState(h.round.id, b1.id)).toMatchObject({ submitted: true, myStopPrice: 70 });
+  });
+});
@@ -0,0 +1,563 @@
+import { GameHarness } from '../harness';
+import { PostedOfferEngine } from '../../src/engines/specialized/PostedOfferEngine';
+import { ContestableMarketEngine } from '../../src/engines/specialized/ContestableMarketEngine';
+import { AssetBubbleEngine } from '../../src/engines/specialized/AssetBubbleEngine';
+import { WoolExportPunishmentEngine } from '../../src/engines/specialized/WoolExportPunishmentEngine';
+import { ThreeVillageTradeEngine } from '../../src/engines/specialized/ThreeVillageTradeEngine';
+import { DiscoveryProcessEngine } from '../../src/engines/specialized/DiscoveryProcessEngine';
+import { RoundClock } from '../../src/services/RoundClock';
+
+// Every engine here shuffles players with sort(() => Math.random() - 0.5);
+// pinning Math.random() to 0.5 keeps join order, so roles are predictable.
+
+describe('posted offer', () => {
+  let h: GameHarness<PostedOfferEngine>;
+
+  beforeEach(async () => {
+    h = new GameHarness(new PostedOfferEngine());
+    // Costs draw 10 + 0.5 * 40 = 30, valuations 60 + 0.5 * 40 = 80
+    h.createSession({ valueMin: 60, valueMax: 100, costMin: 10, costMax: 50 });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    h.teardown();
+  });
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ valueMin: 60, valueMax: 100 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ costMin: 50, costMax: 50 }).valid).toBe(false);
+  });
+
+  it('makes the first half sellers and the rest buyers', async () => {
+    const players = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    expect(players.map((p) => h.player(p).role)).toEqual(['seller', 'seller', 'buyer', 'buyer']);
+    expect(h.player(players[0])).toMatchObject({ production_cost: 30, valuation: null });
+    expect(h.player(players[2])).toMatchObject({ valuation: 80, production_cost: null });
+  });
+
+  it('moves to shopping once every seller posts and pays matched pairs', async () => {
+    const [s1, s2, b1, b2] = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+
+    expect((await h.act(b1, { sellerId: s1.id })).error).toBe('Shopping phase has not started yet');
+    expect((await h.act(s1, { price: 20 })).error).toMatch(/cannot be below your production cost/);
+    await h.actOk(s1, { price: 40 });
+    expect((await h.act(s1, { price: 45 })).error).toBe('You have already posted a price');
+    await h.actOk(s2, { price: 50 });
+    await h.settle();
+
+    expect(h.io.last('phase-change', h.room)).toMatchObject({
+      phase: 'shopping',
+      postedPrices: [{ sellerId: s1.id, price: 40 }, { sellerId: s2.id, price: 50 }],
+    });
+    expect((await h.act(s1, { price: 40 })).error).toBe('Posting phase has ended');
+
+    await h.actOk(b1, { sellerId: s1.id });
+    await h.actOk(b2, { sellerId: s2.id });
+    expect((await h.state(b1)).myAction).toEqual({ sellerId: s1.id });
+
+    const result = await h.endRound();
+    expect(h.profitOf(result, s1)).toBe(10);
+    expect(h.profitOf(result, s2)).toBe(20);
+    expect(h.profitOf(result, b1)).toBe(40);
+    expect(h.profitOf(result, b2)).toBe(30);
+    expect(result.summary).toMatchObject({ numTrades: 2, efficiency: 100, maxSurplus: 100 });
+    expect(Number(h.player(b1).total_profit)).toBe(40);
+    expect(h.store.roundStates.has(h.round.id)).toBe(false);
+  });
+
+  it('opens shopping when the posting timer runs out', async () => {
+    jest.useFakeTimers();
+    const [s1, , b1] = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+    await h.actOk(s1, { price: 40 });
+
+    // Posting lasts half the default 90s round
+    await jest.advanceTimersByTimeAsync(45_000);
+    expect((await h.state(b1)).phase).toBe('shopping');
+    expect((await h.state(b1)).postedPrices).toHaveLength(1);
+
+    const result = await h.endRound();
+    expect(h.profitOf(result, s1)).toBe(0);
+  });
+
+  it('holds the posting phase while the round is paused and extends it when time is added', async () => {
+    jest.useFakeTimers();
+    const [, , b1] = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+    const clock = RoundClock.getInstance();
+
+    await jest.advanceTimersByTimeAsync(40_000);
+    clock.pause(h.round.id);
+    await jest.advanceTimersByTimeAsync(120_000);
+    expect((await h.state(b1)).phase).toBe('posting');
+    expect(h.engine.getPhaseClock(h.round.id)).toEqual({ phase: 'posting', remainingMs: 5_000 });
+
+    clock.resume(h.round.id);
+    clock.addTime(h.round.id, 10_000);
+    expect(h.engine.getPhaseClock(h.round.id)).toEqual({ phase: 'posting', remainingMs: 15_000 });
+    await jest.advanceTimersByTimeAsync(14_000);
+    expect((await h.state(b1)).phase).toBe('posting');
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect((await h.state(b1)).phase).toBe('shopping');
+
+    await h.endRound();
+  });
+
+  it('picks the posting phase back up after a restart and opens shopping on time', async () => {
+    jest.useFakeTimers();
+    const [s1, , b1] = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+    await h.actOk(s1, { price: 40 });
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    // The process dies with its timers; a fresh engine reloads the snapshot
+    const clock = RoundClock.getInstance();
+    clock.clear(h.round.id);
+    clock.simulate(h.round.id);
+    const restarted = new PostedOfferEngine();
+    expect(await restarted.restoreRound(h.round.id, h.session.code, h.io.server)).toBe(true);
+    expect(restarted.getPhaseClock(h.round.id)).toEqual({ phase: 'posting', remainingMs: 15_000 });
+
+    await clock.fastForward(h.round.id, 14_999);
+    expect((await restarted.getGameState(h.round.id, b1.id)).phase).toBe('posting');
+    await clock.fastForward(h.round.id, 1);
+    await h.settle();
+    expect(await restarted.getGameState(h.round.id, b1.id)).toMatchObject({
+      phase: 'shopping',
+      postedPrices: [{ sellerId: s1.id, price: 40 }],
+    });
+
+    expect(await restarted.handleAction(h.round.id, b1.id, { sellerId: s1.id }, h.session.code, h.io.server))
+      .toMatchObject({ success: true });
+    const result = await restarted.processRoundEnd(h.round.id, h.session.code, h.io.server);
+    expect(h.profitOf(result, s1)).toBe(10);
+  });
+});
+
+describe('contestable market', () => {
+  let h: GameHarness<ContestableMarketEngine>;
+  const config = { fixed_cost: 100, variable_cost: 5, demand_intercept: 100, demand_slope: 1, entry_cost: 10 };
+
+  beforeEach(() => {
+    h = new GameHarness(new ContestableMarketEngine());
+    h.createSession(config);
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    h.teardown();
+  });
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig(config)).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ demand_intercept: 5, variable_cost: 5 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ entry_cost: -1 }).valid).toBe(false);
+  });
+
+  it('makes one incumbent and the rest entrants', async () => {
+    const players = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    expect(players.map((p) => h.player(p).role)).toEqual(['incumbent', 'entrant', 'entrant']);
+  });
+
+  it('runs entry then posting and gives the market to the lowest price', async () => {
+    const [incumbent, entrant, stayer] = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+
+    expect((await h.act(incumbent, { type: 'enter' })).error).toBe('Only entrants can make entry decisions');
+    expect((await h.act(incumbent, { type: 'post_price', price: 40 })).error).toMatch(/has not started/);
+    await h.actOk(entrant, { type: 'enter' });
+    expect((await h.state(entrant)).myEntryDecision).toBe('enter');
+    await h.actOk(stayer, { type: 'stay_out' });
+    await h.settle();
+
+    expect(h.io.last('phase-change', h.room)).toMatchObject({ phase: 'posting', numEntrants: 1 });
+    expect((await h.act(stayer, { type: 'post_price', price: 10 })).error).toBe('Only active sellers can post prices');
+
+    await h.actOk(incumbent, { type: 'post_price', price: 40 });
+    await h.actOk(entrant, { type: 'post_price', price: 30 });
+    expect(h.io.last('round-results', h.room).totalDemand).toBe(70);
+
+    const result = await h.endRound();
+    // 30 * 70 - 100 - 5 * 70 - entry 10; the incumbent sells nothing but pays its fixed cost
+    expect(h.profitOf(result, entrant)).toBe(1640);
+    expect(h.profitOf(result, incumbent)).toBe(-100);
+    expect(h.profitOf(result, stayer)).toBe(0);
+    expect(result.summary).toMatchObject({ lowestPrice: 30, numActiveSellers: 2, monopolyPrice: 52.5 });
+    expect(Number(h.player(entrant).total_profit)).toBe(1640);
+  });
+
+  it('defaults undecided entrants out and unposted sellers to the choke price on timeout', async () => {
+    jest.useFakeTimers();
+    const [incumbent, entrant] = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+    await h.actOk(entrant, { type: 'enter' });
+
+    // Entry lasts 25% of 90s, posting 35%
+    await jest.advanceTimersByTimeAsync(22_000);
+    expect((await h.state()).phase).toBe('posting');
+    await jest.advanceTimersByTimeAsync(31_000);
+    expect((await h.state()).phase).toBe('results');
+
+    const result = await h.endRound();
+    // Both sit at 100 / 1 = 100 where demand is zero, so each just pays its costs
+    expect(h.profitOf(result, incumbent)).toBe(-100);
+    expect(h.profitOf(result, entrant)).toBe(-110);
+  });
+});
+
+describe('asset bubble', () => {
+  let h: GameHarness<AssetBubbleEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(new AssetBubbleEngine());
+    h.createSession({ starting_cash: 385, shares_per_player: 3 }, { num_rounds: 2 });
+    // Dividend draws index 2 of [0, 8, 28, 60]
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => h.teardown());
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ starting_cash: 385 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ shares_per_player: 0 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ market_size: 2 }).valid).toBe(false);
+  });
+
+  it('endows every trader with cash and shares', async () => {
+    const [a] = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    expect(h.player(a)).toMatchObject({ role: 'trader', game_data: { cash: 385, shares: 3 } });
+  });
+
+  it('trades at the standing ask, pays dividends and carries portfolios forward', async () => {
+    const [seller, buyer, holder] = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+
+    expect((await h.act(buyer, { type: 'bid', price: 12.5 })).error).toBe('Price must be a whole number (cents)');
+    expect((await h.act(buyer, { type: 'bid', price: 400 })).error).toMatch(/Insufficient cash/);
+    await h.actOk(seller, { type: 'ask', price: 100 });
+    await h.actOk(buyer, { type: 'bid', price: 120 });
+
+    expect(h.io.last('trade-executed', h.room)).toMatchObject({
+      trade: { buyerId: buyer.id, sellerId: seller.id, price: 100 },
+      portfolioUpdates: { [buyer.id]: { cash: 285, shares: 4 }, [seller.id]: { cash: 485, shares: 2 } },
+    });
+
+    let result = await h.endRound();
+    // Dividend 28 per share; profit is cash gained over the 385 endowment
+    expect(h.profitOf(result, seller)).toBe(485 + 2 * 28 - 385);
+    expect(h.profitOf(result, buyer)).toBe(285 + 4 * 28 - 385);
+    expect(h.profitOf(result, holder)).toBe(3 * 28);
+    expect(result.summary).toMatchObject({ dividend: 28, totalTrades: 1, averagePrice: 100, isFinalRound: false });
+    expect(Number(h.player(seller).total_profit)).toBe(0);
+
+    await h.startRound();
+    const state = await h.state(seller);
+    expect(state).toBeDefined();
+    result = await h.endRound();
+
+    expect(result.summary.isFinalRound).toBe(true);
+    expect(h.profitOf(result, seller)).toBe(541 + 2 * 28 - 385);
+    expect(Number(h.player(seller).total_profit)).toBe(212);
+    expect(Number(h.player(buyer).total_profit)).toBe(397 + 4 * 28 - 385);
+  });
+
+  it('lets traders cancel their own orders only', async () => {
+    const [a, b] = h.addPlayers(['player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+
+    await h.actOk(a, { type: 'bid', price: 50 });
+    const orderId = h.io.last('order-submitted').order.id;
+    expect((await h.act(b, { type: 'cancel_bid', orderId })).error).toBe('Bid not found or does not belong to you');
+    await h.actOk(a, { type: 'cancel_bid', orderId });
+    expect(h.io.last('order-cancelled', h.room)).toBeDefined();
+    await h.endRound();
+  });
+});
+
+describe('wool export punishment', () => {
+  let h: GameHarness<WoolExportPunishmentEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(new WoolExportPunishmentEngine());
+    h.createSession({ punishment_level: 'low' });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => h.teardown());
+
+  // Default payoffs (cents): smuggler 2000 (+300 to smuggle), merchant 2000
+  // (-500 if smuggled), foreign contact 1500 (+200 if smuggled), watch 2700
+  const group = async () => {
+    const players = h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+    return players;
+  };
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ punishment_level: 'high' })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ punishment_level: 'medium' }).valid).toBe(false);
+    expect(h.engine.validateConfig({ low_fine: 500, high_fine: 100 }).valid).toBe(false);
+  });
+
+  it('forms groups of four and leaves the overflow as observers', async () => {
+    const players = h.addPlayers(['player', 'player', 'player', 'player', 'player']);
+    await h.setup();
+    expect(players.slice(0, 4).map((p) => h.player(p).role)).toEqual([
+      'smuggler', 'port_merchant', 'foreign_contact', 'harbor_watch',
+    ]);
+    expect(h.player(players[4]).game_data).toMatchObject({ groupId: -1, isObserver: true });
+
+    await h.startRound();
+    expect((await h.act(players[4], { type: 'smuggle' })).error).toBe('Group not found');
+    await h.endRound();
+  });
+
+  it('gathers late joiners into a new group once there are four observers', async () => {
+    const players = h.addPlayers(['player', 'player', 'player', 'player', 'player']);
+    await h.setup();
+
+    const late = h.addPlayers(['player', 'player', 'player']);
+    for (const p of late.slice(0, 2)) await h.engine.onPlayerAdded(h.session.id, p.id, {});
+    expect(h.player(late[1]).game_data).toMatchObject({ groupId: -1, isObserver: true });
+
+    await h.engine.onPlayerAdded(h.session.id, late[2].id, {});
+    expect([players[4], ...late].map((p) => h.player(p).game_data)).toEqual([
+      { groupId: 1, role: 'smuggler' },
+      { groupId: 1, role: 'port_merchant' },
+      { groupId: 1, role: 'foreign_contact' },
+      { groupId: 1, role: 'harbor_watch' },
+    ]);
+    expect(h.player(players[0]).game_data).toEqual({ groupId: 0, role: 'smuggler' });
+  });
+
+  it('pays the legal outcome when the smuggler trades locally', async () => {
+    const [smuggler, merchant, foreign, watch] = await group();
+    expect((await h.act(watch, { type: 'report' })).error).toBe('It is not the Harbor Watch decision stage');
+    expect((await h.act(merchant, { type: 'smuggle' })).error).toBe('Only the Smuggler Captain can make this decision');
+
+    await h.actOk(smuggler, { type: 'trade_locally' });
+    expect(h.io.last('all-groups-complete', h.room)).toMatchObject({ groupCount: 1 });
+    expect((await h.act(smuggler, { type: 'smuggle' })).error).toBe('Your group has already completed this round');
+
+    const result = await h.endRound();
+    expect([smuggler, merchant, foreign, watch].map((p) => h.profitOf(result, p))).toEqual([2000, 2000, 1500, 2700]);
+  });
+
+  it('fines a reported smuggler', async () => {
+    const [smuggler, merchant, foreign, watch] = await group();
+    await h.actOk(smuggler, { type: 'smuggle' });
+    await h.actOk(watch, { type: 'report' });
+
+    const result = await h.endRound();
+    expect([smuggler, merchant, foreign, watch].map((p) => h.profitOf(result, p))).toEqual([1900, 1500, 1700, 2700]);
+    expect(result.summary.groups).toEqual([
+      expect.objectContaining({ smugglerDecision: 'smuggle', harborWatchDecision: 'report', outcome: 'Smuggle - Reported' }),
+    ]);
+    expect(Number(h.player(smuggler).total_profit)).toBe(1900);
+  });
+
+  it('defaults an undecided harbor watch to a blind eye', async () => {
+    const [smuggler, , , watch] = await group();
+    await h.actOk(smuggler, { type: 'smuggle' });
+
+    const result = await h.endRound();
+    expect(h.profitOf(result, smuggler)).toBe(2300);
+    expect(h.profitOf(result, watch)).toBe(2700);
+  });
+});
+
+describe('three village trade', () => {
+  let h: GameHarness<ThreeVillageTradeEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(new ThreeVillageTradeEngine());
+    h.createSession({ market_size: 6 });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    h.teardown();
+  });
+
+  // Join order deals villages 1, 2, 3, 1, 2, 3 with types A, A, A, B, B, B
+  const villagers = async () => {
+    const [v1a, v2a, v3a, v1b, v2b, v3b] = h.addPlayers(['player', 'player', 'player', 'player', 'player', 'player']);
+    await h.setup();
+    await h.startRound();
+    return { v1a, v2a, v3a, v1b, v2b, v3b };
+  };
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig({ market_size: 9 })).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ market_size: 7 }).valid).toBe(false);
+    expect(h.engine.validateConfig({ transport_cost: -1 }).valid).toBe(false);
+  });
+
+  it('deals players round-robin into villages and alternates types', async () => {
+    const { v1a, v1b, v2a } = await villagers();
+    expect(h.player(v1a).game_data).toMatchObject({ village: 1, playerType: 'A', importGood: 'pink' });
+    expect(h.player(v1b).game_data).toMatchObject({ village: 1, playerType: 'B' });
+    expect(h.player(v2a).game_data).toMatchObject({ village: 2, playerType: 'A', importGood: 'red' });
+    await h.endRound();
+  });
+
+  it('puts a late joiner in the smallest village', async () => {
+    h.addPlayers(['player', 'player', 'player', 'player', 'player']);
+    await h.setup();
+    const late = h.addPlayer('player');
+    await h.engine.onPlayerAdded(h.session.id, late.id, {});
+    expect(h.player(late).game_data).toMatchObject({ village: 3, playerType: 'B', importGood: 'blue' });
+  });
+
+  it('produces, trades locally and across villages, then pays Leontief earnings', async () => {
+    const { v1a, v2a, v3a, v1b, v2b, v3b } = await villagers();
+
+    expect((await h.act(v1a, { type: 'set_production', allocation: 101 })).success).toBe(false);
+    // Full specialisation: type A makes 12 red, type B makes 12 blue
+    const produced = await h.actOk(v1a, { type: 'set_production', allocation: 100 });
+    expect(produced.reply?.data.goods).toEqual({ red: 12, blue: 0, pink: 0 });
+    await h.actOk(v1b, { type: 'set_production', allocation: 0 });
+    for (const p of [v2a, v3a, v2b, v3b]) {
+      await h.actOk(p, { type: 'set_production', allocation: 50 });
+    }
+    await h.settle();
+    expect((await h.state(v1a)).phase).toBe('trade');
+
+    await h.actOk(v1a, { type: 'post_offer', offerGood: 'red', offerAmount: 4, wantGood: 'blue', wantAmount: 4 });
+    const local = h.io.last('trade-offer-posted').offer;
+    expect((await h.act(v2a, { type: 'accept_offer', offerId: local.id })).error).toMatch(/local offer/);
+    await h.actOk(v1b, { type: 'accept_offer', offerId: local.id });
+
+    await h.actOk(v2a, { type: 'post_offer', offerGood: 'pink', offerAmount: 1, wantGood: 'red', wantAmount: 1, scope: 'global' });
+    await h.actOk(v1a, { type: 'accept_offer', offerId: h.io.last('trade-offer-posted').offer.id });
+
+    const result = await h.endRound();
+    // Earnings = min(good1, k * good2) * 10 * (1 + 0.3 * ln(1 + import)), k = 2 for A, 0.5 for B
+    expect(h.profitOf(result, v1a)).toBe(84.56); // red 7, blue 4, pink 1
+    expect(h.profitOf(result, v1b)).toBe(40); // red 4, blue 8
+    expect(h.profitOf(result, v2a)).toBe(60.4); // blue 5, pink 3, red 1
+    expect(h.profitOf(result, v3a)).toBe(50); // pink 5, red 4
+    expect(h.profitOf(result, v2b)).toBe(25); // blue 4, pink 5
+    expect(h.profitOf(result, v3b)).toBe(25);
+    expect(Number(h.player(v1a).total_profit)).toBe(84.56);
+  });
+
+  it('defaults missing production to an even split when the phase times out', async () => {
+    jest.useFakeTimers();
+    const { v1a } = await villagers();
+
+    // Production lasts 25% of the default 120s round
+    await jest.advanceTimersByTimeAsync(30_000);
+    const state = await h.state(v1a);
+    expect(state.phase).toBe('trade');
+
+    const result = await h.endRound();
+    // 50/50 gives red 5, blue 4 for a type A: min(5, 8) * 10
+    expect(h.profitOf(result, v1a)).toBe(50);
+  });
+});
+
+describe('discovery process', () => {
+  let h: GameHarness<DiscoveryProcessEngine>;
+  // One catchable small prey worth 20; wide radii so positions never matter
+  const config = {
+    largePrey: 0, smallPrey: 1, smallPreyValue: 20, captureRadius: 20000, stunRadius: 20000,
+    huntingDuration: 5, tradingDuration: 10, interimDuration: 3,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    h = new GameHarness(new DiscoveryProcessEngine());
+    h.createSession(config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    h.teardown();
+  });
+
+  it('validates config', () => {
+    expect(h.engine.validateConfig(config)).toEqual({ valid: true });
+    expect(h.engine.validateConfig({ huntingDuration: 4 }).valid).toBe(false);
+  });
+
+  it('ticks the world and lets players hunt, stun and share food', async () => {
+    const [hunter, partner] = h.addPlayers(['gatherer', 'gatherer']);
+    await h.setup();
+    await h.startRound();
+
+    jest.advanceTimersByTime(100);
+    expect(h.io.last('game-tick', `player-${hunter.id}`)).toMatchObject({ tick: 1, phase: 'hunting' });
+    expect((await h.act(hunter, { type: 'stun', targetId: partner.id })).error).toBe('Can only stun during trading');
+
+    const capture = await h.actOk(hunter, { type: 'capture_prey', preyId: 'prey_1' });
+    expect(capture.reply?.data).toMatchObject({ captured: true, foodGained: 20 });
+
+    jest.advanceTimersByTime(5_000);
+    expect(h.io.last('phase-changed', h.room)).toMatchObject({ phase: 'trading' });
+
+    expect((await h.act(hunter, { type: 'transfer', targetId: partner.id, amount: 5 })).error).toBe('Target must be stunned');
+    await h.actOk(hunter, { type: 'stun', targetId: partner.id });
+    await h.actOk(hunter, { type: 'transfer', targetId: partner.id, amount: 5 });
+    expect((await h.state(partner)).you.food).toBe(5);
+
+    const result = await h.endRound();
+    // Health 85 - 8 decay + food, paid at 0.01 per point
+    expect(h.profitOf(result, hunter)).toBe(0.92);
+    expect(h.profitOf(result, partner)).toBe(0.82);
+    expect(Number(h.player(hunter).total_profit)).toBe(0.92);
+  });
+
+  it('finishes the round itself once the interim phase ends', async () => {
+    const [player] = h.addPlayers(['gatherer']);
+    await h.startRound();
+
+    await jest.advanceTimersByTimeAsync((5 + 10 + 3) * 1000 + 100);
+    expect(h.io.last('round-ended', h.room)).toMatchObject({ results: [{ playerId: player.id, health: 77 }] });
+    expect(h.round.status).toBe('completed');
+
+    const result = await h.endRound();
+    expect(h.profitOf(result, player)).toBe(0.77);
+    expect(h.store.roundStates.has(h.round.id)).toBe(false);
+  });
+
+  it('stops ticking while paused and lengthens the phase when time is added', async () => {
+    const [player] = h.addPlayers(['gatherer']);
+    await h.startRound();
+    const clock = RoundClock.getInstance();
+
+    jest.advanceTimersByTime(1_000);
+    clock.pause(h.round.id);
+    jest.advanceTimersByTime(10_000);
+    expect(h.io.last('game-tick', `player-${player.id}`)).toMatchObject({ tick: 10 });
+    expect(h.engine.getPhaseClock(h.round.id)).toEqual({ phase: 'hunting', remainingMs: 4_000 });
+
+    clock.resume(h.round.id);
+    h.engine.onRoundTimeAdded(h.round.id, 2);
+    expect(h.engine.getPhaseClock(h.round.id)).toEqual({ phase: 'hunting', remainingMs: 6_000 });
+    jest.advanceTimersByTime(5_900);
+    expect(h.io.last('phase-changed', h.room)).toMatchObject({ phase: 'hunting' });
+    jest.advanceTimersByTime(100);
+    expect(h.io.last('phase-changed', h.room)).toMatchObject({ phase: 'trading' });
+
+    clock.clear(h.round.id);
+    await h.endRound();
+  });
+});
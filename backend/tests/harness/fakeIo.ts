@@ -0,0 +1,57 @@
+import type { Server } from 'socket.io';
+
+export interface EmittedEvent {
+  room: string | null;
+  event: string;
+  data: any;
+}
+
+/**
+ * Minimal stand-in for a socket.io Server that records every emit.
+ *
+ * Engines only ever call `io.to(room).emit(...)` and, for targeted
+ * messages, walk `io.sockets.adapter.rooms`; both are supported here, as is
+ * `io.in(room).fetchSockets()`. No sockets are ever connected, so room walks
+ * and fetches find nothing.
+ */
+export class FakeIo {
+  readonly emitted: EmittedEvent[] = [];
+
+  readonly server: Server;
+
+  constructor() {
+    const record = (room: string | null) => ({
+      emit: (event: string, data?: any) => {
+        this.emitted.push({ room, event, data });
+        return true;
+      },
+    });
+
+    this.server = {
+      to: (room: string) => record(room),
+      in: (room: string) => ({ ...record(room), fetchSockets: async () => [] }),
+      emit: (event: string, data?: any) => record(null).emit(event, data),
+      sockets: {
+        adapter: { rooms: new Map<string, Set<string>>() },
+        sockets: new Map(),
+      },
+    } as unknown as Server;
+  }
+
+  // All payloads emitted under an event name, in order
+  events(event: string, room?: string): any[] {
+    return this.emitted
+      .filter((e) => e.event === event && (room === undefined || e.room === room))
+      .map((e) => e.data);
+  }
+
+  // Most recent payload for an event name, or undefined
+  last(event: string, room?: string): any {
+    const all = this.events(event, room);
+    return all[all.length - 1];
+  }
+
+  clear(): void {
+    this.emitted.length = 0;
+  }
+}
@@ -0,0 +1,22 @@
+import type { Request, Response } from 'express';
+
+// Minimal Express stand-ins: enough for middleware and controllers to respond
+
+export function mockReq(opts: {
+  token?: string;
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+} = {}) {
+  const headers: Record<string, string> = { ...opts.headers };
+  if (opts.token) headers.authorization = `Bearer ${opts.token}`;
+  return { headers, params: opts.params || {}, query: opts.query || {}, body: opts.body || {} } as unknown as Request;
+}
+
+export function mockRes() {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: any) => { res.body = body; return res; };
+  return res as Response & { statusCode: number; body: any };
+}
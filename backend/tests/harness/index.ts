@@ -0,0 +1,134 @@
+import { setImmediate as realSetImmediate } from 'timers';
+import type { GameEngine, ActionResult, RoundResult } from '../../src/engines/GameEngine';
+import type { Session, Player, Round } from '../../src/types';
+import { MemoryStore } from './memoryStore';
+import { FakeIo } from './fakeIo';
+
+export { MemoryStore } from './memoryStore';
+export { FakeIo } from './fakeIo';
+export { mockReq, mockRes } from './http';
+export type { EmittedEvent } from './fakeIo';
+
+/**
+ * Scenario driver for a single engine running against the in-memory store.
+ *
+ *   const h = new GameHarness(new UltimatumEngine());
+ *   h.createSession({ endowment: 10 });
+ *   const [p, r] = h.addPlayers(['proposer', 'responder']);
+ *   const round = await h.startRound();
+ *   await h.act(p, { type: 'first_move', offer: 3 });
+ *
+ * Call teardown() from afterEach to restore the real model layer.
+ */
+export class GameHarness<E extends GameEngine = GameEngine> {
+  readonly store = new MemoryStore();
+  readonly io = new FakeIo();
+  session!: Session;
+  round!: Round;
+
+  constructor(readonly engine: E, { quiet = true } = {}) {
+    this.store.install();
+    // Engines log every action; keep test output readable
+    if (quiet) jest.spyOn(console, 'log').mockImplementation(() => {});
+  }
+
+  teardown(): void {
+    jest.restoreAllMocks();
+  }
+
+  get room(): string {
+    return `market-${this.session.code}`;
+  }
+
+  // Create the session for this engine's game type
+  createSession(config: Record<string, any> = {}, overrides: Partial<Session> = {}): Session {
+    this.session = this.store.insertSession({
+      game_type: this.engine.gameType,
+      game_config: config,
+      ...overrides,
+    });
+    return this.session;
+  }
+
+  // Add one player per role (pass the same role several times for more)
+  addPlayers(roles: string[], fields: Partial<Player> = {}): Player[] {
+    return roles.map((role) => this.addPlayer(role, fields));
+  }
+
+  // Add a player with explicit fields (valuation, cost, game_data...)
+  addPlayer(role: string, fields: Partial<Player> = {}): Player {
+    return this.store.insertPlayer({
+      session_id: this.session.id,
+      role,
+      name: `Player ${this.store.players.length + 1}`,
+      ...fields,
+    });
+  }
+
+  // Run setupPlayers against players already in the session
+  async setup(): Promise<void> {
+    await this.engine.setupPlayers(
+      this.session.id,
+      this.store.players.filter((p) => p.session_id === this.session.id).length,
+      this.session.game_config
+    );
+  }
+
+  // Create and start a round, mirroring the socket handler's start sequence
+  async startRound(roundNumber = this.session.current_round + 1): Promise<Round> {
+    this.session.status = 'active';
+    this.session.current_round = roundNumber;
+    const round = this.store.insertRound(this.session.id, roundNumber);
+    round.status = 'active';
+    round.started_at = this.store.now();
+    this.round = round;
+    if (this.engine.onRoundStart) {
+      await this.engine.onRoundStart(round.id, this.session.code, this.io.server);
+    }
+    return round;
+  }
+
+  act(player: Player | string, action: Record<string, any>): Promise<ActionResult> {
+    const playerId = typeof player === 'string' ? player : player.id;
+    return this.engine.handleAction(this.round.id, playerId, action, this.session.code, this.io.server);
+  }
+
+  // Act and fail the test with the engine's error message if rejected
+  async actOk(player: Player | string, action: Record<string, any>): Promise<ActionResult> {
+    const result = await this.act(player, action);
+    if (!result.success) {
+      throw new Error(`Action ${JSON.stringify(action)} rejected: ${result.error}`);
+    }
+    return result;
+  }
+
+  async endRound(): Promise<RoundResult> {
+    const result = await this.engine.processRoundEnd(this.round.id, this.session.code, this.io.server);
+    this.round.status = 'completed';
+    this.round.ended_at = this.store.now();
+    return result;
+  }
+
+  // Let fire-and-forget work (un-awaited phase transitions, setImmediate
+  // callbacks) run to completion; safe to call under fake timers
+  settle(): Promise<void> {
+    return new Promise((resolve) => realSetImmediate(resolve));
+  }
+
+  state(player?: Player | string): Promise<Record<string, any>> {
+    const playerId = typeof player === 'string' ? player : player?.id;
+    return this.engine.getGameState(this.round.id, playerId);
+  }
+
+  // Current row for a player (reflects profit and role updates)
+  player(player: Player | string): Player {
+    const id = typeof player === 'string' ? player : player.id;
+    return this.store.players.find((p) => p.id === id)!;
+  }
+
+  // Profit a player earned in a round result, looked up by id
+  profitOf(result: RoundResult, player: Player | string): number | undefined {
+    const id = typeof player === 'string' ? player : player.id;
+    return result.playerResults.find((r) => r.playerId === id)?.profit;
+  }
+}
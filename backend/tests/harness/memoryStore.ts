@@ -0,0 +1,604 @@
+import { randomUUID } from 'crypto';
+import { pool } from '../../src/config/database';
+import { PlayerModel } from '../../src/models/Player';
+import { RoundModel } from '../../src/models/Round';
+import { SessionModel } from '../../src/models/Session';
+import { BidModel } from '../../src/models/Bid';
+import { AskModel } from '../../src/models/Ask';
+import { TradeModel } from '../../src/models/Trade';
+import { GameActionModel } from '../../src/models/GameAction';
+import type { GameAction } from '../../src/models/GameAction';
+import { GameResultModel } from '../../src/models/GameResult';
+import type { GameResult } from '../../src/models/GameResult';
+import { RoundPairingModel } from '../../src/models/RoundPairing';
+import type { RoundPairing } from '../../src/models/RoundPairing';
+import { RoundValueModel } from '../../src/models/RoundValue';
+import type { RoundValue } from '../../src/models/RoundValue';
+import { JoinRequestModel } from '../../src/models/JoinRequest';
+import type { JoinRequest } from '../../src/models/JoinRequest';
+import type { Session, Player, Round, Bid, Ask, Trade, OrderStatus } from '../../src/types';
+
+/**
+ * In-memory replacement for the Postgres-backed model layer.
+ *
+ * install() swaps every static model method for one that reads and writes
+ * plain arrays, and routes the handful of raw `pool.query` calls the engines
+ * make (player UPDATEs and engine_round_states snapshots) through a tiny SQL
+ * matcher. Any query it does not recognise throws, so a new raw query in an
+ * engine shows up as a test failure instead of silently doing nothing.
+ */
+export class MemoryStore {
+  sessions: Session[] = [];
+  players: Player[] = [];
+  rounds: Round[] = [];
+  bids: Bid[] = [];
+  asks: Ask[] = [];
+  trades: Trade[] = [];
+  gameActions: GameAction[] = [];
+  gameResults: GameResult[] = [];
+  roundPairings: RoundPairing[] = [];
+  roundValues: RoundValue[] = [];
+  joinRequests: Array<JoinRequest & { poll_secret_hash: string }> = [];
+  roundStates = new Map<string, { gameType: string; state: string }>();
+
+  private clock = Date.now();
+
+  // Strictly increasing timestamps so "ORDER BY created_at" is deterministic
+  now(): Date {
+    this.clock += 1;
+    return new Date(this.clock);
+  }
+
+  // Swap the model layer for this store (undone by jest.restoreAllMocks)
+  install(): void {
+    this.installSessionModel();
+    this.installPlayerModel();
+    this.installRoundModel();
+    this.installOrderModels();
+    this.installTradeModel();
+    this.installGameActionModel();
+    this.installGameResultModel();
+    this.installRoundPairingModel();
+    this.installRoundValueModel();
+    this.installJoinRequestModel();
+    jest.spyOn(pool, 'query').mockImplementation(((text: string, params?: any[]) =>
+      Promise.resolve(this.query(text, params || []))) as any);
+    jest.spyOn(pool, 'connect').mockImplementation((() => {
+      throw new Error('MemoryStore does not support pool.connect()');
+    }) as any);
+  }
+
+  // ==========================================================================
+  // Row helpers
+  // ==========================================================================
+
+  insertSession(data: Partial<Session>): Session {
+    const session: Session = {
+      id: randomUUID(),
+      code: data.code || randomUUID().slice(0, 6).toUpperCase(),
+      status: 'waiting',
+      game_type: data.game_type || 'double_auction',
+      game_config: data.game_config || {},
+      market_size: data.market_size ?? 4,
+      num_rounds: data.num_rounds ?? 5,
+      time_per_round: data.time_per_round ?? 120,
+      valuation_min: data.valuation_min ?? 10,
+      valuation_max: data.valuation_max ?? 100,
+      valuation_increments: data.valuation_increments ?? 5,
+      cost_min: data.cost_min ?? 10,
+      cost_max: data.cost_max ?? 100,
+      cost_increments: data.cost_increments ?? 5,
+      bot_enabled: data.bot_enabled ?? false,
+      auto_advance: data.auto_advance ?? true,
+      absent_policy: data.absent_policy ?? 'skip',
+      absent_grace_seconds: data.absent_grace_seconds ?? 30,
+      passcode: data.passcode ?? null,
+      admin_password: null,
+      owner_id: data.owner_id ?? null,
+      tags: data.tags ?? {},
+      treatments: data.treatments ?? [],
+      is_simulation: data.is_simulation ?? false,
+      current_round: 0,
+      created_at: this.now(),
+    };
+    this.sessions.push(session);
+    return session;
+  }
+
+  insertPlayer(data: Partial<Player> & { session_id: string; role: string }): Player {
+    const player: Player = {
+      id: randomUUID(),
+      name: undefined,
+      valuation: undefined,
+      production_cost: undefined,
+      total_profit: 0,
+      is_bot: false,
+      is_active: true,
+      game_data: {},
+      created_at: this.now(),
+      last_active_at: this.now(),
+      ...data,
+    };
+    this.players.push(player);
+    return player;
+  }
+
+  insertRound(sessionId: string, roundNumber: number): Round {
+    const round: Round = {
+      id: randomUUID(),
+      session_id: sessionId,
+      round_number: roundNumber,
+      status: 'waiting',
+    };
+    this.rounds.push(round);
+    return round;
+  }
+
+  private byCreated<T extends { created_at: Date }>(rows: T[]): T[] {
+    return [...rows].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  }
+
+  private roundNumber(roundId: string): number {
+    return this.rounds.find((r) => r.id === roundId)?.round_number ?? 0;
+  }
+
+  private sessionRoundIds(sessionId: string): Set<string> {
+    return new Set(this.rounds.filter((r) => r.session_id === sessionId).map((r) => r.id));
+  }
+
+  // ==========================================================================
+  // Model replacements
+  // ==========================================================================
+
+  private installSessionModel(): void {
+    jest.spyOn(SessionModel, 'create').mockImplementation(async (data, isSimulation = false) =>
+      this.insertSession({ ...data, is_simulation: isSimulation }));
+    jest.spyOn(SessionModel, 'findById').mockImplementation(async (id) =>
+      this.sessions.find((s) => s.id === id) || null);
+    jest.spyOn(SessionModel, 'findByCode').mockImplementation(async (code) =>
+      this.sessions.find((s) => s.code === code) || null);
+    jest.spyOn(SessionModel, 'findAll').mockImplementation(async (limit = 50, offset = 0) =>
+      [...this.sessions].reverse().slice(offset, offset + limit));
+    jest.spyOn(SessionModel, 'findByOwner').mockImplementation(async (ownerId, limit = 50, offset = 0) =>
+      this.sessions.filter((s) => s.owner_id === ownerId && !s.is_simulation).reverse().slice(offset, offset + limit));
+    jest.spyOn(SessionModel, 'findByOwnerAndTags').mockImplementation(async (ownerId, tags) =>
+      this.sessions.filter((s) =>
+        s.owner_id === ownerId && !s.is_simulation && Object.entries(tags).every(([k, v]) => s.tags?.[k] === v)));
+    jest.spyOn(SessionModel, 'findActive').mockImplementation(async () =>
+      this.sessions.filter((s) => s.status === 'waiting' || s.status === 'active').reverse());
+    const update = (id: string, patch: Partial<Session>): Session => {
+      const session = this.sessions.find((s) => s.id === id)!;
+      Object.assign(session, patch);
+      return session;
+    };
+    jest.spyOn(SessionModel, 'updateStatus').mockImplementation(async (id, status) => update(id, { status }));
+    jest.spyOn(SessionModel, 'start').mockImplementation(async (id) =>
+      update(id, { status: 'active', started_at: this.now() }));
+    jest.spyOn(SessionModel, 'updateCurrentRound').mockImplementation(async (id, roundNumber) =>
+      update(id, { current_round: roundNumber }));
+    jest.spyOn(SessionModel, 'updateTags').mockImplementation(async (id, tags) => update(id, { tags }));
+    jest.spyOn(SessionModel, 'end').mockImplementation(async (id) =>
+      update(id, { status: 'completed', ended_at: this.now() }));
+    jest.spyOn(SessionModel, 'delete').mockImplementation(async (id) => {
+      this.sessions = this.sessions.filter((s) => s.id !== id);
+    });
+    jest.spyOn(SessionModel, 'deleteByOwner').mockImplementation(async (ownerId) => {
+      const before = this.sessions.length;
+      this.sessions = this.sessions.filter((s) => s.owner_id !== ownerId);
+      return before - this.sessions.length;
+    });
+  }
+
+  private installPlayerModel(): void {
+    jest.spyOn(PlayerModel, 'create').mockImplementation(async (sessionId, role, value, name, isBot = false) =>
+      this.insertPlayer({
+        session_id: sessionId,
+        role,
+        name,
+        is_bot: isBot,
+        ...(role === 'buyer' ? { valuation: value } : { production_cost: value }),
+      }));
+    jest.spyOn(PlayerModel, 'createGeneric').mockImplementation(async (sessionId, role, name, isBot = false) =>
+      this.insertPlayer({ session_id: sessionId, role, name, is_bot: isBot }));
+    jest.spyOn(PlayerModel, 'createWithCapacityCheck').mockImplementation(
+      async (sessionId, marketSize, role, name, isBot = false, valueColumn, value) => {
+        if (this.players.filter((p) => p.session_id === sessionId).length >= marketSize) return null;
+        return this.insertPlayer({
+          session_id: sessionId,
+          role,
+          name,
+          is_bot: isBot,
+          ...(valueColumn && value !== undefined ? { [valueColumn]: value } : {}),
+        });
+      });
+    jest.spyOn(PlayerModel, 'createWithRoleAssignment').mockImplementation(
+      async (sessionId, marketSize, name, isBot, roleAssigner) => {
+        const existing = this.byCreated(this.players.filter((p) => p.session_id === sessionId));
+        if (existing.length >= marketSize) return null;
+        const { role, valueColumn, value, gameData } = roleAssigner(existing);
+        return this.insertPlayer({
+          session_id: sessionId,
+          role,
+          name,
+          is_bot: isBot,
+          ...(valueColumn && value !== undefined ? { [valueColumn]: value } : {}),
+          ...(gameData ? { game_data: gameData } : {}),
+        });
+      });
+    jest.spyOn(PlayerModel, 'findById').mockImplementation(async (id) =>
+      this.players.find((p) => p.id === id) || null);
+    jest.spyOn(PlayerModel, 'findBySession').mockImplementation(async (sessionId) =>
+      this.byCreated(this.players.filter((p) => p.session_id === sessionId)));
+    jest.spyOn(PlayerModel, 'findActiveBySession').mockImplementation(async (sessionId) =>
+      this.byCreated(this.players.filter((p) => p.session_id === sessionId && p.is_active)));
+    jest.spyOn(PlayerModel, 'findBySessionAndRole').mockImplementation(async (sessionId, role) =>
+      this.players.filter((p) => p.session_id === sessionId && p.role === role && p.is_active));
+    const update = (id: string, patch: Partial<Player>): Player => {
+      const player = this.players.find((p) => p.id === id)!;
+      Object.assign(player, patch);
+      return player;
+    };
+    jest.spyOn(PlayerModel, 'updateProfit').mockImplementation(async (id, additionalProfit) => {
+      const player = this.players.find((p) => p.id === id)!;
+      return update(id, { total_profit: Number(player.total_profit) + Number(additionalProfit) });
+    });
+    jest.spyOn(PlayerModel, 'setUnitValues').mockImplementation(async (id, valueColumn, unitValues, baseUnitValues) => {
+      const player = this.players.find((p) => p.id === id)!;
+      return update(id, {
+        [valueColumn]: unitValues[0],
+        game_data: { ...player.game_data, unitValues, baseUnitValues },
+      });
+    });
+    jest.spyOn(PlayerModel, 'updateRole').mockImplementation(async (id, role) => update(id, { role }));
+    jest.spyOn(PlayerModel, 'markInactive').mockImplementation(async (id) => update(id, { is_active: false }));
+    jest.spyOn(PlayerModel, 'markActive').mockImplementation(async (id) => update(id, { is_active: true }));
+    jest.spyOn(PlayerModel, 'convertToBot').mockImplementation(async (id) => update(id, { is_bot: true }));
+    jest.spyOn(PlayerModel, 'markReturned').mockImplementation(async (id) =>
+      update(id, { is_active: true, is_bot: false }));
+    jest.spyOn(PlayerModel, 'claimSeat').mockImplementation(async (id, name) =>
+      update(id, { name, is_bot: false, is_active: true, claimed_at: this.now() }));
+    jest.spyOn(PlayerModel, 'delete').mockImplementation(async (id) => {
+      this.players = this.players.filter((p) => p.id !== id);
+    });
+  }
+
+  private installRoundModel(): void {
+    jest.spyOn(RoundModel, 'create').mockImplementation(async (sessionId, roundNumber) =>
+      this.insertRound(sessionId, roundNumber));
+    jest.spyOn(RoundModel, 'findById').mockImplementation(async (id) =>
+      this.rounds.find((r) => r.id === id) || null);
+    jest.spyOn(RoundModel, 'findBySessionAndNumber').mockImplementation(async (sessionId, roundNumber) =>
+      this.rounds.find((r) => r.session_id === sessionId && r.round_number === roundNumber) || null);
+    jest.spyOn(RoundModel, 'findBySession').mockImplementation(async (sessionId) =>
+      this.rounds.filter((r) => r.session_id === sessionId).sort((a, b) => a.round_number - b.round_number));
+    jest.spyOn(RoundModel, 'getCurrentRound').mockImplementation(async (sessionId) =>
+      this.rounds.find((r) => r.session_id === sessionId && r.status === 'active') || null);
+    jest.spyOn(RoundModel, 'findAllActive').mockImplementation(async () =>
+      this.rounds.filter((r) => r.status === 'active' &&
+        this.sessions.some((s) => s.id === r.session_id && s.status === 'active' && !s.is_simulation)));
+    jest.spyOn(RoundModel, 'start').mockImplementation(async (id) => {
+      const round = this.rounds.find((r) => r.id === id && r.status === 'waiting');
+      if (!round) return undefined as unknown as Round;
+      return Object.assign(round, { status: 'active', started_at: this.now() });
+    });
+    jest.spyOn(RoundModel, 'end').mockImplementation(async (id) => {
+      const round = this.rounds.find((r) => r.id === id && r.status === 'active');
+      if (!round) return undefined as unknown as Round;
+      return Object.assign(round, { status: 'completed', ended_at: this.now() });
+    });
+    jest.spyOn(RoundModel, 'updateStatus').mockImplementation(async (id, status) =>
+      Object.assign(this.rounds.find((r) => r.id === id)!, { status }));
+    jest.spyOn(RoundModel, 'setSurplus').mockImplementation(async (id, surplus) => {
+      Object.assign(this.rounds.find((r) => r.id === id)!, { surplus });
+    });
+  }
+
+  private installOrderModels(): void {
+    for (const [model, table, direction] of [
+      [BidModel, 'bids', -1],
+      [AskModel, 'asks', 1],
+    ] as const) {
+      const rows = () => this[table] as Array<Bid | Ask>;
+      jest.spyOn(model, 'create').mockImplementation(async (roundId: string, playerId: string, price: number, unitNumber = 1) => {
+        const row = {
+          id: randomUUID(), round_id: roundId, player_id: playerId, price, unit_number: unitNumber,
+          is_active: true, status: 'open' as const, created_at: this.now(),
+        };
+        rows().push(row);
+        return row;
+      });
+      jest.spyOn(model, 'findById').mockImplementation(async (id: string) =>
+        rows().find((r) => r.id === id) || null);
+      jest.spyOn(model, 'findByRound').mockImplementation(async (roundId: string) =>
+        this.byCreated(rows().filter((r) => r.round_id === roundId)).reverse());
+      jest.spyOn(model, 'findActiveByRound').mockImplementation(async (roundId: string) =>
+        this.byCreated(rows().filter((r) => r.round_id === roundId && r.is_active))
+          .sort((a, b) => direction * (Number(a.price) - Number(b.price))));
+      const close = (row: Bid | Ask, status: OrderStatus) =>
+        Object.assign(row, { is_active: false, status, closed_at: this.now() });
+      jest.spyOn(model, 'findBySession').mockImplementation(async (sessionId: string) => {
+        const roundIds = this.sessionRoundIds(sessionId);
+        return this.byCreated(rows().filter((r) => roundIds.has(r.round_id)))
+          .map((r) => ({ ...r, round_number: this.roundNumber(r.round_id) }))
+          .sort((a, b) => a.round_number - b.round_number);
+      });
+      jest.spyOn(model, 'markInactive').mockImplementation(async (id: string) =>
+        close(rows().find((r) => r.id === id)!, 'filled'));
+      jest.spyOn(model, 'cancel').mockImplementation(async (id: string) => {
+        const row = rows().find((r) => r.id === id && r.is_active);
+        return row ? close(row, 'cancelled') : null;
+      });
+      jest.spyOn(model, 'deactivateForPlayer').mockImplementation(async (roundId: string, playerId: string) => {
+        const standing = rows().filter((r) => r.round_id === roundId && r.player_id === playerId && r.is_active);
+        standing.forEach((r) => close(r, 'replaced'));
+        return standing;
+      });
+      jest.spyOn(model, 'deactivateAllForRound').mockImplementation(async (roundId: string) => {
+        rows().filter((r) => r.round_id === roundId && r.is_active).forEach((r) => close(r, 'expired'));
+      });
+    }
+  }
+
+  private installTradeModel(): void {
+    jest.spyOn(TradeModel, 'create').mockImplementation(
+      async (roundId, buyerId, sellerId, price, buyerProfit, sellerProfit, bidId, askId, buyerUnit = 1, sellerUnit = 1) => {
+        const trade: Trade = {
+          id: randomUUID(),
+          round_id: roundId,
+          buyer_id: buyerId,
+          seller_id: sellerId,
+          bid_id: bidId,
+          ask_id: askId,
+          price,
+          buyer_profit: buyerProfit,
+          seller_profit: sellerProfit,
+          buyer_unit: buyerUnit,
+          seller_unit: sellerUnit,
+          created_at: this.now(),
+        };
+        this.trades.push(trade);
+        return trade;
+      });
+    jest.spyOn(TradeModel, 'findById').mockImplementation(async (id) =>
+      this.trades.find((t) => t.id === id) || null);
+    jest.spyOn(TradeModel, 'findByRound').mockImplementation(async (roundId) =>
+      this.byCreated(this.trades.filter((t) => t.round_id === roundId)));
+    jest.spyOn(TradeModel, 'findBySession').mockImplementation(async (sessionId) => {
+      const roundIds = this.sessionRoundIds(sessionId);
+      return this.byCreated(this.trades.filter((t) => roundIds.has(t.round_id)));
+    });
+    jest.spyOn(TradeModel, 'findByPlayer').mockImplementation(async (playerId) =>
+      this.byCreated(this.trades.filter((t) => t.buyer_id === playerId || t.seller_id === playerId)));
+  }
+
+  private installGameActionModel(): void {
+    // action_data is stored as JSONB, so round-trip it to drop undefined keys
+    jest.spyOn(GameActionModel, 'create').mockImplementation(async (roundId, playerId, actionType, actionData) => {
+      const action: GameAction = {
+        id: randomUUID(),
+        round_id: roundId,
+        player_id: playerId,
+        action_type: actionType,
+        action_data: JSON.parse(JSON.stringify(actionData)),
+        created_at: this.now(),
+      };
+      this.gameActions.push(action);
+      return action;
+    });
+    jest.spyOn(GameActionModel, 'findByRound').mockImplementation(async (roundId) =>
+      this.byCreated(this.gameActions.filter((a) => a.round_id === roundId)));
+    jest.spyOn(GameActionModel, 'findBySession').mockImplementation(async (sessionId) => {
+      const roundIds = this.sessionRoundIds(sessionId);
+      return this.byCreated(this.gameActions.filter((a) => roundIds.has(a.round_id)))
+        .sort((a, b) => this.roundNumber(a.round_id) - this.roundNumber(b.round_id));
+    });
+    jest.spyOn(GameActionModel, 'findByRoundAndPlayer').mockImplementation(async (roundId, playerId) =>
+      this.byCreated(this.gameActions.filter((a) => a.round_id === roundId && a.player_id === playerId)));
+    jest.spyOn(GameActionModel, 'findByRoundAndType').mockImplementation(async (roundId, actionType) =>
+      this.byCreated(this.gameActions.filter((a) => a.round_id === roundId && a.action_type === actionType)));
+    jest.spyOn(GameActionModel, 'hasPlayerActed').mockImplementation(async (roundId, playerId, actionType) =>
+      this.gameActions.some((a) => a.round_id === roundId && a.player_id === playerId &&
+        (!actionType || a.action_type === actionType)));
+    jest.spyOn(GameActionModel, 'countByRound').mockImplementation(async (roundId, actionType) =>
+      this.gameActions.filter((a) => a.round_id === roundId && (!actionType || a.action_type === actionType)).length);
+    jest.spyOn(GameActionModel, 'deleteByRound').mockImplementation(async (roundId) => {
+      this.gameActions = this.gameActions.filter((a) => a.round_id !== roundId);
+    });
+  }
+
+  private installGameResultModel(): void {
+    jest.spyOn(GameResultModel, 'create').mockImplementation(async (roundId, playerId, resultData, profit) => {
+      const result: GameResult = {
+        id: randomUUID(),
+        round_id: roundId,
+        player_id: playerId,
+        result_data: JSON.parse(JSON.stringify(resultData)),
+        profit,
+        created_at: this.now(),
+      };
+      this.gameResults.push(result);
+      return result;
+    });
+    jest.spyOn(GameResultModel, 'findByRound').mockImplementation(async (roundId) =>
+      this.byCreated(this.gameResults.filter((r) => r.round_id === roundId)));
+    jest.spyOn(GameResultModel, 'findByPlayer').mockImplementation(async (playerId) =>
+      this.byCreated(this.gameResults.filter((r) => r.player_id === playerId)));
+    jest.spyOn(GameResultModel, 'findByRoundAndPlayer').mockImplementation(async (roundId, playerId) =>
+      this.gameResults.find((r) => r.round_id === roundId && r.player_id === playerId) || null);
+    jest.spyOn(GameResultModel, 'findBySession').mockImplementation(async (sessionId) => {
+      const roundIds = this.sessionRoundIds(sessionId);
+      return this.byCreated(this.gameResults.filter((r) => roundIds.has(r.round_id)))
+        .sort((a, b) => this.roundNumber(a.round_id) - this.roundNumber(b.round_id));
+    });
+  }
+
+  private installRoundPairingModel(): void {
+    jest.spyOn(RoundPairingModel, 'createMany').mockImplementation(async (roundId, pairs, matching) => {
+      const created: RoundPairing[] = [];
+      for (const pair of pairs) {
+        const taken = this.roundPairings.some((rp) => rp.round_id === roundId &&
+          (rp.first_mover_id === pair.firstMoverId || rp.second_mover_id === pair.secondMoverId));
+        if (taken) continue;
+        const row: RoundPairing = {
+          id: randomUUID(),
+          round_id: roundId,
+          first_mover_id: pair.firstMoverId,
+          second_mover_id: pair.secondMoverId,
+          matching,
+          created_at: this.now(),
+        };
+        this.roundPairings.push(row);
+        created.push(row);
+      }
+      return created;
+    });
+    jest.spyOn(RoundPairingModel, 'findByRound').mockImplementation(async (roundId) =>
+      this.byCreated(this.roundPairings.filter((rp) => rp.round_id === roundId)));
+    jest.spyOn(RoundPairingModel, 'findBySession').mockImplementation(async (sessionId) => {
+      const roundIds = this.sessionRoundIds(sessionId);
+      return this.byCreated(this.roundPairings.filter((rp) => roundIds.has(rp.round_id)))
+        .map((rp) => ({ ...rp, round_number: this.roundNumber(rp.round_id) }))
+        .sort((a, b) => a.round_number - b.round_number);
+    });
+  }
+
+  private installRoundValueModel(): void {
+    jest.spyOn(RoundValueModel, 'createMany').mockImplementation(async (roundId, entries) => {
+      this.roundValues = this.roundValues.filter((rv) =>
+        rv.round_id !== roundId || !entries.some((e) => e.playerId === rv.player_id));
+      const created = entries.map((entry): RoundValue => ({
+        id: randomUUID(),
+        round_id: roundId,
+        player_id: entry.playerId,
+        role: entry.role,
+        unit_values: [...entry.unitValues],
+        created_at: this.now(),
+      }));
+      this.roundValues.push(...created);
+      return created;
+    });
+    jest.spyOn(RoundValueModel, 'findByRound').mockImplementation(async (roundId) =>
+      this.byCreated(this.roundValues.filter((rv) => rv.round_id === roundId)));
+    jest.spyOn(RoundValueModel, 'findBySession').mockImplementation(async (sessionId) => {
+      const roundIds = this.sessionRoundIds(sessionId);
+      return this.byCreated(this.roundValues.filter((rv) => roundIds.has(rv.round_id)))
+        .map((rv) => ({ ...rv, round_number: this.roundNumber(rv.round_id) }))
+        .sort((a, b) => a.round_number - b.round_number);
+    });
+  }
+
+  private installJoinRequestModel(): void {
+    jest.spyOn(JoinRequestModel, 'create').mockImplementation(async (sessionId, name, pollSecretHash) => {
+      const request = {
+        id: randomUUID(),
+        session_id: sessionId,
+        name,
+        status: 'pending' as const,
+        player_id: null,
+        created_at: this.now(),
+        decided_at: null,
+        token_issued_at: null,
+        poll_secret_hash: pollSecretHash,
+      };
+      this.joinRequests.push(request);
+      return request;
+    });
+    jest.spyOn(JoinRequestModel, 'findById').mockImplementation(async (id) =>
+      this.joinRequests.find((r) => r.id === id) || null);
+    jest.spyOn(JoinRequestModel, 'findByIdAndSecret').mockImplementation(async (id, pollSecretHash) =>
+      this.joinRequests.find((r) => r.id === id && r.poll_secret_hash === pollSecretHash) || null);
+    jest.spyOn(JoinRequestModel, 'findPendingBySession').mockImplementation(async (sessionId) =>
+      this.byCreated(this.joinRequests.filter((r) => r.session_id === sessionId && r.status === 'pending')));
+    jest.spyOn(JoinRequestModel, 'decide').mockImplementation(async (id, status, playerId = null) => {
+      const request = this.joinRequests.find((r) => r.id === id && r.status === 'pending');
+      if (!request) return null;
+      return Object.assign(request, { status, player_id: playerId, decided_at: this.now() });
+    });
+    jest.spyOn(JoinRequestModel, 'setPlayer').mockImplementation(async (id, playerId) => {
+      const request = this.joinRequests.find((r) => r.id === id && r.status === 'approved');
+      if (!request) return null;
+      return Object.assign(request, { player_id: playerId });
+    });
+    jest.spyOn(JoinRequestModel, 'reopen').mockImplementation(async (id) => {
+      const request = this.joinRequests.find((r) => r.id === id && r.status === 'approved');
+      if (request) Object.assign(request, { status: 'pending', player_id: null, decided_at: null });
+    });
+    jest.spyOn(JoinRequestModel, 'issueToken').mockImplementation(async (id) => {
+      const request = this.joinRequests.find((r) =>
+        r.id === id && r.status === 'approved' && r.player_id && !r.token_issued_at);
+      if (!request) return null;
+      return Object.assign(request, { token_issued_at: this.now() });
+    });
+  }
+
+  // ==========================================================================
+  // Raw SQL used directly by engines
+  // ==========================================================================
+
+  private query(text: string, params: any[]): { rows: any[]; rowCount: number } {
+    const sql = text.replace(/\s+/g, ' ').trim();
+
+    const update = sql.match(/^UPDATE players SET (.+) WHERE id = \$(\d+)$/i);
+    if (update) {
+      const player = this.players.find((p) => p.id === params[Number(update[2]) - 1]);
+      if (!player) return { rows: [], rowCount: 0 };
+      for (const assignment of splitAssignments(update[1])) {
+        const [column, expr] = assignment.split(/\s*=\s*/, 2) as [keyof Player, string];
+        (player as any)[column] = this.evaluate(expr, params, player, column);
+      }
+      return { rows: [player], rowCount: 1 };
+    }
+
+    if (/^INSERT INTO engine_round_states/i.test(sql)) {
+      this.roundStates.set(params[0], { gameType: params[1], state: params[2] });
+      return { rows: [], rowCount: 1 };
+    }
+    if (/^SELECT state::text AS state FROM engine_round_states/i.test(sql)) {
+      const stored = this.roundStates.get(params[0]);
+      return { rows: stored ? [{ state: stored.state }] : [], rowCount: stored ? 1 : 0 };
+    }
+    if (/^DELETE FROM engine_round_states/i.test(sql)) {
+      const existed = this.roundStates.delete(params[0]);
+      return { rows: [], rowCount: existed ? 1 : 0 };
+    }
+
+    throw new Error(`MemoryStore: unsupported query: ${sql}`);
+  }
+
+  private evaluate(expr: string, params: any[], player: Player, column: string): any {
+    const param = expr.match(/^\$(\d+)$/);
+    if (param) {
+      const value = params[Number(param[1]) - 1];
+      // JSONB columns come back parsed from pg
+      return column === 'game_data' && typeof value === 'string' ? JSON.parse(value) : value;
+    }
+    if (/^NULL$/i.test(expr)) return null;
+    const literal = expr.match(/^'(.*)'$/);
+    if (literal) return literal[1];
+    const increment = expr.match(/^(?:COALESCE\((\w+), 0\)|(\w+)) \+ \$(\d+)$/i);
+    if (increment) {
+      const current = Number((player as any)[increment[1] || increment[2]] ?? 0);
+      return current + Number(params[Number(increment[3]) - 1]);
+    }
+    throw new Error(`MemoryStore: unsupported SET expression: ${expr}`);
+  }
+}
+
+// Split "a = $1, b = COALESCE(b, 0) + $2" on top-level commas only
+function splitAssignments(clause: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of clause) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
@@ -0,0 +1,105 @@
+import { MemoryStore } from '../harness/memoryStore';
+import { mockReq, mockRes } from '../harness/http';
+import { requireAdmin } from '../../src/middleware/adminAuth';
+import { requireInstructor, signInstructorToken, verifyInstructorToken } from '../../src/middleware/instructorAuth';
+import { signPlayerToken } from '../../src/middleware/playerAuth';
+import { SessionController } from '../../src/controllers/sessionController';
+import { AnalyticsController } from '../../src/controllers/analyticsController';
+
+describe('instructor auth', () => {
+  const alice = { instructorId: 'instructor-a', email: 'alice@example.edu' };
+  const bob = { instructorId: 'instructor-b', email: 'bob@example.edu' };
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    store.install();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('round-trips instructor tokens and refuses player tokens', () => {
+    expect(verifyInstructorToken(signInstructorToken(alice))).toEqual(alice);
+    const playerToken = signPlayerToken({ playerId: 'p', sessionId: 's', sessionCode: 'ABC123' });
+    expect(verifyInstructorToken(playerToken)).toBeNull();
+  });
+
+  it('requireInstructor rejects anonymous requests and attaches the instructor', () => {
+    const next = jest.fn();
+    const res = mockRes();
+    requireInstructor(mockReq(), res, next);
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+
+    const req = mockReq({ token: signInstructorToken(alice) });
+    requireInstructor(req, mockRes(), next);
+    expect(next).toHaveBeenCalled();
+    expect(req.instructor).toEqual(alice);
+  });
+
+  it('requireAdmin only lets the owner into an owned session', async () => {
+    const session = store.insertSession({ owner_id: alice.instructorId });
+    const params = { id: session.id };
+
+    const anonymous = mockRes();
+    await requireAdmin(mockReq({ params }), anonymous, jest.fn());
+    expect(anonymous.statusCode).toBe(401);
+
+    const stranger = mockRes();
+    await requireAdmin(mockReq({ params, token: signInstructorToken(bob) }), stranger, jest.fn());
+    expect(stranger.statusCode).toBe(403);
+
+    const next = jest.fn();
+    await requireAdmin(mockReq({ params, token: signInstructorToken(alice) }), mockRes(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('keeps legacy unowned sessions on the admin password path', async () => {
+    const session = store.insertSession({});
+    const next = jest.fn();
+    await requireAdmin(mockReq({ params: { id: session.id } }), mockRes(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('lists and deletes only the instructor\'s own sessions', async () => {
+    const mine = store.insertSession({ owner_id: alice.instructorId });
+    const theirs = store.insertSession({ owner_id: bob.instructorId });
+    const legacy = store.insertSession({});
+
+    const listReq = mockReq();
+    listReq.instructor = alice;
+    const listRes = mockRes();
+    await SessionController.list(listReq, listRes);
+    expect(listRes.body.data.map((s: any) => s.id)).toEqual([mine.id]);
+
+    const deleteReq = mockReq();
+    deleteReq.instructor = alice;
+    const deleteRes = mockRes();
+    await SessionController.deleteAll(deleteReq, deleteRes);
+    expect(deleteRes.body.message).toBe('Deleted 1 sessions');
+    expect(store.sessions.map((s) => s.id)).toEqual([theirs.id, legacy.id]);
+  });
+
+  it('compares only the instructor\'s own sessions, selected by id or tag', async () => {
+    const fall = store.insertSession({ owner_id: alice.instructorId, tags: { course: 'ECON101', semester: 'Fall' } });
+    const spring = store.insertSession({ owner_id: alice.instructorId, tags: { course: 'ECON101', semester: 'Spring' } });
+    store.insertSession({ owner_id: alice.instructorId, tags: { course: 'ECON202' } });
+    const theirs = store.insertSession({ owner_id: bob.instructorId, tags: { course: 'ECON101' } });
+
+    const compare = async (query: Record<string, string>) => {
+      const req = mockReq({ query });
+      req.instructor = alice;
+      const res = mockRes();
+      await AnalyticsController.compare(req, res);
+      return res;
+    };
+
+    const byTag = await compare({ 'tag.course': 'ECON101', groupBy: 'semester' });
+    expect(byTag.body.data.sessions.map((s: any) => s.id)).toEqual([fall.id, spring.id]);
+    expect(byTag.body.data.groups.map((g: any) => g.key)).toEqual(['Fall', 'Spring']);
+
+    expect((await compare({ sessionIds: `${fall.id},${theirs.id}` })).statusCode).toBe(403);
+    expect((await compare({})).statusCode).toBe(400);
+  });
+});
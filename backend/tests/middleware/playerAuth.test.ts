@@ -0,0 +1,95 @@
+import jwt from 'jsonwebtoken';
+import { MemoryStore } from '../harness/memoryStore';
+import { mockReq, mockRes } from '../harness/http';
+import { issuedBefore, requirePlayerOrAdmin, signPlayerToken, verifyPlayerToken } from '../../src/middleware/playerAuth';
+import { signInstructorToken } from '../../src/middleware/instructorAuth';
+import { SessionController } from '../../src/controllers/sessionController';
+
+describe('player tokens', () => {
+  const claims = { playerId: 'player-1', sessionId: 'session-1', sessionCode: 'ABC123' };
+
+  it('round-trips the player binding', () => {
+    expect(verifyPlayerToken(signPlayerToken(claims))).toEqual(claims);
+  });
+
+  it('rejects missing, malformed and foreign tokens', () => {
+    expect(verifyPlayerToken(undefined)).toBeNull();
+    expect(verifyPlayerToken(42)).toBeNull();
+    expect(verifyPlayerToken('not-a-token')).toBeNull();
+    expect(verifyPlayerToken(jwt.sign(claims, 'some-other-secret'))).toBeNull();
+  });
+
+  it('rejects tokens missing player claims', () => {
+    expect(verifyPlayerToken(jwt.sign({ playerId: 'player-1' }, 'test-secret'))).toBeNull();
+  });
+
+  it('rejects expired tokens', () => {
+    const token = signPlayerToken(claims);
+    jest.useFakeTimers({ now: Date.now() + 25 * 60 * 60 * 1000 });
+    try {
+      expect(verifyPlayerToken(token)).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('tells tokens from before a seat changed hands', () => {
+    const token = signPlayerToken(claims);
+    expect(issuedBefore(token, new Date(Date.now() + 60_000))).toBe(true);
+    expect(issuedBefore(token, new Date())).toBe(false);
+    expect(issuedBefore(jwt.sign(claims, 'test-secret', { noTimestamp: true }), new Date())).toBe(true);
+  });
+});
+
+describe('player records', () => {
+  const owner = { instructorId: 'instructor-a', email: 'alice@example.edu' };
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    store.install();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('are only open to the player and the session owner', async () => {
+    const session = store.insertSession({ owner_id: owner.instructorId });
+    const me = store.insertPlayer({ session_id: session.id, role: 'buyer' });
+    const classmate = store.insertPlayer({ session_id: session.id, role: 'seller' });
+    const tokenFor = (id: string) => signPlayerToken({ playerId: id, sessionId: session.id, sessionCode: session.code });
+
+    const attempt = async (opts: Parameters<typeof mockReq>[0]) => {
+      const next = jest.fn();
+      const res = mockRes();
+      await requirePlayerOrAdmin(mockReq({ params: { id: me.id }, ...opts }), res, next);
+      return next.mock.calls.length > 0 ? 'allowed' : res.statusCode;
+    };
+
+    expect(await attempt({})).toBe(401);
+    expect(await attempt({ headers: { 'x-player-token': tokenFor(classmate.id) } })).toBe(401);
+    expect(await attempt({ headers: { 'x-player-token': tokenFor(me.id) } })).toBe('allowed');
+    expect(await attempt({ token: signInstructorToken(owner) })).toBe('allowed');
+
+    // A late joiner took the seat over since this token was issued
+    const stale = tokenFor(me.id);
+    store.players[0].claimed_at = new Date(Date.now() + 60_000);
+    expect(await attempt({ headers: { 'x-player-token': stale } })).toBe(401);
+  });
+
+  it('are listed without ids or values for anyone but the owner, with the session too', async () => {
+    const session = store.insertSession({ owner_id: owner.instructorId });
+    store.insertPlayer({ session_id: session.id, role: 'buyer', name: 'Ann', valuation: 40 });
+
+    const anonymous = mockRes();
+    await SessionController.getPlayers(mockReq({ params: { id: session.id } }), anonymous);
+    expect(anonymous.body.data).toEqual([{ name: 'Ann', role: 'buyer', is_bot: false, is_active: true, total_profit: 0 }]);
+
+    const admin = mockRes();
+    await SessionController.getPlayers(mockReq({ params: { id: session.id }, token: signInstructorToken(owner) }), admin);
+    expect(admin.body.data[0]).toMatchObject({ id: store.players[0].id, valuation: 40 });
+
+    const session_ = mockRes();
+    await SessionController.getById(mockReq({ params: { id: session.id } }), session_);
+    expect(session_.body.data.players).toEqual(anonymous.body.data);
+  });
+});
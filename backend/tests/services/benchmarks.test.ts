@@ -0,0 +1,106 @@
+import { competitiveEquilibrium, computeBenchmarks } from '../../src/services/benchmarks';
+import type { Player } from '../../src/types';
+
+function trader(role: string, value?: number, unitValues?: number[]): Player {
+  return {
+    id: `${role}-${value}`,
+    session_id: 'session-1',
+    role,
+    valuation: role === 'buyer' ? value : undefined,
+    production_cost: role === 'seller' ? value : undefined,
+    total_profit: 0,
+    is_bot: false,
+    is_active: true,
+    game_data: unitValues ? { unitValues } : undefined,
+    created_at: new Date(),
+    last_active_at: new Date(),
+  };
+}
+
+const firms = (n: number) => Array.from({ length: n }, () => trader('firm'));
+
+describe('competitive equilibrium', () => {
+  it('finds the clearing range, quantity and max surplus', () => {
+    const ce = competitiveEquilibrium([100, 80, 60, 40], [20, 50, 70, 90]);
+    expect(ce).toEqual({ price: 65, priceLow: 60, priceHigh: 70, quantity: 2, maxSurplus: 110 });
+  });
+
+  it('returns null when no unit can trade', () => {
+    expect(competitiveEquilibrium([10, 5], [20, 30])).toBeNull();
+    expect(competitiveEquilibrium([], [])).toBeNull();
+  });
+
+  it('uses per-round values and multi-unit schedules for DA sessions', () => {
+    const benchmark = computeBenchmarks({
+      gameType: 'double_auction',
+      config: {},
+      players: [trader('buyer', 100, [100, 80]), trader('seller', 20, [20, 50])],
+      roundValues: [
+        { round_number: 2, role: 'buyer', unit_values: [60] },
+        { round_number: 2, role: 'seller', unit_values: [40] },
+        { round_number: 1, role: 'buyer', unit_values: [100, 80] },
+        { round_number: 1, role: 'seller', unit_values: [20, 50] },
+      ],
+    });
+    expect(benchmark?.predictions).toMatchObject({ quantity: 2, maxSurplus: 110 });
+    expect(benchmark?.rounds?.map((r) => [r.roundNumber, r.price, r.quantity])).toEqual([[1, 65, 2], [2, 50, 1]]);
+  });
+});
+
+describe('session benchmarks', () => {
+  it('predicts Cournot-Nash and collusive quantities', () => {
+    const { predictions } = computeBenchmarks({
+      gameType: 'cournot',
+      config: { demandIntercept: 100, demandSlope: 1, marginalCost: 10 },
+      players: firms(2),
+    })!;
+    expect(predictions).toMatchObject({
+      nashQuantity: 30,
+      nashPrice: 40,
+      nashProfit: 900,
+      collusiveQuantity: 22.5,
+      collusivePrice: 55,
+    });
+  });
+
+  it('predicts marginal-cost pricing for Bertrand with two or more firms', () => {
+    const config = { marginalCost: 10, maxPrice: 80 };
+    expect(computeBenchmarks({ gameType: 'bertrand', config, players: firms(3) })!.predictions.nashPrice).toBe(10);
+    expect(computeBenchmarks({ gameType: 'bertrand', config, players: firms(1) })!.predictions.nashPrice).toBe(80);
+  });
+
+  it('contrasts zero contribution with the social optimum in public goods', () => {
+    const { predictions } = computeBenchmarks({
+      gameType: 'public_goods',
+      config: { endowment: 20, mpcr: 0.4 },
+      players: firms(4),
+    })!;
+    expect(predictions).toMatchObject({ nashContribution: 0, nashPayoff: 20, optimalContribution: 20, optimalPayoff: 32 });
+  });
+
+  it('predicts the smallest offer in ultimatum and bargaining', () => {
+    const ultimatum = computeBenchmarks({ gameType: 'ultimatum', config: { endowment: 10, minOffer: 1 }, players: [] })!;
+    expect(ultimatum.predictions).toMatchObject({ proposerOffer: 1, proposerKeeps: 9 });
+    const bargaining = computeBenchmarks({ gameType: 'bargaining', config: { pieSize: 10 }, players: [] })!;
+    expect(bargaining.predictions).toMatchObject({ proposerOffer: 0.01, proposerKeeps: 9.99 });
+  });
+
+  it('shades first-price bids by (n-1)/n and bids value in second-price', () => {
+    const firstPrice = computeBenchmarks({
+      gameType: 'auction',
+      config: { valueMin: 0, valueMax: 100 },
+      players: firms(4),
+    })!;
+    expect(firstPrice.predictions).toMatchObject({ bidShare: 0.75, bidIntercept: 0, expectedPrice: 60 });
+    const secondPrice = computeBenchmarks({
+      gameType: 'auction',
+      config: { auctionType: 'second_price', valueMin: 0, valueMax: 100 },
+      players: firms(4),
+    })!;
+    expect(secondPrice.predictions).toMatchObject({ bidShare: 1, expectedPrice: 60 });
+  });
+
+  it('returns null for games without a benchmark', () => {
+    expect(computeBenchmarks({ gameType: 'stag_hunt', config: {}, players: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import type { Server } from 'socket.io';
+
+// Just enough of Redis for the lease: SET NX PX and the two compare scripts
+const keys = new Map<string, { value: string; expiresAt: number }>();
+const live = (key: string) => {
+  const entry = keys.get(key);
+  if (entry && entry.expiresAt <= Date.now()) keys.delete(key);
+  return keys.get(key);
+};
+
+jest.mock('../../src/config/redis', () => ({
+  redisReady: Promise.resolve(true),
+  redisClient: {
+    set: async (key: string, value: string, opts: { expiration: { value: number } }) => {
+      if (live(key)) return null;
+      keys.set(key, { value, expiresAt: Date.now() + opts.expiration.value });
+      return 'OK';
+    },
+    eval: async (script: string, { keys: [key], arguments: [token, ms] }: { keys: string[]; arguments: string[] }) => {
+      if (live(key)?.value !== token) return 0;
+      if (script.includes('pexpire')) keys.set(key, { value: token, expiresAt: Date.now() + Number(ms) });
+      else keys.delete(key);
+      return 1;
+    },
+  },
+}));
+
+import { ClusterLeader } from '../../src/services/ClusterLeader';
+
+describe('cluster leader', () => {
+  const realSetImmediate = jest.requireActual('timers').setImmediate;
+  const flush = () => new Promise((resolve) => realSetImmediate(resolve));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Election changes are logged; keep test output readable
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('waits for the lease, runs tasks once elected and stands down when it loses it', async () => {
+    const leader = ClusterLeader.getInstance();
+    // The other instance takes what it is handed
+    const io = {
+      on: jest.fn(),
+      serverSideEmit: jest.fn((_event, _task, ack) => ack(null, [true])),
+    } as unknown as Server;
+    const task = jest.fn();
+    const onElected = jest.fn();
+    const onDeposed = jest.fn();
+    leader.handle('task', task);
+    leader.onDeposed(onDeposed);
+
+    // Another instance holds the lease
+    keys.set('scheduler:leader', { value: 'other', expiresAt: Date.now() + 15_000 });
+    await leader.start(io, onElected);
+    expect(leader.isLeader()).toBe(false);
+
+    // Tasks go to whichever instance leads
+    await leader.run(io, 'task', { roundId: 'r1' });
+    expect(task).not.toHaveBeenCalled();
+    expect(io.serverSideEmit).toHaveBeenCalledWith('leader-task', { name: 'task', payload: { roundId: 'r1' } }, expect.any(Function));
+
+    // The other instance dies and its lease runs out
+    jest.advanceTimersByTime(15_000);
+    await flush();
+    expect(leader.isLeader()).toBe(true);
+    expect(onElected).toHaveBeenCalledTimes(1);
+    expect(keys.get('scheduler:leader')?.value).toBe(leader.instanceId);
+
+    await leader.run(io, 'task', { roundId: 'r1' });
+    expect(task).toHaveBeenCalledWith({ roundId: 'r1' }, io);
+
+    // Renewals keep the lease well past its length
+    jest.advanceTimersByTime(60_000);
+    await flush();
+    expect(leader.isLeader()).toBe(true);
+
+    // Someone else ends up with it (e.g. after a Redis failover)
+    keys.set('scheduler:leader', { value: 'other', expiresAt: Date.now() + 15_000 });
+    jest.advanceTimersByTime(5_000);
+    await flush();
+    expect(leader.isLeader()).toBe(false);
+    expect(onDeposed).toHaveBeenCalledTimes(1);
+
+    await leader.stop();
+    expect(keys.get('scheduler:leader')?.value).toBe('other');
+  });
+
+  it('keeps a task handed over between leaders until one is elected', async () => {
+    const leader = ClusterLeader.getInstance();
+    // The other instances are all followers
+    const io = {
+      on: jest.fn(),
+      serverSideEmit: jest.fn((_event, _task, ack) => ack(null, [false])),
+    } as unknown as Server;
+    const task = jest.fn();
+    leader.handle('task', task);
+
+    // The leader has just died; its lease has yet to run out
+    keys.set('scheduler:leader', { value: 'other', expiresAt: Date.now() + 15_000 });
+    await leader.start(io, jest.fn());
+    await leader.run(io, 'task', { roundId: 'r2' });
+    expect(task).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(task).not.toHaveBeenCalled();
+    expect(io.serverSideEmit).toHaveBeenCalledTimes(3);
+
+    // This instance takes the lease and runs the task itself, once
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(leader.isLeader()).toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(task).toHaveBeenCalledWith({ roundId: 'r2' }, io);
+
+    await leader.stop();
+  });
+
+  it('shares locks within the process when there is no Redis', async () => {
+    const { acquireLock } = jest.requireActual('../../src/config/redis');
+    const release = await acquireLock('round-end:r1', 60_000);
+    expect(release).not.toBeNull();
+    expect(await acquireLock('round-end:r1', 60_000)).toBeNull();
+    expect(await acquireLock('round-end:r2', 60_000)).not.toBeNull();
+
+    await release();
+    expect(await acquireLock('round-end:r1', 60_000)).not.toBeNull();
+  });
+});
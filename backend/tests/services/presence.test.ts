@@ -0,0 +1,142 @@
+import { GameHarness } from '../harness';
+import { PublicGoodsEngine } from '../../src/engines/simultaneous/PublicGoodsEngine';
+import { TrustGameEngine } from '../../src/engines/sequential/TrustGameEngine';
+import { BotService } from '../../src/services/BotService';
+import { PresenceService, validateAbsentPolicy } from '../../src/services/PresenceService';
+import type { Player } from '../../src/types';
+
+describe('presence', () => {
+  const presence = PresenceService.getInstance();
+  let h: GameHarness;
+
+  const connect = (player: Player, socketId = `socket-${player.id}`) =>
+    presence.connect(player.id, h.session.code, socketId, h.io.server);
+  const disconnect = (player: Player, socketId = `socket-${player.id}`) =>
+    presence.disconnect(player.id, h.session.code, socketId, h.io.server);
+
+  // Run out the grace period and let the absent policy finish
+  const graceOver = async () => {
+    jest.advanceTimersByTime(30_000);
+    await h.settle();
+    await h.settle();
+  };
+
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => {
+    h.teardown();
+    jest.useRealTimers();
+  });
+
+  describe('public goods', () => {
+    let players: Player[];
+
+    const setUp = async (absent_policy: 'skip' | 'default_action' | 'bot') => {
+      h = new GameHarness(new PublicGoodsEngine());
+      h.createSession({ endowment: 20, mpcr: 0.5 }, { market_size: 3, absent_policy });
+      players = h.addPlayers(['player', 'player', 'player']);
+      for (const p of players) await connect(p);
+      await h.startRound();
+    };
+
+    it('skips a player who stays away past the grace period', async () => {
+      await setUp('skip');
+      await h.actOk(players[0], { contribution: 10 });
+      await h.actOk(players[1], { contribution: 10 });
+      await disconnect(players[2]);
+
+      expect(h.io.last('presence-changed', `session-${h.session.code}`)).toMatchObject({
+        playerId: players[2].id,
+        connected: false,
+      });
+      jest.advanceTimersByTime(29_000);
+      await h.settle();
+      expect(h.player(players[2]).is_active).toBe(true);
+
+      await graceOver();
+      expect(h.player(players[2]).is_active).toBe(false);
+      expect(h.io.last('presence-changed')).toMatchObject({ playerId: players[2].id, isActive: false });
+
+      // The round stops waiting for them
+      const results = h.io.last('round-results', h.room).results;
+      expect(results.map((r: any) => r.playerId).sort()).toEqual([players[0].id, players[1].id].sort());
+    });
+
+    it('forgets a disconnect the player comes back from in time', async () => {
+      await setUp('skip');
+      await connect(players[0], 'second-tab');
+      await disconnect(players[0]);
+      expect((await presence.forSession(h.session.code)).find((p) => p.playerId === players[0].id)?.connected).toBe(true);
+
+      await disconnect(players[1]);
+      jest.advanceTimersByTime(10_000);
+      await connect(players[1], 'new-socket');
+      await graceOver();
+
+      expect(h.player(players[0]).is_active).toBe(true);
+      expect(h.player(players[1]).is_active).toBe(true);
+      await disconnect(players[0], 'second-tab');
+    });
+
+    it('plays the default move for an absent player', async () => {
+      await setUp('default_action');
+      await h.actOk(players[0], { contribution: 20 });
+      await h.actOk(players[1], { contribution: 20 });
+      await disconnect(players[2]);
+      await graceOver();
+
+      const results = h.io.last('round-results', h.room).results;
+      expect(results.find((r: any) => r.playerId === players[2].id)).toMatchObject({
+        contribution: 0,
+        defaulted: true,
+        // Keeps 20 and gets half the 40 pot
+        profit: 40,
+      });
+
+      // Coming back hands the seat back for the next round
+      await connect(players[2]);
+      expect(h.player(players[2]).is_active).toBe(true);
+    });
+
+    it('lets a bot take over, and hands the seat back on return', async () => {
+      await setUp('bot');
+      const takeOver = jest.spyOn(BotService.getInstance(), 'takeOver').mockResolvedValue();
+      const retire = jest.spyOn(BotService.getInstance(), 'retireBot');
+      await disconnect(players[1]);
+      await graceOver();
+
+      expect(h.player(players[1])).toMatchObject({ is_active: true, is_bot: true });
+      expect(takeOver).toHaveBeenCalledWith(h.round.id, expect.objectContaining({ id: players[1].id }),
+        expect.objectContaining({ id: h.session.id }), h.io.server);
+
+      await connect(players[1]);
+      expect(retire).toHaveBeenCalledWith(players[1].id);
+      expect(h.player(players[1])).toMatchObject({ is_active: true, is_bot: false });
+      expect(h.io.last('presence-changed')).toMatchObject({ playerId: players[1].id, connected: true, isBot: false });
+    });
+  });
+
+  it('replies for an absent second mover with the default move', async () => {
+    h = new GameHarness(new TrustGameEngine());
+    h.createSession({ endowment: 10, multiplier: 3 }, { absent_policy: 'default_action' });
+    const [sender, receiver] = h.addPlayers(['sender', 'receiver']);
+    await connect(sender);
+    await connect(receiver);
+    await h.startRound();
+
+    await h.actOk(sender, { amountSent: 5 });
+    await disconnect(receiver);
+    await graceOver();
+
+    const [pair] = h.io.last('round-results', h.room).pairs;
+    expect(pair).toMatchObject({ secondMoveAction: { amountReturned: 0 }, firstMoverProfit: 5, secondMoverProfit: 15 });
+  });
+
+  it('validates absent player settings', () => {
+    expect(validateAbsentPolicy(undefined, undefined)).toBeNull();
+    expect(validateAbsentPolicy('bot', 60)).toBeNull();
+    expect(validateAbsentPolicy('ignore', 60)).toMatch(/absent_policy/);
+    expect(validateAbsentPolicy('skip', 2)).toMatch(/absent_grace_seconds/);
+    expect(validateAbsentPolicy('skip', 7.5)).toMatch(/absent_grace_seconds/);
+  });
+});
@@ -0,0 +1,111 @@
+import { RoundClock } from '../../src/services/RoundClock';
+
+describe('round clock', () => {
+  const clock = RoundClock.getInstance();
+
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => {
+    clock.clear('r1');
+    clock.clear('r2');
+    jest.useRealTimers();
+  });
+
+  it('holds every timer in a paused round and resumes with the time left', () => {
+    const fired: string[] = [];
+    const end = clock.setTimeout('r1', () => fired.push('end'), 10_000, 'deadline');
+    clock.setTimeout('r1', () => fired.push('bot'), 3_000);
+    clock.setTimeout('r2', () => fired.push('other round'), 5_000);
+
+    jest.advanceTimersByTime(2_000);
+    expect(clock.pause('r1')).toBe(true);
+    expect(clock.pause('r1')).toBe(false);
+    expect(clock.isPaused('r1')).toBe(true);
+
+    jest.advanceTimersByTime(60_000);
+    expect(fired).toEqual(['other round']);
+    expect(end.remainingMs()).toBe(8_000);
+
+    // Timers set during the pause wait for it too
+    clock.setTimeout('r1', () => fired.push('late'), 500);
+    expect(clock.resume('r1')).toBe(true);
+    jest.advanceTimersByTime(1_000);
+    expect(fired).toEqual(['other round', 'late', 'bot']);
+    jest.advanceTimersByTime(7_000);
+    expect(fired).toEqual(['other round', 'late', 'bot', 'end']);
+  });
+
+  it('adds time to deadlines only', () => {
+    const fired: string[] = [];
+    const end = clock.setTimeout('r1', () => fired.push('end'), 10_000, 'deadline');
+    clock.setTimeout('r1', () => fired.push('bot'), 10_000);
+
+    clock.addTime('r1', 30_000);
+    expect(end.remainingMs()).toBe(40_000);
+    jest.advanceTimersByTime(10_000);
+    expect(fired).toEqual(['bot']);
+
+    // Time added while paused is still there on resume
+    clock.pause('r1');
+    clock.addTime('r1', 5_000);
+    clock.resume('r1');
+    jest.advanceTimersByTime(34_999);
+    expect(fired).toEqual(['bot']);
+    jest.advanceTimersByTime(1);
+    expect(fired).toEqual(['bot', 'end']);
+  });
+
+  it('tells listeners when a deadline is set, moved, paused or cancelled', () => {
+    const changes: string[] = [];
+    clock.onDeadlineChange((scope) => changes.push(scope));
+
+    clock.setTimeout('r1', () => {}, 1_000);
+    expect(changes).toEqual([]);
+
+    const end = clock.setTimeout('r1', () => {}, 10_000, 'deadline');
+    clock.addTime('r1', 5_000);
+    clock.pause('r1');
+    clock.resume('r1');
+    clock.clearTimeout(end);
+    clock.clearTimeout(end);
+    expect(changes).toEqual(['r1', 'r1', 'r1', 'r1', 'r1']);
+  });
+
+  it('runs a simulated round in order without waiting for it', async () => {
+    const fired: string[] = [];
+    clock.simulate('r1');
+    const start = clock.now('r1');
+    clock.setTimeout('r1', () => fired.push('end'), 60_000, 'deadline');
+    clock.setTimeout('r1', async () => {
+      fired.push('bid');
+      // Timers set along the way run too if they fall due in time
+      clock.setTimeout('r1', () => fired.push('reply'), 2_000);
+      clock.setTimeout('r1', () => fired.push('too late'), 60_000);
+    }, 5_000);
+
+    // Simulated timers never fire on their own
+    jest.advanceTimersByTime(120_000);
+    expect(fired).toEqual([]);
+
+    await clock.fastForward('r1', 30_000);
+    expect(fired).toEqual(['bid', 'reply']);
+    expect(clock.now('r1')).toBe(start + 30_000);
+
+    await clock.fastForward('r1', 30_000);
+    expect(fired).toEqual(['bid', 'reply', 'end']);
+  });
+
+  it('cancels single timers and whole rounds', () => {
+    const fired: string[] = [];
+    const a = clock.setTimeout('r1', () => fired.push('a'), 1_000);
+    clock.setTimeout('r1', () => fired.push('b'), 1_000);
+    clock.setTimeout('r2', () => fired.push('c'), 1_000);
+    clock.clearTimeout(a);
+    clock.pause('r2');
+    clock.clear('r2');
+
+    jest.advanceTimersByTime(1_000);
+    expect(fired).toEqual(['b']);
+    expect(clock.isPaused('r2')).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { GameHarness, mockReq, mockRes } from '../harness';
+import { ThreeVillageTradeEngine } from '../../src/engines/specialized/ThreeVillageTradeEngine';
+import { SealedBidOfferEngine } from '../../src/engines/simultaneous/SealedBidOfferEngine';
+import { JoinRequestModel } from '../../src/models/JoinRequest';
+import { PlayerController } from '../../src/controllers/playerController';
+import { BotService } from '../../src/services/BotService';
+import { verifyPlayerToken } from '../../src/middleware/playerAuth';
+import { createPlayerForSession, seatLateJoiner } from '../../src/services/seating';
+
+describe('seating', () => {
+  let h: GameHarness<ThreeVillageTradeEngine>;
+
+  beforeEach(async () => {
+    h = new GameHarness(new ThreeVillageTradeEngine());
+    h.createSession({}, { market_size: 6 });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    h.addPlayers(['player', 'player', 'player', 'player']);
+    await h.setup();
+    h.session.status = 'active';
+  });
+
+  afterEach(() => h.teardown());
+
+  it('gives a late joiner a new seat the engine sets up', async () => {
+    // Setup dealt villages 1, 2, 3, 1, so village 2 and 3 are short
+    const request = await JoinRequestModel.create(h.session.id, 'Late', 'secret');
+    const seated = await seatLateJoiner(h.session, request, null);
+
+    if (!seated.ok) throw new Error(seated.error);
+    expect(seated.replaced).toBeNull();
+    expect(seated.player).toMatchObject({ name: 'Late', role: 'villager' });
+    expect(seated.player.game_data).toMatchObject({ village: 2, playerType: 'B' });
+    expect(h.store.joinRequests[0]).toMatchObject({ status: 'approved', player_id: seated.player.id });
+  });
+
+  it('hands a bot over with its role, values and profit', async () => {
+    const bot = h.addPlayer('villager', {
+      is_bot: true,
+      is_active: false,
+      total_profit: 12,
+      game_data: { village: 3, playerType: 'B' },
+    });
+    const request = await JoinRequestModel.create(h.session.id, 'Replacement', 'secret');
+    const seated = await seatLateJoiner(h.session, request, bot.id);
+
+    if (!seated.ok) throw new Error(seated.error);
+    expect(seated.replaced?.id).toBe(bot.id);
+    expect(h.player(bot)).toMatchObject({
+      name: 'Replacement',
+      is_bot: false,
+      is_active: true,
+      total_profit: 12,
+      game_data: { village: 3, playerType: 'B' },
+    });
+    expect(h.player(bot).claimed_at).toBeInstanceOf(Date);
+    expect(h.store.players).toHaveLength(5);
+  });
+
+  it('refuses full sessions, foreign seats and decided requests', async () => {
+    h.addPlayers(['player', 'player']);
+    const request = await JoinRequestModel.create(h.session.id, 'Late', 'secret');
+
+    expect(await seatLateJoiner(h.session, request, null)).toEqual({ ok: false, error: 'Session is full' });
+    expect(h.store.joinRequests[0]).toMatchObject({ status: 'pending', player_id: null });
+    expect(await createPlayerForSession(h.session, 'Late')).toBeNull();
+
+    const other = h.store.insertSession({});
+    const stranger = h.store.insertPlayer({ session_id: other.id, role: 'villager' });
+    expect(await seatLateJoiner(h.session, request, stranger.id)).toEqual({
+      ok: false,
+      error: 'That seat is not in this session',
+    });
+
+    await JoinRequestModel.decide(request.id, 'rejected');
+    expect(await seatLateJoiner(h.session, request, h.store.players[0].id)).toEqual({
+      ok: false,
+      error: 'This request has already been decided',
+    });
+  });
+
+  it('leaves seats alone when another decision on the request wins', async () => {
+    const [botA, botB] = [
+      h.addPlayer('villager', { is_bot: true, name: 'Bot A' }),
+      h.addPlayer('villager', { is_bot: true, name: 'Bot B' }),
+    ];
+    const retire = jest.spyOn(BotService.getInstance(), 'retireBot');
+    const request = await JoinRequestModel.create(h.session.id, 'Late', 'secret');
+
+    // Two instructors approve into different seats at once
+    const results = await Promise.all([
+      seatLateJoiner(h.session, { ...request }, botA.id),
+      seatLateJoiner(h.session, { ...request }, botB.id),
+    ]);
+    expect(results.map((r) => r.ok).sort()).toEqual([false, true]);
+    const taken = h.store.players.filter((p) => p.name === 'Late');
+    expect(taken).toHaveLength(1);
+    expect(retire).toHaveBeenCalledTimes(1);
+    expect(h.store.joinRequests[0].player_id).toBe(taken[0].id);
+
+    // An approval that loses to a rejection changes nothing either
+    const rejected = await JoinRequestModel.create(h.session.id, 'Other', 'secret');
+    await JoinRequestModel.decide(rejected.id, 'rejected');
+    expect((await seatLateJoiner(h.session, rejected, botB.id)).ok).toBe(false);
+    expect(h.player(botB)).toMatchObject({ is_bot: true, name: expect.stringMatching(/^Bot/) });
+  });
+
+  it('hands the seat\'s token only to the late joiner, and only once', async () => {
+    BotService.getInstance().setIO(h.io.server);
+    const joined = mockRes();
+    await PlayerController.joinSession(mockReq({ body: { code: h.session.code, name: 'Late' } }), joined);
+    expect(joined.statusCode).toBe(202);
+    const { request, pollSecret } = joined.body.data;
+
+    // Only the instructor's room hears about the request
+    expect(h.io.last('late-join-requested', `admin-${h.session.code}`).request.id).toBe(request.id);
+    expect(h.io.events('late-join-requested', `session-${h.session.code}`)).toHaveLength(0);
+
+    const poll = async (headers: Record<string, string> = {}) => {
+      const res = mockRes();
+      await PlayerController.getJoinRequest(mockReq({ params: { id: request.id }, headers }), res);
+      return res;
+    };
+    expect((await poll({ 'x-join-secret': pollSecret })).body.data).toEqual({ request: { id: request.id, status: 'pending' } });
+
+    const seated = await seatLateJoiner(h.session, h.store.joinRequests[0], null);
+    if (!seated.ok) throw new Error(seated.error);
+
+    expect((await poll()).statusCode).toBe(401);
+    expect((await poll({ 'x-join-secret': 'guessed' })).statusCode).toBe(404);
+
+    const approved = await poll({ 'x-join-secret': pollSecret });
+    expect(verifyPlayerToken(approved.body.data.token)?.playerId).toBe(seated.player.id);
+    expect((await poll({ 'x-join-secret': pollSecret })).statusCode).toBe(409);
+  });
+});
+
+describe('seating mid-round', () => {
+  let h: GameHarness<SealedBidOfferEngine>;
+
+  beforeEach(() => {
+    h = new GameHarness(new SealedBidOfferEngine());
+    h.createSession({}, { market_size: 4 });
+  });
+
+  afterEach(() => h.teardown());
+
+  it('sits a new seat out of the round under way and deals it in at the next', async () => {
+    const buyer = h.addPlayer('buyer', { valuation: 60 });
+    const seller = h.addPlayer('seller', { production_cost: 20 });
+    await h.startRound();
+
+    const request = await JoinRequestModel.create(h.session.id, 'Late', 'secret');
+    const seated = await seatLateJoiner(h.session, request, null);
+    if (!seated.ok) throw new Error(seated.error);
+    const late = seated.player;
+    expect(late.role).toBe('buyer');
+    expect(late.valuation ?? null).toBeNull();
+
+    expect((await h.act(late, { bid: 90 })).error).toBe('You joined during this round; you will play from the next one');
+    expect((await h.state()).totalPlayers).toBe(2);
+
+    // The two who were there close the round between them
+    await h.actOk(buyer, { bid: 50 });
+    await h.actOk(seller, { ask: 30 });
+    const results = h.io.last('round-results', h.room).results;
+    expect(results.map((r: any) => r.playerId).sort()).toEqual([buyer.id, seller.id].sort());
+
+    await h.endRound();
+    await h.startRound();
+    expect(h.player(late).valuation).not.toBeNull();
+    await h.actOk(late, { bid: 10 });
+  });
+});
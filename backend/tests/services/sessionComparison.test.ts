@@ -0,0 +1,131 @@
+import { compareSessions, ComparisonSessionInput } from '../../src/services/sessionComparison';
+import { normalizeTags } from '../../src/services/sessionTags';
+import { MemoryStore } from '../harness/memoryStore';
+
+/**
+ * A completed prisoner's dilemma session: `choices[r]` are the round r+1
+ * choices of its players, each earning `profit` per round.
+ */
+function pdSession(store: MemoryStore, tags: Record<string, string>, choices: string[][], profit = 3): ComparisonSessionInput {
+  const session = store.insertSession({ game_type: 'prisoner_dilemma', tags });
+  const players = choices[0].map(() => store.insertPlayer({ session_id: session.id, role: 'player' }));
+  const rounds = choices.map((_, i) => ({ id: `${session.id}-r${i + 1}`, session_id: session.id, round_number: i + 1, status: 'completed' as const }));
+  const actions = choices.flatMap((roundChoices, r) =>
+    roundChoices.map((choice, p) => ({
+      id: `${rounds[r].id}-a${p}`,
+      round_id: rounds[r].id,
+      player_id: players[p].id,
+      action_type: 'decision',
+      action_data: { type: 'decision', choice },
+      created_at: new Date(),
+    }))
+  );
+  const results = choices.flatMap((roundChoices, r) =>
+    roundChoices.map((_, p) => ({
+      id: `${rounds[r].id}-g${p}`,
+      round_id: rounds[r].id,
+      player_id: players[p].id,
+      result_data: {},
+      profit,
+      created_at: new Date(),
+    }))
+  );
+  return { session, players, rounds, actions, results, trades: [] };
+}
+
+describe('session comparison', () => {
+  const store = new MemoryStore();
+
+  it('summarizes each session and pools groups by tag value', () => {
+    const fall = pdSession(store, { semester: 'Fall' }, [['cooperate', 'cooperate'], ['cooperate', 'defect']]);
+    const spring = pdSession(store, { semester: 'Spring' }, [['defect', 'defect']], 1);
+    const fall2 = pdSession(store, { semester: 'Fall' }, [['cooperate', 'defect']], 5);
+    const untagged = pdSession(store, {}, [['defect', 'cooperate']]);
+
+    const result = compareSessions([fall, spring, fall2, untagged], 'semester');
+
+    expect(result.gameTypes).toEqual(['prisoner_dilemma']);
+    expect(result.sessions[0]).toMatchObject({
+      players: 2,
+      completedRounds: 2,
+      tags: { semester: 'Fall' },
+      metrics: { 'decision.choice:cooperate': { mean: 0.75, n: 4 }, profit: { mean: 3, n: 4 } },
+    });
+    expect(result.sessions[0].rounds[0].metrics['decision.choice:cooperate']).toEqual({ mean: 1, n: 2 });
+    expect(result.sessions[0].metrics).not.toHaveProperty('decision.type');
+
+    expect(result.groups.map((g) => g.key)).toEqual(['Fall', 'Spring', 'untagged']);
+    const [fallGroup, springGroup] = result.groups;
+    expect(fallGroup.sessionIds).toEqual([fall.session.id, fall2.session.id]);
+    expect(fallGroup.players).toBe(4);
+    // Round 1 pools both Fall sessions; round 2 only the first ran it
+    expect(fallGroup.rounds.map((r) => r.metrics['decision.choice:cooperate'])).toEqual([
+      { mean: 0.75, n: 4 },
+      { mean: 0.5, n: 2 },
+    ]);
+    expect(fallGroup.metrics.profit).toEqual({ mean: 3.6667, n: 6 });
+    // A value never chosen in a group is absent, the other shares still add to one
+    expect(springGroup.metrics).toEqual({
+      'decision.choice:defect': { mean: 1, n: 2 },
+      profit: { mean: 1, n: 2 },
+    });
+  });
+
+  it('pools everything into one group without groupBy', () => {
+    const a = pdSession(store, {}, [['cooperate', 'defect']]);
+    const b = pdSession(store, {}, [['defect', 'defect']]);
+    const { groups } = compareSessions([a, b]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ key: 'all', metrics: { 'decision.choice:cooperate': { mean: 0.25, n: 4 } } });
+  });
+
+  it('averages numeric action fields and DA prices, profits and efficiency', () => {
+    const session = store.insertSession({ game_type: 'double_auction' });
+    const [buyer, seller, idle] = ['buyer', 'seller', 'buyer'].map((role) => store.insertPlayer({ session_id: session.id, role }));
+    const round = {
+      id: 'da-r1',
+      session_id: session.id,
+      round_number: 1,
+      status: 'completed' as const,
+      surplus: { efficiency: 80 } as any,
+    };
+    const trade = (price: number) => ({
+      id: `t${price}`,
+      round_id: round.id,
+      buyer_id: buyer.id,
+      seller_id: seller.id,
+      price,
+      buyer_profit: 100 - price,
+      seller_profit: price - 20,
+      created_at: new Date(),
+    });
+
+    const [result] = compareSessions([
+      { session, players: [buyer, seller, idle], rounds: [round], actions: [], results: [], trades: [trade(50), trade(60)] },
+    ]).sessions;
+
+    expect(result.metrics).toEqual({
+      efficiency: { mean: 80, n: 1 },
+      'trade.price': { mean: 55, n: 2 },
+      // Buyer earned 90, seller 70, the idle buyer nothing
+      profit: { mean: 53.3333, n: 3 },
+    });
+  });
+});
+
+describe('session tags', () => {
+  it('lowercases keys, trims values and drops empty ones', () => {
+    expect(normalizeTags({ Course: ' ECON101 ', section: '', semester: 2026, treatment: null })).toEqual({
+      valid: true,
+      tags: { course: 'ECON101', semester: '2026' },
+    });
+    expect(normalizeTags(undefined)).toEqual({ valid: true, tags: {} });
+  });
+
+  it('rejects malformed tags', () => {
+    expect(normalizeTags(['a']).valid).toBe(false);
+    expect(normalizeTags({ 'bad key': 'x' })).toMatchObject({ valid: false, error: expect.stringContaining('bad key') });
+    expect(normalizeTags({ course: { nested: true } }).valid).toBe(false);
+    expect(normalizeTags({ course: 'x'.repeat(65) }).valid).toBe(false);
+  });
+});
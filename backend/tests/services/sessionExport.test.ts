@@ -0,0 +1,210 @@
+import zlib from 'zlib';
+import {
+  SessionExportInput,
+  archiveFiles,
+  codebook,
+  eventRows,
+  flatten,
+  panelRows,
+  sessionBundle,
+  toCsv,
+  variableName,
+} from '../../src/services/sessionExport';
+import { createZip } from '../../src/services/zip';
+import type { Player, Round, Session } from '../../src/types';
+import { MemoryStore } from '../harness/memoryStore';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, seconds));
+
+function input(gameType: string, overrides: Partial<SessionExportInput> = {}): SessionExportInput {
+  const session: Session = {
+    ...new MemoryStore().insertSession({ code: 'ABC123', game_type: gameType, game_config: { rounds: 2 }, passcode: 'secret' }),
+    admin_password: 'hash',
+  };
+  const player = (id: string, role: string): Player => ({
+    id,
+    session_id: session.id,
+    name: id.toUpperCase(),
+    role,
+    total_profit: 0,
+    is_bot: id === 'p2',
+    is_active: true,
+    created_at: at(0),
+    last_active_at: at(0),
+  });
+  const round = (n: number, status: Round['status'] = 'completed'): Round => ({
+    id: `r${n}`,
+    session_id: session.id,
+    round_number: n,
+    status,
+  });
+  return {
+    session,
+    players: [player('p1', gameType.startsWith('double') ? 'buyer' : 'firm'), player('p2', gameType.startsWith('double') ? 'seller' : 'firm')],
+    rounds: [round(1), round(2), round(3, 'active')],
+    actions: [],
+    results: [],
+    trades: [],
+    bids: [],
+    asks: [],
+    values: [],
+    pairings: [],
+    ...overrides,
+  };
+}
+
+describe('column naming and flattening', () => {
+  it('produces Stata-safe snake_case names', () => {
+    expect(variableName('act', 'setPrice', 'unitCost')).toBe('act_set_price_unit_cost');
+    expect(variableName('2nd place')).toBe('v_2nd_place');
+    expect(variableName('x'.repeat(40))).toHaveLength(32);
+  });
+
+  it('flattens nested objects, short arrays and booleans', () => {
+    expect(flatten({ price: 10, accepted: true, split: [3, 7], meta: { noteText: 'hi' } }, 'act_offer')).toEqual({
+      act_offer_price: 10,
+      act_offer_accepted: 1,
+      act_offer_split_1: 3,
+      act_offer_split_2: 7,
+      act_offer_meta_note_text: 'hi',
+    });
+    expect(flatten({ history: [{ a: 1 }] }, 'res')).toEqual({ res_history: '[{"a":1}]' });
+  });
+});
+
+describe('tidy panel', () => {
+  it('has one row per player-round with action and result fields in columns', () => {
+    const rows = panelRows(
+      input('cournot', {
+        actions: [
+          { id: 'a1', round_id: 'r1', player_id: 'p1', action_type: 'quantity', action_data: { quantity: 20 }, created_at: at(1) },
+          { id: 'a2', round_id: 'r1', player_id: 'p2', action_type: 'quantity', action_data: { quantity: 30 }, created_at: at(2) },
+          { id: 'a3', round_id: 'r2', player_id: 'p1', action_type: 'quantity', action_data: { quantity: 25 }, created_at: at(3) },
+          { id: 'a4', round_id: 'r3', player_id: 'p1', action_type: 'quantity', action_data: { quantity: 5 }, created_at: at(4) },
+        ],
+        results: [
+          { id: 'g1', round_id: 'r1', player_id: 'p1', profit: '100.5' as any, result_data: { playerId: 'p1', marketPrice: 50 }, created_at: at(5) },
+          { id: 'g2', round_id: 'r2', player_id: 'p1', profit: 50, result_data: { marketPrice: 45 }, created_at: at(6) },
+        ],
+      })
+    );
+
+    // Round 3 is still active and left out; p2 sat out round 2
+    expect(rows.map((r) => [r.round, r.player_id])).toEqual([[1, 'p1'], [1, 'p2'], [2, 'p1']]);
+    expect(rows[0]).toMatchObject({
+      session_code: 'ABC123',
+      treatment: 'Baseline',
+      role: 'firm',
+      is_bot: 0,
+      profit: 100.5,
+      n_actions: 1,
+      act_quantity_quantity: 20,
+      res_market_price: 50,
+    });
+    expect(rows[0]).not.toHaveProperty('res_player_id');
+    expect(rows[1]).toMatchObject({ is_bot: 1, profit: 0, act_quantity_quantity: 30 });
+    expect(rows[2].cumulative_profit).toBe(150.5);
+  });
+
+  it('summarizes each DA trader\'s orders, trades and unit values', () => {
+    const rows = panelRows(
+      input('double_auction', {
+        values: [
+          { id: 'v1', round_id: 'r1', round_number: 1, player_id: 'p1', role: 'buyer', unit_values: [100, 80], created_at: at(0) },
+          { id: 'v2', round_id: 'r1', round_number: 1, player_id: 'p2', role: 'seller', unit_values: [20, 40], created_at: at(0) },
+        ],
+        bids: [
+          { id: 'b1', round_id: 'r1', round_number: 1, player_id: 'p1', price: 60, is_active: false, status: 'filled', created_at: at(1) },
+          { id: 'b2', round_id: 'r1', round_number: 1, player_id: 'p1', price: 50, is_active: false, status: 'cancelled', created_at: at(3), closed_at: at(4) },
+        ],
+        asks: [{ id: 'k1', round_id: 'r1', round_number: 1, player_id: 'p2', price: 60, is_active: false, status: 'filled', created_at: at(2) }],
+        trades: [
+          { id: 't1', round_id: 'r1', buyer_id: 'p1', seller_id: 'p2', price: 60, buyer_profit: 40, seller_profit: 40, created_at: at(2) },
+        ],
+      })
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ profit: 40, trades: 1, avg_trade_price: 60, bids_posted: 2, asks_posted: 0, orders_cancelled: 1, unit_value_1: 100, unit_value_2: 80 });
+    expect(rows[1]).toMatchObject({ profit: 40, trades: 1, bids_posted: 0, asks_posted: 1, unit_value_1: 20 });
+  });
+});
+
+describe('event log', () => {
+  it('replays the DA order book in time order', () => {
+    const events = eventRows(
+      input('double_auction', {
+        bids: [{ id: 'b1', round_id: 'r1', round_number: 1, player_id: 'p1', price: 50, unit_number: 1, is_active: false, status: 'replaced', created_at: at(1), closed_at: at(3) }],
+        asks: [{ id: 'k1', round_id: 'r1', round_number: 1, player_id: 'p2', price: 55, is_active: false, status: 'filled', created_at: at(2) }],
+        trades: [{ id: 't1', round_id: 'r1', buyer_id: 'p1', seller_id: 'p2', price: 55, buyer_profit: 45, seller_profit: 35, buyer_unit: 1, seller_unit: 1, created_at: at(4) }],
+      })
+    );
+    expect(events.map((e) => [e.event, e.player_id, e.price])).toEqual([
+      ['bid_posted', 'p1', 50],
+      ['ask_posted', 'p2', 55],
+      ['bid_replaced', 'p1', 50],
+      ['trade', 'p1', 55],
+    ]);
+    expect(events[3]).toMatchObject({ round: 1, counterparty_id: 'p2', time: at(4).toISOString() });
+  });
+
+  it('lists actions for other games', () => {
+    const events = eventRows(
+      input('bertrand', {
+        actions: [{ id: 'a1', round_id: 'r2', player_id: 'p1', action_type: 'price', action_data: { price: 12 }, created_at: at(1) }],
+      })
+    );
+    expect(events).toEqual([
+      expect.objectContaining({ round: 2, event: 'price', player_id: 'p1', price: 12, details: '{"price":12}' }),
+    ]);
+  });
+});
+
+describe('files', () => {
+  it('writes the union of columns with missing cells left empty', () => {
+    expect(toCsv([{ a: 1, b: 'x' }, { a: 2, c: '=cmd' }])).toBe('a,b,c\n1,"x",\n2,,"\'=cmd"\n');
+  });
+
+  it('describes every column in the codebook', () => {
+    const entries = codebook([
+      { file: 'panel.csv', rows: [{ round: 1, act_bid_price: 5, res_won: 'yes' }], known: { round: 'Round number' } },
+    ]);
+    expect(entries).toEqual([
+      { file: 'panel.csv', variable: 'round', type: 'numeric', description: 'Round number' },
+      { file: 'panel.csv', variable: 'act_bid_price', type: 'numeric', description: expect.stringContaining('bid_price') },
+      { file: 'panel.csv', variable: 'res_won', type: 'string', description: expect.stringContaining('won') },
+    ]);
+  });
+
+  it('leaves secrets out of the JSON bundle', () => {
+    const bundle = sessionBundle(input('cournot'));
+    expect(bundle.session).toMatchObject({ code: 'ABC123', game_config: { rounds: 2 } });
+    expect(bundle.session).not.toHaveProperty('passcode');
+    expect(bundle.session).not.toHaveProperty('admin_password');
+  });
+
+  it('packs the archive into a readable zip', () => {
+    const files = archiveFiles(input('cournot'));
+    expect(files.map((f) => f.name)).toEqual([
+      'panel.csv',
+      'events.csv',
+      'players.csv',
+      'codebook.csv',
+      'session.json',
+      'load_panel.do',
+      'load_panel.R',
+    ]);
+
+    const zip = createZip(files);
+    expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(zip.length - 12)).toBe(files.length);
+
+    // First local entry decompresses back to panel.csv
+    const nameLength = zip.readUInt16LE(26);
+    const compressedSize = zip.readUInt32LE(18);
+    expect(zip.subarray(30, 30 + nameLength).toString()).toBe('panel.csv');
+    const data = zlib.inflateRawSync(zip.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(data.toString()).toBe(files[0].data);
+    expect(zip.readUInt32LE(14)).toBe(zlib.crc32(data));
+  });
+});
@@ -0,0 +1,110 @@
+import { MemoryStore } from '../harness';
+import { cannotSimulate, exceedsPreviewLimits, simulateSession } from '../../src/services/simulation';
+import { RoundModel } from '../../src/models/Round';
+import { SessionModel } from '../../src/models/Session';
+import type { CreateSessionRequest } from '../../src/types';
+
+describe('simulation', () => {
+  let store: MemoryStore;
+
+  const request = (overrides: Partial<CreateSessionRequest>): CreateSessionRequest => ({
+    market_size: 4,
+    num_rounds: 2,
+    time_per_round: 60,
+    valuation_min: 20,
+    valuation_max: 60,
+    valuation_increments: 10,
+    cost_min: 15,
+    cost_max: 55,
+    cost_increments: 10,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    store.install();
+    // Bots log every move; keep test output readable
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('plays every round with bots and cleans up after itself', async () => {
+    const results = await simulateSession(request({
+      game_type: 'public_goods',
+      game_config: { endowment: 20, mpcr: 0.5 },
+    }), 'instructor-1');
+
+    expect(results.session).toMatchObject({ gameType: 'public_goods', numRounds: 2, status: 'completed' });
+    expect(results.players).toHaveLength(4);
+    expect(results.players.every((p) => p.isBot)).toBe(true);
+    expect(results.stats.completedRounds).toBe(2);
+    for (const round of results.rounds) {
+      expect(round).toMatchObject({ status: 'completed' });
+      expect(round.results).toHaveLength(4);
+    }
+    expect(store.sessions).toEqual([]);
+  });
+
+  it('runs as a preview owned by the instructor, out of their list and out of restart recovery', async () => {
+    // Look at the stored rows mid-run, once the first round is under way
+    const spy = jest.mocked(RoundModel.start);
+    const start = spy.getMockImplementation()!;
+    let seen: object = {};
+    spy.mockImplementationOnce(async (id) => {
+      const round = await start(id);
+      const [session] = store.sessions;
+      seen = {
+        ownerId: session.owner_id,
+        isSimulation: session.is_simulation,
+        listed: (await SessionModel.findByOwner('instructor-1')).length,
+        active: (await RoundModel.findAllActive()).length,
+      };
+      return round;
+    });
+
+    await simulateSession(request({ game_type: 'public_goods', num_rounds: 1 }), 'instructor-1');
+
+    expect(seen).toEqual({ ownerId: 'instructor-1', isSimulation: true, listed: 0, active: 0 });
+  });
+
+  it('plays the second moves of a sequential game', async () => {
+    const results = await simulateSession(request({
+      game_type: 'trust_game',
+      game_config: { endowment: 10, multiplier: 3 },
+      num_rounds: 1,
+    }), 'instructor-1');
+
+    const [round] = results.rounds;
+    expect(round.actions?.map((a) => a.actionType).sort()).toEqual(['first_move', 'first_move', 'second_move', 'second_move']);
+    expect(round.results).toHaveLength(4);
+  });
+
+  it('keeps a double auction trading for the whole round', async () => {
+    // Every value clears every cost, so the bots always find a trade
+    const results = await simulateSession(request({
+      game_type: 'double_auction',
+      num_rounds: 1,
+      time_per_round: 120,
+      valuation_min: 70,
+      valuation_max: 90,
+      cost_min: 10,
+      cost_max: 30,
+    }), 'instructor-1');
+
+    const [round] = results.rounds;
+    expect(round.trades?.length).toBeGreaterThan(0);
+    expect(results.benchmarks).toBeTruthy();
+  });
+
+  it('turns down games it cannot speed up', () => {
+    expect(cannotSimulate('discovery_process')).toMatch(/real time/);
+    expect(cannotSimulate('double_auction')).toBeNull();
+  });
+
+  it('turns down previews bigger than a class', () => {
+    expect(exceedsPreviewLimits(request({ num_rounds: 20, market_size: 40 }))).toBeNull();
+    expect(exceedsPreviewLimits(request({ num_rounds: 21 }))).toBe('Previews run at most 20 rounds');
+    expect(exceedsPreviewLimits(request({ market_size: 41 }))).toBe('Previews seat at most 40 players');
+  });
+});
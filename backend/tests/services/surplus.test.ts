@@ -0,0 +1,64 @@
+import { procurementAccounting, surplusAccounting } from '../../src/services/surplus';
+
+const units = (values: number[], traded: number[]) => values.map((value, i) => ({ value, traded: traded[i] ?? 0 }));
+
+describe('surplus accounting', () => {
+  it('scores the efficient allocation at 100%', () => {
+    const result = surplusAccounting(units([100, 80, 60, 40], [1, 1]), units([20, 50, 70, 90], [1, 1]));
+    expect(result).toEqual({
+      realizedSurplus: 110,
+      maxSurplus: 110,
+      efficiency: 100,
+      lostSurplus: 0,
+      missedTradeLoss: 0,
+      extraMarginalLoss: 0,
+      tradedQuantity: 2,
+      efficientQuantity: 2,
+      competitivePrice: 65,
+    });
+  });
+
+  it('charges untraded intra-marginal units to missed trades', () => {
+    // The 80 buyer and 50 seller never trade
+    const result = surplusAccounting(units([100, 80, 60, 40], [1]), units([20, 50, 70, 90], [1]));
+    expect(result.realizedSurplus).toBe(80);
+    expect(result.lostSurplus).toBe(30);
+    expect(result.missedTradeLoss).toBe(30);
+    expect(result.extraMarginalLoss).toBe(0);
+  });
+
+  it('charges trades outside the efficient set to extra-marginal losses', () => {
+    // The 60 buyer displaces the 80 buyer, and the 70 seller the 50 seller
+    const result = surplusAccounting(units([100, 80, 60, 40], [1, 0, 1]), units([20, 50, 70, 90], [1, 0, 1]));
+    expect(result.realizedSurplus).toBe(70);
+    expect(result.lostSurplus).toBe(40);
+    expect(result.missedTradeLoss).toBe(30);
+    expect(result.extraMarginalLoss).toBe(10);
+    expect(result.missedTradeLoss + result.extraMarginalLoss).toBe(result.lostSurplus);
+  });
+
+  it('does not count a tie at the margin as a loss', () => {
+    const result = surplusAccounting(units([100, 60, 60], [1, 0, 1]), units([20, 50], [1, 1]));
+    expect(result.lostSurplus).toBe(0);
+    expect(result.missedTradeLoss).toBe(0);
+    expect(result.extraMarginalLoss).toBe(0);
+  });
+
+  it('reports full efficiency with no competitive price when nothing can trade', () => {
+    const result = surplusAccounting(units([10], []), units([20], []));
+    expect(result).toMatchObject({ maxSurplus: 0, efficiency: 100, competitivePrice: null });
+  });
+
+  it('values procurement demand at the dearest offer', () => {
+    const sellers = [
+      { value: 10, quantity: 50, traded: 50 },
+      { value: 20, quantity: 50, traded: 0 },
+      { value: 40, quantity: 50, traded: 50 },
+    ];
+    const result = procurementAccounting(100, sellers);
+    expect(result.maxSurplus).toBe(2500);
+    expect(result.realizedSurplus).toBe(1500);
+    expect(result).toMatchObject({ lostSurplus: 1000, missedTradeLoss: 500, extraMarginalLoss: 500 });
+    expect(procurementAccounting(100, [sellers[0], { ...sellers[1], traded: 50 }, { ...sellers[2], traded: 0 }]).efficiency).toBe(100);
+  });
+});
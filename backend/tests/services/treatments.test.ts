@@ -0,0 +1,103 @@
+import {
+  applyLiveChange,
+  configForRound,
+  normalizeTreatments,
+  treatmentForRound,
+  treatmentLabel,
+} from '../../src/services/treatments';
+
+describe('treatment blocks', () => {
+  const treatments = [
+    { label: 'Tax', startRound: 6, overrides: { taxAmount: 5 } },
+    { label: 'Subsidy', startRound: 9, overrides: { taxAmount: -5, taxType: 'seller' } },
+  ];
+  const session = { game_config: { taxType: 'buyer', taxAmount: 0, units_per_trader: 2 }, treatments };
+
+  it('applies the latest block that has started on top of the base config', () => {
+    expect(configForRound(session, 5)).toBe(session.game_config);
+    expect(configForRound(session, 6)).toEqual({ taxType: 'buyer', taxAmount: 5, units_per_trader: 2 });
+    // Blocks replace each other rather than stacking
+    expect(configForRound(session, 10)).toEqual({ taxType: 'seller', taxAmount: -5, units_per_trader: 2 });
+    expect(configForRound({ game_config: { x: 1 } }, 3)).toEqual({ x: 1 });
+  });
+
+  it('labels rounds before the first block as the baseline', () => {
+    expect([1, 6, 8, 9].map((r) => treatmentLabel(treatments, r))).toEqual(['Baseline', 'Tax', 'Tax', 'Subsidy']);
+    expect(treatmentForRound(undefined, 1)).toBeNull();
+  });
+
+  it('sorts blocks and trims labels', () => {
+    expect(normalizeTreatments([
+      { label: ' Late ', startRound: '8', overrides: {} },
+      { label: 'Early', startRound: 3, overrides: { mpcr: 0.8 } },
+    ], 10)).toEqual({
+      valid: true,
+      treatments: [
+        { label: 'Early', startRound: 3, overrides: { mpcr: 0.8 } },
+        { label: 'Late', startRound: 8, overrides: {} },
+      ],
+    });
+    expect(normalizeTreatments(undefined, 10)).toEqual({ valid: true, treatments: [] });
+  });
+
+  it('rejects blocks outside the session or that change its shape', () => {
+    const block = (fields: Record<string, unknown>) => [{ label: 'T', startRound: 2, overrides: {}, ...fields }];
+    expect(normalizeTreatments({}, 10).valid).toBe(false);
+    expect(normalizeTreatments(block({ label: '  ' }), 10).valid).toBe(false);
+    expect(normalizeTreatments(block({ startRound: 11 }), 10)).toMatchObject({ error: expect.stringContaining('round 1 and 10') });
+    expect(normalizeTreatments(block({ startRound: 2.5 }), 10).valid).toBe(false);
+    expect(normalizeTreatments(block({ overrides: [1] }), 10).valid).toBe(false);
+    expect(normalizeTreatments(block({ overrides: { num_rounds: 20 } }), 10)).toMatchObject({ error: expect.stringContaining('num_rounds') });
+    expect(normalizeTreatments([...block({}), ...block({ label: 'U' })], 10)).toMatchObject({ error: 'Two treatments start in round 2' });
+  });
+});
+
+describe('live changes', () => {
+  const session = {
+    game_config: { taxType: 'buyer', taxAmount: 0 },
+    treatments: [
+      { label: 'Tax', startRound: 3, overrides: { taxType: 'seller', taxAmount: 5 } },
+      { label: 'Repeal', startRound: 8, overrides: {} },
+    ],
+    num_rounds: 10,
+  };
+  const accept = () => ({ valid: true });
+
+  it('starts a block at the next round that keeps the current overrides', () => {
+    const result = applyLiveChange(session, { config: { taxAmount: 10 }, label: 'Higher tax' }, 5, accept);
+    expect(result).toMatchObject({ valid: true, numRounds: 10 });
+    if (!result.valid) return;
+    expect(result.treatments.map((t) => [t.label, t.startRound])).toEqual([['Tax', 3], ['Higher tax', 5], ['Repeal', 8]]);
+    expect(configForRound({ ...session, treatments: result.treatments }, 6)).toEqual({ taxType: 'seller', taxAmount: 10 });
+  });
+
+  it('replaces a block starting in the same round and defaults its label', () => {
+    const result = applyLiveChange(session, { config: { taxAmount: 2 } }, 3, accept);
+    expect(result.valid && result.treatments[0]).toEqual({
+      label: 'Change from round 3',
+      startRound: 3,
+      overrides: { taxType: 'seller', taxAmount: 2 },
+    });
+  });
+
+  it('adds and removes rounds, dropping blocks past the new end', () => {
+    expect(applyLiveChange(session, { roundDelta: 2 }, 5, accept)).toMatchObject({ valid: true, numRounds: 12, block: null });
+    const shorter = applyLiveChange(session, { roundDelta: -4 }, 5, accept);
+    expect(shorter).toMatchObject({ valid: true, numRounds: 6 });
+    expect(shorter.valid && shorter.treatments.map((t) => t.label)).toEqual(['Tax']);
+    // Rounds 1–4 have started; 4 is the shortest the session can get
+    expect(applyLiveChange(session, { roundDelta: -7 }, 5, accept)).toMatchObject({ valid: false, error: expect.stringContaining('1–4') });
+  });
+
+  it('runs the engine check on every upcoming block', () => {
+    const validate = jest.fn((config: Record<string, any>) =>
+      config.taxAmount > 8 ? { valid: false, error: 'taxAmount is too high' } : { valid: true });
+    expect(applyLiveChange(session, { config: { taxAmount: 9 } }, 5, validate)).toEqual({
+      valid: false,
+      error: 'Change from round 5: taxAmount is too high',
+    });
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(applyLiveChange(session, { config: { num_rounds: 3 } }, 5, accept).valid).toBe(false);
+    expect(applyLiveChange(session, { config: { taxAmount: 1 } }, 11, accept)).toMatchObject({ error: 'There are no upcoming rounds to change' });
+  });
+});
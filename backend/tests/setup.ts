@@ -0,0 +1,5 @@
+// Keep tests hermetic: never pick up a developer's .env Redis or Postgres
+process.env.REDIS_URL = '';
+process.env.DATABASE_URL = '';
+process.env.DOTENV_CONFIG_QUIET = 'true';
+process.env.JWT_SECRET = 'test-secret';
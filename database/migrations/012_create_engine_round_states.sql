@@ -0,0 +1,10 @@
+-- Migration 012: Create engine_round_states table
+-- Durable snapshots of in-memory engine round state so a backend restart
+-- can resume live rounds (posted offer, asset bubble, contestable market, ...)
+
+CREATE TABLE IF NOT EXISTS engine_round_states (
+  round_id UUID PRIMARY KEY REFERENCES rounds(id) ON DELETE CASCADE,
+  game_type VARCHAR(50) NOT NULL,
+  state JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,16 @@
+-- Migration 013: Create round_pairings table
+-- Records who played whom each round in sequential games, so exports
+-- reflect stranger / perfect-stranger / role-switching matching
+
+CREATE TABLE IF NOT EXISTS round_pairings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  round_id UUID NOT NULL REFERENCES rounds(id) ON DELETE CASCADE,
+  first_mover_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  second_mover_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  matching VARCHAR(30) NOT NULL DEFAULT 'partners',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (round_id, first_mover_id),
+  UNIQUE (round_id, second_mover_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_pairings_round ON round_pairings(round_id);
@@ -0,0 +1,15 @@
+-- Migration 014: Instructor accounts and session ownership
+-- Sessions created by a signed-in instructor are owned by them; owner login
+-- replaces the per-session admin password for those sessions
+
+CREATE TABLE IF NOT EXISTS instructors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email VARCHAR(255) UNIQUE NOT NULL,
+  name VARCHAR(100),
+  password_hash VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES instructors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_owner ON sessions(owner_id);
@@ -0,0 +1,9 @@
+-- Migration 015: Multi-unit trading in the double auction family
+-- Each bid/ask is for one unit of the trader's schedule (stored in
+-- players.game_data.unitValues); trades record which unit each side traded
+
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS unit_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE asks ADD COLUMN IF NOT EXISTS unit_number INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS buyer_unit INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS seller_unit INTEGER NOT NULL DEFAULT 1;
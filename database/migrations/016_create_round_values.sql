@@ -0,0 +1,15 @@
+-- Migration 016: Create round_values table
+-- Records each DA trader's valuations/costs in force for every round, since
+-- redraws, demand/supply shocks and induced-value tables can change them
+
+CREATE TABLE IF NOT EXISTS round_values (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  round_id UUID NOT NULL REFERENCES rounds(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  role VARCHAR(50) NOT NULL,
+  unit_values JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (round_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_values_round ON round_values(round_id);
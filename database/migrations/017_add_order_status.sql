@@ -0,0 +1,15 @@
+-- Migration 017: Order history for the double auction order book
+-- Bids/asks keep their row after they leave the book; status records why
+-- (filled by a trade, cancelled by the trader, replaced by a newer order,
+-- or expired at round end) so the order flow can be replayed
+
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'open';
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP;
+ALTER TABLE asks ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'open';
+ALTER TABLE asks ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP;
+
+-- Orders closed before this migration: traded ones are 'filled', the rest 'expired'
+UPDATE bids SET status = CASE WHEN EXISTS (SELECT 1 FROM trades t WHERE t.bid_id = bids.id) THEN 'filled' ELSE 'expired' END
+WHERE is_active = false AND status = 'open';
+UPDATE asks SET status = CASE WHEN EXISTS (SELECT 1 FROM trades t WHERE t.ask_id = asks.id) THEN 'filled' ELSE 'expired' END
+WHERE is_active = false AND status = 'open';
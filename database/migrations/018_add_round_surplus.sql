@@ -0,0 +1,5 @@
+-- Migration 018: Surplus accounting for market rounds
+-- Realized vs maximum surplus, efficiency and the missed/extra-marginal
+-- breakdown of lost surplus, written when a market round ends
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS surplus JSONB;
@@ -0,0 +1,6 @@
+-- Migration 019: Session tags
+-- Free-form labels (course, section, semester, treatment) used to find
+-- sessions and pool them in cross-session comparisons
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '{}';
+CREATE INDEX IF NOT EXISTS idx_sessions_tags ON sessions USING GIN (tags);
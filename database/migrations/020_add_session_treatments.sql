@@ -0,0 +1,5 @@
+-- Migration 020: Treatment blocks
+-- Scheduled game_config overrides: [{ label, startRound, overrides }], each
+-- in effect from startRound until the next block begins
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS treatments JSONB NOT NULL DEFAULT '[]';
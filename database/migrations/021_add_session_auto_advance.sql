@@ -0,0 +1,5 @@
+-- Migration 021: Manual round advance
+-- When false the next round waits for the instructor instead of starting
+-- automatically after the previous one ends
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS auto_advance BOOLEAN NOT NULL DEFAULT TRUE;
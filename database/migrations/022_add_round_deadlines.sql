@@ -0,0 +1,7 @@
+-- Migration 022: Server-side round deadlines
+-- ends_at is when the running round is due to end; paused_at is set while the
+-- instructor has it paused (time left = ends_at - paused_at). Both let a
+-- restarted server resume the round with the right amount of time.
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
@@ -0,0 +1,20 @@
+-- Migration 023: Late-join requests
+-- Students who arrive after a session has started ask to join; the instructor
+-- approves each one into an empty seat, a disconnected player's seat or a
+-- bot's seat. players.claimed_at records when a seat last changed hands so
+-- the previous occupant's token stops working.
+
+CREATE TABLE IF NOT EXISTS join_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  name VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  player_id UUID REFERENCES players(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  decided_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_join_requests_session ON join_requests(session_id);
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
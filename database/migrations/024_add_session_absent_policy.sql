@@ -0,0 +1,9 @@
+-- Migration 024: Handling of disconnected players
+-- After absent_grace_seconds without a connection, a player in a running
+-- session is skipped, given the game's default move, or played by a bot
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS absent_policy VARCHAR(20) NOT NULL DEFAULT 'skip';
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS absent_policy_check;
+ALTER TABLE sessions ADD CONSTRAINT absent_policy_check
+  CHECK (absent_policy IN ('skip', 'default_action', 'bot'));
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS absent_grace_seconds INTEGER NOT NULL DEFAULT 30;
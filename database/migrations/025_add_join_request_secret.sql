@@ -0,0 +1,7 @@
+-- Migration 025: Late-join poll secrets
+-- The student who asked to join gets a random secret with their request and
+-- must present it to collect the seat's token. Only its hash is stored, and
+-- token_issued_at makes the token a one-time handoff.
+
+ALTER TABLE join_requests ADD COLUMN IF NOT EXISTS poll_secret_hash VARCHAR(64);
+ALTER TABLE join_requests ADD COLUMN IF NOT EXISTS token_issued_at TIMESTAMPTZ;
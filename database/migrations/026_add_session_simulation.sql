@@ -0,0 +1,6 @@
+-- Migration 026: Bot-only preview sessions
+-- A preview is played through as a real session and deleted once its results
+-- are read. is_simulation keeps one cut short by a crash out of instructors'
+-- session lists and away from the restart recovery of live rounds.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS is_simulation BOOLEAN NOT NULL DEFAULT FALSE;
@@ -2,6 +2,7 @@ import { createBrowserRouter, RouterProvider } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { Home } from './pages/Home';
 import { AdminDashboard } from './pages/AdminDashboard';
+import { InstructorLogin } from './pages/InstructorLogin';
 import { CreateSession } from './pages/CreateSession';
 import { JoinSession } from './pages/JoinSession';
 import { Lobby } from './pages/Lobby';
@@ -9,6 +10,7 @@ import { Market } from './pages/Market';
 import { SessionMonitor } from './pages/SessionMonitor';
 import { Results } from './pages/Results';
 import { Analytics } from './pages/Analytics';
+import { Compare } from './pages/Compare';
 
 const router = createBrowserRouter([
   {
@@ -19,10 +21,18 @@ const router = createBrowserRouter([
     path: '/admin',
     element: <AdminDashboard />,
   },
+  {
+    path: '/admin/login',
+    element: <InstructorLogin />,
+  },
   {
     path: '/admin/create',
     element: <CreateSession />,
   },
+  {
+    path: '/admin/compare',
+    element: <Compare />,
+  },
   {
     path: '/join',
     element: <JoinSession />,
@@ -37,6 +37,24 @@ const analyticsRegistry: Record<string, React.LazyExoticComponent<React.Componen
   bargaining: React.lazy(() => import('./sequential/BargainingAnalytics')),
   auction: React.lazy(() => import('./simultaneous/AuctionAnalytics')),
   matching_pennies: React.lazy(() => import('./simultaneous/MatchingPenniesAnalytics')),
+  ellsberg: React.lazy(() => import('./simultaneous/EllsbergAnalytics')),
+  newsvendor: React.lazy(() => import('./simultaneous/NewsvendorAnalytics')),
+  dutch_auction: React.lazy(() => import('./specialized/DutchAuctionAnalytics')),
+  english_auction: React.lazy(() => import('./specialized/EnglishAuctionAnalytics')),
+  discriminative_auction: React.lazy(() => import('./specialized/DiscriminativeAuctionAnalytics')),
+  posted_offer: React.lazy(() => import('./specialized/PostedOfferAnalytics')),
+  lindahl: React.lazy(() => import('./simultaneous/LindahlAnalytics')),
+  pg_auction: React.lazy(() => import('./simultaneous/PGAuctionAnalytics')),
+  sealed_bid_offer: React.lazy(() => import('./simultaneous/SealedBidOfferAnalytics')),
+  sponsored_search: React.lazy(() => import('./simultaneous/SponsoredSearchAnalytics')),
+  double_dutch_auction: React.lazy(() => import('./simultaneous/DoubleDutchAuctionAnalytics')),
+  asset_bubble: React.lazy(() => import('./specialized/AssetBubbleAnalytics')),
+  contestable_market: React.lazy(() => import('./specialized/ContestableMarketAnalytics')),
+  wool_export_punishment: React.lazy(() => import('./specialized/WoolExportPunishmentAnalytics')),
+  three_village_trade: React.lazy(() => import('./specialized/ThreeVillageTradeAnalytics')),
+  offer_auction: React.lazy(() => import('./simultaneous/OfferAuctionAnalytics')),
+  bid_auction: React.lazy(() => import('./simultaneous/BidAuctionAnalytics')),
+  electricity_market: React.lazy(() => import('./simultaneous/ElectricityMarketAnalytics')),
 };
 
 export function getAnalyticsComponent(gameType: string): React.LazyExoticComponent<React.ComponentType<AnalyticsProps>> | null {
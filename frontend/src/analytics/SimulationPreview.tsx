@@ -0,0 +1,45 @@
+import React from 'react';
+import { CumulativeProfitChart, RoundSummaryChart } from './UniversalCharts';
+import { formatDollar } from '../components/charts/chartUtils';
+import type { AnalyticsData } from '../hooks/useAnalyticsData';
+
+interface SimulationPreviewProps {
+  data: AnalyticsData;
+}
+
+/**
+ * Outcomes of a bot-only run of a configuration, shown on the create page
+ * before the session exists. Bots are a rough guide to what students will
+ * do, so this is a preview of the scale of profits and trades, not a forecast.
+ */
+export const SimulationPreview: React.FC<SimulationPreviewProps> = ({ data }) => {
+  const completedRounds = data.rounds.filter(r => r.status === 'completed');
+  const efficiencies = completedRounds.flatMap(r => (r.surplus ? [r.surplus.efficiency] : []));
+  const trades = completedRounds.reduce((n, r) => n + (r.trades?.length ?? 0), 0);
+
+  const stats: Array<{ label: string; value: string }> = [
+    { label: 'Avg Profit', value: formatDollar(data.stats.avgProfit) },
+    { label: 'Lowest Profit', value: formatDollar(data.stats.minProfit) },
+    { label: 'Highest Profit', value: formatDollar(data.stats.maxProfit) },
+  ];
+  if (efficiencies.length > 0) {
+    const mean = efficiencies.reduce((s, e) => s + e, 0) / efficiencies.length;
+    stats.push({ label: 'Trades', value: String(trades) });
+    stats.push({ label: 'Avg Efficiency', value: `${mean.toFixed(1)}%` });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {stats.map(({ label, value }) => (
+          <div key={label} className="bg-white rounded-lg shadow-md px-4 py-3">
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="text-lg font-semibold text-gray-800">{value}</div>
+          </div>
+        ))}
+      </div>
+      <RoundSummaryChart data={data} completedRounds={completedRounds} />
+      <CumulativeProfitChart data={data} completedRounds={completedRounds} />
+    </div>
+  );
+};
@@ -222,3 +222,60 @@ export const RoundSummaryChart: React.FC<Props> = ({ data, completedRounds }) =>
     </ChartCard>
   );
 };
+
+/**
+ * Group Outcomes — average profit per player in each group, one line per
+ * group. Only shown for sessions split into groups (results carry a groupId).
+ */
+export const GroupOutcomesChart: React.FC<Props> = ({ completedRounds }) => {
+  const { chartData, groupIds } = useMemo(() => {
+    const ids = new Set<number>();
+    const rows = completedRounds.map(round => {
+      const totals = new Map<number, { sum: number; count: number }>();
+      for (const r of round.results ?? []) {
+        const groupId = r.resultData?.groupId;
+        if (groupId === undefined || groupId === null) continue;
+        ids.add(groupId);
+        const entry = totals.get(groupId) ?? { sum: 0, count: 0 };
+        entry.sum += r.profit;
+        entry.count += 1;
+        totals.set(groupId, entry);
+      }
+
+      const row: Record<string, string | number> = { round: `R${round.roundNumber}` };
+      for (const [groupId, { sum, count }] of totals) {
+        row[`group${groupId}`] = parseFloat((sum / count).toFixed(2));
+      }
+      return row;
+    });
+    return { chartData: rows, groupIds: [...ids].sort((a, b) => a - b) };
+  }, [completedRounds]);
+
+  if (groupIds.length === 0) return null;
+
+  return (
+    <ChartCard title="Group Outcomes" description="Average profit per player in each group, by round">
+      <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+        <LineChart data={chartData} margin={CHART_MARGINS}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis dataKey="round" />
+          <YAxis tickFormatter={formatDollar} />
+          <Tooltip formatter={formatDollar} />
+          <Legend />
+          {groupIds.map((groupId, idx) => (
+            <Line
+              key={groupId}
+              type="monotone"
+              dataKey={`group${groupId}`}
+              name={`Group ${groupId}`}
+              stroke={getPlayerColor(idx)}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+};
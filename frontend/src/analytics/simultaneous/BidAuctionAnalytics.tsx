@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const BidAuctionAnalytics: React.FC<AnalyticsProps> = ({ data, completedRounds }) => {
+  const gameConfig = data.session.gameConfig || {};
+  const pricingRule = gameConfig.pricingRule ?? 'uniform';
+
+  // Bids vs values, winners highlighted
+  const bidPoints = useMemo(() => {
+    const points: { valuation: number; bid: number; isWinner: boolean }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        points.push({
+          valuation: Number(r.resultData?.valuation ?? 0),
+          bid: Number(r.resultData?.bid ?? 0),
+          isWinner: !!r.resultData?.isWinner,
+        });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (bidPoints.length === 0) return 100;
+    return Math.max(...bidPoints.map(p => Math.max(p.valuation, p.bid))) * 1.1;
+  }, [bidPoints]);
+
+  // Price vs the competitive range: with N units, any price between the
+  // (N+1)th and Nth highest values clears the market
+  const priceData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const numUnits = Number(results[0].resultData?.numUnits ?? 0);
+        const values = results.map(r => Number(r.resultData?.valuation ?? 0)).sort((a, b) => b - a);
+        const paid = results.filter(r => r.resultData?.isWinner).map(r => Number(r.resultData?.pricePaid ?? 0));
+        return {
+          round: round.roundNumber,
+          avgPrice: paid.length > 0 ? parseFloat((paid.reduce((s, p) => s + p, 0) / paid.length).toFixed(2)) : null,
+          ceHigh: values[numUnits - 1] ?? null,
+          ceLow: values[numUnits] ?? 0,
+          efficiency: Number(results[0].resultData?.efficiency ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Bids vs values */}
+      {bidPoints.length > 0 && (
+        <ChartCard title="Bids vs Values" description={`${pricingRule === 'uniform' ? 'Uniform price: bidding near value is safe.' : 'Pay-as-bid: expect shading below value.'} Winners in green.`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="Value" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="bid" type="number" name="Bid" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal }]} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Scatter data={bidPoints.filter(p => p.isWinner)} fill={CHART_COLORS[2]} name="Winning Bids" r={5} />
+              <Scatter data={bidPoints.filter(p => !p.isWinner)} fill="#94a3b8" name="Losing Bids" r={4} fillOpacity={0.6} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Price vs competitive range */}
+      {priceData.length > 0 && (
+        <ChartCard title="Price vs Competitive Range" description="Average price paid by winners against the range of market-clearing prices from true values">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={priceData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="stepAfter" dataKey="ceHigh" name="Nth Highest Value" stroke="#ef4444" strokeWidth={1} dot={false} strokeDasharray="5 5" connectNulls />
+              <Line type="stepAfter" dataKey="ceLow" name="(N+1)th Highest Value" stroke="#f97316" strokeWidth={1} dot={false} strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="avgPrice" name="Avg Price Paid" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Efficiency */}
+      {priceData.length > 0 && (
+        <ChartCard title="Allocative Efficiency" description="Share of maximum surplus captured — 100% when the highest-value buyers win the units">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={priceData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <Bar dataKey="efficiency" name="Efficiency" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default BidAuctionAnalytics;
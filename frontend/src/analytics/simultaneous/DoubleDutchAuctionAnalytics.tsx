@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import {
+  CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, ROLE_COLORS, competitiveEquilibrium,
+} from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const DoubleDutchAuctionAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Clearing price vs CE price, trades vs CE quantity, efficiency per round
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => (round.results || []).length > 0)
+      .map(round => {
+        const results = round.results || [];
+        const values = results.filter(r => r.resultData?.role === 'buyer').map(r => Number(r.resultData?.valuation ?? 0));
+        const costs = results.filter(r => r.resultData?.role === 'seller').map(r => Number(r.resultData?.cost ?? 0));
+        const ce = competitiveEquilibrium(values, costs);
+        const rd = results[0].resultData || {};
+        return {
+          round: round.roundNumber,
+          price: Number(rd.numTrades) > 0 ? Number(rd.avgPrice) : null,
+          cePrice: ce ? parseFloat(ce.price.toFixed(2)) : null,
+          trades: Number(rd.numTrades ?? 0),
+          ceQuantity: ce?.quantity ?? 0,
+          efficiency: Number(rd.efficiency ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  // Where each side stopped its clock relative to its own value/cost
+  const stopPoints = useMemo(() => {
+    const buyers: { value: number; stop: number }[] = [];
+    const sellers: { value: number; stop: number }[] = [];
+    for (const round of completedRounds) {
+      for (const r of round.results || []) {
+        const rd = r.resultData || {};
+        if (rd.stopPrice == null) continue;
+        if (rd.role === 'buyer') buyers.push({ value: Number(rd.valuation ?? 0), stop: Number(rd.stopPrice) });
+        else if (rd.role === 'seller') sellers.push({ value: Number(rd.cost ?? 0), stop: Number(rd.stopPrice) });
+      }
+    }
+    return { buyers, sellers };
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    const all = [...stopPoints.buyers, ...stopPoints.sellers];
+    if (all.length === 0) return 100;
+    return Math.max(...all.map(p => Math.max(p.value, p.stop))) * 1.1;
+  }, [stopPoints]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Price convergence */}
+      {roundData.length > 0 && (
+        <ChartCard title="Clearing Price vs Competitive Equilibrium" description="Where the buyer and seller clocks met each round">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="monotone" dataKey="price" name="Clearing Price" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="stepAfter" dataKey="cePrice" name="CE Price" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Volume and efficiency */}
+      {roundData.length > 0 && (
+        <ChartCard title="Volume and Efficiency" description="Units traded vs CE quantity, with realized share of maximum surplus">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis yAxisId="left" allowDecimals={false} />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip />
+              <Legend />
+              <Bar yAxisId="left" dataKey="ceQuantity" name="CE Quantity" fill="#e5e7eb" radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="left" dataKey="trades" name="Traded" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="right" dataKey="efficiency" name="Efficiency %" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Stop prices */}
+      {(stopPoints.buyers.length > 0 || stopPoints.sellers.length > 0) && (
+        <ChartCard title="Stop Prices vs Values" description="Buyers stop below their value, sellers above their cost. Distance from the line is surplus held back.">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="value" type="number" name="Value / Cost" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value / Cost', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="stop" type="number" name="Stop Price" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal }]} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Scatter data={stopPoints.buyers} fill={ROLE_COLORS.buyer} name="Buyers" r={5} fillOpacity={0.7} />
+              <Scatter data={stopPoints.sellers} fill={ROLE_COLORS.seller} name="Sellers" r={5} fillOpacity={0.7} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default DoubleDutchAuctionAnalytics;
@@ -0,0 +1,153 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+interface StackEntry {
+  mw: number;
+  marginalCost: number;
+  offerPrice: number;
+  dispatchedMW: number;
+}
+
+/** Cumulative-MW step points for a supply stack ordered by `key` */
+function stepCurve(stack: StackEntry[], key: 'offerPrice' | 'marginalCost'): { mw: number; price: number }[] {
+  const sorted = [...stack].sort((a, b) => a[key] - b[key]);
+  const points: { mw: number; price: number }[] = [];
+  let cumulative = 0;
+  for (const block of sorted) {
+    points.push({ mw: cumulative, price: block[key] });
+    cumulative += block.mw;
+  }
+  if (sorted.length > 0) points.push({ mw: cumulative, price: sorted[sorted.length - 1][key] });
+  return points;
+}
+
+const ElectricityMarketAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Merit-order dispatch for the most recent round with offers
+  const meritOrder = useMemo(() => {
+    const round = [...completedRounds].reverse().find(r => (r.results || []).some(res => res.resultData?.supplyCurve));
+    if (!round) return null;
+    const rd = round.results!.find(res => res.resultData?.supplyCurve)!.resultData;
+    const stack: StackEntry[] = (rd.supplyCurve || []).map((e: StackEntry) => ({
+      mw: Number(e.mw),
+      marginalCost: Number(e.marginalCost),
+      offerPrice: Number(e.offerPrice),
+      dispatchedMW: Number(e.dispatchedMW ?? 0),
+    }));
+    return {
+      roundNumber: round.roundNumber,
+      offers: stepCurve(stack, 'offerPrice'),
+      costs: stepCurve(stack, 'marginalCost'),
+      demand: Number(rd.demand ?? 0),
+      clearingPrice: rd.clearingPrice != null ? Number(rd.clearingPrice) : null,
+    };
+  }, [completedRounds]);
+
+  // Price and dispatch efficiency per round
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const rd = results[0].resultData || {};
+        const revenue = results.reduce((s, r) => s + Number(r.resultData?.totalRevenue ?? 0), 0);
+        const mw = results.reduce((s, r) => s + Number(r.resultData?.totalDispatchedMW ?? 0), 0);
+        return {
+          round: round.roundNumber,
+          // Uniform pricing reports one clearing price; pay-as-bid uses the MW-weighted average received
+          price: rd.clearingPrice != null ? Number(rd.clearingPrice) : (mw > 0 ? parseFloat((revenue / mw).toFixed(2)) : null),
+          efficiency: Number(rd.efficiency ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  // Markup of offers over marginal cost, dominant firm vs fringe
+  const markupData = useMemo(() => {
+    return completedRounds.map(round => {
+      const totals = { dominant: { markup: 0, mw: 0 }, fringe: { markup: 0, mw: 0 } };
+      for (const r of submittedResults(round)) {
+        const group = r.resultData?.isDominant ? totals.dominant : totals.fringe;
+        for (const b of r.resultData?.blocks || []) {
+          const offered = Number(b.mw ?? 0);
+          group.markup += (Number(b.offerPrice ?? 0) - Number(b.marginalCost ?? 0)) * offered;
+          group.mw += offered;
+        }
+      }
+      return {
+        round: `R${round.roundNumber}`,
+        dominant: totals.dominant.mw > 0 ? parseFloat((totals.dominant.markup / totals.dominant.mw).toFixed(2)) : null,
+        fringe: totals.fringe.mw > 0 ? parseFloat((totals.fringe.markup / totals.fringe.mw).toFixed(2)) : null,
+      };
+    });
+  }, [completedRounds]);
+
+  const hasDominant = markupData.some(d => d.dominant !== null);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Merit-order dispatch curve */}
+      {meritOrder && meritOrder.offers.length > 0 && (
+        <ChartCard title={`Merit-Order Dispatch (Round ${meritOrder.roundNumber})`} description="Offer stack vs true marginal-cost stack. Demand is met from the cheapest offers up; the gap is the markup.">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="mw" type="number" domain={[0, 'dataMax']} label={{ value: 'Cumulative MW', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine x={meritOrder.demand} stroke="#6b7280" strokeDasharray="5 5" label={{ value: `Demand ${meritOrder.demand} MW`, fill: '#6b7280', fontSize: 11, position: 'top' }} />
+              {meritOrder.clearingPrice !== null && (
+                <ReferenceLine y={meritOrder.clearingPrice} stroke="#ef4444" strokeDasharray="5 5" label={{ value: `Clearing ${formatDollar(meritOrder.clearingPrice)}`, fill: '#ef4444', fontSize: 11, position: 'right' }} />
+              )}
+              <Line data={meritOrder.offers} type="stepAfter" dataKey="price" name="Offer Stack" stroke={CHART_COLORS[0]} strokeWidth={2} dot={false} />
+              <Line data={meritOrder.costs} type="stepAfter" dataKey="price" name="Marginal Cost Stack" stroke={CHART_COLORS[2]} strokeWidth={2} dot={false} strokeDasharray="5 5" />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Price and efficiency */}
+      {roundData.length > 0 && (
+        <ChartCard title="Price and Dispatch Efficiency" description="Price paid per MWh (demand cycles off-peak to peak); efficiency = least-cost dispatch cost / actual cost">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis yAxisId="left" tickFormatter={formatDollar} />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip />
+              <Legend />
+              <Line yAxisId="left" type="monotone" dataKey="price" name="Price ($/MWh)" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line yAxisId="right" type="monotone" dataKey="efficiency" name="Efficiency %" stroke={CHART_COLORS[2]} strokeWidth={2} dot={{ r: 3 }} strokeDasharray="5 5" />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Markups */}
+      {markupData.length > 0 && (
+        <ChartCard title="Offer Markup Over Cost" description={hasDominant ? 'MW-weighted markup: the dominant firm vs the competitive fringe (capacity withholding)' : 'MW-weighted average markup of offers over marginal cost'}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={markupData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine y={0} stroke="#999" />
+              {hasDominant && <Bar dataKey="dominant" name="Dominant Firm" fill={CHART_COLORS[3]} radius={[4, 4, 0, 0]} />}
+              <Bar dataKey="fringe" name={hasDominant ? 'Fringe' : 'All Generators'} fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default ElectricityMarketAnalytics;
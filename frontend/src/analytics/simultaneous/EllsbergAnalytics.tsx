@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const EllsbergAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Share of players choosing the known (50/50) urn each round
+  const urnChoiceData = useMemo(() => {
+    return completedRounds.map(round => {
+      const results = submittedResults(round);
+      const known = results.filter(r => r.resultData?.urn === 'known').length;
+      const total = results.length;
+      return {
+        round: round.roundNumber,
+        knownPct: total > 0 ? parseFloat(((known / total) * 100).toFixed(1)) : 0,
+        ambiguousPct: total > 0 ? parseFloat((((total - known) / total) * 100).toFixed(1)) : 0,
+      };
+    });
+  }, [completedRounds]);
+
+  // Win rate by urn across the session (should be ~50% for both)
+  const winRateData = useMemo(() => {
+    const tally = { known: { wins: 0, total: 0 }, ambiguous: { wins: 0, total: 0 } };
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        const urn = r.resultData?.urn === 'known' ? 'known' : 'ambiguous';
+        tally[urn].total++;
+        if (r.resultData?.correct) tally[urn].wins++;
+      }
+    }
+    return [
+      { urn: 'Known Urn', winRate: tally.known.total > 0 ? parseFloat(((tally.known.wins / tally.known.total) * 100).toFixed(1)) : 0, choices: tally.known.total },
+      { urn: 'Ambiguous Urn', winRate: tally.ambiguous.total > 0 ? parseFloat(((tally.ambiguous.wins / tally.ambiguous.total) * 100).toFixed(1)) : 0, choices: tally.ambiguous.total },
+    ];
+  }, [completedRounds]);
+
+  // Hidden composition of the ambiguous urn each round (revealed after the draw)
+  const compositionData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => ({
+        round: round.roundNumber,
+        redBalls: Number(submittedResults(round)[0].resultData?.ambiguousComposition ?? 0),
+      }));
+  }, [completedRounds]);
+
+  const hasChoices = winRateData.some(d => d.choices > 0);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Ambiguity aversion */}
+      {urnChoiceData.length > 0 && (
+        <ChartCard title="Ambiguity Aversion" description="Share choosing the known 50/50 urn. Above 50% = ambiguity aversion (Ellsberg paradox).">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={urnChoiceData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <Legend />
+              <ReferenceLine y={50} stroke="#ef4444" strokeDasharray="5 5" label={{ value: 'Indifference', fill: '#ef4444', fontSize: 11, position: 'right' }} />
+              <Bar dataKey="knownPct" name="Known Urn" stackId="urn" fill={CHART_COLORS[0]} />
+              <Bar dataKey="ambiguousPct" name="Ambiguous Urn" stackId="urn" fill={CHART_COLORS[1]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Win rates */}
+      {hasChoices && (
+        <ChartCard title="Win Rate by Urn" description="Both urns pay off half the time in expectation — the aversion is not justified by outcomes">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={winRateData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="urn" />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <ReferenceLine y={50} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Bar dataKey="winRate" name="Win Rate" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Ambiguous urn composition */}
+      {compositionData.length > 0 && (
+        <ChartCard title="Ambiguous Urn Composition" description="Red balls (out of 100) in the ambiguous urn each round, drawn uniformly from 0–100">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={compositionData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 100]} />
+              <Tooltip />
+              <ReferenceLine y={50} stroke="#94a3b8" strokeDasharray="5 5" label={{ value: 'Known urn', fill: '#94a3b8', fontSize: 11, position: 'right' }} />
+              <Line type="monotone" dataKey="redBalls" name="Red Balls" stroke={CHART_COLORS[3]} strokeWidth={2} dot={{ r: 4 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default EllsbergAnalytics;
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const LindahlAnalytics: React.FC<AnalyticsProps> = ({ data, completedRounds }) => {
+  // Provision level vs the Samuelson-efficient level per round
+  const provisionData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const rd = submittedResults(round)[0].resultData || {};
+        return {
+          round: round.roundNumber,
+          provision: Number(rd.provisionLevel ?? 0),
+          efficient: Number(rd.efficientLevel ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  // Stated willingness-to-pay vs true valuation (each point a player-round)
+  const revelationPoints = useMemo(() => {
+    const points: { valuation: number; wtp: number; player: string }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        points.push({
+          valuation: Number(r.resultData?.valuation ?? 0),
+          wtp: Number(r.resultData?.willingnessToPay ?? 0),
+          player: data.players.find(p => p.id === r.playerId)?.name || r.playerId.slice(0, 6),
+        });
+      }
+    }
+    return points;
+  }, [completedRounds, data.players]);
+
+  const maxVal = useMemo(() => {
+    if (revelationPoints.length === 0) return 100;
+    return Math.max(...revelationPoints.map(p => Math.max(p.valuation, p.wtp))) * 1.1;
+  }, [revelationPoints]);
+
+  // Average WTP as a share of true value per round (100% = truthful)
+  const revelationRatio = useMemo(() => {
+    return completedRounds.map(round => {
+      const ratios = submittedResults(round)
+        .filter(r => Number(r.resultData?.valuation) > 0)
+        .map(r => Number(r.resultData?.willingnessToPay ?? 0) / Number(r.resultData!.valuation));
+      const avg = ratios.length > 0 ? ratios.reduce((s, v) => s + v, 0) / ratios.length : null;
+      return {
+        round: round.roundNumber,
+        ratio: avg !== null ? parseFloat((avg * 100).toFixed(1)) : null,
+      };
+    });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Provision vs efficient level */}
+      {provisionData.length > 0 && (
+        <ChartCard title="Provision vs Efficient Level" description="Public good provided from stated WTP vs the Samuelson level from true values. A gap indicates free riding.">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={provisionData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis label={{ value: 'Units', angle: -90, position: 'insideLeft' }} />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="provision" name="Provided" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} />
+              <Line type="monotone" dataKey="efficient" name="Efficient (Samuelson)" stroke={CHART_COLORS[2]} strokeWidth={2} dot={{ r: 3 }} strokeDasharray="5 5" />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* WTP vs valuation */}
+      {revelationPoints.length > 0 && (
+        <ChartCard title="Stated WTP vs True Value" description="Points below the 45-degree line under-reveal their value">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="True Value" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'True Value', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="wtp" type="number" name="Stated WTP" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Scatter
+                data={[{ valuation: 0, wtp: 0 }, { valuation: maxVal, wtp: maxVal }]}
+                fill="none"
+                line={{ stroke: '#94a3b8', strokeWidth: 2, strokeDasharray: '5 5' }}
+                name="Truthful"
+                r={0}
+                legendType="line"
+              />
+              <Scatter data={revelationPoints} fill={CHART_COLORS[4]} name="Player WTP" r={5} fillOpacity={0.7} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Revelation ratio */}
+      {revelationRatio.length > 0 && (
+        <ChartCard title="Value Revelation Over Rounds" description="Average stated WTP as a percentage of true value">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={revelationRatio} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 'auto']} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <ReferenceLine y={100} stroke="#10b981" strokeDasharray="5 5" label={{ value: 'Truthful', fill: '#10b981', fontSize: 11, position: 'right' }} />
+              <Line type="monotone" dataKey="ratio" name="WTP / Value" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default LindahlAnalytics;
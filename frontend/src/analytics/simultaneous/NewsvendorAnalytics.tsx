@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const NewsvendorAnalytics: React.FC<AnalyticsProps> = ({ data, completedRounds }) => {
+  const gameConfig = data.session.gameConfig || {};
+  const unitCost = gameConfig.unitCost ?? 5;
+  const sellingPrice = gameConfig.sellingPrice ?? 10;
+  const salvageValue = gameConfig.salvageValue ?? 1;
+  const demandMin = gameConfig.demandMin ?? 0;
+  const demandMax = gameConfig.demandMax ?? 100;
+
+  // Optimal order: demand quantile at the critical ratio (uniform demand)
+  const criticalRatio = (sellingPrice - unitCost) / (sellingPrice - salvageValue);
+  const optimalQuantity = Math.round(demandMin + (demandMax - demandMin) * criticalRatio);
+  const demandMean = Math.round((demandMin + demandMax) / 2);
+
+  // Average order vs demand per round
+  const orderData = useMemo(() => {
+    return completedRounds.map(round => {
+      const results = submittedResults(round);
+      const orders = results.map(r => Number(r.resultData?.orderQuantity ?? 0));
+      const avg = orders.length > 0 ? orders.reduce((s, q) => s + q, 0) / orders.length : null;
+      return {
+        round: round.roundNumber,
+        avgOrder: avg !== null ? parseFloat(avg.toFixed(1)) : null,
+        demand: results.length > 0 ? Number(results[0].resultData?.demand ?? 0) : null,
+      };
+    });
+  }, [completedRounds]);
+
+  // Distribution of order quantities (10 bins across the demand range)
+  const distributionData = useMemo(() => {
+    const binCount = 10;
+    const width = Math.max(1, (demandMax - demandMin) / binCount);
+    const bins = Array.from({ length: binCount }, (_, i) => ({
+      bin: `${Math.round(demandMin + i * width)}–${Math.round(demandMin + (i + 1) * width)}`,
+      mid: demandMin + (i + 0.5) * width,
+      count: 0,
+    }));
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        const q = Number(r.resultData?.orderQuantity ?? 0);
+        const idx = Math.min(binCount - 1, Math.max(0, Math.floor((q - demandMin) / width)));
+        bins[idx].count++;
+      }
+    }
+    return bins;
+  }, [completedRounds, demandMin, demandMax]);
+
+  // Profit breakdown per round (average per player)
+  const profitData = useMemo(() => {
+    return completedRounds.map(round => {
+      const results = submittedResults(round);
+      const avg = (key: string) => results.length > 0
+        ? parseFloat((results.reduce((s, r) => s + Number(r.resultData?.[key] ?? 0), 0) / results.length).toFixed(2))
+        : 0;
+      return {
+        round: `R${round.roundNumber}`,
+        profit: avg('profit'),
+        unsold: avg('leftover'),
+      };
+    });
+  }, [completedRounds]);
+
+  const hasOrders = distributionData.some(b => b.count > 0);
+  const optimalBin = distributionData.reduce((best, b) =>
+    Math.abs(b.mid - optimalQuantity) < Math.abs(best.mid - optimalQuantity) ? b : best, distributionData[0]);
+  const meanBin = distributionData.reduce((best, b) =>
+    Math.abs(b.mid - demandMean) < Math.abs(best.mid - demandMean) ? b : best, distributionData[0]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Orders vs optimum */}
+      {orderData.length > 0 && (
+        <ChartCard title="Orders vs Optimal Quantity" description={`Optimal Q* = ${optimalQuantity} (critical ratio ${(criticalRatio * 100).toFixed(0)}%). Orders between Q* and mean demand show pull-to-center bias.`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={orderData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[demandMin, demandMax]} />
+              <Tooltip />
+              <Legend />
+              <ReferenceLine y={optimalQuantity} stroke="#10b981" strokeDasharray="5 5" label={{ value: 'Q*', fill: '#10b981', fontSize: 11, position: 'right' }} />
+              <ReferenceLine y={demandMean} stroke="#94a3b8" strokeDasharray="3 3" label={{ value: 'Mean demand', fill: '#94a3b8', fontSize: 11, position: 'right' }} />
+              <Line type="monotone" dataKey="avgOrder" name="Avg Order" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="monotone" dataKey="demand" name="Realized Demand" stroke={CHART_COLORS[1]} strokeWidth={2} dot={{ r: 3 }} strokeDasharray="5 5" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Order distribution */}
+      {hasOrders && (
+        <ChartCard title="Order Quantity Distribution" description="All orders across rounds, binned over the demand range">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={distributionData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="bin" tick={{ fontSize: 10 }} />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <ReferenceLine x={optimalBin.bin} stroke="#10b981" strokeDasharray="5 5" label={{ value: 'Q*', fill: '#10b981', fontSize: 11, position: 'top' }} />
+              <ReferenceLine x={meanBin.bin} stroke="#94a3b8" strokeDasharray="3 3" />
+              <Bar dataKey="count" name="Orders" fill={CHART_COLORS[4]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Profit and leftovers */}
+      {profitData.length > 0 && (
+        <ChartCard title="Profit and Unsold Units" description="Average profit and leftover inventory per player each round">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={profitData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis yAxisId="left" tickFormatter={formatDollar} />
+              <YAxis yAxisId="right" orientation="right" />
+              <Tooltip />
+              <Legend />
+              <Bar yAxisId="left" dataKey="profit" name="Avg Profit ($)" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="right" dataKey="unsold" name="Avg Unsold Units" fill={CHART_COLORS[3]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default NewsvendorAnalytics;
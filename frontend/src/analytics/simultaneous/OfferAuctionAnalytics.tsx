@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const OfferAuctionAnalytics: React.FC<AnalyticsProps> = ({ data, completedRounds }) => {
+  const gameConfig = data.session.gameConfig || {};
+  const pricingRule = gameConfig.pricingRule ?? 'uniform';
+
+  // Asks vs costs, winners highlighted
+  const askPoints = useMemo(() => {
+    const points: { cost: number; ask: number; isWinner: boolean }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        points.push({
+          cost: Number(r.resultData?.cost ?? 0),
+          ask: Number(r.resultData?.ask ?? 0),
+          isWinner: !!r.resultData?.isWinner,
+        });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (askPoints.length === 0) return 100;
+    return Math.max(...askPoints.map(p => Math.max(p.cost, p.ask))) * 1.1;
+  }, [askPoints]);
+
+  // Price vs the competitive range: with N units, any price between the
+  // Nth and (N+1)th lowest costs clears the market
+  const priceData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const numUnits = Number(results[0].resultData?.numUnits ?? 0);
+        const costs = results.map(r => Number(r.resultData?.cost ?? 0)).sort((a, b) => a - b);
+        const paid = results.filter(r => r.resultData?.isWinner).map(r => Number(r.resultData?.pricePaid ?? 0));
+        return {
+          round: round.roundNumber,
+          avgPrice: paid.length > 0 ? parseFloat((paid.reduce((s, p) => s + p, 0) / paid.length).toFixed(2)) : null,
+          ceLow: costs[numUnits - 1] ?? null,
+          ceHigh: costs[numUnits] ?? null,
+          efficiency: Number(results[0].resultData?.efficiency ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Asks vs costs */}
+      {askPoints.length > 0 && (
+        <ChartCard title="Asks vs Costs" description={`${pricingRule === 'uniform' ? 'Uniform price: asking near cost is safe.' : 'Pay-as-offered: expect padding above cost.'} Winners in green.`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="cost" type="number" name="Cost" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Cost', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="ask" type="number" name="Ask" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal }]} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Scatter data={askPoints.filter(p => p.isWinner)} fill={CHART_COLORS[2]} name="Winning Asks" r={5} />
+              <Scatter data={askPoints.filter(p => !p.isWinner)} fill="#94a3b8" name="Losing Asks" r={4} fillOpacity={0.6} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Price vs competitive range */}
+      {priceData.length > 0 && (
+        <ChartCard title="Price vs Competitive Range" description="Average price received by winning sellers against the range of market-clearing prices from true costs">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={priceData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="stepAfter" dataKey="ceLow" name="Nth Lowest Cost" stroke="#ef4444" strokeWidth={1} dot={false} strokeDasharray="5 5" connectNulls />
+              <Line type="stepAfter" dataKey="ceHigh" name="(N+1)th Lowest Cost" stroke="#f97316" strokeWidth={1} dot={false} strokeDasharray="5 5" connectNulls />
+              <Line type="monotone" dataKey="avgPrice" name="Avg Price Received" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Efficiency */}
+      {priceData.length > 0 && (
+        <ChartCard title="Allocative Efficiency" description="Least-cost supply cost / actual cost — 100% when the lowest-cost sellers win the units">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={priceData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <Bar dataKey="efficiency" name="Efficiency" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default OfferAuctionAnalytics;
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter, Cell,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, PROFIT_COLORS, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const PGAuctionAnalytics: React.FC<AnalyticsProps> = ({ data, completedRounds }) => {
+  const gameConfig = data.session.gameConfig || {};
+  const provisionCost = gameConfig.provisionCost ?? 100;
+  const refundRule = gameConfig.refundRule ?? 'money_back';
+
+  // Total pledged vs provision cost per round
+  const pledgeData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const rd = submittedResults(round)[0].resultData || {};
+        const totalValue = submittedResults(round).reduce((s, r) => s + Number(r.resultData?.valuation ?? 0), 0);
+        return {
+          round: `R${round.roundNumber}`,
+          totalBids: Number(rd.totalBids ?? 0),
+          totalValue: parseFloat(totalValue.toFixed(2)),
+          provided: !!rd.isProvided,
+        };
+      });
+  }, [completedRounds]);
+
+  // Bid vs valuation (each point a player-round)
+  const bidPoints = useMemo(() => {
+    const points: { valuation: number; bid: number }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        points.push({
+          valuation: Number(r.resultData?.valuation ?? 0),
+          bid: Number(r.resultData?.bid ?? 0),
+        });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (bidPoints.length === 0) return 100;
+    return Math.max(...bidPoints.map(p => Math.max(p.valuation, p.bid))) * 1.1;
+  }, [bidPoints]);
+
+  // Provision success rate over time (cumulative)
+  const successData = useMemo(() => {
+    let provided = 0;
+    return pledgeData.map((d, i) => {
+      if (d.provided) provided++;
+      return {
+        round: d.round,
+        successRate: parseFloat(((provided / (i + 1)) * 100).toFixed(1)),
+      };
+    });
+  }, [pledgeData]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Pledges vs cost */}
+      {pledgeData.length > 0 && (
+        <ChartCard title="Pledges vs Provision Cost" description={`Total bids each round. Green = provided, red = failed (${refundRule === 'money_back' ? 'money-back guarantee' : 'no refund'}).`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={pledgeData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine y={provisionCost} stroke="#ef4444" strokeDasharray="5 5" label={{ value: `Cost: ${formatDollar(provisionCost)}`, fill: '#ef4444', fontSize: 11, position: 'right' }} />
+              <Bar dataKey="totalBids" name="Total Bids" radius={[4, 4, 0, 0]}>
+                {pledgeData.map((entry, i) => (
+                  <Cell key={i} fill={entry.provided ? PROFIT_COLORS.positive : PROFIT_COLORS.negative} />
+                ))}
+              </Bar>
+              <Bar dataKey="totalValue" name="Total Value" fill="#e5e7eb" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Bids vs valuations */}
+      {bidPoints.length > 0 && (
+        <ChartCard title="Bids vs Values" description="Points below the 45-degree line contribute less than their value (free riding)">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="Value" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="bid" type="number" name="Bid" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Scatter
+                data={[{ valuation: 0, bid: 0 }, { valuation: maxVal, bid: maxVal }]}
+                fill="none"
+                line={{ stroke: '#94a3b8', strokeWidth: 2, strokeDasharray: '5 5' }}
+                name="Bid = Value"
+                r={0}
+                legendType="line"
+              />
+              <Scatter data={bidPoints} fill={CHART_COLORS[0]} name="Player Bids" r={5} fillOpacity={0.7} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Success rate */}
+      {successData.length > 0 && (
+        <ChartCard title="Provision Success Rate" description="Cumulative share of rounds in which the public good was funded">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={successData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <Line type="monotone" dataKey="successRate" name="Success Rate" stroke={CHART_COLORS[2]} strokeWidth={2} dot={{ r: 4 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default PGAuctionAnalytics;
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import {
+  CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, competitiveEquilibrium, submittedResults,
+} from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const SealedBidOfferAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Clearing price and quantity vs competitive equilibrium per round
+  const clearingData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const values = results.filter(r => r.resultData?.role === 'buyer').map(r => Number(r.resultData?.valuation ?? 0));
+        const costs = results.filter(r => r.resultData?.role === 'seller').map(r => Number(r.resultData?.cost ?? 0));
+        const ce = competitiveEquilibrium(values, costs);
+        const rd = results[0].resultData || {};
+        return {
+          round: round.roundNumber,
+          clearingPrice: rd.clearingQuantity > 0 ? Number(rd.clearingPrice) : null,
+          cePrice: ce ? parseFloat(ce.price.toFixed(2)) : null,
+          quantity: Number(rd.clearingQuantity ?? 0),
+          ceQuantity: ce?.quantity ?? 0,
+          efficiency: Number(rd.efficiency ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  // Strategic under-revelation: average bid shading (value − bid) and ask padding (ask − cost)
+  const revelationData = useMemo(() => {
+    return completedRounds.map(round => {
+      const results = submittedResults(round);
+      const buyers = results.filter(r => r.resultData?.role === 'buyer');
+      const sellers = results.filter(r => r.resultData?.role === 'seller');
+      const avg = (xs: number[]) => xs.length > 0 ? parseFloat((xs.reduce((s, x) => s + x, 0) / xs.length).toFixed(2)) : null;
+      return {
+        round: round.roundNumber,
+        bidShading: avg(buyers.map(r => Number(r.resultData?.valuation ?? 0) - Number(r.resultData?.bid ?? 0))),
+        askPadding: avg(sellers.map(r => Number(r.resultData?.ask ?? 0) - Number(r.resultData?.cost ?? 0))),
+      };
+    });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Clearing price vs CE */}
+      {clearingData.length > 0 && (
+        <ChartCard title="Clearing Price vs Competitive Equilibrium" description="Uniform clearing price each round against the CE price implied by true values and costs">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={clearingData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="monotone" dataKey="clearingPrice" name="Clearing Price" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="stepAfter" dataKey="cePrice" name="CE Price" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Quantity and efficiency */}
+      {clearingData.length > 0 && (
+        <ChartCard title="Volume and Efficiency" description="Units traded vs CE quantity, with realized share of maximum surplus">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={clearingData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis yAxisId="left" allowDecimals={false} />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip />
+              <Legend />
+              <Bar yAxisId="left" dataKey="ceQuantity" name="CE Quantity" fill="#e5e7eb" radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="left" dataKey="quantity" name="Traded" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="right" dataKey="efficiency" name="Efficiency %" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Under-revelation */}
+      {revelationData.length > 0 && (
+        <ChartCard title="Strategic Under-Revelation" description="Buyers shade bids below value and sellers pad asks above cost; both shrink as the market converges">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={revelationData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine y={0} stroke="#999" />
+              <Line type="monotone" dataKey="bidShading" name="Avg Bid Shading" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="monotone" dataKey="askPadding" name="Avg Ask Padding" stroke={CHART_COLORS[1]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default SealedBidOfferAnalytics;
@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+/**
+ * VCG revenue for a position auction: the advertiser in slot i pays the
+ * externality it imposes on those below, Σ_{j≥i} (α_j − α_{j+1}) · b_{j+1}.
+ */
+function vcgRevenue(amounts: number[], clickRates: number[]): number {
+  const sorted = [...amounts].sort((a, b) => b - a);
+  const slots = Math.min(sorted.length, clickRates.length);
+  let revenue = 0;
+  for (let i = 0; i < slots; i++) {
+    for (let j = i; j < clickRates.length; j++) {
+      const drop = clickRates[j] - (clickRates[j + 1] ?? 0);
+      revenue += drop * (sorted[j + 1] ?? 0);
+    }
+  }
+  return revenue;
+}
+
+const SponsoredSearchAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // GSP revenue (actual) vs VCG revenue on the same bids and under truthful bidding
+  const revenueData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const clickRates: number[] = (results[0].resultData?.clickRates || []).map(Number);
+        const gsp = results.reduce((s, r) => s + Number(r.resultData?.totalPayment ?? 0), 0);
+        const bids = results.map(r => Number(r.resultData?.bid ?? 0));
+        const values = results.map(r => Number(r.resultData?.valuation ?? 0));
+        return {
+          round: `R${round.roundNumber}`,
+          gsp: parseFloat(gsp.toFixed(2)),
+          vcgBids: parseFloat(vcgRevenue(bids, clickRates).toFixed(2)),
+          vcgTruthful: parseFloat(vcgRevenue(values, clickRates).toFixed(2)),
+        };
+      });
+  }, [completedRounds]);
+
+  // Bid vs valuation (GSP is not truthful, so bids shade below value)
+  const bidPoints = useMemo(() => {
+    const points: { valuation: number; bid: number }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        points.push({ valuation: Number(r.resultData?.valuation ?? 0), bid: Number(r.resultData?.bid ?? 0) });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (bidPoints.length === 0) return 100;
+    return Math.max(...bidPoints.map(p => Math.max(p.valuation, p.bid))) * 1.1;
+  }, [bidPoints]);
+
+  // Allocative efficiency: realized click value vs highest values in the best slots
+  const efficiencyData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const clickRates: number[] = (results[0].resultData?.clickRates || []).map(Number);
+        const realized = results.reduce((s, r) =>
+          s + (r.resultData?.isWinner ? Number(r.resultData.valuation ?? 0) * Number(r.resultData.clickRate ?? 0) : 0), 0);
+        const best = results
+          .map(r => Number(r.resultData?.valuation ?? 0))
+          .sort((a, b) => b - a)
+          .slice(0, clickRates.length)
+          .reduce((s, v, i) => s + v * clickRates[i], 0);
+        return {
+          round: round.roundNumber,
+          efficiency: best > 0 ? parseFloat(((realized / best) * 100).toFixed(1)) : 100,
+        };
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* GSP vs VCG revenue */}
+      {revenueData.length > 0 && (
+        <ChartCard title="GSP vs VCG Revenue" description="Actual GSP revenue vs what VCG would collect on the same bids, and on truthful bids (the VCG equilibrium)">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={revenueData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Bar dataKey="gsp" name="GSP (actual)" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+              <Bar dataKey="vcgBids" name="VCG (same bids)" fill={CHART_COLORS[1]} radius={[4, 4, 0, 0]} />
+              <Bar dataKey="vcgTruthful" name="VCG (truthful)" fill={CHART_COLORS[4]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Bids vs values */}
+      {bidPoints.length > 0 && (
+        <ChartCard title="Bids vs Values" description="GSP rewards bid shading — points below the 45-degree line bid less than value per click">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="Value per Click" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value per Click', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="bid" type="number" name="Bid" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Scatter
+                data={[{ valuation: 0, bid: 0 }, { valuation: maxVal, bid: maxVal }]}
+                fill="none"
+                line={{ stroke: '#94a3b8', strokeWidth: 2, strokeDasharray: '5 5' }}
+                name="Bid = Value"
+                r={0}
+                legendType="line"
+              />
+              <Scatter data={bidPoints} fill={CHART_COLORS[0]} name="Advertiser Bids" r={5} fillOpacity={0.7} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Allocative efficiency */}
+      {efficiencyData.length > 0 && (
+        <ChartCard title="Allocative Efficiency" description="Click value realized vs assigning the top slots to the highest-value advertisers">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={efficiencyData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <ReferenceLine y={100} stroke="#10b981" strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="efficiency" name="Efficiency" stroke={CHART_COLORS[2]} strokeWidth={2} dot={{ r: 4 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default SponsoredSearchAnalytics;
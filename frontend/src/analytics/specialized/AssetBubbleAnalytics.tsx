@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine, Scatter, Cell,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const AssetBubbleAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Per-round average price and fundamental value (FV declines as dividends are paid out)
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => (round.results || []).length > 0)
+      .map(round => {
+        const rd = round.results![0].resultData || {};
+        // Each trade is logged once per side; count the buyer side only
+        const prices = (round.actions || [])
+          .filter(a => a.actionType === 'trade' && a.actionData?.role === 'buyer')
+          .map(a => Number(a.actionData.price));
+        const avgPrice = prices.length > 0 ? parseFloat((prices.reduce((s, p) => s + p, 0) / prices.length).toFixed(2)) : null;
+        const fv = Number(rd.fundamental_value_before ?? 0);
+        return {
+          round: round.roundNumber,
+          avgPrice,
+          fundamentalValue: fv,
+          volume: prices.length,
+          deviation: avgPrice !== null ? parseFloat((avgPrice - fv).toFixed(2)) : null,
+        };
+      });
+  }, [completedRounds]);
+
+  // Every individual trade price, for the scatter behind the averages
+  const tradePoints = useMemo(() => {
+    const points: { round: number; price: number }[] = [];
+    for (const round of completedRounds) {
+      for (const a of round.actions || []) {
+        if (a.actionType !== 'trade' || a.actionData?.role !== 'buyer') continue;
+        points.push({ round: round.roundNumber, price: Number(a.actionData.price) });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Price path vs fundamental value */}
+      {roundData.length > 0 && (
+        <ChartCard title="Trade Prices vs Fundamental Value" description="Bubbles show as prices rising above the declining fundamental value, then crashing near the end">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ComposedChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" type="number" domain={['dataMin', 'dataMax']} allowDecimals={false} label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Scatter data={tradePoints} dataKey="price" name="Trades" fill="#94a3b8" fillOpacity={0.5} />
+              <Line type="stepAfter" dataKey="fundamentalValue" name="Fundamental Value" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="avgPrice" name="Avg Price" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Volume */}
+      {roundData.length > 0 && (
+        <ChartCard title="Trading Volume" description="Shares traded per round — volume typically peaks with the bubble">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="volume" name="Trades" fill={CHART_COLORS[4]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Deviation from FV */}
+      {roundData.length > 0 && (
+        <ChartCard title="Deviation from Fundamental Value" description="Average trade price minus fundamental value each round">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <ReferenceLine y={0} stroke="#999" />
+              <Bar dataKey="deviation" name="Price − FV" radius={[4, 4, 0, 0]}>
+                {roundData.map((d, i) => (
+                  <Cell key={i} fill={(d.deviation ?? 0) >= 0 ? CHART_COLORS[3] : CHART_COLORS[0]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default AssetBubbleAnalytics;
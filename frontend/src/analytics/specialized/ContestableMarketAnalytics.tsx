@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const ContestableMarketAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Market price against the monopoly and zero-profit benchmarks, plus entry and incumbent profit
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => (round.results || []).length > 0)
+      .map(round => {
+        const results = round.results || [];
+        const rd = results[0].resultData || {};
+        const incumbent = results.find(r => r.resultData?.role === 'incumbent');
+        const entrants = results.filter(r => r.resultData?.role === 'entrant');
+        return {
+          round: round.roundNumber,
+          price: Number(rd.numActiveSellers ?? 0) > 0 ? Number(rd.lowestPrice) : null,
+          monopolyPrice: Number(rd.monopolyPrice ?? 0),
+          competitivePrice: Number(rd.competitivePrice ?? 0),
+          entered: entrants.filter(r => r.resultData?.entered).length,
+          stayedOut: entrants.filter(r => !r.resultData?.entered).length,
+          incumbentProfit: incumbent ? parseFloat(Number(incumbent.profit).toFixed(2)) : null,
+          monopolyProfit: Number(rd.monopolyProfit ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Price vs benchmarks */}
+      {roundData.length > 0 && (
+        <ChartCard title="Market Price vs Benchmarks" description="Contestability predicts prices near the zero-profit level even with a single active seller">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="stepAfter" dataKey="monopolyPrice" name="Monopoly Price" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+              <Line type="stepAfter" dataKey="competitivePrice" name="Zero-Profit Price" stroke="#10b981" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="price" name="Lowest Price" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Entry decisions */}
+      {roundData.length > 0 && (
+        <ChartCard title="Entry Decisions" description="Potential entrants that entered vs stayed out each round">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="entered" stackId="entry" name="Entered" fill={CHART_COLORS[1]} />
+              <Bar dataKey="stayedOut" stackId="entry" name="Stayed Out" fill="#e5e7eb" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Incumbent profit */}
+      {roundData.length > 0 && (
+        <ChartCard title="Incumbent Profit vs Monopoly Profit" description="The threat of entry should hold incumbent profit well below the monopoly level">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine y={0} stroke="#999" />
+              <Line type="stepAfter" dataKey="monopolyProfit" name="Monopoly Profit" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="incumbentProfit" name="Incumbent Profit" stroke={CHART_COLORS[4]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default ContestableMarketAnalytics;
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const DiscriminativeAuctionAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Bids vs values, winners highlighted
+  const bidPoints = useMemo(() => {
+    const points: { valuation: number; bid: number; isWinner: boolean }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        const rd = r.resultData || {};
+        points.push({ valuation: Number(rd.valuation ?? 0), bid: Number(rd.bid ?? 0), isWinner: !!rd.isWinner });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (bidPoints.length === 0) return 100;
+    return Math.max(...bidPoints.map(p => Math.max(p.valuation, p.bid))) * 1.1;
+  }, [bidPoints]);
+
+  // Pay-as-bid revenue vs a uniform-price counterfactual on the same bids
+  // (every winner pays the highest losing bid), plus average shading ratio
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const winners = results.filter(r => r.resultData?.isWinner);
+        const losingBids = results.filter(r => !r.resultData?.isWinner).map(r => Number(r.resultData?.bid ?? 0));
+        const highestLosing = losingBids.length > 0 ? Math.max(...losingBids) : 0;
+        const revenue = winners.reduce((s, r) => s + Number(r.resultData?.pricePaid ?? 0), 0);
+        const ratios = results
+          .filter(r => Number(r.resultData?.valuation ?? 0) > 0)
+          .map(r => Number(r.resultData?.bid ?? 0) / Number(r.resultData.valuation));
+        return {
+          round: round.roundNumber,
+          payAsBid: parseFloat(revenue.toFixed(2)),
+          uniform: parseFloat((winners.length * highestLosing).toFixed(2)),
+          bidRatio: ratios.length > 0 ? parseFloat(((ratios.reduce((s, x) => s + x, 0) / ratios.length) * 100).toFixed(1)) : null,
+        };
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Bids vs values */}
+      {bidPoints.length > 0 && (
+        <ChartCard title="Bids vs Values" description="Winners pay their own bid, so bids shade below value. Winners in green.">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="Value" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="bid" type="number" name="Bid" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal }]} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Scatter data={bidPoints.filter(p => p.isWinner)} fill={CHART_COLORS[2]} name="Winning Bids" r={5} />
+              <Scatter data={bidPoints.filter(p => !p.isWinner)} fill="#94a3b8" name="Losing Bids" r={4} fillOpacity={0.6} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Revenue comparison */}
+      {roundData.length > 0 && (
+        <ChartCard title="Pay-as-Bid vs Uniform Revenue" description="Actual revenue vs charging every winner the highest losing bid on the same bids">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Bar dataKey="payAsBid" name="Pay-as-Bid (actual)" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+              <Bar dataKey="uniform" name="Uniform (counterfactual)" fill={CHART_COLORS[1]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Shading ratio */}
+      {roundData.length > 0 && (
+        <ChartCard title="Bid Shading" description="Average bid as a percentage of value (100% = bidding full value)">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 'auto']} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="bidRatio" name="Bid / Value" stroke={CHART_COLORS[4]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default DiscriminativeAuctionAnalytics;
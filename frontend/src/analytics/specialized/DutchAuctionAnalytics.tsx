@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter, Cell,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const DutchAuctionAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Stop price vs value for every bidder
+  const stopPoints = useMemo(() => {
+    const points: { valuation: number; stopPrice: number; isWinner: boolean }[] = [];
+    let numBidders = 0;
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        const rd = r.resultData || {};
+        numBidders = Math.max(numBidders, Number(rd.numBidders ?? 0));
+        if (rd.stopPrice == null) continue;
+        points.push({ valuation: Number(rd.valuation ?? 0), stopPrice: Number(rd.stopPrice), isWinner: !!rd.isWinner });
+      }
+    }
+    return { points, numBidders };
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (stopPoints.points.length === 0) return 100;
+    return Math.max(...stopPoints.points.map(p => Math.max(p.valuation, p.stopPrice))) * 1.1;
+  }, [stopPoints]);
+
+  // Risk-neutral equilibrium with uniform values: stop at (n-1)/n of value
+  const rnneSlope = stopPoints.numBidders > 1 ? (stopPoints.numBidders - 1) / stopPoints.numBidders : 1;
+
+  // Winning price vs the highest value in the room, and whether the top value won
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const values = results.map(r => Number(r.resultData?.valuation ?? 0));
+        const highest = Math.max(...values);
+        const winner = results.find(r => r.resultData?.isWinner);
+        return {
+          round: round.roundNumber,
+          price: winner ? Number(winner.resultData.pricePaid ?? 0) : null,
+          highestValue: highest,
+          efficient: winner ? Number(winner.resultData.valuation ?? 0) >= highest : false,
+        };
+      });
+  }, [completedRounds]);
+
+  const efficientRounds = roundData.filter(d => d.efficient).length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Stop prices vs values */}
+      {stopPoints.points.length > 0 && (
+        <ChartCard title="Stop Prices vs Values" description={`Dashed: bid = value. Dotted: risk-neutral equilibrium (${stopPoints.numBidders - 1}/${stopPoints.numBidders} of value). Stops above the RNNE suggest risk aversion.`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="Value" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="stopPrice" type="number" name="Stop Price" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal }]} stroke="#94a3b8" strokeDasharray="5 5" />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal * rnneSlope }]} stroke="#ef4444" strokeDasharray="2 4" />
+              <Scatter data={stopPoints.points.filter(p => p.isWinner)} fill={CHART_COLORS[2]} name="Winners" r={5} />
+              <Scatter data={stopPoints.points.filter(p => !p.isWinner)} fill="#94a3b8" name="Others" r={4} fillOpacity={0.6} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Price vs highest value */}
+      {roundData.length > 0 && (
+        <ChartCard title="Winning Price vs Highest Value" description="How much of the top bidder's value the seller extracted each round">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="monotone" dataKey="highestValue" name="Highest Value" stroke="#94a3b8" strokeWidth={2} dot={{ r: 3 }} strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="price" name="Winning Price" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Efficiency */}
+      {roundData.length > 0 && (
+        <ChartCard title="Did the Highest Value Win?" description={`${efficientRounds} of ${roundData.length} rounds allocated the item efficiently`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Bar dataKey="highestValue" name="Highest Value" radius={[4, 4, 0, 0]}>
+                {roundData.map((d, i) => (
+                  <Cell key={i} fill={d.efficient ? CHART_COLORS[2] : CHART_COLORS[3]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default DutchAuctionAnalytics;
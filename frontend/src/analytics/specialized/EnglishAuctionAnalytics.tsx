@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+  ScatterChart, Scatter, Cell,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, submittedResults } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const EnglishAuctionAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Drop-out (max bid) vs value; staying in until value is dominant
+  const bidPoints = useMemo(() => {
+    const points: { valuation: number; maxBid: number; isWinner: boolean }[] = [];
+    for (const round of completedRounds) {
+      for (const r of submittedResults(round)) {
+        const rd = r.resultData || {};
+        points.push({ valuation: Number(rd.valuation ?? 0), maxBid: Number(rd.maxBid ?? 0), isWinner: !!rd.isWinner });
+      }
+    }
+    return points;
+  }, [completedRounds]);
+
+  const maxVal = useMemo(() => {
+    if (bidPoints.length === 0) return 100;
+    return Math.max(...bidPoints.map(p => Math.max(p.valuation, p.maxBid))) * 1.1;
+  }, [bidPoints]);
+
+  // Price vs second-highest value (the dominant-strategy prediction)
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => submittedResults(round).length > 0)
+      .map(round => {
+        const results = submittedResults(round);
+        const values = results.map(r => Number(r.resultData?.valuation ?? 0)).sort((a, b) => b - a);
+        const winner = results.find(r => r.resultData?.isWinner);
+        return {
+          round: round.roundNumber,
+          price: winner ? Number(winner.resultData.pricePaid ?? 0) : null,
+          secondValue: values[1] ?? 0,
+          highestValue: values[0] ?? 0,
+          efficient: winner ? Number(winner.resultData.valuation ?? 0) >= (values[0] ?? 0) : false,
+        };
+      });
+  }, [completedRounds]);
+
+  const efficientRounds = roundData.filter(d => d.efficient).length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Max bids vs values */}
+      {bidPoints.length > 0 && (
+        <ChartCard title="Maximum Bids vs Values" description="Bidding up to value is the dominant strategy — points should sit on the dashed line">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <ScatterChart margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="valuation" type="number" name="Value" tickFormatter={formatDollar} domain={[0, 'auto']} label={{ value: 'Value', position: 'insideBottom', offset: -2 }} />
+              <YAxis dataKey="maxBid" type="number" name="Max Bid" tickFormatter={formatDollar} domain={[0, 'auto']} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <ReferenceLine segment={[{ x: 0, y: 0 }, { x: maxVal, y: maxVal }]} stroke="#94a3b8" strokeDasharray="5 5" />
+              <Scatter data={bidPoints.filter(p => p.isWinner)} fill={CHART_COLORS[2]} name="Winners" r={5} />
+              <Scatter data={bidPoints.filter(p => !p.isWinner)} fill="#94a3b8" name="Others" r={4} fillOpacity={0.6} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Price vs second-highest value */}
+      {roundData.length > 0 && (
+        <ChartCard title="Price vs Second-Highest Value" description="With truthful bidding the winner pays exactly the second-highest value">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="stepAfter" dataKey="secondValue" name="2nd Highest Value" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="price" name="Price Paid" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Efficiency */}
+      {roundData.length > 0 && (
+        <ChartCard title="Did the Highest Value Win?" description={`${efficientRounds} of ${roundData.length} rounds allocated the item efficiently`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Bar dataKey="highestValue" name="Highest Value" radius={[4, 4, 0, 0]}>
+                {roundData.map((d, i) => (
+                  <Cell key={i} fill={d.efficient ? CHART_COLORS[2] : CHART_COLORS[3]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default EnglishAuctionAnalytics;
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import {
+  CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue, competitiveEquilibrium,
+} from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const PostedOfferAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Posted prices against the CE implied by buyer values and seller costs
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => (round.results || []).length > 0)
+      .map(round => {
+        const results = round.results || [];
+        const sellers = results.filter(r => r.resultData?.role === 'seller');
+        const buyers = results.filter(r => r.resultData?.role === 'buyer');
+        const posted = sellers.filter(r => r.resultData?.price != null).map(r => Number(r.resultData.price));
+        const traded = buyers.filter(r => r.resultData?.isMatched).map(r => Number(r.resultData?.pricePaid ?? 0));
+        const ce = competitiveEquilibrium(
+          buyers.map(r => Number(r.resultData?.valuation ?? 0)),
+          sellers.map(r => Number(r.resultData?.cost ?? 0)),
+        );
+        const rd = results[0].resultData || {};
+        return {
+          round: round.roundNumber,
+          avgPosted: posted.length > 0 ? parseFloat((posted.reduce((s, p) => s + p, 0) / posted.length).toFixed(2)) : null,
+          minPosted: posted.length > 0 ? Math.min(...posted) : null,
+          avgTraded: traded.length > 0 ? parseFloat((traded.reduce((s, p) => s + p, 0) / traded.length).toFixed(2)) : null,
+          cePrice: ce ? parseFloat(ce.price.toFixed(2)) : null,
+          trades: Number(rd.numTrades ?? 0),
+          ceQuantity: ce?.quantity ?? 0,
+          efficiency: Number(rd.efficiency ?? 0),
+        };
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Posted prices vs CE */}
+      {roundData.length > 0 && (
+        <ChartCard title="Posted Prices vs Competitive Equilibrium" description="Posted-offer markets typically converge to CE from above, slower than double auctions">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              <Line type="monotone" dataKey="avgPosted" name="Avg Posted" stroke={CHART_COLORS[1]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="monotone" dataKey="minPosted" name="Min Posted" stroke={CHART_COLORS[7]} strokeWidth={1} dot={{ r: 3 }} connectNulls />
+              <Line type="monotone" dataKey="avgTraded" name="Avg Trade Price" stroke={CHART_COLORS[0]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="stepAfter" dataKey="cePrice" name="CE Price" stroke="#ef4444" strokeWidth={2} dot={false} strokeDasharray="5 5" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Volume */}
+      {roundData.length > 0 && (
+        <ChartCard title="Trades vs CE Quantity" description="Units traded each round against the competitive quantity">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="ceQuantity" name="CE Quantity" fill="#e5e7eb" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="trades" name="Traded" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Efficiency */}
+      {roundData.length > 0 && (
+        <ChartCard title="Market Efficiency" description="Realized surplus as a share of maximum possible surplus">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <ReferenceLine y={100} stroke="#10b981" strokeDasharray="5 5" />
+              <Line type="monotone" dataKey="efficiency" name="Efficiency" stroke={CHART_COLORS[2]} strokeWidth={2} dot={{ r: 4 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default PostedOfferAnalytics;
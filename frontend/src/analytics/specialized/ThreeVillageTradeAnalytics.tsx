@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const VILLAGES = [1, 2, 3];
+
+const ThreeVillageTradeAnalytics: React.FC<AnalyticsProps> = ({ completedRounds }) => {
+  // Per-village averages of earnings and production allocation, plus trade counts
+  const roundData = useMemo(() => {
+    return completedRounds
+      .filter(round => (round.results || []).length > 0)
+      .map(round => {
+        const results = round.results || [];
+        const row: Record<string, number | null> = { round: round.roundNumber };
+        for (const v of VILLAGES) {
+          const members = results.filter(r => Number(r.resultData?.village) === v);
+          const avg = (xs: number[]) => xs.length > 0 ? parseFloat((xs.reduce((s, x) => s + x, 0) / xs.length).toFixed(2)) : null;
+          row[`earnings${v}`] = avg(members.map(r => Number(r.resultData?.earnings ?? r.profit ?? 0)));
+          row[`allocation${v}`] = avg(members.map(r => Number(r.resultData?.allocation ?? 0)));
+        }
+        // Every trade is reported by both of its parties
+        const trades = results.reduce((s, r) => s + Number(r.resultData?.tradesCompleted ?? 0), 0) / 2;
+        const interVillage = results.reduce((s, r) => s + Number(r.resultData?.interVillageTrades ?? 0), 0) / 2;
+        row.localTrades = trades - interVillage;
+        row.interVillageTrades = interVillage;
+        return row;
+      });
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Earnings by village */}
+      {roundData.length > 0 && (
+        <ChartCard title="Average Earnings by Village" description="Earnings rise once villages specialize and long-distance trade brings in the import good">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Legend />
+              {VILLAGES.map((v, i) => (
+                <Line key={v} type="monotone" dataKey={`earnings${v}`} name={`Village ${v}`} stroke={CHART_COLORS[i]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Production allocation */}
+      {roundData.length > 0 && (
+        <ChartCard title="Production Allocation by Village" description="Average share of production time on the village's first good (50% = no specialization)">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <Legend />
+              {VILLAGES.map((v, i) => (
+                <Line key={v} type="monotone" dataKey={`allocation${v}`} name={`Village ${v}`} stroke={CHART_COLORS[i]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Trades */}
+      {roundData.length > 0 && (
+        <ChartCard title="Local vs Long-Distance Trades" description="Completed trades within a village vs between villages">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={roundData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="localTrades" stackId="trades" name="Within Village" fill={CHART_COLORS[0]} />
+              <Bar dataKey="interVillageTrades" stackId="trades" name="Between Villages" fill={CHART_COLORS[4]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default ThreeVillageTradeAnalytics;
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import { ChartCard } from '../../components/charts/ChartCard';
+import { CHART_COLORS, CHART_HEIGHT, CHART_MARGINS, formatDollar, formatPercentValue } from '../../components/charts/chartUtils';
+import type { AnalyticsProps } from '../AnalyticsRegistry';
+
+const ROLE_ORDER = ['smuggler', 'port_merchant', 'foreign_contact', 'harbor_watch'];
+
+const WoolExportPunishmentAnalytics: React.FC<AnalyticsProps> = ({ data, completedRounds }) => {
+  const punishmentLevel = data.session.gameConfig?.punishment_level || 'low';
+
+  // Group outcomes per round, counted once per group via the smuggler's result
+  const outcomeData = useMemo(() => {
+    return completedRounds
+      .filter(round => (round.results || []).length > 0)
+      .map(round => {
+        const groups = (round.results || []).filter(r => r.resultData?.role === 'smuggler');
+        const local = groups.filter(r => r.resultData?.outcome === 'Trade Locally').length;
+        const reported = groups.filter(r => r.resultData?.outcome === 'Smuggle - Reported').length;
+        const unreported = groups.filter(r => r.resultData?.outcome === 'Smuggle - Not Reported').length;
+        const smuggled = reported + unreported;
+        return {
+          round: round.roundNumber,
+          local,
+          reported,
+          unreported,
+          smuggleRate: groups.length > 0 ? parseFloat(((smuggled / groups.length) * 100).toFixed(1)) : null,
+          reportRate: smuggled > 0 ? parseFloat(((reported / smuggled) * 100).toFixed(1)) : null,
+        };
+      });
+  }, [completedRounds]);
+
+  // Average payoff by role across the session
+  const payoffData = useMemo(() => {
+    const totals: Record<string, { label: string; sum: number; count: number }> = {};
+    for (const round of completedRounds) {
+      for (const r of round.results || []) {
+        const role = r.resultData?.role;
+        if (!role) continue;
+        totals[role] ??= { label: r.resultData.roleLabel || role, sum: 0, count: 0 };
+        totals[role].sum += Number(r.resultData.payoff ?? r.profit ?? 0);
+        totals[role].count++;
+      }
+    }
+    return ROLE_ORDER
+      .filter(role => totals[role])
+      .map(role => ({
+        role: totals[role].label,
+        avgPayoff: parseFloat((totals[role].sum / totals[role].count).toFixed(2)),
+      }));
+  }, [completedRounds]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Outcomes per round */}
+      {outcomeData.length > 0 && (
+        <ChartCard title="Group Outcomes" description="Number of groups trading locally, smuggling unreported, and smuggling reported">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={outcomeData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="local" stackId="outcome" name="Trade Locally" fill={CHART_COLORS[2]} />
+              <Bar dataKey="unreported" stackId="outcome" name="Smuggle - Not Reported" fill={CHART_COLORS[1]} />
+              <Bar dataKey="reported" stackId="outcome" name="Smuggle - Reported" fill={CHART_COLORS[3]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Smuggling and reporting rates */}
+      {outcomeData.length > 0 && (
+        <ChartCard title="Smuggling and Reporting Rates" description={`Share of groups that smuggled, and share of smuggling the harbor watch reported (punishment: ${punishmentLevel})`}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={outcomeData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -2 }} />
+              <YAxis domain={[0, 100]} tickFormatter={formatPercentValue} />
+              <Tooltip formatter={formatPercentValue} />
+              <Legend />
+              <Line type="monotone" dataKey="smuggleRate" name="Smuggle Rate" stroke={CHART_COLORS[1]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+              <Line type="monotone" dataKey="reportRate" name="Report Rate" stroke={CHART_COLORS[3]} strokeWidth={2} dot={{ r: 4 }} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+
+      {/* Payoff by role */}
+      {payoffData.length > 0 && (
+        <ChartCard title="Average Payoff by Role" description="Mean payoff per round for each role across the session">
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={payoffData} margin={CHART_MARGINS}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="role" />
+              <YAxis tickFormatter={formatDollar} />
+              <Tooltip formatter={formatDollar} />
+              <Bar dataKey="avgPayoff" name="Avg Payoff" fill={CHART_COLORS[4]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default WoolExportPunishmentAnalytics;
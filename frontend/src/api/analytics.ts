@@ -0,0 +1,24 @@
+import apiClient from './client';
+import type { ApiResponse, SessionComparisonResult } from '../types';
+
+export interface CompareQuery {
+  sessionIds?: string[];
+  /** Only sessions carrying every one of these tags */
+  tags?: Record<string, string>;
+  /** Tag name to pool sessions by */
+  groupBy?: string;
+}
+
+export const analyticsApi = {
+  // Compare the signed-in instructor's sessions, pooled by tag
+  compare: async ({ sessionIds, tags, groupBy }: CompareQuery): Promise<SessionComparisonResult> => {
+    const params: Record<string, string> = {};
+    if (sessionIds?.length) params.sessionIds = sessionIds.join(',');
+    for (const [key, value] of Object.entries(tags || {})) {
+      if (value) params[`tag.${key}`] = value;
+    }
+    if (groupBy) params.groupBy = groupBy;
+    const response = await apiClient.get<ApiResponse<SessionComparisonResult>>('/analytics/compare', { params });
+    return response.data.data!;
+  },
+};
@@ -0,0 +1,37 @@
+import apiClient from './client';
+import type { Instructor, ApiResponse } from '../types';
+
+// apiClient attaches this as a Bearer token on every request
+const TOKEN_KEY = 'authToken';
+
+type AuthResult = { instructor: Instructor; token: string };
+
+export const authApi = {
+  // Create an instructor account and sign in
+  register: async (email: string, password: string, name?: string): Promise<Instructor> => {
+    const response = await apiClient.post<ApiResponse<AuthResult>>('/auth/register', { email, password, name });
+    const { instructor, token } = response.data.data!;
+    localStorage.setItem(TOKEN_KEY, token);
+    return instructor;
+  },
+
+  // Sign in with email + password
+  login: async (email: string, password: string): Promise<Instructor> => {
+    const response = await apiClient.post<ApiResponse<AuthResult>>('/auth/login', { email, password });
+    const { instructor, token } = response.data.data!;
+    localStorage.setItem(TOKEN_KEY, token);
+    return instructor;
+  },
+
+  // Get the signed-in instructor
+  me: async (): Promise<Instructor> => {
+    const response = await apiClient.get<ApiResponse<Instructor>>('/auth/me');
+    return response.data.data!;
+  },
+
+  getToken: (): string | null => localStorage.getItem(TOKEN_KEY),
+
+  logout: (): void => {
+    localStorage.removeItem(TOKEN_KEY);
+  },
+};
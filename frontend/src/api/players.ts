@@ -1,26 +1,51 @@
 import apiClient from './client';
-import type { Player, Session, ApiResponse } from '../types';
+import type { Player, Session, JoinRequest, ApiResponse } from '../types';
+
+// Proves to the server that the player records asked for are this browser's own
+const playerTokenHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem('playerToken');
+  return token ? { 'x-player-token': token } : {};
+};
+
+type JoinedSession = Pick<Session, 'id' | 'code' | 'status'>;
+type JoinRequestStatus = Pick<JoinRequest, 'id' | 'status'>;
+type JoinResult =
+  | { player: Player; token: string; session: JoinedSession; request?: undefined }
+  | { request: JoinRequestStatus; pollSecret: string; session: JoinedSession; player?: undefined; token?: undefined };
 
 export const playersApi = {
   // Join session
-  join: async (code: string, name?: string, passcode?: string): Promise<{ player: Player; session: Pick<Session, 'id' | 'code' | 'status'> }> => {
-    const response = await apiClient.post<ApiResponse<{ player: Player; session: Pick<Session, 'id' | 'code' | 'status'> }>>(
+  // Returns a signed player token the socket needs before it will accept actions.
+  // Sessions already running return a pending request instead of a player.
+  join: async (code: string, name?: string, passcode?: string): Promise<JoinResult> => {
+    const response = await apiClient.post<ApiResponse<JoinResult>>(
       '/players/join',
       { code, name, passcode }
     );
     return response.data.data!;
   },
 
+  // Check on a late-join request with the secret it came with; the player and
+  // token arrive once approved, and only on the first check after that
+  getJoinRequest: async (id: string, pollSecret: string): Promise<{ request: JoinRequestStatus; player?: Player; token?: string; session?: JoinedSession }> => {
+    const response = await apiClient.get<ApiResponse<{ request: JoinRequestStatus; player?: Player; token?: string; session?: JoinedSession }>>(
+      `/players/join-requests/${id}`,
+      { headers: { 'x-join-secret': pollSecret } }
+    );
+    return response.data.data!;
+  },
+
   // Get player info
   getById: async (id: string): Promise<Player> => {
-    const response = await apiClient.get<ApiResponse<Player>>(`/players/${id}`);
+    const response = await apiClient.get<ApiResponse<Player>>(`/players/${id}`, { headers: playerTokenHeaders() });
     return response.data.data!;
   },
 
   // Get player status
   getStatus: async (id: string): Promise<{ player: Player; session: Session }> => {
     const response = await apiClient.get<ApiResponse<{ player: Player; session: Session }>>(
-      `/players/${id}/status`
+      `/players/${id}/status`,
+      { headers: playerTokenHeaders() }
     );
     return response.data.data!;
   },
@@ -1,5 +1,6 @@
 import apiClient from './client';
-import type { Session, CreateSessionData, Player, Round, GameTypeConfig, ApiResponse } from '../types';
+import type { Session, CreateSessionData, Player, Round, GameTypeConfig, JoinRequest, PlayerPresence, ApiResponse } from '../types';
+import type { AnalyticsData } from '../hooks/useAnalyticsData';
 
 export const sessionsApi = {
   // Create new session
@@ -8,6 +9,12 @@ export const sessionsApi = {
     return response.data.data!;
   },
 
+  // Play a configuration through with bots only; returns results without saving a session
+  simulate: async (data: CreateSessionData): Promise<AnalyticsData> => {
+    const response = await apiClient.post<ApiResponse<AnalyticsData>>('/sessions/simulate', data);
+    return response.data.data!;
+  },
+
   // Get session by ID
   getById: async (id: string): Promise<Session> => {
     const response = await apiClient.get<ApiResponse<Session>>(`/sessions/${id}`);
@@ -33,7 +40,20 @@ export const sessionsApi = {
     }
   },
 
-  // Get all sessions
+  // Check the signed-in instructor owns a session (owned sessions ignore admin passwords)
+  verifyOwner: async (code: string): Promise<boolean> => {
+    try {
+      const response = await apiClient.post<ApiResponse<{ verified: boolean }>>(
+        `/sessions/code/${code}/verify-admin`,
+        {}
+      );
+      return response.data.data?.verified ?? false;
+    } catch {
+      return false;
+    }
+  },
+
+  // Get the signed-in instructor's sessions
   getAll: async (): Promise<Session[]> => {
     const response = await apiClient.get<ApiResponse<Session[]>>('/sessions');
     return response.data.data!;
@@ -53,9 +73,33 @@ export const sessionsApi = {
     await apiClient.post(`/sessions/${id}/end`, {}, { headers });
   },
 
-  // Get players for session
-  getPlayers: async (id: string): Promise<Player[]> => {
-    const response = await apiClient.get<ApiResponse<Player[]>>(`/sessions/${id}/players`);
+  // Students waiting to join a session that has already started
+  getJoinRequests: async (id: string, adminPassword?: string): Promise<JoinRequest[]> => {
+    const headers: Record<string, string> = {};
+    if (adminPassword) headers['x-admin-password'] = adminPassword;
+    const response = await apiClient.get<ApiResponse<JoinRequest[]>>(`/sessions/${id}/join-requests`, { headers });
+    return response.data.data!;
+  },
+
+  // Get which players are connected right now (admin only)
+  getPresence: async (id: string, adminPassword?: string): Promise<PlayerPresence[]> => {
+    const headers: Record<string, string> = {};
+    if (adminPassword) headers['x-admin-password'] = adminPassword;
+    const response = await apiClient.get<ApiResponse<PlayerPresence[]>>(`/sessions/${id}/presence`, { headers });
+    return response.data.data!;
+  },
+
+  // Replace a session's tags (course, section, semester, treatment, ...)
+  updateTags: async (id: string, tags: Record<string, string>): Promise<Record<string, string>> => {
+    const response = await apiClient.patch<ApiResponse<{ tags: Record<string, string> }>>(`/sessions/${id}/tags`, { tags });
+    return response.data.data!.tags;
+  },
+
+  // Get players for session (without admin access: no ids or values)
+  getPlayers: async (id: string, adminPassword?: string): Promise<Player[]> => {
+    const headers: Record<string, string> = {};
+    if (adminPassword) headers['x-admin-password'] = adminPassword;
+    const response = await apiClient.get<ApiResponse<Player[]>>(`/sessions/${id}/players`, { headers });
     return response.data.data!;
   },
 
@@ -86,18 +130,34 @@ export const sessionsApi = {
     await apiClient.delete(`/sessions/${id}`, { headers });
   },
 
-  // Delete all sessions (requires confirmation header)
+  // Delete all of the signed-in instructor's sessions (requires confirmation header)
   deleteAll: async (): Promise<void> => {
     await apiClient.delete('/sessions', {
       headers: { 'x-confirm-delete-all': 'true' },
     });
   },
 
-  // Get CSV export URL (with admin password as query param for download links)
-  getExportUrl: (id: string, type: string, adminPassword?: string): string => {
-    const baseUrl = apiClient.defaults.baseURL || '';
-    const params = new URLSearchParams({ type });
-    if (adminPassword) params.set('admin_password', adminPassword);
-    return `${baseUrl}/sessions/${id}/export?${params.toString()}`;
+  // Download a CSV export. Fetched through apiClient (rather than a plain link)
+  // so the instructor token or admin password header goes along with it.
+  downloadExport: async (id: string, type: string, adminPassword?: string): Promise<Blob> => {
+    const headers: Record<string, string> = {};
+    if (adminPassword) headers['x-admin-password'] = adminPassword;
+    const response = await apiClient.get<Blob>(`/sessions/${id}/export`, {
+      params: { type },
+      headers,
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Download the full session as a JSON bundle or a zip with codebook (requires admin password)
+  downloadArchive: async (id: string, format: 'bundle' | 'zip', adminPassword?: string): Promise<Blob> => {
+    const headers: Record<string, string> = {};
+    if (adminPassword) headers['x-admin-password'] = adminPassword;
+    const response = await apiClient.get<Blob>(`/sessions/${id}/export/${format}`, {
+      headers,
+      responseType: 'blob',
+    });
+    return response.data;
   },
 };
@@ -116,3 +116,38 @@ export function computePerRoundProfits(
 
   return profitMap;
 }
+
+/** Formatter for values already expressed as percentages (e.g. 85.5 → "85.5%") */
+export const formatPercentValue = (v: unknown) => `${Number(v ?? 0)}%`;
+
+/**
+ * Competitive equilibrium of a single-unit market: demand from buyer values
+ * (descending) and supply from seller costs (ascending). Price is the midpoint
+ * of the marginal pair; null when no unit can trade.
+ */
+export function competitiveEquilibrium(
+  values: number[],
+  costs: number[]
+): { price: number; quantity: number; maxSurplus: number } | null {
+  const demand = [...values].sort((a, b) => b - a);
+  const supply = [...costs].sort((a, b) => a - b);
+
+  let quantity = 0;
+  let maxSurplus = 0;
+  while (quantity < Math.min(demand.length, supply.length) && demand[quantity] >= supply[quantity]) {
+    maxSurplus += demand[quantity] - supply[quantity];
+    quantity++;
+  }
+  if (quantity === 0) return null;
+
+  return { price: (demand[quantity - 1] + supply[quantity - 1]) / 2, quantity, maxSurplus };
+}
+
+/**
+ * A round's results for the players who took part. Simultaneous games also
+ * store a zero-profit row (`submitted: false`) for each player who didn't,
+ * which would otherwise count as a choice of zero.
+ */
+export function submittedResults<R extends { resultData?: Record<string, unknown> }>(round: { results?: R[] }): R[] {
+  return (round.results || []).filter(r => r.resultData?.submitted !== false);
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { AbsentPolicy } from '../../types';
+
+interface AbsentPolicyFieldsProps {
+  policy: AbsentPolicy;
+  graceSeconds: number;
+  onChange: (policy: AbsentPolicy, graceSeconds: number) => void;
+}
+
+const POLICY_OPTIONS: { value: AbsentPolicy; label: string }[] = [
+  { value: 'skip', label: 'Skip them — rounds stop waiting' },
+  { value: 'default_action', label: 'Play the default move (e.g. contribute 0)' },
+  { value: 'bot', label: 'Let a bot play their seat' },
+];
+
+/**
+ * What happens to a student who stays disconnected past the grace period.
+ * Games without a default move or a bot skip them instead.
+ */
+export const AbsentPolicyFields: React.FC<AbsentPolicyFieldsProps> = ({ policy, graceSeconds, onChange }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+    <div className="sm:col-span-2">
+      <label htmlFor="absent_policy" className="block text-sm font-medium text-gray-700 mb-1">
+        When a Player Drops Out
+      </label>
+      <select
+        id="absent_policy"
+        value={policy}
+        onChange={(e) => onChange(e.target.value as AbsentPolicy, graceSeconds)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+      >
+        {POLICY_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>{opt.label}</option>
+        ))}
+      </select>
+    </div>
+    <div>
+      <label htmlFor="absent_grace_seconds" className="block text-sm font-medium text-gray-700 mb-1">
+        Grace Period (s)
+      </label>
+      <input
+        id="absent_grace_seconds"
+        type="number"
+        min={5}
+        max={600}
+        value={graceSeconds}
+        onChange={(e) => onChange(policy, Number(e.target.value))}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+      />
+    </div>
+  </div>
+);
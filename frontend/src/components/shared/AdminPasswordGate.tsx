@@ -4,6 +4,7 @@ import { Input } from './Input';
 import { Button } from './Button';
 import { Spinner } from './Spinner';
 import { sessionsApi } from '../../api/sessions';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { Lock } from 'lucide-react';
 
 interface AdminPasswordGateProps {
@@ -12,7 +13,10 @@ interface AdminPasswordGateProps {
 }
 
 export const AdminPasswordGate: React.FC<AdminPasswordGateProps> = ({ sessionCode, children }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
   const [checking, setChecking] = useState(true);
+  const [ownerOnly, setOwnerOnly] = useState(false);
   const [needsPassword, setNeedsPassword] = useState(false);
   const [verified, setVerified] = useState(false);
   const [password, setPassword] = useState('');
@@ -30,6 +34,16 @@ export const AdminPasswordGate: React.FC<AdminPasswordGateProps> = ({ sessionCod
     try {
       const session = await sessionsApi.getByCode(sessionCode);
 
+      // Sessions owned by an instructor account: only the owner's login gets in
+      if (session.owner_id) {
+        setNeedsPassword(false);
+        const ok = await sessionsApi.verifyOwner(sessionCode);
+        setOwnerOnly(!ok);
+        setVerified(ok);
+        setChecking(false);
+        return;
+      }
+
       if (!session.has_admin_password) {
         // No admin password set — pass through
         setNeedsPassword(false);
@@ -87,6 +101,29 @@ export const AdminPasswordGate: React.FC<AdminPasswordGateProps> = ({ sessionCod
     );
   }
 
+  if (ownerOnly) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-sky-50 to-sky-100">
+        <div className="max-w-md w-full mx-4">
+          <Card title="Instructor Access Required">
+            <div className="flex items-center gap-2 mb-4 text-amber-700">
+              <Lock className="w-5 h-5" />
+              <span className="text-sm font-medium">
+                Only the instructor who created this session can open it.
+              </span>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => navigate(`/admin/login?next=${encodeURIComponent(location.pathname)}`)}
+            >
+              Sign In as Instructor
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   if (needsPassword && !verified) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-sky-50 to-sky-100">
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Card } from './Card';
+import { Button } from './Button';
+import type { JoinRequest, Player } from '../../types';
+
+interface LateJoinPanelProps {
+  requests: JoinRequest[];
+  players: Player[];
+  /** Whether the session still has an empty seat */
+  hasRoom: boolean;
+  /** playerId is the seat to take over, null for a new seat */
+  onApprove: (requestId: string, playerId: string | null) => void;
+  onReject: (requestId: string) => void;
+}
+
+const NEW_SEAT = 'new';
+
+/**
+ * Monitor panel for students who asked to join after the session started.
+ * The instructor picks where each one sits: an empty seat, a bot's seat, or
+ * the seat of a student who dropped out (the server refuses seats whose
+ * player is still connected). Taken-over seats keep their role and profit.
+ */
+export const LateJoinPanel: React.FC<LateJoinPanelProps> = ({ requests, players, hasRoom, onApprove, onReject }) => {
+  const [seats, setSeats] = useState<Record<string, string>>({});
+
+  const bots = players.filter((p) => p.is_bot);
+  const students = players.filter((p) => !p.is_bot);
+  const defaultSeat = hasRoom ? NEW_SEAT : (bots[0]?.id ?? students[0]?.id ?? '');
+  const seatLabel = (p: Player) => `${p.name || 'Anonymous'} (${p.role}, $${Number(p.total_profit).toFixed(2)})`;
+
+  return (
+    <Card title={`Waiting to Join (${requests.length})`} className="mb-6">
+      <div className="space-y-3">
+        {requests.map((request) => {
+          const seat = seats[request.id] ?? defaultSeat;
+          return (
+            <div key={request.id} className="flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium text-gray-800 w-40 truncate">{request.name || 'Anonymous'}</span>
+              <select
+                value={seat}
+                onChange={(e) => setSeats((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 flex-1 min-w-[12rem]"
+              >
+                {hasRoom && <option value={NEW_SEAT}>New seat</option>}
+                {bots.length > 0 && (
+                  <optgroup label="Replace a bot">
+                    {bots.map((p) => <option key={p.id} value={p.id}>{seatLabel(p)}</option>)}
+                  </optgroup>
+                )}
+                {students.length > 0 && (
+                  <optgroup label="Take over a disconnected student">
+                    {students.map((p) => <option key={p.id} value={p.id}>{seatLabel(p)}</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => onApprove(request.id, seat === NEW_SEAT ? null : seat)}
+                disabled={!seat}
+              >
+                <Check className="w-3.5 h-3.5 inline mr-1" />
+                Let In
+              </Button>
+              <Button type="button" variant="secondary" size="sm" onClick={() => onReject(request.id)}>
+                <X className="w-3.5 h-3.5 inline mr-1" />
+                Turn Away
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
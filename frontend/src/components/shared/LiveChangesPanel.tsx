@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Minus, Plus, X } from 'lucide-react';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Input } from './Input';
+import { ConfigFieldInput, type ConfigField } from './TreatmentBlocksEditor';
+import { configForRound } from '../../games/treatments';
+import type { Session } from '../../types';
+
+export interface LiveChangeRequest {
+  config: Record<string, unknown>;
+  roundDelta: number;
+  label?: string;
+  message?: string;
+}
+
+interface LiveChangesPanelProps {
+  session: Session;
+  /** Settings the instructor may change */
+  fields: ConfigField[];
+  onApply: (change: LiveChangeRequest) => void;
+}
+
+/**
+ * Monitor panel for changing settings between rounds. Changes take effect
+ * from the next round that has not started; the server validates them and
+ * tells players what changed.
+ */
+export const LiveChangesPanel: React.FC<LiveChangesPanelProps> = ({ session, fields, onApply }) => {
+  const [config, setConfig] = useState<Record<string, unknown>>({});
+  const [roundDelta, setRoundDelta] = useState(0);
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+
+  const nextRound = session.current_round + 1;
+  const current = configForRound(session, nextRound);
+  const unused = fields.filter((f) => !(f.name in config));
+  const fieldLabel = (name: string) => fields.find((f) => f.name === name)?.label ?? name;
+  const newTotal = session.num_rounds + roundDelta;
+  const hasChanges = Object.keys(config).length > 0 || roundDelta !== 0;
+
+  const reset = () => {
+    setConfig({});
+    setRoundDelta(0);
+    setLabel('');
+    setMessage('');
+  };
+
+  const apply = () => {
+    onApply({
+      config,
+      roundDelta,
+      label: label.trim() || undefined,
+      message: message.trim() || undefined,
+    });
+    reset();
+  };
+
+  return (
+    <Card title="Live Changes" className="mb-6">
+      <p className="text-sm text-gray-500 mb-4">
+        {nextRound <= session.num_rounds
+          ? `Changes apply from round ${nextRound}. Rounds already started keep their settings.`
+          : 'All rounds have started — add rounds to change settings.'}
+      </p>
+
+      <div className="space-y-3">
+        {Object.entries(config).map(([name, value]) => {
+          const field = fields.find((f) => f.name === name);
+          if (!field) return null;
+          return (
+            <div key={name} className="flex items-center gap-3">
+              <span className="text-sm text-gray-700 w-48 shrink-0">
+                {fieldLabel(name)}
+                <span className="block text-xs text-gray-400">now {JSON.stringify(current[name] ?? field.default)}</span>
+              </span>
+              <ConfigFieldInput
+                field={field}
+                value={value}
+                onChange={(v) => setConfig((prev) => ({ ...prev, [name]: v }))}
+              />
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => setConfig((prev) => {
+                  const rest = { ...prev };
+                  delete rest[name];
+                  return rest;
+                })}
+                aria-label={`Keep ${fieldLabel(name)} unchanged`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+
+        {unused.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const field = fields.find((f) => f.name === e.target.value);
+              if (!field) return;
+              setConfig((prev) => ({ ...prev, [field.name]: current[field.name] ?? field.default }));
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-600"
+          >
+            <option value="">Change a setting…</option>
+            {unused.map((f) => (
+              <option key={f.name} value={f.name}>{f.label}</option>
+            ))}
+          </select>
+        )}
+
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-700 w-48 shrink-0">Rounds</span>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => setRoundDelta((d) => d - 1)}
+            disabled={newTotal <= Math.max(1, session.current_round)}
+            aria-label="Remove a round"
+          >
+            <Minus className="w-3.5 h-3.5" />
+          </Button>
+          <span className="text-sm font-medium w-24 text-center">
+            {newTotal}
+            {roundDelta !== 0 && <span className="text-gray-400"> ({roundDelta > 0 ? '+' : ''}{roundDelta})</span>}
+          </span>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => setRoundDelta((d) => d + 1)}
+            aria-label="Add a round"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        {Object.keys(config).length > 0 && (
+          <Input
+            label="Label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={`Change from round ${nextRound}`}
+            maxLength={40}
+          />
+        )}
+        <Input
+          label="Message to players (optional)"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="e.g. A $5 tax on sellers starts next round"
+          maxLength={200}
+        />
+
+        <div className="flex gap-2">
+          <Button type="button" onClick={apply} disabled={!hasChanges}>
+            Apply Changes
+          </Button>
+          {hasChanges && (
+            <Button type="button" variant="secondary" onClick={reset}>
+              Discard
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
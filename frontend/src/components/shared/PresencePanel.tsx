@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Card } from './Card';
+import { Button } from './Button';
+import { AbsentPolicyFields } from './AbsentPolicyFields';
+import type { AbsentPolicy, Player, PlayerPresence, Session } from '../../types';
+
+interface PresencePanelProps {
+  session: Session;
+  players: Player[];
+  presence: Record<string, PlayerPresence>;
+  onPolicyChange: (policy: AbsentPolicy, graceSeconds: number) => void;
+}
+
+const STATUS_STYLES = {
+  connected: { label: 'Connected', className: 'bg-green-100 text-green-800' },
+  reconnecting: { label: 'Reconnecting', className: 'bg-amber-100 text-amber-800' },
+  away: { label: 'Away', className: 'bg-red-100 text-red-800' },
+  botPlaying: { label: 'Bot playing', className: 'bg-purple-100 text-purple-800' },
+  bot: { label: 'Bot', className: 'bg-gray-100 text-gray-600' },
+  notConnected: { label: 'Not connected', className: 'bg-gray-100 text-gray-500' },
+};
+
+function statusOf(player: Player, presence: PlayerPresence | undefined): keyof typeof STATUS_STYLES {
+  if (presence?.connected) return 'connected';
+  if (!presence) return player.is_bot ? 'bot' : 'notConnected';
+  if (player.is_bot) return 'botPlaying';
+  // Still active means the grace period hasn't run out
+  return player.is_active ? 'reconnecting' : 'away';
+}
+
+/**
+ * Monitor panel listing who has the market open. A student who disconnects
+ * shows as reconnecting for the grace period, then as away (or as a bot
+ * playing their seat) according to the session's absent-player setting,
+ * which the instructor can change here.
+ */
+export const PresencePanel: React.FC<PresencePanelProps> = ({ session, players, presence, onPolicyChange }) => {
+  const [draft, setDraft] = useState<{ policy: AbsentPolicy; graceSeconds: number } | null>(null);
+
+  const policy = draft?.policy ?? session.absent_policy ?? 'skip';
+  const graceSeconds = draft?.graceSeconds ?? session.absent_grace_seconds ?? 30;
+  const connectedCount = players.filter((p) => presence[p.id]?.connected).length;
+
+  return (
+    <Card title={`Presence (${connectedCount}/${players.length} connected)`} className="mb-6">
+      <div className="flex flex-wrap gap-2 mb-4">
+        {players.map((player) => {
+          const status = STATUS_STYLES[statusOf(player, presence[player.id])];
+          const since = presence[player.id]?.since;
+          return (
+            <span
+              key={player.id}
+              className={`px-2.5 py-1 rounded text-xs font-medium ${status.className}`}
+              title={since ? `${status.label} since ${new Date(since).toLocaleTimeString()}` : status.label}
+            >
+              {player.name || 'Anonymous'} &middot; {status.label}
+            </span>
+          );
+        })}
+      </div>
+      <AbsentPolicyFields
+        policy={policy}
+        graceSeconds={graceSeconds}
+        onChange={(nextPolicy, nextGrace) => setDraft({ policy: nextPolicy, graceSeconds: nextGrace })}
+      />
+      {draft && (
+        <div className="flex justify-end gap-2 mt-3">
+          <Button type="button" variant="secondary" size="sm" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => {
+              onPolicyChange(policy, graceSeconds);
+              setDraft(null);
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
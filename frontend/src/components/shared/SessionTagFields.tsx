@@ -0,0 +1,36 @@
+import React from 'react';
+import { Input } from './Input';
+
+// Tags offered for every session; the server accepts other keys too
+export const SESSION_TAG_KEYS = ['course', 'section', 'semester', 'treatment'] as const;
+
+const PLACEHOLDERS: Record<string, string> = {
+  course: 'e.g. ECON 101',
+  section: 'e.g. 002',
+  semester: 'e.g. Fall 2026',
+  treatment: 'e.g. high MPCR',
+};
+
+interface SessionTagFieldsProps {
+  tags: Record<string, string>;
+  onChange: (tags: Record<string, string>) => void;
+}
+
+/**
+ * Course / section / semester / treatment inputs used to label sessions
+ * for cross-session comparison.
+ */
+export const SessionTagFields: React.FC<SessionTagFieldsProps> = ({ tags, onChange }) => (
+  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+    {SESSION_TAG_KEYS.map((key) => (
+      <Input
+        key={key}
+        label={key.charAt(0).toUpperCase() + key.slice(1)}
+        value={tags[key] || ''}
+        onChange={(e) => onChange({ ...tags, [key]: e.target.value })}
+        placeholder={PLACEHOLDERS[key]}
+        maxLength={64}
+      />
+    ))}
+  </div>
+);
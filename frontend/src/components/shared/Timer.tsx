@@ -1,13 +1,24 @@
 import React, { useEffect } from 'react';
 import { Clock } from 'lucide-react';
+import { useCountdown, type CountdownTarget } from '../../hooks/useCountdown';
 
 interface TimerProps {
-  seconds: number;
+  /** Deadline from the server's round clock */
+  deadline: CountdownTarget | null;
+  /** Server clock minus local clock (from useSocket) */
+  offsetMs: number;
+  /** Shown before the time, e.g. the phase name */
+  label?: string;
   /** Render as a fixed floating pill on mobile */
   floating?: boolean;
 }
 
-export const Timer: React.FC<TimerProps> = ({ seconds, floating = false }) => {
+/**
+ * Counts down to a server deadline, correcting for this device's clock, so
+ * every screen shows the same time left. Renders nothing once it reaches zero.
+ */
+export const Timer: React.FC<TimerProps> = ({ deadline, offsetMs, label, floating = false }) => {
+  const seconds = useCountdown(deadline, offsetMs);
   const minutes = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
 
@@ -21,8 +32,11 @@ export const Timer: React.FC<TimerProps> = ({ seconds, floating = false }) => {
     }
   }, [seconds]);
 
+  if (seconds <= 0) return null;
+
   const timerContent = (
     <>
+      {label && <span className="text-sm font-sans capitalize">{label}</span>}
       <Clock className="w-5 h-5" />
       <span>
         {minutes.toString().padStart(2, '0')}:{secs.toString().padStart(2, '0')}
@@ -0,0 +1,177 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import type { GameTypeConfig, Session, TreatmentBlock } from '../../types';
+
+export type ConfigField = GameTypeConfig['config']['configFields'][number];
+
+interface TreatmentBlocksEditorProps {
+  treatments: TreatmentBlock[];
+  onChange: (treatments: TreatmentBlock[]) => void;
+  /** Settings a block may change */
+  fields: ConfigField[];
+  /** Session's base game_config, used as the starting value of a new override */
+  baseConfig: Session['game_config'];
+  numRounds: number;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+/** Input for one engine config field's value */
+export const ConfigFieldInput: React.FC<{ field: ConfigField; value: unknown; onChange: (value: unknown) => void }> = ({ field, value, onChange }) => {
+  if (field.type === 'checkbox') {
+    return (
+      <input
+        type="checkbox"
+        checked={!!value}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4 rounded border-gray-300"
+      />
+    );
+  }
+  if (field.type === 'select' && field.options) {
+    return (
+      <select value={String(value)} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        {field.options.map((opt) => (
+          <option key={opt.value} value={opt.value}>{opt.label}</option>
+        ))}
+      </select>
+    );
+  }
+  if (field.type === 'textarea') {
+    return (
+      <textarea
+        value={String(value ?? '')}
+        onChange={(e) => onChange(e.target.value)}
+        rows={3}
+        className={`${inputClass} font-mono text-sm`}
+      />
+    );
+  }
+  return (
+    <input
+      type="number"
+      value={Number(value)}
+      onChange={(e) => onChange(Number(e.target.value))}
+      min={field.min}
+      max={field.max}
+      step="any"
+      className={inputClass}
+    />
+  );
+};
+
+/**
+ * Schedule of parameter changes within one session, e.g. "Tax" from round 6
+ * with taxAmount 5. Each block overrides the base settings until the next
+ * block starts.
+ */
+export const TreatmentBlocksEditor: React.FC<TreatmentBlocksEditorProps> = ({
+  treatments,
+  onChange,
+  fields,
+  baseConfig,
+  numRounds,
+}) => {
+  const update = (index: number, changes: Partial<TreatmentBlock>) => {
+    onChange(treatments.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  };
+
+  const addBlock = () => {
+    const lastStart = treatments.reduce((max, b) => Math.max(max, b.startRound), 1);
+    const startRound = Math.min(numRounds, lastStart + Math.max(1, Math.floor(numRounds / 2)));
+    onChange([...treatments, { label: `Treatment ${treatments.length + 1}`, startRound, overrides: {} }]);
+  };
+
+  const fieldLabel = (name: string) => fields.find((f) => f.name === name)?.label ?? name;
+
+  return (
+    <div className="space-y-3">
+      {treatments.map((block, index) => {
+        const unused = fields.filter((f) => !(f.name in block.overrides));
+        return (
+          <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-3">
+            <div className="flex items-end gap-3">
+              <Input
+                label="Label"
+                value={block.label}
+                onChange={(e) => update(index, { label: e.target.value })}
+                maxLength={40}
+              />
+              <Input
+                label="From Round"
+                type="number"
+                value={block.startRound}
+                onChange={(e) => update(index, { startRound: Number(e.target.value) })}
+                min={1}
+                max={numRounds}
+              />
+              <Button
+                type="button"
+                variant="danger"
+                size="sm"
+                onClick={() => onChange(treatments.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+
+            {Object.entries(block.overrides).map(([name, value]) => {
+              const field = fields.find((f) => f.name === name);
+              return (
+                <div key={name} className="flex items-center gap-3">
+                  <span className="text-sm text-gray-700 w-48 shrink-0">{fieldLabel(name)}</span>
+                  {field ? (
+                    <ConfigFieldInput
+                      field={field}
+                      value={value}
+                      onChange={(v) => update(index, { overrides: { ...block.overrides, [name]: v } })}
+                    />
+                  ) : (
+                    <span className="text-sm font-mono">{JSON.stringify(value)}</span>
+                  )}
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-red-600"
+                    onClick={() => {
+                      const rest = { ...block.overrides };
+                      delete rest[name];
+                      update(index, { overrides: rest });
+                    }}
+                    aria-label={`Stop overriding ${fieldLabel(name)}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+
+            {unused.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const field = fields.find((f) => f.name === e.target.value);
+                  if (!field) return;
+                  const start = baseConfig[field.name] ?? field.default;
+                  update(index, { overrides: { ...block.overrides, [field.name]: start } });
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-600"
+              >
+                <option value="">Change a setting…</option>
+                {unused.map((f) => (
+                  <option key={f.name} value={f.name}>{f.label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="secondary" size="sm" onClick={addBlock}>
+        <Plus className="w-3.5 h-3.5 inline mr-1" />
+        Add Treatment Block
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '../../components/shared/Card';
+import { Clock } from 'lucide-react';
+import type { Session } from '../../types';
+import type { GameUIProps } from '../GameUIRegistry';
+
+interface CallMarketBannerProps {
+  session: Session;
+  onEvent: GameUIProps['onEvent'];
+}
+
+/**
+ * Explains call-market rounds (orders wait and clear together at one price)
+ * and shows the last clearing. Renders nothing in continuous mode.
+ */
+export const CallMarketBanner: React.FC<CallMarketBannerProps> = ({ session, onEvent }) => {
+  const config = session.game_config || {};
+  const isCall = config.marketMode === 'call';
+  const interval = Number(config.callInterval) || 30;
+  const [lastClear, setLastClear] = useState<{ price: number | null; volume: number } | null>(null);
+
+  useEffect(() => {
+    if (!isCall) return;
+    return onEvent('call-cleared', (data: { price: number | null; volume: number }) => {
+      setLastClear({ price: data.price, volume: data.volume });
+    });
+  }, [isCall, onEvent]);
+
+  if (!isCall) return null;
+
+  return (
+    <Card>
+      <div className="text-center">
+        <div className="flex items-center justify-center gap-2 mb-1">
+          <Clock className="w-4 h-4 text-indigo-600" />
+          <span className="text-sm font-semibold text-indigo-700">Call Market</span>
+        </div>
+        <p className="text-xs text-gray-500">
+          Orders wait in the book and clear together at one price every {interval}s and at the end of the round.
+        </p>
+        {lastClear && (
+          <p className="text-xs text-gray-600 mt-1">
+            {lastClear.price != null
+              ? `Last call: ${lastClear.volume} unit${lastClear.volume !== 1 ? 's' : ''} at $${lastClear.price.toFixed(2)}`
+              : 'Last call: no orders crossed'}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -3,6 +3,10 @@ import { Card } from '../../components/shared/Card';
 import { Button } from '../../components/shared/Button';
 import { Input } from '../../components/shared/Input';
 import type { DAGameUIProps } from '../GameUIRegistry';
+import { getUnitProgress } from './units';
+import { UnitSchedule } from './UnitSchedule';
+import { CallMarketBanner } from './CallMarketBanner';
+import { StandingOrder } from './StandingOrder';
 import { ArrowUpCircle, ArrowDownCircle, TrendingUp, DollarSign } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -20,13 +24,18 @@ const DoubleAuctionUI: React.FC<DAGameUIProps> = ({
   trades,
   submitBid,
   submitAsk,
+  submitAction,
+  session,
+  onEvent,
 }) => {
   const [price, setPrice] = useState('');
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
   const isBuyer = player?.role === 'buyer';
-  const privateValue = isBuyer ? player?.valuation : player?.production_cost;
+  // Multi-unit traders price the unit they are on; the headline value covers single-unit sessions
+  const units = getUnitProgress(player, trades);
+  const privateValue = units.currentValue ?? (isBuyer ? player?.valuation : player?.production_cost);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -58,6 +67,8 @@ const DoubleAuctionUI: React.FC<DAGameUIProps> = ({
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
       {/* Left: Player Info & Submit */}
       <div className="space-y-3 md:space-y-4">
+        <CallMarketBanner session={session} onEvent={onEvent} />
+
         {/* Private Value */}
         <Card>
           <div className="text-center">
@@ -70,6 +81,7 @@ const DoubleAuctionUI: React.FC<DAGameUIProps> = ({
                 ? 'Max you should pay'
                 : 'Min you should accept'}
             </p>
+            <UnitSchedule progress={units} isBuyer={isBuyer} />
           </div>
         </Card>
 
@@ -100,6 +112,12 @@ const DoubleAuctionUI: React.FC<DAGameUIProps> = ({
               >
                 {submitting ? 'Submitting...' : `Submit ${isBuyer ? 'Bid' : 'Ask'}`}
               </Button>
+              <StandingOrder
+                orders={isBuyer ? bids : asks}
+                playerId={playerId}
+                isBuyer={isBuyer}
+                onCancel={() => submitAction({ type: 'cancel' })}
+              />
             </form>
           ) : (
             <p className="text-center text-gray-500 py-4">
@@ -3,6 +3,10 @@ import { Card } from '../../components/shared/Card';
 import { Button } from '../../components/shared/Button';
 import { Input } from '../../components/shared/Input';
 import type { DAGameUIProps } from '../GameUIRegistry';
+import { getUnitProgress } from './units';
+import { UnitSchedule } from './UnitSchedule';
+import { CallMarketBanner } from './CallMarketBanner';
+import { StandingOrder } from './StandingOrder';
 import { ArrowUpCircle, ArrowDownCircle, TrendingUp, DollarSign, ShieldAlert } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -21,13 +25,17 @@ const PriceControlsUI: React.FC<DAGameUIProps> = ({
   trades,
   submitBid,
   submitAsk,
+  submitAction,
+  onEvent,
 }) => {
   const [price, setPrice] = useState('');
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
   const isBuyer = player?.role === 'buyer';
-  const privateValue = isBuyer ? player?.valuation : player?.production_cost;
+  // Multi-unit traders price the unit they are on; the headline value covers single-unit sessions
+  const units = getUnitProgress(player, trades);
+  const privateValue = units.currentValue ?? (isBuyer ? player?.valuation : player?.production_cost);
 
   // Get price control config
   const gameConfig = session?.game_config || {};
@@ -77,6 +85,8 @@ const PriceControlsUI: React.FC<DAGameUIProps> = ({
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
       {/* Left: Player Info & Submit */}
       <div className="space-y-3 md:space-y-4">
+        <CallMarketBanner session={session} onEvent={onEvent} />
+
         {/* Price Control Banner */}
         <Card>
           <div className={`text-center p-2 rounded-lg ${isCeiling ? 'bg-red-50' : 'bg-blue-50'}`}>
@@ -105,6 +115,7 @@ const PriceControlsUI: React.FC<DAGameUIProps> = ({
             <p className="text-xs text-gray-400 mt-1">
               {isBuyer ? 'Max you should pay' : 'Min you should accept'}
             </p>
+            <UnitSchedule progress={units} isBuyer={isBuyer} />
           </div>
         </Card>
 
@@ -133,6 +144,12 @@ const PriceControlsUI: React.FC<DAGameUIProps> = ({
               <Button type="submit" className="w-full" disabled={submitting || !price}>
                 {submitting ? 'Submitting...' : `Submit ${isBuyer ? 'Bid' : 'Ask'}`}
               </Button>
+              <StandingOrder
+                orders={isBuyer ? bids : asks}
+                playerId={playerId}
+                isBuyer={isBuyer}
+                onCancel={() => submitAction({ type: 'cancel' })}
+              />
             </form>
           ) : (
             <p className="text-center text-gray-500 py-4">Waiting for round to start...</p>
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Button } from '../../components/shared/Button';
+import type { Bid, Ask } from '../../types';
+
+interface StandingOrderProps {
+  orders: (Bid | Ask)[];
+  playerId: string;
+  isBuyer: boolean;
+  onCancel: () => void;
+}
+
+/**
+ * The trader's own open bid/ask with a button to withdraw it.
+ * Renders nothing while they have no order in the book.
+ */
+export const StandingOrder: React.FC<StandingOrderProps> = ({ orders, playerId, isBuyer, onCancel }) => {
+  const mine = orders.find((o) => o.player_id === playerId);
+  if (!mine) return null;
+
+  return (
+    <div className="flex items-center justify-between bg-gray-50 border rounded px-3 py-2 mt-3 text-sm">
+      <span className="text-gray-600">
+        Your {isBuyer ? 'bid' : 'ask'}: <span className="font-mono font-medium">${Number(mine.price).toFixed(2)}</span>
+      </span>
+      <Button type="button" variant="secondary" size="sm" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+};
@@ -3,6 +3,10 @@ import { Card } from '../../components/shared/Card';
 import { Button } from '../../components/shared/Button';
 import { Input } from '../../components/shared/Input';
 import type { DAGameUIProps } from '../GameUIRegistry';
+import { getUnitProgress } from './units';
+import { UnitSchedule } from './UnitSchedule';
+import { CallMarketBanner } from './CallMarketBanner';
+import { StandingOrder } from './StandingOrder';
 import { ArrowUpCircle, ArrowDownCircle, TrendingUp, DollarSign, AlertTriangle } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -21,13 +25,17 @@ const TaxSubsidyUI: React.FC<DAGameUIProps> = ({
   trades,
   submitBid,
   submitAsk,
+  submitAction,
+  onEvent,
 }) => {
   const [price, setPrice] = useState('');
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
   const isBuyer = player?.role === 'buyer';
-  const privateValue = isBuyer ? player?.valuation : player?.production_cost;
+  // Multi-unit traders price the unit they are on; the headline value covers single-unit sessions
+  const units = getUnitProgress(player, trades);
+  const privateValue = units.currentValue ?? (isBuyer ? player?.valuation : player?.production_cost);
 
   // Get tax config from session
   const gameConfig = session?.game_config || {};
@@ -67,6 +75,8 @@ const TaxSubsidyUI: React.FC<DAGameUIProps> = ({
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
       {/* Left: Player Info & Submit */}
       <div className="space-y-3 md:space-y-4">
+        <CallMarketBanner session={session} onEvent={onEvent} />
+
         {/* Tax/Subsidy Banner */}
         <Card>
           <div className={`text-center p-2 rounded-lg ${isSubsidy ? 'bg-green-50' : 'bg-amber-50'}`}>
@@ -101,6 +111,7 @@ const TaxSubsidyUI: React.FC<DAGameUIProps> = ({
                 ? `Max you should pay${taxType === 'buyer' ? ` (before $${absAmount} ${taxLabel.toLowerCase()})` : ''}`
                 : `Min you should accept${taxType === 'seller' ? ` (before $${absAmount} ${taxLabel.toLowerCase()})` : ''}`}
             </p>
+            <UnitSchedule progress={units} isBuyer={isBuyer} />
           </div>
         </Card>
 
@@ -127,6 +138,12 @@ const TaxSubsidyUI: React.FC<DAGameUIProps> = ({
               <Button type="submit" className="w-full" disabled={submitting || !price}>
                 {submitting ? 'Submitting...' : `Submit ${isBuyer ? 'Bid' : 'Ask'}`}
               </Button>
+              <StandingOrder
+                orders={isBuyer ? bids : asks}
+                playerId={playerId}
+                isBuyer={isBuyer}
+                onCancel={() => submitAction({ type: 'cancel' })}
+              />
             </form>
           ) : (
             <p className="text-center text-gray-500 py-4">Waiting for round to start...</p>
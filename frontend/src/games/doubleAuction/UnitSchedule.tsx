@@ -0,0 +1,36 @@
+import React from 'react';
+import type { UnitProgress } from './units';
+
+/**
+ * Compact list of a multi-unit trader's schedule, marking traded units and the
+ * one their next order is for. Renders nothing for single-unit traders.
+ */
+export const UnitSchedule: React.FC<{ progress: UnitProgress; isBuyer: boolean }> = ({ progress, isBuyer }) => {
+  if (progress.values.length <= 1) return null;
+
+  return (
+    <div className="mt-3 border-t pt-2">
+      <p className="text-xs text-gray-500 mb-1">
+        Unit {Math.min(progress.traded + 1, progress.values.length)} of {progress.values.length}
+        {progress.currentValue == null && ' — all units traded'}
+      </p>
+      <div className="flex flex-wrap justify-center gap-1">
+        {progress.values.map((value, i) => (
+          <span
+            key={i}
+            className={`px-2 py-0.5 rounded text-xs font-mono ${
+              i < progress.traded
+                ? 'bg-gray-100 text-gray-400 line-through'
+                : i === progress.traded
+                  ? 'bg-sky-100 text-sky-800 font-semibold'
+                  : 'bg-gray-50 text-gray-600'
+            }`}
+            title={`Unit ${i + 1} ${isBuyer ? 'valuation' : 'cost'}`}
+          >
+            ${value.toFixed(2)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import type { Player, Trade } from '../../types';
+
+export interface UnitProgress {
+  /** Full schedule: declining valuations for buyers, rising costs for sellers */
+  values: number[];
+  traded: number;
+  /** Valuation/cost of the unit the next order is for, or null once all have traded */
+  currentValue: number | null;
+}
+
+/**
+ * Where the player is in their unit schedule this round. Units trade in
+ * order, so the number of this round's trades they were part of is the index.
+ * Players without a schedule (single-unit sessions) get their one value.
+ */
+export function getUnitProgress(player: Player | null, trades: Trade[]): UnitProgress {
+  if (!player) return { values: [], traded: 0, currentValue: null };
+  const isBuyer = player.role === 'buyer';
+  const single = isBuyer ? player.valuation : player.production_cost;
+  const schedule: unknown = player.game_data?.unitValues;
+  const values = Array.isArray(schedule) && schedule.length > 0
+    ? schedule.map(Number)
+    : single != null ? [Number(single)] : [];
+  const traded = trades.filter(t => (isBuyer ? t.buyer_id : t.seller_id) === player.id).length;
+  return { values, traded, currentValue: traded < values.length ? values[traded] : null };
+}
@@ -0,0 +1,33 @@
+/**
+ * Treatment blocks on the client: the same resolution the server applies,
+ * so game UIs show the parameters actually in force this round.
+ */
+
+import type { Session, TreatmentBlock } from '../types';
+
+export const BASELINE_LABEL = 'Baseline';
+
+/** The block in effect for a round, or null during the baseline */
+export function treatmentForRound(
+  treatments: TreatmentBlock[] | undefined,
+  roundNumber: number
+): TreatmentBlock | null {
+  let current: TreatmentBlock | null = null;
+  for (const block of treatments ?? []) {
+    if (block.startRound <= roundNumber && (!current || block.startRound > current.startRound)) {
+      current = block;
+    }
+  }
+  return current;
+}
+
+export function treatmentLabel(treatments: TreatmentBlock[] | undefined, roundNumber: number): string {
+  return treatmentForRound(treatments, roundNumber)?.label ?? BASELINE_LABEL;
+}
+
+/** A round's game_config: the base config with its block's overrides applied */
+export function configForRound(session: Pick<Session, 'game_config' | 'treatments'>, roundNumber: number): Session['game_config'] {
+  const base = session.game_config || {};
+  const block = treatmentForRound(session.treatments, roundNumber);
+  return block ? { ...base, ...block.overrides } : base;
+}
@@ -49,7 +49,32 @@ export interface AnalyticsData {
       profit: number;
       resultData: Record<string, any>;
     }>;
+    /** Efficiency and surplus breakdown (market games only) */
+    surplus?: {
+      realizedSurplus: number;
+      maxSurplus: number;
+      efficiency: number;
+      lostSurplus: number;
+      missedTradeLoss: number;
+      extraMarginalLoss: number;
+      tradedQuantity: number;
+      efficientQuantity: number;
+      competitivePrice: number | null;
+    } | null;
   }>;
+  /** Equilibrium predictions for the game (null when it has no benchmark) */
+  benchmarks: {
+    model: string;
+    predictions: Record<string, number>;
+    rounds?: Array<{
+      roundNumber: number;
+      price: number;
+      priceLow: number;
+      priceHigh: number;
+      quantity: number;
+      maxSurplus: number;
+    }>;
+  } | null;
   stats: {
     totalPlayers: number;
     completedRounds: number;
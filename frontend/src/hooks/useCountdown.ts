@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+/** A server deadline: `endsAt` while it runs, or the time left while paused */
+export interface CountdownTarget {
+  endsAt: number | null;
+  remainingMs: number | null;
+}
+
+/**
+ * Whole seconds left until a deadline set by the server. `offsetMs` is how
+ * far the server's clock runs ahead of this browser's, so every client
+ * reaches zero together however far off its own clock is.
+ */
+export function useCountdown(target: CountdownTarget | null | undefined, offsetMs: number): number {
+  const [now, setNow] = useState(() => Date.now());
+  const endsAt = target?.endsAt ?? null;
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  if (!target) return 0;
+  const frozen = Math.ceil((target.remainingMs ?? 0) / 1000);
+  if (endsAt === null) return frozen;
+  // `now` can be a tick behind a fresh deadline; never show more than the server sent
+  return Math.max(0, Math.min(frozen, Math.ceil((endsAt - (now + offsetMs)) / 1000)));
+}
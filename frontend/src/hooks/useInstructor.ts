@@ -0,0 +1,44 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { authApi } from '../api/auth';
+import type { Instructor } from '../types';
+
+/**
+ * Loads the signed-in instructor for instructor-only pages.
+ * Sends the user to the login page (and back here afterwards) when there is
+ * no token or the server no longer accepts it.
+ */
+export function useInstructor() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [instructor, setInstructor] = useState<Instructor | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const toLogin = useCallback(() => {
+    navigate(`/admin/login?next=${encodeURIComponent(location.pathname)}`, { replace: true });
+  }, [navigate, location.pathname]);
+
+  useEffect(() => {
+    if (!authApi.getToken()) {
+      toLogin();
+      return;
+    }
+
+    authApi.me()
+      .then(setInstructor)
+      .catch((err) => {
+        if (err.response?.status === 401) {
+          authApi.logout();
+          toLogin();
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [toLogin]);
+
+  const logout = useCallback(() => {
+    authApi.logout();
+    navigate('/admin/login');
+  }, [navigate]);
+
+  return { instructor, loading, logout };
+}
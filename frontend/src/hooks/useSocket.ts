@@ -3,14 +3,47 @@ import { io, Socket } from 'socket.io-client';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 
-export function useSocket(sessionCode: string, playerId: string) {
+// Round trips used to estimate the server clock offset; the fastest one wins
+const CLOCK_SYNC_SAMPLES = 3;
+
+/**
+ * Estimate how far the server's clock runs ahead of this browser's. Half the
+ * round trip is assumed to be the trip back, so the shortest trip gives the
+ * tightest estimate.
+ */
+function syncClock(socket: Socket, onOffset: (offsetMs: number) => void) {
+  let bestRtt = Infinity;
+  const sample = (left: number) => {
+    const sentAt = Date.now();
+    socket.emit('clock-sync', (serverNow: number) => {
+      const receivedAt = Date.now();
+      const rtt = receivedAt - sentAt;
+      if (rtt < bestRtt) {
+        bestRtt = rtt;
+        onOffset(serverNow + rtt / 2 - receivedAt);
+      }
+      if (left > 1) sample(left - 1);
+    });
+  };
+  sample(CLOCK_SYNC_SAMPLES);
+}
+
+/**
+ * `token` is the signed player token from joining; without it the socket only
+ * receives market broadcasts and the server rejects player actions.
+ */
+export function useSocket(sessionCode: string, playerId: string, token?: string) {
   const socketRef = useRef<Socket | null>(null);
   const [connected, setConnected] = useState(false);
+  // Server clock minus local clock, for counting down to server deadlines
+  const [serverOffsetMs, setServerOffsetMs] = useState(0);
 
   useEffect(() => {
     if (!sessionCode || !playerId) return;
 
     const socket = io(WS_URL, {
+      // Instructor login token, if any — lets the monitor run owned sessions
+      auth: { token: localStorage.getItem('authToken') || undefined },
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: 10,
@@ -24,7 +57,8 @@ export function useSocket(sessionCode: string, playerId: string) {
       setConnected(true);
       // Join session and market rooms
       socket.emit('join-session', { sessionCode, playerId });
-      socket.emit('join-market', { sessionCode, playerId });
+      socket.emit('join-market', { sessionCode, playerId, token });
+      syncClock(socket, setServerOffsetMs);
     });
 
     socket.on('disconnect', () => {
@@ -34,14 +68,14 @@ export function useSocket(sessionCode: string, playerId: string) {
     socket.on('reconnect', () => {
       // Re-join rooms on reconnect
       socket.emit('join-session', { sessionCode, playerId });
-      socket.emit('join-market', { sessionCode, playerId });
+      socket.emit('join-market', { sessionCode, playerId, token });
     });
 
     return () => {
       socket.disconnect();
       socketRef.current = null;
     };
-  }, [sessionCode, playerId]);
+  }, [sessionCode, playerId, token]);
 
   const submitBid = useCallback((roundId: string, price: number) => {
     socketRef.current?.emit('submit-bid', {
@@ -91,6 +125,7 @@ export function useSocket(sessionCode: string, playerId: string) {
   return {
     socket: socketRef.current,
     connected,
+    serverOffsetMs,
     submitBid,
     submitAsk,
     submitAction,
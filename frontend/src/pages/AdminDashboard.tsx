@@ -3,19 +3,25 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '../components/shared/Button';
 import { Card } from '../components/shared/Card';
 import { Spinner } from '../components/shared/Spinner';
+import { SessionTagFields } from '../components/shared/SessionTagFields';
 import { sessionsApi } from '../api/sessions';
+import { useInstructor } from '../hooks/useInstructor';
 import type { Session } from '../types';
-import { Plus, Users, Clock, ArrowLeft, Trash2, Gamepad2 } from 'lucide-react';
+import { Plus, Users, Clock, ArrowLeft, Trash2, Gamepad2, LogOut, Tag, GitCompare } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export const AdminDashboard: React.FC = () => {
   const navigate = useNavigate();
+  const { instructor, logout } = useInstructor();
   const [sessions, setSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editingTags, setEditingTags] = useState<{ id: string; tags: Record<string, string> } | null>(null);
 
+  // The session list is scoped to the signed-in instructor
   useEffect(() => {
-    loadSessions();
-  }, []);
+    if (instructor) loadSessions();
+  }, [instructor]);
 
   const loadSessions = async () => {
     try {
@@ -29,7 +35,7 @@ export const AdminDashboard: React.FC = () => {
   };
 
   const handleDeleteAll = async () => {
-    if (!window.confirm(`Delete all ${sessions.length} sessions? This cannot be undone.`)) return;
+    if (!window.confirm(`Delete all ${sessions.length} of your sessions? This cannot be undone.`)) return;
     try {
       await sessionsApi.deleteAll();
       setSessions([]);
@@ -43,8 +49,7 @@ export const AdminDashboard: React.FC = () => {
   const handleDelete = async (id: string, code: string) => {
     if (!window.confirm(`Delete session ${code}? This cannot be undone.`)) return;
     try {
-      const storedPw = localStorage.getItem(`admin_pw_${code}`) || undefined;
-      await sessionsApi.delete(id, storedPw);
+      await sessionsApi.delete(id);
       setSessions(prev => prev.filter(s => s.id !== id));
       toast.success(`Session ${code} deleted`);
     } catch (error) {
@@ -53,6 +58,23 @@ export const AdminDashboard: React.FC = () => {
     }
   };
 
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleSaveTags = async () => {
+    if (!editingTags) return;
+    try {
+      const tags = await sessionsApi.updateTags(editingTags.id, editingTags.tags);
+      setSessions(prev => prev.map(s => s.id === editingTags.id ? { ...s, tags } : s));
+      setEditingTags(null);
+      toast.success('Tags saved');
+    } catch (error) {
+      console.error('Failed to save tags:', error);
+      toast.error('Failed to save tags');
+    }
+  };
+
   const formatGameType = (gt: string) =>
     gt.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
 
@@ -76,8 +98,27 @@ export const AdminDashboard: React.FC = () => {
         </div>
 
         <div className="flex justify-between items-center mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
+            {instructor && (
+              <p className="text-sm text-gray-500 mt-1">
+                Signed in as {instructor.name || instructor.email}
+              </p>
+            )}
+          </div>
           <div className="flex gap-2">
+            <Button variant="secondary" onClick={logout}>
+              <LogOut className="w-4 h-4 inline mr-2" />
+              Sign Out
+            </Button>
+            <Button
+              variant="secondary"
+              disabled={selected.length < 2}
+              onClick={() => navigate(`/admin/compare?sessions=${selected.join(',')}`)}
+            >
+              <GitCompare className="w-4 h-4 inline mr-2" />
+              Compare{selected.length > 0 ? ` (${selected.length})` : ''}
+            </Button>
             {sessions.length > 0 && (
               <Button variant="danger" onClick={handleDeleteAll}>
                 <Trash2 className="w-4 h-4 inline mr-2" />
@@ -106,6 +147,13 @@ export const AdminDashboard: React.FC = () => {
                 <div className="flex justify-between items-start">
                   <div>
                     <div className="flex items-center gap-3 mb-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(session.id)}
+                        onChange={() => toggleSelected(session.id)}
+                        className="w-4 h-4 rounded border-gray-300"
+                        aria-label={`Select ${session.code} for comparison`}
+                      />
                       <span className="text-2xl font-mono font-bold">{session.code}</span>
                       <span className={`px-2 py-1 rounded text-sm font-medium ${getStatusColor(session.status)}`}>
                         {session.status}
@@ -125,14 +173,22 @@ export const AdminDashboard: React.FC = () => {
                         {session.num_rounds} rounds &times; {session.time_per_round}s
                       </span>
                     </div>
+                    {session.tags && Object.keys(session.tags).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {Object.entries(session.tags).map(([key, value]) => (
+                          <span key={key} className="px-2 py-0.5 rounded bg-sky-50 text-sky-700 text-xs">
+                            {key}: {value}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="flex gap-2">
                     {session.status === 'waiting' && (
                       <Button
                         size="sm"
                         onClick={async () => {
-                          const storedPw = localStorage.getItem(`admin_pw_${session.code}`) || undefined;
-                          await sessionsApi.start(session.id, storedPw);
+                          await sessionsApi.start(session.id);
                           loadSessions();
                         }}
                       >
@@ -146,6 +202,13 @@ export const AdminDashboard: React.FC = () => {
                     >
                       View
                     </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setEditingTags({ id: session.id, tags: { ...session.tags } })}
+                    >
+                      <Tag className="w-3.5 h-3.5" />
+                    </Button>
                     <Button
                       variant="danger"
                       size="sm"
@@ -155,6 +218,22 @@ export const AdminDashboard: React.FC = () => {
                     </Button>
                   </div>
                 </div>
+                {editingTags?.id === session.id && (
+                  <div className="mt-4 pt-4 border-t border-gray-100">
+                    <SessionTagFields
+                      tags={editingTags.tags}
+                      onChange={(tags) => setEditingTags({ id: session.id, tags })}
+                    />
+                    <div className="flex justify-end gap-2 mt-3">
+                      <Button variant="secondary" size="sm" onClick={() => setEditingTags(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleSaveTags}>
+                        Save Tags
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </Card>
             ))}
           </div>
@@ -10,6 +10,7 @@ import {
   ProfitDistributionChart,
   PlayerRankingChart,
   RoundSummaryChart,
+  GroupOutcomesChart,
 } from '../analytics/UniversalCharts';
 import { ArrowLeft, BarChart3, Users, RefreshCw } from 'lucide-react';
 import { AdminPasswordGate } from '../components/shared/AdminPasswordGate';
@@ -127,6 +128,7 @@ const AnalyticsContent: React.FC = () => {
                 <RoundSummaryChart data={data} completedRounds={completedRounds} />
                 <PlayerRankingChart data={data} completedRounds={completedRounds} />
                 <ProfitDistributionChart data={data} completedRounds={completedRounds} />
+                <GroupOutcomesChart data={data} completedRounds={completedRounds} />
               </div>
             </div>
 
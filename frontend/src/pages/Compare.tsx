@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+} from 'recharts';
+import { Card } from '../components/shared/Card';
+import { Button } from '../components/shared/Button';
+import { Spinner } from '../components/shared/Spinner';
+import { SESSION_TAG_KEYS } from '../components/shared/SessionTagFields';
+import { ChartCard } from '../components/charts/ChartCard';
+import { CHART_HEIGHT, CHART_MARGINS, getPlayerColor } from '../components/charts/chartUtils';
+import { analyticsApi } from '../api/analytics';
+import { useInstructor } from '../hooks/useInstructor';
+import type { SessionComparisonResult } from '../types';
+import { ArrowLeft } from 'lucide-react';
+
+const formatMetric = (v: number | undefined) => (v === undefined ? '—' : Number(v.toFixed(3)).toString());
+
+const formatGameType = (gt: string) =>
+  gt.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+/**
+ * Side-by-side and pooled comparison of the instructor's sessions, e.g.
+ * the same game run in two semesters or under two treatments.
+ */
+export const Compare: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { instructor } = useInstructor();
+  const [result, setResult] = useState<SessionComparisonResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [chosenMetric, setMetric] = useState('');
+
+  const sessionIds = useMemo(
+    () => (searchParams.get('sessions') || '').split(',').filter(Boolean),
+    [searchParams]
+  );
+  const groupBy = searchParams.get('groupBy') || '';
+
+  useEffect(() => {
+    if (!instructor) return;
+    analyticsApi.compare({ sessionIds, groupBy: groupBy || undefined })
+      .then(setResult)
+      .catch((err) => {
+        console.error('Failed to compare sessions:', err);
+        setResult(null);
+      })
+      .finally(() => setLoading(false));
+  }, [instructor, sessionIds, groupBy]);
+
+  // Every metric seen in any group, profit first
+  const metricNames = useMemo(() => {
+    const names = new Set<string>();
+    for (const group of result?.groups || []) Object.keys(group.metrics).forEach(m => names.add(m));
+    return [...names].sort((a, b) => (a === 'profit' ? -1 : b === 'profit' ? 1 : a.localeCompare(b)));
+  }, [result]);
+
+  // Fall back to the first metric when regrouping drops the chosen one
+  const metric = metricNames.includes(chosenMetric) ? chosenMetric : metricNames[0] || '';
+
+  const perRound = useMemo(() => {
+    if (!result || !metric) return [];
+    const byRound = new Map<number, Record<string, number>>();
+    for (const group of result.groups) {
+      for (const round of group.rounds) {
+        const value = round.metrics[metric];
+        if (!value) continue;
+        const row = byRound.get(round.roundNumber) || { round: round.roundNumber };
+        row[group.key] = value.mean;
+        byRound.set(round.roundNumber, row);
+      }
+    }
+    return [...byRound.values()].sort((a, b) => a.round - b.round);
+  }, [result, metric]);
+
+  const groupMeans = useMemo(
+    () => (result?.groups || [])
+      .filter(g => g.metrics[metric])
+      .map(g => ({ group: g.key, mean: g.metrics[metric].mean })),
+    [result, metric]
+  );
+
+  const setGroupBy = (value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set('groupBy', value);
+    else next.delete('groupBy');
+    setLoading(true);
+    setSearchParams(next);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Compare Sessions</h1>
+            {result && (
+              <p className="text-gray-600">
+                {result.sessions.length} sessions &middot; {result.gameTypes.map(formatGameType).join(', ')}
+              </p>
+            )}
+          </div>
+          <Button variant="secondary" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="w-4 h-4 inline mr-2" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        {!result ? (
+          <Card>
+            <p className="text-center text-gray-600 py-8">
+              Select at least two of your sessions on the dashboard to compare them.
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <div className="flex flex-wrap items-end gap-4">
+                <label className="text-sm font-medium text-gray-700">
+                  Pool by
+                  <select
+                    value={groupBy}
+                    onChange={(e) => setGroupBy(e.target.value)}
+                    className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">All sessions together</option>
+                    {SESSION_TAG_KEYS.map(key => (
+                      <option key={key} value={key}>{key.charAt(0).toUpperCase() + key.slice(1)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm font-medium text-gray-700">
+                  Metric
+                  <select
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value)}
+                    className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {metricNames.map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </label>
+              </div>
+            </Card>
+
+            <Card>
+              <h2 className="text-xl font-bold mb-4">Sessions</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Code</th>
+                      <th className="py-2 pr-4">Game</th>
+                      <th className="py-2 pr-4">Tags</th>
+                      <th className="py-2 pr-4 text-right">Players</th>
+                      <th className="py-2 pr-4 text-right">Rounds</th>
+                      <th className="py-2 pr-4 text-right">Profit</th>
+                      {metric && metric !== 'profit' && <th className="py-2 text-right">{metric}</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.sessions.map(s => (
+                      <tr key={s.id} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-mono font-bold">{s.code}</td>
+                        <td className="py-2 pr-4">{formatGameType(s.gameType)}</td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {Object.entries(s.tags).map(([k, v]) => `${k}: ${v}`).join(', ') || '—'}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{s.players}</td>
+                        <td className="py-2 pr-4 text-right">{s.completedRounds}</td>
+                        <td className="py-2 pr-4 text-right">{formatMetric(s.metrics.profit?.mean)}</td>
+                        {metric && metric !== 'profit' && (
+                          <td className="py-2 text-right">{formatMetric(s.metrics[metric]?.mean)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            <Card>
+              <h2 className="text-xl font-bold mb-4">Pooled Groups</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">{groupBy ? groupBy.charAt(0).toUpperCase() + groupBy.slice(1) : 'Group'}</th>
+                      <th className="py-2 pr-4 text-right">Sessions</th>
+                      <th className="py-2 pr-4 text-right">Players</th>
+                      <th className="py-2 pr-4 text-right">{metric || 'Mean'}</th>
+                      <th className="py-2 text-right">n</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.groups.map(g => (
+                      <tr key={g.key} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium">{g.key}</td>
+                        <td className="py-2 pr-4 text-right">{g.sessionIds.length}</td>
+                        <td className="py-2 pr-4 text-right">{g.players}</td>
+                        <td className="py-2 pr-4 text-right">{formatMetric(g.metrics[metric]?.mean)}</td>
+                        <td className="py-2 text-right">{g.metrics[metric]?.n ?? 0}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            {metric && (
+              <>
+                <ChartCard title={`${metric} by Round`} description="Group mean of the selected metric in each round">
+                  <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+                    <LineChart data={perRound} margin={CHART_MARGINS}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="round" label={{ value: 'Round', position: 'insideBottom', offset: -5 }} />
+                      <YAxis />
+                      <Tooltip formatter={(v) => formatMetric(Number(v))} />
+                      <Legend />
+                      {result.groups.map((g, i) => (
+                        <Line key={g.key} type="monotone" dataKey={g.key} stroke={getPlayerColor(i)} connectNulls dot />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </ChartCard>
+
+                <ChartCard title={`${metric} by Group`} description="Pooled over every completed round">
+                  <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+                    <BarChart data={groupMeans} margin={CHART_MARGINS}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="group" />
+                      <YAxis />
+                      <Tooltip formatter={(v) => formatMetric(Number(v))} />
+                      <Bar dataKey="mean" name={metric} fill={getPlayerColor(0)} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartCard>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,8 +3,15 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '../components/shared/Button';
 import { Input } from '../components/shared/Input';
 import { Card } from '../components/shared/Card';
+import { SessionTagFields } from '../components/shared/SessionTagFields';
+import { TreatmentBlocksEditor } from '../components/shared/TreatmentBlocksEditor';
+import { AbsentPolicyFields } from '../components/shared/AbsentPolicyFields';
+import { SimulationPreview } from '../analytics/SimulationPreview';
 import { sessionsApi } from '../api/sessions';
+import { useInstructor } from '../hooks/useInstructor';
+import type { AnalyticsData } from '../hooks/useAnalyticsData';
 import type { CreateSessionData, GameTypeConfig } from '../types';
+import { isAxiosError } from 'axios';
 import { ArrowLeft, ExternalLink } from 'lucide-react';
 import { gameInstructions } from '../games/gameInstructions';
 import toast from 'react-hot-toast';
@@ -118,7 +125,11 @@ const FALLBACK_GAME_TYPES: Array<{
 
 export const CreateSession: React.FC = () => {
   const navigate = useNavigate();
+  // New sessions are owned by the signed-in instructor
+  useInstructor();
   const [loading, setLoading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<AnalyticsData | null>(null);
   const [selectedGameType, setSelectedGameType] = useState('double_auction');
   const [gameTypes, setGameTypes] = useState<Array<{
     value: string;
@@ -143,6 +154,9 @@ export const CreateSession: React.FC = () => {
     cost_max: 55,
     cost_increments: 10,
     bot_enabled: false,
+    auto_advance: true,
+    absent_policy: 'skip',
+    absent_grace_seconds: 30,
   });
 
   // Fetch game types from backend (includes config fields with defaults)
@@ -181,6 +195,7 @@ export const CreateSession: React.FC = () => {
       }
     }
     setGameConfig(defaults);
+    setPreview(null);
     // Sync top-level session fields from game config defaults
     const topLevelOverrides: Record<string, any> = {};
     for (const key of ['market_size', 'num_rounds', 'time_per_round']) {
@@ -192,6 +207,8 @@ export const CreateSession: React.FC = () => {
       ...prev,
       game_type: gt,
       game_config: defaults,
+      // Blocks override this game's settings, so they don't carry over
+      treatments: [],
       ...topLevelOverrides,
     }));
   };
@@ -215,6 +232,23 @@ export const CreateSession: React.FC = () => {
     }
   };
 
+  // Play the current settings through with bots, without creating the session
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await sessionsApi.simulate({
+        ...formData,
+        game_config: gameConfig,
+      }));
+    } catch (err) {
+      console.error('Failed to simulate session:', err);
+      const serverError = isAxiosError(err) ? err.response?.data?.error : undefined;
+      toast.error(serverError || 'Failed to simulate session');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
     setFormData(prev => ({
@@ -407,6 +441,39 @@ export const CreateSession: React.FC = () => {
                   <h3 className="font-semibold mb-3">Variant Settings</h3>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     {variantFields.map((field: any) => {
+                      if (field.type === 'textarea') {
+                        return (
+                          <div key={field.name} className="col-span-full">
+                            <div className="flex items-center justify-between mb-1">
+                              <label className="block text-sm font-medium text-gray-700">
+                                {field.label}
+                              </label>
+                              <label className="text-xs text-sky-600 hover:text-sky-800 cursor-pointer">
+                                Load CSV…
+                                <input
+                                  type="file"
+                                  accept=".csv,.txt,text/csv,text/plain"
+                                  className="hidden"
+                                  onChange={async (e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleConfigChange(field.name, await file.text());
+                                    e.target.value = '';
+                                  }}
+                                />
+                              </label>
+                            </div>
+                            <textarea
+                              value={gameConfig[field.name] ?? field.default}
+                              onChange={(e) => handleConfigChange(field.name, e.target.value)}
+                              rows={4}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                            />
+                            {field.description && (
+                              <p className="text-xs text-gray-400 mt-0.5">{field.description}</p>
+                            )}
+                          </div>
+                        );
+                      }
                       if (field.type === 'select' && field.options) {
                         return (
                           <div key={field.name}>
@@ -537,6 +604,29 @@ export const CreateSession: React.FC = () => {
               </div>
             )}
 
+            {/* Treatment blocks: scheduled changes to the settings above */}
+            {selectedGame && (() => {
+              const treatmentFields = selectedGame.configFields.filter(
+                (f) => !['market_size', 'num_rounds', 'time_per_round'].includes(f.name)
+              );
+              if (treatmentFields.length === 0) return null;
+              return (
+                <div className="border-t pt-4">
+                  <h3 className="font-semibold mb-1">Treatment Blocks (Optional)</h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Change settings partway through, e.g. introduce a tax from round 6. Rounds before the first block use the settings above.
+                  </p>
+                  <TreatmentBlocksEditor
+                    treatments={formData.treatments || []}
+                    onChange={(treatments) => setFormData(prev => ({ ...prev, treatments }))}
+                    fields={treatmentFields}
+                    baseConfig={gameConfig}
+                    numRounds={formData.num_rounds}
+                  />
+                </div>
+              );
+            })()}
+
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
@@ -551,6 +641,36 @@ export const CreateSession: React.FC = () => {
               </label>
             </div>
 
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="auto_advance"
+                name="auto_advance"
+                checked={formData.auto_advance}
+                onChange={handleChange}
+                className="w-4 h-4 rounded border-gray-300"
+              />
+              <label htmlFor="auto_advance" className="text-sm">
+                Auto-advance — start the next round a few seconds after each one ends
+              </label>
+            </div>
+
+            <AbsentPolicyFields
+              policy={formData.absent_policy || 'skip'}
+              graceSeconds={formData.absent_grace_seconds ?? 30}
+              onChange={(absent_policy, absent_grace_seconds) =>
+                setFormData(prev => ({ ...prev, absent_policy, absent_grace_seconds }))}
+            />
+
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-1">Tags (Optional)</div>
+              <p className="text-xs text-gray-500 mb-2">Label the session to compare it with other sections and semesters later.</p>
+              <SessionTagFields
+                tags={formData.tags || {}}
+                onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+              />
+            </div>
+
             <Input
               label="Session Passcode (Optional)"
               name="passcode"
@@ -560,30 +680,29 @@ export const CreateSession: React.FC = () => {
               maxLength={20}
             />
 
-            <div>
-              <Input
-                label="Admin Password (Optional)"
-                name="admin_password"
-                value={formData.admin_password || ''}
-                onChange={handleChange}
-                placeholder="Protect monitor/analytics access"
-                maxLength={50}
-              />
-              <p className="text-xs text-gray-400 mt-1">
-                If set, only users with this password can view session monitor, analytics, and results.
-              </p>
-            </div>
-
             <div className="flex justify-end gap-3">
               <Button type="button" variant="secondary" onClick={() => navigate('/admin')}>
                 Cancel
               </Button>
+              <Button type="button" variant="secondary" onClick={handlePreview} disabled={previewing}>
+                {previewing ? 'Simulating...' : 'Preview with Bots'}
+              </Button>
               <Button type="submit" disabled={loading}>
                 {loading ? 'Creating...' : 'Create Session'}
               </Button>
             </div>
           </form>
         </Card>
+
+        {preview && (
+          <div className="mt-6">
+            <h2 className="text-lg font-semibold text-gray-800">Preview: Likely Outcomes</h2>
+            <p className="text-xs text-gray-500 mb-3">
+              One run of these settings with bots in every seat. Nothing was saved; students will play differently.
+            </p>
+            <SimulationPreview data={preview} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '../components/shared/Button';
+import { Input } from '../components/shared/Input';
+import { Card } from '../components/shared/Card';
+import { LandingScene } from '../components/LandingScene';
+import { authApi } from '../api/auth';
+import { ArrowLeft } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { isAxiosError } from 'axios';
+
+export const InstructorLogin: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Only follow same-site paths back after login
+  const next = searchParams.get('next');
+  const destination = next && next.startsWith('/') && !next.startsWith('//') ? next : '/admin';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (mode === 'register') {
+        await authApi.register(email, password, name || undefined);
+        toast.success('Account created');
+      } else {
+        await authApi.login(email, password);
+      }
+      navigate(destination, { replace: true });
+    } catch (err) {
+      const serverError = isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(serverError || (mode === 'register' ? 'Failed to create account' : 'Failed to sign in'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(m => (m === 'login' ? 'register' : 'login'));
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-start pt-[10vh] sm:pt-[12vh] relative overflow-hidden safe-top safe-bottom">
+      <LandingScene />
+      <div className="relative z-10 max-w-md w-full mx-4">
+        <Button
+          variant="secondary"
+          onClick={() => navigate('/')}
+          className="mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 inline mr-2" />
+          Back
+        </Button>
+
+        <Card title={mode === 'register' ? 'Create Instructor Account' : 'Instructor Sign In'}>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'register' && (
+              <Input
+                label="Name (Optional)"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Shown on your dashboard"
+                maxLength={100}
+              />
+            )}
+
+            <Input
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@university.edu"
+              required
+              autoFocus
+              autoComplete="email"
+            />
+
+            <Input
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={mode === 'register' ? 'At least 8 characters' : 'Enter your password'}
+              minLength={mode === 'register' ? 8 : undefined}
+              required
+              autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            />
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading || !email || !password}>
+              {loading
+                ? (mode === 'register' ? 'Creating account...' : 'Signing in...')
+                : (mode === 'register' ? 'Create Account' : 'Sign In')}
+            </Button>
+          </form>
+
+          <p className="text-sm text-center text-gray-500 mt-4">
+            {mode === 'register' ? 'Already have an account?' : 'New instructor?'}{' '}
+            <button type="button" onClick={toggleMode} className="text-sky-700 hover:underline">
+              {mode === 'register' ? 'Sign in' : 'Create an account'}
+            </button>
+          </p>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -6,8 +6,10 @@ import { Card } from '../components/shared/Card';
 import { LandingScene } from '../components/LandingScene';
 import { playersApi } from '../api/players';
 import { sessionsApi } from '../api/sessions';
+import { Spinner } from '../components/shared/Spinner';
 import { ArrowLeft, Lock } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { isAxiosError } from 'axios';
 
 export const JoinSession: React.FC = () => {
   const navigate = useNavigate();
@@ -19,6 +21,8 @@ export const JoinSession: React.FC = () => {
   const [checkingPasscode, setCheckingPasscode] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Set while a late-join request waits for the instructor
+  const [pendingRequest, setPendingRequest] = useState<{ id: string; pollSecret: string } | null>(null);
 
   // When user finishes entering the 6-char code, check if session needs a passcode
   useEffect(() => {
@@ -40,20 +44,56 @@ export const JoinSession: React.FC = () => {
     }
   }, [code]);
 
+  // Poll a late-join request until the instructor seats or turns us away
+  useEffect(() => {
+    if (!pendingRequest) return;
+    const interval = setInterval(async () => {
+      try {
+        const { request, player, token, session } = await playersApi.getJoinRequest(pendingRequest.id, pendingRequest.pollSecret);
+        if (request.status === 'rejected') {
+          setPendingRequest(null);
+          setError('The instructor did not let you join this session');
+        } else if (player && token && session) {
+          localStorage.setItem('playerId', player.id);
+          localStorage.setItem('playerToken', token);
+          localStorage.setItem('sessionCode', session.code);
+          toast.success('You are in!');
+          navigate(`/session/${session.code}/market`);
+        }
+      } catch (err) {
+        console.error('Failed to check join request:', err);
+        // The seat's token was already collected, e.g. from another tab
+        if (isAxiosError(err) && err.response?.status === 409) {
+          setPendingRequest(null);
+          setError(err.response.data?.error || 'This seat has already been handed over');
+        }
+      }
+    }, 3000);
+    return () => clearInterval(interval);
+  }, [pendingRequest, navigate]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      const { player, session } = await playersApi.join(
+      const joined = await playersApi.join(
         code.toUpperCase(),
         name || undefined,
         needsPasscode ? passcode : undefined,
       );
 
+      // The session has started: wait for the instructor to seat us
+      if (joined.request) {
+        setPendingRequest({ id: joined.request.id, pollSecret: joined.pollSecret });
+        return;
+      }
+      const { player, token, session } = joined;
+
       // Store player info
       localStorage.setItem('playerId', player.id);
+      localStorage.setItem('playerToken', token);
       localStorage.setItem('sessionCode', session.code);
 
       toast.success('Joined session successfully!');
@@ -80,54 +120,69 @@ export const JoinSession: React.FC = () => {
           Back
         </Button>
 
-        <Card title="Join Session">
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <Input
-              label="Session Code"
-              value={code}
-              onChange={(e) => setCode(e.target.value.toUpperCase())}
-              placeholder="Enter 6-character code"
-              maxLength={6}
-              required
-              autoFocus
-              autoComplete="off"
-              autoCapitalize="characters"
-            />
+        {pendingRequest ? (
+          <Card title="Waiting to Join">
+            <div className="flex flex-col items-center gap-4 py-4 text-center">
+              <Spinner />
+              <p className="text-gray-700">
+                Session <span className="font-mono font-semibold">{code}</span> has already started.
+                Your instructor will let you in shortly.
+              </p>
+              <Button variant="secondary" onClick={() => setPendingRequest(null)}>
+                Cancel
+              </Button>
+            </div>
+          </Card>
+        ) : (
+          <Card title="Join Session">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Session Code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="Enter 6-character code"
+                maxLength={6}
+                required
+                autoFocus
+                autoComplete="off"
+                autoCapitalize="characters"
+              />
 
-            <Input
-              label="Your Name (Optional)"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="Enter your name"
-            />
+              <Input
+                label="Your Name (Optional)"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Enter your name"
+              />
 
-            {needsPasscode && (
-              <div>
-                <div className="flex items-center gap-1.5 mb-1">
-                  <Lock className="w-3.5 h-3.5 text-amber-600" />
-                  <span className="text-sm font-medium text-amber-700">This session requires a passcode</span>
+              {needsPasscode && (
+                <div>
+                  <div className="flex items-center gap-1.5 mb-1">
+                    <Lock className="w-3.5 h-3.5 text-amber-600" />
+                    <span className="text-sm font-medium text-amber-700">This session requires a passcode</span>
+                  </div>
+                  <Input
+                    label="Passcode"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    placeholder="Enter session passcode"
+                    required
+                  />
                 </div>
-                <Input
-                  label="Passcode"
-                  value={passcode}
-                  onChange={(e) => setPasscode(e.target.value)}
-                  placeholder="Enter session passcode"
-                  required
-                />
-              </div>
-            )}
+              )}
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
-                {error}
-              </div>
-            )}
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                  {error}
+                </div>
+              )}
 
-            <Button type="submit" className="w-full" disabled={loading || code.length < 6 || checkingPasscode}>
-              {loading ? 'Joining...' : checkingPasscode ? 'Checking...' : 'Join Session'}
-            </Button>
-          </form>
-        </Card>
+              <Button type="submit" className="w-full" disabled={loading || code.length < 6 || checkingPasscode}>
+                {loading ? 'Joining...' : checkingPasscode ? 'Checking...' : 'Join Session'}
+              </Button>
+            </form>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -1,13 +1,15 @@
-import React, { useEffect, useState, useRef, useCallback, Suspense } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo, Suspense } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Timer } from '../components/shared/Timer';
 import { Spinner } from '../components/shared/Spinner';
 import { useSocket } from '../hooks/useSocket';
+import { useCountdown } from '../hooks/useCountdown';
 import { playersApi } from '../api/players';
 import { sessionsApi } from '../api/sessions';
 import { gameApi } from '../api/game';
 import { getGameUI } from '../games/GameUIRegistry';
-import type { Player, Session, Bid, Ask, Trade } from '../types';
+import { configForRound } from '../games/treatments';
+import type { Player, Session, Bid, Ask, Trade, SessionConfigUpdate, RoundClock } from '../types';
 import { GameInstructions } from '../components/shared/GameInstructions';
 import toast from 'react-hot-toast';
 
@@ -26,19 +28,21 @@ export const Market: React.FC = () => {
   const [roundId, setRoundId] = useState<string | null>(null);
   const [roundNumber, setRoundNumber] = useState(0);
   const [numRounds, setNumRounds] = useState(0);
-  const [timeRemaining, setTimeRemaining] = useState(0);
+  const [roundClock, setRoundClock] = useState<RoundClock | null>(null);
   const [roundActive, setRoundActive] = useState(false);
+  const [paused, setPaused] = useState(false);
 
   // DA-specific state (passed to DA game UIs)
   const [bids, setBids] = useState<Bid[]>([]);
   const [asks, setAsks] = useState<Ask[]>([]);
   const [trades, setTrades] = useState<Trade[]>([]);
 
-  // Local countdown timer ref
-  const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-
   const playerId = localStorage.getItem('playerId') || '';
-  const { connected, submitBid, submitAsk, submitAction: socketSubmitAction, requestGameState, onEvent } = useSocket(code || '', playerId);
+  const playerToken = localStorage.getItem('playerToken') || undefined;
+  const { connected, serverOffsetMs, submitBid, submitAsk, submitAction: socketSubmitAction, requestGameState, onEvent } = useSocket(code || '', playerId, playerToken);
+
+  // Seconds left by the server's round clock, for game UIs that show or use it
+  const timeRemaining = useCountdown(roundClock, serverOffsetMs);
 
   // Determine if current game is DA-based (for order book loading)
   const gameType = session?.game_type || 'double_auction';
@@ -91,13 +95,6 @@ export const Market: React.FC = () => {
         setRoundId(activeRound.id);
         setRoundActive(true);
         setRoundNumber(activeRound.round_number);
-
-        // Estimate remaining time
-        if (activeRound.started_at) {
-          const elapsed = Math.floor((Date.now() - new Date(activeRound.started_at).getTime()) / 1000);
-          const remaining = Math.max(0, fullSession.time_per_round - elapsed);
-          setTimeRemaining(remaining);
-        }
       } else {
         // No active round — find the most recent completed round so we can
         // request game state (needed for playerInfo on Discovery Process etc.)
@@ -120,11 +117,6 @@ export const Market: React.FC = () => {
                 setRoundId(retryActive.id);
                 setRoundActive(true);
                 setRoundNumber(retryActive.round_number);
-                if (retryActive.started_at) {
-                  const elapsed = Math.floor((Date.now() - new Date(retryActive.started_at).getTime()) / 1000);
-                  const remaining = Math.max(0, fullSession.time_per_round - elapsed);
-                  setTimeRemaining(remaining);
-                }
                 refreshPlayer();
               }
             }).catch(console.error);
@@ -150,11 +142,6 @@ export const Market: React.FC = () => {
     }
   }, [playerId]);
 
-  // Keep a ref to session so socket handlers always have the latest value
-  // without requiring re-registration of event listeners.
-  const sessionRef = useRef(session);
-  sessionRef.current = session;
-
   // On (re)connect, recover the active round and request full game state.
   // This handles both initial page load recovery and mid-round socket reconnects.
   const prevConnectedRef = useRef(false);
@@ -190,43 +177,13 @@ export const Market: React.FC = () => {
     }
   }, [connected, roundId, requestGameState]);
 
-  // Generic action submission for non-DA games
+  // Generic action submission (non-DA games, and DA order cancels)
   const submitAction = (action: Record<string, any>) => {
     if (roundId) {
       socketSubmitAction(roundId, action);
     }
   };
 
-  // Local countdown timer
-  useEffect(() => {
-    if (timerIntervalRef.current) {
-      clearInterval(timerIntervalRef.current);
-      timerIntervalRef.current = null;
-    }
-
-    if (roundActive && timeRemaining > 0) {
-      timerIntervalRef.current = setInterval(() => {
-        setTimeRemaining(prev => {
-          if (prev <= 1) {
-            if (timerIntervalRef.current) {
-              clearInterval(timerIntervalRef.current);
-              timerIntervalRef.current = null;
-            }
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
-
-    return () => {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-        timerIntervalRef.current = null;
-      }
-    };
-  }, [roundActive, roundId]);
-
   // Socket event handlers
   useEffect(() => {
     if (!connected) return;
@@ -235,11 +192,24 @@ export const Market: React.FC = () => {
 
     // DA-specific events
     cleanups.push(onEvent('bid-submitted', (data: { bid: Bid }) => {
-      setBids(prev => [{ ...data.bid, price: Number(data.bid.price) }, ...prev]);
+      // A trader has one standing bid at a time, so the new one replaces theirs
+      setBids(prev => [
+        { ...data.bid, price: Number(data.bid.price) },
+        ...prev.filter(o => o.player_id !== data.bid.player_id),
+      ]);
     }));
 
     cleanups.push(onEvent('ask-submitted', (data: { ask: Ask }) => {
-      setAsks(prev => [{ ...data.ask, price: Number(data.ask.price) }, ...prev]);
+      // A trader has one standing ask at a time, so the new one replaces theirs
+      setAsks(prev => [
+        { ...data.ask, price: Number(data.ask.price) },
+        ...prev.filter(o => o.player_id !== data.ask.player_id),
+      ]);
+    }));
+
+    cleanups.push(onEvent('order-cancelled', (data: { side: 'bid' | 'ask'; orderId: string }) => {
+      const setOrders = data.side === 'bid' ? setBids : setAsks;
+      setOrders(prev => prev.filter(o => o.id !== data.orderId));
     }));
 
     cleanups.push(onEvent('trade-executed', (data: { trade: Trade; buyer: { id: string }; seller: { id: string } }) => {
@@ -277,11 +247,9 @@ export const Market: React.FC = () => {
       setRoundId(data.round.id);
       setRoundNumber(data.roundNumber);
       setRoundActive(true);
-      // Initialize countdown timer from session's time_per_round
-      // Use ref to avoid stale closure when session loads after socket connects
-      if (sessionRef.current?.time_per_round) {
-        setTimeRemaining(sessionRef.current.time_per_round);
-      }
+      setPaused(false);
+      // The server sends the new round's clock right after this
+      setRoundClock(null);
       setBids([]);
       setAsks([]);
       setTrades([]);
@@ -293,7 +261,7 @@ export const Market: React.FC = () => {
     cleanups.push(onEvent('round-ended', (data?: { trades?: Trade[] }) => {
       // Keep roundId so results can still be displayed; just mark round inactive
       setRoundActive(false);
-      setTimeRemaining(0);
+      setRoundClock(null);
       // Accept any server-sent trade data (e.g., final settlement trades)
       if (data?.trades) {
         setTrades(data.trades.map(t => ({
@@ -306,8 +274,9 @@ export const Market: React.FC = () => {
       toast('Round ended!', { icon: '🏁', id: 'round-ended' });
     }));
 
-    cleanups.push(onEvent('timer-update', (data: { seconds_remaining: number }) => {
-      setTimeRemaining(data.seconds_remaining);
+    // Round and phase deadlines, sent whenever the server's clock changes
+    cleanups.push(onEvent('round-clock', (data: RoundClock) => {
+      setRoundClock(data);
     }));
 
     cleanups.push(onEvent('auto-advance-scheduled', (data: { delayMs: number }) => {
@@ -321,6 +290,36 @@ export const Market: React.FC = () => {
       navigate(`/session/${code}/results`);
     }));
 
+    // Someone else was let into this seat after we dropped out
+    cleanups.push(onEvent('seat-taken-over', () => {
+      localStorage.removeItem('playerId');
+      localStorage.removeItem('playerToken');
+      toast.error('Your seat was given to another device. Ask your instructor to let you back in.', { id: 'seat-taken-over' });
+      navigate(`/join?code=${code}`);
+    }));
+
+    cleanups.push(onEvent('round-paused', () => {
+      setPaused(true);
+      toast('The instructor paused the game', { icon: '⏸️', id: 'round-paused' });
+    }));
+
+    cleanups.push(onEvent('round-resumed', () => {
+      setPaused(false);
+      toast('Game resumed', { icon: '▶️', id: 'round-resumed' });
+    }));
+
+    cleanups.push(onEvent('round-time-added', (data: { seconds: number }) => {
+      toast(`${data.seconds} seconds added to the round`, { icon: '⏱️', id: 'round-time-added' });
+    }));
+
+    cleanups.push(onEvent('session-config-updated', (data: SessionConfigUpdate) => {
+      setSession(prev => prev && { ...prev, treatments: data.treatments, num_rounds: data.numRounds });
+      setNumRounds(data.numRounds);
+      const notice = data.message
+        || (data.label ? `Settings change from round ${data.fromRound}` : `This session now has ${data.numRounds} rounds`);
+      toast(notice, { icon: '📢', duration: 8000, id: `config-${data.fromRound}-${data.numRounds}` });
+    }));
+
     cleanups.push(onEvent('error', (data: { message: string }) => {
       toast.error(data.message);
     }));
@@ -337,7 +336,15 @@ export const Market: React.FC = () => {
     }
   }, [roundId, isDAGame]);
 
-  if (loading || !session || !player) {
+  // Game UIs read game_config directly, so hand them this round's treatment
+  const roundSession = useMemo(
+    () => session?.treatments?.length
+      ? { ...session, game_config: configForRound(session, Math.max(roundNumber, 1)) }
+      : session,
+    [session, roundNumber]
+  );
+
+  if (loading || !session || !roundSession || !player) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Spinner />
@@ -395,7 +402,7 @@ export const Market: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-100">
       {/* Floating mobile timer — visible when scrolled */}
-      {timeRemaining > 0 && <Timer seconds={timeRemaining} floating />}
+      {roundActive && <Timer deadline={roundClock} offsetMs={serverOffsetMs} floating />}
 
       {/* Header — responsive two-row layout on mobile */}
       <div className="bg-white shadow-sm border-b safe-top">
@@ -420,7 +427,10 @@ export const Market: React.FC = () => {
             </div>
             <div className="flex items-center gap-2 md:gap-4">
               {/* Timer (visible in header on all sizes; also has floating duplicate for mobile scroll) */}
-              {timeRemaining > 0 && <Timer seconds={timeRemaining} />}
+              {roundActive && roundClock?.phase && (
+                <Timer deadline={roundClock.phase} offsetMs={serverOffsetMs} label={roundClock.phase.name} />
+              )}
+              {roundActive && <Timer deadline={roundClock} offsetMs={serverOffsetMs} />}
               <div className="text-sm text-gray-600 hidden md:block">
                 <span className="font-medium capitalize px-2 py-0.5 rounded bg-sky-100 text-sky-700">
                   {player?.role}
@@ -450,6 +460,11 @@ export const Market: React.FC = () => {
 
       {/* Game UI */}
       <div className="max-w-7xl mx-auto px-3 md:px-4 py-4 md:py-6 safe-bottom touch-game">
+        {paused && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-amber-100 text-amber-800 text-sm font-medium text-center">
+            Paused by the instructor — the clock is stopped and actions will be accepted again when the game resumes.
+          </div>
+        )}
         <GameInstructions gameType={gameType} variant="student" />
         <Suspense fallback={
           <div className="flex items-center justify-center py-20">
@@ -457,7 +472,7 @@ export const Market: React.FC = () => {
           </div>
         }>
           <GameUIComponent
-            session={session}
+            session={roundSession}
             player={player}
             playerId={playerId}
             code={code || ''}
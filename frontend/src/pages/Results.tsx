@@ -20,8 +20,11 @@ import {
 import { gameInstructions } from '../games/gameInstructions';
 import toast from 'react-hot-toast';
 import { AdminPasswordGate } from '../components/shared/AdminPasswordGate';
+import { BASELINE_LABEL } from '../games/treatments';
+import type { TreatmentBlock } from '../types';
 
 const DA_GAME_TYPES = ['double_auction', 'double_auction_tax', 'double_auction_price_controls'];
+const SEQUENTIAL_GAME_TYPES = ['ultimatum', 'bargaining', 'gift_exchange', 'principal_agent', 'trust_game', 'market_for_lemons'];
 
 const GAME_TYPE_LABELS: Record<string, string> = {
   double_auction: 'Double Auction',
@@ -73,6 +76,7 @@ interface ResultsData {
     code: string;
     gameType: string;
     gameConfig: Record<string, any>;
+    treatments?: TreatmentBlock[];
     numRounds: number;
     status: string;
     marketSize: number;
@@ -89,6 +93,7 @@ interface ResultsData {
   rounds: Array<{
     roundNumber: number;
     roundId: string;
+    treatment?: string;
     status: string;
     startedAt: string;
     endedAt: string;
@@ -111,6 +116,17 @@ interface ResultsData {
       profit: number;
       resultData: Record<string, any>;
     }>;
+    surplus?: {
+      realizedSurplus: number;
+      maxSurplus: number;
+      efficiency: number;
+      lostSurplus: number;
+      missedTradeLoss: number;
+      extraMarginalLoss: number;
+      tradedQuantity: number;
+      efficientQuantity: number;
+      competitivePrice: number | null;
+    } | null;
   }>;
   stats: {
     totalPlayers: number;
@@ -149,11 +165,38 @@ const ResultsContent: React.FC = () => {
     }
   };
 
-  const handleExport = (type: string) => {
+  const handleExport = async (type: string) => {
     if (!data) return;
-    const url = sessionsApi.getExportUrl(data.session.id, type, storedAdminPassword);
-    window.open(url, '_blank');
-    toast.success(`Downloading ${type} CSV...`);
+    try {
+      const blob = await sessionsApi.downloadExport(data.session.id, type, storedAdminPassword);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${data.session.code}_${type}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Downloading ${type} CSV...`);
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      toast.error('Failed to export CSV');
+    }
+  };
+
+  const handleArchive = async (format: 'bundle' | 'zip') => {
+    if (!data) return;
+    try {
+      const blob = await sessionsApi.downloadArchive(data.session.id, format, storedAdminPassword);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = format === 'zip' ? `${data.session.code}_data.zip` : `${data.session.code}_bundle.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(format === 'zip' ? 'Downloading data archive...' : 'Downloading JSON bundle...');
+    } catch (error) {
+      console.error('Failed to export session:', error);
+      toast.error('Failed to export session');
+    }
   };
 
   if (loading) {
@@ -191,6 +234,18 @@ const ResultsContent: React.FC = () => {
       return { ...player, rank };
     });
   const playerMap = new Map(data.players.map((p) => [p.id, p]));
+  const surplusRounds = data.rounds.flatMap((r) =>
+    r.status === 'completed' && r.surplus ? [{ roundNumber: r.roundNumber, treatment: r.treatment, surplus: r.surplus }] : []
+  );
+  // Each block runs until the next one starts; rounds before the first are the baseline
+  const treatments = data.session.treatments ?? [];
+  const treatmentSchedule = treatments.length === 0 ? [] : [
+    ...(treatments[0].startRound > 1 ? [{ label: BASELINE_LABEL, startRound: 1, overrides: {} }] : []),
+    ...treatments,
+  ].map((block, i, all) => ({
+    ...block,
+    endRound: i + 1 < all.length ? all[i + 1].startRound - 1 : data.session.numRounds,
+  }));
 
   return (
     <div className="min-h-screen bg-gray-50 py-8 safe-top safe-bottom">
@@ -220,7 +275,7 @@ const ResultsContent: React.FC = () => {
                 <span>{data.stats.completedRounds} / {data.session.numRounds} rounds completed</span>
               </div>
             </div>
-            <div className="flex gap-2">
+            <div className="flex flex-wrap justify-end gap-2">
               <Button variant="secondary" onClick={() => handleExport('players')}>
                 <Download className="w-4 h-4 inline mr-1" />
                 Players CSV
@@ -229,18 +284,48 @@ const ResultsContent: React.FC = () => {
                 <Download className="w-4 h-4 inline mr-1" />
                 Rounds CSV
               </Button>
+              <Button variant="secondary" onClick={() => handleExport('panel')}>
+                <Download className="w-4 h-4 inline mr-1" />
+                Panel CSV
+              </Button>
               {isDA && (
                 <Button variant="secondary" onClick={() => handleExport('trades')}>
                   <Download className="w-4 h-4 inline mr-1" />
                   Trades CSV
                 </Button>
               )}
+              {isDA && (
+                <Button variant="secondary" onClick={() => handleExport('values')}>
+                  <Download className="w-4 h-4 inline mr-1" />
+                  Values CSV
+                </Button>
+              )}
+              {isDA && (
+                <Button variant="secondary" onClick={() => handleExport('orders')}>
+                  <Download className="w-4 h-4 inline mr-1" />
+                  Orders CSV
+                </Button>
+              )}
               {!isDA && (
                 <Button variant="secondary" onClick={() => handleExport('actions')}>
                   <Download className="w-4 h-4 inline mr-1" />
                   Actions CSV
                 </Button>
               )}
+              {SEQUENTIAL_GAME_TYPES.includes(data.session.gameType) && (
+                <Button variant="secondary" onClick={() => handleExport('pairings')}>
+                  <Download className="w-4 h-4 inline mr-1" />
+                  Pairings CSV
+                </Button>
+              )}
+              <Button variant="secondary" onClick={() => handleArchive('bundle')}>
+                <Download className="w-4 h-4 inline mr-1" />
+                JSON Bundle
+              </Button>
+              <Button onClick={() => handleArchive('zip')}>
+                <Download className="w-4 h-4 inline mr-1" />
+                Data Zip + Codebook
+              </Button>
             </div>
           </div>
         </Card>
@@ -354,6 +439,84 @@ const ResultsContent: React.FC = () => {
           </div>
         </Card>
 
+        {/* Treatment Schedule */}
+        {treatmentSchedule.length > 0 && (
+          <Card title="Treatment Blocks" className="mb-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-500">
+                    <th className="text-left py-2 px-2">Block</th>
+                    <th className="text-left py-2 px-2">Rounds</th>
+                    <th className="text-left py-2 px-2">Changes from Base Settings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {treatmentSchedule.map((block) => (
+                    <tr key={block.startRound} className="border-b border-gray-100">
+                      <td className="py-2 px-2 font-medium">{block.label}</td>
+                      <td className="py-2 px-2">
+                        {block.startRound === block.endRound ? block.startRound : `${block.startRound}–${block.endRound}`}
+                      </td>
+                      <td className="py-2 px-2 font-mono text-xs text-gray-600">
+                        {Object.entries(block.overrides).map(([k, v]) => `${k} = ${JSON.stringify(v)}`).join(', ') || '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+
+        {/* Surplus & Efficiency */}
+        {surplusRounds.length > 0 && (
+          <Card title="Surplus & Efficiency" className="mb-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-500">
+                    <th className="text-left py-2 px-2">Round</th>
+                    {treatments.length > 0 && <th className="text-left py-2 px-2">Treatment</th>}
+                    <th className="text-right py-2 px-2">Efficiency</th>
+                    <th className="text-right py-2 px-2">Realized</th>
+                    <th className="text-right py-2 px-2">Maximum</th>
+                    <th className="text-right py-2 px-2">Missed Trades</th>
+                    <th className="text-right py-2 px-2">Extra-Marginal</th>
+                    <th className="text-right py-2 px-2">Quantity (Efficient)</th>
+                    <th className="text-right py-2 px-2">P*</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {surplusRounds.map(({ roundNumber, treatment, surplus }) => (
+                    <tr key={roundNumber} className="border-b border-gray-100">
+                      <td className="py-2 px-2">{roundNumber}</td>
+                      {treatments.length > 0 && <td className="py-2 px-2">{treatment}</td>}
+                      <td className={`py-2 px-2 text-right font-mono font-bold ${surplus.efficiency >= 90 ? 'text-green-600' : surplus.efficiency >= 70 ? 'text-yellow-600' : 'text-red-600'}`}>
+                        {surplus.efficiency.toFixed(1)}%
+                      </td>
+                      <td className="py-2 px-2 text-right font-mono">${surplus.realizedSurplus.toFixed(2)}</td>
+                      <td className="py-2 px-2 text-right font-mono">${surplus.maxSurplus.toFixed(2)}</td>
+                      <td className={`py-2 px-2 text-right font-mono ${surplus.missedTradeLoss > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        ${surplus.missedTradeLoss.toFixed(2)}
+                      </td>
+                      <td className={`py-2 px-2 text-right font-mono ${surplus.extraMarginalLoss > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        ${surplus.extraMarginalLoss.toFixed(2)}
+                      </td>
+                      <td className="py-2 px-2 text-right font-mono">
+                        {surplus.tradedQuantity} ({surplus.efficientQuantity})
+                      </td>
+                      <td className="py-2 px-2 text-right font-mono">
+                        {surplus.competitivePrice != null ? `$${surplus.competitivePrice.toFixed(2)}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+
         {/* Round-by-Round Details */}
         <Card title="Round Details">
           <div className="space-y-2">
@@ -365,6 +528,9 @@ const ResultsContent: React.FC = () => {
                 >
                   <div className="flex items-center gap-3">
                     <span className="font-medium">Round {round.roundNumber}</span>
+                    {treatments.length > 0 && round.treatment && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">{round.treatment}</span>
+                    )}
                     {isDA && round.trades && (
                       <span className="text-sm text-gray-500">{round.trades.length} trades</span>
                     )}
@@ -6,10 +6,15 @@ import { Timer } from '../components/shared/Timer';
 import { Spinner } from '../components/shared/Spinner';
 import { sessionsApi } from '../api/sessions';
 import { useSocket } from '../hooks/useSocket';
-import type { Session, Player, Round } from '../types';
-import { ArrowLeft, Play, Square, Users, Copy, Check, SkipForward, Clock, BarChart3, Download } from 'lucide-react';
+import type { Session, Player, Round, SessionConfigUpdate, RoundClock, JoinRequest, AbsentPolicy, PlayerPresence } from '../types';
+import { ArrowLeft, Play, Pause, Square, Users, Copy, Check, SkipForward, Clock, BarChart3, Download, Plus } from 'lucide-react';
 import { GameInstructions } from '../components/shared/GameInstructions';
+import { BASELINE_LABEL, treatmentForRound } from '../games/treatments';
 import { AdminPasswordGate } from '../components/shared/AdminPasswordGate';
+import { LiveChangesPanel, type LiveChangeRequest } from '../components/shared/LiveChangesPanel';
+import { LateJoinPanel } from '../components/shared/LateJoinPanel';
+import { PresencePanel } from '../components/shared/PresencePanel';
+import type { ConfigField } from '../components/shared/TreatmentBlocksEditor';
 import { QRCodeSVG } from 'qrcode.react';
 import { toPng } from 'html-to-image';
 import toast from 'react-hot-toast';
@@ -148,9 +153,12 @@ const SessionMonitorContent: React.FC = () => {
   const [copied, setCopied] = useState(false);
   const qrRef = useRef<HTMLDivElement>(null);
   const [currentRound, setCurrentRound] = useState<Round | null>(null);
-  const [timeRemaining, setTimeRemaining] = useState(0);
+  const [roundClock, setRoundClock] = useState<RoundClock | null>(null);
   const [autoAdvanceCountdown, setAutoAdvanceCountdown] = useState(0);
-  const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [configFields, setConfigFields] = useState<ConfigField[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [presence, setPresence] = useState<Record<string, PlayerPresence>>({});
   const autoAdvanceIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Ref to avoid stale session closure in socket event handlers
@@ -162,7 +170,7 @@ const SessionMonitorContent: React.FC = () => {
   const storedAdminPassword = code ? localStorage.getItem(`admin_pw_${code}`) || undefined : undefined;
 
   // Use socket for admin controls — use 'admin' as playerId since this is the monitor
-  const { socket: rawSocket, connected, onEvent } = useSocket(code || '', 'admin');
+  const { socket: rawSocket, connected, serverOffsetMs, onEvent } = useSocket(code || '', 'admin');
 
   // Admin-authorized socket emitters that include the admin password
   const startRound = useCallback((roundNumber: number) => {
@@ -181,20 +189,68 @@ const SessionMonitorContent: React.FC = () => {
     });
   }, [code, storedAdminPassword, rawSocket]);
 
-  const sendTimerUpdate = useCallback((secondsRemaining: number) => {
-    rawSocket?.emit('timer-update', {
+  const pauseRound = useCallback(() => {
+    rawSocket?.emit('pause-round', { sessionCode: code, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
+  const resumeRound = useCallback(() => {
+    rawSocket?.emit('resume-round', { sessionCode: code, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
+  const addTime = useCallback((seconds: number) => {
+    rawSocket?.emit('add-time', { sessionCode: code, seconds, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
+  const setAutoAdvance = useCallback((enabled: boolean) => {
+    rawSocket?.emit('set-auto-advance', { sessionCode: code, enabled, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
+  const setAbsentPolicy = useCallback((policy: AbsentPolicy, graceSeconds: number) => {
+    rawSocket?.emit('set-absent-policy', { sessionCode: code, policy, graceSeconds, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
+  const updateSessionConfig = useCallback((change: LiveChangeRequest) => {
+    rawSocket?.emit('update-session-config', {
       sessionCode: code,
-      secondsRemaining,
       adminPassword: storedAdminPassword,
+      ...change,
     });
   }, [code, storedAdminPassword, rawSocket]);
 
+  const approveLateJoin = useCallback((requestId: string, playerId: string | null) => {
+    rawSocket?.emit('approve-late-join', { sessionCode: code, requestId, playerId, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
+  const rejectLateJoin = useCallback((requestId: string) => {
+    rawSocket?.emit('reject-late-join', { sessionCode: code, requestId, adminPassword: storedAdminPassword });
+  }, [code, storedAdminPassword, rawSocket]);
+
   useEffect(() => {
     loadSession();
     const interval = setInterval(loadSession, 5000);
     return () => clearInterval(interval);
   }, []);
 
+  // Settings the engine accepts, for the live changes panel
+  useEffect(() => {
+    if (!session?.game_type) return;
+    sessionsApi.getGameTypes()
+      .then((types) => {
+        const fields = types.find((t) => t.gameType === session.game_type)?.config.configFields || [];
+        setConfigFields(fields.filter(
+          (f) => !f.daOnly && !['market_size', 'num_rounds', 'time_per_round'].includes(f.name)
+        ));
+      })
+      .catch((err) => console.error('Failed to load game settings:', err));
+  }, [session?.game_type]);
+
+  // Instructor-only events (e.g. late-join requests) go to a room the server
+  // checks admin access for; rejoin it whenever the socket reconnects
+  useEffect(() => {
+    if (!connected || !code) return;
+    rawSocket?.emit('join-admin', { sessionCode: code, adminPassword: storedAdminPassword });
+  }, [connected, code, storedAdminPassword, rawSocket]);
+
   // Listen for socket events
   useEffect(() => {
     if (!connected) return;
@@ -202,11 +258,14 @@ const SessionMonitorContent: React.FC = () => {
     const cleanups: (() => void)[] = [];
 
     cleanups.push(onEvent('round-started', (data: { round: { id: string }; roundNumber: number }) => {
+      setPaused(false);
+      setRoundClock(null);
       loadSession();
       toast.success(`Round ${data.roundNumber} started!`);
     }));
 
     cleanups.push(onEvent('round-ended', () => {
+      setRoundClock(null);
       loadSession();
       toast('Round ended!', { icon: '🏁' });
     }));
@@ -226,17 +285,72 @@ const SessionMonitorContent: React.FC = () => {
       loadSession();
     }));
 
+    cleanups.push(onEvent('late-join-requested', (data: { request: JoinRequest }) => {
+      setJoinRequests((prev) => prev.some((r) => r.id === data.request.id) ? prev : [...prev, data.request]);
+      toast(`${data.request.name || 'A student'} is asking to join`, { icon: '🙋' });
+    }));
+
+    cleanups.push(onEvent('late-join-decided', (data: { requestId: string }) => {
+      setJoinRequests((prev) => prev.filter((r) => r.id !== data.requestId));
+    }));
+
+    // The server ends rounds on its own clock; the monitor only displays it
+    cleanups.push(onEvent('round-clock', (data: RoundClock) => {
+      setRoundClock(data);
+    }));
+
+    cleanups.push(onEvent('round-paused', () => {
+      setPaused(true);
+      setAutoAdvanceCountdown(0);
+    }));
+
+    cleanups.push(onEvent('round-resumed', () => {
+      setPaused(false);
+    }));
+
+    cleanups.push(onEvent('round-time-added', (data: { seconds: number }) => {
+      toast.success(`Added ${data.seconds}s to the round`);
+    }));
+
+    cleanups.push(onEvent('auto-advance-changed', () => {
+      loadSession();
+    }));
+
+    cleanups.push(onEvent('absent-policy-changed', () => {
+      loadSession();
+    }));
+
+    // isActive/isBot come along when the absent policy changed the seat
+    cleanups.push(onEvent('presence-changed', (data: PlayerPresence & { isActive?: boolean; isBot?: boolean }) => {
+      const { isActive, isBot, ...entry } = data;
+      setPresence((prev) => ({ ...prev, [entry.playerId]: entry }));
+      if (isActive !== undefined && isBot !== undefined) {
+        setPlayers((prev) => prev.map((p) => p.id === entry.playerId ? { ...p, is_active: isActive, is_bot: isBot } : p));
+      }
+    }));
+
+    cleanups.push(onEvent('session-config-updated', (data: SessionConfigUpdate) => {
+      loadSession();
+      toast.success(data.label
+        ? `"${data.label}" applies from round ${data.fromRound}`
+        : `Session now has ${data.numRounds} rounds`);
+    }));
+
+    cleanups.push(onEvent('error', (data: { message: string }) => {
+      toast.error(data.message);
+    }));
+
     cleanups.push(onEvent('trade-executed', () => {
       // Refresh players to see updated profits — use ref to avoid stale closure
       if (sessionRef.current) {
-        sessionsApi.getPlayers(sessionRef.current.id).then(setPlayers).catch(console.error);
+        sessionsApi.getPlayers(sessionRef.current.id, storedAdminPassword).then(setPlayers).catch(console.error);
       }
     }));
 
     cleanups.push(onEvent('round-results', () => {
       // Refresh players after simultaneous/sequential round results are computed
       if (sessionRef.current) {
-        sessionsApi.getPlayers(sessionRef.current.id).then(setPlayers).catch(console.error);
+        sessionsApi.getPlayers(sessionRef.current.id, storedAdminPassword).then(setPlayers).catch(console.error);
       }
     }));
 
@@ -245,48 +359,6 @@ const SessionMonitorContent: React.FC = () => {
     };
   }, [connected, onEvent, session?.id]);
 
-  // Refs for stale closure prevention — initialized below after callbacks are defined
-  const sendTimerUpdateRef = useRef(sendTimerUpdate);
-  sendTimerUpdateRef.current = sendTimerUpdate;
-  const handleEndRoundRef = useRef<() => void>(() => {});
-
-  // Timer countdown effect
-  useEffect(() => {
-    if (timerIntervalRef.current) {
-      clearInterval(timerIntervalRef.current);
-      timerIntervalRef.current = null;
-    }
-
-    if (currentRound && currentRound.status === 'active' && timeRemaining > 0) {
-      timerIntervalRef.current = setInterval(() => {
-        setTimeRemaining(prev => {
-          const next = prev - 1;
-          // Broadcast timer to players every 5 seconds
-          if (next > 0 && next % 5 === 0) {
-            sendTimerUpdateRef.current(next);
-          }
-          if (next <= 0) {
-            if (timerIntervalRef.current) {
-              clearInterval(timerIntervalRef.current);
-              timerIntervalRef.current = null;
-            }
-            // Auto-end round when timer expires
-            handleEndRoundRef.current();
-            return 0;
-          }
-          return next;
-        });
-      }, 1000);
-    }
-
-    return () => {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-        timerIntervalRef.current = null;
-      }
-    };
-  }, [currentRound?.id, currentRound?.status]);
-
   // Auto-advance countdown effect
   useEffect(() => {
     if (autoAdvanceIntervalRef.current) {
@@ -332,24 +404,19 @@ const SessionMonitorContent: React.FC = () => {
 
       // Load players and rounds
       const [playerData, roundData] = await Promise.all([
-        sessionsApi.getPlayers(data.id),
+        sessionsApi.getPlayers(data.id, storedAdminPassword),
         sessionsApi.getRounds(data.id),
       ]);
       setPlayers(playerData);
       setRounds(roundData);
+      setJoinRequests(data.status === 'active' ? await sessionsApi.getJoinRequests(data.id, storedAdminPassword) : []);
+      const presenceData = await sessionsApi.getPresence(data.id, storedAdminPassword);
+      setPresence(Object.fromEntries(presenceData.map((entry) => [entry.playerId, entry])));
 
       // Find the current active round
       const activeRound = roundData.find(r => r.status === 'active');
       if (activeRound && (!currentRound || currentRound.id !== activeRound.id)) {
         setCurrentRound(activeRound);
-        // Set timer based on session config
-        if (activeRound.started_at) {
-          const elapsed = Math.floor((Date.now() - new Date(activeRound.started_at).getTime()) / 1000);
-          const remaining = Math.max(0, data.time_per_round - elapsed);
-          setTimeRemaining(remaining);
-        } else {
-          setTimeRemaining(data.time_per_round);
-        }
       } else if (!activeRound) {
         setCurrentRound(null);
       }
@@ -365,10 +432,6 @@ const SessionMonitorContent: React.FC = () => {
     try {
       await sessionsApi.start(session.id, storedAdminPassword);
       toast.success('Session started!');
-      // The session start also starts round 1, so set timer
-      setTimeRemaining(session.time_per_round);
-      // Send initial timer to players
-      sendTimerUpdate(session.time_per_round);
       loadSession();
     } catch (error) {
       console.error('Failed to start session:', error);
@@ -391,19 +454,13 @@ const SessionMonitorContent: React.FC = () => {
   const handleStartRound = useCallback((roundNumber: number) => {
     if (!session) return;
     startRound(roundNumber);
-    setTimeRemaining(session.time_per_round);
-    sendTimerUpdate(session.time_per_round);
-  }, [session, startRound, sendTimerUpdate]);
+  }, [session, startRound]);
 
   const handleEndRound = useCallback(() => {
     if (!currentRound) return;
     endRound(currentRound.id);
-    setTimeRemaining(0);
   }, [currentRound, endRound]);
 
-  // Keep handleEndRoundRef in sync after definition
-  handleEndRoundRef.current = handleEndRound;
-
   const handleNextRound = useCallback(() => {
     if (!session || !rounds.length) return;
     // Find the next waiting round
@@ -508,8 +565,14 @@ const SessionMonitorContent: React.FC = () => {
               </div>
             </div>
             <div className="flex gap-2 items-center">
-              {currentRound && timeRemaining > 0 && (
-                <Timer seconds={timeRemaining} />
+              {currentRound && roundClock?.phase && (
+                <Timer deadline={roundClock.phase} offsetMs={serverOffsetMs} label={roundClock.phase.name} />
+              )}
+              {currentRound && <Timer deadline={roundClock} offsetMs={serverOffsetMs} />}
+              {paused && (
+                <span className="px-3 py-2 bg-amber-100 text-amber-800 rounded text-sm font-medium">
+                  Paused
+                </span>
               )}
               <Button variant="secondary" onClick={() => navigate(`/session/${code}/analytics`)}>
                 <BarChart3 className="w-4 h-4 inline mr-2" />
@@ -524,6 +587,34 @@ const SessionMonitorContent: React.FC = () => {
                   Start Session
                 </Button>
               )}
+              {session.status === 'active' && (
+                <label className="flex items-center gap-1.5 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={session.auto_advance !== false}
+                    onChange={(e) => setAutoAdvance(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                  Auto-advance
+                </label>
+              )}
+              {session.status === 'active' && (paused ? (
+                <Button variant="secondary" onClick={resumeRound}>
+                  <Play className="w-4 h-4 inline mr-2" />
+                  Resume
+                </Button>
+              ) : (
+                <Button variant="secondary" onClick={pauseRound}>
+                  <Pause className="w-4 h-4 inline mr-2" />
+                  Pause
+                </Button>
+              ))}
+              {session.status === 'active' && currentRound && (
+                <Button variant="secondary" onClick={() => addTime(30)}>
+                  <Plus className="w-4 h-4 inline mr-1" />
+                  30s
+                </Button>
+              )}
               {session.status === 'active' && !currentRound && autoAdvanceCountdown > 0 && (
                 <span className="px-3 py-2 bg-amber-100 text-amber-800 rounded text-sm font-medium">
                   Next round in {autoAdvanceCountdown}s...
@@ -666,6 +757,54 @@ const SessionMonitorContent: React.FC = () => {
           </Card>
         )}
 
+        {/* Treatment schedule, with the block now in force highlighted */}
+        {session.treatments && session.treatments.length > 0 && (() => {
+          const active = treatmentForRound(session.treatments, currentRound?.round_number ?? session.current_round);
+          return (
+            <Card title="Treatment Blocks" className="mb-6">
+              <div className="space-y-2">
+                {session.treatments[0].startRound > 1 && (
+                  <div className={`px-3 py-2 rounded text-sm ${active ? 'bg-gray-50 text-gray-600' : 'bg-purple-100 text-purple-800 font-medium'}`}>
+                    {BASELINE_LABEL} &middot; from round 1: base settings
+                  </div>
+                )}
+                {session.treatments.map((block) => (
+                  <div
+                    key={block.startRound}
+                    className={`px-3 py-2 rounded text-sm ${block === active ? 'bg-purple-100 text-purple-800 font-medium' : 'bg-gray-50 text-gray-600'}`}
+                  >
+                    {block.label} &middot; from round {block.startRound}:{' '}
+                    <span className="font-mono text-xs">
+                      {Object.entries(block.overrides).map(([k, v]) => `${k} = ${JSON.stringify(v)}`).join(', ') || 'no changes'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          );
+        })()}
+
+        {/* Who is connected, and what happens to those who drop out */}
+        {(session.status === 'waiting' || session.status === 'active') && (
+          <PresencePanel session={session} players={players} presence={presence} onPolicyChange={setAbsentPolicy} />
+        )}
+
+        {/* Students who arrived after the session started */}
+        {session.status === 'active' && joinRequests.length > 0 && (
+          <LateJoinPanel
+            requests={joinRequests}
+            players={players}
+            hasRoom={players.length < session.market_size}
+            onApprove={approveLateJoin}
+            onReject={rejectLateJoin}
+          />
+        )}
+
+        {/* Live changes between rounds */}
+        {(session.status === 'waiting' || session.status === 'active') && (
+          <LiveChangesPanel session={session} fields={configFields} onApply={updateSessionConfig} />
+        )}
+
         {/* Instructor Notes */}
         <GameInstructions gameType={session.game_type} variant="instructor" />
 
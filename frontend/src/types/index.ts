@@ -15,14 +15,54 @@ export interface Session {
   cost_max: number;
   cost_increments: number;
   bot_enabled: boolean;
+  /** Start the next round automatically a few seconds after one ends */
+  auto_advance?: boolean;
+  /** What happens to a player who stays disconnected past the grace period */
+  absent_policy?: AbsentPolicy;
+  absent_grace_seconds?: number;
   has_passcode?: boolean;
   has_admin_password?: boolean;
+  owner_id?: string | null;
+  /** Labels such as course, section, semester and treatment */
+  tags?: Record<string, string>;
+  /** Scheduled game_config changes, sorted by start round */
+  treatments?: TreatmentBlock[];
   current_round: number;
   created_at: string;
   started_at?: string;
   ended_at?: string;
 }
 
+// skip: rounds stop waiting for them; default_action: the game's default
+// move is played for them; bot: the game's bot plays their seat
+export type AbsentPolicy = 'skip' | 'default_action' | 'bot';
+
+// Rounds from startRound until the next block play with overrides on top of game_config
+export interface TreatmentBlock {
+  label: string;
+  startRound: number;
+  overrides: Record<string, unknown>;
+}
+
+// Broadcast when the instructor changes settings or the round count mid-session
+export interface SessionConfigUpdate {
+  fromRound: number;
+  numRounds: number;
+  treatments: TreatmentBlock[];
+  /** Label of the block the change created, null when only rounds changed */
+  label: string | null;
+  changes: Record<string, unknown>;
+  message: string | null;
+}
+
+// Instructor account (password hash never leaves the server)
+export interface Instructor {
+  id: string;
+  email: string;
+  name?: string | null;
+  created_at: string;
+}
+
 export interface CreateSessionData {
   game_type?: string;
   game_config?: Record<string, any>;
@@ -36,8 +76,12 @@ export interface CreateSessionData {
   cost_max: number;
   cost_increments: number;
   bot_enabled?: boolean;
+  auto_advance?: boolean;
+  absent_policy?: AbsentPolicy;
+  absent_grace_seconds?: number;
   passcode?: string;
-  admin_password?: string;
+  tags?: Record<string, string>;
+  treatments?: TreatmentBlock[];
 }
 
 // Player types
@@ -55,6 +99,25 @@ export interface Player {
   created_at: string;
 }
 
+// A student asking to join after the session started; the instructor seats
+// them in a new seat, a disconnected player's seat or a bot's
+export interface JoinRequest {
+  id: string;
+  session_id: string;
+  name: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  player_id: string | null;
+  created_at: string;
+  decided_at: string | null;
+}
+
+// Whether a player's market page is open, and since when
+export interface PlayerPresence {
+  playerId: string;
+  connected: boolean;
+  since: string;
+}
+
 // Round types
 export interface Round {
   id: string;
@@ -63,16 +126,41 @@ export interface Round {
   status: 'waiting' | 'active' | 'completed';
   started_at?: string;
   ended_at?: string;
+  /** When the running round is due to end, per the server's clock */
+  ends_at?: string | null;
+  /** Set while the round is paused */
+  paused_at?: string | null;
+}
+
+// The server's round-clock broadcast. Deadlines are server epoch ms and null
+// while paused; remainingMs is what a paused countdown shows.
+export interface RoundClock {
+  roundId: string;
+  serverNow: number;
+  paused: boolean;
+  endsAt: number | null;
+  remainingMs: number | null;
+  /** The engine's current sub-phase (posting, shopping, trade, ...) */
+  phase: {
+    name: string;
+    endsAt: number | null;
+    remainingMs: number;
+  } | null;
 }
 
 // Bid/Ask types
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'replaced' | 'expired';
+
 export interface Bid {
   id: string;
   round_id: string;
   player_id: string;
   price: number;
+  unit_number?: number;
   is_active: boolean;
+  status?: OrderStatus;
   created_at: string;
+  closed_at?: string;
 }
 
 export interface Ask {
@@ -80,8 +168,11 @@ export interface Ask {
   round_id: string;
   player_id: string;
   price: number;
+  unit_number?: number;
   is_active: boolean;
+  status?: OrderStatus;
   created_at: string;
+  closed_at?: string;
 }
 
 // Trade types
@@ -95,6 +186,8 @@ export interface Trade {
   price: number;
   buyer_profit: number;
   seller_profit: number;
+  buyer_unit?: number;
+  seller_unit?: number;
   created_at: string;
 }
 
@@ -131,7 +224,7 @@ export interface GameTypeConfig {
     configFields: Array<{
       name: string;
       label: string;
-      type: 'number' | 'select' | 'checkbox';
+      type: 'number' | 'select' | 'checkbox' | 'textarea';
       default: any;
       min?: number;
       max?: number;
@@ -144,6 +237,33 @@ export interface GameTypeConfig {
   };
 }
 
+// Cross-session comparison (GET /api/analytics/compare)
+export interface ComparisonMetric {
+  mean: number;
+  n: number;
+}
+
+export interface ComparisonSummary {
+  players: number;
+  completedRounds: number;
+  metrics: Record<string, ComparisonMetric>;
+  rounds: Array<{ roundNumber: number; metrics: Record<string, ComparisonMetric> }>;
+}
+
+export interface SessionComparisonResult {
+  groupBy: string | null;
+  gameTypes: string[];
+  sessions: Array<ComparisonSummary & {
+    id: string;
+    code: string;
+    gameType: string;
+    status: Session['status'];
+    tags: Record<string, string>;
+    createdAt: string;
+  }>;
+  groups: Array<ComparisonSummary & { key: string; sessionIds: string[] }>;
+}
+
 // API response types
 export interface ApiResponse<T = any> {
   success: boolean;